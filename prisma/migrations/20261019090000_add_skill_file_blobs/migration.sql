@@ -0,0 +1,13 @@
+-- CreateTable
+CREATE TABLE `skill_file_blobs` (
+    `id` INTEGER NOT NULL AUTO_INCREMENT,
+    `sha256` VARCHAR(64) NOT NULL,
+    `is_binary` BOOLEAN NOT NULL DEFAULT false,
+    `content_text` MEDIUMTEXT NULL,
+    `content_bytes` MEDIUMBLOB NULL,
+    `size` INTEGER NOT NULL DEFAULT 0,
+    `created_at` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    UNIQUE INDEX `skill_file_blobs_sha256_key`(`sha256`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
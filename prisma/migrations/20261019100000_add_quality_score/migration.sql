@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE `skills` ADD COLUMN `quality_score` INTEGER NULL;
+
+-- AlterTable
+ALTER TABLE `skill_versions` ADD COLUMN `quality_score` INTEGER NULL,
+    ADD COLUMN `quality_report` JSON NULL;
+
+-- CreateIndex
+CREATE INDEX `skills_quality_score_idx` ON `skills`(`quality_score`);
@@ -0,0 +1,16 @@
+-- CreateTable
+CREATE TABLE `skill_templates` (
+    `id` INTEGER NOT NULL AUTO_INCREMENT,
+    `name` VARCHAR(120) NOT NULL,
+    `description` TEXT NOT NULL,
+    `payload` JSON NOT NULL,
+    `files` JSON NOT NULL,
+    `tags` JSON NOT NULL,
+    `created_at` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updated_at` DATETIME(3) NOT NULL,
+    `created_by` VARCHAR(150) NOT NULL DEFAULT 'SYS',
+    `updated_by` VARCHAR(150) NOT NULL DEFAULT 'SYS',
+
+    UNIQUE INDEX `skill_templates_name_key`(`name`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
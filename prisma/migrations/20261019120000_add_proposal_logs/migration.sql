@@ -0,0 +1,29 @@
+-- CreateTable
+CREATE TABLE `proposal_logs` (
+    `id` INTEGER NOT NULL AUTO_INCREMENT,
+    `skill_id` INTEGER NOT NULL,
+    `action` VARCHAR(40) NOT NULL,
+    `instruction` TEXT NULL,
+    `prompt` TEXT NOT NULL,
+    `change_set` JSON NULL,
+    `status` VARCHAR(20) NOT NULL DEFAULT 'proposed',
+    `error` TEXT NULL,
+    `input_tokens` INTEGER NULL,
+    `output_tokens` INTEGER NULL,
+    `cost_usd` DOUBLE NULL,
+    `applied_change_set` JSON NULL,
+    `skill_version_id` INTEGER NULL,
+    `applied_at` DATETIME(3) NULL,
+    `created_at` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updated_at` DATETIME(3) NOT NULL,
+    `created_by` VARCHAR(150) NOT NULL DEFAULT 'SYS',
+
+    INDEX `proposal_logs_skill_id_created_at_idx`(`skill_id`, `created_at`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `proposal_logs` ADD CONSTRAINT `proposal_logs_skill_id_fkey` FOREIGN KEY (`skill_id`) REFERENCES `skills`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `proposal_logs` ADD CONSTRAINT `proposal_logs_skill_version_id_fkey` FOREIGN KEY (`skill_version_id`) REFERENCES `skill_versions`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE `skill_versions` ADD COLUMN `origin` VARCHAR(20) NOT NULL DEFAULT 'manual';
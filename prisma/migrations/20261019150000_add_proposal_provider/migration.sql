@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE `proposal_logs` ADD COLUMN `provider` VARCHAR(20) NULL;
@@ -0,0 +1,20 @@
+-- CreateTable
+CREATE TABLE `skill_test_runs` (
+    `id` INTEGER NOT NULL AUTO_INCREMENT,
+    `skill_id` INTEGER NOT NULL,
+    `provider` VARCHAR(20) NOT NULL,
+    `grader` VARCHAR(20) NOT NULL,
+    `total` INTEGER NOT NULL,
+    `passed` INTEGER NOT NULL,
+    `pass_rate` DOUBLE NOT NULL,
+    `duration_ms` INTEGER NOT NULL,
+    `results` JSON NOT NULL,
+    `created_at` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `created_by` VARCHAR(150) NOT NULL DEFAULT 'SYS',
+
+    INDEX `skill_test_runs_skill_id_created_at_idx`(`skill_id`, `created_at`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `skill_test_runs` ADD CONSTRAINT `skill_test_runs_skill_id_fkey` FOREIGN KEY (`skill_id`) REFERENCES `skills`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,22 @@
+-- CreateTable
+CREATE TABLE `skill_usage_events` (
+    `id` INTEGER NOT NULL AUTO_INCREMENT,
+    `skill_id` INTEGER NOT NULL,
+    `slug` VARCHAR(64) NOT NULL,
+    `version` INTEGER NULL,
+    `outcome` VARCHAR(20) NOT NULL,
+    `latency_ms` INTEGER NULL,
+    `trigger` VARCHAR(500) NULL,
+    `source` VARCHAR(100) NULL,
+    `occurred_at` DATETIME(3) NOT NULL,
+    `day` DATE NOT NULL,
+    `created_at` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    INDEX `skill_usage_events_skill_id_occurred_at_idx`(`skill_id`, `occurred_at`),
+    INDEX `skill_usage_events_occurred_at_idx`(`occurred_at`),
+    INDEX `skill_usage_events_day_outcome_idx`(`day`, `outcome`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `skill_usage_events` ADD CONSTRAINT `skill_usage_events_skill_id_fkey` FOREIGN KEY (`skill_id`) REFERENCES `skills`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,22 @@
+-- AlterTable
+ALTER TABLE `skill_publications` ADD COLUMN `channel` VARCHAR(40) NULL;
+
+-- CreateTable
+CREATE TABLE `skill_channels` (
+    `id` INTEGER NOT NULL AUTO_INCREMENT,
+    `skill_id` INTEGER NOT NULL,
+    `name` VARCHAR(40) NOT NULL,
+    `skill_version_id` INTEGER NOT NULL,
+    `created_at` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updated_at` DATETIME(3) NOT NULL,
+
+    INDEX `skill_channels_name_idx`(`name`),
+    UNIQUE INDEX `skill_channels_skill_id_name_key`(`skill_id`, `name`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `skill_channels` ADD CONSTRAINT `skill_channels_skill_id_fkey` FOREIGN KEY (`skill_id`) REFERENCES `skills`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `skill_channels` ADD CONSTRAINT `skill_channels_skill_version_id_fkey` FOREIGN KEY (`skill_version_id`) REFERENCES `skill_versions`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE `skill_publications` ADD COLUMN `git_commit_sha` VARCHAR(64) NULL,
+    ADD COLUMN `git_synced_at` DATETIME(3) NULL;
@@ -0,0 +1,20 @@
+-- AlterTable
+ALTER TABLE `skills` ADD COLUMN `synced_content_hash` VARCHAR(64) NULL;
+
+-- CreateTable
+CREATE TABLE `skill_upstream_changes` (
+    `id` INTEGER NOT NULL AUTO_INCREMENT,
+    `skill_id` INTEGER NOT NULL,
+    `source_ref` VARCHAR(120) NULL,
+    `source_sha` VARCHAR(191) NOT NULL,
+    `snapshot` JSON NOT NULL,
+    `status` VARCHAR(20) NOT NULL DEFAULT 'pending',
+    `created_at` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `resolved_at` DATETIME(3) NULL,
+
+    INDEX `skill_upstream_changes_skill_id_created_at_idx`(`skill_id`, `created_at`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `skill_upstream_changes` ADD CONSTRAINT `skill_upstream_changes_skill_id_fkey` FOREIGN KEY (`skill_id`) REFERENCES `skills`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,47 @@
+-- AlterTable
+ALTER TABLE `skill_drafts` ADD COLUMN `created_by` VARCHAR(150) NOT NULL DEFAULT 'SYS',
+    ADD COLUMN `updated_by` VARCHAR(150) NOT NULL DEFAULT 'SYS';
+
+-- AlterTable
+ALTER TABLE `skill_versions` ADD COLUMN `created_by` VARCHAR(150) NOT NULL DEFAULT 'SYS';
+
+-- AlterTable
+ALTER TABLE `skill_publications` ADD COLUMN `created_by` VARCHAR(150) NOT NULL DEFAULT 'SYS';
+
+-- AlterTable
+ALTER TABLE `skill_files` ADD COLUMN `created_by` VARCHAR(150) NOT NULL DEFAULT 'SYS',
+    ADD COLUMN `updated_by` VARCHAR(150) NOT NULL DEFAULT 'SYS';
+
+-- CreateTable
+CREATE TABLE `users` (
+    `id` INTEGER NOT NULL AUTO_INCREMENT,
+    `username` VARCHAR(64) NOT NULL,
+    `display_name` VARCHAR(100) NOT NULL,
+    `email` VARCHAR(191) NULL,
+    `password_hash` VARCHAR(255) NULL,
+    `status` VARCHAR(20) NOT NULL DEFAULT 'active',
+    `last_login_at` DATETIME(3) NULL,
+    `created_at` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updated_at` DATETIME(3) NOT NULL,
+
+    UNIQUE INDEX `users_username_key`(`username`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable
+CREATE TABLE `user_sessions` (
+    `id` INTEGER NOT NULL AUTO_INCREMENT,
+    `user_id` INTEGER NOT NULL,
+    `token_hash` CHAR(64) NOT NULL,
+    `expires_at` DATETIME(3) NOT NULL,
+    `revoked_at` DATETIME(3) NULL,
+    `user_agent` VARCHAR(255) NULL,
+    `created_at` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    UNIQUE INDEX `user_sessions_token_hash_key`(`token_hash`),
+    INDEX `user_sessions_user_id_idx`(`user_id`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `user_sessions` ADD CONSTRAINT `user_sessions_user_id_fkey` FOREIGN KEY (`user_id`) REFERENCES `users`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,23 @@
+-- AlterTable
+ALTER TABLE `users` ADD COLUMN `role` VARCHAR(20) NOT NULL DEFAULT 'author';
+
+-- AlterTable
+ALTER TABLE `skills` ADD COLUMN `owner` VARCHAR(150) NOT NULL DEFAULT 'SYS';
+
+-- 已有 Skill 的负责人沿用创建者
+UPDATE `skills` SET `owner` = `created_by`;
+
+-- CreateTable
+CREATE TABLE `skill_maintainers` (
+    `id` INTEGER NOT NULL AUTO_INCREMENT,
+    `skill_id` INTEGER NOT NULL,
+    `username` VARCHAR(150) NOT NULL,
+    `created_at` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `created_by` VARCHAR(150) NOT NULL DEFAULT 'SYS',
+
+    UNIQUE INDEX `skill_maintainers_skill_id_username_key`(`skill_id`, `username`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `skill_maintainers` ADD CONSTRAINT `skill_maintainers_skill_id_fkey` FOREIGN KEY (`skill_id`) REFERENCES `skills`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
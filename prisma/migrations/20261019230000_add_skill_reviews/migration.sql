@@ -0,0 +1,39 @@
+-- CreateTable
+CREATE TABLE `skill_reviews` (
+    `id` INTEGER NOT NULL AUTO_INCREMENT,
+    `skill_id` INTEGER NOT NULL,
+    `skill_version_id` INTEGER NOT NULL,
+    `status` VARCHAR(20) NOT NULL DEFAULT 'pending',
+    `required_approvals` INTEGER NOT NULL DEFAULT 1,
+    `note` TEXT NULL,
+    `created_at` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `created_by` VARCHAR(150) NOT NULL DEFAULT 'SYS',
+    `resolved_at` DATETIME(3) NULL,
+
+    INDEX `skill_reviews_skill_id_created_at_idx`(`skill_id`, `created_at`),
+    INDEX `skill_reviews_status_created_at_idx`(`status`, `created_at`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable
+CREATE TABLE `skill_review_decisions` (
+    `id` INTEGER NOT NULL AUTO_INCREMENT,
+    `review_id` INTEGER NOT NULL,
+    `decision` VARCHAR(20) NOT NULL,
+    `comment` TEXT NULL,
+    `field_comments` JSON NOT NULL,
+    `created_at` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `created_by` VARCHAR(150) NOT NULL DEFAULT 'SYS',
+
+    UNIQUE INDEX `skill_review_decisions_review_id_created_by_key`(`review_id`, `created_by`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `skill_reviews` ADD CONSTRAINT `skill_reviews_skill_id_fkey` FOREIGN KEY (`skill_id`) REFERENCES `skills`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `skill_reviews` ADD CONSTRAINT `skill_reviews_skill_version_id_fkey` FOREIGN KEY (`skill_version_id`) REFERENCES `skill_versions`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `skill_review_decisions` ADD CONSTRAINT `skill_review_decisions_review_id_fkey` FOREIGN KEY (`review_id`) REFERENCES `skill_reviews`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
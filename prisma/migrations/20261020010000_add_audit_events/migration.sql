@@ -0,0 +1,29 @@
+-- CreateTable
+CREATE TABLE `audit_events` (
+    `id` INTEGER NOT NULL AUTO_INCREMENT,
+    `actor` VARCHAR(150) NOT NULL DEFAULT 'SYS',
+    `action` VARCHAR(50) NOT NULL,
+    `entity_type` VARCHAR(30) NOT NULL,
+    `entity_id` VARCHAR(191) NOT NULL,
+    `entity_label` VARCHAR(255) NULL,
+    `skill_id` INTEGER NULL,
+    `before` JSON NULL,
+    `after` JSON NULL,
+    `request_id` VARCHAR(64) NOT NULL,
+    `created_at` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    INDEX `audit_events_created_at_idx`(`created_at`),
+    INDEX `audit_events_entity_type_entity_id_idx`(`entity_type`, `entity_id`),
+    INDEX `audit_events_skill_id_created_at_idx`(`skill_id`, `created_at`),
+    INDEX `audit_events_actor_created_at_idx`(`actor`, `created_at`),
+    INDEX `audit_events_action_created_at_idx`(`action`, `created_at`),
+    INDEX `audit_events_request_id_idx`(`request_id`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- Append-only: reject UPDATE / DELETE at the database level
+CREATE TRIGGER `audit_events_no_update` BEFORE UPDATE ON `audit_events`
+FOR EACH ROW SIGNAL SQLSTATE '45000' SET MESSAGE_TEXT = 'audit_events is append-only';
+
+CREATE TRIGGER `audit_events_no_delete` BEFORE DELETE ON `audit_events`
+FOR EACH ROW SIGNAL SQLSTATE '45000' SET MESSAGE_TEXT = 'audit_events is append-only';
@@ -0,0 +1,50 @@
+/**
+ * 创建或重置本地账号
+ * 用法：npx tsx scripts/create-local-user.ts <username> <password> [displayName] [role]
+ * role 为 viewer | author | reviewer | admin，新建时缺省 author
+ * 用户已存在时更新密码、显示名与角色并重新启用
+ */
+import { PrismaClient } from '@prisma/client'
+import { hashPassword, isReservedUsername, SYSTEM_ACTOR } from '../src/lib/auth'
+import { isUserRole, USER_ROLES } from '../src/lib/permissions'
+
+const prisma = new PrismaClient()
+
+async function main() {
+  const [username, password, displayName, role] = process.argv.slice(2).filter((arg) => arg !== '--')
+  if (!username || !password) {
+    console.error('Usage: npx tsx scripts/create-local-user.ts <username> <password> [displayName] [role]')
+    process.exit(1)
+  }
+  if (role !== undefined && !isUserRole(role)) {
+    console.error(`role must be one of ${USER_ROLES.join(', ')}`)
+    process.exit(1)
+  }
+  if (!/^[a-z0-9._-]{1,64}$/i.test(username)) {
+    console.error('username may only contain letters, digits, ".", "_" and "-" (max 64)')
+    process.exit(1)
+  }
+  if (isReservedUsername(username)) {
+    console.error(`username "${SYSTEM_ACTOR}" is reserved for system actions`)
+    process.exit(1)
+  }
+  if (password.length < 8) {
+    console.error('password must be at least 8 characters')
+    process.exit(1)
+  }
+
+  const passwordHash = await hashPassword(password)
+  const user = await prisma.user.upsert({
+    where: { username },
+    update: { passwordHash, status: 'active', ...(displayName ? { displayName } : {}), ...(role ? { role } : {}) },
+    create: { username, displayName: displayName || username, passwordHash, ...(role ? { role } : {}) },
+  })
+  console.log(`User "${user.username}" (${user.displayName}, ${user.role}) is ready`)
+}
+
+main()
+  .catch((err) => {
+    console.error(err)
+    process.exit(1)
+  })
+  .finally(() => prisma.$disconnect())
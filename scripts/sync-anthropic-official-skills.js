@@ -3,18 +3,20 @@
 /**
  * Sync official Anthropic skills (anthropics/skills -> skills/*) into local DB.
  *
- * Usage:
- *   node scripts/sync-anthropic-official-skills.js --dry-run
- *   node scripts/sync-anthropic-official-skills.js --apply
- *   node scripts/sync-anthropic-official-skills.js --apply --ref main
+ * Usage (run with tsx so the shared TypeScript parser in src/lib can be required):
+ *   npx tsx scripts/sync-anthropic-official-skills.js --dry-run
+ *   npx tsx scripts/sync-anthropic-official-skills.js --apply
+ *   npx tsx scripts/sync-anthropic-official-skills.js --apply --ref main
  */
 
 const path = require('path')
 const fs = require('fs')
 const crypto = require('crypto')
-const yaml = require('js-yaml')
 const AdmZip = require('adm-zip')
 const { PrismaClient } = require('@prisma/client')
+// src/lib 下是 TypeScript 模块，脚本需经 tsx 运行
+const { computeSkillContentHash } = require('../src/lib/skill-drift')
+const { extractSkillFromMarkdown, lowConfidenceFields } = require('../src/lib/skill-extract')
 
 const UPSTREAM_REPO = 'anthropics/skills'
 const DEFAULT_REF = 'main'
@@ -90,14 +92,10 @@ function parseArgs(argv) {
 }
 
 function printUsageAndExit(code) {
-  console.log('Usage: node scripts/sync-anthropic-official-skills.js [--dry-run|--apply] [--ref <git-ref>]')
+  console.log('Usage: npx tsx scripts/sync-anthropic-official-skills.js [--dry-run|--apply] [--ref <git-ref>]')
   process.exit(code)
 }
 
-function normalizeNewlines(text) {
-  return text.replace(/\r\n/g, '\n')
-}
-
 function toSha256(input) {
   return crypto.createHash('sha256').update(input).digest('hex')
 }
@@ -127,214 +125,23 @@ function sanitizeText(raw) {
   return String(raw || '').replace(/\u0000/g, '').trim()
 }
 
-function sectionKey(name) {
-  return sanitizeText(name).toLowerCase()
-}
-
-function parseFrontmatter(markdown) {
-  const normalized = normalizeNewlines(markdown)
-  const match = normalized.match(/^---\n([\s\S]*?)\n---\n?([\s\S]*)$/)
-  if (!match) {
-    return { frontmatter: {}, body: normalized }
-  }
-
-  let frontmatter = {}
-  try {
-    const parsed = yaml.load(match[1])
-    if (parsed && typeof parsed === 'object') {
-      frontmatter = parsed
-    }
-  } catch {
-    frontmatter = {}
-  }
-
-  return { frontmatter, body: match[2] }
-}
-
-function parseSections(body) {
-  const sections = {}
-  const matches = []
-  const regex = /^##\s+(.+?)\s*$/gm
-  let m
-  while ((m = regex.exec(body)) !== null) {
-    matches.push({ title: m[1], index: m.index, end: regex.lastIndex })
-  }
-
-  for (let i = 0; i < matches.length; i += 1) {
-    const current = matches[i]
-    const next = matches[i + 1]
-    const content = body.slice(current.end, next ? next.index : body.length).trim()
-    sections[sectionKey(current.title)] = content
-  }
-
-  return sections
-}
-
-function pickSection(sections, names) {
-  for (const name of names) {
-    const key = sectionKey(name)
-    if (sections[key] && sections[key].trim()) return sections[key].trim()
-  }
-  return ''
-}
-
-function descriptionToSummary(description) {
-  const cleaned = sanitizeText(description)
-    .replace(/^This skill should be used when\s*/i, '')
-    .replace(/\.?\s*Trigger phrases?:[\s\S]*$/i, '')
-    .replace(/^"|"$/g, '')
-    .trim()
-
-  return cleaned || 'Official skill imported from anthropics/skills.'
-}
-
-function extractWorkflowSteps(text) {
-  const steps = []
-  const lines = normalizeNewlines(text || '').split('\n')
-
-  for (const line of lines) {
-    const trimmed = line.trim()
-    if (!trimmed) continue
-    const numbered = trimmed.match(/^\d+\.\s+(.+)$/)
-    const bulleted = trimmed.match(/^[-*]\s+(.+)$/)
-    const value = numbered ? numbered[1] : bulleted ? bulleted[1] : ''
-    const step = sanitizeText(value)
-    if (step && !steps.includes(step)) steps.push(step)
-  }
-
-  while (steps.length < 3) {
-    steps.push(`Follow official workflow step ${steps.length + 1}.`)
-  }
-
-  return steps.slice(0, 7)
-}
-
 function normalizeEscalation(raw) {
   const value = sanitizeText(raw).toUpperCase()
   if (value === 'REVIEW' || value === 'BLOCK' || value === 'ASK_HUMAN') return value
   return 'ASK_HUMAN'
 }
 
-function extractStopConditions(guardrailsText) {
-  const lines = normalizeNewlines(guardrailsText || '').split('\n')
-  const stopConditions = []
-  let capture = false
-
-  for (const line of lines) {
-    const trimmed = line.trim()
-    if (!trimmed) continue
-
-    if (/^[-*]?\s*stop conditions?\s*:?$/i.test(trimmed) || /stop conditions?/i.test(trimmed)) {
-      capture = true
-      continue
-    }
-
-    if (!capture) continue
-
-    const bullet = trimmed.match(/^[-*]\s+(.+)$/) || trimmed.match(/^\d+\.\s+(.+)$/)
-    if (bullet) {
-      const condition = sanitizeText(bullet[1])
-      if (condition && !stopConditions.includes(condition)) stopConditions.push(condition)
-      continue
-    }
-
-    if (/^[A-Za-z][A-Za-z ]+:/.test(trimmed)) {
-      capture = false
-    }
-  }
-
-  if (stopConditions.length > 0) return stopConditions
-
-  for (const line of lines) {
-    const trimmed = line.trim()
-    const bullet = trimmed.match(/^[-*]\s+(.+)$/)
-    if (!bullet) continue
-    const condition = sanitizeText(bullet[1])
-    if (!condition) continue
-    if (/^escalation\s*:/i.test(condition)) continue
-    if (/^stop conditions?\s*:?$/i.test(condition)) continue
-    if (!stopConditions.includes(condition)) stopConditions.push(condition)
-  }
-
-  if (stopConditions.length === 0) {
-    return ['Task completed successfully']
+// 解析不到时的占位内容，保证满足 lint 的最少条目要求
+function withFallbackSteps(steps) {
+  const result = steps.slice(0, 7)
+  while (result.length < 3) {
+    result.push(`Follow official workflow step ${result.length + 1}.`)
   }
-
-  return stopConditions
+  return result
 }
 
-function extractTests(testsText, slug) {
-  const normalized = normalizeNewlines(testsText || '')
-  const items = []
-  const headingRegex = /^###\s+(.+?)\s*$/gm
-  const headings = []
-  let m
-
-  while ((m = headingRegex.exec(normalized)) !== null) {
-    headings.push({ title: sanitizeText(m[1]), index: m.index, end: headingRegex.lastIndex })
-  }
-
-  const parseBlock = (name, content) => {
-    const inputMatch = content.match(/(?:^|\n)\s*[-*]\s*Input:\s*`?([^`\n]+)`?\s*(?:\n|$)/i)
-    const expectedMatch = content.match(/(?:^|\n)\s*[-*]\s*(?:Expected|Expected output):\s*`?([^`\n]+)`?\s*(?:\n|$)/i)
-    const input = sanitizeText(inputMatch ? inputMatch[1] : '')
-    const expected = sanitizeText(expectedMatch ? expectedMatch[1] : '')
-    if (!input || !expected) return
-    items.push({
-      name: name || 'Official test case',
-      input,
-      expected_output: expected,
-    })
-  }
-
-  if (headings.length > 0) {
-    for (let i = 0; i < headings.length; i += 1) {
-      const current = headings[i]
-      const next = headings[i + 1]
-      const content = normalized.slice(current.end, next ? next.index : normalized.length)
-      parseBlock(current.title, content)
-    }
-  } else if (normalized.trim()) {
-    parseBlock('Official test case', normalized)
-  }
-
-  if (items.length === 0) {
-    return [
-      {
-        name: 'Basic validity check',
-        input: `Trigger the ${slug} skill in a realistic request.`,
-        expected_output: 'The skill executes its documented workflow correctly.',
-      },
-    ]
-  }
-
-  return items
-}
-
-function extractTriggers(description, slug, title) {
-  const triggers = []
-  const desc = sanitizeText(description)
-
-  const quotedRegex = /"([^"]{2,120})"/g
-  let m
-  while ((m = quotedRegex.exec(desc)) !== null) {
-    const phrase = sanitizeText(m[1])
-    if (phrase && !triggers.includes(phrase)) triggers.push(phrase)
-  }
-
-  if (triggers.length < 3) {
-    const marker = desc.match(/Trigger phrases?:\s*([\s\S]+)$/i)
-    if (marker) {
-      const candidates = marker[1]
-        .split(',')
-        .map((item) => sanitizeText(item.replace(/^"|"$/g, '')))
-        .filter(Boolean)
-      for (const candidate of candidates) {
-        if (!triggers.includes(candidate)) triggers.push(candidate)
-      }
-    }
-  }
-
+function withFallbackTriggers(triggers, slug, title) {
+  const result = triggers.slice(0, 5)
   const fallback = [
     `Use the ${slug} skill`,
     `Help me with ${title.toLowerCase()}`,
@@ -342,15 +149,29 @@ function extractTriggers(description, slug, title) {
   ]
 
   for (const phrase of fallback) {
-    if (triggers.length >= 5) break
-    if (!triggers.includes(phrase)) triggers.push(phrase)
+    if (result.length >= 5) break
+    if (!result.includes(phrase)) result.push(phrase)
   }
 
-  while (triggers.length < 3) {
-    triggers.push(`Use ${slug} scenario ${triggers.length + 1}`)
+  while (result.length < 3) {
+    result.push(`Use ${slug} scenario ${result.length + 1}`)
   }
 
-  return triggers.slice(0, 5)
+  return result
+}
+
+function withFallbackTests(tests, slug) {
+  const complete = tests.filter((test) => test.input && test.expected_output)
+  if (complete.length > 0) {
+    return complete.map((test) => ({ ...test, name: test.name || 'Official test case' }))
+  }
+  return [
+    {
+      name: 'Basic validity check',
+      input: `Trigger the ${slug} skill in a realistic request.`,
+      expected_output: 'The skill executes its documented workflow correctly.',
+    },
+  ]
 }
 
 function isLikelyText(filePath, buffer) {
@@ -433,61 +254,43 @@ function buildSkillSourceSha(skillMarkdownSha, files) {
   return toSha256(payload)
 }
 
-function parseSkillMarkdown(skillName, markdownText) {
-  const { frontmatter, body } = parseFrontmatter(markdownText)
-  const h1Match = body.match(/^#\s+(.+)$/m)
-
-  const sections = parseSections(body)
-
-  const fmName = sanitizeText(frontmatter.name)
-  const slug = normalizeSlug(fmName, skillName)
-  const title = sanitizeText(h1Match ? h1Match[1] : '') || toTitle(slug)
-
-  const fmDesc = sanitizeText(frontmatter.description)
-  const summary =
-    pickSection(sections, ['purpose']) ||
-    descriptionToSummary(fmDesc) ||
-    `Official ${title} skill.`
-
-  const inputs = pickSection(sections, ['inputs']) || 'Follow the user request and provided context.'
-  const outputs = pickSection(sections, ['outputs']) || 'Return the expected artifact as defined by the skill.'
-  const workflow = pickSection(sections, ['workflow'])
-  const steps = extractWorkflowSteps(workflow)
-  const risks = pickSection(sections, ['pitfalls', 'risks']) || 'Follow the guardrails and stop when risk is identified.'
-
-  const guardrailsText = pickSection(sections, ['guardrails'])
-  const escalationMatch = guardrailsText.match(/Escalation:\s*([A-Za-z_]+)/i)
-  const escalation = normalizeEscalation(escalationMatch ? escalationMatch[1] : 'ASK_HUMAN')
-  const stop_conditions = extractStopConditions(guardrailsText)
-
-  const allowedTools = Array.isArray(frontmatter['allowed-tools'])
-    ? frontmatter['allowed-tools'].map((item) => String(item)).filter(Boolean)
-    : []
-
-  const guardrails = {
-    allowed_tools: allowedTools,
-    disable_model_invocation: Boolean(frontmatter['disable-model-invocation']),
-    user_invocable: frontmatter['user-invocable'] === undefined ? true : Boolean(frontmatter['user-invocable']),
-    stop_conditions,
-    escalation,
-  }
+function fileContentSha(file) {
+  if (file.isBinary) return toSha256(file.contentBytes ? Buffer.from(file.contentBytes) : Buffer.alloc(0))
+  return toSha256(Buffer.from(file.contentText || '', 'utf8'))
+}
 
-  const testsText = pickSection(sections, ['tests'])
-  const tests = extractTests(testsText, slug)
+function computeLocalContentHash(skill) {
+  const files = (skill.files || []).map((file) => ({ path: file.path, sha256: fileContentSha(file) }))
+  return computeSkillContentHash(skill, files)
+}
 
-  const triggers = extractTriggers(fmDesc, slug, title)
+/**
+ * 字段抽取与置信度见 src/lib/skill-extract.ts（与导入路由共用），此处只补占位内容
+ */
+function parseSkillMarkdown(skillName, markdownText) {
+  const { skill, confidence } = extractSkillFromMarkdown(markdownText, skillName)
+  const slug = normalizeSlug(skill.slug, skillName)
+  const title = sanitizeText(skill.title) || toTitle(slug)
 
   return {
-    slug,
-    title,
-    summary: sanitizeText(summary),
-    inputs: sanitizeText(inputs),
-    outputs: sanitizeText(outputs),
-    steps,
-    risks: sanitizeText(risks),
-    triggers,
-    guardrails,
-    tests,
+    skillData: {
+      slug,
+      title,
+      summary: sanitizeText(skill.summary) || `Official ${title} skill.`,
+      inputs: sanitizeText(skill.inputs) || 'Follow the user request and provided context.',
+      outputs: sanitizeText(skill.outputs) || 'Return the expected artifact as defined by the skill.',
+      steps: withFallbackSteps(skill.steps),
+      risks: sanitizeText(skill.risks) || 'Follow the guardrails and stop when risk is identified.',
+      triggers: withFallbackTriggers(skill.triggers, slug, title),
+      guardrails: {
+        ...skill.guardrails,
+        stop_conditions:
+          skill.guardrails.stop_conditions.length > 0 ? skill.guardrails.stop_conditions : ['Task completed successfully'],
+      },
+      tests: withFallbackTests(skill.tests, slug),
+    },
+    confidence,
+    uncertain: lowConfidenceFields(confidence),
   }
 }
 
@@ -540,7 +343,11 @@ function buildSkillPackage(skillName, entries) {
 
   const markdownBuffer = skillMarkdownEntry.buffer
   const markdownText = markdownBuffer.toString('utf8')
-  const skillData = parseSkillMarkdown(skillName, markdownText)
+  const { skillData, confidence, uncertain } = parseSkillMarkdown(skillName, markdownText)
+  if (uncertain.length > 0) {
+    const detail = uncertain.map((field) => `${field} ${Math.round(confidence[field] * 100)}%`).join(', ')
+    warnings.push(`Low-confidence fields from SKILL.md (placeholders may apply): ${detail}`)
+  }
   const skillMarkdownSha = toSha256(markdownBuffer)
 
   for (const item of entries) {
@@ -575,17 +382,26 @@ function buildSkillPackage(skillName, entries) {
   }
 
   const sourceSha = buildSkillSourceSha(skillMarkdownSha, files)
+  const contentHash = computeSkillContentHash(
+    skillData,
+    files.map((file) => ({ path: file.path, sha256: fileContentSha(file) }))
+  )
 
   return {
     skillName,
     skillData,
     files,
     sourceSha,
+    contentHash,
     warnings,
   }
 }
 
-function classifySyncAction(existingSkill, packageInfo) {
+/**
+ * existingSkill 需带 files；本地内容 hash 与上次同步记录不一致即视为本地已修改，
+ * 上游有变更时不覆盖，改为记录待合并的上游变更（在 Skill 详情页三方合并）
+ */
+function classifySyncAction(existingSkill, packageInfo, pendingShas = new Set()) {
   if (!existingSkill) return { action: 'create', reason: 'new skill' }
 
   if (existingSkill.sourceManaged !== true) {
@@ -596,8 +412,18 @@ function classifySyncAction(existingSkill, packageInfo) {
     return { action: 'conflict', reason: `existing source repo differs (${existingSkill.sourceRepo})` }
   }
 
+  const locallyModified = Boolean(existingSkill.syncedContentHash) &&
+    computeLocalContentHash(existingSkill) !== existingSkill.syncedContentHash
+
   if (existingSkill.sourceSha && existingSkill.sourceSha === packageInfo.sourceSha) {
-    return { action: 'skip', reason: 'source sha unchanged' }
+    return { action: 'skip', reason: locallyModified ? 'source sha unchanged; locally modified' : 'source sha unchanged' }
+  }
+
+  if (locallyModified) {
+    if (pendingShas.has(packageInfo.sourceSha)) {
+      return { action: 'skip', reason: 'locally modified; upstream change already pending merge' }
+    }
+    return { action: 'drift', reason: 'locally modified; upstream change queued for merge' }
   }
 
   return { action: 'update', reason: 'source changed' }
@@ -617,6 +443,7 @@ function printSkillLine(status, skillSlug, message) {
     create: '[CREATE]',
     update: '[UPDATE]',
     skip: '[SKIP]',
+    drift: '[DRIFT]',
     conflict: '[CONFLICT]',
     error: '[ERROR]',
   }[status] || '[INFO]'
@@ -689,6 +516,91 @@ async function createVersionIfAvailable(tx, skillId, snapshot) {
   }
 }
 
+function toUpstreamSnapshot(pkg) {
+  return {
+    slug: pkg.skillData.slug,
+    title: pkg.skillData.title,
+    status: 'draft',
+    summary: pkg.skillData.summary,
+    inputs: pkg.skillData.inputs,
+    outputs: pkg.skillData.outputs,
+    steps: pkg.skillData.steps,
+    risks: pkg.skillData.risks,
+    triggers: pkg.skillData.triggers,
+    guardrails: pkg.skillData.guardrails,
+    tests: pkg.skillData.tests,
+    tags: [OFFICIAL_TAG],
+    files: pkg.files
+      .map((file) => {
+        const content = file.isBinary ? Buffer.from(file.contentBytes) : Buffer.from(file.contentText || '', 'utf8')
+        return { path: file.path, mime: file.mime, isBinary: file.isBinary, sha256: toSha256(content), size: content.length }
+      })
+      .sort((a, b) => a.path.localeCompare(b.path)),
+  }
+}
+
+/**
+ * 记录一次上游同步（applied）或待合并变更（pending），文件内容写入 blob 供合并时恢复
+ * 旧库没有相关表时静默跳过
+ */
+async function recordUpstreamChange(tx, skillId, pkg, ref, status) {
+  if (!tx || typeof tx !== 'object' || !('skillUpstreamChange' in tx)) return
+
+  try {
+    for (const file of pkg.files) {
+      const content = file.isBinary ? Buffer.from(file.contentBytes) : Buffer.from(file.contentText || '', 'utf8')
+      await tx.skillFileBlob.upsert({
+        where: { sha256: toSha256(content) },
+        update: {},
+        create: {
+          sha256: toSha256(content),
+          isBinary: file.isBinary,
+          contentText: file.isBinary ? null : file.contentText || '',
+          contentBytes: file.isBinary ? content : null,
+          size: content.length,
+        },
+      })
+    }
+    const now = new Date()
+    await tx.skillUpstreamChange.updateMany({
+      where: { skillId, status: 'pending' },
+      data: { status: 'superseded', resolvedAt: now },
+    })
+    await tx.skillUpstreamChange.create({
+      data: {
+        skillId,
+        sourceRef: ref,
+        sourceSha: pkg.sourceSha,
+        snapshot: toUpstreamSnapshot(pkg),
+        status,
+        resolvedAt: status === 'applied' ? now : null,
+      },
+    })
+  } catch (err) {
+    if (isPrismaCode(err, 'P2021') || isPrismaCode(err, 'P2022')) return
+    throw err
+  }
+}
+
+async function loadPendingShas(prisma, skillIds) {
+  if (!('skillUpstreamChange' in prisma) || skillIds.length === 0) return new Map()
+  try {
+    const rows = await prisma.skillUpstreamChange.findMany({
+      where: { skillId: { in: skillIds }, status: 'pending' },
+      select: { skillId: true, sourceSha: true },
+    })
+    const map = new Map()
+    for (const row of rows) {
+      if (!map.has(row.skillId)) map.set(row.skillId, new Set())
+      map.get(row.skillId).add(row.sourceSha)
+    }
+    return map
+  } catch (err) {
+    if (isPrismaCode(err, 'P2021') || isPrismaCode(err, 'P2022')) return new Map()
+    throw err
+  }
+}
+
 async function main() {
   loadEnvFiles()
   const options = parseArgs(process.argv)
@@ -716,13 +628,15 @@ async function main() {
       where: { slug: { in: slugs } },
       include: {
         tags: { include: { tag: true } },
+        files: true,
       },
     })
     const existingBySlug = new Map(existingSkills.map((skill) => [skill.slug, skill]))
+    const pendingBySkill = await loadPendingShas(prisma, existingSkills.map((skill) => skill.id))
 
     const decisions = packages.map((pkg) => {
       const existing = existingBySlug.get(pkg.skillData.slug)
-      const decision = classifySyncAction(existing, pkg)
+      const decision = classifySyncAction(existing, pkg, existing ? pendingBySkill.get(existing.id) : undefined)
       return { pkg, existing, decision }
     })
 
@@ -730,6 +644,7 @@ async function main() {
       create: 0,
       update: 0,
       skip: 0,
+      drift: 0,
       conflict: 0,
       error: 0,
       filesImported: 0,
@@ -752,6 +667,7 @@ async function main() {
       console.log(`create: ${summary.create}`)
       console.log(`update: ${summary.update}`)
       console.log(`skip: ${summary.skip}`)
+      console.log(`drift: ${summary.drift}`)
       console.log(`conflict: ${summary.conflict}`)
       console.log(`warnings: ${summary.warnings}`)
       console.log(`supporting files (post-mapping): ${summary.filesImported}`)
@@ -778,6 +694,18 @@ async function main() {
         printSkillLine('conflict', pkg.skillData.slug, decision.reason)
         continue
       }
+      if (decision.action === 'drift') {
+        try {
+          await prisma.$transaction(async (tx) => {
+            await recordUpstreamChange(tx, existing.id, pkg, options.ref, 'pending')
+          })
+          printSkillLine('drift', pkg.skillData.slug, `${decision.reason}; resolve it on the skill detail page`)
+        } catch (err) {
+          summary.error += 1
+          printSkillLine('error', pkg.skillData.slug, err instanceof Error ? err.message : 'unknown write error')
+        }
+        continue
+      }
 
       try {
         await prisma.$transaction(async (tx) => {
@@ -804,6 +732,7 @@ async function main() {
                 sourceSha: pkg.sourceSha,
                 sourceManaged: true,
                 lastSyncedAt: now,
+                syncedContentHash: pkg.contentHash,
                 createdBy: 'SYS:anthropic-sync',
                 updatedBy: 'SYS:anthropic-sync',
                 tags: {
@@ -832,6 +761,7 @@ async function main() {
                 sourceSha: pkg.sourceSha,
                 sourceManaged: true,
                 lastSyncedAt: now,
+                syncedContentHash: pkg.contentHash,
                 updatedBy: 'SYS:anthropic-sync',
               },
             })
@@ -874,6 +804,7 @@ async function main() {
           if (snapshotSkill) {
             await createVersionIfAvailable(tx, skillId, toSkillSnapshot(snapshotSkill))
           }
+          await recordUpstreamChange(tx, skillId, pkg, options.ref, 'applied')
         })
 
         printSkillLine(decision.action, pkg.skillData.slug, `${decision.reason}; files=${pkg.files.length}`)
@@ -891,6 +822,7 @@ async function main() {
     console.log(`create: ${summary.create}`)
     console.log(`update: ${summary.update}`)
     console.log(`skip: ${summary.skip}`)
+    console.log(`drift: ${summary.drift}`)
     console.log(`conflict: ${summary.conflict}`)
     console.log(`error: ${summary.error}`)
     console.log(`warnings: ${summary.warnings}`)
@@ -900,7 +832,11 @@ async function main() {
   }
 }
 
-main().catch((err) => {
-  console.error('[FATAL]', err instanceof Error ? err.message : err)
-  process.exit(1)
-})
+if (require.main === module) {
+  main().catch((err) => {
+    console.error('[FATAL]', err instanceof Error ? err.message : err)
+    process.exit(1)
+  })
+}
+
+module.exports = { buildSkillPackage, classifySyncAction, computeLocalContentHash }
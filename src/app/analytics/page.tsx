@@ -0,0 +1,173 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import Link from 'next/link'
+import { AlertTriangle, BarChart3, RefreshCw } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { useNotify } from '@/components/ui/notify-provider'
+import { UsageOutcomeBar, UsageTrendChart, formatLatency, formatPercent } from '@/components/usage-charts'
+import { toUserFriendlyErrorMessage } from '@/lib/friendly-validation'
+import { guardedFetch } from '@/lib/guarded-fetch'
+import type { UsageOverview } from '@/lib/usage-analytics'
+
+const DAY_OPTIONS = [7, 30, 90]
+
+export default function AnalyticsPage() {
+  const notify = useNotify()
+  const [days, setDays] = useState(30)
+  const [overview, setOverview] = useState<UsageOverview | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [notReady, setNotReady] = useState(false)
+
+  const fetchOverview = useCallback(async () => {
+    setLoading(true)
+    try {
+      const res = await guardedFetch(`/api/usage/overview?days=${days}`)
+      const data = await res.json().catch(() => ({}))
+      if (!res.ok) {
+        setNotReady(res.status === 503)
+        if (res.status !== 503) notify.error(toUserFriendlyErrorMessage(data.error || `加载使用统计失败（${res.status}）`))
+        setOverview(null)
+        return
+      }
+      setNotReady(false)
+      setOverview(data)
+    } catch {
+      notify.error('加载使用统计失败，请稍后重试。')
+      setOverview(null)
+    } finally {
+      setLoading(false)
+    }
+  }, [days, notify])
+
+  useEffect(() => {
+    void fetchOverview()
+  }, [fetchOverview])
+
+  return (
+    <div className="mx-auto max-w-5xl px-6 py-8">
+      <div className="mb-5 flex items-center justify-between gap-3">
+        <div>
+          <h1 className="text-2xl font-semibold tracking-tight">使用统计</h1>
+          <p className="mt-1 text-sm" style={{ color: 'var(--muted-foreground)' }}>
+            基于 Agent 上报的调用事件：调用量、失败热点与趋势
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          {DAY_OPTIONS.map((option) => (
+            <Button
+              key={option}
+              type="button"
+              size="sm"
+              variant={days === option ? 'default' : 'outline'}
+              className="rounded-lg"
+              onClick={() => setDays(option)}
+            >
+              近 {option} 天
+            </Button>
+          ))}
+          <Button onClick={() => void fetchOverview()} variant="outline" size="sm" className="rounded-lg">
+            <RefreshCw className="h-3.5 w-3.5" /> 刷新
+          </Button>
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="card p-4 text-sm" style={{ color: 'var(--muted-foreground)' }}>统计加载中...</div>
+      ) : notReady ? (
+        <div className="card p-6 text-sm" style={{ color: 'var(--muted-foreground)' }}>
+          使用统计尚未初始化，请先执行数据库迁移。
+        </div>
+      ) : !overview || overview.totals.total === 0 ? (
+        <div className="card p-6 text-sm" style={{ color: 'var(--muted-foreground)' }}>
+          近 {days} 天暂无调用事件。Agent 可通过 <code>POST /api/usage/events</code> 上报。
+        </div>
+      ) : (
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-3 md:grid-cols-4">
+            <StatCard label="调用次数" value={String(overview.totals.total)} />
+            <StatCard label="成功率" value={formatPercent(overview.totals.success / overview.totals.total)} />
+            <StatCard label="失败 / 升级" value={`${overview.totals.failure} / ${overview.totals.escalated}`} />
+            <StatCard label="平均耗时" value={formatLatency(overview.totals.avgLatencyMs)} />
+          </div>
+
+          <section className="card p-5">
+            <h2 className="mb-3 text-xs font-semibold uppercase tracking-wider" style={{ color: 'var(--muted-foreground)' }}>
+              每日趋势
+            </h2>
+            <UsageTrendChart points={overview.trend} />
+          </section>
+
+          <div className="grid gap-4 md:grid-cols-2">
+            <section className="card p-5">
+              <div className="mb-3 flex items-center gap-2">
+                <BarChart3 className="h-3.5 w-3.5" style={{ color: 'var(--accent)' }} />
+                <h2 className="text-xs font-semibold uppercase tracking-wider" style={{ color: 'var(--muted-foreground)' }}>
+                  Top Skills
+                </h2>
+              </div>
+              <ol className="space-y-2.5">
+                {overview.topSkills.map((skill) => (
+                  <li key={skill.skillId} className="space-y-1">
+                    <div className="flex items-center justify-between gap-2 text-sm">
+                      <Link href={`/skills/${skill.skillId}`} className="truncate font-medium hover:underline">{skill.title}</Link>
+                      <span className="shrink-0 text-xs" style={{ color: 'var(--muted-foreground)' }}>
+                        {skill.total} 次 · {formatLatency(skill.avgLatencyMs)}
+                      </span>
+                    </div>
+                    <UsageOutcomeBar counts={skill} />
+                  </li>
+                ))}
+              </ol>
+            </section>
+
+            <section className="card p-5">
+              <div className="mb-3 flex items-center gap-2">
+                <AlertTriangle className="h-3.5 w-3.5" style={{ color: 'var(--danger)' }} />
+                <h2 className="text-xs font-semibold uppercase tracking-wider" style={{ color: 'var(--muted-foreground)' }}>
+                  失败热点
+                </h2>
+              </div>
+              {overview.failureHotspots.length === 0 ? (
+                <p className="text-sm" style={{ color: 'var(--muted-foreground)' }}>暂无失败记录</p>
+              ) : (
+                <ol className="space-y-2">
+                  {overview.failureHotspots.map((skill) => (
+                    <li key={skill.skillId} className="flex items-center justify-between gap-2 text-sm">
+                      <Link href={`/skills/${skill.skillId}`} className="truncate font-medium hover:underline">{skill.title}</Link>
+                      <span className="shrink-0 text-xs" style={{ color: 'var(--danger)' }}>
+                        失败 {skill.failure} · 升级 {skill.escalated} · {formatPercent(skill.failureRate)}
+                      </span>
+                    </li>
+                  ))}
+                </ol>
+              )}
+              {overview.failingTriggers.length > 0 && (
+                <>
+                  <h3 className="mb-2 mt-4 text-xs font-medium" style={{ color: 'var(--muted-foreground)' }}>高频失败触发词</h3>
+                  <ul className="space-y-1">
+                    {overview.failingTriggers.map((item) => (
+                      <li key={`${item.skillId}-${item.trigger}`} className="flex items-center justify-between gap-2 text-xs">
+                        <span className="truncate">“{item.trigger}” · {item.title}</span>
+                        <span className="shrink-0" style={{ color: 'var(--danger)' }}>{item.count} 次</span>
+                      </li>
+                    ))}
+                  </ul>
+                </>
+              )}
+            </section>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
+
+function StatCard({ label, value }: { label: string; value: string }) {
+  return (
+    <div className="card p-4">
+      <p className="text-xs" style={{ color: 'var(--muted-foreground)' }}>{label}</p>
+      <p className="mt-1 text-xl font-semibold tabular-nums">{value}</p>
+    </div>
+  )
+}
@@ -1,16 +1,25 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest'
 import './prisma-mock'
-import { resetMockDb, seedMockSkill, getMockSkills, getMockFiles, prismaMock } from './prisma-mock'
+import {
+  getMockFiles,
+  getMockProposalLogs,
+  getMockSkills,
+  prismaMock,
+  resetMockDb,
+  seedMockAdminSession,
+  seedMockSkill,
+  withAdminSession,
+} from './prisma-mock'
 
 import { POST as propose } from '@/app/api/skills/[id]/ai/propose/route'
 import { POST as apply } from '@/app/api/skills/[id]/ai/apply/route'
 
 function makeRequest(url: string, body: unknown) {
-  return new Request(url, {
+  return new Request(url, withAdminSession({
     method: 'POST',
     headers: { 'Content-Type': 'application/json' },
     body: JSON.stringify(body),
-  }) as unknown as import('next/server').NextRequest
+  })) as unknown as import('next/server').NextRequest
 }
 
 const validSkillData = {
@@ -36,6 +45,7 @@ const validSkillData = {
 describe('AI API', () => {
   beforeEach(() => {
     resetMockDb()
+    seedMockAdminSession()
     // Set CLAUDE_BIN to fake claude for tests
     process.env.CLAUDE_BIN = `node ${process.cwd()}/tests/fixtures/fake-claude.mjs`
   })
@@ -57,6 +67,44 @@ describe('AI API', () => {
       expect(data.pathPreview).toBeDefined()
     })
 
+    it('should use the provider requested in the body', async () => {
+      const skill = seedMockSkill(validSkillData)
+      const req = makeRequest(
+        `http://localhost:3000/api/skills/${skill.id}/ai/propose`,
+        { action: 'update-skill', provider: 'mock' }
+      )
+      const res = await propose(req, { params: Promise.resolve({ id: String(skill.id) }) })
+
+      expect(res.status).toBe(200)
+      const data = await res.json()
+      expect(data.provider).toBe('mock')
+      expect(data.changeSet.notes).toBe('Mock provider: update-skill')
+      expect(getMockProposalLogs().get(data.proposalId)?.provider).toBe('mock')
+    })
+
+    it('should reject unknown providers and invalid provider output', async () => {
+      const skill = seedMockSkill(validSkillData)
+      const unknown = await propose(
+        makeRequest(`http://localhost:3000/api/skills/${skill.id}/ai/propose`, { action: 'update-skill', provider: 'gpt' }),
+        { params: Promise.resolve({ id: String(skill.id) }) }
+      )
+      expect(unknown.status).toBe(400)
+
+      process.env.AI_MOCK_SCENARIO = 'invalid'
+      try {
+        const res = await propose(
+          makeRequest(`http://localhost:3000/api/skills/${skill.id}/ai/propose`, { action: 'update-skill', provider: 'mock' }),
+          { params: Promise.resolve({ id: String(skill.id) }) }
+        )
+        expect(res.status).toBe(502)
+        const data = await res.json()
+        expect(data.details[0]).toBe('Invalid changeSet')
+        expect(getMockProposalLogs().get(data.proposalId)?.status).toBe('failed')
+      } finally {
+        delete process.env.AI_MOCK_SCENARIO
+      }
+    })
+
     it('should return 404 for non-existent skill', async () => {
       const req = makeRequest(
         'http://localhost:3000/api/skills/999/ai/propose',
@@ -0,0 +1,369 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import './prisma-mock'
+import {
+  approveMockLatestVersion,
+  getMockAuditEvents,
+  getMockFiles,
+  getMockSkills,
+  getMockSkillVersions,
+  getMockTags,
+  getMockUserSessions,
+  prismaMock,
+  resetMockDb,
+  seedMockSkill,
+  seedMockUser,
+} from './prisma-mock'
+import { hashPassword, hashSessionToken } from '@/lib/auth'
+import { POST as login } from '@/app/api/auth/login/route'
+import { POST as logout } from '@/app/api/auth/logout/route'
+import { GET as listAudit } from '@/app/api/audit/route'
+import { GET as exportAudit } from '@/app/api/audit/export.csv/route'
+import { POST as createSkill } from '@/app/api/skills/route'
+import { DELETE as deleteSkill, PUT as updateSkill } from '@/app/api/skills/[id]/route'
+import { POST as batchSkills } from '@/app/api/skills/batch/route'
+import { DELETE as deleteFile, PATCH as renameFile, POST as createFile } from '@/app/api/skills/[id]/files/route'
+import { DELETE as deleteDraft, PUT as putDraft } from '@/app/api/skill-drafts/[key]/route'
+import { POST as publishSkill } from '@/app/api/skills/[id]/publish/route'
+import { POST as rollbackSkill } from '@/app/api/skills/[id]/rollback/route'
+import { POST as proposeSkill } from '@/app/api/skills/[id]/ai/propose/route'
+import { DELETE as deleteTag, PATCH as patchTag } from '@/app/api/tags/[id]/route'
+import { POST as mergeTags } from '@/app/api/tags/merge/route'
+
+function makeRequest(url: string, options?: RequestInit) {
+  return new Request(url, options) as unknown as import('next/server').NextRequest
+}
+
+const validSkillBody = {
+  title: 'Audit Skill',
+  summary: 'Skill for audit tests',
+  inputs: 'input',
+  outputs: 'output',
+  steps: ['s1', 's2', 's3'],
+  risks: '',
+  triggers: ['t1', 't2', 't3'],
+  guardrails: {
+    allowed_tools: [] as string[],
+    disable_model_invocation: false,
+    user_invocable: true,
+    stop_conditions: ['stop'],
+    escalation: 'ASK_HUMAN',
+  },
+  tests: [{ name: 'ok', input: 'a', expected_output: 'b' }],
+}
+
+async function sessionHeaders(username: string, role: string) {
+  const user = seedMockUser({ username, role })
+  const token = `token-${username}`
+  await prismaMock.userSession.create({
+    data: { userId: user.id, tokenHash: hashSessionToken(token), expiresAt: new Date(Date.now() + 3600_000) },
+  })
+  return { 'Content-Type': 'application/json', cookie: `qsv_session=${token}` }
+}
+
+const params = (id: number) => ({ params: Promise.resolve({ id: String(id) }) })
+
+const events = () => Array.from(getMockAuditEvents().values())
+
+describe('Audit log', () => {
+  const originalMode = process.env.AUTH_MODE
+  let admin: Record<string, string>
+
+  beforeEach(async () => {
+    resetMockDb()
+    process.env.AUTH_MODE = 'local_only'
+    admin = await sessionHeaders('alice', 'admin')
+  })
+
+  afterEach(() => {
+    if (originalMode === undefined) delete process.env.AUTH_MODE
+    else process.env.AUTH_MODE = originalMode
+    vi.unstubAllEnvs()
+  })
+
+  it('records hard deletes from the skill route and bulk-delete', async () => {
+    const single = seedMockSkill({ ...validSkillBody, slug: 'single', _tags: ['ops'] })
+    const first = seedMockSkill({ ...validSkillBody, title: 'First', slug: 'first' })
+    const second = seedMockSkill({ ...validSkillBody, title: 'Second', slug: 'second' })
+
+    const res = await deleteSkill(
+      makeRequest(`http://localhost:3000/api/skills/${single.id}`, { method: 'DELETE', headers: admin }),
+      params(single.id)
+    )
+    expect(res.status).toBe(200)
+    const bulk = await batchSkills(
+      makeRequest('http://localhost:3000/api/skills/batch', {
+        method: 'POST',
+        headers: admin,
+        body: JSON.stringify({ action: 'bulk-delete', skillIds: [first.id, second.id, 999] }),
+      })
+    )
+    expect(bulk.status).toBe(200)
+    expect((await bulk.json()).affected).toBe(2)
+
+    const [deleted, ...bulkDeleted] = events()
+    expect(deleted).toMatchObject({
+      actor: 'alice',
+      action: 'skill.delete',
+      entityType: 'skill',
+      entityId: String(single.id),
+      skillId: single.id,
+      before: { title: 'Audit Skill', slug: 'single', tags: ['ops'] },
+      after: null,
+    })
+    expect(bulkDeleted.map((event) => event.entityId)).toEqual([String(first.id), String(second.id)])
+    expect(bulkDeleted[0].requestId).toBe(bulkDeleted[1].requestId)
+    expect(bulkDeleted[0].requestId).not.toBe(deleted.requestId)
+  })
+
+  it('records tag rename, merge and delete with names before and after', async () => {
+    seedMockSkill({ ...validSkillBody, slug: 'tagged', _tags: ['alpha', 'beta', 'gamma'] })
+    const tagId = (name: string) => Array.from(getMockTags().values()).find((tag) => tag.name === name)!.id as number
+    const alpha = tagId('alpha')
+    const beta = tagId('beta')
+    const gamma = tagId('gamma')
+
+    await patchTag(
+      makeRequest(`http://localhost:3000/api/tags/${alpha}`, { method: 'PATCH', headers: admin, body: JSON.stringify({ name: 'alpha-2' }) }),
+      params(alpha)
+    )
+    await mergeTags(
+      makeRequest('http://localhost:3000/api/tags/merge', {
+        method: 'POST',
+        headers: admin,
+        body: JSON.stringify({ sourceTagId: beta, targetTagId: alpha }),
+      })
+    )
+    await deleteTag(makeRequest(`http://localhost:3000/api/tags/${gamma}`, { method: 'DELETE', headers: admin }), params(gamma))
+
+    expect(events().map(({ action, entityId, before, after }) => ({ action, entityId, before, after }))).toEqual([
+      { action: 'tag.rename', entityId: String(alpha), before: { name: 'alpha' }, after: { name: 'alpha-2' } },
+      {
+        action: 'tag.merge',
+        entityId: String(beta),
+        before: { name: 'beta' },
+        after: { mergedInto: 'alpha-2', targetId: alpha, movedSkills: 1 },
+      },
+      { action: 'tag.delete', entityId: String(gamma), before: { name: 'gamma', detachedSkills: 1 }, after: null },
+    ])
+  })
+
+  it('records file operations and draft deletion, reusing the incoming request id', async () => {
+    const skill = seedMockSkill({ ...validSkillBody, slug: 'files' })
+    const filesUrl = `http://localhost:3000/api/skills/${skill.id}/files`
+
+    await createFile(
+      makeRequest(filesUrl, { method: 'POST', headers: admin, body: JSON.stringify({ path: 'references/a.md', content: '# A' }) }),
+      params(skill.id)
+    )
+    await renameFile(
+      makeRequest(filesUrl, {
+        method: 'PATCH',
+        headers: { ...admin, 'x-request-id': 'req-rename-1' },
+        body: JSON.stringify({ fromPath: 'references/a.md', toPath: 'references/b.md' }),
+      }),
+      params(skill.id)
+    )
+    await deleteFile(
+      makeRequest(`${filesUrl}?path=${encodeURIComponent('references/b.md')}`, { method: 'DELETE', headers: admin }),
+      params(skill.id)
+    )
+
+    const key = { params: Promise.resolve({ key: 'new:client-1' }) }
+    const draftUrl = 'http://localhost:3000/api/skill-drafts/new:client-1'
+    const draftBody = JSON.stringify({ mode: 'new', payload: { title: 'Draft' } })
+    await putDraft(makeRequest(draftUrl, { method: 'PUT', headers: admin, body: draftBody }), key)
+    // 自动保存不写审计
+    await putDraft(makeRequest(draftUrl, { method: 'PUT', headers: admin, body: draftBody }), key)
+    await deleteDraft(makeRequest(draftUrl, { method: 'DELETE', headers: admin }), key)
+
+    const recorded = events()
+    expect(recorded.map((event) => event.action)).toEqual([
+      'file.create',
+      'file.rename',
+      'file.delete',
+      'draft.create',
+      'draft.delete',
+    ])
+    expect(recorded[1]).toMatchObject({
+      entityLabel: 'files/references/b.md',
+      skillId: skill.id,
+      before: { path: 'references/a.md' },
+      after: { path: 'references/b.md' },
+      requestId: 'req-rename-1',
+    })
+    expect(recorded[4]).toMatchObject({ entityType: 'draft', entityId: 'new:client-1', before: { mode: 'new' } })
+  })
+
+  it('records publish and rollback', async () => {
+    const created = await (
+      await createSkill(
+        makeRequest('http://localhost:3000/api/skills', { method: 'POST', headers: admin, body: JSON.stringify(validSkillBody) })
+      )
+    ).json()
+    await updateSkill(
+      makeRequest(`http://localhost:3000/api/skills/${created.id}`, {
+        method: 'PUT',
+        headers: admin,
+        body: JSON.stringify({ title: 'Audit Skill v2' }),
+      }),
+      params(created.id)
+    )
+    await approveMockLatestVersion(created.id)
+    const publish = await publishSkill(
+      makeRequest(`http://localhost:3000/api/skills/${created.id}/publish`, { method: 'POST', headers: admin, body: '{}' }),
+      params(created.id)
+    )
+    expect(publish.status).toBe(201)
+    const firstVersion = Array.from(getMockSkillVersions().values()).find((row) => row.version === 1)!
+    const rollback = await rollbackSkill(
+      makeRequest(`http://localhost:3000/api/skills/${created.id}/rollback`, {
+        method: 'POST',
+        headers: admin,
+        body: JSON.stringify({ versionId: firstVersion.id }),
+      }),
+      params(created.id)
+    )
+    expect(rollback.status).toBe(200)
+
+    const recorded = events()
+    expect(recorded.map((event) => event.action)).toEqual(['skill.create', 'skill.update', 'skill.publish', 'skill.rollback'])
+    expect(recorded[1]).toMatchObject({
+      before: { title: 'Audit Skill' },
+      after: { title: 'Audit Skill v2', fields: ['title'] },
+    })
+    expect(recorded[2]).toMatchObject({ before: { status: 'draft' }, after: { status: 'published', channel: 'stable' } })
+    expect(recorded[3]).toMatchObject({
+      before: { title: 'Audit Skill v2' },
+      after: { title: 'Audit Skill', rolledBackToVersion: 1 },
+    })
+  })
+
+  it('rolls the mutation back when the audit write fails', async () => {
+    const skill = seedMockSkill({ ...validSkillBody, slug: 'fragile', _tags: ['ops', 'infra'] })
+    const batch = seedMockSkill({ ...validSkillBody, title: 'Batch', slug: 'batch' })
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {})
+    const lost = new Error('connection lost')
+    for (let i = 0; i < 4; i++) prismaMock.auditEvent.createMany.mockRejectedValueOnce(lost)
+
+    const deleted = await deleteSkill(
+      makeRequest(`http://localhost:3000/api/skills/${skill.id}`, { method: 'DELETE', headers: admin }),
+      params(skill.id)
+    )
+    expect(deleted.status).toBe(500)
+
+    const bulk = await batchSkills(
+      makeRequest('http://localhost:3000/api/skills/batch', {
+        method: 'POST',
+        headers: admin,
+        body: JSON.stringify({ action: 'bulk-delete', skillIds: [skill.id, batch.id] }),
+      })
+    )
+    expect(bulk.status).toBe(500)
+    expect(getMockSkills().size).toBe(2)
+
+    const [ops, infra] = Array.from(getMockTags().values())
+    const merged = await mergeTags(
+      makeRequest('http://localhost:3000/api/tags/merge', {
+        method: 'POST',
+        headers: admin,
+        body: JSON.stringify({ sourceTagId: ops.id, targetTagId: infra.id }),
+      })
+    )
+    expect(merged.status).toBe(500)
+    expect(getMockTags().has(Number(ops.id))).toBe(true)
+
+    await expect(
+      createFile(
+        makeRequest(`http://localhost:3000/api/skills/${skill.id}/files`, {
+          method: 'POST',
+          headers: admin,
+          body: JSON.stringify({ path: 'references/a.md', content: 'a', mime: 'text/markdown', isBinary: false }),
+        }),
+        params(skill.id)
+      )
+    ).rejects.toThrow('connection lost')
+    expect(getMockFiles().size).toBe(0)
+    expect(events()).toHaveLength(0)
+    consoleError.mockRestore()
+  })
+
+  it('records AI proposals, logins and logouts', async () => {
+    vi.stubEnv('CLAUDE_BIN', `node ${process.cwd()}/tests/fixtures/fake-claude.mjs`)
+    const skill = seedMockSkill({ ...validSkillBody, slug: 'proposed' })
+    const proposed = await proposeSkill(
+      makeRequest(`http://localhost:3000/api/skills/${skill.id}/ai/propose`, {
+        method: 'POST',
+        headers: admin,
+        body: JSON.stringify({ action: 'update-skill', instruction: 'tighten the summary' }),
+      }),
+      params(skill.id)
+    )
+    const proposal = await proposed.json()
+    expect(proposed.status).toBe(200)
+
+    seedMockUser({ username: 'lena', role: 'author', passwordHash: await hashPassword('lena-pass') })
+    const loggedIn = await login(
+      makeRequest('http://localhost:3000/api/auth/login', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ username: 'lena', password: 'lena-pass' }),
+      })
+    )
+    expect(loggedIn.status).toBe(200)
+    const cookie = (loggedIn.headers.get('set-cookie') || '').split(';')[0]
+    await logout(makeRequest('http://localhost:3000/api/auth/logout', { method: 'POST', headers: { cookie } }))
+    // 会话已撤销，重复退出不再记录
+    await logout(makeRequest('http://localhost:3000/api/auth/logout', { method: 'POST', headers: { cookie } }))
+
+    const recorded = events()
+    expect(recorded.map((event) => event.action)).toEqual(['skill.ai_propose', 'auth.login', 'auth.logout'])
+    expect(recorded[0]).toMatchObject({
+      actor: 'alice',
+      entityType: 'skill',
+      skillId: skill.id,
+      after: { proposalId: proposal.proposalId, action: 'update-skill', status: 'proposed' },
+    })
+    const session = Array.from(getMockUserSessions().values()).find((row) => row.revokedAt)
+    expect(recorded[1]).toMatchObject({ actor: 'lena', entityType: 'session', entityId: String(session?.id), after: { role: 'author' } })
+    expect(recorded[2]).toMatchObject({ actor: 'lena', entityType: 'session', entityId: String(session?.id) })
+  })
+
+  it('lists events for reviewers with filters and exports them as CSV', async () => {
+    const skill = seedMockSkill({ ...validSkillBody, slug: 'listed', _tags: ['ops'] })
+    const tag = Array.from(getMockTags().values())[0]
+    await patchTag(
+      makeRequest(`http://localhost:3000/api/tags/${tag.id}`, { method: 'PATCH', headers: admin, body: JSON.stringify({ name: '=cmd' }) }),
+      params(Number(tag.id))
+    )
+    await deleteSkill(makeRequest(`http://localhost:3000/api/skills/${skill.id}`, { method: 'DELETE', headers: admin }), params(skill.id))
+
+    const author = await sessionHeaders('bob', 'author')
+    const reviewer = await sessionHeaders('rita', 'reviewer')
+    expect((await listAudit(makeRequest('http://localhost:3000/api/audit', { headers: author }))).status).toBe(403)
+
+    const all = await (await listAudit(makeRequest('http://localhost:3000/api/audit', { headers: reviewer }))).json()
+    expect(all).toMatchObject({ total: 2, page: 1, totalPages: 1 })
+    expect(all.items.map((item: { action: string }) => item.action)).toEqual(['skill.delete', 'tag.rename'])
+
+    const filtered = await (
+      await listAudit(makeRequest(`http://localhost:3000/api/audit?entityType=skill&skillId=${skill.id}&actor=`, { headers: reviewer }))
+    ).json()
+    expect(filtered.total).toBe(1)
+    expect(filtered.items[0]).toMatchObject({ action: 'skill.delete', actor: 'alice', before: { slug: 'listed' } })
+
+    const future = await (await listAudit(makeRequest('http://localhost:3000/api/audit?from=2999-01-01', { headers: reviewer }))).json()
+    expect(future.total).toBe(0)
+
+    const invalid = await listAudit(makeRequest('http://localhost:3000/api/audit?action=skill.explode', { headers: reviewer }))
+    expect(invalid.status).toBe(400)
+
+    const csvRes = await exportAudit(makeRequest('http://localhost:3000/api/audit/export.csv?action=tag.rename', { headers: reviewer }))
+    expect(csvRes.status).toBe(200)
+    expect(csvRes.headers.get('content-type')).toContain('text/csv')
+    expect(csvRes.headers.get('content-disposition')).toMatch(/attachment; filename="audit-\d{4}-\d{2}-\d{2}\.csv"/)
+    const lines = (await csvRes.text()).replace(/^\uFEFF/, '').trimEnd().split('\r\n')
+    expect(lines[0]).toBe('createdAt,actor,action,entityType,entityId,entityLabel,skillId,before,after,requestId')
+    expect(lines).toHaveLength(2)
+    expect(lines[1]).toContain(`,alice,tag.rename,tag,${tag.id},'=cmd,,"{""name"":""ops""}","{""name"":""=cmd""}",`)
+  })
+})
@@ -0,0 +1,199 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import './prisma-mock'
+import {
+  approveMockLatestVersion,
+  getMockSkillPublications,
+  getMockSkills,
+  getMockSkillVersions,
+  getMockTags,
+  getMockUsers,
+  getMockUserSessions,
+  resetMockDb,
+  seedMockUser,
+} from './prisma-mock'
+import { hashPassword } from '@/lib/auth'
+import { POST as login } from '@/app/api/auth/login/route'
+import { POST as logout } from '@/app/api/auth/logout/route'
+import { GET as me } from '@/app/api/auth/me/route'
+import { GET as listSkills, POST as createSkill } from '@/app/api/skills/route'
+import { POST as publishSkill } from '@/app/api/skills/[id]/publish/route'
+import { GET as listVersions } from '@/app/api/skills/[id]/versions/route'
+import { GET as listPublications } from '@/app/api/skills/[id]/publications/route'
+import { PATCH as patchTag } from '@/app/api/tags/[id]/route'
+
+function makeRequest(url: string, options?: RequestInit) {
+  return new Request(url, options) as unknown as import('next/server').NextRequest
+}
+
+const validSkillBody = {
+  title: 'Auth Skill',
+  summary: 'Skill for auth tests',
+  inputs: 'input',
+  outputs: 'output',
+  steps: ['s1', 's2', 's3'],
+  risks: '',
+  triggers: ['t1', 't2', 't3'],
+  guardrails: {
+    allowed_tools: [],
+    disable_model_invocation: false,
+    user_invocable: true,
+    stop_conditions: ['stop'],
+    escalation: 'ASK_HUMAN',
+  },
+  tests: [{ name: 'ok', input: 'a', expected_output: 'b' }],
+  tags: ['alpha'],
+}
+
+async function loginAs(username: string, password: string) {
+  return login(
+    makeRequest('http://localhost:3000/api/auth/login', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'User-Agent': 'vitest' },
+      body: JSON.stringify({ username, password }),
+    })
+  )
+}
+
+function sessionCookie(res: Response): string {
+  const header = res.headers.get('set-cookie') || ''
+  const match = header.match(/qsv_session=([^;]*)/)
+  return match ? `qsv_session=${match[1]}` : ''
+}
+
+describe('Auth API', () => {
+  const originalMode = process.env.AUTH_MODE
+
+  beforeEach(async () => {
+    resetMockDb()
+    delete process.env.AUTH_MODE
+    seedMockUser({ username: 'alice', displayName: 'Alice', role: 'reviewer', passwordHash: await hashPassword('secret-pass') })
+  })
+
+  afterEach(() => {
+    if (originalMode === undefined) delete process.env.AUTH_MODE
+    else process.env.AUTH_MODE = originalMode
+  })
+
+  it('logs in with a password and resolves the session user', async () => {
+    const res = await loginAs('alice', 'secret-pass')
+    expect(res.status).toBe(200)
+    const data = await res.json()
+    expect(data.user).toEqual({ id: 1, username: 'alice', displayName: 'Alice', role: 'reviewer' })
+    expect(res.headers.get('set-cookie')).toMatch(/HttpOnly/i)
+
+    const cookie = sessionCookie(res)
+    expect(cookie).not.toBe('qsv_session=')
+    const session = [...getMockUserSessions().values()][0]
+    expect(session.tokenHash).toHaveLength(64)
+    expect(cookie).not.toContain(session.tokenHash)
+    expect(session.userAgent).toBe('vitest')
+    expect(getMockUsers().get(1)?.lastLoginAt).toBeInstanceOf(Date)
+
+    const meRes = await me(makeRequest('http://localhost:3000/api/auth/me', { headers: { cookie } }))
+    expect(await meRes.json()).toEqual({
+      user: { id: 1, username: 'alice', displayName: 'Alice', role: 'reviewer' },
+      role: 'reviewer',
+      loginRequired: false,
+    })
+  })
+
+  it('rejects wrong passwords, unknown users, disabled and reserved accounts with the same error', async () => {
+    seedMockUser({ username: 'bob', passwordHash: await hashPassword('bob-pass'), status: 'disabled' })
+    seedMockUser({ username: 'sys', passwordHash: await hashPassword('sys-pass') })
+
+    for (const [username, password] of [['alice', 'wrong'], ['nobody', 'secret-pass'], ['bob', 'bob-pass'], ['sys', 'sys-pass']]) {
+      const res = await loginAs(username, password)
+      expect(res.status).toBe(401)
+      expect(await res.json()).toEqual({ error: 'Invalid username or password' })
+    }
+    expect(getMockUserSessions().size).toBe(0)
+  })
+
+  it('revokes the session on logout', async () => {
+    const cookie = sessionCookie(await loginAs('alice', 'secret-pass'))
+
+    const res = await logout(makeRequest('http://localhost:3000/api/auth/logout', { method: 'POST', headers: { cookie } }))
+    expect(res.status).toBe(200)
+    expect(res.headers.get('set-cookie')).toMatch(/qsv_session=;/)
+    expect([...getMockUserSessions().values()][0].revokedAt).toBeInstanceOf(Date)
+
+    const meRes = await me(makeRequest('http://localhost:3000/api/auth/me', { headers: { cookie } }))
+    expect((await meRes.json()).user).toBeNull()
+  })
+
+  it('ignores expired sessions', async () => {
+    const cookie = sessionCookie(await loginAs('alice', 'secret-pass'))
+    const session = [...getMockUserSessions().values()][0]
+    session.expiresAt = new Date(Date.now() - 1000)
+
+    const meRes = await me(makeRequest('http://localhost:3000/api/auth/me', { headers: { cookie } }))
+    expect((await meRes.json()).user).toBeNull()
+  })
+
+  it('stamps the acting user on skills, versions, publications and tags', async () => {
+    const cookie = sessionCookie(await loginAs('alice', 'secret-pass'))
+    const headers = { 'Content-Type': 'application/json', cookie }
+
+    const createRes = await createSkill(
+      makeRequest('http://localhost:3000/api/skills', { method: 'POST', headers, body: JSON.stringify(validSkillBody) })
+    )
+    expect(createRes.status).toBe(201)
+    const created = await createRes.json()
+    const params = { params: Promise.resolve({ id: String(created.id) }) }
+
+    const skill = getMockSkills().get(created.id)
+    expect(skill?.createdBy).toBe('alice')
+    expect(skill?.updatedBy).toBe('alice')
+    expect([...getMockSkillVersions().values()][0].createdBy).toBe('alice')
+    expect([...getMockTags().values()][0]).toMatchObject({ createdBy: 'alice', updatedBy: 'alice' })
+
+    await approveMockLatestVersion(created.id)
+    const publishRes = await publishSkill(
+      makeRequest(`http://localhost:3000/api/skills/${created.id}/publish`, { method: 'POST', headers, body: '{}' }),
+      params
+    )
+    expect(publishRes.status).toBe(201)
+    expect([...getMockSkillPublications().values()][0].createdBy).toBe('alice')
+
+    const versions = await (await listVersions(makeRequest(`http://localhost:3000/api/skills/${created.id}/versions`), params)).json()
+    expect(versions.items[0]).toMatchObject({ createdBy: 'alice', createdByName: 'Alice' })
+    const publications = await (
+      await listPublications(makeRequest(`http://localhost:3000/api/skills/${created.id}/publications`), params)
+    ).json()
+    expect(publications.items[0]).toMatchObject({ createdBy: 'alice', createdByName: 'Alice' })
+
+    const tagId = [...getMockTags().values()][0].id as number
+    const patchRes = await patchTag(
+      makeRequest(`http://localhost:3000/api/tags/${tagId}`, { method: 'PATCH', headers, body: JSON.stringify({ name: 'beta' }) }),
+      { params: Promise.resolve({ id: String(tagId) }) }
+    )
+    expect(patchRes.status).toBe(200)
+    expect(getMockTags().get(tagId)).toMatchObject({ name: 'beta', updatedBy: 'alice' })
+  })
+
+  it('treats anonymous callers as read-only viewers unless login is required', async () => {
+    const anonymous = () =>
+      createSkill(
+        makeRequest('http://localhost:3000/api/skills', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(validSkillBody),
+        })
+      )
+
+    const deniedWrite = await anonymous()
+    expect(deniedWrite.status).toBe(403)
+    expect(await deniedWrite.json()).toEqual({ error: 'Permission denied' })
+    expect(getMockSkills().size).toBe(0)
+
+    const list = await listSkills(makeRequest('http://localhost:3000/api/skills'))
+    expect(list.status).toBe(200)
+    const anonymousMe = await (await me(makeRequest('http://localhost:3000/api/auth/me'))).json()
+    expect(anonymousMe).toEqual({ user: null, role: 'viewer', loginRequired: false })
+
+    process.env.AUTH_MODE = 'local_only'
+    const deniedRes = await anonymous()
+    expect(deniedRes.status).toBe(401)
+    expect(await deniedRes.json()).toEqual({ error: 'Authentication required' })
+  })
+})
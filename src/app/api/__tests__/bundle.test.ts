@@ -0,0 +1,71 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import AdmZip from 'adm-zip'
+import './prisma-mock'
+import { resetMockDb, seedMockSkill } from './prisma-mock'
+
+import { GET as exportBundle } from '@/app/api/export/bundle/route'
+
+function makeRequest(url: string) {
+  return new Request(url) as unknown as import('next/server').NextRequest
+}
+
+function seedSkill(slug: string, tags: string[], overrides: Record<string, unknown> = {}) {
+  return seedMockSkill({
+    title: `Skill ${slug}`,
+    slug,
+    summary: 'Bundle skill',
+    inputs: 'in',
+    outputs: 'out',
+    steps: ['a', 'b', 'c'],
+    risks: 'none',
+    triggers: ['x', 'y', 'z'],
+    guardrails: { allowed_tools: [], disable_model_invocation: false, user_invocable: true, stop_conditions: ['stop'], escalation: 'ASK_HUMAN' },
+    tests: [{ name: 't', input: 'i', expected_output: 'o' }],
+    _tags: tags,
+    ...overrides,
+  })
+}
+
+describe('GET /api/export/bundle', () => {
+  beforeEach(() => {
+    resetMockDb()
+  })
+
+  it('bundles skills selected by ids and tags with a manifest', async () => {
+    const alpha = seedSkill('alpha', ['desk-a'])
+    seedSkill('beta', ['desk-b'])
+    seedSkill('gamma', ['desk-a'])
+    seedSkill('broken', ['desk-a'], { triggers: ['only one'] })
+
+    const res = await exportBundle(makeRequest(`http://localhost:3000/api/export/bundle?tags=desk-a&ids=${alpha.id}`))
+    expect(res.status).toBe(200)
+    expect(res.headers.get('Content-Type')).toBe('application/zip')
+    expect(res.headers.get('X-Bundle-Matched')).toBe('3')
+
+    const zip = new AdmZip(Buffer.from(await res.arrayBuffer()))
+    // Skill 逐个写入，manifest 最后写入
+    const names = zip.getEntries().map((entry) => entry.entryName)
+    expect(names).toEqual(['skills/alpha/SKILL.md', 'skills/gamma/SKILL.md', 'manifest.json'])
+
+    const manifest = JSON.parse(zip.getEntry('manifest.json')!.getData().toString('utf-8'))
+    expect(manifest.skills.map((skill: { slug: string }) => skill.slug)).toEqual(['alpha', 'gamma'])
+    expect(manifest.skills[0].files[0]).toMatchObject({ path: 'SKILL.md' })
+    expect(manifest.skills[0].files[0].sha256).toMatch(/^[0-9a-f]{64}$/)
+    expect(manifest.skipped).toEqual([expect.objectContaining({ slug: 'broken', reason: 'Lint failed' })])
+  })
+
+  it('rejects empty selections and bundles with nothing exportable', async () => {
+    const noFilter = await exportBundle(makeRequest('http://localhost:3000/api/export/bundle'))
+    expect(noFilter.status).toBe(400)
+
+    const noMatch = await exportBundle(makeRequest('http://localhost:3000/api/export/bundle?tags=missing'))
+    expect(noMatch.status).toBe(404)
+
+    const broken = seedSkill('broken', [], { triggers: ['only one'] })
+    const res = await exportBundle(makeRequest(`http://localhost:3000/api/export/bundle?ids=${broken.id}`))
+    expect(res.status).toBe(400)
+    const data = await res.json()
+    expect(data.error).toBe('No exportable skills')
+    expect(data.skipped[0].errors.length).toBeGreaterThan(0)
+  })
+})
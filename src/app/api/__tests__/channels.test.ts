@@ -0,0 +1,203 @@
+import { beforeEach, describe, expect, it } from 'vitest'
+import AdmZip from 'adm-zip'
+import './prisma-mock'
+import { approveMockLatestVersion, resetMockDb, seedMockAdminSession, withAdminSession } from './prisma-mock'
+import { POST as createSkill } from '@/app/api/skills/route'
+import { PUT as updateSkill } from '@/app/api/skills/[id]/route'
+import { POST as publishSkill } from '@/app/api/skills/[id]/publish/route'
+import { GET as listPublications } from '@/app/api/skills/[id]/publications/route'
+import { GET as listChannels } from '@/app/api/skills/[id]/channels/route'
+import { PUT as moveChannel, DELETE as deleteChannel } from '@/app/api/skills/[id]/channels/[channel]/route'
+import { GET as lookupChannel } from '@/app/api/channels/[channel]/skills/[slug]/route'
+import { POST as createFile, PUT as updateFile } from '@/app/api/skills/[id]/files/route'
+import { GET as exportMd } from '@/app/api/skills/[id]/export.md/route'
+import { GET as exportJson } from '@/app/api/skills/[id]/export.json/route'
+import { GET as exportZip } from '@/app/api/skills/[id]/export.zip/route'
+
+function makeRequest(url: string, options?: RequestInit) {
+  return new Request(url, withAdminSession(options)) as unknown as import('next/server').NextRequest
+}
+
+function jsonRequest(url: string, method: string, body: unknown) {
+  return makeRequest(url, {
+    method,
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  })
+}
+
+const validSkillBody = {
+  title: 'Channel Skill',
+  summary: 'Skill for channel tests',
+  inputs: 'input',
+  outputs: 'output',
+  steps: ['s1', 's2', 's3'],
+  risks: '',
+  triggers: ['t1', 't2', 't3'],
+  guardrails: {
+    allowed_tools: [],
+    disable_model_invocation: false,
+    user_invocable: true,
+    stop_conditions: ['stop'],
+    escalation: 'ASK_HUMAN',
+  },
+  tests: [{ name: 'ok', input: 'a', expected_output: 'b' }],
+  tags: ['alpha'],
+}
+
+async function createWithVersions(titles: string[]) {
+  const res = await createSkill(jsonRequest('http://localhost:3000/api/skills', 'POST', validSkillBody))
+  let skill = await res.json()
+  for (const title of titles) {
+    const updated = await updateSkill(
+      jsonRequest(`http://localhost:3000/api/skills/${skill.id}`, 'PUT', { title }),
+      { params: Promise.resolve({ id: String(skill.id) }) }
+    )
+    skill = await updated.json()
+  }
+  return skill as { id: number; slug: string }
+}
+
+function channelParams(id: number, channel: string) {
+  return { params: Promise.resolve({ id: String(id), channel }) }
+}
+
+describe('Release channels API', () => {
+  beforeEach(() => {
+    resetMockDb()
+    seedMockAdminSession()
+  })
+
+  it('publishes the latest version to stable by default and records the channel', async () => {
+    const created = await createWithVersions([])
+    await approveMockLatestVersion(created.id)
+
+    const publishRes = await publishSkill(
+      jsonRequest(`http://localhost:3000/api/skills/${created.id}/publish`, 'POST', { note: 'first' }),
+      { params: Promise.resolve({ id: String(created.id) }) }
+    )
+    expect(publishRes.status).toBe(201)
+    expect((await publishRes.json()).channel).toBe('stable')
+
+    const betaRes = await publishSkill(
+      jsonRequest(`http://localhost:3000/api/skills/${created.id}/publish`, 'POST', { channel: 'Beta' }),
+      { params: Promise.resolve({ id: String(created.id) }) }
+    )
+    expect((await betaRes.json()).channel).toBe('beta')
+
+    const invalidRes = await publishSkill(
+      jsonRequest(`http://localhost:3000/api/skills/${created.id}/publish`, 'POST', { channel: 'not valid!' }),
+      { params: Promise.resolve({ id: String(created.id) }) }
+    )
+    expect(invalidRes.status).toBe(400)
+
+    const channels = await (await listChannels(
+      makeRequest(`http://localhost:3000/api/skills/${created.id}/channels`),
+      { params: Promise.resolve({ id: String(created.id) }) }
+    )).json()
+    expect(channels.items.map((item: { name: string; version: number }) => [item.name, item.version])).toEqual([
+      ['beta', 1],
+      ['stable', 1],
+    ])
+
+    const publications = await (await listPublications(
+      makeRequest(`http://localhost:3000/api/skills/${created.id}/publications`),
+      { params: Promise.resolve({ id: String(created.id) }) }
+    )).json()
+    expect(publications.items.map((item: { channel: string }) => item.channel).sort()).toEqual(['beta', 'stable'])
+  })
+
+  it('moves channels to versions, promotes between channels and resolves slug lookups', async () => {
+    const created = await createWithVersions(['Channel Skill Two'])
+    const url = `http://localhost:3000/api/skills/${created.id}/channels`
+
+    const unapproved = await moveChannel(jsonRequest(`${url}/beta`, 'PUT', { version: 2 }), channelParams(created.id, 'beta'))
+    expect(unapproved.status).toBe(409)
+    expect(await unapproved.json()).toEqual({ error: 'Review approval required' })
+    await approveMockLatestVersion(created.id)
+
+    const betaRes = await moveChannel(jsonRequest(`${url}/beta`, 'PUT', { version: 2, note: 'try v2' }), channelParams(created.id, 'beta'))
+    expect(betaRes.status).toBe(200)
+    expect(await betaRes.json()).toMatchObject({ name: 'beta', version: 2 })
+
+    const promoteRes = await moveChannel(jsonRequest(`${url}/stable`, 'PUT', { fromChannel: 'beta' }), channelParams(created.id, 'stable'))
+    expect(promoteRes.status).toBe(200)
+    expect(await promoteRes.json()).toMatchObject({ name: 'stable', version: 2 })
+
+    const missingVersion = await moveChannel(jsonRequest(`${url}/stable`, 'PUT', { version: 9 }), channelParams(created.id, 'stable'))
+    expect(missingVersion.status).toBe(404)
+    const missingSource = await moveChannel(jsonRequest(`${url}/stable`, 'PUT', { fromChannel: 'rc' }), channelParams(created.id, 'stable'))
+    expect(missingSource.status).toBe(404)
+    const ambiguous = await moveChannel(jsonRequest(`${url}/stable`, 'PUT', { version: 1, fromChannel: 'beta' }), channelParams(created.id, 'stable'))
+    expect(ambiguous.status).toBe(400)
+    const sameChannel = await moveChannel(jsonRequest(`${url}/beta`, 'PUT', { fromChannel: 'beta' }), channelParams(created.id, 'beta'))
+    expect(sameChannel.status).toBe(400)
+
+    const lookupRes = await lookupChannel(
+      makeRequest(`http://localhost:3000/api/channels/stable/skills/${created.slug}`),
+      { params: Promise.resolve({ channel: 'stable', slug: created.slug }) }
+    )
+    expect(lookupRes.status).toBe(200)
+    const lookup = await lookupRes.json()
+    expect(lookup).toMatchObject({ name: 'stable', version: 2, skillId: created.id })
+    expect(lookup.exports.zip).toBe(`/api/skills/${created.id}/export.zip?channel=stable`)
+
+    const unknownLookup = await lookupChannel(
+      makeRequest(`http://localhost:3000/api/channels/rc/skills/${created.slug}`),
+      { params: Promise.resolve({ channel: 'rc', slug: created.slug }) }
+    )
+    expect(unknownLookup.status).toBe(404)
+
+    const deleteRes = await deleteChannel(makeRequest(`${url}/beta`, { method: 'DELETE' }), channelParams(created.id, 'beta'))
+    expect(deleteRes.status).toBe(200)
+    const channels = await (await listChannels(makeRequest(url), { params: Promise.resolve({ id: String(created.id) }) })).json()
+    expect(channels.items.map((item: { name: string }) => item.name)).toEqual(['stable'])
+  })
+
+  it('exports the version a channel points at instead of the working copy', async () => {
+    const created = await createWithVersions([])
+    const params = { params: Promise.resolve({ id: String(created.id) }) }
+    await createFile(
+      jsonRequest(`http://localhost:3000/api/skills/${created.id}/files`, 'POST', {
+        path: 'references/rules.md',
+        mime: 'text/markdown',
+        content: 'stable rules',
+      }),
+      params
+    )
+    await updateSkill(jsonRequest(`http://localhost:3000/api/skills/${created.id}`, 'PUT', { title: 'Stable Title' }), params)
+    await approveMockLatestVersion(created.id)
+    await publishSkill(jsonRequest(`http://localhost:3000/api/skills/${created.id}/publish`, 'POST', {}), params)
+
+    await updateFile(
+      jsonRequest(`http://localhost:3000/api/skills/${created.id}/files?path=references/rules.md`, 'PUT', { content: 'draft rules' }),
+      params
+    )
+    await updateSkill(jsonRequest(`http://localhost:3000/api/skills/${created.id}`, 'PUT', { title: 'Working Title' }), params)
+
+    const base = `http://localhost:3000/api/skills/${created.id}`
+    const stableJson = await exportJson(makeRequest(`${base}/export.json?channel=stable`), params)
+    expect(stableJson.status).toBe(200)
+    expect(stableJson.headers.get('X-Skill-Channel')).toBe('stable')
+    expect(stableJson.headers.get('X-Skill-Version')).toBe('2')
+    expect((await stableJson.json()).title).toBe('Stable Title')
+
+    const workingJson = await exportJson(makeRequest(`${base}/export.json?working=1`), params)
+    expect(workingJson.headers.get('X-Skill-Version')).toBeNull()
+    expect((await workingJson.json()).title).toBe('Working Title')
+
+    const stableMd = await exportMd(makeRequest(`${base}/export.md?channel=stable`), params)
+    expect(await stableMd.text()).toContain('Stable Title')
+
+    const stableZip = await exportZip(makeRequest(`${base}/export.zip?channel=stable`), params)
+    expect(stableZip.status).toBe(200)
+    const zip = new AdmZip(Buffer.from(await stableZip.arrayBuffer()))
+    const rules = zip.getEntries().find((entry) => entry.entryName.endsWith('references/rules.md'))
+    expect(rules?.getData().toString('utf-8')).toBe('stable rules')
+
+    const missing = await exportJson(makeRequest(`${base}/export.json?channel=beta`), params)
+    expect(missing.status).toBe(404)
+    const invalid = await exportJson(makeRequest(`${base}/export.json?channel=bad name`), params)
+    expect(invalid.status).toBe(400)
+  })
+})
@@ -1,13 +1,30 @@
 import { describe, it, expect, beforeEach } from 'vitest'
+import AdmZip from 'adm-zip'
 import './prisma-mock'
-import { resetMockDb, seedMockSkill } from './prisma-mock'
+import {
+  approveMockLatestVersion,
+  getMockSkillVersions,
+  resetMockDb,
+  seedMockAdminSession,
+  seedMockSkill,
+  withAdminSession,
+} from './prisma-mock'
 
 import { GET as exportMd } from '@/app/api/skills/[id]/export.md/route'
 import { GET as exportJson } from '@/app/api/skills/[id]/export.json/route'
 import { GET as exportZip } from '@/app/api/skills/[id]/export.zip/route'
+import { POST as createSkill } from '@/app/api/skills/route'
+import { PUT as updateSkill } from '@/app/api/skills/[id]/route'
+import { POST as publishSkill } from '@/app/api/skills/[id]/publish/route'
+import { POST as rollbackSkill } from '@/app/api/skills/[id]/rollback/route'
+import { POST as createFile, PUT as updateFile } from '@/app/api/skills/[id]/files/route'
 
-function makeRequest(url: string) {
-  return new Request(url) as unknown as import('next/server').NextRequest
+function makeRequest(url: string, options?: RequestInit) {
+  return new Request(url, withAdminSession(options)) as unknown as import('next/server').NextRequest
+}
+
+function jsonRequest(url: string, method: string, body: unknown) {
+  return makeRequest(url, { method, headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(body) })
 }
 
 const validSkillData = {
@@ -53,6 +70,7 @@ const invalidSkillData = {
 describe('Export API', () => {
   beforeEach(() => {
     resetMockDb()
+    seedMockAdminSession()
   })
 
   describe('GET /api/skills/:id/export.md', () => {
@@ -139,4 +157,108 @@ describe('Export API', () => {
       expect(res.status).toBe(404)
     })
   })
+
+  describe('versioned exports', () => {
+    // v1：含 references/rules.md（v1 rules）并发布；随后工作副本改标题和文件内容（v2）
+    async function createPublishedSkill() {
+      const created = await (await createSkill(
+        jsonRequest('http://localhost:3000/api/skills', 'POST', { ...validSkillData, tags: validSkillData._tags })
+      )).json()
+      const params = { params: Promise.resolve({ id: String(created.id) }) }
+      const base = `http://localhost:3000/api/skills/${created.id}`
+      await createFile(
+        jsonRequest(`${base}/files`, 'POST', { path: 'references/rules.md', mime: 'text/markdown', content: 'v1 rules' }),
+        params
+      )
+      await updateSkill(jsonRequest(base, 'PUT', { title: 'Published Title' }), params)
+      await approveMockLatestVersion(created.id)
+      const publication = await (await publishSkill(jsonRequest(`${base}/publish`, 'POST', {}), params)).json()
+      await updateFile(jsonRequest(`${base}/files?path=references/rules.md`, 'PUT', { content: 'draft rules' }), params)
+      await updateSkill(jsonRequest(base, 'PUT', { title: 'Draft Title' }), params)
+      return { base, params, publication }
+    }
+
+    async function zipFileContent(res: Response, path: string) {
+      const zip = new AdmZip(Buffer.from(await res.arrayBuffer()))
+      return zip.getEntries().find((entry) => entry.entryName.endsWith(path))?.getData().toString('utf-8')
+    }
+
+    it('defaults to the latest publication for published skills', async () => {
+      const { base, params, publication } = await createPublishedSkill()
+
+      const res = await exportJson(makeRequest(`${base}/export.json`), params)
+      expect(res.status).toBe(200)
+      expect(res.headers.get('X-Skill-Publication')).toBe(String(publication.id))
+      expect(res.headers.get('X-Skill-Version')).toBe(String(publication.version))
+      expect((await res.json()).title).toBe('Published Title')
+
+      const zipRes = await exportZip(makeRequest(`${base}/export.zip`), params)
+      expect(await zipFileContent(zipRes, 'references/rules.md')).toBe('v1 rules')
+
+      const working = await exportJson(makeRequest(`${base}/export.json?working=1`), params)
+      expect(working.headers.get('X-Skill-Version')).toBeNull()
+      expect((await working.json()).title).toBe('Draft Title')
+    })
+
+    it('keeps the default export on the stable channel when another channel is newer', async () => {
+      const { base, params, publication } = await createPublishedSkill()
+      await approveMockLatestVersion(publication.skillId)
+      const beta = await (await publishSkill(jsonRequest(`${base}/publish`, 'POST', { channel: 'beta' }), params)).json()
+      expect(beta.version).toBeGreaterThan(publication.version)
+
+      const res = await exportJson(makeRequest(`${base}/export.json`), params)
+      expect(res.headers.get('X-Skill-Publication')).toBe(String(publication.id))
+      expect(res.headers.get('X-Skill-Version')).toBe(String(publication.version))
+      expect((await res.json()).title).toBe('Published Title')
+
+      const betaRes = await exportJson(makeRequest(`${base}/export.json?channel=beta`), params)
+      expect((await betaRes.json()).title).toBe('Draft Title')
+    })
+
+    it('keeps serving the stable version after a rollback turns the skill back into a draft', async () => {
+      const { base, params, publication } = await createPublishedSkill()
+      const first = Array.from(getMockSkillVersions().values()).find(
+        (row) => row.skillId === publication.skillId && row.version === 1
+      )
+      const rolledBack = await rollbackSkill(jsonRequest(`${base}/rollback`, 'POST', { versionId: first!.id }), params)
+      expect(rolledBack.status).toBe(200)
+      expect((await rolledBack.json()).status).toBe('draft')
+
+      const res = await exportJson(makeRequest(`${base}/export.json`), params)
+      expect(res.headers.get('X-Skill-Version')).toBe(String(publication.version))
+      expect(res.headers.get('X-Skill-Channel')).toBe('stable')
+      expect((await res.json()).title).toBe('Published Title')
+    })
+
+    it('exports a specific version or publication snapshot with its files', async () => {
+      const { base, params, publication } = await createPublishedSkill()
+
+      const byVersion = await exportZip(makeRequest(`${base}/export.zip?version=${publication.version}`), params)
+      expect(byVersion.status).toBe(200)
+      expect(await zipFileContent(byVersion, 'references/rules.md')).toBe('v1 rules')
+
+      const latest = await exportMd(makeRequest(`${base}/export.md?version=${publication.version + 1}`), params)
+      expect(latest.headers.get('X-Skill-Version')).toBe(String(publication.version + 1))
+      expect(await latest.text()).toContain('Draft Title')
+
+      const byPublication = await exportMd(makeRequest(`${base}/export.md?publication=${publication.id}`), params)
+      expect(byPublication.status).toBe(200)
+      expect(await byPublication.text()).toContain('Published Title')
+
+      const missingVersion = await exportJson(makeRequest(`${base}/export.json?version=99`), params)
+      expect(missingVersion.status).toBe(404)
+
+      const other = seedMockSkill({ ...validSkillData, slug: 'other-skill' })
+      const foreign = await exportJson(
+        makeRequest(`http://localhost:3000/api/skills/${other.id}/export.json?publication=${publication.id}`),
+        { params: Promise.resolve({ id: String(other.id) }) }
+      )
+      expect(foreign.status).toBe(404)
+
+      const conflicting = await exportJson(makeRequest(`${base}/export.json?version=1&publication=${publication.id}`), params)
+      expect(conflicting.status).toBe(400)
+      const invalid = await exportJson(makeRequest(`${base}/export.json?version=abc`), params)
+      expect(invalid.status).toBe(400)
+    })
+  })
 })
@@ -1,6 +1,6 @@
 // @ts-nocheck
 import { describe, it, expect, beforeEach } from 'vitest'
-import { resetMockDb, seedMockSkill } from './prisma-mock'
+import { MOCK_ADMIN_COOKIE, resetMockDb, seedMockAdminSession, seedMockSkill } from './prisma-mock'
 
 // Valid skill data for seeding
 const validSkillData = {
@@ -26,6 +26,7 @@ const validSkillData = {
 describe('Files API', () => {
   beforeEach(() => {
     resetMockDb()
+    seedMockAdminSession()
   })
 
   describe('POST /api/skills/:id/files - create file', () => {
@@ -34,7 +35,7 @@ describe('Files API', () => {
       const { POST } = await import('../skills/[id]/files/route')
       const req = new Request('http://localhost/api/skills/1/files', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', cookie: MOCK_ADMIN_COOKIE },
         body: JSON.stringify({
           path: 'references/rules.md',
           content: '# Rules\n\nFollow these rules.',
@@ -54,7 +55,7 @@ describe('Files API', () => {
       const { POST } = await import('../skills/[id]/files/route')
       const req = new Request('http://localhost/api/skills/1/files', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', cookie: MOCK_ADMIN_COOKIE },
         body: JSON.stringify({
           path: 'other/bad.md',
           content: 'test',
@@ -71,7 +72,7 @@ describe('Files API', () => {
       const { POST } = await import('../skills/[id]/files/route')
       const req = new Request('http://localhost/api/skills/1/files', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', cookie: MOCK_ADMIN_COOKIE },
         body: JSON.stringify({
           path: 'SKILL.md',
           content: 'test',
@@ -89,7 +90,7 @@ describe('Files API', () => {
       const bigContent = 'x'.repeat(200 * 1024 + 1)
       const req = new Request('http://localhost/api/skills/1/files', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', cookie: MOCK_ADMIN_COOKIE },
         body: JSON.stringify({
           path: 'references/big.md',
           content: bigContent,
@@ -105,7 +106,7 @@ describe('Files API', () => {
       const { POST } = await import('../skills/[id]/files/route')
       const req = new Request('http://localhost/api/skills/999/files', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', cookie: MOCK_ADMIN_COOKIE },
         body: JSON.stringify({
           path: 'references/rules.md',
           content: 'test',
@@ -125,7 +126,7 @@ describe('Files API', () => {
       const { POST, GET } = await import('../skills/[id]/files/route')
       const createReq = new Request('http://localhost/api/skills/1/files', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', cookie: MOCK_ADMIN_COOKIE },
         body: JSON.stringify({
           path: 'references/rules.md',
           content: '# Rules',
@@ -148,7 +149,7 @@ describe('Files API', () => {
       const { POST, GET } = await import('../skills/[id]/files/route')
       const createReq = new Request('http://localhost/api/skills/1/files', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', cookie: MOCK_ADMIN_COOKIE },
         body: JSON.stringify({
           path: 'references/rules.md',
           content: '# Rules',
@@ -172,7 +173,7 @@ describe('Files API', () => {
       const { POST, PUT } = await import('../skills/[id]/files/route')
       const createReq = new Request('http://localhost/api/skills/1/files', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', cookie: MOCK_ADMIN_COOKIE },
         body: JSON.stringify({
           path: 'references/rules.md',
           content: '# Rules v1',
@@ -184,7 +185,7 @@ describe('Files API', () => {
 
       const updateReq = new Request('http://localhost/api/skills/1/files?path=references/rules.md', {
         method: 'PUT',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', cookie: MOCK_ADMIN_COOKIE },
         body: JSON.stringify({ content: '# Rules v2' }),
       })
       const res = await PUT(updateReq, { params: Promise.resolve({ id: String(skill.id) }) })
@@ -202,7 +203,7 @@ describe('Files API', () => {
       await POST(
         new Request('http://localhost/api/skills/1/files', {
           method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
+          headers: { 'Content-Type': 'application/json', cookie: MOCK_ADMIN_COOKIE },
           body: JSON.stringify({
             path: 'references/rules.md',
             content: '# Rules',
@@ -215,7 +216,7 @@ describe('Files API', () => {
 
       const patchReq = new Request('http://localhost/api/skills/1/files', {
         method: 'PATCH',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', cookie: MOCK_ADMIN_COOKIE },
         body: JSON.stringify({
           fromPath: 'references/rules.md',
           toPath: 'examples/rules-v2.md',
@@ -240,7 +241,7 @@ describe('Files API', () => {
       await POST(
         new Request('http://localhost/api/skills/1/files', {
           method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
+          headers: { 'Content-Type': 'application/json', cookie: MOCK_ADMIN_COOKIE },
           body: JSON.stringify({
             path: 'references/rules.md',
             content: '# Rules',
@@ -253,7 +254,7 @@ describe('Files API', () => {
       await POST(
         new Request('http://localhost/api/skills/1/files', {
           method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
+          headers: { 'Content-Type': 'application/json', cookie: MOCK_ADMIN_COOKIE },
           body: JSON.stringify({
             path: 'examples/rules.md',
             content: '# Rules 2',
@@ -266,7 +267,7 @@ describe('Files API', () => {
 
       const patchReq = new Request('http://localhost/api/skills/1/files', {
         method: 'PATCH',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', cookie: MOCK_ADMIN_COOKIE },
         body: JSON.stringify({
           fromPath: 'references/rules.md',
           toPath: 'examples/rules.md',
@@ -283,7 +284,7 @@ describe('Files API', () => {
       const { POST, DELETE: DEL, GET } = await import('../skills/[id]/files/route')
       const createReq = new Request('http://localhost/api/skills/1/files', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', cookie: MOCK_ADMIN_COOKIE },
         body: JSON.stringify({
           path: 'references/rules.md',
           content: '# Rules',
@@ -293,7 +294,7 @@ describe('Files API', () => {
       })
       await POST(createReq, { params: Promise.resolve({ id: String(skill.id) }) })
 
-      const delReq = new Request('http://localhost/api/skills/1/files?path=references/rules.md', { method: 'DELETE' })
+      const delReq = new Request('http://localhost/api/skills/1/files?path=references/rules.md', { method: 'DELETE', headers: { cookie: MOCK_ADMIN_COOKIE } })
       const res = await DEL(delReq, { params: Promise.resolve({ id: String(skill.id) }) })
       expect(res.status).toBe(200)
 
@@ -307,7 +308,7 @@ describe('Files API', () => {
     it('returns 404 when deleting a non-existent file', async () => {
       const skill = seedMockSkill(validSkillData)
       const { DELETE: DEL } = await import('../skills/[id]/files/route')
-      const delReq = new Request('http://localhost/api/skills/1/files?path=references/missing.md', { method: 'DELETE' })
+      const delReq = new Request('http://localhost/api/skills/1/files?path=references/missing.md', { method: 'DELETE', headers: { cookie: MOCK_ADMIN_COOKIE } })
       const res = await DEL(delReq, { params: Promise.resolve({ id: String(skill.id) }) })
       expect(res.status).toBe(404)
     })
@@ -325,7 +326,7 @@ describe('Export ZIP with supporting files', () => {
     const { POST: createFile } = await import('../skills/[id]/files/route')
     const createReq = new Request('http://localhost/api/skills/1/files', {
       method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
+      headers: { 'Content-Type': 'application/json', cookie: MOCK_ADMIN_COOKIE },
       body: JSON.stringify({
         path: 'references/rules.md',
         content: '# Rules',
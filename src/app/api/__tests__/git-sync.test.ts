@@ -0,0 +1,191 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import { execFileSync } from 'child_process'
+import { mkdtemp, rm } from 'fs/promises'
+import { tmpdir } from 'os'
+import path from 'path'
+import './prisma-mock'
+import {
+  approveMockLatestVersion,
+  getMockSkillPublications,
+  resetMockDb,
+  seedMockAdminSession,
+  withAdminSession,
+} from './prisma-mock'
+import { POST as createSkill } from '@/app/api/skills/route'
+import { PUT as updateSkill } from '@/app/api/skills/[id]/route'
+import { POST as publishSkill } from '@/app/api/skills/[id]/publish/route'
+import { GET as listPublications } from '@/app/api/skills/[id]/publications/route'
+import { POST as retryGitSync } from '@/app/api/skills/[id]/publications/[publicationId]/git-sync/route'
+import { POST as createFile } from '@/app/api/skills/[id]/files/route'
+import { PUT as moveChannel } from '@/app/api/skills/[id]/channels/[channel]/route'
+
+function makeRequest(url: string, options?: RequestInit) {
+  return new Request(url, withAdminSession(options)) as unknown as import('next/server').NextRequest
+}
+
+function jsonRequest(url: string, method: string, body: unknown) {
+  return makeRequest(url, {
+    method,
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  })
+}
+
+function git(cwd: string, args: string[]): string {
+  return execFileSync('git', args, { cwd, encoding: 'utf-8' }).trim()
+}
+
+const validSkillBody = {
+  title: 'Git Synced Skill',
+  summary: 'Skill for git sync tests',
+  inputs: 'input',
+  outputs: 'output',
+  steps: ['s1', 's2', 's3'],
+  risks: '',
+  triggers: ['t1', 't2', 't3'],
+  guardrails: {
+    allowed_tools: [],
+    disable_model_invocation: false,
+    user_invocable: true,
+    stop_conditions: ['stop'],
+    escalation: 'ASK_HUMAN',
+  },
+  tests: [{ name: 'ok', input: 'a', expected_output: 'b' }],
+  tags: ['alpha'],
+}
+
+describe('Git sync on publish', () => {
+  let root: string
+  let repo: string
+
+  beforeEach(async () => {
+    resetMockDb()
+    seedMockAdminSession()
+    root = await mkdtemp(path.join(tmpdir(), 'git-sync-api-'))
+    repo = path.join(root, 'skills.git')
+    git(root, ['init', '-q', '--bare', repo])
+  })
+
+  afterEach(async () => {
+    delete process.env.GIT_SYNC_REPO
+    await rm(root, { recursive: true, force: true })
+  })
+
+  async function createPublishable() {
+    const created = await (await createSkill(jsonRequest('http://localhost:3000/api/skills', 'POST', validSkillBody))).json()
+    const params = { params: Promise.resolve({ id: String(created.id) }) }
+    await createFile(
+      jsonRequest(`http://localhost:3000/api/skills/${created.id}/files`, 'POST', {
+        path: 'references/rules.md',
+        mime: 'text/markdown',
+        content: 'published rules',
+      }),
+      params
+    )
+    // 文件改动随下一个版本进入快照
+    await updateSkill(jsonRequest(`http://localhost:3000/api/skills/${created.id}`, 'PUT', { summary: 'Published summary' }), params)
+    await approveMockLatestVersion(created.id)
+    return { id: created.id as number, slug: created.slug as string, params }
+  }
+
+  it('skips syncing when GIT_SYNC_REPO is not set', async () => {
+    const { id, params } = await createPublishable()
+    const res = await publishSkill(jsonRequest(`http://localhost:3000/api/skills/${id}/publish`, 'POST', {}), params)
+    expect(res.status).toBe(201)
+    expect((await res.json()).gitSync).toEqual({ status: 'skipped' })
+
+    const retry = await retryGitSync(makeRequest('http://localhost:3000', { method: 'POST' }), {
+      params: Promise.resolve({ id: String(id), publicationId: '1' }),
+    })
+    expect(retry.status).toBe(503)
+  })
+
+  it('commits the published snapshot with the note and records the sha', async () => {
+    process.env.GIT_SYNC_REPO = repo
+    const { id, slug, params } = await createPublishable()
+
+    const res = await publishSkill(
+      jsonRequest(`http://localhost:3000/api/skills/${id}/publish`, 'POST', { note: 'Initial release' }),
+      params
+    )
+    expect(res.status).toBe(201)
+    const published = await res.json()
+    expect(published.gitSync.status).toBe('synced')
+    expect(published.gitSync.commitSha).toBe(git(repo, ['rev-parse', 'main']))
+
+    expect(git(repo, ['log', '-1', '--format=%B', 'main'])).toBe(
+      `Initial release\n\nSkill: ${slug}\nVersion: ${published.version}\nChannel: stable`
+    )
+    expect(git(repo, ['show', `main:${slug}/references/rules.md`])).toBe('published rules')
+    expect(git(repo, ['show', `main:${slug}/SKILL.md`])).toContain('Git Synced Skill')
+
+    // 工作副本的后续修改不会进入已发布的提交
+    await updateSkill(jsonRequest(`http://localhost:3000/api/skills/${id}`, 'PUT', { summary: 'Draft summary' }), params)
+    const retry = await retryGitSync(makeRequest('http://localhost:3000', { method: 'POST' }), {
+      params: Promise.resolve({ id: String(id), publicationId: String(published.id) }),
+    })
+    expect(retry.status).toBe(200)
+    expect(await retry.json()).toMatchObject({ status: 'synced', changed: false, commitSha: published.gitSync.commitSha })
+
+    const publications = await (await listPublications(
+      makeRequest(`http://localhost:3000/api/skills/${id}/publications`),
+      params
+    )).json()
+    expect(publications.gitSync).toEqual({ enabled: true })
+    expect(publications.items[0].gitCommitSha).toBe(published.gitSync.commitSha)
+    expect(getMockSkillPublications().get(published.id)?.gitSyncedAt).toBeInstanceOf(Date)
+  })
+
+  it('keeps the publication when the repository is unusable', async () => {
+    process.env.GIT_SYNC_REPO = path.join(root, 'missing')
+    const { id, params } = await createPublishable()
+
+    const res = await publishSkill(jsonRequest(`http://localhost:3000/api/skills/${id}/publish`, 'POST', {}), params)
+    expect(res.status).toBe(201)
+    const published = await res.json()
+    expect(published.gitSync).toMatchObject({ status: 'failed' })
+    expect(published.gitSync.error).toContain('Not a git repository')
+    expect(getMockSkillPublications().get(published.id)?.gitCommitSha).toBeNull()
+
+    const retry = await retryGitSync(makeRequest('http://localhost:3000', { method: 'POST' }), {
+      params: Promise.resolve({ id: String(id), publicationId: String(published.id) }),
+    })
+    expect(retry.status).toBe(502)
+  })
+
+  it('mirrors only the stable channel and syncs when stable is promoted', async () => {
+    process.env.GIT_SYNC_REPO = repo
+    const { id, slug, params } = await createPublishable()
+
+    const stable = await (await publishSkill(jsonRequest(`http://localhost:3000/api/skills/${id}/publish`, 'POST', {}), params)).json()
+    expect(stable.gitSync.status).toBe('synced')
+
+    await updateSkill(jsonRequest(`http://localhost:3000/api/skills/${id}`, 'PUT', { summary: 'Beta summary' }), params)
+    await approveMockLatestVersion(id)
+    const betaRes = await publishSkill(
+      jsonRequest(`http://localhost:3000/api/skills/${id}/publish`, 'POST', { channel: 'beta' }),
+      params
+    )
+    expect(betaRes.status).toBe(201)
+    const beta = await betaRes.json()
+    expect(beta.gitSync).toEqual({ status: 'skipped' })
+    expect(git(repo, ['rev-parse', 'main'])).toBe(stable.gitSync.commitSha)
+    expect(git(repo, ['show', `main:${slug}/SKILL.md`])).not.toContain('Beta summary')
+
+    const retry = await retryGitSync(makeRequest('http://localhost:3000', { method: 'POST' }), {
+      params: Promise.resolve({ id: String(id), publicationId: String(beta.id) }),
+    })
+    expect(retry.status).toBe(409)
+
+    const promoted = await moveChannel(
+      jsonRequest(`http://localhost:3000/api/skills/${id}/channels/stable`, 'PUT', { fromChannel: 'beta' }),
+      { params: Promise.resolve({ id: String(id), channel: 'stable' }) }
+    )
+    expect(promoted.status).toBe(200)
+    const moved = await promoted.json()
+    expect(moved.gitSync.status).toBe('synced')
+    expect(moved.gitSync.commitSha).toBe(git(repo, ['rev-parse', 'main']))
+    expect(git(repo, ['show', `main:${slug}/SKILL.md`])).toContain('Beta summary')
+    expect(git(repo, ['log', '-1', '--format=%B', 'main'])).toContain(`Version: ${beta.version}\nChannel: stable`)
+  })
+})
@@ -0,0 +1,138 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import AdmZip from 'adm-zip'
+import './prisma-mock'
+import {
+  getMockFiles,
+  getMockSkills,
+  getMockSkillVersions,
+  resetMockDb,
+  seedMockAdminSession,
+  seedMockSkill,
+  withAdminSession,
+} from './prisma-mock'
+
+import { POST as importSkills } from '@/app/api/skills/import/route'
+import { renderSkillMarkdown } from '@/lib/markdown'
+import type { SkillData } from '@/lib/types'
+
+const skillData: SkillData = {
+  title: 'Test Skill',
+  slug: 'test-skill',
+  summary: 'A test skill for validation',
+  inputs: 'Query string',
+  outputs: 'Cleaned result',
+  steps: ['Parse input', 'Process data', 'Return output'],
+  risks: 'May timeout',
+  triggers: ['deduplicate news', 'clean data', 'parse logs'],
+  guardrails: {
+    allowed_tools: ['Read'],
+    disable_model_invocation: false,
+    user_invocable: true,
+    stop_conditions: ['Stop when empty'],
+    escalation: 'ASK_HUMAN',
+  },
+  tests: [{ name: 'basic', input: 'hello', expected_output: 'world' }],
+}
+
+function makeRequest(filename: string, content: Buffer | string, fields: Record<string, string> = {}) {
+  const form = new FormData()
+  form.append('file', new File([typeof content === 'string' ? content : new Uint8Array(content)], filename))
+  for (const [key, value] of Object.entries(fields)) form.append(key, value)
+  return new Request('http://localhost:3000/api/skills/import', withAdminSession({
+    method: 'POST',
+    body: form,
+  })) as unknown as import('next/server').NextRequest
+}
+
+function makeZip() {
+  const zip = new AdmZip()
+  zip.addFile('test-skill/SKILL.md', Buffer.from(renderSkillMarkdown(skillData, ['references/rules.md'])))
+  zip.addFile('test-skill/references/rules.md', Buffer.from('# Rules'))
+  return zip.toBuffer()
+}
+
+describe('POST /api/skills/import', () => {
+  beforeEach(() => {
+    resetMockDb()
+    seedMockAdminSession()
+  })
+
+  it('previews without writing to the database', async () => {
+    const res = await importSkills(makeRequest('SKILL.md', renderSkillMarkdown(skillData)))
+    expect(res.status).toBe(200)
+    const data = await res.json()
+    expect(data.mode).toBe('preview')
+    expect(data.items).toHaveLength(1)
+    expect(data.items[0].skill.slug).toBe('test-skill')
+    expect(data.items[0].lint.valid).toBe(true)
+    expect(data.items[0].conflict).toBeNull()
+    expect(data.items[0].confidence).toMatchObject({ steps: 1, triggers: 1, tests: 1 })
+    expect(getMockSkills().size).toBe(0)
+  })
+
+  it('reports lint errors in preview', async () => {
+    const res = await importSkills(makeRequest('skill.json', JSON.stringify({ ...skillData, name: 'x', steps: ['one'] })))
+    const data = await res.json()
+    expect(data.items[0].lint.valid).toBe(false)
+    expect(data.items[0].lint.errors.some((e: { field: string }) => e.field === 'steps')).toBe(true)
+    expect(data.items[0].confidence).toBeNull()
+  })
+
+  it('commits a zip with supporting files and creates a version', async () => {
+    const res = await importSkills(makeRequest('bundle.zip', makeZip(), { mode: 'commit' }))
+    expect(res.status).toBe(200)
+    const data = await res.json()
+    expect(data.results[0].status).toBe('created')
+
+    const skill = Array.from(getMockSkills().values())[0]
+    expect(skill.slug).toBe('test-skill')
+    const files = Array.from(getMockFiles().values())
+    expect(files.map((f) => f.path)).toEqual(['references/rules.md'])
+    expect(getMockSkillVersions().size).toBe(1)
+  })
+
+  it('skips conflicting slugs by default', async () => {
+    seedMockSkill({ ...skillData, summary: 'existing' })
+    const res = await importSkills(makeRequest('SKILL.md', renderSkillMarkdown(skillData), { mode: 'commit' }))
+    const data = await res.json()
+    expect(data.items[0].conflict.skillId).toBe(1)
+    expect(data.results[0].status).toBe('skipped')
+    expect(getMockSkills().get(1)?.summary).toBe('existing')
+  })
+
+  it('overwrites conflicting skill as a new version', async () => {
+    seedMockSkill({ ...skillData, summary: 'existing' })
+    const res = await importSkills(makeRequest('bundle.zip', makeZip(), { mode: 'commit', strategy: 'overwrite' }))
+    const data = await res.json()
+    expect(data.results[0]).toMatchObject({ status: 'updated', skillId: 1 })
+    expect(getMockSkills().get(1)?.summary).toBe(skillData.summary)
+    expect(getMockSkills().size).toBe(1)
+    expect(Array.from(getMockFiles().values()).map((f) => f.path)).toEqual(['references/rules.md'])
+    expect(getMockSkillVersions().size).toBe(1)
+  })
+
+  it('imports under a suffixed slug when requested per item', async () => {
+    seedMockSkill({ ...skillData })
+    const res = await importSkills(makeRequest('SKILL.md', renderSkillMarkdown(skillData), {
+      mode: 'commit',
+      strategies: JSON.stringify({ 0: 'suffix' }),
+    }))
+    const data = await res.json()
+    expect(data.results[0]).toMatchObject({ status: 'created', slug: 'test-skill-2' })
+    expect(getMockSkills().size).toBe(2)
+  })
+
+  it('does not write items that fail lint', async () => {
+    const res = await importSkills(makeRequest('skill.json', JSON.stringify({ ...skillData, name: 'x', triggers: [] }), { mode: 'commit' }))
+    const data = await res.json()
+    expect(data.results[0].status).toBe('invalid')
+    expect(getMockSkills().size).toBe(0)
+  })
+
+  it('rejects unsupported files and invalid strategy', async () => {
+    let res = await importSkills(makeRequest('notes.txt', 'hello'))
+    expect(res.status).toBe(400)
+    res = await importSkills(makeRequest('SKILL.md', 'x', { strategy: 'merge' }))
+    expect(res.status).toBe(400)
+  })
+})
@@ -0,0 +1,234 @@
+import { beforeEach, describe, expect, it } from 'vitest'
+import './prisma-mock'
+import {
+  approveMockLatestVersion,
+  getMockSkillMaintainers,
+  getMockSkills,
+  getMockTags,
+  prismaMock,
+  resetMockDb,
+  seedMockSkill,
+  seedMockUser,
+} from './prisma-mock'
+import { hashSessionToken } from '@/lib/auth'
+import { POST as createSkill } from '@/app/api/skills/route'
+import { GET as getSkill, PUT as updateSkill, DELETE as deleteSkill } from '@/app/api/skills/[id]/route'
+import { POST as publishSkill } from '@/app/api/skills/[id]/publish/route'
+import { GET as getMaintainers, PUT as putMaintainers } from '@/app/api/skills/[id]/maintainers/route'
+import { POST as batchSkills } from '@/app/api/skills/batch/route'
+import { POST as mergeTags } from '@/app/api/tags/merge/route'
+import { DELETE as deleteTag } from '@/app/api/tags/[id]/route'
+
+function makeRequest(url: string, options?: RequestInit) {
+  return new Request(url, options) as unknown as import('next/server').NextRequest
+}
+
+const validSkillBody = {
+  title: 'Owned Skill',
+  summary: 'Skill for permission tests',
+  inputs: 'input',
+  outputs: 'output',
+  steps: ['s1', 's2', 's3'],
+  risks: '',
+  triggers: ['t1', 't2', 't3'],
+  guardrails: {
+    allowed_tools: [],
+    disable_model_invocation: false,
+    user_invocable: true,
+    stop_conditions: ['stop'],
+    escalation: 'ASK_HUMAN',
+  },
+  tests: [{ name: 'ok', input: 'a', expected_output: 'b' }],
+  tags: ['alpha'],
+}
+
+/** 直接写入会话，避免每个用例都走 scrypt 登录 */
+async function sessionHeaders(username: string, role: string) {
+  const user = seedMockUser({ username, role })
+  const token = `token-${username}`
+  await prismaMock.userSession.create({
+    data: { userId: user.id, tokenHash: hashSessionToken(token), expiresAt: new Date(Date.now() + 3600_000) },
+  })
+  return { 'Content-Type': 'application/json', cookie: `qsv_session=${token}` }
+}
+
+const params = (id: number) => ({ params: Promise.resolve({ id: String(id) }) })
+
+function seedSkill(owner: string, slug: string) {
+  return seedMockSkill({ ...validSkillBody, slug, status: 'draft', owner, _tags: ['alpha'] })
+}
+
+describe('Role-based permissions', () => {
+  let viewer: Record<string, string>
+  let alice: Record<string, string>
+  let bob: Record<string, string>
+  let reviewer: Record<string, string>
+  let admin: Record<string, string>
+
+  beforeEach(async () => {
+    resetMockDb()
+    viewer = await sessionHeaders('vic', 'viewer')
+    alice = await sessionHeaders('alice', 'author')
+    bob = await sessionHeaders('bob', 'author')
+    reviewer = await sessionHeaders('rita', 'reviewer')
+    admin = await sessionHeaders('root', 'admin')
+  })
+
+  it('makes the creating author the owner and rejects viewers', async () => {
+    const denied = await createSkill(
+      makeRequest('http://localhost:3000/api/skills', { method: 'POST', headers: viewer, body: JSON.stringify(validSkillBody) })
+    )
+    expect(denied.status).toBe(403)
+    expect(await denied.json()).toEqual({ error: 'Permission denied' })
+
+    const res = await createSkill(
+      makeRequest('http://localhost:3000/api/skills', { method: 'POST', headers: alice, body: JSON.stringify(validSkillBody) })
+    )
+    expect(res.status).toBe(201)
+    const created = await res.json()
+    expect(getMockSkills().get(created.id)?.owner).toBe('alice')
+
+    const asOwner = await (await getSkill(makeRequest(`http://localhost:3000/api/skills/${created.id}`, { headers: alice }), params(created.id))).json()
+    expect(asOwner.permissions).toEqual({ edit: true, delete: true, publish: false, manageMaintainers: true })
+    const asOther = await (await getSkill(makeRequest(`http://localhost:3000/api/skills/${created.id}`, { headers: bob }), params(created.id))).json()
+    expect(asOther.permissions).toEqual({ edit: false, delete: false, publish: false, manageMaintainers: false })
+  })
+
+  it('lets authors edit only skills they own or co-maintain', async () => {
+    const skill = seedSkill('alice', 'owned-skill')
+    const edit = (headers: Record<string, string>) =>
+      updateSkill(
+        makeRequest(`http://localhost:3000/api/skills/${skill.id}`, { method: 'PUT', headers, body: JSON.stringify({ summary: 'changed' }) }),
+        params(skill.id)
+      )
+
+    expect((await edit(bob)).status).toBe(403)
+    expect((await edit(reviewer)).status).toBe(200)
+
+    const forbidden = await putMaintainers(
+      makeRequest(`http://localhost:3000/api/skills/${skill.id}/maintainers`, { method: 'PUT', headers: bob, body: JSON.stringify({ maintainers: ['bob'] }) }),
+      params(skill.id)
+    )
+    expect(forbidden.status).toBe(403)
+
+    const unknown = await putMaintainers(
+      makeRequest(`http://localhost:3000/api/skills/${skill.id}/maintainers`, { method: 'PUT', headers: alice, body: JSON.stringify({ maintainers: ['ghost'] }) }),
+      params(skill.id)
+    )
+    expect(unknown.status).toBe(400)
+    expect(await unknown.json()).toEqual({ error: 'Unknown users: ghost' })
+
+    const added = await putMaintainers(
+      makeRequest(`http://localhost:3000/api/skills/${skill.id}/maintainers`, {
+        method: 'PUT',
+        headers: alice,
+        body: JSON.stringify({ maintainers: ['bob', 'alice', 'bob'] }),
+      }),
+      params(skill.id)
+    )
+    expect(added.status).toBe(200)
+    expect(await added.json()).toEqual({
+      owner: { username: 'alice', displayName: 'alice' },
+      maintainers: [{ username: 'bob', displayName: 'bob' }],
+    })
+    expect([...getMockSkillMaintainers().values()]).toEqual([expect.objectContaining({ skillId: skill.id, username: 'bob', createdBy: 'alice' })])
+
+    expect((await edit(bob)).status).toBe(200)
+    const deleteRes = await deleteSkill(makeRequest(`http://localhost:3000/api/skills/${skill.id}`, { method: 'DELETE', headers: bob }), params(skill.id))
+    expect(deleteRes.status).toBe(403)
+
+    const listed = await (await getMaintainers(makeRequest(`http://localhost:3000/api/skills/${skill.id}/maintainers`), params(skill.id))).json()
+    expect(listed.maintainers.map((item: { username: string }) => item.username)).toEqual(['bob'])
+  })
+
+  it('transfers ownership to another existing user', async () => {
+    const skill = seedSkill('alice', 'transfer-skill')
+    const res = await putMaintainers(
+      makeRequest(`http://localhost:3000/api/skills/${skill.id}/maintainers`, {
+        method: 'PUT',
+        headers: alice,
+        body: JSON.stringify({ owner: 'bob', maintainers: ['alice'] }),
+      }),
+      params(skill.id)
+    )
+    expect(res.status).toBe(200)
+    expect(getMockSkills().get(skill.id)).toMatchObject({ owner: 'bob', updatedBy: 'alice' })
+
+    const again = await putMaintainers(
+      makeRequest(`http://localhost:3000/api/skills/${skill.id}/maintainers`, { method: 'PUT', headers: alice, body: JSON.stringify({ maintainers: [] }) }),
+      params(skill.id)
+    )
+    expect(again.status).toBe(403)
+  })
+
+  it('requires reviewer or admin to publish', async () => {
+    const skill = seedSkill('alice', 'publish-skill')
+    await approveMockLatestVersion(skill.id)
+    const publish = (headers: Record<string, string>) =>
+      publishSkill(makeRequest(`http://localhost:3000/api/skills/${skill.id}/publish`, { method: 'POST', headers, body: '{}' }), params(skill.id))
+
+    expect((await publish(alice)).status).toBe(403)
+    expect((await publish(reviewer)).status).toBe(201)
+    expect((await publish(admin)).status).toBe(201)
+  })
+
+  it('rejects a bulk delete when any selected skill is not deletable', async () => {
+    const own = seedSkill('alice', 'own-skill')
+    const other = seedSkill('bob', 'other-skill')
+    const batch = (headers: Record<string, string>, skillIds: number[]) =>
+      batchSkills(
+        makeRequest('http://localhost:3000/api/skills/batch', {
+          method: 'POST',
+          headers,
+          body: JSON.stringify({ action: 'bulk-delete', skillIds }),
+        })
+      )
+
+    const denied = await batch(alice, [own.id, other.id, 999])
+    expect(denied.status).toBe(403)
+    expect(await denied.json()).toEqual({ error: 'Permission denied', deniedSkillIds: [other.id] })
+    expect(getMockSkills().size).toBe(2)
+
+    const reviewerDelete = await batchSkills(
+      makeRequest('http://localhost:3000/api/skills/batch', {
+        method: 'POST',
+        headers: reviewer,
+        body: JSON.stringify({ action: 'bulk-delete', skillIds: [own.id] }),
+      })
+    )
+    expect(reviewerDelete.status).toBe(403)
+
+    expect((await batch(alice, [own.id])).status).toBe(200)
+    expect((await batch(admin, [other.id])).status).toBe(200)
+    expect(getMockSkills().size).toBe(0)
+  })
+
+  it('requires reviewer or admin to merge or delete tags', async () => {
+    seedSkill('alice', 'tagged-skill')
+    seedMockSkill({ ...validSkillBody, slug: 'tagged-skill-2', owner: 'alice', _tags: ['beta'] })
+    const [alpha, beta] = [...getMockTags().values()]
+    const merge = (headers: Record<string, string>) =>
+      mergeTags(
+        makeRequest('http://localhost:3000/api/tags/merge', {
+          method: 'POST',
+          headers,
+          body: JSON.stringify({ sourceTagId: beta.id, targetTagId: alpha.id }),
+        })
+      )
+
+    expect((await merge(alice)).status).toBe(403)
+    const deleteDenied = await deleteTag(
+      makeRequest(`http://localhost:3000/api/tags/${alpha.id}`, { method: 'DELETE', headers: alice }),
+      params(alpha.id as number)
+    )
+    expect(deleteDenied.status).toBe(403)
+    expect(getMockTags().size).toBe(2)
+
+    expect((await merge(reviewer)).status).toBe(200)
+    const deleted = await deleteTag(
+      makeRequest(`http://localhost:3000/api/tags/${alpha.id}`, { method: 'DELETE', headers: admin }),
+      params(alpha.id as number)
+    )
+    expect(deleted.status).toBe(200)
+  })
+})
@@ -1,5 +1,7 @@
 // @ts-nocheck
 import { vi } from 'vitest'
+import { hashSessionToken } from '@/lib/auth'
+import { createSkillVersionIfAvailable, toSkillSnapshot } from '@/lib/skill-versioning'
 
 /**
  * Prisma mock for API tests
@@ -11,12 +13,40 @@ const mockFiles: Map<number, Record<string, unknown>> = new Map()
 const mockDrafts: Map<number, Record<string, unknown>> = new Map()
 const mockSkillVersions: Map<number, Record<string, unknown>> = new Map()
 const mockSkillPublications: Map<number, Record<string, unknown>> = new Map()
+const mockSkillChannels: Map<number, Record<string, unknown>> = new Map()
+const mockFileBlobs: Map<number, Record<string, unknown>> = new Map()
+const mockTemplates: Map<number, Record<string, unknown>> = new Map()
+const mockProposalLogs: Map<number, Record<string, unknown>> = new Map()
+const mockSkillTestRuns: Map<number, Record<string, unknown>> = new Map()
+const mockUsageEvents: Map<number, Record<string, unknown>> = new Map()
+const mockUpstreamChanges: Map<number, Record<string, unknown>> = new Map()
+const mockUsers: Map<number, Record<string, unknown>> = new Map()
+const mockUserSessions: Map<number, Record<string, unknown>> = new Map()
+const mockApiTokens: Map<number, Record<string, unknown>> = new Map()
+const mockSkillMaintainers: Map<number, Record<string, unknown>> = new Map()
+const mockSkillReviews: Map<number, Record<string, unknown>> = new Map()
+const mockSkillReviewDecisions: Map<number, Record<string, unknown>> = new Map()
+const mockAuditEvents: Map<number, Record<string, unknown>> = new Map()
 let skillIdCounter = 1
 let tagIdCounter = 1
 let fileIdCounter = 1
 let draftIdCounter = 1
 let versionIdCounter = 1
 let publicationIdCounter = 1
+let channelIdCounter = 1
+let fileBlobIdCounter = 1
+let templateIdCounter = 1
+let proposalLogIdCounter = 1
+let skillTestRunIdCounter = 1
+let usageEventIdCounter = 1
+let upstreamChangeIdCounter = 1
+let userIdCounter = 1
+let userSessionIdCounter = 1
+let apiTokenIdCounter = 1
+let skillMaintainerIdCounter = 1
+let skillReviewIdCounter = 1
+let skillReviewDecisionIdCounter = 1
+let auditEventIdCounter = 1
 
 function makePrismaError(code: string, message: string) {
   return Object.assign(new Error(message), { code })
@@ -38,7 +68,7 @@ function findTagByName(name: string) {
   return null
 }
 
-function findOrCreateTag(name: string) {
+function findOrCreateTag(name: string, create: Record<string, unknown> = {}) {
   const existing = findTagByName(name)
   if (existing) return existing
   const id = tagIdCounter++
@@ -49,6 +79,7 @@ function findOrCreateTag(name: string) {
     updatedAt: new Date(),
     createdBy: 'SYS',
     updatedBy: 'SYS',
+    ...create,
   }
   mockTags.set(id, tag)
   return tag
@@ -116,6 +147,8 @@ function filterSkillsByWhere(
     const orConditions = where.OR as Array<Record<string, { contains?: string }>>
     results = results.filter((skill) =>
       orConditions.some((cond) => {
+        const isContains = Object.values(cond).some((val) => typeof val?.contains === 'string')
+        if (!isContains) return filterSkillsByWhere([skill], cond).length > 0
         for (const [key, val] of Object.entries(cond)) {
           if (val.contains && String(skill[key]).includes(val.contains)) return true
         }
@@ -141,6 +174,32 @@ function filterSkillsByWhere(
     }
   }
 
+  for (const key of ['id', 'slug']) {
+    const condition = where[key] as { in?: unknown[]; not?: unknown } | undefined
+    if (condition && typeof condition === 'object' && Array.isArray(condition.in)) {
+      results = results.filter((skill) => condition.in!.includes(skill[key]))
+    }
+    if (condition && typeof condition === 'object' && 'not' in condition) {
+      results = results.filter((skill) => skill[key] !== condition.not)
+    }
+  }
+
+  // 只支持 NOT: { triggers: { equals: [] } }（排除无触发词的 Skill）
+  const not = where.NOT as { triggers?: { equals?: unknown[] } } | undefined
+  if (Array.isArray(not?.triggers?.equals) && not.triggers.equals.length === 0) {
+    results = results.filter((skill) => Array.isArray(skill.triggers) && skill.triggers.length > 0)
+  }
+
+  if (where.qualityScore && typeof where.qualityScore === 'object') {
+    const { gte, lte } = where.qualityScore as { gte?: number; lte?: number }
+    results = results.filter((skill) => {
+      if (typeof skill.qualityScore !== 'number') return false
+      if (typeof gte === 'number' && skill.qualityScore < gte) return false
+      if (typeof lte === 'number' && skill.qualityScore > lte) return false
+      return true
+    })
+  }
+
   return results
 }
 
@@ -164,6 +223,12 @@ function sortSkills(
         return direction === 'desc' ? tb - ta : ta - tb
       }
 
+      if (field === 'qualityScore') {
+        const na = typeof a[field] === 'number' ? Number(a[field]) : -1
+        const nb = typeof b[field] === 'number' ? Number(b[field]) : -1
+        return direction === 'desc' ? nb - na : na - nb
+      }
+
       const va = String(a[field] ?? '')
       const vb = String(b[field] ?? '')
       return direction === 'desc' ? vb.localeCompare(va) : va.localeCompare(vb)
@@ -180,12 +245,40 @@ export function resetMockDb() {
   mockDrafts.clear()
   mockSkillVersions.clear()
   mockSkillPublications.clear()
+  mockSkillChannels.clear()
+  mockFileBlobs.clear()
+  mockTemplates.clear()
+  mockProposalLogs.clear()
+  mockSkillTestRuns.clear()
+  mockUsageEvents.clear()
+  mockUpstreamChanges.clear()
+  mockUsers.clear()
+  mockUserSessions.clear()
+  mockApiTokens.clear()
+  mockSkillMaintainers.clear()
+  mockSkillReviews.clear()
+  mockSkillReviewDecisions.clear()
+  mockAuditEvents.clear()
   skillIdCounter = 1
   tagIdCounter = 1
   fileIdCounter = 1
   draftIdCounter = 1
   versionIdCounter = 1
   publicationIdCounter = 1
+  channelIdCounter = 1
+  fileBlobIdCounter = 1
+  templateIdCounter = 1
+  proposalLogIdCounter = 1
+  skillTestRunIdCounter = 1
+  usageEventIdCounter = 1
+  upstreamChangeIdCounter = 1
+  userIdCounter = 1
+  userSessionIdCounter = 1
+  apiTokenIdCounter = 1
+  skillMaintainerIdCounter = 1
+  skillReviewIdCounter = 1
+  skillReviewDecisionIdCounter = 1
+  auditEventIdCounter = 1
   vi.clearAllMocks()
 }
 
@@ -199,6 +292,7 @@ export function seedMockSkill(data: Record<string, unknown>) {
     updatedAt: new Date(),
     createdBy: 'SYS',
     updatedBy: 'SYS',
+    owner: 'SYS',
     ...data,
     _tags: tags,
   }
@@ -230,6 +324,252 @@ export function getMockSkillPublications() {
   return mockSkillPublications
 }
 
+export function getMockSkillChannels() {
+  return mockSkillChannels
+}
+
+export function getMockFileBlobs() {
+  return mockFileBlobs
+}
+
+export function getMockTemplates() {
+  return mockTemplates
+}
+
+export function getMockProposalLogs() {
+  return mockProposalLogs
+}
+
+export function getMockSkillTestRuns() {
+  return mockSkillTestRuns
+}
+
+export function getMockUsageEvents() {
+  return mockUsageEvents
+}
+
+export function getMockUpstreamChanges() {
+  return mockUpstreamChanges
+}
+
+export function getMockUsers() {
+  return mockUsers
+}
+
+export function getMockUserSessions() {
+  return mockUserSessions
+}
+
+export function getMockApiTokens() {
+  return mockApiTokens
+}
+
+export function seedMockApiToken(data: Record<string, unknown>) {
+  const id = apiTokenIdCounter++
+  const row = {
+    id,
+    name: 'token',
+    tokenPrefix: 'qsv_pat_xxxxxx',
+    scopes: [],
+    lastUsedAt: null,
+    expiresAt: null,
+    revokedAt: null,
+    createdAt: new Date(),
+    ...data,
+  }
+  mockApiTokens.set(id, row)
+  return row
+}
+
+export function seedMockUser(data: Record<string, unknown>) {
+  const id = userIdCounter++
+  const now = new Date()
+  const row = {
+    id,
+    displayName: String(data.username || ''),
+    email: null,
+    passwordHash: null,
+    status: 'active',
+    role: 'author',
+    lastLoginAt: null,
+    createdAt: now,
+    updatedAt: now,
+    ...data,
+  }
+  mockUsers.set(id, row)
+  return row
+}
+
+export const MOCK_ADMIN_COOKIE = 'qsv_session=token-admin'
+
+/**
+ * 写入 admin 用户及其会话；匿名请求只读，写接口测试的请求需带上 MOCK_ADMIN_COOKIE
+ */
+export function seedMockAdminSession() {
+  const user = seedMockUser({ username: 'admin', role: 'admin' })
+  const id = userSessionIdCounter++
+  mockUserSessions.set(id, {
+    id,
+    userId: user.id,
+    tokenHash: hashSessionToken('token-admin'),
+    expiresAt: new Date(Date.now() + 3600_000),
+    revokedAt: null,
+    userAgent: null,
+    createdAt: new Date(),
+  })
+  return user
+}
+
+export function withAdminSession(init: RequestInit = {}): RequestInit {
+  const headers = new Headers(init.headers)
+  headers.set('cookie', MOCK_ADMIN_COOKIE)
+  return { ...init, headers }
+}
+
+export function getMockSkillMaintainers() {
+  return mockSkillMaintainers
+}
+
+export function seedMockSkillMaintainer(data: Record<string, unknown>) {
+  const id = skillMaintainerIdCounter++
+  const row = { id, createdAt: new Date(), createdBy: 'SYS', ...data }
+  mockSkillMaintainers.set(id, row)
+  return row
+}
+
+export function seedMockUpstreamChange(data: Record<string, unknown>) {
+  const id = upstreamChangeIdCounter++
+  const row = { id, sourceRef: null, status: 'pending', createdAt: new Date(), resolvedAt: null, ...data }
+  mockUpstreamChanges.set(id, row)
+  return row
+}
+
+export function getMockSkillReviews() {
+  return mockSkillReviews
+}
+
+export function getMockSkillReviewDecisions() {
+  return mockSkillReviewDecisions
+}
+
+export function getMockAuditEvents() {
+  return mockAuditEvents
+}
+
+export function seedMockSkillReview(data: Record<string, unknown>) {
+  const id = skillReviewIdCounter++
+  const row = { id, status: 'pending', requiredApprovals: 1, note: null, createdAt: new Date(), createdBy: 'SYS', resolvedAt: null, ...data }
+  mockSkillReviews.set(id, row)
+  return row
+}
+
+/**
+ * 为 Skill 的最新版本写入一条已通过的审核（发布的前置条件）；还没有版本时先按工作副本生成版本
+ */
+export async function approveMockLatestVersion(skillId: number) {
+  const latestOf = () =>
+    Array.from(mockSkillVersions.values())
+      .filter((row) => row.skillId === skillId)
+      .sort((a, b) => Number(b.version) - Number(a.version))[0]
+  if (!latestOf()) {
+    await createSkillVersionIfAvailable(prismaMock, skillId, toSkillSnapshot(mapSkillForResponse(mockSkills.get(skillId))))
+  }
+  return seedMockSkillReview({ skillId, skillVersionId: latestOf().id, status: 'approved', resolvedAt: new Date() })
+}
+
+function matchesReviewWhere(row: Record<string, unknown>, where?: Record<string, unknown>) {
+  if (!where) return true
+  if (where.id !== undefined && row.id !== where.id) return false
+  if (where.skillId !== undefined && row.skillId !== where.skillId) return false
+  if (where.skillVersionId !== undefined && row.skillVersionId !== where.skillVersionId) return false
+  const status = where.status as string | { in?: string[] } | undefined
+  if (typeof status === 'string' && row.status !== status) return false
+  if (status && typeof status === 'object' && status.in && !status.in.includes(String(row.status))) return false
+  return true
+}
+
+function withReviewRelations(row: Record<string, unknown>, include?: Record<string, unknown>) {
+  const result: Record<string, unknown> = { ...row }
+  if (!include) return result
+  if (include.skillVersion) {
+    const version = mockSkillVersions.get(Number(row.skillVersionId))
+    result.skillVersion = version ? { version: version.version } : null
+  }
+  if (include.decisions) {
+    result.decisions = Array.from(mockSkillReviewDecisions.values())
+      .filter((item) => item.reviewId === row.id)
+      .map((item) => ({ ...item }))
+  }
+  if (include.skill) {
+    const skill = mockSkills.get(Number(row.skillId))
+    result.skill = skill ? { title: skill.title, slug: skill.slug, owner: skill.owner } : null
+  }
+  return result
+}
+
+function matchesUpstreamWhere(row: Record<string, unknown>, where?: Record<string, unknown>) {
+  if (!where) return true
+  if (where.skillId !== undefined && row.skillId !== where.skillId) return false
+  const status = where.status as string | { in?: string[] } | undefined
+  if (typeof status === 'string' && row.status !== status) return false
+  if (status && typeof status === 'object' && status.in && !status.in.includes(String(row.status))) return false
+  return true
+}
+
+function withSkillFiles(skill: Record<string, unknown>, include?: Record<string, unknown>) {
+  const mapped = mapSkillForResponse(skill)
+  if (!include?.files) return mapped
+  return { ...mapped, files: Array.from(mockFiles.values()).filter((file) => file.skillId === skill.id) }
+}
+
+function matchesUsageWhere(row: Record<string, unknown>, where?: Record<string, unknown>) {
+  if (!where) return true
+  if (where.skillId !== undefined && row.skillId !== where.skillId) return false
+  const occurredAt = where.occurredAt as { gte?: Date } | undefined
+  if (occurredAt?.gte && (row.occurredAt as Date).getTime() < occurredAt.gte.getTime()) return false
+  const outcome = where.outcome as { in?: string[] } | undefined
+  if (outcome?.in && !outcome.in.includes(String(row.outcome))) return false
+  return true
+}
+
+function matchesAuditWhere(row: Record<string, unknown>, where?: Record<string, unknown>) {
+  if (!where) return true
+  for (const field of ['actor', 'action', 'entityType', 'entityId', 'skillId', 'requestId']) {
+    if (where[field] !== undefined && row[field] !== where[field]) return false
+  }
+  const createdAt = where.createdAt as { gte?: Date; lt?: Date } | undefined
+  const time = (row.createdAt as Date).getTime()
+  if (createdAt?.gte && time < createdAt.gte.getTime()) return false
+  if (createdAt?.lt && time >= createdAt.lt.getTime()) return false
+  return true
+}
+
+function findMockChannel(skillId: number, name: string) {
+  for (const [, channel] of mockSkillChannels) {
+    if (channel.skillId === skillId && channel.name === name) return channel
+  }
+  return null
+}
+
+function withIncludedVersion(row: Record<string, unknown>, include?: Record<string, unknown>) {
+  const spec = include?.skillVersion
+  if (!spec) return { ...row }
+  const version = mockSkillVersions.get(Number(row.skillVersionId))
+  if (!version || spec === true) return { ...row, skillVersion: version ? { ...version } : null }
+  const select = (spec as { select?: Record<string, boolean> }).select || {}
+  const picked: Record<string, unknown> = {}
+  for (const [key, enabled] of Object.entries(select)) {
+    if (enabled) picked[key] = version[key]
+  }
+  return { ...row, skillVersion: picked }
+}
+
+function withProposalVersion(row: Record<string, unknown>, include?: Record<string, unknown>) {
+  if (!include?.skillVersion) return { ...row }
+  const version = row.skillVersionId ? mockSkillVersions.get(Number(row.skillVersionId)) : null
+  return { ...row, skillVersion: version ? { id: version.id, version: version.version } : null }
+}
+
 export const prismaMock = {
   skill: {
     findMany: vi.fn(async (args?: {
@@ -263,11 +603,11 @@ export const prismaMock = {
       return results.map((skill) => mapSkillForResponse(skill))
     }),
 
-    findUnique: vi.fn(async (args: { where: { id?: number; slug?: string } }) => {
+    findUnique: vi.fn(async (args: { where: { id?: number; slug?: string }; include?: Record<string, unknown> }) => {
       if (args.where.id) {
         const skill = mockSkills.get(args.where.id)
         if (!skill) return null
-        return mapSkillForResponse(skill)
+        return withSkillFiles(skill, args.include)
       }
 
       if (args.where.slug) {
@@ -291,12 +631,13 @@ export const prismaMock = {
       const skill = {
         id,
         status: 'draft',
+        createdBy: 'SYS',
+        updatedBy: 'SYS',
+        owner: 'SYS',
         ...rest,
         _tags: [],
         createdAt: new Date(),
         updatedAt: new Date(),
-        createdBy: 'SYS',
-        updatedBy: 'SYS',
       }
 
       if (tagsData && typeof tagsData === 'object') {
@@ -344,6 +685,31 @@ export const prismaMock = {
       for (const [pid, publication] of mockSkillPublications) {
         if (publication.skillId === args.where.id) mockSkillPublications.delete(pid)
       }
+      for (const [cid, channel] of mockSkillChannels) {
+        if (channel.skillId === args.where.id) mockSkillChannels.delete(cid)
+      }
+      for (const [lid, log] of mockProposalLogs) {
+        if (log.skillId === args.where.id) mockProposalLogs.delete(lid)
+      }
+      for (const [rid, run] of mockSkillTestRuns) {
+        if (run.skillId === args.where.id) mockSkillTestRuns.delete(rid)
+      }
+      for (const [eid, event] of mockUsageEvents) {
+        if (event.skillId === args.where.id) mockUsageEvents.delete(eid)
+      }
+      for (const [uid, change] of mockUpstreamChanges) {
+        if (change.skillId === args.where.id) mockUpstreamChanges.delete(uid)
+      }
+      for (const [mid, maintainer] of mockSkillMaintainers) {
+        if (maintainer.skillId === args.where.id) mockSkillMaintainers.delete(mid)
+      }
+      for (const [rid, review] of mockSkillReviews) {
+        if (review.skillId !== args.where.id) continue
+        mockSkillReviews.delete(rid)
+        for (const [did, decision] of mockSkillReviewDecisions) {
+          if (decision.reviewId === rid) mockSkillReviewDecisions.delete(did)
+        }
+      }
       mockSkills.delete(args.where.id)
       return { id: args.where.id }
     }),
@@ -412,10 +778,10 @@ export const prismaMock = {
     }),
 
     upsert: vi.fn(async (args: { where: { name: string }; update: Record<string, unknown>; create: { name: string } }) => {
-      return findOrCreateTag(args.where.name || args.create.name)
+      return findOrCreateTag(args.where.name || args.create.name, args.create)
     }),
 
-    update: vi.fn(async (args: { where: { id: number }; data: { name?: string } }) => {
+    update: vi.fn(async (args: { where: { id: number }; data: { name?: string; updatedBy?: string } }) => {
       const current = mockTags.get(args.where.id)
       if (!current) throw makePrismaError('P2025', 'Record not found')
       const nextName = String(args.data.name || current.name)
@@ -426,7 +792,7 @@ export const prismaMock = {
       }
 
       const oldName = String(current.name)
-      const updated = { ...current, name: nextName, updatedAt: new Date() }
+      const updated = { ...current, ...args.data, name: nextName, updatedAt: new Date() }
       mockTags.set(args.where.id, updated)
 
       if (oldName !== nextName) {
@@ -483,7 +849,7 @@ export const prismaMock = {
         }
       }
       const id = fileIdCounter++
-      const file = { id, createdAt: new Date(), updatedAt: new Date(), ...args.data }
+      const file = { id, createdAt: new Date(), updatedAt: new Date(), createdBy: 'SYS', updatedBy: 'SYS', ...args.data }
       mockFiles.set(id, file)
       return file
     }),
@@ -518,6 +884,45 @@ export const prismaMock = {
       }
       throw makePrismaError('P2025', 'Record to delete does not exist')
     }),
+    deleteMany: vi.fn(async (args?: { where?: { skillId?: number } }) => {
+      let count = 0
+      for (const [fid, file] of mockFiles) {
+        if (args?.where?.skillId && file.skillId !== args.where.skillId) continue
+        mockFiles.delete(fid)
+        count += 1
+      }
+      return { count }
+    }),
+  },
+
+  skillFileBlob: {
+    findUnique: vi.fn(async (args: { where: { sha256: string } }) => {
+      for (const [, blob] of mockFileBlobs) {
+        if (blob.sha256 === args.where.sha256) return { ...blob }
+      }
+      return null
+    }),
+    findMany: vi.fn(async (args?: { where?: { sha256?: { in?: string[] } } }) => {
+      let results = Array.from(mockFileBlobs.values())
+      const hashes = args?.where?.sha256?.in
+      if (hashes) {
+        results = results.filter((blob) => hashes.includes(String(blob.sha256)))
+      }
+      return results.map((blob) => ({ ...blob }))
+    }),
+    upsert: vi.fn(async (args: { where: { sha256: string }; update: Record<string, unknown>; create: Record<string, unknown> }) => {
+      for (const [id, blob] of mockFileBlobs) {
+        if (blob.sha256 === args.where.sha256) {
+          const updated = { ...blob, ...args.update }
+          mockFileBlobs.set(id, updated)
+          return { ...updated }
+        }
+      }
+      const id = fileBlobIdCounter++
+      const row = { id, createdAt: new Date(), ...args.create }
+      mockFileBlobs.set(id, row)
+      return { ...row }
+    }),
   },
 
   skillDraft: {
@@ -533,6 +938,10 @@ export const prismaMock = {
         results = results.filter((draft) => draft.mode === args.where?.mode)
       }
 
+      if (typeof args?.where?.skillId === 'number') {
+        results = results.filter((draft) => draft.skillId === args.where?.skillId)
+      }
+
       if (args?.orderBy?.updatedAt) {
         const direction = args.orderBy.updatedAt
         results = results.sort((a, b) => {
@@ -583,6 +992,8 @@ export const prismaMock = {
         id,
         createdAt: now,
         updatedAt: now,
+        createdBy: 'SYS',
+        updatedBy: 'SYS',
         ...args.data,
       }
       mockDrafts.set(id, draft)
@@ -736,7 +1147,9 @@ export const prismaMock = {
       const now = new Date()
       const row = {
         id,
+        origin: 'manual',
         createdAt: now,
+        createdBy: 'SYS',
         ...args.data,
       }
       mockSkillVersions.set(id, row)
@@ -790,6 +1203,33 @@ export const prismaMock = {
       })
     }),
 
+    findUnique: vi.fn(async (args: { where: { id: number }; include?: Record<string, unknown> }) => {
+      const row = mockSkillPublications.get(args.where.id)
+      return row ? withIncludedVersion(row, args.include) : null
+    }),
+
+    findFirst: vi.fn(async (args?: {
+      where?: { skillId?: number; skillVersionId?: number; channel?: string | null; OR?: Array<{ channel?: string | null }> }
+      orderBy?: Record<string, string>
+      include?: Record<string, unknown>
+      select?: Record<string, boolean>
+    }) => {
+      let results = Array.from(mockSkillPublications.values())
+      if (args?.where?.skillId) results = results.filter((item) => item.skillId === args.where?.skillId)
+      if (args?.where?.skillVersionId) results = results.filter((item) => item.skillVersionId === args.where?.skillVersionId)
+      if (args?.where?.channel !== undefined) results = results.filter((item) => item.channel === args.where?.channel)
+      if (args?.where?.OR) {
+        const clauses = args.where.OR
+        results = results.filter((item) => clauses.some((clause) => item.channel === clause.channel))
+      }
+      // 同一毫秒内发布时按 id 兜底排序
+      results = results.sort((a, b) => {
+        const diff = new Date(String(b.publishedAt)).getTime() - new Date(String(a.publishedAt)).getTime()
+        return diff || Number(b.id) - Number(a.id)
+      })
+      return results[0] ? withIncludedVersion(results[0], args?.include) : null
+    }),
+
     create: vi.fn(async (args: { data: Record<string, unknown> }) => {
       const skillId = Number(args.data.skillId)
       const versionId = Number(args.data.skillVersionId)
@@ -802,14 +1242,537 @@ export const prismaMock = {
         id,
         skillId,
         skillVersionId: versionId,
+        channel: args.data.channel ?? null,
         note: args.data.note ?? null,
+        gitCommitSha: null,
+        gitSyncedAt: null,
         publishedAt: new Date(),
         createdAt: now,
         updatedAt: now,
+        createdBy: args.data.createdBy ?? 'SYS',
       }
       mockSkillPublications.set(id, row)
       return { ...row }
     }),
+
+    update: vi.fn(async (args: { where: { id: number }; data: Record<string, unknown> }) => {
+      const row = mockSkillPublications.get(args.where.id)
+      if (!row) throw makePrismaError('P2025', 'Record to update not found')
+      const updated = { ...row, ...args.data, updatedAt: new Date() }
+      mockSkillPublications.set(args.where.id, updated)
+      return { ...updated }
+    }),
+  },
+
+  skillChannel: {
+    findMany: vi.fn(async (args?: {
+      where?: { skillId?: number; name?: string }
+      orderBy?: Record<string, string>
+      include?: Record<string, unknown>
+    }) => {
+      let results = Array.from(mockSkillChannels.values())
+      if (args?.where?.skillId) results = results.filter((item) => item.skillId === args.where?.skillId)
+      if (args?.where?.name) results = results.filter((item) => item.name === args.where?.name)
+      if (args?.orderBy?.name) {
+        const direction = args.orderBy.name
+        results = results.sort((a, b) =>
+          direction === 'desc'
+            ? String(b.name).localeCompare(String(a.name))
+            : String(a.name).localeCompare(String(b.name))
+        )
+      }
+      return results.map((item) => withIncludedVersion(item, args?.include))
+    }),
+
+    findUnique: vi.fn(async (args: {
+      where: { skillId_name: { skillId: number; name: string } }
+      include?: Record<string, unknown>
+    }) => {
+      const row = findMockChannel(args.where.skillId_name.skillId, args.where.skillId_name.name)
+      return row ? withIncludedVersion(row, args.include) : null
+    }),
+
+    upsert: vi.fn(async (args: {
+      where: { skillId_name: { skillId: number; name: string } }
+      update: Record<string, unknown>
+      create: Record<string, unknown>
+    }) => {
+      const existing = findMockChannel(args.where.skillId_name.skillId, args.where.skillId_name.name)
+      const versionId = Number((existing ? args.update : args.create).skillVersionId)
+      if (!mockSkillVersions.get(versionId)) {
+        throw makePrismaError('P2025', 'Related record not found')
+      }
+      if (existing) {
+        const updated = { ...existing, ...args.update, updatedAt: new Date() }
+        mockSkillChannels.set(Number(existing.id), updated)
+        return { ...updated }
+      }
+      const id = channelIdCounter++
+      const now = new Date()
+      const row = { id, createdAt: now, updatedAt: now, ...args.create }
+      mockSkillChannels.set(id, row)
+      return { ...row }
+    }),
+
+    delete: vi.fn(async (args: { where: { skillId_name: { skillId: number; name: string } } }) => {
+      const existing = findMockChannel(args.where.skillId_name.skillId, args.where.skillId_name.name)
+      if (!existing) throw makePrismaError('P2025', 'Record to delete does not exist')
+      mockSkillChannels.delete(Number(existing.id))
+      return { ...existing }
+    }),
+  },
+
+  proposalLog: {
+    findMany: vi.fn(async (args?: {
+      where?: { skillId?: number }
+      include?: Record<string, unknown>
+      skip?: number
+      take?: number
+    }) => {
+      let results = Array.from(mockProposalLogs.values())
+      if (args?.where?.skillId !== undefined) {
+        results = results.filter((item) => item.skillId === args.where?.skillId)
+      }
+      results = results.sort((a, b) => Number(b.id) - Number(a.id))
+      const start = args?.skip || 0
+      const end = typeof args?.take === 'number' ? start + args.take : undefined
+      return results.slice(start, end).map((item) => withProposalVersion(item, args?.include))
+    }),
+
+    findUnique: vi.fn(async (args: { where: { id: number }; include?: Record<string, unknown> }) => {
+      const row = mockProposalLogs.get(args.where.id)
+      return row ? withProposalVersion(row, args.include) : null
+    }),
+
+    count: vi.fn(async (args?: { where?: { skillId?: number } }) => {
+      return Array.from(mockProposalLogs.values())
+        .filter((item) => args?.where?.skillId === undefined || item.skillId === args.where.skillId)
+        .length
+    }),
+
+    create: vi.fn(async (args: { data: Record<string, unknown> }) => {
+      const id = proposalLogIdCounter++
+      const now = new Date()
+      const row = {
+        id,
+        provider: null,
+        instruction: null,
+        changeSet: null,
+        status: 'proposed',
+        error: null,
+        inputTokens: null,
+        outputTokens: null,
+        costUsd: null,
+        appliedChangeSet: null,
+        rejectedItems: null,
+        skillVersionId: null,
+        appliedAt: null,
+        createdAt: now,
+        updatedAt: now,
+        createdBy: 'SYS',
+        ...structuredClone(Object.fromEntries(Object.entries(args.data).filter(([, value]) => value !== undefined))),
+      }
+      mockProposalLogs.set(id, row)
+      return { ...row }
+    }),
+
+    update: vi.fn(async (args: { where: { id: number }; data: Record<string, unknown> }) => {
+      const current = mockProposalLogs.get(args.where.id)
+      if (!current) throw makePrismaError('P2025', 'Record not found')
+      const row = { ...current, ...structuredClone(args.data), updatedAt: new Date() }
+      mockProposalLogs.set(args.where.id, row)
+      return { ...row }
+    }),
+
+    updateMany: vi.fn(async (args: {
+      where: { id: number; status?: { not?: string } }
+      data: Record<string, unknown>
+    }) => {
+      const current = mockProposalLogs.get(args.where.id)
+      if (!current || (args.where.status?.not !== undefined && current.status === args.where.status.not)) {
+        return { count: 0 }
+      }
+      mockProposalLogs.set(args.where.id, { ...current, ...structuredClone(args.data), updatedAt: new Date() })
+      return { count: 1 }
+    }),
+  },
+
+  skillTestRun: {
+    findMany: vi.fn(async (args?: { where?: { skillId?: number }; skip?: number; take?: number }) => {
+      let results = Array.from(mockSkillTestRuns.values())
+      if (args?.where?.skillId !== undefined) {
+        results = results.filter((item) => item.skillId === args.where?.skillId)
+      }
+      results = results.sort((a, b) => Number(b.id) - Number(a.id))
+      const start = args?.skip || 0
+      const end = typeof args?.take === 'number' ? start + args.take : undefined
+      return results.slice(start, end).map((item) => ({ ...item }))
+    }),
+
+    findUnique: vi.fn(async (args: { where: { id: number } }) => {
+      const row = mockSkillTestRuns.get(args.where.id)
+      return row ? { ...row } : null
+    }),
+
+    count: vi.fn(async (args?: { where?: { skillId?: number } }) => {
+      return Array.from(mockSkillTestRuns.values())
+        .filter((item) => args?.where?.skillId === undefined || item.skillId === args.where.skillId)
+        .length
+    }),
+
+    create: vi.fn(async (args: { data: Record<string, unknown> }) => {
+      const id = skillTestRunIdCounter++
+      const row = {
+        id,
+        createdAt: new Date(),
+        createdBy: 'SYS',
+        ...structuredClone(args.data),
+      }
+      mockSkillTestRuns.set(id, row)
+      return { ...row }
+    }),
+  },
+
+  skillUsageEvent: {
+    createMany: vi.fn(async (args: { data: Array<Record<string, unknown>> }) => {
+      for (const data of args.data) {
+        const id = usageEventIdCounter++
+        mockUsageEvents.set(id, { id, createdAt: new Date(), ...data })
+      }
+      return { count: args.data.length }
+    }),
+
+    groupBy: vi.fn(async (args: {
+      by: string[]
+      where?: Record<string, unknown>
+      _count?: { _all?: boolean }
+      _avg?: Record<string, boolean>
+    }) => {
+      const groups = new Map<string, { keys: Record<string, unknown>; rows: Array<Record<string, unknown>> }>()
+      for (const row of mockUsageEvents.values()) {
+        if (!matchesUsageWhere(row, args.where)) continue
+        const keys = Object.fromEntries(args.by.map((field) => [field, row[field] ?? null]))
+        const groupKey = JSON.stringify(keys)
+        const group = groups.get(groupKey) || { keys, rows: [] }
+        group.rows.push(row)
+        groups.set(groupKey, group)
+      }
+      return [...groups.values()].map(({ keys, rows }) => {
+        const out: Record<string, unknown> = { ...keys, _count: { _all: rows.length } }
+        if (args._avg) {
+          out._avg = Object.fromEntries(Object.keys(args._avg).map((field) => {
+            const values = rows.map((row) => row[field]).filter((value): value is number => typeof value === 'number')
+            return [field, values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : null]
+          }))
+        }
+        return out
+      })
+    }),
+  },
+
+  skillTemplate: {
+    findMany: vi.fn(async () => {
+      return Array.from(mockTemplates.values())
+        .sort((a, b) => new Date(String(b.updatedAt)).getTime() - new Date(String(a.updatedAt)).getTime())
+        .map((item) => ({ ...item }))
+    }),
+
+    findUnique: vi.fn(async (args: { where: { id?: number; name?: string } }) => {
+      for (const [, item] of mockTemplates) {
+        if (args.where.id !== undefined && item.id === args.where.id) return { ...item }
+        if (args.where.name !== undefined && item.name === args.where.name) return { ...item }
+      }
+      return null
+    }),
+
+    create: vi.fn(async (args: { data: Record<string, unknown> }) => {
+      for (const [, existing] of mockTemplates) {
+        if (existing.name === args.data.name) {
+          throw makePrismaError('P2002', 'Unique constraint failed on name')
+        }
+      }
+      const id = templateIdCounter++
+      const now = new Date()
+      const row = { id, createdAt: now, updatedAt: now, createdBy: 'SYS', updatedBy: 'SYS', ...args.data }
+      mockTemplates.set(id, row)
+      return { ...row }
+    }),
+
+    update: vi.fn(async (args: { where: { id: number }; data: Record<string, unknown> }) => {
+      const current = mockTemplates.get(args.where.id)
+      if (!current) throw makePrismaError('P2025', 'Record not found')
+      for (const [tid, existing] of mockTemplates) {
+        if (tid !== args.where.id && args.data.name && existing.name === args.data.name) {
+          throw makePrismaError('P2002', 'Unique constraint failed on name')
+        }
+      }
+      const row = { ...current, ...args.data, updatedAt: new Date() }
+      mockTemplates.set(args.where.id, row)
+      return { ...row }
+    }),
+
+    delete: vi.fn(async (args: { where: { id: number } }) => {
+      const current = mockTemplates.get(args.where.id)
+      if (!current) throw makePrismaError('P2025', 'Record not found')
+      mockTemplates.delete(args.where.id)
+      return { ...current }
+    }),
+  },
+
+  skillUpstreamChange: {
+    findFirst: vi.fn(async (args?: { where?: Record<string, unknown>; orderBy?: Record<string, string> }) => {
+      const results = Array.from(mockUpstreamChanges.values())
+        .filter((row) => matchesUpstreamWhere(row, args?.where))
+        .sort((a, b) => {
+          const diff = (b.createdAt as Date).getTime() - (a.createdAt as Date).getTime()
+          return diff || Number(b.id) - Number(a.id)
+        })
+      return results[0] ? { ...results[0] } : null
+    }),
+
+    findMany: vi.fn(async (args?: { where?: Record<string, unknown> }) => {
+      return Array.from(mockUpstreamChanges.values())
+        .filter((row) => matchesUpstreamWhere(row, args?.where))
+        .map((row) => ({ ...row }))
+    }),
+
+    create: vi.fn(async (args: { data: Record<string, unknown> }) => seedMockUpstreamChange(args.data)),
+
+    update: vi.fn(async (args: { where: { id: number }; data: Record<string, unknown> }) => {
+      const row = mockUpstreamChanges.get(args.where.id)
+      if (!row) throw makePrismaError('P2025', 'Record to update not found')
+      const updated = { ...row, ...args.data }
+      mockUpstreamChanges.set(args.where.id, updated)
+      return { ...updated }
+    }),
+
+    updateMany: vi.fn(async (args: { where?: Record<string, unknown>; data: Record<string, unknown> }) => {
+      let count = 0
+      for (const [id, row] of mockUpstreamChanges) {
+        if (!matchesUpstreamWhere(row, args.where)) continue
+        mockUpstreamChanges.set(id, { ...row, ...args.data })
+        count += 1
+      }
+      return { count }
+    }),
+  },
+
+  user: {
+    findUnique: vi.fn(async (args: { where: { id?: number; username?: string } }) => {
+      for (const [, user] of mockUsers) {
+        if (args.where.id !== undefined && user.id !== args.where.id) continue
+        if (args.where.username !== undefined && user.username !== args.where.username) continue
+        return { ...user }
+      }
+      return null
+    }),
+
+    findMany: vi.fn(async (args?: { where?: { username?: { in?: string[] } } }) => {
+      const usernames = args?.where?.username?.in
+      return Array.from(mockUsers.values())
+        .filter((user) => !usernames || usernames.includes(String(user.username)))
+        .map((user) => ({ ...user }))
+    }),
+
+    create: vi.fn(async (args: { data: Record<string, unknown> }) => {
+      for (const [, user] of mockUsers) {
+        if (user.username === args.data.username) throw makePrismaError('P2002', 'Unique constraint failed on username')
+      }
+      return { ...seedMockUser(args.data) }
+    }),
+
+    update: vi.fn(async (args: { where: { id: number }; data: Record<string, unknown> }) => {
+      const user = mockUsers.get(args.where.id)
+      if (!user) throw makePrismaError('P2025', 'Record to update not found')
+      const updated = { ...user, ...args.data, updatedAt: new Date() }
+      mockUsers.set(args.where.id, updated)
+      return { ...updated }
+    }),
+  },
+
+  userSession: {
+    findUnique: vi.fn(async (args: { where: { tokenHash: string }; include?: { user?: boolean } }) => {
+      for (const [, session] of mockUserSessions) {
+        if (session.tokenHash !== args.where.tokenHash) continue
+        const row: Record<string, unknown> = { ...session }
+        if (args.include?.user) row.user = { ...mockUsers.get(Number(session.userId)) }
+        return row
+      }
+      return null
+    }),
+
+    create: vi.fn(async (args: { data: Record<string, unknown> }) => {
+      const id = userSessionIdCounter++
+      const row = { id, revokedAt: null, userAgent: null, createdAt: new Date(), ...args.data }
+      mockUserSessions.set(id, row)
+      return { ...row }
+    }),
+
+    updateMany: vi.fn(async (args: { where: { tokenHash?: string; revokedAt?: null }; data: Record<string, unknown> }) => {
+      let count = 0
+      for (const [id, session] of mockUserSessions) {
+        if (args.where.tokenHash !== undefined && session.tokenHash !== args.where.tokenHash) continue
+        if (args.where.revokedAt === null && session.revokedAt) continue
+        mockUserSessions.set(id, { ...session, ...args.data })
+        count += 1
+      }
+      return { count }
+    }),
+  },
+
+  apiToken: {
+    findUnique: vi.fn(async (args: { where: { id?: number; tokenHash?: string }; include?: { user?: boolean } }) => {
+      for (const [, token] of mockApiTokens) {
+        if (args.where.id !== undefined && token.id !== args.where.id) continue
+        if (args.where.tokenHash !== undefined && token.tokenHash !== args.where.tokenHash) continue
+        const row: Record<string, unknown> = { ...token }
+        if (args.include?.user) row.user = { ...mockUsers.get(Number(token.userId)) }
+        return row
+      }
+      return null
+    }),
+
+    findMany: vi.fn(async (args?: { where?: { userId?: number } }) => {
+      return Array.from(mockApiTokens.values())
+        .filter((row) => args?.where?.userId === undefined || row.userId === args.where.userId)
+        .sort((a, b) => Number(b.id) - Number(a.id))
+        .map((row) => ({ ...row }))
+    }),
+
+    create: vi.fn(async (args: { data: Record<string, unknown> }) => {
+      return { ...seedMockApiToken(args.data) }
+    }),
+
+    update: vi.fn(async (args: { where: { id: number }; data: Record<string, unknown> }) => {
+      const token = mockApiTokens.get(args.where.id)
+      if (!token) throw makePrismaError('P2025', 'Record to update not found')
+      const updated = { ...token, ...args.data }
+      mockApiTokens.set(args.where.id, updated)
+      return { ...updated }
+    }),
+  },
+
+  skillMaintainer: {
+    findMany: vi.fn(async (args?: { where?: { skillId?: number } }) => {
+      return Array.from(mockSkillMaintainers.values())
+        .filter((row) => args?.where?.skillId === undefined || row.skillId === args.where.skillId)
+        .sort((a, b) => Number(a.id) - Number(b.id))
+        .map((row) => ({ ...row }))
+    }),
+
+    createMany: vi.fn(async (args: { data: Array<Record<string, unknown>> }) => {
+      for (const data of args.data) seedMockSkillMaintainer(data)
+      return { count: args.data.length }
+    }),
+
+    deleteMany: vi.fn(async (args: { where: { skillId: number } }) => {
+      let count = 0
+      for (const [id, row] of mockSkillMaintainers) {
+        if (row.skillId !== args.where.skillId) continue
+        mockSkillMaintainers.delete(id)
+        count += 1
+      }
+      return { count }
+    }),
+  },
+
+  skillReview: {
+    findMany: vi.fn(async (args?: {
+      where?: Record<string, unknown>
+      orderBy?: { createdAt?: string }
+      take?: number
+      include?: Record<string, unknown>
+    }) => {
+      const direction = args?.orderBy?.createdAt === 'desc' ? -1 : 1
+      let results = Array.from(mockSkillReviews.values())
+        .filter((row) => matchesReviewWhere(row, args?.where))
+        .sort((a, b) => {
+          const diff = (a.createdAt as Date).getTime() - (b.createdAt as Date).getTime()
+          return direction * (diff || Number(a.id) - Number(b.id))
+        })
+      if (typeof args?.take === 'number') results = results.slice(0, args.take)
+      return results.map((row) => withReviewRelations(row, args?.include))
+    }),
+
+    findFirst: vi.fn(async (args?: { where?: Record<string, unknown>; select?: Record<string, boolean> }) => {
+      const row = Array.from(mockSkillReviews.values()).find((item) => matchesReviewWhere(item, args?.where))
+      return row ? { ...row } : null
+    }),
+
+    findUnique: vi.fn(async (args: { where: { id: number }; include?: Record<string, unknown> }) => {
+      const row = mockSkillReviews.get(args.where.id)
+      return row ? withReviewRelations(row, args.include) : null
+    }),
+
+    create: vi.fn(async (args: { data: Record<string, unknown>; include?: Record<string, unknown> }) => {
+      if (!mockSkillVersions.get(Number(args.data.skillVersionId))) {
+        throw makePrismaError('P2025', 'Related record not found')
+      }
+      return withReviewRelations(seedMockSkillReview(args.data), args.include)
+    }),
+
+    update: vi.fn(async (args: { where: { id: number }; data: Record<string, unknown>; include?: Record<string, unknown> }) => {
+      const row = mockSkillReviews.get(args.where.id)
+      if (!row) throw makePrismaError('P2025', 'Record to update not found')
+      const updated = { ...row, ...args.data }
+      mockSkillReviews.set(args.where.id, updated)
+      return withReviewRelations(updated, args.include)
+    }),
+
+    updateMany: vi.fn(async (args: { where?: Record<string, unknown>; data: Record<string, unknown> }) => {
+      let count = 0
+      for (const [id, row] of mockSkillReviews) {
+        if (!matchesReviewWhere(row, args.where)) continue
+        mockSkillReviews.set(id, { ...row, ...args.data })
+        count += 1
+      }
+      return { count }
+    }),
+  },
+
+  skillReviewDecision: {
+    create: vi.fn(async (args: { data: Record<string, unknown> }) => {
+      for (const [, row] of mockSkillReviewDecisions) {
+        if (row.reviewId === args.data.reviewId && row.createdBy === args.data.createdBy) {
+          throw makePrismaError('P2002', 'Unique constraint failed on review_id, created_by')
+        }
+      }
+      const id = skillReviewDecisionIdCounter++
+      const row = { id, comment: null, fieldComments: [], createdAt: new Date(), createdBy: 'SYS', ...args.data }
+      mockSkillReviewDecisions.set(id, row)
+      return { ...row }
+    }),
+
+    count: vi.fn(async (args?: { where?: { reviewId?: number; decision?: string } }) => {
+      return Array.from(mockSkillReviewDecisions.values()).filter(
+        (row) =>
+          (args?.where?.reviewId === undefined || row.reviewId === args.where.reviewId) &&
+          (args?.where?.decision === undefined || row.decision === args.where.decision)
+      ).length
+    }),
+  },
+
+  auditEvent: {
+    createMany: vi.fn(async (args: { data: Array<Record<string, unknown>> }) => {
+      for (const data of args.data) {
+        const id = auditEventIdCounter++
+        mockAuditEvents.set(id, { id, before: null, after: null, createdAt: new Date(), ...structuredClone(data) })
+      }
+      return { count: args.data.length }
+    }),
+
+    findMany: vi.fn(async (args?: { where?: Record<string, unknown>; skip?: number; take?: number }) => {
+      const results = Array.from(mockAuditEvents.values())
+        .filter((row) => matchesAuditWhere(row, args?.where))
+        .sort((a, b) => Number(b.id) - Number(a.id))
+      const start = args?.skip ?? 0
+      const end = typeof args?.take === 'number' ? start + args.take : undefined
+      return results.slice(start, end).map((row) => ({ ...row }))
+    }),
+
+    count: vi.fn(async (args?: { where?: Record<string, unknown> }) => {
+      return Array.from(mockAuditEvents.values()).filter((row) => matchesAuditWhere(row, args?.where)).length
+    }),
   },
 
   $transaction: vi.fn(async (fn: (tx: typeof prismaMock) => Promise<unknown>) => {
@@ -819,6 +1782,17 @@ export const prismaMock = {
     const draftSnap = cloneMap(mockDrafts)
     const versionSnap = cloneMap(mockSkillVersions)
     const publicationSnap = cloneMap(mockSkillPublications)
+    const fileBlobSnap = cloneMap(mockFileBlobs)
+    const upstreamSnap = cloneMap(mockUpstreamChanges)
+    const maintainerSnap = cloneMap(mockSkillMaintainers)
+    const reviewSnap = cloneMap(mockSkillReviews)
+    const reviewDecisionSnap = cloneMap(mockSkillReviewDecisions)
+    const channelSnap = cloneMap(mockSkillChannels)
+    const templateSnap = cloneMap(mockTemplates)
+    const proposalLogSnap = cloneMap(mockProposalLogs)
+    const userSessionSnap = cloneMap(mockUserSessions)
+    const apiTokenSnap = cloneMap(mockApiTokens)
+    const auditEventSnap = cloneMap(mockAuditEvents)
     const counters = {
       skillIdCounter,
       tagIdCounter,
@@ -826,6 +1800,8 @@ export const prismaMock = {
       draftIdCounter,
       versionIdCounter,
       publicationIdCounter,
+      fileBlobIdCounter,
+      auditEventIdCounter,
     }
 
     try {
@@ -837,12 +1813,25 @@ export const prismaMock = {
       restoreMap(mockDrafts, draftSnap)
       restoreMap(mockSkillVersions, versionSnap)
       restoreMap(mockSkillPublications, publicationSnap)
+      restoreMap(mockFileBlobs, fileBlobSnap)
+      restoreMap(mockUpstreamChanges, upstreamSnap)
+      restoreMap(mockSkillMaintainers, maintainerSnap)
+      restoreMap(mockSkillReviews, reviewSnap)
+      restoreMap(mockSkillReviewDecisions, reviewDecisionSnap)
+      restoreMap(mockSkillChannels, channelSnap)
+      restoreMap(mockTemplates, templateSnap)
+      restoreMap(mockProposalLogs, proposalLogSnap)
+      restoreMap(mockUserSessions, userSessionSnap)
+      restoreMap(mockApiTokens, apiTokenSnap)
+      restoreMap(mockAuditEvents, auditEventSnap)
       skillIdCounter = counters.skillIdCounter
       tagIdCounter = counters.tagIdCounter
       fileIdCounter = counters.fileIdCounter
       draftIdCounter = counters.draftIdCounter
       versionIdCounter = counters.versionIdCounter
       publicationIdCounter = counters.publicationIdCounter
+      fileBlobIdCounter = counters.fileBlobIdCounter
+      auditEventIdCounter = counters.auditEventIdCounter
       throw err
     }
   }),
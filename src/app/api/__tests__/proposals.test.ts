@@ -0,0 +1,314 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import './prisma-mock'
+import {
+  getMockProposalLogs,
+  getMockSkillVersions,
+  prismaMock,
+  resetMockDb,
+  seedMockAdminSession,
+  seedMockSkill,
+  withAdminSession,
+} from './prisma-mock'
+
+import { POST as propose } from '@/app/api/skills/[id]/ai/propose/route'
+import { POST as apply } from '@/app/api/skills/[id]/ai/apply/route'
+import { GET as listProposals } from '@/app/api/skills/[id]/proposals/route'
+import { GET as getProposal } from '@/app/api/skills/[id]/proposals/[proposalId]/route'
+
+function makeRequest(url: string, body?: unknown) {
+  return new Request(url, withAdminSession(body === undefined ? undefined : {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  })) as unknown as import('next/server').NextRequest
+}
+
+const validSkillData = {
+  title: 'Proposal Skill',
+  slug: 'proposal-skill',
+  summary: 'A skill for proposal logs',
+  inputs: 'Query string',
+  outputs: 'Cleaned result',
+  steps: ['Parse input', 'Process data', 'Return output'],
+  risks: 'May timeout',
+  triggers: ['deduplicate news', 'clean data', 'parse logs'],
+  guardrails: {
+    allowed_tools: ['Read'],
+    disable_model_invocation: false,
+    user_invocable: true,
+    stop_conditions: ['Stop when empty'],
+    escalation: 'ASK_HUMAN',
+  },
+  tests: [{ name: 'basic', input: 'hello', expected_output: 'world' }],
+  _tags: ['NLP'],
+}
+
+async function proposeFor(skillId: number) {
+  const res = await propose(
+    makeRequest(`http://localhost:3000/api/skills/${skillId}/ai/propose`, {
+      action: 'update-skill',
+      instruction: 'improve the summary',
+    }),
+    { params: Promise.resolve({ id: String(skillId) }) }
+  )
+  return { res, data: await res.json() }
+}
+
+// 直接写入一条提案记录，用于构造 CLI 不会返回的 changeSet
+async function seedProposal(skillId: number, changeSet: unknown) {
+  const row = await prismaMock.proposalLog.create({
+    data: { skillId, action: 'update-skill', prompt: 'seeded', changeSet },
+  })
+  return row.id as number
+}
+
+describe('AI proposal logs', () => {
+  beforeEach(() => {
+    resetMockDb()
+    seedMockAdminSession()
+    process.env.CLAUDE_BIN = `node ${process.cwd()}/tests/fixtures/fake-claude.mjs`
+  })
+
+  it('records prompt, changeSet and usage when proposing', async () => {
+    const skill = seedMockSkill(validSkillData)
+    const { res, data } = await proposeFor(skill.id as number)
+    expect(res.status).toBe(200)
+    expect(data.proposalId).toBe(1)
+
+    const log = getMockProposalLogs().get(1)
+    expect(log).toMatchObject({
+      skillId: skill.id,
+      action: 'update-skill',
+      instruction: 'improve the summary',
+      status: 'proposed',
+      inputTokens: 150,
+      outputTokens: 80,
+      costUsd: 0.0012,
+    })
+    expect(String(log?.prompt)).toContain('User instruction: improve the summary')
+    expect(log?.changeSet).toEqual(data.changeSet)
+  })
+
+  it('records failed proposals', async () => {
+    process.env.CLAUDE_BIN = 'definitely-missing-claude-binary'
+    const skill = seedMockSkill(validSkillData)
+    const { res, data } = await proposeFor(skill.id as number)
+    expect(res.status).toBe(502)
+    expect(data.proposalId).toBe(1)
+    expect(getMockProposalLogs().get(1)).toMatchObject({ status: 'failed', changeSet: null })
+  })
+
+  it('links applied proposals to the resulting version and rejects re-apply', async () => {
+    const skill = seedMockSkill(validSkillData)
+    const { data: proposal } = await proposeFor(skill.id as number)
+
+    const applyReq = () => makeRequest(`http://localhost:3000/api/skills/${skill.id}/ai/apply`, {
+      changeSet: proposal.changeSet,
+      proposalId: proposal.proposalId,
+    })
+    const res = await apply(applyReq(), { params: Promise.resolve({ id: String(skill.id) }) })
+    expect(res.status).toBe(200)
+    const applied = await res.json()
+    expect(applied.version.version).toBe(1)
+
+    const log = getMockProposalLogs().get(proposal.proposalId)
+    expect(log?.status).toBe('applied')
+    expect(log?.skillVersionId).toBe(applied.version.id)
+    expect(log?.appliedAt).toBeInstanceOf(Date)
+    expect(getMockSkillVersions().size).toBe(1)
+    expect(getMockSkillVersions().get(applied.version.id)?.origin).toBe('ai')
+    expect(applied.lint.regressions).toEqual([])
+
+    const again = await apply(applyReq(), { params: Promise.resolve({ id: String(skill.id) }) })
+    expect(again.status).toBe(409)
+  })
+
+  it('rolls back a concurrent second apply of the same proposal', async () => {
+    const skill = seedMockSkill(validSkillData)
+    const { data: proposal } = await proposeFor(skill.id as number)
+    const stale = { ...getMockProposalLogs().get(proposal.proposalId)! }
+    const params = { params: Promise.resolve({ id: String(skill.id) }) }
+    const url = `http://localhost:3000/api/skills/${skill.id}/ai/apply`
+
+    expect((await apply(makeRequest(url, { proposalId: proposal.proposalId }), params)).status).toBe(200)
+    // 第二个请求读到的仍是应用前的提案
+    prismaMock.proposalLog.findUnique.mockResolvedValueOnce(stale as never)
+    const again = await apply(makeRequest(url, { proposalId: proposal.proposalId }), params)
+    expect(again.status).toBe(409)
+    expect(await again.json()).toEqual({ error: 'Proposal already applied' })
+    expect(getMockSkillVersions().size).toBe(1)
+    expect(getMockProposalLogs().get(proposal.proposalId)?.status).toBe('applied')
+  })
+
+  it('returns 404 for an unknown proposal instead of applying the posted changeSet', async () => {
+    const skill = seedMockSkill(validSkillData)
+    const { data: proposal } = await proposeFor(skill.id as number)
+    const res = await apply(
+      makeRequest(`http://localhost:3000/api/skills/${skill.id}/ai/apply`, {
+        changeSet: { ...proposal.changeSet, skillPatch: { summary: 'Unreviewed summary' } },
+        proposalId: 999,
+      }),
+      { params: Promise.resolve({ id: String(skill.id) }) }
+    )
+    expect(res.status).toBe(404)
+    expect(getMockSkillVersions().size).toBe(0)
+  })
+
+  it('marks proposal as apply_failed when the changeSet is rejected', async () => {
+    const skill = seedMockSkill(validSkillData)
+    const proposalId = await seedProposal(skill.id as number, {
+      skillPatch: {},
+      fileOps: [{ op: 'upsert', path: 'SKILL.md', content_text: 'x' }],
+    })
+    const res = await apply(
+      makeRequest(`http://localhost:3000/api/skills/${skill.id}/ai/apply`, { proposalId }),
+      { params: Promise.resolve({ id: String(skill.id) }) }
+    )
+    expect(res.status).toBe(400)
+    const log = getMockProposalLogs().get(proposalId)
+    expect(log?.status).toBe('apply_failed')
+    expect(String(log?.error)).toContain('SKILL.md')
+  })
+
+  it('blocks changes that introduce new lint errors unless forced', async () => {
+    const skill = seedMockSkill(validSkillData)
+    const proposalId = await seedProposal(skill.id as number, { skillPatch: { triggers: ['only one'] }, fileOps: [] })
+    const applyReq = (extra: Record<string, unknown> = {}) => makeRequest(
+      `http://localhost:3000/api/skills/${skill.id}/ai/apply`,
+      { proposalId, ...extra }
+    )
+
+    const blocked = await apply(applyReq(), { params: Promise.resolve({ id: String(skill.id) }) })
+    expect(blocked.status).toBe(422)
+    const blockedData = await blocked.json()
+    expect(blockedData.error).toBe('Lint regression')
+    expect(blockedData.lint.before.valid).toBe(true)
+    expect(blockedData.lint.regressions.some((e: { field: string }) => e.field === 'triggers')).toBe(true)
+    expect(getMockProposalLogs().get(proposalId)?.status).toBe('apply_failed')
+    expect(getMockSkillVersions().size).toBe(0)
+
+    const forced = await apply(applyReq({ allowLintRegression: true }), { params: Promise.resolve({ id: String(skill.id) }) })
+    expect(forced.status).toBe(200)
+    const forcedData = await forced.json()
+    expect(forcedData.skill.triggers).toEqual(['only one'])
+    expect(forcedData.lint.after.valid).toBe(false)
+    expect(getMockSkillVersions().get(forcedData.version.id)?.origin).toBe('ai')
+  })
+
+  it('applies the stored changeSet and refuses a different posted one', async () => {
+    const skill = seedMockSkill(validSkillData)
+    const { data: proposal } = await proposeFor(skill.id as number)
+    const url = `http://localhost:3000/api/skills/${skill.id}/ai/apply`
+    const params = { params: Promise.resolve({ id: String(skill.id) }) }
+
+    const forged = await apply(
+      makeRequest(url, {
+        changeSet: { ...proposal.changeSet, skillPatch: { summary: 'Not what the AI proposed' } },
+        proposalId: proposal.proposalId,
+      }),
+      params
+    )
+    expect(forged.status).toBe(409)
+    expect((await forged.json()).error).toBe('changeSet does not match proposal')
+    expect(getMockProposalLogs().get(proposal.proposalId)?.status).toBe('proposed')
+
+    const res = await apply(makeRequest(url, { proposalId: proposal.proposalId }), params)
+    expect(res.status).toBe(200)
+    const data = await res.json()
+    expect(data.skill.summary).toBe(proposal.changeSet.skillPatch.summary)
+    expect(getMockProposalLogs().get(proposal.proposalId)?.appliedChangeSet).toEqual(proposal.changeSet)
+
+    const failedId = await seedProposal(skill.id as number, null)
+    const failed = await apply(makeRequest(url, { proposalId: failedId, changeSet: proposal.changeSet }), params)
+    expect(failed.status).toBe(409)
+  })
+
+  it('applies only the selected items and records rejected ones', async () => {
+    const skill = seedMockSkill(validSkillData)
+    const { data: proposal } = await proposeFor(skill.id as number)
+    const res = await apply(
+      makeRequest(`http://localhost:3000/api/skills/${skill.id}/ai/apply`, {
+        changeSet: proposal.changeSet,
+        proposalId: proposal.proposalId,
+        selection: { fields: [], fileOps: ['references/rules.md'] },
+      }),
+      { params: Promise.resolve({ id: String(skill.id) }) }
+    )
+    expect(res.status).toBe(200)
+    const data = await res.json()
+    expect(data.skill.summary).toBe(validSkillData.summary)
+    expect(data.accepted.fileOps).toEqual([{ op: 'upsert', path: 'references/rules.md' }])
+    expect(data.rejected).toEqual({ fields: ['summary'], fileOps: [] })
+
+    const log = getMockProposalLogs().get(proposal.proposalId)
+    expect(log?.rejectedItems).toEqual({ fields: ['summary'], fileOps: [] })
+    expect((log?.appliedChangeSet as { skillPatch: object }).skillPatch).toEqual({})
+  })
+
+  it('rejects selections that accept nothing or reference unknown items', async () => {
+    const skill = seedMockSkill(validSkillData)
+    const { data: proposal } = await proposeFor(skill.id as number)
+    const send = (selection: unknown) => apply(
+      makeRequest(`http://localhost:3000/api/skills/${skill.id}/ai/apply`, {
+        changeSet: proposal.changeSet,
+        proposalId: proposal.proposalId,
+        selection,
+      }),
+      { params: Promise.resolve({ id: String(skill.id) }) }
+    )
+
+    const empty = await send({ fields: [], fileOps: [] })
+    expect(empty.status).toBe(400)
+    expect((await empty.json()).error).toBe('No changes selected')
+
+    const unknown = await send({ fields: ['risks'] })
+    expect(unknown.status).toBe(400)
+    expect((await unknown.json()).error).toBe('Invalid selection')
+
+    expect(getMockProposalLogs().get(proposal.proposalId)?.status).toBe('proposed')
+  })
+
+  it('lists the timeline and returns proposal detail', async () => {
+    const skill = seedMockSkill(validSkillData)
+    const other = seedMockSkill({ ...validSkillData, slug: 'other-skill' })
+    const { data: first } = await proposeFor(skill.id as number)
+    await apply(
+      makeRequest(`http://localhost:3000/api/skills/${skill.id}/ai/apply`, {
+        changeSet: first.changeSet,
+        proposalId: first.proposalId,
+      }),
+      { params: Promise.resolve({ id: String(skill.id) }) }
+    )
+    await proposeFor(skill.id as number)
+    const { data: foreign } = await proposeFor(other.id as number)
+
+    const listRes = await listProposals(
+      makeRequest(`http://localhost:3000/api/skills/${skill.id}/proposals`),
+      { params: Promise.resolve({ id: String(skill.id) }) }
+    )
+    expect(listRes.status).toBe(200)
+    const list = await listRes.json()
+    expect(list.total).toBe(2)
+    expect(list.items.map((item: { status: string }) => item.status)).toEqual(['proposed', 'applied'])
+    const appliedItem = list.items[1]
+    expect(appliedItem.proposed.fields).toEqual(['summary'])
+    expect(appliedItem.applied.fileOps).toEqual([{ op: 'upsert', path: 'references/rules.md' }])
+    expect(appliedItem.version.version).toBe(1)
+    expect(appliedItem.usage.costUsd).toBe(0.0012)
+    expect(appliedItem.prompt).toBeUndefined()
+
+    const detailRes = await getProposal(
+      makeRequest(`http://localhost:3000/api/skills/${skill.id}/proposals/${first.proposalId}`),
+      { params: Promise.resolve({ id: String(skill.id), proposalId: String(first.proposalId) }) }
+    )
+    const detail = await detailRes.json()
+    expect(detail.prompt).toContain('Action: update-skill')
+    expect(detail.changeSet.skillPatch.summary).toBeDefined()
+
+    const foreignRes = await getProposal(
+      makeRequest(`http://localhost:3000/api/skills/${skill.id}/proposals/${foreign.proposalId}`),
+      { params: Promise.resolve({ id: String(skill.id), proposalId: String(foreign.proposalId) }) }
+    )
+    expect(foreignRes.status).toBe(404)
+  })
+})
@@ -0,0 +1,206 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import './prisma-mock'
+import { getMockSkillReviewDecisions, getMockSkillReviews, prismaMock, resetMockDb, seedMockSkill, seedMockUser } from './prisma-mock'
+import { hashSessionToken } from '@/lib/auth'
+import { GET as listSkillReviews, POST as submitReview } from '@/app/api/skills/[id]/reviews/route'
+import { GET as reviewQueue } from '@/app/api/reviews/route'
+import { POST as decideReview } from '@/app/api/reviews/[id]/decisions/route'
+import { POST as publishSkill } from '@/app/api/skills/[id]/publish/route'
+import { PUT as updateSkill } from '@/app/api/skills/[id]/route'
+import { PUT as promoteChannel } from '@/app/api/skills/[id]/channels/[channel]/route'
+
+function makeRequest(url: string, options?: RequestInit) {
+  return new Request(url, options) as unknown as import('next/server').NextRequest
+}
+
+const validSkillBody = {
+  title: 'Reviewed Skill',
+  summary: 'Skill for review tests',
+  inputs: 'input',
+  outputs: 'output',
+  steps: ['s1', 's2', 's3'],
+  risks: '',
+  triggers: ['t1', 't2', 't3'],
+  guardrails: {
+    allowed_tools: [] as string[],
+    disable_model_invocation: false,
+    user_invocable: true,
+    stop_conditions: ['stop'],
+    escalation: 'ASK_HUMAN',
+  },
+  tests: [{ name: 'ok', input: 'a', expected_output: 'b' }],
+}
+
+async function sessionHeaders(username: string, role: string) {
+  const user = seedMockUser({ username, role })
+  const token = `token-${username}`
+  await prismaMock.userSession.create({
+    data: { userId: user.id, tokenHash: hashSessionToken(token), expiresAt: new Date(Date.now() + 3600_000) },
+  })
+  return { 'Content-Type': 'application/json', cookie: `qsv_session=${token}` }
+}
+
+const params = (id: number) => ({ params: Promise.resolve({ id: String(id) }) })
+
+describe('Review workflow', () => {
+  const originalMode = process.env.AUTH_MODE
+  let alice: Record<string, string>
+  let rita: Record<string, string>
+  let rob: Record<string, string>
+
+  beforeEach(async () => {
+    resetMockDb()
+    process.env.AUTH_MODE = 'local_only'
+    alice = await sessionHeaders('alice', 'author')
+    rita = await sessionHeaders('rita', 'reviewer')
+    rob = await sessionHeaders('rob', 'reviewer')
+  })
+
+  afterEach(() => {
+    if (originalMode === undefined) delete process.env.AUTH_MODE
+    else process.env.AUTH_MODE = originalMode
+  })
+
+  const submit = (skillId: number, headers: Record<string, string>) =>
+    submitReview(
+      makeRequest(`http://localhost:3000/api/skills/${skillId}/reviews`, { method: 'POST', headers, body: JSON.stringify({ note: 'please review' }) }),
+      params(skillId)
+    )
+
+  const decide = (reviewId: number, headers: Record<string, string>, body: Record<string, unknown>) =>
+    decideReview(
+      makeRequest(`http://localhost:3000/api/reviews/${reviewId}/decisions`, { method: 'POST', headers, body: JSON.stringify(body) }),
+      params(reviewId)
+    )
+
+  const publish = (skillId: number, headers: Record<string, string>) =>
+    publishSkill(makeRequest(`http://localhost:3000/api/skills/${skillId}/publish`, { method: 'POST', headers, body: '{}' }), params(skillId))
+
+  it('blocks publishing until a reviewer approves the latest version', async () => {
+    const skill = seedMockSkill({ ...validSkillBody, slug: 'reviewed-skill', status: 'draft', owner: 'alice' })
+
+    expect((await publish(skill.id, rita)).status).toBe(409)
+
+    const submitted = await submit(skill.id, alice)
+    expect(submitted.status).toBe(201)
+    const review = await submitted.json()
+    expect(review).toMatchObject({ status: 'pending', version: 1, requiredApprovals: 1, approvals: 0, createdBy: 'alice' })
+    expect((await submit(skill.id, alice)).status).toBe(409)
+
+    const queue = await (await reviewQueue(makeRequest('http://localhost:3000/api/reviews', { headers: rita }))).json()
+    expect(queue.items.map((item: { id: number; skill: { slug: string } }) => [item.id, item.skill.slug])).toEqual([[review.id, 'reviewed-skill']])
+
+    expect((await decide(review.id, alice, { decision: 'approve' })).status).toBe(403)
+    const approved = await decide(review.id, rita, { decision: 'approve', comment: 'LGTM' })
+    expect(approved.status).toBe(201)
+    expect(await approved.json()).toMatchObject({ status: 'approved', approvals: 1 })
+
+    const overview = await (await listSkillReviews(makeRequest(`http://localhost:3000/api/skills/${skill.id}/reviews`, { headers: alice }), params(skill.id))).json()
+    expect(overview).toMatchObject({ publishable: true, latestVersion: 1 })
+    expect((await publish(skill.id, rita)).status).toBe(201)
+  })
+
+  it('records field comments when changes are requested and requires a new submission after edits', async () => {
+    const skill = seedMockSkill({ ...validSkillBody, slug: 'changes-skill', status: 'draft', owner: 'alice' })
+    const review = await (await submit(skill.id, alice)).json()
+
+    const missingComment = await decide(review.id, rita, { decision: 'request_changes' })
+    expect(missingComment.status).toBe(400)
+
+    const res = await decide(review.id, rita, {
+      decision: 'request_changes',
+      fieldComments: [{ field: 'steps', message: '第二步缺少止损条件' }],
+    })
+    expect(res.status).toBe(201)
+    const body = await res.json()
+    expect(body.status).toBe('changes_requested')
+    expect(body.decisions[0]).toMatchObject({ decision: 'request_changes', createdBy: 'rita', fieldComments: [{ field: 'steps', message: '第二步缺少止损条件' }] })
+    expect((await decide(review.id, rob, { decision: 'approve' })).status).toBe(409)
+    expect((await publish(skill.id, rita)).status).toBe(409)
+
+    const edited = await updateSkill(
+      makeRequest(`http://localhost:3000/api/skills/${skill.id}`, { method: 'PUT', headers: alice, body: JSON.stringify({ summary: 'fixed' }) }),
+      params(skill.id)
+    )
+    expect(edited.status).toBe(200)
+    const resubmitted = await (await submit(skill.id, alice)).json()
+    expect(resubmitted.version).toBe(2)
+    await decide(resubmitted.id, rob, { decision: 'approve' })
+    expect((await publish(skill.id, rita)).status).toBe(201)
+  })
+
+  it('requires two distinct approvals for BLOCK escalation or declared tools', async () => {
+    const skill = seedMockSkill({
+      ...validSkillBody,
+      slug: 'risky-skill',
+      status: 'draft',
+      owner: 'alice',
+      guardrails: { ...validSkillBody.guardrails, allowed_tools: ['Bash'] },
+    })
+    const review = await (await submit(skill.id, alice)).json()
+    expect(review.requiredApprovals).toBe(2)
+
+    expect(await (await decide(review.id, rita, { decision: 'approve' })).json()).toMatchObject({ status: 'pending', approvals: 1 })
+    expect((await decide(review.id, rita, { decision: 'approve' })).status).toBe(409)
+    expect((await publish(skill.id, rita)).status).toBe(409)
+
+    expect(await (await decide(review.id, rob, { decision: 'approve' })).json()).toMatchObject({ status: 'approved', approvals: 2 })
+    expect((await publish(skill.id, rita)).status).toBe(201)
+  })
+
+  it('supersedes a pending review when a newer version is submitted', async () => {
+    const skill = seedMockSkill({ ...validSkillBody, slug: 'superseded-skill', status: 'draft', owner: 'alice' })
+    const first = await (await submit(skill.id, alice)).json()
+    await updateSkill(
+      makeRequest(`http://localhost:3000/api/skills/${skill.id}`, { method: 'PUT', headers: alice, body: JSON.stringify({ summary: 'v2' }) }),
+      params(skill.id)
+    )
+    const second = await (await submit(skill.id, alice)).json()
+
+    expect(getMockSkillReviews().get(first.id)?.status).toBe('superseded')
+    expect(second.status).toBe('pending')
+    expect((await decide(first.id, rita, { decision: 'approve' })).status).toBe(409)
+  })
+
+  it('refuses a decision on a review superseded after it was read', async () => {
+    const skill = seedMockSkill({ ...validSkillBody, slug: 'racing-skill', status: 'draft', owner: 'alice' })
+    const review = await (await submit(skill.id, alice)).json()
+    const stale = await prismaMock.skillReview.findUnique({ where: { id: review.id }, include: { skillVersion: true, decisions: true } })
+    getMockSkillReviews().set(review.id, { ...getMockSkillReviews().get(review.id)!, status: 'superseded' })
+    prismaMock.skillReview.findUnique.mockResolvedValueOnce(stale)
+
+    const res = await decide(review.id, rita, { decision: 'approve' })
+    expect(res.status).toBe(409)
+    expect(await res.json()).toEqual({ error: 'Review was superseded by a newer submission' })
+    expect(getMockSkillReviews().get(review.id)?.status).toBe('superseded')
+    expect(getMockSkillReviewDecisions().size).toBe(0)
+  })
+
+  it('only promotes unreviewed versions to a channel after approval', async () => {
+    const skill = seedMockSkill({ ...validSkillBody, slug: 'channel-skill', status: 'draft', owner: 'alice' })
+    const review = await (await submit(skill.id, alice)).json()
+    const promote = () =>
+      promoteChannel(
+        makeRequest(`http://localhost:3000/api/skills/${skill.id}/channels/beta`, { method: 'PUT', headers: rita, body: JSON.stringify({ version: 1 }) }),
+        { params: Promise.resolve({ id: String(skill.id), channel: 'beta' }) }
+      )
+
+    expect((await promote()).status).toBe(409)
+    await decide(review.id, rob, { decision: 'approve' })
+    expect((await promote()).status).toBe(200)
+  })
+
+  it('enforces approval when login is optional and refuses anonymous publishing', async () => {
+    delete process.env.AUTH_MODE
+    const skill = seedMockSkill({ ...validSkillBody, slug: 'open-skill', status: 'draft', owner: 'alice' })
+
+    expect((await publish(skill.id, { 'Content-Type': 'application/json' })).status).toBe(401)
+    expect((await publish(skill.id, rita)).status).toBe(409)
+
+    const review = await (await submit(skill.id, alice)).json()
+    const overview = await (await listSkillReviews(makeRequest(`http://localhost:3000/api/skills/${skill.id}/reviews`), params(skill.id))).json()
+    expect(overview.publishable).toBe(false)
+    await decide(review.id, rob, { decision: 'approve' })
+    expect((await publish(skill.id, rita)).status).toBe(201)
+  })
+})
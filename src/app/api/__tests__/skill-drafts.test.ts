@@ -1,12 +1,12 @@
 import { beforeEach, describe, expect, it } from 'vitest'
 import './prisma-mock'
-import { resetMockDb } from './prisma-mock'
+import { resetMockDb, seedMockAdminSession, withAdminSession } from './prisma-mock'
 import { GET as listDrafts } from '@/app/api/skill-drafts/route'
 import { GET as getDraft, PUT as putDraft, DELETE as deleteDraft } from '@/app/api/skill-drafts/[key]/route'
 import { POST as createSkill } from '@/app/api/skills/route'
 
 function makeRequest(url: string, options?: RequestInit) {
-  return new Request(url, options) as unknown as import('next/server').NextRequest
+  return new Request(url, withAdminSession(options)) as unknown as import('next/server').NextRequest
 }
 
 const validSkillBody = {
@@ -31,6 +31,7 @@ const validSkillBody = {
 describe('Skill Drafts API', () => {
   beforeEach(() => {
     resetMockDb()
+    seedMockAdminSession()
   })
 
   it('PUT /api/skill-drafts/:key creates a new draft and GET returns it', async () => {
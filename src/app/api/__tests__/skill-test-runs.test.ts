@@ -0,0 +1,129 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import './prisma-mock'
+import { getMockSkillTestRuns, resetMockDb, seedMockAdminSession, seedMockSkill, withAdminSession } from './prisma-mock'
+
+import { POST as runTests } from '@/app/api/skills/[id]/tests/run/route'
+import { GET as listRuns } from '@/app/api/skills/[id]/tests/runs/route'
+import { GET as getRun } from '@/app/api/skills/[id]/tests/runs/[runId]/route'
+
+function makeRequest(url: string, body?: unknown) {
+  return new Request(url, withAdminSession(body === undefined ? undefined : {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  })) as unknown as import('next/server').NextRequest
+}
+
+const validSkillData = {
+  title: 'Runner Skill',
+  slug: 'runner-skill',
+  summary: 'A skill with runnable tests',
+  inputs: 'Query string',
+  outputs: 'Echoed result',
+  steps: ['Parse input', 'Process data', 'Return output'],
+  risks: 'May timeout',
+  triggers: ['run tests', 'echo input', 'repeat text'],
+  guardrails: {
+    allowed_tools: [],
+    disable_model_invocation: false,
+    user_invocable: true,
+    stop_conditions: ['Stop when empty'],
+    escalation: 'ASK_HUMAN',
+  },
+  tests: [
+    { name: 'echo', input: 'hello', expected_output: 'hello' },
+    { name: 'mismatch', input: 'hello', expected_output: 'goodbye' },
+  ],
+  _tags: [],
+}
+
+describe('Skill test runs API', () => {
+  const previousProvider = process.env.CHAT_PROVIDER
+
+  beforeEach(() => {
+    resetMockDb()
+    seedMockAdminSession()
+    process.env.CHAT_PROVIDER = 'mock'
+  })
+
+  afterEach(() => {
+    if (previousProvider === undefined) delete process.env.CHAT_PROVIDER
+    else process.env.CHAT_PROVIDER = previousProvider
+  })
+
+  it('runs tests with the mock provider and records the run', async () => {
+    const skill = seedMockSkill(validSkillData)
+    const res = await runTests(
+      makeRequest(`http://localhost:3000/api/skills/${skill.id}/tests/run`, { grader: 'contains' }),
+      { params: Promise.resolve({ id: String(skill.id) }) }
+    )
+    expect(res.status).toBe(200)
+    const data = await res.json()
+    expect(data).toMatchObject({ provider: 'mock', grader: 'contains', total: 2, passed: 1, passRate: 0.5 })
+    expect(data.results[0]).toMatchObject({ name: 'echo', output: '[mock] hello', passed: true })
+    expect(data.run.id).toBe(1)
+
+    const stored = getMockSkillTestRuns().get(1)
+    expect(stored).toMatchObject({ skillId: skill.id, total: 2, passed: 1 })
+    expect(stored?.results).toHaveLength(2)
+  })
+
+  it('runs only the selected tests and validates the request', async () => {
+    const skill = seedMockSkill(validSkillData)
+    const params = { params: Promise.resolve({ id: String(skill.id) }) }
+
+    const selected = await runTests(
+      makeRequest(`http://localhost:3000/api/skills/${skill.id}/tests/run`, { grader: 'exact', testIndexes: [1] }),
+      params
+    )
+    const selectedReport = await selected.json()
+    expect(selectedReport).toMatchObject({ total: 1, passed: 0 })
+    expect(selectedReport.results.map((r: { index: number }) => r.index)).toEqual([1])
+
+    const badGrader = await runTests(
+      makeRequest(`http://localhost:3000/api/skills/${skill.id}/tests/run`, { grader: 'fuzzy' }),
+      params
+    )
+    expect(badGrader.status).toBe(400)
+
+    const outOfRange = await runTests(
+      makeRequest(`http://localhost:3000/api/skills/${skill.id}/tests/run`, { testIndexes: [5] }),
+      params
+    )
+    expect(outOfRange.status).toBe(400)
+
+    const empty = seedMockSkill({ ...validSkillData, slug: 'empty-skill', tests: [] })
+    const noTests = await runTests(
+      makeRequest(`http://localhost:3000/api/skills/${empty.id}/tests/run`, {}),
+      { params: Promise.resolve({ id: String(empty.id) }) }
+    )
+    expect(noTests.status).toBe(400)
+    expect((await noTests.json()).error).toBe('Skill has no tests')
+  })
+
+  it('lists runs and returns run detail', async () => {
+    const skill = seedMockSkill(validSkillData)
+    const params = { params: Promise.resolve({ id: String(skill.id) }) }
+    await runTests(makeRequest(`http://localhost:3000/api/skills/${skill.id}/tests/run`, {}), params)
+    await runTests(makeRequest(`http://localhost:3000/api/skills/${skill.id}/tests/run`, { grader: 'exact' }), params)
+
+    const list = await listRuns(makeRequest(`http://localhost:3000/api/skills/${skill.id}/tests/runs`), params)
+    const listData = await list.json()
+    expect(listData.total).toBe(2)
+    expect(listData.items.map((item: { grader: string }) => item.grader)).toEqual(['exact', 'contains'])
+    expect(listData.items[0].results).toBeUndefined()
+
+    const detail = await getRun(
+      makeRequest(`http://localhost:3000/api/skills/${skill.id}/tests/runs/1`),
+      { params: Promise.resolve({ id: String(skill.id), runId: '1' }) }
+    )
+    const detailData = await detail.json()
+    expect(detailData.results).toHaveLength(2)
+
+    const otherSkill = await getRun(
+      makeRequest('http://localhost:3000/api/skills/99/tests/runs/1'),
+      { params: Promise.resolve({ id: '99', runId: '1' }) }
+    )
+    expect(otherSkill.status).toBe(404)
+  })
+})
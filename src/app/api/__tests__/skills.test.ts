@@ -1,6 +1,6 @@
 import { describe, it, expect, beforeEach } from 'vitest'
 import './prisma-mock'
-import { prismaMock, resetMockDb } from './prisma-mock'
+import { prismaMock, resetMockDb, seedMockAdminSession, withAdminSession } from './prisma-mock'
 
 // Import route handlers
 import { GET as getSkills, POST as createSkill } from '@/app/api/skills/route'
@@ -10,7 +10,7 @@ import { POST as batchSkills } from '@/app/api/skills/batch/route'
 import { GET as getTags } from '@/app/api/tags/route'
 
 function makeRequest(url: string, options?: RequestInit) {
-  return new Request(url, options) as unknown as import('next/server').NextRequest
+  return new Request(url, withAdminSession(options)) as unknown as import('next/server').NextRequest
 }
 
 const validSkillBody = {
@@ -35,6 +35,7 @@ const validSkillBody = {
 describe('Skills API', () => {
   beforeEach(() => {
     resetMockDb()
+    seedMockAdminSession()
   })
 
   describe('POST /api/skills', () => {
@@ -161,6 +162,40 @@ describe('Skills API', () => {
       expect(data.totalPages).toBe(2)
       expect(data.sort).toBe('title_asc')
     })
+
+    it('should sort and filter by quality score', async () => {
+      await createSkill(
+        makeRequest('http://localhost:3000/api/skills', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ ...validSkillBody, title: 'Weak Skill' }),
+        })
+      )
+      await createSkill(
+        makeRequest('http://localhost:3000/api/skills', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            ...validSkillBody,
+            title: 'Strong Skill',
+            tests: validSkillBody.triggers.map((trigger, i) => ({ name: `case ${i}`, input: trigger, expected_output: 'ok' })),
+          }),
+        })
+      )
+
+      const res = await getSkills(makeRequest('http://localhost:3000/api/skills?sort=score_desc'))
+      const data = await res.json()
+      expect(data.sort).toBe('score_desc')
+      expect(data.items.map((s: { title: string }) => s.title)).toEqual(['Strong Skill', 'Weak Skill'])
+      const [strong, weak] = data.items as Array<{ qualityScore: number }>
+      expect(strong.qualityScore).toBeGreaterThan(weak.qualityScore)
+
+      const filtered = await getSkills(
+        makeRequest(`http://localhost:3000/api/skills?sort=score_asc&minScore=${weak.qualityScore + 1}`)
+      )
+      const filteredData = await filtered.json()
+      expect(filteredData.items.map((s: { title: string }) => s.title)).toEqual(['Strong Skill'])
+    })
   })
 
   describe('GET /api/skills/:id', () => {
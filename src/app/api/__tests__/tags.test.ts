@@ -1,6 +1,6 @@
 import { beforeEach, describe, expect, it } from 'vitest'
 import './prisma-mock'
-import { getMockSkills, getMockTags, resetMockDb } from './prisma-mock'
+import { getMockSkills, getMockTags, resetMockDb, seedMockAdminSession, withAdminSession } from './prisma-mock'
 import { POST as createSkill } from '@/app/api/skills/route'
 import { GET as getTags, POST as createTag } from '@/app/api/tags/route'
 import { PATCH as patchTag, DELETE as deleteTag } from '@/app/api/tags/[id]/route'
@@ -8,7 +8,7 @@ import { GET as getLinkedSkills } from '@/app/api/tags/[id]/skills/route'
 import { POST as mergeTags } from '@/app/api/tags/merge/route'
 
 function makeRequest(url: string, options?: RequestInit) {
-  return new Request(url, options) as unknown as import('next/server').NextRequest
+  return new Request(url, withAdminSession(options)) as unknown as import('next/server').NextRequest
 }
 
 const validSkillBody = {
@@ -32,6 +32,7 @@ const validSkillBody = {
 describe('Tags API', () => {
   beforeEach(() => {
     resetMockDb()
+    seedMockAdminSession()
   })
 
   it('POST /api/tags should normalize name to lower-case', async () => {
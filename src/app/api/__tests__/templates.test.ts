@@ -0,0 +1,167 @@
+import { beforeEach, describe, expect, it } from 'vitest'
+import './prisma-mock'
+import {
+  getMockFiles,
+  getMockSkillVersions,
+  getMockTemplates,
+  resetMockDb,
+  seedMockAdminSession,
+  withAdminSession,
+} from './prisma-mock'
+import { GET as listTemplates, POST as createTemplate } from '@/app/api/templates/route'
+import {
+  DELETE as deleteTemplate,
+  GET as getTemplate,
+  PUT as updateTemplate,
+} from '@/app/api/templates/[id]/route'
+import { POST as saveAsTemplate } from '@/app/api/skills/[id]/template/route'
+import { POST as createSkill } from '@/app/api/skills/route'
+import { POST as createFile } from '@/app/api/skills/[id]/files/route'
+
+function makeRequest(url: string, options?: RequestInit) {
+  return new Request(url, withAdminSession(options)) as unknown as import('next/server').NextRequest
+}
+
+function jsonRequest(url: string, method: string, body: unknown) {
+  return makeRequest(url, {
+    method,
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  })
+}
+
+const validSkillBody = {
+  title: 'Template Source',
+  summary: 'Skill used as template source',
+  inputs: 'input',
+  outputs: 'output',
+  steps: ['s1', 's2', 's3'],
+  risks: '',
+  triggers: ['t1', 't2', 't3'],
+  guardrails: {
+    allowed_tools: [],
+    disable_model_invocation: false,
+    user_invocable: true,
+    stop_conditions: ['stop'],
+    escalation: 'ASK_HUMAN',
+  },
+  tests: [{ name: 'ok', input: 'a', expected_output: 'b' }],
+  tags: ['alpha'],
+}
+
+describe('Templates API', () => {
+  beforeEach(() => {
+    resetMockDb()
+    seedMockAdminSession()
+  })
+
+  it('creates, lists, updates and deletes templates', async () => {
+    const createRes = await createTemplate(
+      jsonRequest('http://localhost:3000/api/templates', 'POST', {
+        name: 'Runbook',
+        payload: { title: '{{service}} runbook' },
+        files: [{ path: 'references/guide.md', content: 'Owner: {{team}}' }],
+        tags: ['Ops'],
+      })
+    )
+    expect(createRes.status).toBe(201)
+    const created = await createRes.json()
+    expect(created.variables).toEqual(['service', 'team'])
+    expect(created.files[0].mime).toBe('text/markdown')
+    expect(created.tags).toEqual(['ops'])
+
+    const listRes = await listTemplates(makeRequest('http://localhost:3000/api/templates'))
+    const list = await listRes.json()
+    expect(list.total).toBe(1)
+
+    const params = { params: Promise.resolve({ id: String(created.id) }) }
+    const updateRes = await updateTemplate(
+      jsonRequest(`http://localhost:3000/api/templates/${created.id}`, 'PUT', { description: 'Incident runbook' }),
+      params
+    )
+    expect(updateRes.status).toBe(200)
+    const updated = await updateRes.json()
+    expect(updated.description).toBe('Incident runbook')
+    expect(updated.payload.title).toBe('{{service}} runbook')
+
+    const deleteRes = await deleteTemplate(makeRequest(`http://localhost:3000/api/templates/${created.id}`), {
+      params: Promise.resolve({ id: String(created.id) }),
+    })
+    expect(deleteRes.status).toBe(200)
+    const missingRes = await getTemplate(makeRequest(`http://localhost:3000/api/templates/${created.id}`), {
+      params: Promise.resolve({ id: String(created.id) }),
+    })
+    expect(missingRes.status).toBe(404)
+  })
+
+  it('rejects duplicate names and invalid file paths', async () => {
+    await createTemplate(jsonRequest('http://localhost:3000/api/templates', 'POST', { name: 'Dup' }))
+    const dupRes = await createTemplate(jsonRequest('http://localhost:3000/api/templates', 'POST', { name: 'Dup' }))
+    expect(dupRes.status).toBe(409)
+
+    const badRes = await createTemplate(
+      jsonRequest('http://localhost:3000/api/templates', 'POST', {
+        name: 'Bad',
+        files: [{ path: '../escape.md', content: 'x' }],
+      })
+    )
+    expect(badRes.status).toBe(400)
+  })
+
+  it('saves a skill as template and skips binary files', async () => {
+    const skillRes = await createSkill(jsonRequest('http://localhost:3000/api/skills', 'POST', validSkillBody))
+    const skill = await skillRes.json()
+    const params = { params: Promise.resolve({ id: String(skill.id) }) }
+    await createFile(
+      jsonRequest(`http://localhost:3000/api/skills/${skill.id}/files`, 'POST', {
+        path: 'references/guide.md',
+        content: '# Guide',
+        mime: 'text/markdown',
+        isBinary: false,
+      }),
+      params
+    )
+    await createFile(
+      jsonRequest(`http://localhost:3000/api/skills/${skill.id}/files`, 'POST', {
+        path: 'assets/logo.png',
+        content: Buffer.from([1, 2, 3]).toString('base64'),
+        mime: 'image/png',
+        isBinary: true,
+      }),
+      params
+    )
+
+    const res = await saveAsTemplate(
+      jsonRequest(`http://localhost:3000/api/skills/${skill.id}/template`, 'POST', {}),
+      { params: Promise.resolve({ id: String(skill.id) }) }
+    )
+    expect(res.status).toBe(201)
+    const data = await res.json()
+    expect(data.name).toBe('Template Source')
+    expect(data.payload.steps).toEqual(['s1', 's2', 's3'])
+    expect(data.files.map((f: { path: string }) => f.path)).toEqual(['references/guide.md'])
+    expect(data.skippedFiles).toEqual(['assets/logo.png'])
+    expect(data.tags).toEqual(['alpha'])
+    expect(getMockTemplates()).toHaveLength(1)
+  })
+
+  it('creates template files together with a new skill', async () => {
+    const res = await createSkill(
+      jsonRequest('http://localhost:3000/api/skills', 'POST', {
+        ...validSkillBody,
+        title: 'From Template',
+        files: [{ path: 'references/guide.md', content: '# Guide' }],
+      })
+    )
+    expect(res.status).toBe(201)
+    const skill = await res.json()
+
+    const files = [...getMockFiles().values()].filter((f) => f.skillId === skill.id)
+    expect(files).toHaveLength(1)
+    expect(files[0]).toMatchObject({ path: 'references/guide.md', mime: 'text/markdown', isBinary: false })
+
+    const version = [...getMockSkillVersions().values()].find((v) => v.skillId === skill.id)
+    const snapshot = version?.snapshot as { files?: Array<{ path: string }> }
+    expect(snapshot.files?.map((f) => f.path)).toEqual(['references/guide.md'])
+  })
+})
@@ -0,0 +1,163 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import './prisma-mock'
+import {
+  approveMockLatestVersion,
+  getMockApiTokens,
+  getMockUsageEvents,
+  prismaMock,
+  resetMockDb,
+  seedMockSkill,
+  seedMockUser,
+} from './prisma-mock'
+import { hashSessionToken } from '@/lib/auth'
+import { GET as listTokens, POST as createToken } from '@/app/api/tokens/route'
+import { DELETE as revokeToken } from '@/app/api/tokens/[id]/route'
+import { GET as getSkill, PUT as updateSkill } from '@/app/api/skills/[id]/route'
+import { GET as listSkills } from '@/app/api/skills/route'
+import { POST as publishSkill } from '@/app/api/skills/[id]/publish/route'
+import { POST as ingest } from '@/app/api/usage/events/route'
+
+function makeRequest(url: string, options?: RequestInit) {
+  return new Request(url, options) as unknown as import('next/server').NextRequest
+}
+
+const validSkillBody = {
+  title: 'Token Skill',
+  summary: 'Skill for token tests',
+  inputs: 'input',
+  outputs: 'output',
+  steps: ['s1', 's2', 's3'],
+  risks: '',
+  triggers: ['t1', 't2', 't3'],
+  guardrails: {
+    allowed_tools: [] as string[],
+    disable_model_invocation: false,
+    user_invocable: true,
+    stop_conditions: ['stop'],
+    escalation: 'ASK_HUMAN',
+  },
+  tests: [{ name: 'ok', input: 'a', expected_output: 'b' }],
+}
+
+async function sessionHeaders(username: string, role: string) {
+  const user = seedMockUser({ username, role })
+  const token = `token-${username}`
+  await prismaMock.userSession.create({
+    data: { userId: user.id, tokenHash: hashSessionToken(token), expiresAt: new Date(Date.now() + 3600_000) },
+  })
+  return { 'Content-Type': 'application/json', cookie: `qsv_session=${token}` }
+}
+
+const params = (id: number) => ({ params: Promise.resolve({ id: String(id) }) })
+
+const bearer = (token: string) => ({ 'Content-Type': 'application/json', authorization: `Bearer ${token}` })
+
+describe('Personal API tokens', () => {
+  const originalMode = process.env.AUTH_MODE
+  let alice: Record<string, string>
+
+  beforeEach(async () => {
+    resetMockDb()
+    process.env.AUTH_MODE = 'local_only'
+    alice = await sessionHeaders('alice', 'admin')
+  })
+
+  afterEach(() => {
+    if (originalMode === undefined) delete process.env.AUTH_MODE
+    else process.env.AUTH_MODE = originalMode
+  })
+
+  const issue = async (headers: Record<string, string>, body: Record<string, unknown>) => {
+    const res = await createToken(makeRequest('http://localhost:3000/api/tokens', { method: 'POST', headers, body: JSON.stringify(body) }))
+    return { status: res.status, body: await res.json() }
+  }
+
+  it('issues a hashed token once, lists it without the secret and revokes it', async () => {
+    const created = await issue(alice, { name: 'CI', scopes: ['skills:read', 'skills:read'], expiresInDays: 30 })
+    expect(created.status).toBe(201)
+    expect(created.body.token).toMatch(/^qsv_pat_/)
+    expect(created.body).toMatchObject({ name: 'CI', scopes: ['skills:read'], revokedAt: null, lastUsedAt: null })
+    expect(created.body.expiresAt).not.toBeNull()
+
+    const stored = getMockApiTokens().get(created.body.id)
+    expect(stored?.tokenHash).toBe(hashSessionToken(created.body.token))
+    expect(JSON.stringify(stored)).not.toContain(created.body.token)
+
+    const list = await (await listTokens(makeRequest('http://localhost:3000/api/tokens', { headers: alice }))).json()
+    expect(list.items).toHaveLength(1)
+    expect(list.items[0].token).toBeUndefined()
+
+    const skill = seedMockSkill({ ...validSkillBody, slug: 'token-skill' })
+    const read = await getSkill(makeRequest(`http://localhost:3000/api/skills/${skill.id}`, { headers: bearer(created.body.token) }), params(skill.id))
+    expect(read.status).toBe(200)
+    expect(getMockApiTokens().get(created.body.id)?.lastUsedAt).toBeInstanceOf(Date)
+
+    const bob = await sessionHeaders('bob', 'author')
+    const foreign = await revokeToken(makeRequest(`http://localhost:3000/api/tokens/${created.body.id}`, { method: 'DELETE', headers: bob }), params(created.body.id))
+    expect(foreign.status).toBe(404)
+
+    const revoked = await revokeToken(makeRequest(`http://localhost:3000/api/tokens/${created.body.id}`, { method: 'DELETE', headers: alice }), params(created.body.id))
+    expect(revoked.status).toBe(200)
+    expect((await revoked.json()).revokedAt).not.toBeNull()
+
+    const afterRevoke = await getSkill(makeRequest(`http://localhost:3000/api/skills/${skill.id}`, { headers: bearer(created.body.token) }), params(skill.id))
+    expect(afterRevoke.status).toBe(401)
+  })
+
+  it('rejects token management without a login session', async () => {
+    expect((await issue({ 'Content-Type': 'application/json' }, { name: 'x', scopes: ['skills:read'] })).status).toBe(401)
+    expect((await issue(alice, { name: 'x', scopes: [] })).status).toBe(400)
+
+    const { body } = await issue(alice, { name: 'agent', scopes: ['skills:read', 'skills:write'] })
+    const viaToken = await issue(bearer(body.token), { name: 'nested', scopes: ['skills:read'] })
+    expect(viaToken.status).toBe(403)
+  })
+
+  it('requires a session or skills:read token for reads when login is required', async () => {
+    expect((await listSkills(makeRequest('http://localhost:3000/api/skills'))).status).toBe(401)
+    expect((await listSkills(makeRequest('http://localhost:3000/api/skills', { headers: bearer('qsv_pat_unknown') }))).status).toBe(401)
+
+    const writer = await issue(alice, { name: 'writer', scopes: ['skills:write'] })
+    expect((await listSkills(makeRequest('http://localhost:3000/api/skills', { headers: bearer(writer.body.token) }))).status).toBe(403)
+
+    const reader = await issue(alice, { name: 'reader', scopes: ['skills:read'] })
+    expect((await listSkills(makeRequest('http://localhost:3000/api/skills', { headers: bearer(reader.body.token) }))).status).toBe(200)
+  })
+
+  it('limits writes to the scopes granted on the token', async () => {
+    delete process.env.AUTH_MODE
+    const skill = seedMockSkill({ ...validSkillBody, slug: 'token-skill', status: 'draft' })
+    const reader = await issue(alice, { name: 'reader', scopes: ['skills:read'] })
+    const writer = await issue(alice, { name: 'writer', scopes: ['skills:write'] })
+    const publisher = await issue(alice, { name: 'publisher', scopes: ['skills:write', 'publish'] })
+
+    const update = (token: string) =>
+      updateSkill(
+        makeRequest(`http://localhost:3000/api/skills/${skill.id}`, { method: 'PUT', headers: bearer(token), body: JSON.stringify({ summary: 'Updated by CI' }) }),
+        params(skill.id)
+      )
+    expect((await update(reader.body.token)).status).toBe(403)
+    const updated = await update(writer.body.token)
+    expect(updated.status).toBe(200)
+    expect((await updated.json()).updatedBy).toBe('alice')
+
+    await approveMockLatestVersion(skill.id)
+    const publish = (token: string) =>
+      publishSkill(makeRequest(`http://localhost:3000/api/skills/${skill.id}/publish`, { method: 'POST', headers: bearer(token), body: '{}' }), params(skill.id))
+    expect((await publish(writer.body.token)).status).toBe(403)
+    expect((await publish(publisher.body.token)).status).toBe(201)
+  })
+
+  it('accepts usage events from tokens with usage:write', async () => {
+    seedMockSkill({ ...validSkillBody, slug: 'token-skill' })
+    const events = JSON.stringify({ events: [{ slug: 'token-skill', agent: 'ci', outcome: 'success' }] })
+    const reader = await issue(alice, { name: 'reader', scopes: ['skills:read'] })
+    const reporter = await issue(alice, { name: 'reporter', scopes: ['usage:write'] })
+
+    const denied = await ingest(makeRequest('http://localhost:3000/api/usage/events', { method: 'POST', headers: bearer(reader.body.token), body: events }))
+    expect(denied.status).toBe(403)
+    const accepted = await ingest(makeRequest('http://localhost:3000/api/usage/events', { method: 'POST', headers: bearer(reporter.body.token), body: events }))
+    expect(accepted.status).toBe(202)
+    expect(getMockUsageEvents().size).toBe(1)
+  })
+})
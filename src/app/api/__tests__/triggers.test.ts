@@ -0,0 +1,102 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import './prisma-mock'
+import { prismaMock, resetMockDb, seedMockAdminSession, seedMockSkill, withAdminSession } from './prisma-mock'
+
+import { GET as collisions } from '@/app/api/triggers/collisions/route'
+import { PUT as updateSkill } from '@/app/api/skills/[id]/route'
+
+function makeRequest(url: string, body?: unknown) {
+  return new Request(url, withAdminSession(body === undefined ? undefined : {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  })) as unknown as import('next/server').NextRequest
+}
+
+function seedSkill(slug: string, triggers: string[]) {
+  return seedMockSkill({
+    title: slug,
+    slug,
+    summary: 'Trigger skill',
+    inputs: 'in',
+    outputs: 'out',
+    steps: ['a', 'b', 'c'],
+    risks: 'none',
+    triggers,
+    guardrails: { allowed_tools: [], disable_model_invocation: false, user_invocable: true, stop_conditions: ['stop'], escalation: 'ASK_HUMAN' },
+    tests: [{ name: 't', input: 'i', expected_output: 'o' }],
+    _tags: [],
+  })
+}
+
+describe('Trigger collisions API', () => {
+  beforeEach(() => {
+    resetMockDb()
+    seedMockAdminSession()
+  })
+
+  it('lists conflicting skill pairs across the vault', async () => {
+    const a = seedSkill('news-dedup', ['dedupe news', 'remove duplicates', 'clean feed'])
+    const b = seedSkill('feed-cleaner', ['Dedupe News', 'drop spam', 'filter ads'])
+    seedSkill('weekly-report', ['write weekly report', 'summarize week', 'draft memo'])
+
+    const res = await collisions(makeRequest('http://localhost:3000/api/triggers/collisions'))
+    expect(res.status).toBe(200)
+    const data = await res.json()
+    expect(data).toMatchObject({ threshold: 0.8, skillCount: 3 })
+    expect(data.collisions).toHaveLength(1)
+    expect(data.collisions[0]).toMatchObject({
+      skill: { id: a.id, slug: 'news-dedup' },
+      other: { id: b.id, slug: 'feed-cleaner' },
+      similarity: 1,
+    })
+
+    const scoped = await collisions(makeRequest(`http://localhost:3000/api/triggers/collisions?skillId=${b.id}`))
+    expect((await scoped.json()).collisions[0].other.slug).toBe('news-dedup')
+
+    expect((await collisions(makeRequest('http://localhost:3000/api/triggers/collisions?skillId=abc'))).status).toBe(400)
+    expect((await collisions(makeRequest('http://localhost:3000/api/triggers/collisions?skillId=999'))).status).toBe(404)
+  })
+
+  it('returns collision warnings when saving a skill', async () => {
+    seedSkill('news-dedup', ['dedupe news', 'remove duplicates', 'clean feed'])
+    const b = seedSkill('feed-cleaner', ['drop spam', 'filter ads', 'mute bots'])
+
+    const res = await updateSkill(
+      makeRequest(`http://localhost:3000/api/skills/${b.id}`, { triggers: ['drop spam', 'filter ads', 'remove duplicates'] }),
+      { params: Promise.resolve({ id: String(b.id) }) }
+    )
+    expect(res.status).toBe(200)
+    const data = await res.json()
+    expect(data.warnings).toEqual([
+      { field: 'triggers.collision', message: 'trigger "remove duplicates" duplicates "remove duplicates" in skill "news-dedup"' },
+    ])
+  })
+
+  it('only compares against other skills with triggers and never fails the save over warnings', async () => {
+    seedSkill('news-dedup', ['dedupe news', 'remove duplicates', 'clean feed'])
+    seedSkill('no-triggers', [])
+    const b = seedSkill('feed-cleaner', ['drop spam', 'filter ads', 'mute bots'])
+    const params = { params: Promise.resolve({ id: String(b.id) }) }
+    const findMany = vi.mocked(prismaMock.skill.findMany)
+
+    findMany.mockClear()
+    await updateSkill(makeRequest(`http://localhost:3000/api/skills/${b.id}`, { summary: 'Updated' }), params)
+    const loaded = await findMany.mock.results.at(-1)?.value
+    expect(findMany.mock.calls.at(-1)?.[0]).toMatchObject({
+      where: { id: { not: b.id }, NOT: { triggers: { equals: [] } } },
+      select: { id: true, slug: true, title: true, triggers: true },
+    })
+    expect(loaded.map((row: { slug: string }) => row.slug)).toEqual(['news-dedup'])
+
+    findMany.mockRejectedValueOnce(new Error('db hiccup'))
+    const res = await updateSkill(
+      makeRequest(`http://localhost:3000/api/skills/${b.id}`, { triggers: ['drop spam', 'filter ads', 'remove duplicates'] }),
+      params
+    )
+    expect(res.status).toBe(200)
+    const data = await res.json()
+    expect(data.triggers).toContain('remove duplicates')
+    expect(data.warnings).toEqual([])
+  })
+})
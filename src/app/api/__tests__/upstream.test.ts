@@ -0,0 +1,169 @@
+import { beforeEach, describe, expect, it } from 'vitest'
+import { createHash } from 'crypto'
+import './prisma-mock'
+import {
+  getMockFiles,
+  getMockSkills,
+  getMockUpstreamChanges,
+  prismaMock,
+  resetMockDb,
+  seedMockAdminSession,
+  seedMockUpstreamChange,
+  withAdminSession,
+} from './prisma-mock'
+import { POST as createSkill } from '@/app/api/skills/route'
+import { PUT as updateSkill } from '@/app/api/skills/[id]/route'
+import { POST as createFile } from '@/app/api/skills/[id]/files/route'
+import { GET as getUpstream } from '@/app/api/skills/[id]/upstream/route'
+import { POST as mergeUpstream } from '@/app/api/skills/[id]/upstream/merge/route'
+import { POST as detachUpstream } from '@/app/api/skills/[id]/upstream/detach/route'
+import { computeSkillContentHash } from '@/lib/skill-drift'
+
+function makeRequest(url: string, options?: RequestInit) {
+  return new Request(url, withAdminSession(options)) as unknown as import('next/server').NextRequest
+}
+
+function jsonRequest(url: string, method: string, body: unknown) {
+  return makeRequest(url, {
+    method,
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  })
+}
+
+function sha256(content: string) {
+  return createHash('sha256').update(Buffer.from(content, 'utf-8')).digest('hex')
+}
+
+const upstreamBody = {
+  title: 'Upstream Skill',
+  summary: 'Synced from upstream',
+  inputs: 'input',
+  outputs: 'output',
+  steps: ['s1', 's2', 's3'],
+  risks: 'upstream risks',
+  triggers: ['t1', 't2', 't3'],
+  guardrails: {
+    allowed_tools: [],
+    disable_model_invocation: false,
+    user_invocable: true,
+    stop_conditions: ['stop'],
+    escalation: 'ASK_HUMAN' as const,
+  },
+  tests: [{ name: 'ok', input: 'a', expected_output: 'b' }],
+}
+
+async function seedBlob(content: string) {
+  await prismaMock.skillFileBlob.upsert({
+    where: { sha256: sha256(content) },
+    update: {},
+    create: { sha256: sha256(content), isBinary: false, contentText: content, contentBytes: null, size: content.length },
+  })
+  return { path: 'references/guide.md', mime: 'text/markdown', isBinary: false, sha256: sha256(content), size: content.length }
+}
+
+function snapshotOf(content: typeof upstreamBody, file: { path: string; sha256: string }) {
+  return { ...content, slug: 'upstream-skill', status: 'draft', tags: [], files: [file] }
+}
+
+/**
+ * 模拟同步脚本：创建 Skill 并记录 applied 的上游快照与 syncedContentHash
+ */
+async function createSyncedSkill() {
+  const created = await (await createSkill(jsonRequest('http://localhost:3000/api/skills', 'POST', { ...upstreamBody, tags: [] }))).json()
+  const params = { params: Promise.resolve({ id: String(created.id) }) }
+  await createFile(
+    jsonRequest(`http://localhost:3000/api/skills/${created.id}/files`, 'POST', {
+      path: 'references/guide.md',
+      mime: 'text/markdown',
+      content: 'guide v1',
+    }),
+    params
+  )
+  const baseFile = await seedBlob('guide v1')
+  const skill = getMockSkills().get(created.id)!
+  Object.assign(skill, {
+    sourceManaged: true,
+    sourceRepo: 'anthropics/skills',
+    sourceSha: 'sha-1',
+    syncedContentHash: computeSkillContentHash(upstreamBody, [baseFile]),
+  })
+  seedMockUpstreamChange({ skillId: created.id, sourceSha: 'sha-1', status: 'applied', snapshot: snapshotOf(upstreamBody, baseFile) })
+  return { id: created.id as number, params }
+}
+
+describe('Upstream drift and merge API', () => {
+  beforeEach(() => {
+    resetMockDb()
+    seedMockAdminSession()
+  })
+
+  it('reports local modifications against the last synced hash', async () => {
+    const { id, params } = await createSyncedSkill()
+    const url = `http://localhost:3000/api/skills/${id}/upstream`
+
+    const clean = await (await getUpstream(makeRequest(url), params)).json()
+    expect(clean).toMatchObject({ sourceManaged: true, drift: 'clean', pending: null })
+
+    await updateSkill(jsonRequest(`http://localhost:3000/api/skills/${id}`, 'PUT', { summary: 'Local edit' }), params)
+    const modified = await (await getUpstream(makeRequest(url), params)).json()
+    expect(modified.drift).toBe('modified')
+  })
+
+  it('merges a pending upstream change with base, ours and theirs', async () => {
+    const { id, params } = await createSyncedSkill()
+    await updateSkill(
+      jsonRequest(`http://localhost:3000/api/skills/${id}`, 'PUT', { summary: 'Local edit', risks: 'local risks' }),
+      params
+    )
+    const theirsFile = await seedBlob('guide v2')
+    const theirs = { ...upstreamBody, title: 'Upstream Skill', steps: ['s1', 's2', 's3', 's4'], risks: 'new upstream risks' }
+    const pending = seedMockUpstreamChange({ skillId: id, sourceSha: 'sha-2', sourceRef: 'main', snapshot: snapshotOf(theirs, theirsFile) })
+
+    const state = await (await getUpstream(makeRequest(`http://localhost:3000/api/skills/${id}/upstream`), params)).json()
+    expect(state.pending).toMatchObject({ id: pending.id, sourceSha: 'sha-2', hasBase: true })
+    const status = Object.fromEntries(state.pending.merge.fields.map((entry: { field: string; status: string }) => [entry.field, entry.status]))
+    expect(status).toMatchObject({ summary: 'ours', steps: 'theirs', risks: 'conflict', title: 'unchanged' })
+    expect(state.pending.merge.files).toEqual([expect.objectContaining({ path: 'references/guide.md', status: 'theirs' })])
+
+    const mergeUrl = `http://localhost:3000/api/skills/${id}/upstream/merge`
+    const unresolved = await mergeUpstream(jsonRequest(mergeUrl, 'POST', { changeId: pending.id }), params)
+    expect(unresolved.status).toBe(409)
+    expect((await unresolved.json()).details).toEqual(['risks'])
+
+    const merged = await mergeUpstream(
+      jsonRequest(mergeUrl, 'POST', { changeId: pending.id, fields: { risks: 'ours' } }),
+      params
+    )
+    expect(merged.status).toBe(200)
+    expect(await merged.json()).toMatchObject({ skillId: id, drift: 'modified' })
+
+    const skill = getMockSkills().get(id)!
+    expect(skill).toMatchObject({ summary: 'Local edit', risks: 'local risks', sourceSha: 'sha-2', sourceRef: 'main' })
+    expect(skill.steps).toEqual(['s1', 's2', 's3', 's4'])
+    const guide = Array.from(getMockFiles().values()).find((file) => file.skillId === id)
+    expect(guide?.contentText).toBe('guide v2')
+    expect(getMockUpstreamChanges().get(pending.id)?.status).toBe('merged')
+
+    const again = await mergeUpstream(jsonRequest(mergeUrl, 'POST', { changeId: pending.id }), params)
+    expect(again.status).toBe(404)
+  })
+
+  it('detaches a skill from its upstream and dismisses pending changes', async () => {
+    const { id, params } = await createSyncedSkill()
+    const pending = seedMockUpstreamChange({ skillId: id, sourceSha: 'sha-2', snapshot: snapshotOf(upstreamBody, await seedBlob('guide v1')) })
+    const url = `http://localhost:3000/api/skills/${id}/upstream/detach`
+
+    const res = await detachUpstream(makeRequest(url, { method: 'POST' }), params)
+    expect(res.status).toBe(200)
+    expect(await res.json()).toEqual({ skillId: id, dismissed: 1 })
+    expect(getMockSkills().get(id)?.sourceManaged).toBe(false)
+    expect(getMockUpstreamChanges().get(pending.id)?.status).toBe('dismissed')
+
+    const state = await (await getUpstream(makeRequest(`http://localhost:3000/api/skills/${id}/upstream`), params)).json()
+    expect(state).toMatchObject({ sourceManaged: false, drift: null, pending: null, sourceRepo: 'anthropics/skills' })
+
+    const again = await detachUpstream(makeRequest(url, { method: 'POST' }), params)
+    expect(again.status).toBe(409)
+  })
+})
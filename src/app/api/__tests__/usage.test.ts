@@ -0,0 +1,109 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import './prisma-mock'
+import { getMockUsageEvents, resetMockDb, seedMockSkill } from './prisma-mock'
+
+import { POST as ingest } from '@/app/api/usage/events/route'
+import { GET as overview } from '@/app/api/usage/overview/route'
+import { GET as skillUsage } from '@/app/api/skills/[id]/usage/route'
+
+const TOKEN = 'test-ingest-token'
+
+function makeRequest(url: string, body?: unknown, token: string | null = TOKEN) {
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' }
+  if (token) headers.Authorization = `Bearer ${token}`
+  return new Request(url, body === undefined ? undefined : {
+    method: 'POST',
+    headers,
+    body: JSON.stringify(body),
+  }) as unknown as import('next/server').NextRequest
+}
+
+function seedSkill(slug: string, title: string) {
+  return seedMockSkill({
+    title,
+    slug,
+    summary: 'Usage skill',
+    inputs: 'in',
+    outputs: 'out',
+    steps: ['a', 'b', 'c'],
+    risks: 'none',
+    triggers: ['x', 'y', 'z'],
+    guardrails: { allowed_tools: [], disable_model_invocation: false, user_invocable: true, stop_conditions: ['stop'], escalation: 'ASK_HUMAN' },
+    tests: [{ name: 't', input: 'i', expected_output: 'o' }],
+    _tags: [],
+  })
+}
+
+describe('Usage analytics API', () => {
+  const previousToken = process.env.USAGE_INGEST_TOKEN
+
+  beforeEach(() => {
+    resetMockDb()
+    process.env.USAGE_INGEST_TOKEN = TOKEN
+  })
+
+  afterEach(() => {
+    if (previousToken === undefined) delete process.env.USAGE_INGEST_TOKEN
+    else process.env.USAGE_INGEST_TOKEN = previousToken
+  })
+
+  it('requires the ingest token', async () => {
+    const unauthorized = await ingest(makeRequest('http://localhost:3000/api/usage/events', { events: [] }, 'wrong'))
+    expect(unauthorized.status).toBe(401)
+
+    delete process.env.USAGE_INGEST_TOKEN
+    const unconfigured = await ingest(makeRequest('http://localhost:3000/api/usage/events', { events: [] }))
+    expect(unconfigured.status).toBe(503)
+  })
+
+  it('ingests batched events and reports rejected ones', async () => {
+    seedSkill('news-dedup', 'News Dedup')
+    const res = await ingest(makeRequest('http://localhost:3000/api/usage/events', {
+      events: [
+        { slug: 'news-dedup', outcome: 'success', latencyMs: 100, version: 1 },
+        { slug: 'news-dedup', outcome: 'boom' },
+        { slug: 'ghost', outcome: 'success' },
+      ],
+    }))
+    expect(res.status).toBe(202)
+    const data = await res.json()
+    expect(data.accepted).toBe(1)
+    expect(data.rejected.map((r: { index: number }) => r.index)).toEqual([1, 2])
+    expect([...getMockUsageEvents().values()][0]).toMatchObject({ slug: 'news-dedup', outcome: 'success', latencyMs: 100 })
+
+    const empty = await ingest(makeRequest('http://localhost:3000/api/usage/events', { events: [] }))
+    expect(empty.status).toBe(400)
+  })
+
+  it('aggregates the overview and per-skill usage', async () => {
+    const a = seedSkill('skill-a', 'Skill A')
+    seedSkill('skill-b', 'Skill B')
+    await ingest(makeRequest('http://localhost:3000/api/usage/events', {
+      events: [
+        { slug: 'skill-a', outcome: 'success', latencyMs: 100, version: 2, trigger: 'run a' },
+        { slug: 'skill-a', outcome: 'success', latencyMs: 300, version: 2, trigger: 'run a' },
+        { slug: 'skill-a', outcome: 'failure', latencyMs: 200, version: 1, trigger: 'broken a' },
+        { slug: 'skill-b', outcome: 'escalated', trigger: 'help b' },
+      ],
+    }))
+
+    const res = await overview(makeRequest('http://localhost:3000/api/usage/overview?days=7'))
+    expect(res.status).toBe(200)
+    const data = await res.json()
+    expect(data.totals).toMatchObject({ total: 4, success: 2, failure: 1, escalated: 1, avgLatencyMs: 200 })
+    expect(data.topSkills.map((s: { title: string }) => s.title)).toEqual(['Skill A', 'Skill B'])
+    expect(data.failureHotspots).toHaveLength(2)
+    expect(data.failingTriggers.map((t: { trigger: string }) => t.trigger).sort()).toEqual(['broken a', 'help b'])
+    expect(data.trend).toHaveLength(7)
+    expect(data.trend[6].total).toBe(4)
+
+    const detail = await skillUsage(
+      makeRequest(`http://localhost:3000/api/skills/${a.id}/usage`),
+      { params: Promise.resolve({ id: String(a.id) }) }
+    )
+    const detailData = await detail.json()
+    expect(detailData.totals).toMatchObject({ total: 3, failure: 1 })
+    expect(detailData.versions.map((v: { version: number; total: number }) => [v.version, v.total])).toEqual([[2, 2], [1, 1]])
+    expect(detailData.triggers[0]).toMatchObject({ trigger: 'run a', total: 2, failureRate: 0 })
+  })
+})
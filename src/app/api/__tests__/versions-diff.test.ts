@@ -0,0 +1,140 @@
+import { beforeEach, describe, expect, it } from 'vitest'
+import './prisma-mock'
+import { resetMockDb, seedMockAdminSession, withAdminSession } from './prisma-mock'
+import { POST as createSkill } from '@/app/api/skills/route'
+import { PUT as updateSkill } from '@/app/api/skills/[id]/route'
+import { GET as listVersions } from '@/app/api/skills/[id]/versions/route'
+import { GET as diffVersions } from '@/app/api/skills/[id]/versions/diff/route'
+import { POST as createFile } from '@/app/api/skills/[id]/files/route'
+import { PUT as putDraft } from '@/app/api/skill-drafts/[key]/route'
+
+function makeRequest(url: string, options?: RequestInit) {
+  return new Request(url, withAdminSession(options)) as unknown as import('next/server').NextRequest
+}
+
+const validSkillBody = {
+  title: 'Diff Skill',
+  summary: 'Skill for diff tests',
+  inputs: 'input',
+  outputs: 'output',
+  steps: ['s1', 's2', 's3'],
+  risks: '',
+  triggers: ['t1', 't2', 't3'],
+  guardrails: {
+    allowed_tools: [],
+    disable_model_invocation: false,
+    user_invocable: true,
+    stop_conditions: ['stop'],
+    escalation: 'ASK_HUMAN',
+  },
+  tests: [{ name: 'ok', input: 'a', expected_output: 'b' }],
+  tags: ['alpha'],
+}
+
+async function setupSkill(title = validSkillBody.title) {
+  const createRes = await createSkill(
+    makeRequest('http://localhost:3000/api/skills', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ ...validSkillBody, title }),
+    })
+  )
+  const created = await createRes.json()
+  return created.id as number
+}
+
+async function getVersionIds(skillId: number) {
+  const res = await listVersions(
+    makeRequest(`http://localhost:3000/api/skills/${skillId}/versions`),
+    { params: Promise.resolve({ id: String(skillId) }) }
+  )
+  const data = await res.json()
+  return (data.items as Array<{ id: number; version: number }>).map((item) => item.id)
+}
+
+function requestDiff(skillId: number, query: string) {
+  return diffVersions(
+    makeRequest(`http://localhost:3000/api/skills/${skillId}/versions/diff?${query}`),
+    { params: Promise.resolve({ id: String(skillId) }) }
+  )
+}
+
+describe('GET /api/skills/:id/versions/diff', () => {
+  beforeEach(() => {
+    resetMockDb()
+    seedMockAdminSession()
+  })
+
+  it('returns a structured diff between two versions', async () => {
+    const skillId = await setupSkill()
+    await updateSkill(
+      makeRequest(`http://localhost:3000/api/skills/${skillId}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ summary: 'Changed summary', steps: ['s2', 's1', 's3', 's4'] }),
+      }),
+      { params: Promise.resolve({ id: String(skillId) }) }
+    )
+    const [v2, v1] = await getVersionIds(skillId)
+
+    const res = await requestDiff(skillId, `from=${v1}&to=${v2}`)
+    expect(res.status).toBe(200)
+    const data = await res.json()
+    expect(data.from).toMatchObject({ kind: 'version', version: 1 })
+    expect(data.to).toMatchObject({ kind: 'version', version: 2 })
+    expect(data.changed).toBe(true)
+    expect(data.fields.summary.changed).toBe(true)
+    expect(data.fields.steps.added).toEqual(['s4'])
+    expect(data.fields.steps.reordered).toEqual(['s2', 's1'])
+    expect(data.fields.title.changed).toBe(false)
+  })
+
+  it('compares a version with current files', async () => {
+    const skillId = await setupSkill()
+    const [v1] = await getVersionIds(skillId)
+    await createFile(
+      makeRequest(`http://localhost:3000/api/skills/${skillId}/files`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ path: 'references/new.md', content: '# New' }),
+      }),
+      { params: Promise.resolve({ id: String(skillId) }) }
+    )
+
+    const res = await requestDiff(skillId, `from=${v1}&to=current`)
+    const data = await res.json()
+    expect(data.to.kind).toBe('current')
+    expect(data.files.added.map((f: { path: string }) => f.path)).toEqual(['references/new.md'])
+  })
+
+  it('compares against the latest unsaved draft', async () => {
+    const skillId = await setupSkill()
+    await putDraft(
+      makeRequest(`http://localhost:3000/api/skill-drafts/edit:${skillId}:client-1`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ mode: 'edit', skillId, payload: { title: 'Draft Title', activeTab: 'author' } }),
+      }),
+      { params: Promise.resolve({ key: `edit:${skillId}:client-1` }) }
+    )
+
+    const res = await requestDiff(skillId, 'from=current&to=draft')
+    expect(res.status).toBe(200)
+    const data = await res.json()
+    expect(data.to.kind).toBe('draft')
+    expect(data.fields.title).toMatchObject({ changed: true, from: 'Diff Skill', to: 'Draft Title' })
+    expect(data.fields.summary.changed).toBe(false)
+  })
+
+  it('validates parameters and ownership', async () => {
+    const skillId = await setupSkill()
+    const otherId = await setupSkill('Other Skill')
+    const [otherVersion] = await getVersionIds(otherId)
+    expect((await requestDiff(skillId, 'to=current')).status).toBe(400)
+    expect((await requestDiff(skillId, 'from=abc')).status).toBe(400)
+    expect((await requestDiff(skillId, 'from=999')).status).toBe(404)
+    expect((await requestDiff(skillId, 'from=draft')).status).toBe(404)
+    expect((await requestDiff(999, 'from=current')).status).toBe(404)
+    expect((await requestDiff(skillId, `from=${otherVersion}`)).status).toBe(404)
+  })
+})
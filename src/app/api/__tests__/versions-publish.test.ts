@@ -1,6 +1,13 @@
 import { beforeEach, describe, expect, it } from 'vitest'
 import './prisma-mock'
-import { resetMockDb } from './prisma-mock'
+import {
+  approveMockLatestVersion,
+  getMockFileBlobs,
+  getMockFiles,
+  resetMockDb,
+  seedMockAdminSession,
+  withAdminSession,
+} from './prisma-mock'
 import { POST as createSkill } from '@/app/api/skills/route'
 import { PUT as updateSkill, GET as getSkill } from '@/app/api/skills/[id]/route'
 import { GET as listVersions } from '@/app/api/skills/[id]/versions/route'
@@ -8,9 +15,11 @@ import { GET as getVersion } from '@/app/api/skills/[id]/versions/[versionId]/ro
 import { POST as rollbackSkill } from '@/app/api/skills/[id]/rollback/route'
 import { POST as publishSkill } from '@/app/api/skills/[id]/publish/route'
 import { GET as listPublications } from '@/app/api/skills/[id]/publications/route'
+import { POST as duplicateSkill } from '@/app/api/skills/[id]/duplicate/route'
+import { POST as createFile, PUT as updateFile } from '@/app/api/skills/[id]/files/route'
 
 function makeRequest(url: string, options?: RequestInit) {
-  return new Request(url, options) as unknown as import('next/server').NextRequest
+  return new Request(url, withAdminSession(options)) as unknown as import('next/server').NextRequest
 }
 
 const validSkillBody = {
@@ -35,6 +44,7 @@ const validSkillBody = {
 describe('Skill versions and publication API', () => {
   beforeEach(() => {
     resetMockDb()
+    seedMockAdminSession()
   })
 
   it('creates initial version on skill creation and adds new version on update', async () => {
@@ -56,6 +66,7 @@ describe('Skill versions and publication API', () => {
     const firstList = await firstListRes.json()
     expect(firstList.total).toBe(1)
     expect(firstList.items[0].version).toBe(1)
+    expect(typeof firstList.items[0].qualityScore).toBe('number')
     const firstVersionId = firstList.items[0].id as number
 
     const updateRes = await updateSkill(
@@ -142,6 +153,7 @@ describe('Skill versions and publication API', () => {
       })
     )
     const created = await createRes.json()
+    await approveMockLatestVersion(created.id)
 
     const publishRes = await publishSkill(
       makeRequest(`http://localhost:3000/api/skills/${created.id}/publish`, {
@@ -194,4 +206,146 @@ describe('Skill versions and publication API', () => {
     )
     expect(rollbackRes.status).toBe(404)
   })
+
+  describe('supporting files in versions', () => {
+    async function createWithFile() {
+      const createRes = await createSkill(
+        makeRequest('http://localhost:3000/api/skills', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(validSkillBody),
+        })
+      )
+      const created = await createRes.json()
+      await createFile(
+        makeRequest(`http://localhost:3000/api/skills/${created.id}/files`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ path: 'references/rules.md', mime: 'text/markdown', content: 'v1 rules' }),
+        }),
+        { params: Promise.resolve({ id: String(created.id) }) }
+      )
+      // 保存一次，生成包含文件的版本 2
+      await updateSkill(
+        makeRequest(`http://localhost:3000/api/skills/${created.id}`, {
+          method: 'PUT',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ summary: 'with rules' }),
+        }),
+        { params: Promise.resolve({ id: String(created.id) }) }
+      )
+      return created as { id: number }
+    }
+
+    async function latestVersionId(skillId: number) {
+      const res = await listVersions(
+        makeRequest(`http://localhost:3000/api/skills/${skillId}/versions`),
+        { params: Promise.resolve({ id: String(skillId) }) }
+      )
+      const data = await res.json()
+      return data.items[0].id as number
+    }
+
+    it('captures file manifest in snapshot and serves file content', async () => {
+      const created = await createWithFile()
+      const versionId = await latestVersionId(created.id)
+
+      const detailRes = await getVersion(
+        makeRequest(`http://localhost:3000/api/skills/${created.id}/versions/${versionId}`),
+        { params: Promise.resolve({ id: String(created.id), versionId: String(versionId) }) }
+      )
+      const detail = await detailRes.json()
+      expect(detail.files).toHaveLength(1)
+      expect(detail.files[0]).toMatchObject({ path: 'references/rules.md', isBinary: false, size: 8 })
+      expect(detail.files[0].sha256).toHaveLength(64)
+
+      const fileRes = await getVersion(
+        makeRequest(`http://localhost:3000/api/skills/${created.id}/versions/${versionId}?path=references/rules.md`),
+        { params: Promise.resolve({ id: String(created.id), versionId: String(versionId) }) }
+      )
+      expect(fileRes.status).toBe(200)
+      const file = await fileRes.json()
+      expect(file.contentText).toBe('v1 rules')
+    })
+
+    it('stores unchanged file content only once', async () => {
+      const created = await createWithFile()
+      await updateSkill(
+        makeRequest(`http://localhost:3000/api/skills/${created.id}`, {
+          method: 'PUT',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ summary: 'again' }),
+        }),
+        { params: Promise.resolve({ id: String(created.id) }) }
+      )
+      expect(getMockFileBlobs().size).toBe(1)
+    })
+
+    it('restores the version file set on rollback', async () => {
+      const created = await createWithFile()
+      const targetVersionId = await latestVersionId(created.id)
+
+      await updateFile(
+        makeRequest(`http://localhost:3000/api/skills/${created.id}/files?path=references/rules.md`, {
+          method: 'PUT',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ content: 'v2 rules' }),
+        }),
+        { params: Promise.resolve({ id: String(created.id) }) }
+      )
+      await createFile(
+        makeRequest(`http://localhost:3000/api/skills/${created.id}/files`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ path: 'examples/extra.md', mime: 'text/markdown', content: 'extra' }),
+        }),
+        { params: Promise.resolve({ id: String(created.id) }) }
+      )
+
+      const rollbackRes = await rollbackSkill(
+        makeRequest(`http://localhost:3000/api/skills/${created.id}/rollback`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ versionId: targetVersionId }),
+        }),
+        { params: Promise.resolve({ id: String(created.id) }) }
+      )
+      expect(rollbackRes.status).toBe(200)
+      const rollbackData = await rollbackRes.json()
+      expect(rollbackData.restoredFiles).toEqual(['references/rules.md'])
+
+      const files = Array.from(getMockFiles().values()).filter((f) => f.skillId === created.id)
+      expect(files).toHaveLength(1)
+      expect(files[0].contentText).toBe('v1 rules')
+    })
+
+    it('duplicates a skill from a specific version including its files', async () => {
+      const created = await createWithFile()
+      const versionId = await latestVersionId(created.id)
+
+      await updateFile(
+        makeRequest(`http://localhost:3000/api/skills/${created.id}/files?path=references/rules.md`, {
+          method: 'PUT',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ content: 'v2 rules' }),
+        }),
+        { params: Promise.resolve({ id: String(created.id) }) }
+      )
+
+      const dupRes = await duplicateSkill(
+        makeRequest(`http://localhost:3000/api/skills/${created.id}/duplicate`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ versionId }),
+        }),
+        { params: Promise.resolve({ id: String(created.id) }) }
+      )
+      expect(dupRes.status).toBe(201)
+      const dup = await dupRes.json()
+      expect(dup.summary).toBe('with rules')
+
+      const files = Array.from(getMockFiles().values()).filter((f) => f.skillId === dup.id)
+      expect(files.map((f) => f.contentText)).toEqual(['v1 rules'])
+    })
+  })
 })
@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { requireActor } from '@/lib/auth'
+import { authorize } from '@/lib/permissions'
+import {
+  AUDIT_EXPORT_LIMIT,
+  AUDIT_NOT_READY_MESSAGE,
+  buildAuditWhere,
+  hasAuditEvents,
+  isAuditSchemaNotReadyError,
+  parseAuditQuery,
+  toAuditCsv,
+  toAuditEventResponse,
+} from '@/lib/audit'
+
+export const runtime = 'nodejs'
+
+/**
+ * GET /api/audit/export.csv - 按与列表相同的筛选条件导出 CSV（新到旧，最多 AUDIT_EXPORT_LIMIT 条，忽略 page）
+ */
+export async function GET(request: NextRequest) {
+  const auth = await requireActor(prisma, request)
+  if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: auth.status })
+  const access = authorize(auth, 'audit:read')
+  if (!access.ok) return NextResponse.json({ error: access.error }, { status: access.status })
+
+  if (!hasAuditEvents(prisma)) {
+    return NextResponse.json({ error: AUDIT_NOT_READY_MESSAGE }, { status: 503 })
+  }
+  const parsed = parseAuditQuery(new URL(request.url).searchParams)
+  if (!parsed.success) {
+    return NextResponse.json({ error: 'Validation failed', details: parsed.error.issues }, { status: 400 })
+  }
+
+  try {
+    const rows = await prisma.auditEvent.findMany({
+      where: buildAuditWhere(parsed.data),
+      orderBy: { id: 'desc' },
+      take: AUDIT_EXPORT_LIMIT,
+    })
+    const date = new Date().toISOString().slice(0, 10)
+    // BOM 让 Excel 按 UTF-8 打开中文
+    return new NextResponse(`\uFEFF${toAuditCsv(rows.map(toAuditEventResponse))}`, {
+      status: 200,
+      headers: {
+        'Content-Type': 'text/csv; charset=utf-8',
+        'Content-Disposition': `attachment; filename="audit-${date}.csv"`,
+      },
+    })
+  } catch (err) {
+    if (isAuditSchemaNotReadyError(err)) {
+      return NextResponse.json({ error: AUDIT_NOT_READY_MESSAGE }, { status: 503 })
+    }
+    console.error('GET /api/audit/export.csv error:', err)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
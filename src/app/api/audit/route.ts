@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { requireActor } from '@/lib/auth'
+import { authorize } from '@/lib/permissions'
+import {
+  AUDIT_NOT_READY_MESSAGE,
+  AUDIT_PAGE_SIZE,
+  buildAuditWhere,
+  hasAuditEvents,
+  isAuditSchemaNotReadyError,
+  parseAuditQuery,
+  toAuditEventResponse,
+} from '@/lib/audit'
+
+export const runtime = 'nodejs'
+
+/**
+ * GET /api/audit - 审计日志（新到旧分页）
+ * query: actor, action, entityType, entityId, skillId, requestId, from, to, page
+ */
+export async function GET(request: NextRequest) {
+  const auth = await requireActor(prisma, request)
+  if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: auth.status })
+  const access = authorize(auth, 'audit:read')
+  if (!access.ok) return NextResponse.json({ error: access.error }, { status: access.status })
+
+  if (!hasAuditEvents(prisma)) {
+    return NextResponse.json({ error: AUDIT_NOT_READY_MESSAGE }, { status: 503 })
+  }
+  const parsed = parseAuditQuery(new URL(request.url).searchParams)
+  if (!parsed.success) {
+    return NextResponse.json({ error: 'Validation failed', details: parsed.error.issues }, { status: 400 })
+  }
+
+  const { page } = parsed.data
+  const where = buildAuditWhere(parsed.data)
+  try {
+    const [rows, total] = await Promise.all([
+      prisma.auditEvent.findMany({
+        where,
+        orderBy: { id: 'desc' },
+        skip: (page - 1) * AUDIT_PAGE_SIZE,
+        take: AUDIT_PAGE_SIZE,
+      }),
+      prisma.auditEvent.count({ where }),
+    ])
+    return NextResponse.json({
+      items: rows.map(toAuditEventResponse),
+      total,
+      page,
+      limit: AUDIT_PAGE_SIZE,
+      totalPages: Math.max(1, Math.ceil(total / AUDIT_PAGE_SIZE)),
+    })
+  } catch (err) {
+    if (isAuditSchemaNotReadyError(err)) {
+      return NextResponse.json({ error: AUDIT_NOT_READY_MESSAGE }, { status: 503 })
+    }
+    console.error('GET /api/audit error:', err)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod/v4'
+import { prisma } from '@/lib/prisma'
+import { recordAuditEvent } from '@/lib/audit'
+import {
+  AUTH_NOT_READY_MESSAGE,
+  hasUserAuth,
+  isAuthSchemaNotReadyError,
+  loginWithPassword,
+  sessionCookieName,
+} from '@/lib/auth'
+
+export const runtime = 'nodejs'
+
+const loginSchema = z.object({
+  username: z.string().trim().min(1).max(64),
+  password: z.string().min(1).max(200),
+})
+
+/**
+ * POST /api/auth/login
+ * body: { username, password }，成功后写入 httpOnly 会话 Cookie；签发会话与审计记录在同一事务内
+ */
+export async function POST(request: NextRequest) {
+  if (!hasUserAuth(prisma)) {
+    return NextResponse.json({ error: AUTH_NOT_READY_MESSAGE }, { status: 503 })
+  }
+
+  let body: unknown
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 })
+  }
+  const parsed = loginSchema.safeParse(body)
+  if (!parsed.success) {
+    return NextResponse.json({ error: 'Validation failed', details: parsed.error.issues }, { status: 400 })
+  }
+
+  try {
+    const result = await prisma.$transaction(async (tx) => {
+      const login = await loginWithPassword(tx, {
+        ...parsed.data,
+        userAgent: request.headers.get('user-agent'),
+      })
+      if (login.ok) {
+        await recordAuditEvent(tx, request, login.user.username, {
+          action: 'auth.login',
+          entityType: 'session',
+          entityId: login.sessionId,
+          entityLabel: login.user.username,
+          after: { role: login.user.role, expiresAt: login.expiresAt.toISOString() },
+        })
+      }
+      return login
+    })
+    if (!result.ok) return NextResponse.json({ error: result.error }, { status: 401 })
+
+    const response = NextResponse.json({ user: result.user, expiresAt: result.expiresAt.toISOString() })
+    response.cookies.set(sessionCookieName(), result.token, {
+      httpOnly: true,
+      secure: process.env.NODE_ENV === 'production',
+      sameSite: 'lax',
+      path: '/',
+      expires: result.expiresAt,
+    })
+    return response
+  } catch (err) {
+    if (isAuthSchemaNotReadyError(err)) {
+      return NextResponse.json({ error: AUTH_NOT_READY_MESSAGE }, { status: 503 })
+    }
+    console.error('POST /api/auth/login error:', err)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { recordAuditEvent } from '@/lib/audit'
+import { hasUserAuth, isAuthSchemaNotReadyError, readSessionToken, revokeSession, sessionCookieName } from '@/lib/auth'
+
+export const runtime = 'nodejs'
+
+/**
+ * POST /api/auth/logout - 撤销当前会话并清除 Cookie（未登录时同样返回成功）
+ */
+export async function POST(request: NextRequest) {
+  const token = readSessionToken(request)
+  if (token && hasUserAuth(prisma)) {
+    try {
+      await prisma.$transaction(async (tx) => {
+        const revoked = await revokeSession(tx, token)
+        if (!revoked) return
+        await recordAuditEvent(tx, request, revoked.username, {
+          action: 'auth.logout',
+          entityType: 'session',
+          entityId: revoked.sessionId,
+          entityLabel: revoked.username,
+        })
+      })
+    } catch (err) {
+      if (!isAuthSchemaNotReadyError(err)) {
+        console.error('POST /api/auth/logout error:', err)
+        return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+      }
+    }
+  }
+
+  const response = NextResponse.json({ ok: true })
+  response.cookies.set(sessionCookieName(), '', { httpOnly: true, sameSite: 'lax', path: '/', maxAge: 0 })
+  return response
+}
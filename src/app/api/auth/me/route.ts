@@ -0,0 +1,18 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { isLoginRequired, requireActor } from '@/lib/auth'
+
+export const runtime = 'nodejs'
+
+/**
+ * GET /api/auth/me - 当前登录用户；loginRequired 表示写操作是否必须登录，
+ * role 为当前请求的有效角色（未启用登录时匿名为 viewer，必须登录而未登录时为 null）
+ */
+export async function GET(request: NextRequest) {
+  const auth = await requireActor(prisma, request)
+  return NextResponse.json({
+    user: auth.ok ? auth.user : null,
+    role: auth.ok ? auth.role : null,
+    loginRequired: isLoginRequired(),
+  })
+}
@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { requireReader } from '@/lib/auth'
+import {
+  CHANNEL_NOT_READY_MESSAGE,
+  hasSkillChannels,
+  isChannelSchemaNotReadyError,
+  parseChannelName,
+  toSkillChannelResponse,
+} from '@/lib/skill-channels'
+
+export const runtime = 'nodejs'
+
+type RouteParams = { params: Promise<{ channel: string; slug: string }> }
+
+/**
+ * GET /api/channels/:channel/skills/:slug - 查询 slug 在指定渠道上的当前版本，附带该版本的导出地址
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  const reader = await requireReader(prisma, request)
+  if (!reader.ok) return NextResponse.json({ error: reader.error }, { status: reader.status })
+
+  if (!hasSkillChannels(prisma)) {
+    return NextResponse.json({ error: CHANNEL_NOT_READY_MESSAGE }, { status: 503 })
+  }
+
+  const { channel: rawChannel, slug } = await params
+  const channel = parseChannelName(decodeURIComponent(rawChannel))
+  if (!channel) return NextResponse.json({ error: 'Invalid channel name' }, { status: 400 })
+
+  const skill = await prisma.skill.findUnique({ where: { slug } })
+  if (!skill) return NextResponse.json({ error: 'Skill not found' }, { status: 404 })
+
+  try {
+    const row = await prisma.skillChannel.findUnique({
+      where: { skillId_name: { skillId: skill.id, name: channel } },
+      include: { skillVersion: { select: { version: true } } },
+    })
+    if (!row) return NextResponse.json({ error: 'Channel not found' }, { status: 404 })
+
+    const query = `?channel=${encodeURIComponent(channel)}`
+    return NextResponse.json({
+      ...toSkillChannelResponse(row),
+      slug: skill.slug,
+      exports: {
+        zip: `/api/skills/${skill.id}/export.zip${query}`,
+        md: `/api/skills/${skill.id}/export.md${query}`,
+        json: `/api/skills/${skill.id}/export.json${query}`,
+      },
+    })
+  } catch (err) {
+    if (isChannelSchemaNotReadyError(err)) {
+      return NextResponse.json({ error: CHANNEL_NOT_READY_MESSAGE }, { status: 503 })
+    }
+    throw err
+  }
+}
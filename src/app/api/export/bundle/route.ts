@@ -0,0 +1,152 @@
+import { NextRequest, NextResponse } from 'next/server'
+import archiver, { type Archiver } from 'archiver'
+import { PassThrough } from 'stream'
+import { prisma } from '@/lib/prisma'
+import { requireReader } from '@/lib/auth'
+import { loadSkillExportSource, parseExportSelector } from '@/lib/skill-export-source'
+import {
+  BUNDLE_MANIFEST_PATH,
+  BUNDLE_MAX_SKILLS,
+  createSkillBundleBuilder,
+  parseBundleQuery,
+  type BundleEntry,
+  type BundleSkillInput,
+} from '@/lib/skill-bundle'
+
+export const runtime = 'nodejs'
+
+/**
+ * 追加一批条目并等待 archive 处理完；下一个 Skill 的文件要等上一个写入压缩流后才读取
+ */
+function appendEntries(archive: Archiver, entries: BundleEntry[]): Promise<void> {
+  if (entries.length === 0) return Promise.resolve()
+  return new Promise((resolve, reject) => {
+    let remaining = entries.length
+    const cleanup = () => {
+      archive.off('entry', onEntry)
+      archive.off('error', onError)
+    }
+    const onEntry = () => {
+      remaining -= 1
+      if (remaining === 0) {
+        cleanup()
+        resolve()
+      }
+    }
+    const onError = (err: Error) => {
+      cleanup()
+      reject(err)
+    }
+    archive.on('entry', onEntry)
+    archive.on('error', onError)
+    for (const entry of entries) archive.append(entry.content, { name: entry.name })
+  })
+}
+
+/**
+ * GET /api/export/bundle?ids=1,2&tags=a,b - 多个 Skill 打包为一个 zip（skills/<slug>/...），附 manifest.json
+ * 每个 Skill 的版本来源与单个导出一致（默认 stable 渠道），可用 ?channel= / ?working=1 统一指定
+ * Skill 逐个加载并写入压缩流，manifest.json 最后写入；响应头只给出匹配的 Skill 数
+ */
+export async function GET(request: NextRequest) {
+  const reader = await requireReader(prisma, request)
+  if (!reader.ok) return NextResponse.json({ error: reader.error }, { status: reader.status })
+
+  const searchParams = new URL(request.url).searchParams
+  const selector = parseExportSelector(searchParams)
+  if ('error' in selector) {
+    return NextResponse.json({ error: selector.error }, { status: 400 })
+  }
+  const query = parseBundleQuery(searchParams, selector)
+  if ('error' in query) {
+    return NextResponse.json({ error: query.error }, { status: 400 })
+  }
+
+  // ids 与 tags 同时给出时取并集
+  const or: Array<Record<string, unknown>> = []
+  if (query.ids.length > 0) or.push({ id: { in: query.ids } })
+  if (query.tags.length > 0) or.push({ tags: { some: { tag: { name: { in: query.tags } } } } })
+
+  const skills = await prisma.skill.findMany({
+    where: or.length === 1 ? or[0] : { OR: or },
+    select: { id: true, slug: true },
+    orderBy: { slug: 'asc' },
+    take: BUNDLE_MAX_SKILLS + 1,
+  })
+  if (skills.length === 0) {
+    return NextResponse.json({ error: 'No skills matched' }, { status: 404 })
+  }
+  if (skills.length > BUNDLE_MAX_SKILLS) {
+    return NextResponse.json({ error: `Bundle is limited to ${BUNDLE_MAX_SKILLS} skills` }, { status: 400 })
+  }
+
+  const builder = createSkillBundleBuilder(query.selector)
+  const loadSkill = async (skill: { id: number; slug: string }): Promise<BundleSkillInput> => ({
+    skillId: skill.id,
+    slug: skill.slug,
+    result: await loadSkillExportSource(skill.id, query.selector, { withFiles: true }),
+  })
+
+  // 先找到第一个可导出的 Skill，全部被跳过时仍能返回 400
+  let next = 0
+  let firstEntries: BundleEntry[] = []
+  while (next < skills.length && firstEntries.length === 0) {
+    firstEntries = builder.add(await loadSkill(skills[next]))
+    next += 1
+  }
+  if (builder.manifest.skills.length === 0) {
+    return NextResponse.json({ error: 'No exportable skills', skipped: builder.manifest.skipped }, { status: 400 })
+  }
+
+  const archive = archiver('zip', { zlib: { level: 9 } })
+  const passthrough = new PassThrough()
+  archive.pipe(passthrough)
+
+  const writeBundle = async () => {
+    await appendEntries(archive, firstEntries)
+    firstEntries = []
+    for (; next < skills.length; next += 1) {
+      await appendEntries(archive, builder.add(await loadSkill(skills[next])))
+    }
+    archive.append(JSON.stringify(builder.manifest, null, 2), { name: BUNDLE_MANIFEST_PATH })
+    await archive.finalize()
+  }
+  writeBundle().catch((err) => {
+    console.error('GET /api/export/bundle error:', err)
+    archive.abort()
+    passthrough.destroy(err instanceof Error ? err : new Error(String(err)))
+  })
+
+  // 消费方跟不上时暂停读取，背压传回 archive
+  const readable = new ReadableStream({
+    start(controller) {
+      passthrough.on('data', (chunk: Buffer) => {
+        controller.enqueue(new Uint8Array(chunk))
+        if ((controller.desiredSize ?? 1) <= 0) passthrough.pause()
+      })
+      passthrough.on('end', () => {
+        controller.close()
+      })
+      passthrough.on('error', (err) => {
+        controller.error(err)
+      })
+    },
+    pull() {
+      passthrough.resume()
+    },
+    cancel() {
+      archive.abort()
+      passthrough.destroy()
+    },
+  })
+
+  const date = builder.manifest.generatedAt.slice(0, 10)
+  return new NextResponse(readable, {
+    status: 200,
+    headers: {
+      'Content-Type': 'application/zip',
+      'Content-Disposition': `attachment; filename="skills-bundle-${date}.zip"`,
+      'X-Bundle-Matched': String(skills.length),
+    },
+  })
+}
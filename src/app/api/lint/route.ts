@@ -1,12 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { lintSkill } from '@/lib/lint'
+import { scoreSkill } from '@/lib/quality-score'
 import { slugify } from '@/lib/slugify'
 import type { SkillData } from '@/lib/types'
 
 export const runtime = 'nodejs'
 
 /**
- * POST /api/lint - 客户端 lint 校验（不需要持久化）
+ * POST /api/lint - 客户端 lint 校验与质量评分（不需要持久化）
+ * body.files 可选，为 supporting files 路径列表
  */
 export async function POST(request: NextRequest) {
   try {
@@ -32,8 +34,10 @@ export async function POST(request: NextRequest) {
       tests: body.tests || [],
     }
 
+    const filePaths = Array.isArray(body.files) ? body.files.map((item: unknown) => String(item)) : []
     const result = lintSkill(skillData)
-    return NextResponse.json(result)
+    const quality = scoreSkill(skillData, { filePaths })
+    return NextResponse.json({ ...result, quality })
   } catch {
     return NextResponse.json({ valid: false, errors: [{ field: 'body', message: 'Invalid request body' }] }, { status: 400 })
   }
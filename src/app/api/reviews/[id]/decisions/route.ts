@@ -0,0 +1,155 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { loadActorNames, requireActor } from '@/lib/auth'
+import { recordAuditEvent } from '@/lib/audit'
+import { authorize } from '@/lib/permissions'
+import {
+  hasSkillReviews,
+  isReviewSchemaNotReadyError,
+  REVIEW_NOT_READY_MESSAGE,
+  reviewActors,
+  reviewDecisionSchema,
+  toSkillReviewResponse,
+} from '@/lib/skill-reviews'
+
+export const runtime = 'nodejs'
+
+type RouteParams = { params: Promise<{ id: string }> }
+
+const REVIEW_INCLUDE = {
+  skillVersion: { select: { version: true } },
+  decisions: true,
+} as const
+
+function isPrismaCode(err: unknown, code: string): boolean {
+  return !!err && typeof err === 'object' && 'code' in err && (err as { code?: string }).code === code
+}
+
+const REVIEW_NOT_PENDING_MESSAGE = 'Review is not pending'
+const REVIEW_SUPERSEDED_MESSAGE = 'Review was superseded by a newer submission'
+
+/** 提交已不再待审核时的错误码：被重新提交替代的单独区分 */
+function reviewClosedError(status: string): string {
+  return status === 'superseded' ? 'REVIEW_SUPERSEDED' : 'REVIEW_NOT_PENDING'
+}
+
+function parsePositiveId(raw: string): number | null {
+  const id = Number(raw)
+  if (!Number.isInteger(id) || id <= 0) return null
+  return id
+}
+
+/**
+ * POST /api/reviews/:id/decisions
+ * body: { decision: 'approve' | 'request_changes', comment?, fieldComments?: { field, message }[] }
+ * 提交人不能审核自己的提交；每位审核人对同一提交只能给出一次结论。
+ * 通过数达到 requiredApprovals 时提交变为 approved，要求修改则立即变为 changes_requested
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  if (!hasSkillReviews(prisma)) {
+    return NextResponse.json({ error: REVIEW_NOT_READY_MESSAGE }, { status: 503 })
+  }
+
+  const auth = await requireActor(prisma, request)
+  if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: auth.status })
+  const access = authorize(auth, 'skill:review')
+  if (!access.ok) return NextResponse.json({ error: access.error }, { status: access.status })
+
+  const { id } = await params
+  const reviewId = parsePositiveId(id)
+  if (!reviewId) return NextResponse.json({ error: 'Invalid review id' }, { status: 400 })
+
+  let body: unknown
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 })
+  }
+  const parsed = reviewDecisionSchema.safeParse(body)
+  if (!parsed.success) {
+    return NextResponse.json({ error: 'Validation failed', details: parsed.error.issues }, { status: 400 })
+  }
+  const { decision, comment, fieldComments } = parsed.data
+
+  try {
+    const review = await prisma.skillReview.findUnique({ where: { id: reviewId }, include: REVIEW_INCLUDE })
+    if (!review) return NextResponse.json({ error: 'Review not found' }, { status: 404 })
+    if (review.status !== 'pending') {
+      const superseded = review.status === 'superseded'
+      return NextResponse.json(
+        { error: superseded ? REVIEW_SUPERSEDED_MESSAGE : REVIEW_NOT_PENDING_MESSAGE },
+        { status: 409 }
+      )
+    }
+    if (review.createdBy === auth.actor) {
+      return NextResponse.json({ error: 'Cannot review your own submission' }, { status: 403 })
+    }
+    if (review.decisions.some((item) => item.createdBy === auth.actor)) {
+      return NextResponse.json({ error: 'Already reviewed' }, { status: 409 })
+    }
+
+    // 状态与通过数都在事务内重新读取，状态变更以 pending 为条件，避免并发结论或重新提交覆盖彼此
+    const updated = await prisma.$transaction(async (tx) => {
+      const current = await tx.skillReview.findUnique({ where: { id: reviewId }, select: { status: true } })
+      if (!current) throw new Error('REVIEW_NOT_FOUND')
+      if (current.status !== 'pending') throw new Error(reviewClosedError(current.status))
+
+      await tx.skillReviewDecision.create({
+        data: {
+          reviewId,
+          decision,
+          comment: comment || null,
+          fieldComments,
+          createdBy: auth.actor,
+        },
+      })
+      const approvals = await tx.skillReviewDecision.count({ where: { reviewId, decision: 'approve' } })
+      const nextStatus =
+        decision === 'request_changes' ? 'changes_requested' : approvals >= review.requiredApprovals ? 'approved' : 'pending'
+
+      if (nextStatus !== 'pending') {
+        const { count } = await tx.skillReview.updateMany({
+          where: { id: reviewId, status: 'pending' },
+          data: { status: nextStatus, resolvedAt: new Date() },
+        })
+        if (count === 0) {
+          const latest = await tx.skillReview.findUnique({ where: { id: reviewId }, select: { status: true } })
+          throw new Error(latest ? reviewClosedError(latest.status) : 'REVIEW_NOT_FOUND')
+        }
+      }
+      const result = await tx.skillReview.findUnique({ where: { id: reviewId }, include: REVIEW_INCLUDE })
+      if (!result) throw new Error('REVIEW_NOT_FOUND')
+      await recordAuditEvent(tx, request, auth.actor, {
+        action: 'review.decide',
+        entityType: 'review',
+        entityId: reviewId,
+        entityLabel: `v${review.skillVersion.version}`,
+        skillId: review.skillId,
+        before: { status: current.status },
+        after: { status: result.status, decision, approvals },
+      })
+      return result
+    })
+
+    const actorNames = await loadActorNames(prisma, reviewActors([updated]))
+    return NextResponse.json(toSkillReviewResponse(updated, actorNames), { status: 201 })
+  } catch (err) {
+    if (isPrismaCode(err, 'P2002')) {
+      return NextResponse.json({ error: 'Already reviewed' }, { status: 409 })
+    }
+    if (err instanceof Error && err.message === 'REVIEW_NOT_FOUND') {
+      return NextResponse.json({ error: 'Review not found' }, { status: 404 })
+    }
+    if (err instanceof Error && err.message === 'REVIEW_SUPERSEDED') {
+      return NextResponse.json({ error: REVIEW_SUPERSEDED_MESSAGE }, { status: 409 })
+    }
+    if (err instanceof Error && err.message === 'REVIEW_NOT_PENDING') {
+      return NextResponse.json({ error: REVIEW_NOT_PENDING_MESSAGE }, { status: 409 })
+    }
+    if (isReviewSchemaNotReadyError(err)) {
+      return NextResponse.json({ error: REVIEW_NOT_READY_MESSAGE }, { status: 503 })
+    }
+    console.error('POST /api/reviews/:id/decisions error:', err)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { loadActorNames, requireReader } from '@/lib/auth'
+import {
+  hasSkillReviews,
+  isReviewSchemaNotReadyError,
+  REVIEW_NOT_READY_MESSAGE,
+  REVIEW_STATUSES,
+  reviewActors,
+  toSkillReviewResponse,
+  type ReviewStatus,
+} from '@/lib/skill-reviews'
+
+export const runtime = 'nodejs'
+
+const QUEUE_LIMIT = 100
+
+/**
+ * GET /api/reviews?status=pending - 审核队列（默认待审核，按提交时间先到先审）
+ */
+export async function GET(request: NextRequest) {
+  const reader = await requireReader(prisma, request)
+  if (!reader.ok) return NextResponse.json({ error: reader.error }, { status: reader.status })
+
+  if (!hasSkillReviews(prisma)) {
+    return NextResponse.json({ error: REVIEW_NOT_READY_MESSAGE }, { status: 503 })
+  }
+
+  const rawStatus = new URL(request.url).searchParams.get('status') || 'pending'
+  if (!(REVIEW_STATUSES as readonly string[]).includes(rawStatus)) {
+    return NextResponse.json({ error: 'Invalid review status' }, { status: 400 })
+  }
+  const status = rawStatus as ReviewStatus
+
+  try {
+    const rows = await prisma.skillReview.findMany({
+      where: { status },
+      orderBy: { createdAt: status === 'pending' ? 'asc' : 'desc' },
+      take: QUEUE_LIMIT,
+      include: {
+        skillVersion: { select: { version: true } },
+        decisions: true,
+        skill: { select: { title: true, slug: true, owner: true } },
+      },
+    })
+    const actorNames = await loadActorNames(prisma, reviewActors(rows))
+
+    return NextResponse.json({
+      status,
+      items: rows.map((row) => ({
+        ...toSkillReviewResponse(row, actorNames),
+        skill: { id: row.skillId, title: row.skill.title, slug: row.skill.slug, owner: row.skill.owner },
+      })),
+    })
+  } catch (err) {
+    if (isReviewSchemaNotReadyError(err)) {
+      return NextResponse.json({ error: REVIEW_NOT_READY_MESSAGE }, { status: 503 })
+    }
+    console.error('GET /api/reviews error:', err)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
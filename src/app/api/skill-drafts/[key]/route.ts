@@ -1,6 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { Prisma } from '@prisma/client'
 import { prisma } from '@/lib/prisma'
+import { requireActor, requireReader } from '@/lib/auth'
+import { recordAuditEvent } from '@/lib/audit'
+import { authorize, authorizeSkill } from '@/lib/permissions'
 
 export const runtime = 'nodejs'
 
@@ -36,7 +39,10 @@ function validateDraftKey(rawKey: string): string | null {
 /**
  * GET /api/skill-drafts/:key
  */
-export async function GET(_request: NextRequest, { params }: RouteParams) {
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  const reader = await requireReader(prisma, request)
+  if (!reader.ok) return NextResponse.json({ error: reader.error }, { status: reader.status })
+
   const { key: rawKey } = await params
   const key = validateDraftKey(rawKey)
   if (!key) return NextResponse.json({ error: 'Invalid draft key' }, { status: 400 })
@@ -52,6 +58,7 @@ export async function GET(_request: NextRequest, { params }: RouteParams) {
     payload: draft.payload,
     version: draft.version,
     updatedAt: draft.updatedAt.toISOString(),
+    updatedBy: draft.updatedBy,
   })
 }
 
@@ -60,6 +67,9 @@ export async function GET(_request: NextRequest, { params }: RouteParams) {
  * upsert 草稿，并维护 version
  */
 export async function PUT(request: NextRequest, { params }: RouteParams) {
+  const auth = await requireActor(prisma, request)
+  if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: auth.status })
+
   const { key: rawKey } = await params
   const key = validateDraftKey(rawKey)
   if (!key) return NextResponse.json({ error: 'Invalid draft key' }, { status: 400 })
@@ -81,10 +91,9 @@ export async function PUT(request: NextRequest, { params }: RouteParams) {
     return NextResponse.json({ error: 'Invalid skillId' }, { status: 400 })
   }
 
-  if (skillId) {
-    const existingSkill = await prisma.skill.findUnique({ where: { id: skillId } })
-    if (!existingSkill) return NextResponse.json({ error: 'Skill not found' }, { status: 404 })
-  }
+  // 编辑草稿按所属 Skill 校验编辑权限，新建草稿要求可新建 Skill
+  const access = skillId ? await authorizeSkill(prisma, auth, 'skill:edit', skillId) : authorize(auth, 'skill:create')
+  if (!access.ok) return NextResponse.json({ error: access.error }, { status: access.status })
 
   if (!body.payload || typeof body.payload !== 'object' || Array.isArray(body.payload)) {
     return NextResponse.json({ error: 'payload must be an object' }, { status: 400 })
@@ -113,6 +122,7 @@ export async function PUT(request: NextRequest, { params }: RouteParams) {
     )
   }
 
+  // 自动保存频繁，只记录草稿的创建与删除
   const saved = existing
     ? await prisma.skillDraft.update({
         where: { draftKey: key },
@@ -121,16 +131,29 @@ export async function PUT(request: NextRequest, { params }: RouteParams) {
           skillId,
           payload,
           version: existing.version + 1,
+          updatedBy: auth.actor,
         },
       })
-    : await prisma.skillDraft.create({
-        data: {
-          draftKey: key,
-          mode,
-          skillId,
-          payload,
-          version: 1,
-        },
+    : await prisma.$transaction(async (tx) => {
+        const created = await tx.skillDraft.create({
+          data: {
+            draftKey: key,
+            mode,
+            skillId,
+            payload,
+            version: 1,
+            createdBy: auth.actor,
+            updatedBy: auth.actor,
+          },
+        })
+        await recordAuditEvent(tx, request, auth.actor, {
+          action: 'draft.create',
+          entityType: 'draft',
+          entityId: created.draftKey,
+          skillId: created.skillId,
+          after: { mode: created.mode, version: created.version },
+        })
+        return created
       })
 
   return NextResponse.json({
@@ -141,19 +164,39 @@ export async function PUT(request: NextRequest, { params }: RouteParams) {
     payload: saved.payload,
     version: saved.version,
     updatedAt: saved.updatedAt.toISOString(),
+    updatedBy: saved.updatedBy,
   })
 }
 
 /**
  * DELETE /api/skill-drafts/:key
  */
-export async function DELETE(_request: NextRequest, { params }: RouteParams) {
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  const auth = await requireActor(prisma, request)
+  if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: auth.status })
+
   const { key: rawKey } = await params
   const key = validateDraftKey(rawKey)
   if (!key) return NextResponse.json({ error: 'Invalid draft key' }, { status: 400 })
 
+  const draft = await prisma.skillDraft.findUnique({ where: { draftKey: key } })
+  if (!draft) return NextResponse.json({ error: 'Draft not found' }, { status: 404 })
+  const access = draft.skillId
+    ? await authorizeSkill(prisma, auth, 'skill:edit', draft.skillId)
+    : authorize(auth, 'skill:create')
+  if (!access.ok) return NextResponse.json({ error: access.error }, { status: access.status })
+
   try {
-    await prisma.skillDraft.delete({ where: { draftKey: key } })
+    await prisma.$transaction(async (tx) => {
+      await tx.skillDraft.delete({ where: { draftKey: key } })
+      await recordAuditEvent(tx, request, auth.actor, {
+        action: 'draft.delete',
+        entityType: 'draft',
+        entityId: draft.draftKey,
+        skillId: draft.skillId,
+        before: { mode: draft.mode, version: draft.version, updatedBy: draft.updatedBy },
+      })
+    })
   } catch (err) {
     if (isPrismaCode(err, 'P2025')) {
       return NextResponse.json({ error: 'Draft not found' }, { status: 404 })
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
+import { requireReader } from '@/lib/auth'
 
 export const runtime = 'nodejs'
 
@@ -8,6 +9,9 @@ export const runtime = 'nodejs'
  * 返回最近更新的草稿列表（用于管理视图）
  */
 export async function GET(request: NextRequest) {
+  const reader = await requireReader(prisma, request)
+  if (!reader.ok) return NextResponse.json({ error: reader.error }, { status: reader.status })
+
   const { searchParams } = new URL(request.url)
   const mode = (searchParams.get('mode') || '').trim()
   const where = mode ? { mode } : undefined
@@ -1,14 +1,30 @@
+import { isDeepStrictEqual } from 'util'
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
 import { validateChangeSet } from '@/lib/ai/claudeRunner'
 import { slugify } from '@/lib/slugify'
 import type { ChangeSet } from '@/lib/ai/types'
 import { buildReplaceTagConnect, isServiceError } from '@/lib/tag-service'
+import { createSkillVersionIfAvailable, toSkillSnapshot } from '@/lib/skill-versioning'
+import { requireActor } from '@/lib/auth'
+import { authorizeSkill } from '@/lib/permissions'
+import { recordAuditEvent, summarizeSkill } from '@/lib/audit'
+import {
+  hasProposalLog,
+  isProposalLogSchemaNotReadyError,
+  markProposalAppliedIfAvailable,
+  summarizeChangeSet,
+  updateProposalIfAvailable,
+} from '@/lib/ai/proposal-log'
+import { changeSetSelectionSchema, isEmptyChangeSet, selectChangeSet } from '@/lib/ai/change-set-selection'
+import { applyFileOpsToPaths, mergeSkillPatch, toSkillDataFromRecord } from '@/lib/ai/skill-patch'
+import { findLintRegressions, lintSkillPackage } from '@/lib/lint'
 
 export const runtime = 'nodejs'
 
 type RouteParams = { params: Promise<{ id: string }> }
 const BINARY_MAX = 2 * 1024 * 1024 // 2MB
+const PROPOSAL_ALREADY_APPLIED_MESSAGE = 'Proposal already applied'
 
 function isPrismaCode(err: unknown, code: string): boolean {
   return !!err && typeof err === 'object' && 'code' in err && (err as { code?: string }).code === code
@@ -20,16 +36,35 @@ function parseSkillId(rawId: string): number | null {
   return skillId
 }
 
+// 提案表未迁移时视为没有提案记录
+async function findProposal(proposalId: number) {
+  if (!hasProposalLog(prisma)) return null
+  try {
+    return await prisma.proposalLog.findUnique({ where: { id: proposalId } })
+  } catch (err) {
+    if (isProposalLogSchemaNotReadyError(err)) return null
+    throw err
+  }
+}
+
 /**
  * POST /api/skills/:id/ai/apply
- * 应用变更提案到数据库
+ * 应用变更提案到数据库；传入 proposalId 时应用该提案保存的 changeSet（可省略 body.changeSet，
+ * 传入且与提案不一致时返回 409；提案不存在时返回 404），并在同一事务内记录应用结果与生成的版本
+ * selection: { fields?, fileOps? } 只应用选中的字段与文件路径，其余记为拒绝
+ * 应用前重跑 lint：出现新的 lint 错误时返回 422，allowLintRegression=true 时强制应用
  */
 export async function POST(request: NextRequest, { params }: RouteParams) {
+  const auth = await requireActor(prisma, request)
+  if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: auth.status })
+
   const { id } = await params
   const skillId = parseSkillId(id)
   if (!skillId) {
     return NextResponse.json({ error: 'Invalid skill id' }, { status: 400 })
   }
+  const access = await authorizeSkill(prisma, auth, 'skill:edit', skillId)
+  if (!access.ok) return NextResponse.json({ error: access.error }, { status: access.status })
 
   const skill = await prisma.skill.findUnique({
     where: { id: skillId },
@@ -39,25 +74,83 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
     return NextResponse.json({ error: 'Skill not found' }, { status: 404 })
   }
 
-  let body: { changeSet?: ChangeSet }
+  let body: { changeSet?: ChangeSet; proposalId?: unknown; selection?: unknown; allowLintRegression?: unknown }
   try {
     body = await request.json()
   } catch {
     return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 })
   }
 
-  if (!body.changeSet) {
+  let proposalId: number | null = null
+  let proposedChangeSet: ChangeSet | null = null
+  if (body.proposalId !== undefined && body.proposalId !== null) {
+    proposalId = Number(body.proposalId)
+    if (!Number.isInteger(proposalId) || proposalId <= 0) {
+      return NextResponse.json({ error: 'Invalid proposal id' }, { status: 400 })
+    }
+    const proposal = await findProposal(proposalId)
+    if (!proposal || proposal.skillId !== skillId) {
+      return NextResponse.json({ error: 'Proposal not found' }, { status: 404 })
+    }
+    if (proposal.status === 'applied') {
+      return NextResponse.json({ error: PROPOSAL_ALREADY_APPLIED_MESSAGE }, { status: 409 })
+    }
+    // 有提案记录时只应用提案里的 changeSet，客户端只决定选择哪些项
+    if (!proposal.changeSet) {
+      return NextResponse.json({ error: 'Proposal has no changeSet' }, { status: 409 })
+    }
+    proposedChangeSet = proposal.changeSet as unknown as ChangeSet
+    if (body.changeSet && !isDeepStrictEqual(body.changeSet, proposedChangeSet)) {
+      return NextResponse.json({ error: 'changeSet does not match proposal' }, { status: 409 })
+    }
+  }
+
+  const fullChangeSet = proposedChangeSet ?? body.changeSet
+  if (!fullChangeSet) {
     return NextResponse.json({ error: 'changeSet is required' }, { status: 400 })
   }
 
-  const cs = body.changeSet
+  const parsedSelection = changeSetSelectionSchema.optional().safeParse(body.selection ?? undefined)
+  if (!parsedSelection.success) {
+    return NextResponse.json({ error: 'Validation failed', details: parsedSelection.error.issues }, { status: 400 })
+  }
+
+  const recordFailure = async (message: string) => {
+    if (proposalId) await updateProposalIfAvailable(prisma, proposalId, { status: 'apply_failed', error: message })
+  }
 
   // 校验 changeSet（schema + path gate + size gate）
-  const validation = validateChangeSet(cs)
+  const validation = validateChangeSet(fullChangeSet)
   if (!validation.valid) {
+    await recordFailure(validation.errors.join('\n'))
     return NextResponse.json({ error: 'Invalid changeSet', errors: validation.errors }, { status: 400 })
   }
 
+  const selection = parsedSelection.data
+  const { accepted: cs, rejected, errors: selectionErrors } = selectChangeSet(fullChangeSet, selection)
+  if (selectionErrors.length > 0) {
+    return NextResponse.json({ error: 'Invalid selection', errors: selectionErrors }, { status: 400 })
+  }
+  if (selection && isEmptyChangeSet(cs) && !isEmptyChangeSet(fullChangeSet)) {
+    return NextResponse.json({ error: 'No changes selected' }, { status: 400 })
+  }
+
+  // lint gate：对比应用前后的整包 lint，只拦截新增的问题
+  const currentFiles = await prisma.skillFile.findMany({ where: { skillId } })
+  const beforePaths = currentFiles.map((f) => f.path).sort()
+  const beforeData = toSkillDataFromRecord(skill)
+  const lintBefore = lintSkillPackage(beforeData, beforePaths)
+  const lintAfter = lintSkillPackage(
+    mergeSkillPatch(beforeData, cs.skillPatch),
+    applyFileOpsToPaths(beforePaths, cs.fileOps)
+  )
+  const regressions = findLintRegressions(lintBefore, lintAfter)
+  const lint = { before: lintBefore, after: lintAfter, regressions }
+  if (regressions.length > 0 && body.allowLintRegression !== true) {
+    await recordFailure(`Lint regression:\n${regressions.map((e) => `${e.field}: ${e.message}`).join('\n')}`)
+    return NextResponse.json({ error: 'Lint regression', lint }, { status: 422 })
+  }
+
   try {
     // 1) Apply skillPatch to DB
     const patch = cs.skillPatch
@@ -66,6 +159,7 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
     if (patch.title !== undefined) {
       const nextSlug = slugify(patch.title)
       if (!nextSlug) {
+        await recordFailure('Cannot generate valid slug from title')
         return NextResponse.json(
           { error: 'Cannot generate valid slug from title' },
           { status: 400 }
@@ -89,14 +183,14 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
 
     // Handle tags
     if (patch.tags !== undefined) {
-      updateData.tags = await buildReplaceTagConnect(patch.tags)
+      updateData.tags = await buildReplaceTagConnect(patch.tags, auth.actor)
     }
 
-    await prisma.$transaction(async (tx) => {
+    const { updated, version } = await prisma.$transaction(async (tx) => {
       if (Object.keys(updateData).length > 0) {
         await tx.skill.update({
           where: { id: skillId },
-          data: updateData,
+          data: { ...updateData, updatedBy: auth.actor },
         })
       }
 
@@ -123,6 +217,7 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
                 isBinary,
                 contentText: isBinary ? null : (fop.content_text || null),
                 contentBytes: isBinary ? Buffer.from(fop.content_base64!, 'base64') : null,
+                updatedBy: auth.actor,
               },
             })
           } else {
@@ -134,6 +229,8 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
                 isBinary,
                 contentText: isBinary ? null : (fop.content_text || ''),
                 contentBytes: isBinary ? Buffer.from(fop.content_base64!, 'base64') : null,
+                createdBy: auth.actor,
+                updatedBy: auth.actor,
               },
             })
           }
@@ -147,12 +244,41 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
           }
         }
       }
-    })
 
-    // 3) Return updated skill
-    const updated = await prisma.skill.findUnique({
-      where: { id: skillId },
-      include: { tags: { include: { tag: true } } },
+      // 3) Snapshot a version and return updated skill
+      const updated = await tx.skill.findUnique({
+        where: { id: skillId },
+        include: { tags: { include: { tag: true } } },
+      })
+      const version = await createSkillVersionIfAvailable(tx, skillId, toSkillSnapshot(updated!), 'ai', auth.actor)
+
+      await recordAuditEvent(tx, request, auth.actor, {
+        action: 'skill.ai_apply',
+        entityType: 'skill',
+        entityId: skillId,
+        entityLabel: updated!.title,
+        skillId,
+        before: summarizeSkill(skill),
+        after: {
+          ...summarizeSkill(updated!),
+          fields: Object.keys(cs.skillPatch).filter((key) => cs.skillPatch[key as keyof typeof cs.skillPatch] !== undefined),
+          files: cs.fileOps.map((fop) => `${fop.op}:${fop.path}`),
+          proposalId,
+          ...(version && { version: version.version }),
+        },
+      })
+      // 以「尚未应用」为条件标记提案，并发的重复应用在此失败并整体回滚
+      if (proposalId) {
+        const claimed = await markProposalAppliedIfAvailable(tx, proposalId, {
+          error: null,
+          appliedChangeSet: cs,
+          rejectedItems: rejected,
+          skillVersionId: version?.id ?? null,
+          appliedAt: new Date(),
+        })
+        if (!claimed) throw new Error('PROPOSAL_ALREADY_APPLIED')
+      }
+      return { updated, version }
     })
 
     return NextResponse.json({
@@ -160,8 +286,17 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
         ...updated,
         tags: updated!.tags.map((st: { tag: { name: string } }) => st.tag.name),
       },
+      version: version ? { id: version.id, version: version.version } : null,
+      proposalId,
+      accepted: summarizeChangeSet(cs),
+      rejected,
+      lint,
     })
   } catch (err) {
+    if (err instanceof Error && err.message === 'PROPOSAL_ALREADY_APPLIED') {
+      return NextResponse.json({ error: PROPOSAL_ALREADY_APPLIED_MESSAGE }, { status: 409 })
+    }
+    await recordFailure(err instanceof Error ? err.message : String(err))
     if (isServiceError(err, 'TAG_NAME_INVALID')) {
       return NextResponse.json({ error: (err as Error).message }, { status: 400 })
     }
@@ -1,7 +1,18 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
-import { runClaude } from '@/lib/ai/claudeRunner'
+import {
+  canOverrideProposalProvider,
+  isProposalProviderName,
+  proposeChangeSet,
+  resolveProposalProvider,
+} from '@/lib/ai/providers'
+import { PROPOSAL_PROVIDERS, type ProposalProviderAdapter } from '@/lib/ai/providers/types'
 import { changeSetJsonSchema } from '@/lib/ai/schema'
+import { recordProposalIfAvailable } from '@/lib/ai/proposal-log'
+import { requireActor } from '@/lib/auth'
+import { recordAuditEvent } from '@/lib/audit'
+import { authorizeSkill } from '@/lib/permissions'
+import { mergeSkillPatch, toSkillDataFromRecord } from '@/lib/ai/skill-patch'
 import { lintSkill } from '@/lib/lint'
 import type { SkillData } from '@/lib/types'
 import type { AiAction } from '@/lib/ai/types'
@@ -73,14 +84,20 @@ function buildPrompt(
 
 /**
  * POST /api/skills/:id/ai/propose
- * 调用 Claude CLI 生成变更提案
+ * 调用 AI backend 生成变更提案；provider 缺省取 AI_PROPOSAL_PROVIDER，
+ * 请求体指定 provider（cli | anthropic | mock）在生产环境仅限管理员
  */
 export async function POST(request: NextRequest, { params }: RouteParams) {
+  const auth = await requireActor(prisma, request)
+  if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: auth.status })
+
   const { id } = await params
   const skillId = Number(id)
   if (!Number.isInteger(skillId) || skillId <= 0) {
     return NextResponse.json({ error: 'Invalid skill id' }, { status: 400 })
   }
+  const access = await authorizeSkill(prisma, auth, 'skill:edit', skillId)
+  if (!access.ok) return NextResponse.json({ error: access.error }, { status: access.status })
 
   const skill = await prisma.skill.findUnique({
     where: { id: skillId },
@@ -90,7 +107,7 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
     return NextResponse.json({ error: 'Skill not found' }, { status: 404 })
   }
 
-  let body: { action?: string; instruction?: string }
+  let body: { action?: string; instruction?: string; provider?: unknown }
   try {
     body = await request.json()
   } catch {
@@ -105,6 +122,26 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
     )
   }
 
+  if (body.provider !== undefined && body.provider !== null && !isProposalProviderName(body.provider)) {
+    return NextResponse.json(
+      { error: `provider must be one of: ${PROPOSAL_PROVIDERS.join(', ')}` },
+      { status: 400 }
+    )
+  }
+  if (isProposalProviderName(body.provider) && !canOverrideProposalProvider(auth.role)) {
+    return NextResponse.json({ error: 'provider override requires admin' }, { status: 403 })
+  }
+
+  let provider: ProposalProviderAdapter
+  try {
+    provider = resolveProposalProvider(isProposalProviderName(body.provider) ? body.provider : undefined)
+  } catch (err) {
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : 'AI provider unavailable' },
+      { status: 503 }
+    )
+  }
+
   // 获取 supporting files 索引
   const files = await prisma.skillFile.findMany({ where: { skillId: skill.id } })
   const filesIndex = files.map((f) => ({
@@ -116,20 +153,7 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
   }))
 
   // 构建 skill 数据
-  const skillData: SkillData = {
-    id: skill.id,
-    title: skill.title,
-    slug: skill.slug,
-    summary: skill.summary,
-    inputs: skill.inputs,
-    outputs: skill.outputs,
-    steps: skill.steps as string[],
-    risks: skill.risks,
-    triggers: skill.triggers as string[],
-    guardrails: skill.guardrails as unknown as SkillData['guardrails'],
-    tests: skill.tests as unknown as SkillData['tests'],
-    tags: skill.tags.map((st: { tag: { name: string } }) => st.tag.name),
-  }
+  const skillData = toSkillDataFromRecord(skill)
 
   // 构建 lint errors（fix-lint 时使用）
   let lintErrors: string[] = []
@@ -138,13 +162,15 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
     lintErrors = lint.errors.map((e) => `${e.field}: ${e.message}`)
   }
 
+  const instruction = typeof body.instruction === 'string' ? body.instruction : undefined
+
   // 组装 user prompt
   const fullPrompt = buildPrompt(
     action,
     buildPromptSkillSnapshot(skillData, false),
     filesIndex.slice(0, 80),
     lintErrors,
-    typeof body.instruction === 'string' ? body.instruction : undefined,
+    instruction,
   )
 
   const prompt = fullPrompt.length > PROMPT_SOFT_LIMIT
@@ -153,19 +179,53 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
         buildPromptSkillSnapshot(skillData, true),
         filesIndex.slice(0, 24),
         lintErrors,
-        typeof body.instruction === 'string' ? body.instruction : undefined,
+        instruction,
       )
     : fullPrompt
 
-  // 调用 Claude CLI
-  const result = await runClaude({
+  // 调用 AI backend（输出统一经过 validateChangeSet）
+  const result = await proposeChangeSet(provider, {
+    action,
     prompt,
     jsonSchema: changeSetJsonSchema,
   })
 
+  // 无论成功与否都留存提案记录，并在同一事务内记审计
+  const proposalId = await prisma.$transaction(async (tx) => {
+    const id = await recordProposalIfAvailable(tx, {
+      skillId: skill.id,
+      action,
+      provider: provider.name,
+      instruction: instruction ?? null,
+      prompt,
+      changeSet: result.ok ? result.structuredOutput : undefined,
+      status: result.ok ? 'proposed' : 'failed',
+      error: result.ok ? undefined : (result.errors || []).join('\n'),
+      inputTokens: result.usage?.input_tokens,
+      outputTokens: result.usage?.output_tokens,
+      costUsd: result.costUsd,
+      createdBy: auth.actor,
+    })
+    await recordAuditEvent(tx, request, auth.actor, {
+      action: 'skill.ai_propose',
+      entityType: 'skill',
+      entityId: skill.id,
+      entityLabel: skill.title,
+      skillId: skill.id,
+      after: {
+        proposalId: id,
+        action,
+        provider: provider.name,
+        status: result.ok ? 'proposed' : 'failed',
+        costUsd: result.costUsd ?? null,
+      },
+    })
+    return id
+  })
+
   if (!result.ok) {
     return NextResponse.json(
-      { error: 'Claude CLI failed', details: result.errors },
+      { error: 'AI provider failed', provider: provider.name, details: result.errors, proposalId },
       { status: 502 }
     )
   }
@@ -180,13 +240,7 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
   }))
 
   // 生成 lint preview（模拟 apply 后的 skill 状态）
-  const mergedSkill: SkillData = {
-    ...skillData,
-    ...changeSet.skillPatch,
-    guardrails: changeSet.skillPatch.guardrails
-      ? { ...skillData.guardrails, ...changeSet.skillPatch.guardrails } as SkillData['guardrails']
-      : skillData.guardrails,
-  }
+  const mergedSkill = mergeSkillPatch(skillData, changeSet.skillPatch)
   const lintPreview = lintSkill(mergedSkill)
 
   return NextResponse.json({
@@ -194,5 +248,8 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
     lintPreview,
     pathPreview,
     usage: result.usage,
+    costUsd: result.costUsd ?? null,
+    provider: provider.name,
+    proposalId,
   })
 }
@@ -0,0 +1,188 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { requireActor } from '@/lib/auth'
+import { recordAuditEvent } from '@/lib/audit'
+import { authorizeSkill } from '@/lib/permissions'
+import { syncPublicationToGit } from '@/lib/publication-git-sync'
+import {
+  CHANNEL_NOT_READY_MESSAGE,
+  DEFAULT_PUBLISH_CHANNEL,
+  hasSkillChannels,
+  isChannelSchemaNotReadyError,
+  moveSkillChannel,
+  parseChannelName,
+  promoteChannelSchema,
+  toSkillChannelResponse,
+} from '@/lib/skill-channels'
+import { hasSkillReviews, isVersionApproved, REVIEW_NOT_READY_MESSAGE, REVIEW_REQUIRED_MESSAGE } from '@/lib/skill-reviews'
+
+export const runtime = 'nodejs'
+
+type RouteParams = { params: Promise<{ id: string; channel: string }> }
+
+function parsePositiveId(raw: string): number | null {
+  const id = Number(raw)
+  if (!Number.isInteger(id) || id <= 0) return null
+  return id
+}
+
+function isPrismaCode(err: unknown, code: string): boolean {
+  return !!err && typeof err === 'object' && 'code' in err && (err as { code?: string }).code === code
+}
+
+/** 渠道当前指向的版本号，不存在时为 null */
+async function currentChannelVersion(skillId: number, name: string): Promise<number | null> {
+  const row = await prisma.skillChannel.findUnique({
+    where: { skillId_name: { skillId, name } },
+    include: { skillVersion: { select: { id: true, version: true } } },
+  })
+  return row ? row.skillVersion.version : null
+}
+
+/**
+ * PUT /api/skills/:id/channels/:channel
+ * body: { version: number } 或 { fromChannel: string }（如把 beta 当前版本推广到 stable），可附 note
+ * 须登录；直接指定的版本须已通过审核或曾经发布过（在移动渠道的事务内校验）
+ * 移动的是 stable 渠道时同步到 Git
+ */
+export async function PUT(request: NextRequest, { params }: RouteParams) {
+  if (!hasSkillChannels(prisma)) {
+    return NextResponse.json({ error: CHANNEL_NOT_READY_MESSAGE }, { status: 503 })
+  }
+
+  const auth = await requireActor(prisma, request)
+  if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: auth.status })
+
+  const { id, channel: rawChannel } = await params
+  const skillId = parsePositiveId(id)
+  if (!skillId) return NextResponse.json({ error: 'Invalid skill id' }, { status: 400 })
+  if (!auth.user) return NextResponse.json({ error: 'Authentication required' }, { status: 401 })
+  const access = await authorizeSkill(prisma, auth, 'skill:publish', skillId)
+  if (!access.ok) return NextResponse.json({ error: access.error }, { status: access.status })
+  const channel = parseChannelName(decodeURIComponent(rawChannel))
+  if (!channel) return NextResponse.json({ error: 'Invalid channel name' }, { status: 400 })
+
+  let body: unknown
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 })
+  }
+
+  const parsed = promoteChannelSchema.safeParse(body)
+  if (!parsed.success) {
+    return NextResponse.json({ error: 'Validation failed', details: parsed.error.issues }, { status: 400 })
+  }
+  const { version, fromChannel, note } = parsed.data
+  if (fromChannel === channel) {
+    return NextResponse.json({ error: 'Source and target channel are the same' }, { status: 400 })
+  }
+
+  const skill = await prisma.skill.findUnique({ where: { id: skillId } })
+  if (!skill) return NextResponse.json({ error: 'Skill not found' }, { status: 404 })
+
+  try {
+    let target: { id: number; version: number } | null
+    if (fromChannel) {
+      const source = await prisma.skillChannel.findUnique({
+        where: { skillId_name: { skillId, name: fromChannel } },
+        include: { skillVersion: { select: { id: true, version: true } } },
+      })
+      if (!source) return NextResponse.json({ error: 'Source channel not found' }, { status: 404 })
+      target = source.skillVersion
+    } else {
+      target = await prisma.skillVersion.findUnique({
+        where: { skillId_version: { skillId, version: version! } },
+      })
+      if (!target) return NextResponse.json({ error: 'Version not found' }, { status: 404 })
+      if (!hasSkillReviews(prisma)) {
+        return NextResponse.json({ error: REVIEW_NOT_READY_MESSAGE }, { status: 503 })
+      }
+    }
+
+    const skillVersionId = target.id
+    const previousVersion = await currentChannelVersion(skillId, channel)
+    const result = await prisma.$transaction(async (tx) => {
+      if (!fromChannel) {
+        const published = await tx.skillPublication.findFirst({ where: { skillVersionId }, select: { id: true } })
+        if (!published && !(await isVersionApproved(tx, skillVersionId))) throw new Error('REVIEW_REQUIRED')
+      }
+      const moved = await moveSkillChannel(tx, { skillId, name: channel, skillVersionId, note, createdBy: auth.actor })
+      await recordAuditEvent(tx, request, auth.actor, {
+        action: 'skill.channel',
+        entityType: 'skill',
+        entityId: skillId,
+        entityLabel: skill.title,
+        skillId,
+        before: { channel, version: previousVersion },
+        after: { channel, version: target.version, publicationId: moved.publication.id, ...(fromChannel && { fromChannel }) },
+      })
+      return moved
+    })
+
+    const gitSync =
+      channel === DEFAULT_PUBLISH_CHANNEL
+        ? await syncPublicationToGit(skillId, result.publication.id)
+        : ({ status: 'skipped' } as const)
+
+    return NextResponse.json({
+      ...toSkillChannelResponse({ ...result.channel, skillVersion: { version: target.version } }),
+      publicationId: result.publication.id,
+      gitSync,
+    })
+  } catch (err) {
+    if (err instanceof Error && err.message === 'REVIEW_REQUIRED') {
+      return NextResponse.json({ error: REVIEW_REQUIRED_MESSAGE }, { status: 409 })
+    }
+    if (isChannelSchemaNotReadyError(err)) {
+      return NextResponse.json({ error: CHANNEL_NOT_READY_MESSAGE }, { status: 503 })
+    }
+    console.error('PUT /api/skills/:id/channels/:channel error:', err)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+/**
+ * DELETE /api/skills/:id/channels/:channel - 移除渠道（不影响版本与发布记录）
+ */
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  if (!hasSkillChannels(prisma)) {
+    return NextResponse.json({ error: CHANNEL_NOT_READY_MESSAGE }, { status: 503 })
+  }
+
+  const auth = await requireActor(prisma, request)
+  if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: auth.status })
+
+  const { id, channel: rawChannel } = await params
+  const skillId = parsePositiveId(id)
+  if (!skillId) return NextResponse.json({ error: 'Invalid skill id' }, { status: 400 })
+  const access = await authorizeSkill(prisma, auth, 'skill:publish', skillId)
+  if (!access.ok) return NextResponse.json({ error: access.error }, { status: access.status })
+  const channel = parseChannelName(decodeURIComponent(rawChannel))
+  if (!channel) return NextResponse.json({ error: 'Invalid channel name' }, { status: 400 })
+
+  try {
+    const previousVersion = await currentChannelVersion(skillId, channel)
+    await prisma.$transaction(async (tx) => {
+      await tx.skillChannel.delete({ where: { skillId_name: { skillId, name: channel } } })
+      await recordAuditEvent(tx, request, auth.actor, {
+        action: 'skill.channel',
+        entityType: 'skill',
+        entityId: skillId,
+        skillId,
+        before: { channel, version: previousVersion },
+        after: null,
+      })
+    })
+  } catch (err) {
+    if (isPrismaCode(err, 'P2025')) {
+      return NextResponse.json({ error: 'Channel not found' }, { status: 404 })
+    }
+    if (isChannelSchemaNotReadyError(err)) {
+      return NextResponse.json({ error: CHANNEL_NOT_READY_MESSAGE }, { status: 503 })
+    }
+    throw err
+  }
+
+  return NextResponse.json({ ok: true })
+}
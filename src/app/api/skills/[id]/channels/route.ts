@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { requireReader } from '@/lib/auth'
+import {
+  CHANNEL_NOT_READY_MESSAGE,
+  hasSkillChannels,
+  isChannelSchemaNotReadyError,
+  toSkillChannelResponse,
+} from '@/lib/skill-channels'
+
+export const runtime = 'nodejs'
+
+type RouteParams = { params: Promise<{ id: string }> }
+
+function parsePositiveId(raw: string): number | null {
+  const id = Number(raw)
+  if (!Number.isInteger(id) || id <= 0) return null
+  return id
+}
+
+/**
+ * GET /api/skills/:id/channels - 各发布渠道当前指向的版本
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  const reader = await requireReader(prisma, request)
+  if (!reader.ok) return NextResponse.json({ error: reader.error }, { status: reader.status })
+
+  if (!hasSkillChannels(prisma)) {
+    return NextResponse.json({ error: CHANNEL_NOT_READY_MESSAGE }, { status: 503 })
+  }
+
+  const { id } = await params
+  const skillId = parsePositiveId(id)
+  if (!skillId) return NextResponse.json({ error: 'Invalid skill id' }, { status: 400 })
+
+  const skill = await prisma.skill.findUnique({ where: { id: skillId } })
+  if (!skill) return NextResponse.json({ error: 'Skill not found' }, { status: 404 })
+
+  try {
+    const channels = await prisma.skillChannel.findMany({
+      where: { skillId },
+      orderBy: { name: 'asc' },
+      include: { skillVersion: { select: { version: true } } },
+    })
+    return NextResponse.json({
+      items: channels.map(toSkillChannelResponse),
+      total: channels.length,
+    })
+  } catch (err) {
+    if (isChannelSchemaNotReadyError(err)) {
+      return NextResponse.json({ error: CHANNEL_NOT_READY_MESSAGE }, { status: 503 })
+    }
+    throw err
+  }
+}
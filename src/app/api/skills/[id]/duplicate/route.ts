@@ -1,9 +1,21 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { Prisma } from '@prisma/client'
 import { prisma } from '@/lib/prisma'
+import { requireActor } from '@/lib/auth'
+import { recordAuditEvent, summarizeSkill } from '@/lib/audit'
+import { authorize } from '@/lib/permissions'
 import { slugify } from '@/lib/slugify'
 import { buildCreateTagConnect, isServiceError } from '@/lib/tag-service'
-import { createSkillVersionIfAvailable, toSkillSnapshot } from '@/lib/skill-versioning'
+import {
+  createSkillVersionIfAvailable,
+  hasSkillFileBlobs,
+  hasSkillVersioning,
+  isSnapshotBlobMissingError,
+  parseSkillSnapshot,
+  restoreSkillFiles,
+  toSkillSnapshot,
+  type SkillSnapshot,
+} from '@/lib/skill-versioning'
 
 export const runtime = 'nodejs'
 
@@ -46,8 +58,14 @@ function toInputJson(value: Prisma.JsonValue): Prisma.InputJsonValue {
 
 /**
  * POST /api/skills/:id/duplicate - 复制一个 Skill
+ * body: { title?: string, versionId?: number }，指定 versionId 时按该版本快照（含文件）复制
  */
 export async function POST(request: NextRequest, { params }: RouteParams) {
+  const auth = await requireActor(prisma, request)
+  if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: auth.status })
+  const access = authorize(auth, 'skill:create')
+  if (!access.ok) return NextResponse.json({ error: access.error }, { status: access.status })
+
   const { id } = await params
   const skillId = parseSkillId(id)
   if (!skillId) {
@@ -55,9 +73,11 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
   }
 
   let titleFromBody: unknown
+  let versionIdFromBody: unknown
   try {
     const body = await request.json()
     titleFromBody = body?.title
+    versionIdFromBody = body?.versionId
   } catch {
     titleFromBody = undefined
   }
@@ -70,69 +90,126 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
     return NextResponse.json({ error: 'Skill not found' }, { status: 404 })
   }
 
+  let versionSnapshot: SkillSnapshot | null = null
+  if (versionIdFromBody !== undefined && versionIdFromBody !== null) {
+    const versionId = Number(versionIdFromBody)
+    if (!Number.isInteger(versionId) || versionId <= 0) {
+      return NextResponse.json({ error: 'Invalid version id' }, { status: 400 })
+    }
+    const version = hasSkillVersioning(prisma)
+      ? await prisma.skillVersion.findUnique({ where: { id: versionId } })
+      : null
+    if (!version || version.skillId !== skillId) {
+      return NextResponse.json({ error: 'Version not found' }, { status: 404 })
+    }
+    versionSnapshot = parseSkillSnapshot(version.snapshot)
+    if (!versionSnapshot) {
+      return NextResponse.json({ error: 'Version snapshot is invalid' }, { status: 422 })
+    }
+  }
+
   const sourceFiles = await prisma.skillFile.findMany({ where: { skillId } })
-  const nextTitle = normalizeDuplicateTitle(titleFromBody, `${source.title} 副本`)
+  const snapshotFiles = versionSnapshot?.files
+  const sourceTitle = versionSnapshot?.title || source.title
+  const nextTitle = normalizeDuplicateTitle(titleFromBody, `${sourceTitle} 副本`)
   const nextSlug = await generateUniqueSlug(nextTitle, source.slug)
   if (!nextSlug) {
     return NextResponse.json({ error: 'Cannot generate valid slug from title' }, { status: 400 })
   }
 
   try {
-    const tagNames = source.tags.map((item) => item.tag.name)
-    const tagConnect = await buildCreateTagConnect(tagNames)
+    const tagNames = versionSnapshot ? versionSnapshot.tags : source.tags.map((item) => item.tag.name)
+    const tagConnect = await buildCreateTagConnect(tagNames, auth.actor)
 
-    const duplicated = await prisma.$transaction(async (tx) => {
+    const copied = await prisma.$transaction(async (tx) => {
       const skill = await tx.skill.create({
         data: {
           title: nextTitle,
           slug: nextSlug,
           status: 'draft',
-          summary: source.summary,
-          inputs: source.inputs,
-          outputs: source.outputs,
-          steps: toInputJson(source.steps),
-          risks: source.risks,
-          triggers: toInputJson(source.triggers),
-          guardrails: toInputJson(source.guardrails),
-          tests: toInputJson(source.tests),
+          ...(versionSnapshot
+            ? {
+                summary: versionSnapshot.summary,
+                inputs: versionSnapshot.inputs,
+                outputs: versionSnapshot.outputs,
+                steps: versionSnapshot.steps,
+                risks: versionSnapshot.risks,
+                triggers: versionSnapshot.triggers,
+                guardrails: versionSnapshot.guardrails,
+                tests: versionSnapshot.tests,
+              }
+            : {
+                summary: source.summary,
+                inputs: source.inputs,
+                outputs: source.outputs,
+                steps: toInputJson(source.steps),
+                risks: source.risks,
+                triggers: toInputJson(source.triggers),
+                guardrails: toInputJson(source.guardrails),
+                tests: toInputJson(source.tests),
+              }),
           tags: tagConnect,
+          owner: auth.actor,
+          createdBy: auth.actor,
+          updatedBy: auth.actor,
         },
         include: { tags: { include: { tag: true } } },
       })
 
-      for (const file of sourceFiles) {
-        await tx.skillFile.create({
-          data: {
-            skillId: skill.id,
-            path: file.path,
-            mime: file.mime,
-            isBinary: file.isBinary,
-            contentText: file.contentText,
-            contentBytes: file.contentBytes,
-          },
-        })
+      if (snapshotFiles && hasSkillFileBlobs(tx)) {
+        await restoreSkillFiles(tx, skill.id, snapshotFiles, auth.actor)
+      } else {
+        for (const file of sourceFiles) {
+          await tx.skillFile.create({
+            data: {
+              skillId: skill.id,
+              path: file.path,
+              mime: file.mime,
+              isBinary: file.isBinary,
+              contentText: file.contentText,
+              contentBytes: file.contentBytes,
+              createdBy: auth.actor,
+              updatedBy: auth.actor,
+            },
+          })
+        }
       }
 
-      return skill
-    })
-
-    const copied = await prisma.skill.findUnique({
-      where: { id: duplicated.id },
-      include: { tags: { include: { tag: true } } },
+      const copied = await tx.skill.findUnique({
+        where: { id: skill.id },
+        include: { tags: { include: { tag: true } } },
+      })
+      if (copied) {
+        await createSkillVersionIfAvailable(tx, copied.id, toSkillSnapshot(copied), undefined, auth.actor)
+      }
+      await recordAuditEvent(tx, request, auth.actor, {
+        action: 'skill.duplicate',
+        entityType: 'skill',
+        entityId: skill.id,
+        entityLabel: skill.title,
+        skillId: skill.id,
+        after: {
+          ...summarizeSkill(skill),
+          duplicatedFrom: source.slug,
+          ...(versionSnapshot && { duplicatedFromVersionId: Number(versionIdFromBody) }),
+        },
+      })
+      return copied
     })
-    if (copied) {
-      await createSkillVersionIfAvailable(prisma, copied.id, toSkillSnapshot(copied))
-    }
 
     return NextResponse.json({
       ...copied,
       tags: copied?.tags.map((item) => item.tag.name) || [],
       duplicatedFromId: source.id,
+      duplicatedFromVersion: versionSnapshot ? Number(versionIdFromBody) : undefined,
     }, { status: 201 })
   } catch (err) {
     if (isServiceError(err, 'TAG_NAME_INVALID')) {
       return NextResponse.json({ error: (err as Error).message }, { status: 400 })
     }
+    if (isSnapshotBlobMissingError(err)) {
+      return NextResponse.json({ error: (err as Error).message }, { status: 422 })
+    }
     if (err && typeof err === 'object' && 'code' in err && (err as { code?: string }).code === 'P2002') {
       return NextResponse.json({ error: 'Slug already exists' }, { status: 409 })
     }
@@ -1,42 +1,33 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
+import { requireReader } from '@/lib/auth'
 import { lintSkill } from '@/lib/lint'
-import type { SkillData } from '@/lib/types'
 import { buildDescription } from '@/lib/markdown'
+import { exportSourceHeaders, loadSkillExportSource, parseExportSelector } from '@/lib/skill-export-source'
 
 export const runtime = 'nodejs'
 
 type RouteParams = { params: Promise<{ id: string }> }
 
 /**
- * GET /api/skills/:id/export.json - 导出为结构化 JSON
+ * GET /api/skills/:id/export.json - 导出为结构化 JSON（?channel= 导出渠道指向的版本）
  */
-export async function GET(_request: NextRequest, { params }: RouteParams) {
-  const { id } = await params
-  const skill = await prisma.skill.findUnique({
-    where: { id: Number(id) },
-    include: { tags: { include: { tag: true } } },
-  })
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  const reader = await requireReader(prisma, request)
+  if (!reader.ok) return NextResponse.json({ error: reader.error }, { status: reader.status })
 
-  if (!skill) {
-    return NextResponse.json({ error: 'Skill not found' }, { status: 404 })
+  const { id } = await params
+  const selector = parseExportSelector(new URL(request.url).searchParams)
+  if ('error' in selector) {
+    return NextResponse.json({ error: selector.error }, { status: 400 })
   }
 
-  const skillData: SkillData = {
-    id: skill.id,
-    title: skill.title,
-    slug: skill.slug,
-    summary: skill.summary,
-    inputs: skill.inputs,
-    outputs: skill.outputs,
-    steps: skill.steps as string[],
-    risks: skill.risks,
-    triggers: skill.triggers as string[],
-    guardrails: skill.guardrails as unknown as SkillData['guardrails'],
-    tests: skill.tests as unknown as SkillData['tests'],
-    tags: skill.tags.map((st) => st.tag.name),
+  const result = await loadSkillExportSource(Number(id), selector)
+  if (!result.ok) {
+    return NextResponse.json({ error: result.error }, { status: result.status })
   }
 
+  const { skillData } = result.source
   const lint = lintSkill(skillData)
   if (!lint.valid) {
     return NextResponse.json(
@@ -47,21 +38,24 @@ export async function GET(_request: NextRequest, { params }: RouteParams) {
 
   const description = buildDescription(skillData)
 
-  return NextResponse.json({
-    name: skill.slug,
-    description,
-    title: skill.title,
-    summary: skill.summary,
-    inputs: skill.inputs,
-    outputs: skill.outputs,
-    steps: skill.steps,
-    risks: skill.risks,
-    triggers: skill.triggers,
-    guardrails: skill.guardrails,
-    tests: skill.tests,
-    tags: skillData.tags,
-    allowed_tools: (skill.guardrails as unknown as SkillData['guardrails']).allowed_tools,
-    disable_model_invocation: (skill.guardrails as unknown as SkillData['guardrails']).disable_model_invocation,
-    user_invocable: (skill.guardrails as unknown as SkillData['guardrails']).user_invocable,
-  })
+  return NextResponse.json(
+    {
+      name: skillData.slug,
+      description,
+      title: skillData.title,
+      summary: skillData.summary,
+      inputs: skillData.inputs,
+      outputs: skillData.outputs,
+      steps: skillData.steps,
+      risks: skillData.risks,
+      triggers: skillData.triggers,
+      guardrails: skillData.guardrails,
+      tests: skillData.tests,
+      tags: skillData.tags,
+      allowed_tools: skillData.guardrails.allowed_tools,
+      disable_model_invocation: skillData.guardrails.disable_model_invocation,
+      user_invocable: skillData.guardrails.user_invocable,
+    },
+    { headers: exportSourceHeaders(result.source) }
+  )
 }
@@ -1,41 +1,33 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
+import { requireReader } from '@/lib/auth'
 import { renderSkillMarkdown } from '@/lib/markdown'
 import { lintSkill } from '@/lib/lint'
-import type { SkillData } from '@/lib/types'
+import { exportSourceHeaders, loadSkillExportSource, parseExportSelector } from '@/lib/skill-export-source'
 
 export const runtime = 'nodejs'
 
 type RouteParams = { params: Promise<{ id: string }> }
 
-function toSkillData(dbSkill: Record<string, unknown>): SkillData {
-  return {
-    id: dbSkill.id as number,
-    title: dbSkill.title as string,
-    slug: dbSkill.slug as string,
-    summary: dbSkill.summary as string,
-    inputs: dbSkill.inputs as string,
-    outputs: dbSkill.outputs as string,
-    steps: dbSkill.steps as string[],
-    risks: dbSkill.risks as string,
-    triggers: dbSkill.triggers as string[],
-    guardrails: dbSkill.guardrails as SkillData['guardrails'],
-    tests: dbSkill.tests as SkillData['tests'],
-  }
-}
-
 /**
- * GET /api/skills/:id/export.md - 导出为 Markdown
+ * GET /api/skills/:id/export.md - 导出为 Markdown（?channel= 导出渠道指向的版本）
  */
-export async function GET(_request: NextRequest, { params }: RouteParams) {
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  const reader = await requireReader(prisma, request)
+  if (!reader.ok) return NextResponse.json({ error: reader.error }, { status: reader.status })
+
   const { id } = await params
-  const skill = await prisma.skill.findUnique({ where: { id: Number(id) } })
+  const selector = parseExportSelector(new URL(request.url).searchParams)
+  if ('error' in selector) {
+    return NextResponse.json({ error: selector.error }, { status: 400 })
+  }
 
-  if (!skill) {
-    return NextResponse.json({ error: 'Skill not found' }, { status: 404 })
+  const result = await loadSkillExportSource(Number(id), selector)
+  if (!result.ok) {
+    return NextResponse.json({ error: result.error }, { status: result.status })
   }
 
-  const skillData = toSkillData(skill as unknown as Record<string, unknown>)
+  const { skillData } = result.source
   const lint = lintSkill(skillData)
 
   if (!lint.valid) {
@@ -52,6 +44,7 @@ export async function GET(_request: NextRequest, { params }: RouteParams) {
     headers: {
       'Content-Type': 'text/markdown; charset=utf-8',
       'Content-Disposition': `attachment; filename="${skillData.slug}.md"`,
+      ...exportSourceHeaders(result.source),
     },
   })
 }
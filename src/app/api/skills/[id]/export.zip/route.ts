@@ -1,8 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
+import { requireReader } from '@/lib/auth'
 import { renderSkillMarkdown } from '@/lib/markdown'
 import { lintSkillPackage } from '@/lib/lint'
-import type { SkillData } from '@/lib/types'
+import { exportSourceHeaders, loadSkillExportSource, parseExportSelector } from '@/lib/skill-export-source'
 import archiver from 'archiver'
 import { PassThrough } from 'stream'
 
@@ -11,34 +12,26 @@ export const runtime = 'nodejs'
 type RouteParams = { params: Promise<{ id: string }> }
 
 /**
- * GET /api/skills/:id/export.zip - 导出为 Claude Code Skills 合规 zip 包（含 supporting files）
+ * GET /api/skills/:id/export.zip - 导出为 Claude Code Skills 合规 zip 包（含 supporting files，?channel= 导出渠道指向的版本）
  */
-export async function GET(_request: NextRequest, { params }: RouteParams) {
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  const reader = await requireReader(prisma, request)
+  if (!reader.ok) return NextResponse.json({ error: reader.error }, { status: reader.status })
+
   const { id } = await params
-  const skill = await prisma.skill.findUnique({ where: { id: Number(id) } })
+  const selector = parseExportSelector(new URL(request.url).searchParams)
+  if ('error' in selector) {
+    return NextResponse.json({ error: selector.error }, { status: 400 })
+  }
 
-  if (!skill) {
-    return NextResponse.json({ error: 'Skill not found' }, { status: 404 })
+  const result = await loadSkillExportSource(Number(id), selector, { withFiles: true })
+  if (!result.ok) {
+    return NextResponse.json({ error: result.error }, { status: result.status })
   }
 
-  // 获取 supporting files
-  const files = await prisma.skillFile.findMany({ where: { skillId: skill.id } })
+  const { skillData, files } = result.source
   const filePaths = files.map((f) => f.path)
 
-  const skillData: SkillData = {
-    id: skill.id,
-    title: skill.title,
-    slug: skill.slug,
-    summary: skill.summary,
-    inputs: skill.inputs,
-    outputs: skill.outputs,
-    steps: skill.steps as string[],
-    risks: skill.risks,
-    triggers: skill.triggers as string[],
-    guardrails: skill.guardrails as unknown as SkillData['guardrails'],
-    tests: skill.tests as unknown as SkillData['tests'],
-  }
-
   // Lint gate（含 supporting files 校验）
   const lint = lintSkillPackage(skillData, filePaths)
   if (!lint.valid) {
@@ -49,7 +42,7 @@ export async function GET(_request: NextRequest, { params }: RouteParams) {
   }
 
   const md = renderSkillMarkdown(skillData, filePaths)
-  const slug = skill.slug
+  const slug = skillData.slug
 
   // 使用 archiver 创建 zip 流
   const archive = archiver('zip', { zlib: { level: 9 } })
@@ -89,6 +82,7 @@ export async function GET(_request: NextRequest, { params }: RouteParams) {
     headers: {
       'Content-Type': 'application/zip',
       'Content-Disposition': `attachment; filename="${slug}.zip"`,
+      ...exportSourceHeaders(result.source),
     },
   })
 }
@@ -1,6 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
 import { validateSkillFilePath } from '@/lib/skill-files'
+import { requireActor, requireReader } from '@/lib/auth'
+import { recordAuditEvent } from '@/lib/audit'
+import { authorizeSkill } from '@/lib/permissions'
 
 export const runtime = 'nodejs'
 
@@ -19,12 +22,21 @@ function parseSkillId(rawId: string): number | null {
   return skillId
 }
 
+function fileSize(file: { isBinary: boolean; contentText: string | null; contentBytes: Uint8Array | null }): number {
+  return file.isBinary
+    ? (file.contentBytes ? Buffer.from(file.contentBytes).length : 0)
+    : (file.contentText ? Buffer.byteLength(file.contentText, 'utf-8') : 0)
+}
+
 /**
  * GET /api/skills/:id/files
  * - 无 path query: 返回文件列表
  * - 有 path query: 返回指定文件内容
  */
 export async function GET(request: NextRequest, { params }: RouteParams) {
+  const reader = await requireReader(prisma, request)
+  if (!reader.ok) return NextResponse.json({ error: reader.error }, { status: reader.status })
+
   const { id } = await params
   const skillId = parseSkillId(id)
   if (!skillId) return NextResponse.json({ error: 'Invalid skill id' }, { status: 400 })
@@ -59,10 +71,9 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
       path: f.path,
       mime: f.mime,
       isBinary: f.isBinary,
-      size: f.isBinary
-        ? (f.contentBytes ? Buffer.from(f.contentBytes).length : 0)
-        : (f.contentText ? Buffer.byteLength(f.contentText, 'utf-8') : 0),
+      size: fileSize(f),
       updatedAt: f.updatedAt,
+      updatedBy: f.updatedBy,
     }))
   )
 }
@@ -71,9 +82,14 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
  * POST /api/skills/:id/files - 创建文件
  */
 export async function POST(request: NextRequest, { params }: RouteParams) {
+  const auth = await requireActor(prisma, request)
+  if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: auth.status })
+
   const { id } = await params
   const skillId = parseSkillId(id)
   if (!skillId) return NextResponse.json({ error: 'Invalid skill id' }, { status: 400 })
+  const access = await authorizeSkill(prisma, auth, 'skill:edit', skillId)
+  if (!access.ok) return NextResponse.json({ error: access.error }, { status: access.status })
   const skill = await prisma.skill.findUnique({ where: { id: skillId } })
   if (!skill) return NextResponse.json({ error: 'Skill not found' }, { status: 404 })
 
@@ -116,15 +132,28 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
 
   let file
   try {
-    file = await prisma.skillFile.create({
-      data: {
+    file = await prisma.$transaction(async (tx) => {
+      const created = await tx.skillFile.create({
+        data: {
+          skillId: skill.id,
+          path: filePath,
+          mime: mime || 'application/octet-stream',
+          isBinary: !!isBinary,
+          contentText: isBinary ? null : content,
+          contentBytes: isBinary ? Buffer.from(content, 'base64') : null,
+          createdBy: auth.actor,
+          updatedBy: auth.actor,
+        },
+      })
+      await recordAuditEvent(tx, request, auth.actor, {
+        action: 'file.create',
+        entityType: 'file',
+        entityId: created.id,
+        entityLabel: `${skill.slug}/${created.path}`,
         skillId: skill.id,
-        path: filePath,
-        mime: mime || 'application/octet-stream',
-        isBinary: !!isBinary,
-        contentText: isBinary ? null : content,
-        contentBytes: isBinary ? Buffer.from(content, 'base64') : null,
-      },
+        after: { path: created.path, mime: created.mime, size: fileSize(created) },
+      })
+      return created
     })
   } catch (err) {
     if (isPrismaCode(err, 'P2002')) {
@@ -143,9 +172,14 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
  * PUT /api/skills/:id/files?path=... - 更新文件内容
  */
 export async function PUT(request: NextRequest, { params }: RouteParams) {
+  const auth = await requireActor(prisma, request)
+  if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: auth.status })
+
   const { id } = await params
   const skillId = parseSkillId(id)
   if (!skillId) return NextResponse.json({ error: 'Invalid skill id' }, { status: 400 })
+  const access = await authorizeSkill(prisma, auth, 'skill:edit', skillId)
+  if (!access.ok) return NextResponse.json({ error: access.error }, { status: access.status })
   const skill = await prisma.skill.findUnique({ where: { id: skillId } })
   if (!skill) return NextResponse.json({ error: 'Skill not found' }, { status: 404 })
 
@@ -169,7 +203,7 @@ export async function PUT(request: NextRequest, { params }: RouteParams) {
   })
   if (!existing) return NextResponse.json({ error: 'File not found' }, { status: 404 })
 
-  const updateData: Record<string, unknown> = {}
+  const updateData: Record<string, unknown> = { updatedBy: auth.actor }
   if (existing.isBinary) {
     const bytes = Buffer.from(content, 'base64')
     if (bytes.length > BINARY_MAX) {
@@ -183,9 +217,21 @@ export async function PUT(request: NextRequest, { params }: RouteParams) {
     updateData.contentText = content
   }
 
-  const updated = await prisma.skillFile.update({
-    where: { skillId_path: { skillId: skill.id, path: filePath } },
-    data: updateData,
+  const updated = await prisma.$transaction(async (tx) => {
+    const row = await tx.skillFile.update({
+      where: { skillId_path: { skillId: skill.id, path: filePath } },
+      data: updateData,
+    })
+    await recordAuditEvent(tx, request, auth.actor, {
+      action: 'file.update',
+      entityType: 'file',
+      entityId: row.id,
+      entityLabel: `${skill.slug}/${row.path}`,
+      skillId: skill.id,
+      before: { path: existing.path, size: fileSize(existing) },
+      after: { path: row.path, size: fileSize(row) },
+    })
+    return row
   })
 
   return NextResponse.json({
@@ -202,9 +248,14 @@ export async function PUT(request: NextRequest, { params }: RouteParams) {
  * PATCH /api/skills/:id/files - 重命名/移动文件
  */
 export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  const auth = await requireActor(prisma, request)
+  if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: auth.status })
+
   const { id } = await params
   const skillId = parseSkillId(id)
   if (!skillId) return NextResponse.json({ error: 'Invalid skill id' }, { status: 400 })
+  const access = await authorizeSkill(prisma, auth, 'skill:edit', skillId)
+  if (!access.ok) return NextResponse.json({ error: access.error }, { status: access.status })
   const skill = await prisma.skill.findUnique({ where: { id: skillId } })
   if (!skill) return NextResponse.json({ error: 'Skill not found' }, { status: 404 })
 
@@ -237,9 +288,21 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
   if (!existing) return NextResponse.json({ error: 'File not found' }, { status: 404 })
 
   try {
-    const moved = await prisma.skillFile.update({
-      where: { skillId_path: { skillId: skill.id, path: fromPath } },
-      data: { path: toPath },
+    const moved = await prisma.$transaction(async (tx) => {
+      const row = await tx.skillFile.update({
+        where: { skillId_path: { skillId: skill.id, path: fromPath } },
+        data: { path: toPath, updatedBy: auth.actor },
+      })
+      await recordAuditEvent(tx, request, auth.actor, {
+        action: 'file.rename',
+        entityType: 'file',
+        entityId: row.id,
+        entityLabel: `${skill.slug}/${row.path}`,
+        skillId: skill.id,
+        before: { path: fromPath },
+        after: { path: row.path },
+      })
+      return row
     })
 
     return NextResponse.json({
@@ -261,9 +324,14 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
  * DELETE /api/skills/:id/files?path=... - 删除文件
  */
 export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  const auth = await requireActor(prisma, request)
+  if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: auth.status })
+
   const { id } = await params
   const skillId = parseSkillId(id)
   if (!skillId) return NextResponse.json({ error: 'Invalid skill id' }, { status: 400 })
+  const access = await authorizeSkill(prisma, auth, 'skill:edit', skillId)
+  if (!access.ok) return NextResponse.json({ error: access.error }, { status: access.status })
   const skill = await prisma.skill.findUnique({ where: { id: skillId } })
   if (!skill) return NextResponse.json({ error: 'Skill not found' }, { status: 404 })
 
@@ -272,8 +340,18 @@ export async function DELETE(request: NextRequest, { params }: RouteParams) {
   if (!filePath) return NextResponse.json({ error: 'path query required' }, { status: 400 })
 
   try {
-    await prisma.skillFile.delete({
-      where: { skillId_path: { skillId: skill.id, path: filePath } },
+    await prisma.$transaction(async (tx) => {
+      const deleted = await tx.skillFile.delete({
+        where: { skillId_path: { skillId: skill.id, path: filePath } },
+      })
+      await recordAuditEvent(tx, request, auth.actor, {
+        action: 'file.delete',
+        entityType: 'file',
+        entityId: deleted.id,
+        entityLabel: `${skill.slug}/${deleted.path}`,
+        skillId: skill.id,
+        before: { path: deleted.path, mime: deleted.mime, size: fileSize(deleted) },
+      })
     })
   } catch (err) {
     if (isPrismaCode(err, 'P2025')) {
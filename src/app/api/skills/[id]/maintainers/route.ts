@@ -0,0 +1,106 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod/v4'
+import { prisma } from '@/lib/prisma'
+import { loadActorNames, requireActor, requireReader } from '@/lib/auth'
+import { recordAuditEvent } from '@/lib/audit'
+import { authorizeSkill, loadSkillAccess, type SkillAccess } from '@/lib/permissions'
+
+export const runtime = 'nodejs'
+
+type RouteParams = { params: Promise<{ id: string }> }
+
+const MAX_MAINTAINERS = 20
+
+const updateMaintainersSchema = z.object({
+  owner: z.string().trim().min(1).max(150).optional(),
+  maintainers: z.array(z.string().trim().min(1).max(150)).max(MAX_MAINTAINERS),
+})
+
+function parsePositiveId(raw: string): number | null {
+  const id = Number(raw)
+  if (!Number.isInteger(id) || id <= 0) return null
+  return id
+}
+
+async function toMaintainersResponse(access: SkillAccess) {
+  const names = await loadActorNames(prisma, [access.owner, ...access.maintainers])
+  const person = (username: string) => ({ username, displayName: names.get(username) ?? null })
+  return { owner: person(access.owner), maintainers: access.maintainers.map(person) }
+}
+
+/**
+ * GET /api/skills/:id/maintainers - 负责人与共同维护人
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  const reader = await requireReader(prisma, request)
+  if (!reader.ok) return NextResponse.json({ error: reader.error }, { status: reader.status })
+
+  const { id } = await params
+  const skillId = parsePositiveId(id)
+  if (!skillId) return NextResponse.json({ error: 'Invalid skill id' }, { status: 400 })
+
+  const access = await loadSkillAccess(prisma, skillId)
+  if (!access) return NextResponse.json({ error: 'Skill not found' }, { status: 404 })
+  return NextResponse.json(await toMaintainersResponse(access))
+}
+
+/**
+ * PUT /api/skills/:id/maintainers
+ * body: { owner?, maintainers: string[] }（username），整体替换共同维护人；负责人与 admin 可调用
+ */
+export async function PUT(request: NextRequest, { params }: RouteParams) {
+  const auth = await requireActor(prisma, request)
+  if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: auth.status })
+
+  const { id } = await params
+  const skillId = parsePositiveId(id)
+  if (!skillId) return NextResponse.json({ error: 'Invalid skill id' }, { status: 400 })
+  const access = await authorizeSkill(prisma, auth, 'skill:maintainers', skillId)
+  if (!access.ok) return NextResponse.json({ error: access.error }, { status: access.status })
+
+  let body: unknown
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 })
+  }
+  const parsed = updateMaintainersSchema.safeParse(body)
+  if (!parsed.success) {
+    return NextResponse.json({ error: 'Validation failed', details: parsed.error.issues }, { status: 400 })
+  }
+
+  const current = await loadSkillAccess(prisma, skillId)
+  if (!current) return NextResponse.json({ error: 'Skill not found' }, { status: 404 })
+  const owner = parsed.data.owner ?? current.owner
+  const maintainers = [...new Set(parsed.data.maintainers)].filter((username) => username !== owner)
+
+  // 只能指定已存在的账号；负责人未变更时允许保留 SYS 等历史值
+  const requested = owner === current.owner ? maintainers : [owner, ...maintainers]
+  const names = await loadActorNames(prisma, requested)
+  const unknown = requested.filter((username) => !names.has(username))
+  if (unknown.length > 0) {
+    return NextResponse.json({ error: `Unknown users: ${unknown.join(', ')}` }, { status: 400 })
+  }
+
+  await prisma.$transaction(async (tx) => {
+    if (owner !== current.owner) {
+      await tx.skill.update({ where: { id: skillId }, data: { owner, updatedBy: auth.actor } })
+    }
+    await tx.skillMaintainer.deleteMany({ where: { skillId } })
+    if (maintainers.length > 0) {
+      await tx.skillMaintainer.createMany({
+        data: maintainers.map((username) => ({ skillId, username, createdBy: auth.actor })),
+      })
+    }
+    await recordAuditEvent(tx, request, auth.actor, {
+      action: 'skill.maintainers',
+      entityType: 'skill',
+      entityId: skillId,
+      skillId,
+      before: { owner: current.owner, maintainers: current.maintainers },
+      after: { owner, maintainers },
+    })
+  })
+
+  return NextResponse.json(await toMaintainersResponse({ owner, maintainers }))
+}
@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { requireReader } from '@/lib/auth'
+import {
+  hasProposalLog,
+  isProposalLogSchemaNotReadyError,
+  PROPOSAL_LOG_NOT_READY_MESSAGE,
+  toProposalLogResponse,
+} from '@/lib/ai/proposal-log'
+
+export const runtime = 'nodejs'
+
+type RouteParams = { params: Promise<{ id: string; proposalId: string }> }
+
+function parsePositiveId(raw: string): number | null {
+  const id = Number(raw)
+  if (!Number.isInteger(id) || id <= 0) return null
+  return id
+}
+
+/**
+ * GET /api/skills/:id/proposals/:proposalId - 提案详情（含 prompt 快照与完整 ChangeSet）
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  const reader = await requireReader(prisma, request)
+  if (!reader.ok) return NextResponse.json({ error: reader.error }, { status: reader.status })
+
+  if (!hasProposalLog(prisma)) {
+    return NextResponse.json({ error: PROPOSAL_LOG_NOT_READY_MESSAGE }, { status: 503 })
+  }
+
+  const { id, proposalId } = await params
+  const skillId = parsePositiveId(id)
+  const currentProposalId = parsePositiveId(proposalId)
+  if (!skillId || !currentProposalId) {
+    return NextResponse.json({ error: 'Invalid proposal id' }, { status: 400 })
+  }
+
+  try {
+    const proposal = await prisma.proposalLog.findUnique({
+      where: { id: currentProposalId },
+      include: { skillVersion: { select: { id: true, version: true } } },
+    })
+    if (!proposal || proposal.skillId !== skillId) {
+      return NextResponse.json({ error: 'Proposal not found' }, { status: 404 })
+    }
+    return NextResponse.json(toProposalLogResponse(proposal, true))
+  } catch (err) {
+    if (isProposalLogSchemaNotReadyError(err)) {
+      return NextResponse.json({ error: PROPOSAL_LOG_NOT_READY_MESSAGE }, { status: 503 })
+    }
+    throw err
+  }
+}
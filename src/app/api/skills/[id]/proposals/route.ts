@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { requireReader } from '@/lib/auth'
+import {
+  hasProposalLog,
+  isProposalLogSchemaNotReadyError,
+  PROPOSAL_LOG_NOT_READY_MESSAGE,
+  toProposalLogResponse,
+} from '@/lib/ai/proposal-log'
+
+export const runtime = 'nodejs'
+
+type RouteParams = { params: Promise<{ id: string }> }
+
+const DEFAULT_PAGE = 1
+const DEFAULT_LIMIT = 20
+const MAX_LIMIT = 50
+
+function parsePositiveInt(raw: string | null, fallback: number): number {
+  if (!raw) return fallback
+  const value = Number(raw)
+  if (!Number.isInteger(value) || value <= 0) return fallback
+  return value
+}
+
+function parseSkillId(rawId: string): number | null {
+  const skillId = Number(rawId)
+  if (!Number.isInteger(skillId) || skillId <= 0) return null
+  return skillId
+}
+
+/**
+ * GET /api/skills/:id/proposals - AI 提案时间线（新 → 旧）
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  const reader = await requireReader(prisma, request)
+  if (!reader.ok) return NextResponse.json({ error: reader.error }, { status: reader.status })
+
+  if (!hasProposalLog(prisma)) {
+    return NextResponse.json({ error: PROPOSAL_LOG_NOT_READY_MESSAGE }, { status: 503 })
+  }
+
+  const { id } = await params
+  const skillId = parseSkillId(id)
+  if (!skillId) return NextResponse.json({ error: 'Invalid skill id' }, { status: 400 })
+
+  const skill = await prisma.skill.findUnique({ where: { id: skillId } })
+  if (!skill) return NextResponse.json({ error: 'Skill not found' }, { status: 404 })
+
+  const { searchParams } = new URL(request.url)
+  const page = parsePositiveInt(searchParams.get('page'), DEFAULT_PAGE)
+  const limit = Math.min(parsePositiveInt(searchParams.get('limit'), DEFAULT_LIMIT), MAX_LIMIT)
+
+  try {
+    const [items, total] = await Promise.all([
+      prisma.proposalLog.findMany({
+        where: { skillId },
+        orderBy: { createdAt: 'desc' },
+        include: { skillVersion: { select: { id: true, version: true } } },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      prisma.proposalLog.count({ where: { skillId } }),
+    ])
+    return NextResponse.json({
+      items: items.map((item) => toProposalLogResponse(item)),
+      total,
+      page,
+      limit,
+      totalPages: Math.max(1, Math.ceil(total / limit)),
+    })
+  } catch (err) {
+    if (isProposalLogSchemaNotReadyError(err)) {
+      return NextResponse.json({ error: PROPOSAL_LOG_NOT_READY_MESSAGE }, { status: 503 })
+    }
+    throw err
+  }
+}
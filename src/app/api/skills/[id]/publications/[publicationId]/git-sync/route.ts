@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { requireActor } from '@/lib/auth'
+import { recordAuditEvent } from '@/lib/audit'
+import { authorizeSkill } from '@/lib/permissions'
+import { GIT_SYNC_NOT_CONFIGURED_MESSAGE, resolveGitSyncConfig } from '@/lib/git-sync'
+import { isStablePublication, syncPublicationToGit } from '@/lib/publication-git-sync'
+import {
+  hasSkillPublication,
+  isVersioningSchemaNotReadyError,
+  VERSIONING_NOT_READY_MESSAGE,
+} from '@/lib/skill-versioning'
+
+export const runtime = 'nodejs'
+
+type RouteParams = { params: Promise<{ id: string; publicationId: string }> }
+
+function parsePositiveId(raw: string): number | null {
+  const id = Number(raw)
+  if (!Number.isInteger(id) || id <= 0) return null
+  return id
+}
+
+/**
+ * POST /api/skills/:id/publications/:publicationId/git-sync
+ * 重新把该发布记录同步到 Git 仓库（发布时同步失败或后来才配置 GIT_SYNC_REPO），仅限 stable 渠道的发布记录
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  if (!hasSkillPublication(prisma)) {
+    return NextResponse.json({ error: VERSIONING_NOT_READY_MESSAGE }, { status: 503 })
+  }
+  const config = resolveGitSyncConfig()
+  if (!config) {
+    return NextResponse.json({ error: GIT_SYNC_NOT_CONFIGURED_MESSAGE }, { status: 503 })
+  }
+
+  const auth = await requireActor(prisma, request)
+  if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: auth.status })
+
+  const { id, publicationId: rawPublicationId } = await params
+  const skillId = parsePositiveId(id)
+  if (!skillId) return NextResponse.json({ error: 'Invalid skill id' }, { status: 400 })
+  const access = await authorizeSkill(prisma, auth, 'skill:publish', skillId)
+  if (!access.ok) return NextResponse.json({ error: access.error }, { status: access.status })
+  const publicationId = parsePositiveId(rawPublicationId)
+  if (!publicationId) return NextResponse.json({ error: 'Invalid publication id' }, { status: 400 })
+
+  try {
+    const publication = await prisma.skillPublication.findUnique({ where: { id: publicationId } })
+    if (!publication || publication.skillId !== skillId) {
+      return NextResponse.json({ error: 'Publication not found' }, { status: 404 })
+    }
+    if (!isStablePublication(publication)) {
+      return NextResponse.json({ error: 'Only stable publications are synced to Git' }, { status: 409 })
+    }
+  } catch (err) {
+    if (isVersioningSchemaNotReadyError(err)) {
+      return NextResponse.json({ error: VERSIONING_NOT_READY_MESSAGE }, { status: 503 })
+    }
+    console.error('POST /api/skills/:id/publications/:publicationId/git-sync error:', err)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+
+  const result = await syncPublicationToGit(skillId, publicationId, config)
+  if (result.status === 'failed') {
+    return NextResponse.json({ error: 'Git sync failed', details: result.error }, { status: 502 })
+  }
+  if (result.status === 'synced') {
+    // Git 提交已推送、无法回滚，这里审计写入失败只记日志
+    try {
+      await recordAuditEvent(prisma, request, auth.actor, {
+        action: 'skill.git_sync',
+        entityType: 'skill',
+        entityId: skillId,
+        skillId,
+        after: { publicationId, commitSha: result.commitSha, changed: result.changed },
+      })
+    } catch (err) {
+      console.error('POST /api/skills/:id/publications/:publicationId/git-sync audit error:', err)
+    }
+  }
+  return NextResponse.json(result)
+}
@@ -5,6 +5,8 @@ import {
   isVersioningSchemaNotReadyError,
   VERSIONING_NOT_READY_MESSAGE,
 } from '@/lib/skill-versioning'
+import { loadActorNames, requireReader } from '@/lib/auth'
+import { resolveGitSyncConfig } from '@/lib/git-sync'
 
 export const runtime = 'nodejs'
 
@@ -19,7 +21,10 @@ function parsePositiveId(raw: string): number | null {
 /**
  * GET /api/skills/:id/publications
  */
-export async function GET(_request: NextRequest, { params }: RouteParams) {
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  const reader = await requireReader(prisma, request)
+  if (!reader.ok) return NextResponse.json({ error: reader.error }, { status: reader.status })
+
   if (!hasSkillPublication(prisma)) {
     return NextResponse.json({ error: VERSIONING_NOT_READY_MESSAGE }, { status: 503 })
   }
@@ -35,8 +40,12 @@ export async function GET(_request: NextRequest, { params }: RouteParams) {
     id: number
     skillId: number
     skillVersionId: number
+    channel: string | null
     note: string | null
+    gitCommitSha: string | null
+    gitSyncedAt: Date | null
     publishedAt: Date
+    createdBy: string
     skillVersion: { version: number }
   }>
   try {
@@ -60,15 +69,22 @@ export async function GET(_request: NextRequest, { params }: RouteParams) {
     throw err
   }
 
+  const actorNames = await loadActorNames(prisma, publications.map((item) => item.createdBy))
   return NextResponse.json({
     items: publications.map((item) => ({
       id: item.id,
       skillId: item.skillId,
       versionId: item.skillVersionId,
       version: item.skillVersion.version,
+      channel: item.channel,
       note: item.note,
+      gitCommitSha: item.gitCommitSha,
+      gitSyncedAt: item.gitSyncedAt ? item.gitSyncedAt.toISOString() : null,
       publishedAt: item.publishedAt.toISOString(),
+      createdBy: item.createdBy,
+      createdByName: actorNames.get(item.createdBy) ?? null,
     })),
     total: publications.length,
+    gitSync: { enabled: resolveGitSyncConfig() !== null },
   })
 }
@@ -8,6 +8,19 @@ import {
   toSkillSnapshot,
   VERSIONING_NOT_READY_MESSAGE,
 } from '@/lib/skill-versioning'
+import {
+  CHANNEL_NOT_READY_MESSAGE,
+  DEFAULT_PUBLISH_CHANNEL,
+  hasSkillChannels,
+  isChannelSchemaNotReadyError,
+  moveSkillChannel,
+  parseChannelName,
+} from '@/lib/skill-channels'
+import { syncPublicationToGit } from '@/lib/publication-git-sync'
+import { requireActor } from '@/lib/auth'
+import { recordAuditEvent } from '@/lib/audit'
+import { authorizeSkill } from '@/lib/permissions'
+import { hasSkillReviews, isVersionApproved, REVIEW_NOT_READY_MESSAGE, REVIEW_REQUIRED_MESSAGE } from '@/lib/skill-reviews'
 
 export const runtime = 'nodejs'
 
@@ -21,18 +34,32 @@ function parsePositiveId(raw: string): number | null {
 
 /**
  * POST /api/skills/:id/publish
- * body: { note?: string }
+ * body: { note?: string, channel?: string } — 发布最新版本并将渠道（默认 stable）指向它
+ * 配置了 GIT_SYNC_REPO 时随后提交到 Git 仓库，结果见响应中的 gitSync
+ * 须登录，且最新版本须已通过审核；审核状态在发布事务内按实际发布的版本校验
  */
 export async function POST(request: NextRequest, { params }: RouteParams) {
   if (!hasSkillVersioning(prisma) || !hasSkillPublication(prisma)) {
     return NextResponse.json({ error: VERSIONING_NOT_READY_MESSAGE }, { status: 503 })
   }
+  if (!hasSkillChannels(prisma)) {
+    return NextResponse.json({ error: CHANNEL_NOT_READY_MESSAGE }, { status: 503 })
+  }
+
+  const auth = await requireActor(prisma, request)
+  if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: auth.status })
 
   const { id } = await params
   const skillId = parsePositiveId(id)
   if (!skillId) return NextResponse.json({ error: 'Invalid skill id' }, { status: 400 })
+  if (!auth.user) return NextResponse.json({ error: 'Authentication required' }, { status: 401 })
+  const access = await authorizeSkill(prisma, auth, 'skill:publish', skillId)
+  if (!access.ok) return NextResponse.json({ error: access.error }, { status: access.status })
+  if (!hasSkillReviews(prisma)) {
+    return NextResponse.json({ error: REVIEW_NOT_READY_MESSAGE }, { status: 503 })
+  }
 
-  let body: { note?: string }
+  let body: { note?: string; channel?: string }
   try {
     body = await request.json()
   } catch {
@@ -50,6 +77,11 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
     return NextResponse.json({ error: 'Publish note is too long' }, { status: 400 })
   }
 
+  const channel = body.channel === undefined ? DEFAULT_PUBLISH_CHANNEL : parseChannelName(body.channel)
+  if (!channel) {
+    return NextResponse.json({ error: 'Invalid channel name' }, { status: 400 })
+  }
+
   try {
     const result = await prisma.$transaction(async (tx) => {
       let latestVersion = await tx.skillVersion.findFirst({
@@ -58,7 +90,7 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
       })
 
       if (!latestVersion) {
-        await createSkillVersionIfAvailable(tx, existing.id, toSkillSnapshot(existing))
+        await createSkillVersionIfAvailable(tx, existing.id, toSkillSnapshot(existing), undefined, auth.actor)
         latestVersion = await tx.skillVersion.findFirst({
           where: { skillId },
           orderBy: { version: 'desc' },
@@ -68,36 +100,60 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
       if (!latestVersion) {
         throw new Error('LATEST_VERSION_NOT_FOUND')
       }
+      if (!(await isVersionApproved(tx, latestVersion.id))) {
+        throw new Error('REVIEW_REQUIRED')
+      }
 
-      const publication = await tx.skillPublication.create({
-        data: {
-          skillId,
-          skillVersionId: latestVersion.id,
-          note: note || null,
-        },
+      const { publication } = await moveSkillChannel(tx, {
+        skillId,
+        name: channel,
+        skillVersionId: latestVersion.id,
+        note,
+        createdBy: auth.actor,
       })
 
       await tx.skill.update({
         where: { id: skillId },
-        data: { status: 'published' },
+        data: { status: 'published', updatedBy: auth.actor },
+      })
+      await recordAuditEvent(tx, request, auth.actor, {
+        action: 'skill.publish',
+        entityType: 'skill',
+        entityId: skillId,
+        entityLabel: existing.title,
+        skillId,
+        before: { status: existing.status },
+        after: { status: 'published', version: latestVersion.version, channel, publicationId: publication.id },
       })
 
       return { publication, version: latestVersion.version }
     })
 
+    // 非 stable 渠道的发布不动 Git 镜像
+    const gitSync =
+      channel === DEFAULT_PUBLISH_CHANNEL
+        ? await syncPublicationToGit(skillId, result.publication.id)
+        : ({ status: 'skipped' } as const)
+
     return NextResponse.json(
       {
         id: result.publication.id,
         skillId,
         version: result.version,
+        channel,
         note: result.publication.note,
+        createdBy: auth.actor,
         publishedAt: result.publication.publishedAt.toISOString(),
         skillStatus: 'published',
+        gitSync,
       },
       { status: 201 }
     )
   } catch (err) {
-    if (isVersioningSchemaNotReadyError(err)) {
+    if (err instanceof Error && err.message === 'REVIEW_REQUIRED') {
+      return NextResponse.json({ error: REVIEW_REQUIRED_MESSAGE }, { status: 409 })
+    }
+    if (isVersioningSchemaNotReadyError(err) || isChannelSchemaNotReadyError(err)) {
       return NextResponse.json({ error: VERSIONING_NOT_READY_MESSAGE }, { status: 503 })
     }
     console.error('POST /api/skills/:id/publish error:', err)
@@ -0,0 +1,190 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { loadActorNames, requireActor, requireReader } from '@/lib/auth'
+import { recordAuditEvent } from '@/lib/audit'
+import { authorizeSkill } from '@/lib/permissions'
+import {
+  createSkillVersionIfAvailable,
+  hasSkillVersioning,
+  isVersioningSchemaNotReadyError,
+  toSkillSnapshot,
+  VERSIONING_NOT_READY_MESSAGE,
+} from '@/lib/skill-versioning'
+import {
+  hasSkillReviews,
+  isReviewSchemaNotReadyError,
+  requiredApprovalsFor,
+  REVIEW_NOT_READY_MESSAGE,
+  reviewActors,
+  submitReviewSchema,
+  toSkillReviewResponse,
+} from '@/lib/skill-reviews'
+
+export const runtime = 'nodejs'
+
+type RouteParams = { params: Promise<{ id: string }> }
+
+const REVIEW_INCLUDE = {
+  skillVersion: { select: { version: true } },
+  decisions: true,
+} as const
+
+function parsePositiveId(raw: string): number | null {
+  const id = Number(raw)
+  if (!Number.isInteger(id) || id <= 0) return null
+  return id
+}
+
+/**
+ * GET /api/skills/:id/reviews - 审核历史（新到旧）与最新版本是否已通过审核（可发布）
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  const reader = await requireReader(prisma, request)
+  if (!reader.ok) return NextResponse.json({ error: reader.error }, { status: reader.status })
+
+  if (!hasSkillVersioning(prisma) || !hasSkillReviews(prisma)) {
+    return NextResponse.json({ error: REVIEW_NOT_READY_MESSAGE }, { status: 503 })
+  }
+
+  const { id } = await params
+  const skillId = parsePositiveId(id)
+  if (!skillId) return NextResponse.json({ error: 'Invalid skill id' }, { status: 400 })
+
+  const skill = await prisma.skill.findUnique({ where: { id: skillId }, select: { id: true } })
+  if (!skill) return NextResponse.json({ error: 'Skill not found' }, { status: 404 })
+
+  try {
+    const [reviews, latestVersion] = await Promise.all([
+      prisma.skillReview.findMany({
+        where: { skillId },
+        orderBy: { createdAt: 'desc' },
+        take: 20,
+        include: REVIEW_INCLUDE,
+      }),
+      prisma.skillVersion.findFirst({
+        where: { skillId },
+        orderBy: { version: 'desc' },
+        select: { id: true, version: true },
+      }),
+    ])
+    const actorNames = await loadActorNames(prisma, reviewActors(reviews))
+    const items = reviews.map((row) => toSkillReviewResponse(row, actorNames))
+    const latestApproved =
+      !!latestVersion && items.some((item) => item.versionId === latestVersion.id && item.status === 'approved')
+
+    return NextResponse.json({
+      items,
+      latestVersion: latestVersion?.version ?? null,
+      publishable: latestApproved,
+    })
+  } catch (err) {
+    if (isReviewSchemaNotReadyError(err)) {
+      return NextResponse.json({ error: REVIEW_NOT_READY_MESSAGE }, { status: 503 })
+    }
+    console.error('GET /api/skills/:id/reviews error:', err)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+/**
+ * POST /api/skills/:id/reviews
+ * body: { note?: string } — 为最新版本发起审核，同一 Skill 之前待审核的提交标记为 superseded
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  if (!hasSkillVersioning(prisma) || !hasSkillReviews(prisma)) {
+    return NextResponse.json({ error: REVIEW_NOT_READY_MESSAGE }, { status: 503 })
+  }
+
+  const auth = await requireActor(prisma, request)
+  if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: auth.status })
+
+  const { id } = await params
+  const skillId = parsePositiveId(id)
+  if (!skillId) return NextResponse.json({ error: 'Invalid skill id' }, { status: 400 })
+  const access = await authorizeSkill(prisma, auth, 'skill:edit', skillId)
+  if (!access.ok) return NextResponse.json({ error: access.error }, { status: access.status })
+
+  let body: unknown
+  try {
+    body = await request.json()
+  } catch {
+    body = {}
+  }
+  const parsed = submitReviewSchema.safeParse(body)
+  if (!parsed.success) {
+    return NextResponse.json({ error: 'Validation failed', details: parsed.error.issues }, { status: 400 })
+  }
+
+  const existing = await prisma.skill.findUnique({
+    where: { id: skillId },
+    include: { tags: { include: { tag: true } } },
+  })
+  if (!existing) return NextResponse.json({ error: 'Skill not found' }, { status: 404 })
+
+  try {
+    // 审核针对最新版本；从未生成过版本时先按当前内容建一个
+    let target: { id: number; guardrails: unknown } | null = null
+    const latestVersion = await prisma.skillVersion.findFirst({
+      where: { skillId },
+      orderBy: { version: 'desc' },
+    })
+    if (latestVersion) {
+      target = { id: latestVersion.id, guardrails: (latestVersion.snapshot as { guardrails?: unknown } | null)?.guardrails }
+    } else {
+      const snapshot = toSkillSnapshot(existing)
+      const created = await createSkillVersionIfAvailable(prisma, skillId, snapshot, undefined, auth.actor)
+      if (created) target = { id: created.id, guardrails: snapshot.guardrails }
+    }
+    if (!target) {
+      return NextResponse.json({ error: VERSIONING_NOT_READY_MESSAGE }, { status: 503 })
+    }
+    const skillVersionId = target.id
+
+    const current = await prisma.skillReview.findFirst({
+      where: { skillVersionId, status: { in: ['pending', 'approved'] } },
+      select: { status: true },
+    })
+    if (current) {
+      const error = current.status === 'approved' ? 'Version already approved' : 'Review already pending'
+      return NextResponse.json({ error }, { status: 409 })
+    }
+
+    const review = await prisma.$transaction(async (tx) => {
+      await tx.skillReview.updateMany({
+        where: { skillId, status: 'pending' },
+        data: { status: 'superseded', resolvedAt: new Date() },
+      })
+      const created = await tx.skillReview.create({
+        data: {
+          skillId,
+          skillVersionId,
+          requiredApprovals: requiredApprovalsFor(target.guardrails),
+          note: parsed.data.note || null,
+          createdBy: auth.actor,
+        },
+        include: REVIEW_INCLUDE,
+      })
+      await recordAuditEvent(tx, request, auth.actor, {
+        action: 'review.submit',
+        entityType: 'review',
+        entityId: created.id,
+        entityLabel: `${existing.title} v${created.skillVersion.version}`,
+        skillId,
+        after: { status: created.status, version: created.skillVersion.version, requiredApprovals: created.requiredApprovals },
+      })
+      return created
+    })
+
+    const actorNames = await loadActorNames(prisma, [auth.actor])
+    return NextResponse.json(toSkillReviewResponse(review, actorNames), { status: 201 })
+  } catch (err) {
+    if (isVersioningSchemaNotReadyError(err)) {
+      return NextResponse.json({ error: VERSIONING_NOT_READY_MESSAGE }, { status: 503 })
+    }
+    if (isReviewSchemaNotReadyError(err)) {
+      return NextResponse.json({ error: REVIEW_NOT_READY_MESSAGE }, { status: 503 })
+    }
+    console.error('POST /api/skills/:id/reviews error:', err)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
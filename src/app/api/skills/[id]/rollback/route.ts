@@ -3,12 +3,18 @@ import { prisma } from '@/lib/prisma'
 import { buildReplaceTagConnect, isServiceError } from '@/lib/tag-service'
 import {
   createSkillVersionIfAvailable,
+  hasSkillFileBlobs,
   hasSkillVersioning,
+  isSnapshotBlobMissingError,
   isVersioningSchemaNotReadyError,
   parseSkillSnapshot,
+  restoreSkillFiles,
   toSkillSnapshot,
   VERSIONING_NOT_READY_MESSAGE,
 } from '@/lib/skill-versioning'
+import { requireActor } from '@/lib/auth'
+import { recordAuditEvent, summarizeSkill } from '@/lib/audit'
+import { authorizeSkill } from '@/lib/permissions'
 
 export const runtime = 'nodejs'
 
@@ -33,9 +39,14 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
     return NextResponse.json({ error: VERSIONING_NOT_READY_MESSAGE }, { status: 503 })
   }
 
+  const auth = await requireActor(prisma, request)
+  if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: auth.status })
+
   const { id } = await params
   const skillId = parsePositiveId(id)
   if (!skillId) return NextResponse.json({ error: 'Invalid skill id' }, { status: 400 })
+  const access = await authorizeSkill(prisma, auth, 'skill:publish', skillId)
+  if (!access.ok) return NextResponse.json({ error: access.error }, { status: access.status })
 
   let body: { versionId?: number; reason?: string }
   try {
@@ -66,7 +77,7 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
   }
 
   try {
-    const tagConnect = await buildReplaceTagConnect(snapshot.tags)
+    const tagConnect = await buildReplaceTagConnect(snapshot.tags, auth.actor)
 
     const updated = await prisma.$transaction(async (tx) => {
       const skill = await tx.skill.update({
@@ -84,10 +95,29 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
           guardrails: snapshot.guardrails,
           tests: snapshot.tests,
           tags: tagConnect,
+          updatedBy: auth.actor,
         },
         include: { tags: { include: { tag: true } } },
       })
-      const createdVersion = await createSkillVersionIfAvailable(tx, skill.id, toSkillSnapshot(skill))
+      // 旧快照没有文件清单时保留当前文件
+      if (snapshot.files && hasSkillFileBlobs(tx)) {
+        await restoreSkillFiles(tx, skill.id, snapshot.files, auth.actor)
+      }
+      const createdVersion = await createSkillVersionIfAvailable(tx, skill.id, toSkillSnapshot(skill), 'rollback', auth.actor)
+      await recordAuditEvent(tx, request, auth.actor, {
+        action: 'skill.rollback',
+        entityType: 'skill',
+        entityId: skillId,
+        entityLabel: skill.title,
+        skillId,
+        before: summarizeSkill(existing),
+        after: {
+          ...summarizeSkill(skill),
+          rolledBackToVersion: targetVersion.version,
+          createdVersion: createdVersion?.version ?? null,
+          ...(typeof body.reason === 'string' && body.reason.trim() && { reason: body.reason.trim().slice(0, 500) }),
+        },
+      })
       return { skill, createdVersion }
     })
 
@@ -95,6 +125,7 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
       ...updated.skill,
       tags: updated.skill.tags.map((item) => item.tag.name),
       rolledBackFromVersionId: targetVersion.id,
+      restoredFiles: snapshot.files ? snapshot.files.map((file) => file.path) : null,
       createdVersion: updated.createdVersion?.version || null,
       reason: typeof body.reason === 'string' ? body.reason : undefined,
     })
@@ -102,6 +133,9 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
     if (isServiceError(err, 'TAG_NAME_INVALID')) {
       return NextResponse.json({ error: (err as Error).message }, { status: 400 })
     }
+    if (isSnapshotBlobMissingError(err)) {
+      return NextResponse.json({ error: (err as Error).message }, { status: 422 })
+    }
     if (isPrismaCode(err, 'P2002')) {
       return NextResponse.json({ error: 'Slug already exists' }, { status: 409 })
     }
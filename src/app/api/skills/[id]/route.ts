@@ -4,6 +4,12 @@ import { updateSkillSchema } from '@/lib/zod-schemas'
 import { slugify } from '@/lib/slugify'
 import { buildReplaceTagConnect, isServiceError } from '@/lib/tag-service'
 import { createSkillVersionIfAvailable, toSkillSnapshot } from '@/lib/skill-versioning'
+import { lintTriggerCollisions } from '@/lib/lint'
+import type { LintError } from '@/lib/types'
+import { loadTriggerSources } from '@/lib/trigger-collisions'
+import { requireActor, requireReader } from '@/lib/auth'
+import { recordAuditEvent, summarizeSkill } from '@/lib/audit'
+import { authorizeSkill, skillPermissions } from '@/lib/permissions'
 
 export const runtime = 'nodejs'
 
@@ -20,9 +26,12 @@ function parseSkillId(rawId: string): number | null {
 }
 
 /**
- * GET /api/skills/:id - 获取单个 Skill
+ * GET /api/skills/:id - 获取单个 Skill；maintainers 为共同维护人，permissions 为当前用户可执行的操作
  */
-export async function GET(_request: NextRequest, { params }: RouteParams) {
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  const reader = await requireReader(prisma, request)
+  if (!reader.ok) return NextResponse.json({ error: reader.error }, { status: reader.status })
+
   const { id } = await params
   const skillId = parseSkillId(id)
   if (!skillId) {
@@ -37,26 +46,39 @@ export async function GET(_request: NextRequest, { params }: RouteParams) {
     return NextResponse.json({ error: 'Skill not found' }, { status: 404 })
   }
 
+  const maintainers = await prisma.skillMaintainer.findMany({ where: { skillId }, select: { username: true } })
+  const access = { owner: skill.owner, maintainers: maintainers.map((item) => item.username) }
+
   return NextResponse.json({
     ...skill,
     tags: skill.tags.map((st) => st.tag.name),
+    maintainers: access.maintainers,
+    permissions: skillPermissions(reader, access),
   })
 }
 
 /**
- * PUT /api/skills/:id - 更新 Skill
+ * PUT /api/skills/:id - 更新 Skill，响应附带触发词冲突等 lint 提示（warnings）
  */
 export async function PUT(request: NextRequest, { params }: RouteParams) {
+  const auth = await requireActor(prisma, request)
+  if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: auth.status })
+
   const { id } = await params
   const skillId = parseSkillId(id)
   if (!skillId) {
     return NextResponse.json({ error: 'Invalid skill id' }, { status: 400 })
   }
+  const access = await authorizeSkill(prisma, auth, 'skill:edit', skillId)
+  if (!access.ok) return NextResponse.json({ error: access.error }, { status: access.status })
   try {
     const body = await request.json()
     const parsed = updateSkillSchema.parse(body)
 
-    const existing = await prisma.skill.findUnique({ where: { id: skillId } })
+    const existing = await prisma.skill.findUnique({
+      where: { id: skillId },
+      include: { tags: { include: { tag: true } } },
+    })
     if (!existing) {
       return NextResponse.json({ error: 'Skill not found' }, { status: 404 })
     }
@@ -70,33 +92,55 @@ export async function PUT(request: NextRequest, { params }: RouteParams) {
     }
 
     // Handle tags update
-    let tagConnect
-    if (parsed.tags) {
-      tagConnect = await buildReplaceTagConnect(parsed.tags)
-    }
+    const tagConnect = parsed.tags ? await buildReplaceTagConnect(parsed.tags, auth.actor) : undefined
 
-    const skill = await prisma.skill.update({
-      where: { id: skillId },
-      data: {
-        ...(parsed.title && { title: parsed.title }),
-        ...(parsed.title && { slug }),
-        ...(parsed.summary !== undefined && { summary: parsed.summary }),
-        ...(parsed.inputs !== undefined && { inputs: parsed.inputs }),
-        ...(parsed.outputs !== undefined && { outputs: parsed.outputs }),
-        ...(parsed.steps && { steps: parsed.steps }),
-        ...(parsed.risks !== undefined && { risks: parsed.risks }),
-        ...(parsed.triggers && { triggers: parsed.triggers }),
-        ...(parsed.guardrails && { guardrails: parsed.guardrails }),
-        ...(parsed.tests && { tests: parsed.tests }),
-        ...(tagConnect && { tags: tagConnect }),
-      },
-      include: { tags: { include: { tag: true } } },
+    // 只记请求里显式提交的字段，schema 默认值不算改动
+    const changedFields = Object.keys(parsed).filter((key) => key in body)
+    const skill = await prisma.$transaction(async (tx) => {
+      const updated = await tx.skill.update({
+        where: { id: skillId },
+        data: {
+          ...(parsed.title && { title: parsed.title }),
+          ...(parsed.title && { slug }),
+          ...(parsed.summary !== undefined && { summary: parsed.summary }),
+          ...(parsed.inputs !== undefined && { inputs: parsed.inputs }),
+          ...(parsed.outputs !== undefined && { outputs: parsed.outputs }),
+          ...(parsed.steps && { steps: parsed.steps }),
+          ...(parsed.risks !== undefined && { risks: parsed.risks }),
+          ...(parsed.triggers && { triggers: parsed.triggers }),
+          ...(parsed.guardrails && { guardrails: parsed.guardrails }),
+          ...(parsed.tests && { tests: parsed.tests }),
+          ...(tagConnect && { tags: tagConnect }),
+          updatedBy: auth.actor,
+        },
+        include: { tags: { include: { tag: true } } },
+      })
+      await createSkillVersionIfAvailable(tx, updated.id, toSkillSnapshot(updated), undefined, auth.actor)
+      await recordAuditEvent(tx, request, auth.actor, {
+        action: 'skill.update',
+        entityType: 'skill',
+        entityId: updated.id,
+        entityLabel: updated.title,
+        skillId: updated.id,
+        before: summarizeSkill(existing),
+        after: { ...summarizeSkill(updated), fields: changedFields },
+      })
+      return updated
     })
-    await createSkillVersionIfAvailable(prisma, skill.id, toSkillSnapshot(skill))
+    const snapshot = toSkillSnapshot(skill)
+    // 保存不受 lint 阻断；触发词冲突提示查询失败时退回空列表，不影响保存结果
+    let warnings: LintError[] = []
+    try {
+      const vaultSkills = await loadTriggerSources(prisma, { excludeSkillId: skill.id })
+      warnings = lintTriggerCollisions(snapshot, { vaultSkills, skillId: skill.id })
+    } catch (err) {
+      console.error('PUT /api/skills/:id trigger collision warnings error:', err)
+    }
 
     return NextResponse.json({
       ...skill,
       tags: skill.tags.map((st) => st.tag.name),
+      warnings,
     })
   } catch (err) {
     if (err instanceof Error && err.name === 'ZodError') {
@@ -116,17 +160,40 @@ export async function PUT(request: NextRequest, { params }: RouteParams) {
 /**
  * DELETE /api/skills/:id - 删除 Skill
  */
-export async function DELETE(_request: NextRequest, { params }: RouteParams) {
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  const auth = await requireActor(prisma, request)
+  if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: auth.status })
+
   const { id } = await params
   const skillId = parseSkillId(id)
   if (!skillId) {
     return NextResponse.json({ error: 'Invalid skill id' }, { status: 400 })
   }
-  const existing = await prisma.skill.findUnique({ where: { id: skillId } })
+  const access = await authorizeSkill(prisma, auth, 'skill:delete', skillId)
+  if (!access.ok) return NextResponse.json({ error: access.error }, { status: access.status })
+  const existing = await prisma.skill.findUnique({
+    where: { id: skillId },
+    include: { tags: { include: { tag: true } } },
+  })
   if (!existing) {
     return NextResponse.json({ error: 'Skill not found' }, { status: 404 })
   }
 
-  await prisma.skill.delete({ where: { id: skillId } })
+  try {
+    await prisma.$transaction(async (tx) => {
+      await tx.skill.delete({ where: { id: skillId } })
+      await recordAuditEvent(tx, request, auth.actor, {
+        action: 'skill.delete',
+        entityType: 'skill',
+        entityId: skillId,
+        entityLabel: existing.title,
+        skillId,
+        before: summarizeSkill(existing),
+      })
+    })
+  } catch (err) {
+    console.error('DELETE /api/skills/:id error:', err)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
   return NextResponse.json({ success: true })
 }
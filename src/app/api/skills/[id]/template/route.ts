@@ -0,0 +1,107 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { requireActor } from '@/lib/auth'
+import { recordAuditEvent } from '@/lib/audit'
+import { authorize } from '@/lib/permissions'
+import { normalizeTemplateContent, skillTemplateSchema, toSkillTemplateResponse } from '@/lib/skill-templates'
+
+export const runtime = 'nodejs'
+
+type RouteParams = { params: Promise<{ id: string }> }
+
+function isPrismaCode(err: unknown, code: string): boolean {
+  return !!err && typeof err === 'object' && 'code' in err && (err as { code?: string }).code === code
+}
+
+function parseSkillId(raw: string): number | null {
+  const id = Number(raw)
+  if (!Number.isInteger(id) || id <= 0) return null
+  return id
+}
+
+/**
+ * POST /api/skills/:id/template - 将当前 Skill 另存为模板
+ * 仅保存文本类 supporting files，二进制文件会在 skippedFiles 中返回
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  const auth = await requireActor(prisma, request)
+  if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: auth.status })
+  const access = authorize(auth, 'template:manage')
+  if (!access.ok) return NextResponse.json({ error: access.error }, { status: access.status })
+
+  const { id } = await params
+  const skillId = parseSkillId(id)
+  if (!skillId) return NextResponse.json({ error: 'Invalid skill id' }, { status: 400 })
+
+  let body: { name?: unknown; description?: unknown }
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 })
+  }
+
+  const skill = await prisma.skill.findUnique({
+    where: { id: skillId },
+    include: { tags: { include: { tag: true } } },
+  })
+  if (!skill) return NextResponse.json({ error: 'Skill not found' }, { status: 404 })
+
+  const files = await prisma.skillFile.findMany({ where: { skillId } })
+  const textFiles = files.filter((file) => !file.isBinary)
+  const skippedFiles = files.filter((file) => file.isBinary).map((file) => file.path)
+
+  const parsed = skillTemplateSchema.safeParse({
+    name: typeof body.name === 'string' && body.name.trim() ? body.name : skill.title,
+    description: typeof body.description === 'string' ? body.description : '',
+    payload: {
+      title: skill.title,
+      summary: skill.summary,
+      inputs: skill.inputs,
+      outputs: skill.outputs,
+      steps: skill.steps,
+      risks: skill.risks,
+      triggers: skill.triggers,
+      guardrails: skill.guardrails,
+      tests: skill.tests,
+    },
+    files: textFiles.map((file) => ({ path: file.path, mime: file.mime, content: file.contentText || '' })),
+    tags: skill.tags.map((item) => item.tag.name),
+  })
+  if (!parsed.success) {
+    return NextResponse.json({ error: 'Validation failed', details: parsed.error.issues }, { status: 400 })
+  }
+
+  const { name, description, ...rest } = parsed.data
+  const content = normalizeTemplateContent(rest)
+  try {
+    const template = await prisma.$transaction(async (tx) => {
+      const created = await tx.skillTemplate.create({
+        data: {
+          name,
+          description,
+          payload: content.payload,
+          files: content.files,
+          tags: content.tags,
+          createdBy: auth.actor,
+          updatedBy: auth.actor,
+        },
+      })
+      await recordAuditEvent(tx, request, auth.actor, {
+        action: 'template.create',
+        entityType: 'template',
+        entityId: created.id,
+        entityLabel: created.name,
+        skillId,
+        after: { name: created.name, fromSkill: skill.slug, files: content.files.length, tags: content.tags },
+      })
+      return created
+    })
+    return NextResponse.json({ ...toSkillTemplateResponse(template), skippedFiles }, { status: 201 })
+  } catch (err) {
+    if (isPrismaCode(err, 'P2002')) {
+      return NextResponse.json({ error: 'Template name already exists' }, { status: 409 })
+    }
+    console.error('POST /api/skills/:id/template error:', err)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
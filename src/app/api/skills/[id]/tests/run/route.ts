@@ -0,0 +1,117 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod/v4'
+import { prisma } from '@/lib/prisma'
+import { requireActor } from '@/lib/auth'
+import { authorizeSkill } from '@/lib/permissions'
+import { resolveChatProvider, resolveChatProviderName } from '@/lib/chat/providers'
+import type { ChatProviderAdapter } from '@/lib/chat/providers/types'
+import { toSkillDataFromRecord } from '@/lib/ai/skill-patch'
+import { resolveGrader, SKILL_TEST_GRADERS } from '@/lib/skill-test-graders'
+import { recordSkillTestRunIfAvailable, runSkillTests, toSkillTestRunResponse } from '@/lib/skill-test-runner'
+
+export const runtime = 'nodejs'
+
+type RouteParams = { params: Promise<{ id: string }> }
+
+const runSchema = z.object({
+  grader: z.enum(SKILL_TEST_GRADERS).default('contains'),
+  provider: z.enum(['anthropic', 'mock']).optional(),
+  // 只运行指定下标的用例，缺省运行全部
+  testIndexes: z.array(z.number().int().min(0)).optional(),
+})
+
+function parseSkillId(rawId: string): number | null {
+  const skillId = Number(rawId)
+  if (!Number.isInteger(skillId) || skillId <= 0) return null
+  return skillId
+}
+
+/**
+ * POST /api/skills/:id/tests/run
+ * 以已保存的 Skill 运行测试用例并按 grader 评分，结果写入 SkillTestRun
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  const auth = await requireActor(prisma, request)
+  if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: auth.status })
+
+  const { id } = await params
+  const skillId = parseSkillId(id)
+  if (!skillId) return NextResponse.json({ error: 'Invalid skill id' }, { status: 400 })
+  const access = await authorizeSkill(prisma, auth, 'skill:edit', skillId)
+  if (!access.ok) return NextResponse.json({ error: access.error }, { status: access.status })
+
+  let body: unknown
+  try {
+    const raw = await request.text()
+    body = raw ? JSON.parse(raw) : {}
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 })
+  }
+
+  const parsed = runSchema.safeParse(body)
+  if (!parsed.success) {
+    return NextResponse.json({ error: 'Validation failed', details: parsed.error.issues }, { status: 400 })
+  }
+
+  const skill = await prisma.skill.findUnique({
+    where: { id: skillId },
+    include: { tags: { include: { tag: true } } },
+  })
+  if (!skill) return NextResponse.json({ error: 'Skill not found' }, { status: 404 })
+
+  const skillData = toSkillDataFromRecord(skill)
+  const allTests = Array.isArray(skillData.tests) ? skillData.tests : []
+  const { grader: graderName, provider: requestedProvider, testIndexes } = parsed.data
+  if (testIndexes?.some((index) => index >= allTests.length)) {
+    return NextResponse.json({ error: 'Test index out of range' }, { status: 400 })
+  }
+  const tests = testIndexes ? testIndexes.map((index) => allTests[index]) : allTests
+  if (tests.length === 0) {
+    return NextResponse.json({ error: 'Skill has no tests' }, { status: 400 })
+  }
+
+  let provider: ChatProviderAdapter
+  try {
+    provider = resolveChatProvider(requestedProvider)
+  } catch (err) {
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : 'Chat provider unavailable' },
+      { status: 503 }
+    )
+  }
+  const providerName = resolveChatProviderName(requestedProvider)
+
+  try {
+    const files = await prisma.skillFile.findMany({ where: { skillId } })
+    const report = await runSkillTests({
+      skill: skillData,
+      filePaths: files.map((f) => f.path),
+      tests,
+      testIndexes,
+      provider,
+      grader: resolveGrader(graderName, provider),
+    })
+
+    const run = await recordSkillTestRunIfAvailable(prisma, {
+      skillId,
+      provider: providerName,
+      grader: graderName,
+      total: report.total,
+      passed: report.passed,
+      passRate: report.passRate,
+      durationMs: report.durationMs,
+      results: report.results,
+      createdBy: auth.actor,
+    })
+
+    return NextResponse.json({
+      run: run ? toSkillTestRunResponse(run) : null,
+      provider: providerName,
+      grader: graderName,
+      ...report,
+    })
+  } catch (err) {
+    console.error('POST /api/skills/:id/tests/run error:', err)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { requireReader } from '@/lib/auth'
+import {
+  hasSkillTestRuns,
+  isSkillTestRunSchemaNotReadyError,
+  SKILL_TEST_RUN_NOT_READY_MESSAGE,
+  toSkillTestRunResponse,
+} from '@/lib/skill-test-runner'
+
+export const runtime = 'nodejs'
+
+type RouteParams = { params: Promise<{ id: string; runId: string }> }
+
+function parsePositiveId(raw: string): number | null {
+  const id = Number(raw)
+  if (!Number.isInteger(id) || id <= 0) return null
+  return id
+}
+
+/**
+ * GET /api/skills/:id/tests/runs/:runId - 测试运行详情（含逐条输出与评分理由）
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  const reader = await requireReader(prisma, request)
+  if (!reader.ok) return NextResponse.json({ error: reader.error }, { status: reader.status })
+
+  if (!hasSkillTestRuns(prisma)) {
+    return NextResponse.json({ error: SKILL_TEST_RUN_NOT_READY_MESSAGE }, { status: 503 })
+  }
+
+  const { id, runId } = await params
+  const skillId = parsePositiveId(id)
+  const currentRunId = parsePositiveId(runId)
+  if (!skillId || !currentRunId) {
+    return NextResponse.json({ error: 'Invalid test run id' }, { status: 400 })
+  }
+
+  try {
+    const run = await prisma.skillTestRun.findUnique({ where: { id: currentRunId } })
+    if (!run || run.skillId !== skillId) {
+      return NextResponse.json({ error: 'Test run not found' }, { status: 404 })
+    }
+    return NextResponse.json(toSkillTestRunResponse(run, true))
+  } catch (err) {
+    if (isSkillTestRunSchemaNotReadyError(err)) {
+      return NextResponse.json({ error: SKILL_TEST_RUN_NOT_READY_MESSAGE }, { status: 503 })
+    }
+    throw err
+  }
+}
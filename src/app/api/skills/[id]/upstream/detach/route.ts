@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { requireActor } from '@/lib/auth'
+import { recordAuditEvent } from '@/lib/audit'
+import { authorizeSkill } from '@/lib/permissions'
+import { hasSkillUpstreamChanges, isUpstreamSchemaNotReadyError, UPSTREAM_NOT_READY_MESSAGE } from '@/lib/skill-drift'
+import { detachSkillFromUpstream } from '@/lib/skill-upstream'
+
+export const runtime = 'nodejs'
+
+type RouteParams = { params: Promise<{ id: string }> }
+
+function parsePositiveId(raw: string): number | null {
+  const id = Number(raw)
+  if (!Number.isInteger(id) || id <= 0) return null
+  return id
+}
+
+/**
+ * POST /api/skills/:id/upstream/detach - 脱离上游，之后的同步不再更新该 Skill
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  if (!hasSkillUpstreamChanges(prisma)) {
+    return NextResponse.json({ error: UPSTREAM_NOT_READY_MESSAGE }, { status: 503 })
+  }
+
+  const auth = await requireActor(prisma, request)
+  if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: auth.status })
+
+  const { id } = await params
+  const skillId = parsePositiveId(id)
+  if (!skillId) return NextResponse.json({ error: 'Invalid skill id' }, { status: 400 })
+  const access = await authorizeSkill(prisma, auth, 'skill:edit', skillId)
+  if (!access.ok) return NextResponse.json({ error: access.error }, { status: access.status })
+
+  try {
+    const result = await detachSkillFromUpstream(skillId, auth.actor, (tx, { dismissed }) =>
+      recordAuditEvent(tx, request, auth.actor, {
+        action: 'skill.upstream_detach',
+        entityType: 'skill',
+        entityId: skillId,
+        skillId,
+        before: { sourceManaged: true },
+        after: { sourceManaged: false, dismissedChanges: dismissed },
+      })
+    )
+    if (!result.ok) return NextResponse.json({ error: result.error }, { status: result.status })
+    return NextResponse.json(result.value)
+  } catch (err) {
+    if (isUpstreamSchemaNotReadyError(err)) {
+      return NextResponse.json({ error: UPSTREAM_NOT_READY_MESSAGE }, { status: 503 })
+    }
+    console.error('POST /api/skills/:id/upstream/detach error:', err)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,104 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod/v4'
+import { prisma } from '@/lib/prisma'
+import { requireActor } from '@/lib/auth'
+import { recordAuditEvent } from '@/lib/audit'
+import { authorizeSkill } from '@/lib/permissions'
+import {
+  hasSkillUpstreamChanges,
+  isUpstreamSchemaNotReadyError,
+  MERGE_FIELDS,
+  UPSTREAM_NOT_READY_MESSAGE,
+} from '@/lib/skill-drift'
+import { applyUpstreamMerge } from '@/lib/skill-upstream'
+import { isSnapshotBlobMissingError } from '@/lib/skill-versioning'
+
+export const runtime = 'nodejs'
+
+type RouteParams = { params: Promise<{ id: string }> }
+
+function parsePositiveId(raw: string): number | null {
+  const id = Number(raw)
+  if (!Number.isInteger(id) || id <= 0) return null
+  return id
+}
+
+const mergeSide = z.enum(['ours', 'theirs'])
+
+const mergeBodySchema = z.object({
+  changeId: z.number().int().positive(),
+  fields: z.partialRecord(z.enum(MERGE_FIELDS), mergeSide).optional(),
+  files: z.record(z.string().min(1), mergeSide).optional(),
+})
+
+/** 选择采用上游（theirs）的字段或文件 */
+function takenFromUpstream(resolutions: Record<string, string | undefined> = {}): string[] {
+  return Object.entries(resolutions).filter(([, side]) => side === 'theirs').map(([key]) => key)
+}
+
+/**
+ * POST /api/skills/:id/upstream/merge
+ * body: { changeId, fields?: { title: 'ours' | 'theirs', ... }, files?: { [path]: 'ours' | 'theirs' } }
+ * 冲突项必须给出选择；自动合并项可省略
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  if (!hasSkillUpstreamChanges(prisma)) {
+    return NextResponse.json({ error: UPSTREAM_NOT_READY_MESSAGE }, { status: 503 })
+  }
+
+  const auth = await requireActor(prisma, request)
+  if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: auth.status })
+
+  const { id } = await params
+  const skillId = parsePositiveId(id)
+  if (!skillId) return NextResponse.json({ error: 'Invalid skill id' }, { status: 400 })
+  const access = await authorizeSkill(prisma, auth, 'skill:edit', skillId)
+  if (!access.ok) return NextResponse.json({ error: access.error }, { status: access.status })
+
+  let body: unknown
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 })
+  }
+  const parsed = mergeBodySchema.safeParse(body)
+  if (!parsed.success) {
+    return NextResponse.json({ error: 'Validation failed', details: parsed.error.issues }, { status: 400 })
+  }
+
+  try {
+    const result = await applyUpstreamMerge(skillId, parsed.data.changeId, {
+      fields: parsed.data.fields,
+      files: parsed.data.files,
+    }, auth.actor, (tx, { createdVersion }) =>
+      recordAuditEvent(tx, request, auth.actor, {
+        action: 'skill.upstream_merge',
+        entityType: 'skill',
+        entityId: skillId,
+        skillId,
+        after: {
+          changeId: parsed.data.changeId,
+          createdVersion,
+          upstreamFields: takenFromUpstream(parsed.data.fields),
+          upstreamFiles: takenFromUpstream(parsed.data.files),
+        },
+      })
+    )
+    if (!result.ok) {
+      return NextResponse.json(
+        { error: result.error, ...(result.details ? { details: result.details } : {}) },
+        { status: result.status }
+      )
+    }
+    return NextResponse.json(result.value)
+  } catch (err) {
+    if (isSnapshotBlobMissingError(err)) {
+      return NextResponse.json({ error: (err as Error).message }, { status: 422 })
+    }
+    if (isUpstreamSchemaNotReadyError(err)) {
+      return NextResponse.json({ error: UPSTREAM_NOT_READY_MESSAGE }, { status: 503 })
+    }
+    console.error('POST /api/skills/:id/upstream/merge error:', err)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { requireReader } from '@/lib/auth'
+import { hasSkillUpstreamChanges, isUpstreamSchemaNotReadyError, UPSTREAM_NOT_READY_MESSAGE } from '@/lib/skill-drift'
+import { getSkillUpstreamState } from '@/lib/skill-upstream'
+
+export const runtime = 'nodejs'
+
+type RouteParams = { params: Promise<{ id: string }> }
+
+function parsePositiveId(raw: string): number | null {
+  const id = Number(raw)
+  if (!Number.isInteger(id) || id <= 0) return null
+  return id
+}
+
+/**
+ * GET /api/skills/:id/upstream - 来源信息、本地修改状态与待合并的上游变更（含三方合并结果）
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  const reader = await requireReader(prisma, request)
+  if (!reader.ok) return NextResponse.json({ error: reader.error }, { status: reader.status })
+
+  if (!hasSkillUpstreamChanges(prisma)) {
+    return NextResponse.json({ error: UPSTREAM_NOT_READY_MESSAGE }, { status: 503 })
+  }
+
+  const { id } = await params
+  const skillId = parsePositiveId(id)
+  if (!skillId) return NextResponse.json({ error: 'Invalid skill id' }, { status: 400 })
+
+  try {
+    const result = await getSkillUpstreamState(skillId)
+    if (!result.ok) return NextResponse.json({ error: result.error }, { status: result.status })
+    return NextResponse.json(result.value)
+  } catch (err) {
+    if (isUpstreamSchemaNotReadyError(err)) {
+      return NextResponse.json({ error: UPSTREAM_NOT_READY_MESSAGE }, { status: 503 })
+    }
+    console.error('GET /api/skills/:id/upstream error:', err)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { requireReader } from '@/lib/auth'
+import {
+  getSkillUsage,
+  hasUsageEvents,
+  isUsageSchemaNotReadyError,
+  parseUsageDays,
+  USAGE_NOT_READY_MESSAGE,
+} from '@/lib/usage-analytics'
+
+export const runtime = 'nodejs'
+
+type RouteParams = { params: Promise<{ id: string }> }
+
+function parseSkillId(rawId: string): number | null {
+  const skillId = Number(rawId)
+  if (!Number.isInteger(skillId) || skillId <= 0) return null
+  return skillId
+}
+
+/**
+ * GET /api/skills/:id/usage?days=30 - 单个 Skill 的调用趋势与按版本 / 触发词分布
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  const reader = await requireReader(prisma, request)
+  if (!reader.ok) return NextResponse.json({ error: reader.error }, { status: reader.status })
+
+  if (!hasUsageEvents(prisma)) {
+    return NextResponse.json({ error: USAGE_NOT_READY_MESSAGE }, { status: 503 })
+  }
+
+  const { id } = await params
+  const skillId = parseSkillId(id)
+  if (!skillId) return NextResponse.json({ error: 'Invalid skill id' }, { status: 400 })
+
+  const skill = await prisma.skill.findUnique({ where: { id: skillId } })
+  if (!skill) return NextResponse.json({ error: 'Skill not found' }, { status: 404 })
+
+  const days = parseUsageDays(new URL(request.url).searchParams.get('days'))
+  try {
+    return NextResponse.json(await getSkillUsage(prisma.skillUsageEvent, skillId, days))
+  } catch (err) {
+    if (isUsageSchemaNotReadyError(err)) {
+      return NextResponse.json({ error: USAGE_NOT_READY_MESSAGE }, { status: 503 })
+    }
+    throw err
+  }
+}
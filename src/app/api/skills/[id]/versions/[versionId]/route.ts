@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
+import { requireReader } from '@/lib/auth'
 import {
   hasSkillVersioning,
   isVersioningSchemaNotReadyError,
@@ -19,8 +20,13 @@ function parsePositiveId(raw: string): number | null {
 
 /**
  * GET /api/skills/:id/versions/:versionId
+ * - 无 path query: 返回快照（含文件清单）
+ * - 有 path query: 返回该版本中指定文件的内容
  */
-export async function GET(_request: NextRequest, { params }: RouteParams) {
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  const reader = await requireReader(prisma, request)
+  if (!reader.ok) return NextResponse.json({ error: reader.error }, { status: reader.status })
+
   if (!hasSkillVersioning(prisma)) {
     return NextResponse.json({ error: VERSIONING_NOT_READY_MESSAGE }, { status: 503 })
   }
@@ -33,7 +39,16 @@ export async function GET(_request: NextRequest, { params }: RouteParams) {
     return NextResponse.json({ error: 'Invalid version id' }, { status: 400 })
   }
 
-  let version: { id: number; skillId: number; version: number; snapshot: unknown; createdAt: Date } | null
+  let version: {
+    id: number
+    skillId: number
+    version: number
+    snapshot: unknown
+    qualityScore: number | null
+    qualityReport: unknown
+    origin: string
+    createdAt: Date
+  } | null
   try {
     version = await prisma.skillVersion.findUnique({ where: { id: currentVersionId } })
   } catch (err) {
@@ -51,11 +66,36 @@ export async function GET(_request: NextRequest, { params }: RouteParams) {
     return NextResponse.json({ error: 'Version snapshot is invalid' }, { status: 422 })
   }
 
+  const filePath = new URL(request.url).searchParams.get('path')
+  if (filePath) {
+    const file = snapshot.files?.find((item) => item.path === filePath)
+    if (!file) return NextResponse.json({ error: 'File not found' }, { status: 404 })
+
+    const blob = await prisma.skillFileBlob.findUnique({ where: { sha256: file.sha256 } })
+    if (!blob) return NextResponse.json({ error: 'File content not found' }, { status: 404 })
+
+    return NextResponse.json({
+      path: file.path,
+      mime: file.mime,
+      isBinary: file.isBinary,
+      sha256: file.sha256,
+      size: file.size,
+      contentText: file.isBinary ? undefined : blob.contentText,
+      contentBase64: file.isBinary && blob.contentBytes
+        ? Buffer.from(blob.contentBytes).toString('base64')
+        : undefined,
+    })
+  }
+
   return NextResponse.json({
     id: version.id,
     skillId: version.skillId,
     version: version.version,
     snapshot,
+    files: snapshot.files ?? null,
+    qualityScore: version.qualityScore ?? null,
+    quality: version.qualityReport ?? null,
+    origin: version.origin,
     createdAt: version.createdAt.toISOString(),
   })
 }
@@ -0,0 +1,189 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { requireReader } from '@/lib/auth'
+import { diffSnapshots, type ComparableSnapshot } from '@/lib/skill-diff'
+import {
+  buildSkillFileManifest,
+  hasSkillVersioning,
+  isVersioningSchemaNotReadyError,
+  parseSkillSnapshot,
+  toSkillSnapshot,
+  VERSIONING_NOT_READY_MESSAGE,
+} from '@/lib/skill-versioning'
+
+export const runtime = 'nodejs'
+
+type RouteParams = { params: Promise<{ id: string }> }
+
+type DiffSide = {
+  kind: 'version' | 'current' | 'draft'
+  id: number | null
+  version: number | null
+  label: string
+  snapshot: ComparableSnapshot
+}
+
+function parsePositiveId(raw: string): number | null {
+  const id = Number(raw)
+  if (!Number.isInteger(id) || id <= 0) return null
+  return id
+}
+
+function pickString(value: unknown, fallback: string): string {
+  return typeof value === 'string' ? value : fallback
+}
+
+function pickStringArray(value: unknown, fallback: string[]): string[] {
+  return Array.isArray(value) ? value.map((item) => String(item ?? '')) : fallback
+}
+
+/**
+ * 草稿 payload 只包含表单字段，缺失字段回退到当前 Skill
+ */
+function mergeDraftPayload(base: ComparableSnapshot, payload: unknown): ComparableSnapshot {
+  const draft = (payload && typeof payload === 'object' ? payload : {}) as Record<string, unknown>
+  const guardrails = (draft.guardrails && typeof draft.guardrails === 'object'
+    ? draft.guardrails
+    : {}) as Record<string, unknown>
+  const escalation = guardrails.escalation
+  return {
+    ...base,
+    title: pickString(draft.title, base.title),
+    summary: pickString(draft.summary, base.summary),
+    inputs: pickString(draft.inputs, base.inputs),
+    outputs: pickString(draft.outputs, base.outputs),
+    risks: pickString(draft.risks, base.risks),
+    steps: pickStringArray(draft.steps, base.steps),
+    triggers: pickStringArray(draft.triggers, base.triggers),
+    tags: pickStringArray(draft.tags, base.tags),
+    tests: Array.isArray(draft.tests)
+      ? draft.tests.map((item) => {
+          const t = (item && typeof item === 'object' ? item : {}) as Record<string, unknown>
+          return {
+            name: pickString(t.name, ''),
+            input: pickString(t.input, ''),
+            expected_output: pickString(t.expected_output, ''),
+          }
+        })
+      : base.tests,
+    guardrails: {
+      allowed_tools: pickStringArray(guardrails.allowed_tools, base.guardrails.allowed_tools),
+      disable_model_invocation: typeof guardrails.disable_model_invocation === 'boolean'
+        ? guardrails.disable_model_invocation
+        : base.guardrails.disable_model_invocation,
+      user_invocable: typeof guardrails.user_invocable === 'boolean'
+        ? guardrails.user_invocable
+        : base.guardrails.user_invocable,
+      stop_conditions: pickStringArray(guardrails.stop_conditions, base.guardrails.stop_conditions),
+      escalation: escalation === 'REVIEW' || escalation === 'BLOCK' || escalation === 'ASK_HUMAN'
+        ? escalation
+        : base.guardrails.escalation,
+    },
+  }
+}
+
+/**
+ * GET /api/skills/:id/versions/diff?from=&to=&draftKey=
+ * from / to 取值：版本 id | current（当前已保存内容）| draft（当前未保存草稿）
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  const reader = await requireReader(prisma, request)
+  if (!reader.ok) return NextResponse.json({ error: reader.error }, { status: reader.status })
+
+  if (!hasSkillVersioning(prisma)) {
+    return NextResponse.json({ error: VERSIONING_NOT_READY_MESSAGE }, { status: 503 })
+  }
+
+  const { id } = await params
+  const skillId = parsePositiveId(id)
+  if (!skillId) return NextResponse.json({ error: 'Invalid skill id' }, { status: 400 })
+
+  const { searchParams } = new URL(request.url)
+  const fromRaw = (searchParams.get('from') || '').trim()
+  const toRaw = (searchParams.get('to') || 'current').trim()
+  const draftKey = (searchParams.get('draftKey') || '').trim()
+  if (!fromRaw) return NextResponse.json({ error: 'from is required' }, { status: 400 })
+
+  const skill = await prisma.skill.findUnique({
+    where: { id: skillId },
+    include: { tags: { include: { tag: true } } },
+  })
+  if (!skill) return NextResponse.json({ error: 'Skill not found' }, { status: 404 })
+
+  let currentSide: DiffSide | null = null
+  const loadCurrent = async (): Promise<DiffSide> => {
+    if (currentSide) return currentSide
+    const files = await prisma.skillFile.findMany({ where: { skillId } })
+    currentSide = {
+      kind: 'current',
+      id: null,
+      version: null,
+      label: '当前内容',
+      snapshot: { ...toSkillSnapshot(skill), files: buildSkillFileManifest(files) },
+    }
+    return currentSide
+  }
+
+  const resolveSide = async (raw: string): Promise<DiffSide | NextResponse> => {
+    if (raw === 'current') return loadCurrent()
+
+    if (raw === 'draft') {
+      const draft = draftKey
+        ? await prisma.skillDraft.findUnique({ where: { draftKey } })
+        : (await prisma.skillDraft.findMany({
+            where: { skillId, mode: 'edit' },
+            orderBy: { updatedAt: 'desc' },
+            take: 1,
+          }))[0]
+      if (!draft || draft.skillId !== skillId) {
+        return NextResponse.json({ error: 'Draft not found' }, { status: 404 })
+      }
+      const current = await loadCurrent()
+      return {
+        kind: 'draft',
+        id: draft.id,
+        version: draft.version,
+        label: '未保存草稿',
+        snapshot: mergeDraftPayload(current.snapshot, draft.payload),
+      }
+    }
+
+    const versionId = parsePositiveId(raw)
+    if (!versionId) return NextResponse.json({ error: 'Invalid version id' }, { status: 400 })
+    const version = await prisma.skillVersion.findUnique({ where: { id: versionId } })
+    if (!version || version.skillId !== skillId) {
+      return NextResponse.json({ error: 'Version not found' }, { status: 404 })
+    }
+    const snapshot = parseSkillSnapshot(version.snapshot)
+    if (!snapshot) {
+      return NextResponse.json({ error: 'Version snapshot is invalid' }, { status: 422 })
+    }
+    return {
+      kind: 'version',
+      id: version.id,
+      version: version.version,
+      label: `v${version.version}`,
+      snapshot: { ...snapshot, files: snapshot.files ?? null },
+    }
+  }
+
+  try {
+    const from = await resolveSide(fromRaw)
+    if (from instanceof NextResponse) return from
+    const to = await resolveSide(toRaw)
+    if (to instanceof NextResponse) return to
+
+    const diff = diffSnapshots(from.snapshot, to.snapshot)
+    return NextResponse.json({
+      from: { kind: from.kind, id: from.id, version: from.version, label: from.label },
+      to: { kind: to.kind, id: to.id, version: to.version, label: to.label },
+      ...diff,
+    })
+  } catch (err) {
+    if (isVersioningSchemaNotReadyError(err)) {
+      return NextResponse.json({ error: VERSIONING_NOT_READY_MESSAGE }, { status: 503 })
+    }
+    console.error('GET /api/skills/:id/versions/diff error:', err)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -6,6 +6,7 @@ import {
   parseSkillSnapshot,
   VERSIONING_NOT_READY_MESSAGE,
 } from '@/lib/skill-versioning'
+import { loadActorNames, requireReader } from '@/lib/auth'
 
 export const runtime = 'nodejs'
 
@@ -32,6 +33,9 @@ function parseSkillId(rawId: string): number | null {
  * GET /api/skills/:id/versions
  */
 export async function GET(request: NextRequest, { params }: RouteParams) {
+  const reader = await requireReader(prisma, request)
+  if (!reader.ok) return NextResponse.json({ error: reader.error }, { status: reader.status })
+
   if (!hasSkillVersioning(prisma)) {
     return NextResponse.json({ error: VERSIONING_NOT_READY_MESSAGE }, { status: 503 })
   }
@@ -47,7 +51,15 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
   const page = parsePositiveInt(searchParams.get('page'), DEFAULT_PAGE)
   const limit = Math.min(parsePositiveInt(searchParams.get('limit'), DEFAULT_LIMIT), MAX_LIMIT)
 
-  let items: Array<{ id: number; version: number; snapshot: unknown; createdAt: Date }>
+  let items: Array<{
+    id: number
+    version: number
+    snapshot: unknown
+    qualityScore: number | null
+    origin: string
+    createdAt: Date
+    createdBy: string
+  }>
   let total: number
   try {
     ;[items, total] = await Promise.all([
@@ -66,6 +78,7 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
     throw err
   }
 
+  const actorNames = await loadActorNames(prisma, items.map((item) => item.createdBy))
   const payload = items.map((item) => {
     const snapshot = parseSkillSnapshot(item.snapshot)
     return {
@@ -73,7 +86,12 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
       version: item.version,
       title: snapshot?.title || null,
       status: snapshot?.status || null,
+      fileCount: snapshot?.files ? snapshot.files.length : null,
+      qualityScore: item.qualityScore ?? null,
+      origin: item.origin,
       createdAt: item.createdAt.toISOString(),
+      createdBy: item.createdBy,
+      createdByName: actorNames.get(item.createdBy) ?? null,
     }
   })
 
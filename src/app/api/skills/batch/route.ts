@@ -1,5 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
+import { requireActor } from '@/lib/auth'
+import { recordAuditEvents, summarizeSkill, type AuditEventInput } from '@/lib/audit'
+import { can, loadSkillAccess, PERMISSION_DENIED_MESSAGE } from '@/lib/permissions'
 import { normalizeTagNames } from '@/lib/tag-normalize'
 import { isServiceError, upsertTags } from '@/lib/tag-service'
 
@@ -23,10 +26,13 @@ function parseSkillIds(raw: unknown): number[] {
 
 /**
  * POST /api/skills/batch
- * - action=bulk-delete
- * - action=bulk-add-tags
+ * - action=bulk-delete：每个 Skill 都需删除权限
+ * - action=bulk-add-tags：每个 Skill 都需编辑权限
  */
 export async function POST(request: NextRequest) {
+  const auth = await requireActor(prisma, request)
+  if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: auth.status })
+
   let body: BatchRequest
   try {
     body = await request.json()
@@ -44,18 +50,40 @@ export async function POST(request: NextRequest) {
     return NextResponse.json({ error: 'skillIds must contain at least one id' }, { status: 400 })
   }
 
+  // 逐个校验权限，任一 Skill 无权操作则整批拒绝；不存在的 id 与原先一样跳过
+  const permission = action === 'bulk-delete' ? 'skill:delete' : 'skill:edit'
+  const deniedSkillIds: number[] = []
+  for (const id of skillIds) {
+    const access = await loadSkillAccess(prisma, id)
+    if (access && !can(auth, permission, access)) deniedSkillIds.push(id)
+  }
+  if (deniedSkillIds.length > 0) {
+    return NextResponse.json({ error: PERMISSION_DENIED_MESSAGE, deniedSkillIds }, { status: 403 })
+  }
+
   if (action === 'bulk-delete') {
     try {
-      let deletedCount = 0
+      const events: AuditEventInput[] = []
       await prisma.$transaction(async (tx) => {
         for (const id of skillIds) {
-          const existing = await tx.skill.findUnique({ where: { id } })
+          const existing = await tx.skill.findUnique({
+            where: { id },
+            include: { tags: { include: { tag: true } } },
+          })
           if (!existing) continue
           await tx.skill.delete({ where: { id } })
-          deletedCount += 1
+          events.push({
+            action: 'skill.delete',
+            entityType: 'skill',
+            entityId: id,
+            entityLabel: existing.title,
+            skillId: id,
+            before: summarizeSkill(existing),
+          })
         }
+        await recordAuditEvents(tx, request, auth.actor, events)
       })
-      return NextResponse.json({ ok: true, action, requested: skillIds.length, affected: deletedCount })
+      return NextResponse.json({ ok: true, action, requested: skillIds.length, affected: events.length })
     } catch {
       return NextResponse.json({ error: 'Batch delete failed' }, { status: 500 })
     }
@@ -67,8 +95,9 @@ export async function POST(request: NextRequest) {
   }
 
   try {
-    const tagRecords = await upsertTags(normalizedTags)
+    const tagRecords = await upsertTags(normalizedTags, auth.actor)
     let updatedCount = 0
+    const events: AuditEventInput[] = []
     await prisma.$transaction(async (tx) => {
       for (const id of skillIds) {
         const current = await tx.skill.findUnique({
@@ -89,11 +118,22 @@ export async function POST(request: NextRequest) {
               tags: {
                 create: toCreate,
               },
+              updatedBy: auth.actor,
             },
           })
+          events.push({
+            action: 'skill.add_tags',
+            entityType: 'skill',
+            entityId: id,
+            entityLabel: current.title,
+            skillId: id,
+            before: { tags: [...existingTagNames] },
+            after: { tags: [...existingTagNames, ...tagRecords.filter((tag) => !existingTagNames.has(tag.name)).map((tag) => tag.name)] },
+          })
         }
         updatedCount += 1
       }
+      await recordAuditEvents(tx, request, auth.actor, events)
     })
 
     return NextResponse.json({
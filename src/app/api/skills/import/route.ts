@@ -0,0 +1,315 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { Prisma } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { requireActor } from '@/lib/auth'
+import { recordAuditEvent, summarizeSkill, type AuditEventInput } from '@/lib/audit'
+import { authorize, authorizeSkill } from '@/lib/permissions'
+import { lintSkillPackage } from '@/lib/lint'
+import { createSkillSchema } from '@/lib/zod-schemas'
+import { buildCreateTagConnect, buildReplaceTagConnect, isServiceError } from '@/lib/tag-service'
+import { createSkillVersionIfAvailable, toSkillSnapshot } from '@/lib/skill-versioning'
+import { parseImportPayload, type ImportedSkill } from '@/lib/skill-import'
+import type { LintError } from '@/lib/types'
+
+export const runtime = 'nodejs'
+
+const UPLOAD_MAX = 20 * 1024 * 1024 // 20MB
+
+const CONFLICT_STRATEGIES = ['skip', 'overwrite', 'suffix'] as const
+type ConflictStrategy = (typeof CONFLICT_STRATEGIES)[number]
+
+type ImportItemStatus = 'created' | 'updated' | 'skipped' | 'invalid' | 'failed'
+
+function isPrismaCode(err: unknown, code: string): boolean {
+  return !!err && typeof err === 'object' && 'code' in err && (err as { code?: string }).code === code
+}
+
+function parseStrategy(raw: unknown): ConflictStrategy | null {
+  if (typeof raw !== 'string') return null
+  return (CONFLICT_STRATEGIES as readonly string[]).includes(raw) ? (raw as ConflictStrategy) : null
+}
+
+/** strategies 为 JSON：{ "<item index>": "skip" | "overwrite" | "suffix" } */
+function parseStrategyOverrides(raw: FormDataEntryValue | null): Map<number, ConflictStrategy> {
+  const overrides = new Map<number, ConflictStrategy>()
+  if (typeof raw !== 'string' || !raw.trim()) return overrides
+  try {
+    const parsed = JSON.parse(raw)
+    if (!parsed || typeof parsed !== 'object') return overrides
+    for (const [key, value] of Object.entries(parsed as Record<string, unknown>)) {
+      const index = Number(key)
+      const strategy = parseStrategy(value)
+      if (Number.isInteger(index) && index >= 0 && strategy) overrides.set(index, strategy)
+    }
+  } catch {
+    // 非法 JSON 时忽略逐项策略
+  }
+  return overrides
+}
+
+function validateImportedSkill(item: ImportedSkill): LintError[] {
+  const lint = lintSkillPackage(item.skill, item.files.map((f) => f.path))
+  const errors = [...lint.errors]
+  const parsed = createSkillSchema.safeParse(item.skill)
+  if (!parsed.success) {
+    for (const issue of parsed.error.issues) {
+      const field = issue.path.join('.') || 'skill'
+      if (errors.some((e) => e.field === field)) continue
+      errors.push({ field, message: issue.message })
+    }
+  }
+  return errors
+}
+
+function candidateSlug(base: string, index: number): string {
+  const suffix = `-${index}`
+  return `${base.slice(0, 64 - suffix.length).replace(/-+$/, '')}${suffix}`
+}
+
+async function generateSuffixedSlug(base: string): Promise<string | null> {
+  for (let i = 2; i < 200; i++) {
+    const candidate = candidateSlug(base, i)
+    const exists = await prisma.skill.findUnique({ where: { slug: candidate } })
+    if (!exists) return candidate
+  }
+  return null
+}
+
+function toFileCreateData(skillId: number, file: ImportedSkill['files'][number], actor: string) {
+  return {
+    skillId,
+    path: file.path,
+    mime: file.mime,
+    isBinary: file.isBinary,
+    contentText: file.contentText,
+    contentBytes: file.contentBytes,
+    createdBy: actor,
+    updatedBy: actor,
+  }
+}
+
+type ImportedSkillRow = Prisma.SkillGetPayload<{ include: { tags: { include: { tag: true } } } }>
+
+/** 覆盖导入时 previous 为覆盖前的 Skill */
+function importAuditEvent(skill: ImportedSkillRow, previous?: ImportedSkillRow | null): AuditEventInput {
+  return {
+    action: 'skill.import',
+    entityType: 'skill',
+    entityId: skill.id,
+    entityLabel: skill.title,
+    skillId: skill.id,
+    before: previous ? summarizeSkill(previous) : null,
+    after: summarizeSkill(skill),
+  }
+}
+
+/** 每个条目单独一个事务：版本与审计记录随条目一起提交，失败时只回滚该条目 */
+async function createImportedSkill(request: Request, item: ImportedSkill, slug: string, actor: string) {
+  const parsed = createSkillSchema.parse(item.skill)
+  const tagConnect = await buildCreateTagConnect(parsed.tags, actor)
+
+  const created = await prisma.$transaction(async (tx) => {
+    const skill = await tx.skill.create({
+      data: {
+        title: parsed.title,
+        slug,
+        status: 'draft',
+        summary: parsed.summary,
+        inputs: parsed.inputs,
+        outputs: parsed.outputs,
+        steps: parsed.steps,
+        risks: parsed.risks,
+        triggers: parsed.triggers,
+        guardrails: parsed.guardrails,
+        tests: parsed.tests,
+        tags: tagConnect,
+        owner: actor,
+        createdBy: actor,
+        updatedBy: actor,
+      },
+      include: { tags: { include: { tag: true } } },
+    })
+    for (const file of item.files) {
+      await tx.skillFile.create({ data: toFileCreateData(skill.id, file, actor) })
+    }
+    await createSkillVersionIfAvailable(tx, skill.id, toSkillSnapshot(skill), 'import', actor)
+    await recordAuditEvent(tx, request, actor, importAuditEvent(skill))
+    return skill
+  })
+
+  return created
+}
+
+async function overwriteImportedSkill(
+  request: Request,
+  item: ImportedSkill,
+  skillId: number,
+  actor: string,
+  previous: ImportedSkillRow | null
+) {
+  const parsed = createSkillSchema.parse(item.skill)
+  const tagConnect = await buildReplaceTagConnect(parsed.tags, actor)
+
+  const updated = await prisma.$transaction(async (tx) => {
+    const skill = await tx.skill.update({
+      where: { id: skillId },
+      data: {
+        title: parsed.title,
+        summary: parsed.summary,
+        inputs: parsed.inputs,
+        outputs: parsed.outputs,
+        steps: parsed.steps,
+        risks: parsed.risks,
+        triggers: parsed.triggers,
+        guardrails: parsed.guardrails,
+        tests: parsed.tests,
+        tags: tagConnect,
+        updatedBy: actor,
+      },
+      include: { tags: { include: { tag: true } } },
+    })
+    await tx.skillFile.deleteMany({ where: { skillId } })
+    for (const file of item.files) {
+      await tx.skillFile.create({ data: toFileCreateData(skillId, file, actor) })
+    }
+    await createSkillVersionIfAvailable(tx, skill.id, toSkillSnapshot(skill), 'import', actor)
+    await recordAuditEvent(tx, request, actor, importAuditEvent(skill, previous))
+    return skill
+  })
+
+  return updated
+}
+
+/**
+ * POST /api/skills/import - 从 SKILL.md / JSON / zip 导入 Skill
+ * multipart 字段：
+ * - file: 上传文件（.md / .json / .zip）
+ * - mode: preview（默认，仅解析 + lint）| commit（写入数据库）
+ * - strategy: slug 冲突时的默认策略 skip | overwrite | suffix
+ * - strategies: 可选，按条目 index 覆盖冲突策略的 JSON
+ */
+export async function POST(request: NextRequest) {
+  const auth = await requireActor(prisma, request)
+  if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: auth.status })
+  const access = authorize(auth, 'skill:create')
+  if (!access.ok) return NextResponse.json({ error: access.error }, { status: access.status })
+
+  let form: FormData
+  try {
+    form = await request.formData()
+  } catch {
+    return NextResponse.json({ error: 'Expected multipart/form-data body' }, { status: 400 })
+  }
+
+  const upload = form.get('file')
+  if (!upload || typeof upload === 'string') {
+    return NextResponse.json({ error: 'file is required' }, { status: 400 })
+  }
+  if (upload.size > UPLOAD_MAX) {
+    return NextResponse.json({ error: 'File exceeds 20MB upload limit' }, { status: 413 })
+  }
+
+  const mode = form.get('mode') === 'commit' ? 'commit' : 'preview'
+  const rawStrategy = form.get('strategy')
+  const defaultStrategy = rawStrategy === null ? 'skip' : parseStrategy(rawStrategy)
+  if (!defaultStrategy) {
+    return NextResponse.json(
+      { error: `strategy must be one of ${CONFLICT_STRATEGIES.join(', ')}` },
+      { status: 400 }
+    )
+  }
+  const overrides = parseStrategyOverrides(form.get('strategies'))
+
+  let items: ImportedSkill[]
+  try {
+    items = parseImportPayload(upload.name, Buffer.from(await upload.arrayBuffer()))
+  } catch (err) {
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : 'Failed to parse upload' },
+      { status: 400 }
+    )
+  }
+
+  const previews = []
+  for (const [index, item] of items.entries()) {
+    const errors = validateImportedSkill(item)
+    const existing = item.skill.slug
+      ? await prisma.skill.findUnique({ where: { slug: item.skill.slug } })
+      : null
+    previews.push({
+      index,
+      source: item.source,
+      skill: item.skill,
+      files: item.files.map((f) => ({ path: f.path, mime: f.mime, isBinary: f.isBinary, size: f.size })),
+      warnings: item.warnings,
+      confidence: item.confidence,
+      lint: { valid: errors.length === 0, errors },
+      conflict: existing ? { skillId: existing.id, title: existing.title } : null,
+      strategy: overrides.get(index) || defaultStrategy,
+    })
+  }
+
+  if (mode === 'preview') {
+    return NextResponse.json({ mode, items: previews })
+  }
+
+  const results: Array<{
+    index: number
+    slug: string
+    status: ImportItemStatus
+    skillId?: number
+    error?: string
+  }> = []
+
+  for (const [index, item] of items.entries()) {
+    const preview = previews[index]
+    const base = { index, slug: item.skill.slug }
+
+    if (!preview.lint.valid) {
+      results.push({ ...base, status: 'invalid', error: 'Lint failed' })
+      continue
+    }
+
+    try {
+      if (!preview.conflict) {
+        const skill = await createImportedSkill(request, item, item.skill.slug, auth.actor)
+        results.push({ ...base, status: 'created', skillId: skill.id })
+      } else if (preview.strategy === 'skip') {
+        results.push({ ...base, status: 'skipped', skillId: preview.conflict.skillId })
+      } else if (preview.strategy === 'overwrite') {
+        const access = await authorizeSkill(prisma, auth, 'skill:edit', preview.conflict.skillId)
+        if (!access.ok) {
+          results.push({ ...base, status: 'failed', error: access.error })
+          continue
+        }
+        const previous = await prisma.skill.findUnique({
+          where: { id: preview.conflict.skillId },
+          include: { tags: { include: { tag: true } } },
+        })
+        const skill = await overwriteImportedSkill(request, item, preview.conflict.skillId, auth.actor, previous)
+        results.push({ ...base, status: 'updated', skillId: skill.id })
+      } else {
+        const slug = await generateSuffixedSlug(item.skill.slug)
+        if (!slug) {
+          results.push({ ...base, status: 'failed', error: 'Cannot generate unique slug' })
+          continue
+        }
+        const skill = await createImportedSkill(request, item, slug, auth.actor)
+        results.push({ ...base, slug, status: 'created', skillId: skill.id })
+      }
+    } catch (err) {
+      if (isServiceError(err, 'TAG_NAME_INVALID')) {
+        results.push({ ...base, status: 'failed', error: (err as Error).message })
+        continue
+      }
+      if (isPrismaCode(err, 'P2002')) {
+        results.push({ ...base, status: 'failed', error: 'Slug already exists' })
+        continue
+      }
+      console.error('POST /api/skills/import error:', err)
+      results.push({ ...base, status: 'failed', error: 'Internal server error' })
+    }
+  }
+
+  return NextResponse.json({ mode, items: previews, results })
+}
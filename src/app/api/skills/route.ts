@@ -5,6 +5,13 @@ import { slugify } from '@/lib/slugify'
 import { buildCreateTagConnect, isServiceError } from '@/lib/tag-service'
 import { normalizeTagNames } from '@/lib/tag-normalize'
 import { createSkillVersionIfAvailable, toSkillSnapshot } from '@/lib/skill-versioning'
+import { normalizeTemplateContent, skillTemplateFilesSchema } from '@/lib/skill-templates'
+import { lintTriggerCollisions } from '@/lib/lint'
+import type { LintError } from '@/lib/types'
+import { loadTriggerSources } from '@/lib/trigger-collisions'
+import { requireActor, requireReader } from '@/lib/auth'
+import { recordAuditEvent, summarizeSkill } from '@/lib/audit'
+import { authorize } from '@/lib/permissions'
 
 export const runtime = 'nodejs'
 
@@ -23,6 +30,15 @@ const SORT_ORDERS: Record<string, { [key: string]: 'asc' | 'desc' }> = {
   created_asc: { createdAt: 'asc' },
   title_asc: { title: 'asc' },
   title_desc: { title: 'desc' },
+  score_desc: { qualityScore: 'desc' },
+  score_asc: { qualityScore: 'asc' },
+}
+
+function parseScoreBound(raw: string | null): number | null {
+  if (raw === null || raw.trim() === '') return null
+  const value = Number(raw)
+  if (!Number.isFinite(value)) return null
+  return Math.min(100, Math.max(0, Math.round(value)))
 }
 
 function parsePositiveInt(raw: string | null, fallback: number): number {
@@ -33,9 +49,12 @@ function parsePositiveInt(raw: string | null, fallback: number): number {
 }
 
 /**
- * GET /api/skills - 列表查询，支持 query 和 tags 过滤
+ * GET /api/skills - 列表查询，支持 query、tags 与质量评分（minScore / maxScore）过滤
  */
 export async function GET(request: NextRequest) {
+  const reader = await requireReader(prisma, request)
+  if (!reader.ok) return NextResponse.json({ error: reader.error }, { status: reader.status })
+
   const { searchParams } = new URL(request.url)
   const query = searchParams.get('query') || ''
   const tagsParam = searchParams.get('tags') || ''
@@ -49,6 +68,8 @@ export async function GET(request: NextRequest) {
   const sort = SORT_ORDERS[sortRaw] ? sortRaw : 'updated_desc'
   const orderBy = SORT_ORDERS[sort]
   const tagNames = tagsParam ? normalizeTagNames(tagsParam.split(',')) : []
+  const minScore = parseScoreBound(searchParams.get('minScore'))
+  const maxScore = parseScoreBound(searchParams.get('maxScore'))
 
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   const where: any = {}
@@ -70,6 +91,13 @@ export async function GET(request: NextRequest) {
     }
   }
 
+  if (minScore !== null || maxScore !== null) {
+    where.qualityScore = {
+      ...(minScore !== null ? { gte: minScore } : {}),
+      ...(maxScore !== null ? { lte: maxScore } : {}),
+    }
+  }
+
   const skills = await prisma.skill.findMany({
     where,
     include: {
@@ -104,11 +132,19 @@ export async function GET(request: NextRequest) {
 
 /**
  * POST /api/skills - 创建 Skill
+ * body.files 可选：从模板带入的文本 supporting files，会在生成首个版本前写入
+ * 响应中的 warnings 为与库中其他 Skill 的触发词冲突提示
  */
 export async function POST(request: NextRequest) {
+  const auth = await requireActor(prisma, request)
+  if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: auth.status })
+  const access = authorize(auth, 'skill:create')
+  if (!access.ok) return NextResponse.json({ error: access.error }, { status: access.status })
+
   try {
     const body = await request.json()
     const parsed = createSkillSchema.parse(body)
+    const initialFiles = skillTemplateFilesSchema.optional().parse(body?.files) || []
     const slug = slugify(parsed.title)
 
     if (!slug) {
@@ -118,31 +154,68 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    const tagConnect = await buildCreateTagConnect(parsed.tags)
-
-    const skill = await prisma.skill.create({
-      data: {
-        title: parsed.title,
-        slug,
-        status: 'draft',
-        summary: parsed.summary,
-        inputs: parsed.inputs,
-        outputs: parsed.outputs,
-        steps: parsed.steps,
-        risks: parsed.risks,
-        triggers: parsed.triggers,
-        guardrails: parsed.guardrails,
-        tests: parsed.tests,
-        tags: tagConnect,
-      },
-      include: {
-        tags: { include: { tag: true } },
-      },
+    const tagConnect = await buildCreateTagConnect(parsed.tags, auth.actor)
+
+    const skill = await prisma.$transaction(async (tx) => {
+      const created = await tx.skill.create({
+        data: {
+          title: parsed.title,
+          slug,
+          status: 'draft',
+          summary: parsed.summary,
+          inputs: parsed.inputs,
+          outputs: parsed.outputs,
+          steps: parsed.steps,
+          risks: parsed.risks,
+          triggers: parsed.triggers,
+          guardrails: parsed.guardrails,
+          tests: parsed.tests,
+          tags: tagConnect,
+          owner: auth.actor,
+          createdBy: auth.actor,
+          updatedBy: auth.actor,
+        },
+        include: {
+          tags: { include: { tag: true } },
+        },
+      })
+      for (const file of normalizeTemplateContent({ payload: {}, files: initialFiles, tags: [] }).files) {
+        await tx.skillFile.create({
+          data: {
+            skillId: created.id,
+            path: file.path,
+            mime: file.mime,
+            isBinary: false,
+            contentText: file.content,
+            contentBytes: null,
+            createdBy: auth.actor,
+            updatedBy: auth.actor,
+          },
+        })
+      }
+      await createSkillVersionIfAvailable(tx, created.id, toSkillSnapshot(created), undefined, auth.actor)
+      await recordAuditEvent(tx, request, auth.actor, {
+        action: 'skill.create',
+        entityType: 'skill',
+        entityId: created.id,
+        entityLabel: created.title,
+        skillId: created.id,
+        after: summarizeSkill(created),
+      })
+      return created
     })
-    await createSkillVersionIfAvailable(prisma, skill.id, toSkillSnapshot(skill))
+    const snapshot = toSkillSnapshot(skill)
+    // 保存不受 lint 阻断；触发词冲突提示查询失败时退回空列表，不影响保存结果
+    let warnings: LintError[] = []
+    try {
+      const vaultSkills = await loadTriggerSources(prisma, { excludeSkillId: skill.id })
+      warnings = lintTriggerCollisions(snapshot, { vaultSkills, skillId: skill.id })
+    } catch (err) {
+      console.error('POST /api/skills trigger collision warnings error:', err)
+    }
 
     return NextResponse.json(
-      { ...skill, tags: skill.tags.map((st) => st.tag.name) },
+      { ...skill, tags: skill.tags.map((st) => st.tag.name), warnings },
       { status: 201 }
     )
   } catch (err) {
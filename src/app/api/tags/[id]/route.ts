@@ -1,4 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { requireActor } from '@/lib/auth'
+import { authorize } from '@/lib/permissions'
+import { recordAuditEvent } from '@/lib/audit'
 import { deleteTag, isServiceError, parseTagId, renameTag } from '@/lib/tag-service'
 
 export const runtime = 'nodejs'
@@ -9,6 +13,11 @@ type RouteParams = { params: Promise<{ id: string }> }
  * PATCH /api/tags/:id - 重命名标签
  */
 export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  const auth = await requireActor(prisma, request)
+  if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: auth.status })
+  const access = authorize(auth, 'tag:manage')
+  if (!access.ok) return NextResponse.json({ error: access.error }, { status: access.status })
+
   const { id } = await params
   const tagId = parseTagId(id)
   if (!tagId) {
@@ -27,7 +36,16 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
   }
 
   try {
-    const tag = await renameTag(tagId, body.name)
+    const tag = await renameTag(tagId, body.name, auth.actor, (tx, renamed) =>
+      recordAuditEvent(tx, request, auth.actor, {
+        action: 'tag.rename',
+        entityType: 'tag',
+        entityId: renamed.id,
+        entityLabel: renamed.name,
+        before: { name: renamed.previousName },
+        after: { name: renamed.name },
+      })
+    )
     return NextResponse.json({ tag })
   } catch (err) {
     if (isServiceError(err, 'TAG_NOT_FOUND')) {
@@ -53,7 +71,12 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
 /**
  * DELETE /api/tags/:id - 删除标签（解除所有技能关联）
  */
-export async function DELETE(_request: NextRequest, { params }: RouteParams) {
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  const auth = await requireActor(prisma, request)
+  if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: auth.status })
+  const access = authorize(auth, 'tag:manage')
+  if (!access.ok) return NextResponse.json({ error: access.error }, { status: access.status })
+
   const { id } = await params
   const tagId = parseTagId(id)
   if (!tagId) {
@@ -61,7 +84,15 @@ export async function DELETE(_request: NextRequest, { params }: RouteParams) {
   }
 
   try {
-    const result = await deleteTag(tagId)
+    const result = await deleteTag(tagId, (tx, deleted) =>
+      recordAuditEvent(tx, request, auth.actor, {
+        action: 'tag.delete',
+        entityType: 'tag',
+        entityId: deleted.id,
+        entityLabel: deleted.name,
+        before: { name: deleted.name, detachedSkills: deleted.detachedSkills },
+      })
+    )
     return NextResponse.json({
       success: true,
       deleted: result,
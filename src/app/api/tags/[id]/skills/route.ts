@@ -1,4 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { requireReader } from '@/lib/auth'
 import { getLinkedSkills, isServiceError, parseTagId } from '@/lib/tag-service'
 
 export const runtime = 'nodejs'
@@ -8,7 +10,10 @@ type RouteParams = { params: Promise<{ id: string }> }
 /**
  * GET /api/tags/:id/skills - 查询标签关联技能
  */
-export async function GET(_request: NextRequest, { params }: RouteParams) {
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  const reader = await requireReader(prisma, request)
+  if (!reader.ok) return NextResponse.json({ error: reader.error }, { status: reader.status })
+
   const { id } = await params
   const tagId = parseTagId(id)
   if (!tagId) {
@@ -1,4 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { requireActor } from '@/lib/auth'
+import { authorize } from '@/lib/permissions'
+import { recordAuditEvent } from '@/lib/audit'
 import { isServiceError, mergeTags } from '@/lib/tag-service'
 
 export const runtime = 'nodejs'
@@ -7,6 +11,11 @@ export const runtime = 'nodejs'
  * POST /api/tags/merge - 合并标签 sourceTagId -> targetTagId
  */
 export async function POST(request: NextRequest) {
+  const auth = await requireActor(prisma, request)
+  if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: auth.status })
+  const access = authorize(auth, 'tag:manage')
+  if (!access.ok) return NextResponse.json({ error: access.error }, { status: access.status })
+
   let body: { sourceTagId?: unknown; targetTagId?: unknown }
   try {
     body = await request.json()
@@ -25,7 +34,17 @@ export async function POST(request: NextRequest) {
   }
 
   try {
-    const result = await mergeTags(sourceTagId, targetTagId)
+    // 以被合并掉的源标签为实体，按标签 ID 查询时能看到它的去向
+    const result = await mergeTags(sourceTagId, targetTagId, auth.actor, (tx, merged) =>
+      recordAuditEvent(tx, request, auth.actor, {
+        action: 'tag.merge',
+        entityType: 'tag',
+        entityId: merged.sourceId,
+        entityLabel: merged.sourceName,
+        before: { name: merged.sourceName },
+        after: { mergedInto: merged.targetName, targetId: merged.targetId, movedSkills: merged.movedSkills },
+      })
+    )
     return NextResponse.json({ success: true, merged: result })
   } catch (err) {
     if (isServiceError(err, 'TAG_MERGE_INVALID')) {
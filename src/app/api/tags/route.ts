@@ -1,4 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { requireActor, requireReader } from '@/lib/auth'
+import { authorize } from '@/lib/permissions'
+import { recordAuditEvent } from '@/lib/audit'
 import { createOrGetTag, isServiceError, listTags, listTagsPaged } from '@/lib/tag-service'
 
 export const runtime = 'nodejs'
@@ -14,6 +18,9 @@ function parsePositiveInt(input: string | null, fallback: number): number {
  * GET /api/tags - 获取所有标签
  */
 export async function GET(request: NextRequest) {
+  const reader = await requireReader(prisma, request)
+  if (!reader.ok) return NextResponse.json({ error: reader.error }, { status: reader.status })
+
   const { searchParams } = new URL(request.url)
   const query = searchParams.get('query') || ''
   const pageParam = searchParams.get('page')
@@ -49,6 +56,11 @@ export async function GET(request: NextRequest) {
  * POST /api/tags - 创建标签
  */
 export async function POST(request: Request) {
+  const auth = await requireActor(prisma, request)
+  if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: auth.status })
+  const access = authorize(auth, 'tag:create')
+  if (!access.ok) return NextResponse.json({ error: access.error }, { status: access.status })
+
   try {
     const body = await request.json()
     const { name } = body
@@ -57,7 +69,15 @@ export async function POST(request: Request) {
       return NextResponse.json({ error: 'Tag name is required' }, { status: 400 })
     }
 
-    const tag = await createOrGetTag(name)
+    const tag = await createOrGetTag(name, auth.actor, (tx, created) =>
+      recordAuditEvent(tx, request, auth.actor, {
+        action: 'tag.create',
+        entityType: 'tag',
+        entityId: created.id,
+        entityLabel: created.name,
+        after: { name: created.name },
+      })
+    )
 
     return NextResponse.json({ tag }, { status: 201 })
   } catch (err) {
@@ -0,0 +1,142 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { requireActor, requireReader } from '@/lib/auth'
+import { authorize } from '@/lib/permissions'
+import { recordAuditEvent } from '@/lib/audit'
+import {
+  normalizeTemplateContent,
+  toSkillTemplateResponse,
+  updateSkillTemplateSchema,
+} from '@/lib/skill-templates'
+
+export const runtime = 'nodejs'
+
+type RouteParams = { params: Promise<{ id: string }> }
+
+function isPrismaCode(err: unknown, code: string): boolean {
+  return !!err && typeof err === 'object' && 'code' in err && (err as { code?: string }).code === code
+}
+
+function parseTemplateId(raw: string): number | null {
+  const id = Number(raw)
+  if (!Number.isInteger(id) || id <= 0) return null
+  return id
+}
+
+/**
+ * GET /api/templates/:id
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  const reader = await requireReader(prisma, request)
+  if (!reader.ok) return NextResponse.json({ error: reader.error }, { status: reader.status })
+
+  const { id } = await params
+  const templateId = parseTemplateId(id)
+  if (!templateId) return NextResponse.json({ error: 'Invalid template id' }, { status: 400 })
+
+  const template = await prisma.skillTemplate.findUnique({ where: { id: templateId } })
+  if (!template) return NextResponse.json({ error: 'Template not found' }, { status: 404 })
+  return NextResponse.json(toSkillTemplateResponse(template))
+}
+
+/**
+ * PUT /api/templates/:id - 部分更新模板
+ */
+export async function PUT(request: NextRequest, { params }: RouteParams) {
+  const auth = await requireActor(prisma, request)
+  if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: auth.status })
+  const access = authorize(auth, 'template:manage')
+  if (!access.ok) return NextResponse.json({ error: access.error }, { status: access.status })
+
+  const { id } = await params
+  const templateId = parseTemplateId(id)
+  if (!templateId) return NextResponse.json({ error: 'Invalid template id' }, { status: 400 })
+
+  let body: unknown
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 })
+  }
+
+  const parsed = updateSkillTemplateSchema.safeParse(body)
+  if (!parsed.success) {
+    return NextResponse.json({ error: 'Validation failed', details: parsed.error.issues }, { status: 400 })
+  }
+
+  const existing = await prisma.skillTemplate.findUnique({ where: { id: templateId } })
+  if (!existing) return NextResponse.json({ error: 'Template not found' }, { status: 404 })
+
+  const current = toSkillTemplateResponse(existing)
+  const content = normalizeTemplateContent({
+    payload: parsed.data.payload ?? current.payload,
+    files: parsed.data.files ?? current.files,
+    tags: parsed.data.tags ?? current.tags,
+  })
+
+  try {
+    const template = await prisma.$transaction(async (tx) => {
+      const updated = await tx.skillTemplate.update({
+        where: { id: templateId },
+        data: {
+          name: parsed.data.name ?? existing.name,
+          description: parsed.data.description ?? existing.description,
+          payload: content.payload,
+          files: content.files,
+          tags: content.tags,
+          updatedBy: auth.actor,
+        },
+      })
+      await recordAuditEvent(tx, request, auth.actor, {
+        action: 'template.update',
+        entityType: 'template',
+        entityId: updated.id,
+        entityLabel: updated.name,
+        before: { name: existing.name, files: current.files.length, tags: current.tags },
+        after: { name: updated.name, files: content.files.length, tags: content.tags },
+      })
+      return updated
+    })
+    return NextResponse.json(toSkillTemplateResponse(template))
+  } catch (err) {
+    if (isPrismaCode(err, 'P2002')) {
+      return NextResponse.json({ error: 'Template name already exists' }, { status: 409 })
+    }
+    console.error('PUT /api/templates/:id error:', err)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+/**
+ * DELETE /api/templates/:id
+ */
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  const auth = await requireActor(prisma, request)
+  if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: auth.status })
+  const access = authorize(auth, 'template:manage')
+  if (!access.ok) return NextResponse.json({ error: access.error }, { status: access.status })
+
+  const { id } = await params
+  const templateId = parseTemplateId(id)
+  if (!templateId) return NextResponse.json({ error: 'Invalid template id' }, { status: 400 })
+
+  try {
+    await prisma.$transaction(async (tx) => {
+      const deleted = await tx.skillTemplate.delete({ where: { id: templateId } })
+      await recordAuditEvent(tx, request, auth.actor, {
+        action: 'template.delete',
+        entityType: 'template',
+        entityId: templateId,
+        entityLabel: deleted.name,
+        before: { name: deleted.name },
+      })
+    })
+    return NextResponse.json({ success: true })
+  } catch (err) {
+    if (isPrismaCode(err, 'P2025')) {
+      return NextResponse.json({ error: 'Template not found' }, { status: 404 })
+    }
+    console.error('DELETE /api/templates/:id error:', err)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { requireActor, requireReader } from '@/lib/auth'
+import { authorize } from '@/lib/permissions'
+import { recordAuditEvent } from '@/lib/audit'
+import { normalizeTemplateContent, skillTemplateSchema, toSkillTemplateResponse } from '@/lib/skill-templates'
+
+export const runtime = 'nodejs'
+
+function isPrismaCode(err: unknown, code: string): boolean {
+  return !!err && typeof err === 'object' && 'code' in err && (err as { code?: string }).code === code
+}
+
+/**
+ * GET /api/templates - 模板列表
+ */
+export async function GET(request: NextRequest) {
+  const reader = await requireReader(prisma, request)
+  if (!reader.ok) return NextResponse.json({ error: reader.error }, { status: reader.status })
+
+  const rows = await prisma.skillTemplate.findMany({ orderBy: { updatedAt: 'desc' } })
+  const items = rows.map(toSkillTemplateResponse)
+  return NextResponse.json({ items, total: items.length })
+}
+
+/**
+ * POST /api/templates - 创建模板
+ */
+export async function POST(request: NextRequest) {
+  const auth = await requireActor(prisma, request)
+  if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: auth.status })
+  const access = authorize(auth, 'template:manage')
+  if (!access.ok) return NextResponse.json({ error: access.error }, { status: access.status })
+
+  let body: unknown
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 })
+  }
+
+  const parsed = skillTemplateSchema.safeParse(body)
+  if (!parsed.success) {
+    return NextResponse.json({ error: 'Validation failed', details: parsed.error.issues }, { status: 400 })
+  }
+
+  const { name, description, ...rest } = parsed.data
+  const content = normalizeTemplateContent(rest)
+  try {
+    const template = await prisma.$transaction(async (tx) => {
+      const created = await tx.skillTemplate.create({
+        data: {
+          name,
+          description,
+          payload: content.payload,
+          files: content.files,
+          tags: content.tags,
+          createdBy: auth.actor,
+          updatedBy: auth.actor,
+        },
+      })
+      await recordAuditEvent(tx, request, auth.actor, {
+        action: 'template.create',
+        entityType: 'template',
+        entityId: created.id,
+        entityLabel: created.name,
+        after: { name: created.name, files: content.files.length, tags: content.tags },
+      })
+      return created
+    })
+    return NextResponse.json(toSkillTemplateResponse(template), { status: 201 })
+  } catch (err) {
+    if (isPrismaCode(err, 'P2002')) {
+      return NextResponse.json({ error: 'Template name already exists' }, { status: 409 })
+    }
+    console.error('POST /api/templates error:', err)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
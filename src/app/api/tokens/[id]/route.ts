@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { hasApiTokens, isAuthSchemaNotReadyError, requireSessionUser } from '@/lib/auth'
+import { API_TOKEN_NOT_READY_MESSAGE, toApiTokenResponse } from '@/lib/api-tokens'
+import { recordAuditEvent } from '@/lib/audit'
+
+export const runtime = 'nodejs'
+
+type RouteParams = { params: Promise<{ id: string }> }
+
+function parsePositiveId(raw: string): number | null {
+  const id = Number(raw)
+  if (!Number.isInteger(id) || id <= 0) return null
+  return id
+}
+
+/**
+ * DELETE /api/tokens/:id - 撤销自己的令牌（保留记录，重复撤销不改变撤销时间）
+ */
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  if (!hasApiTokens(prisma)) {
+    return NextResponse.json({ error: API_TOKEN_NOT_READY_MESSAGE }, { status: 503 })
+  }
+  const auth = await requireSessionUser(prisma, request)
+  if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: auth.status })
+
+  const { id } = await params
+  const tokenId = parsePositiveId(id)
+  if (!tokenId) return NextResponse.json({ error: 'Invalid token id' }, { status: 400 })
+
+  try {
+    const existing = await prisma.apiToken.findUnique({ where: { id: tokenId } })
+    // 别人的令牌也按不存在处理
+    if (!existing || existing.userId !== auth.user.id) {
+      return NextResponse.json({ error: 'Token not found' }, { status: 404 })
+    }
+    if (existing.revokedAt) return NextResponse.json(toApiTokenResponse(existing))
+    const row = await prisma.$transaction(async (tx) => {
+      const revoked = await tx.apiToken.update({ where: { id: tokenId }, data: { revokedAt: new Date() } })
+      await recordAuditEvent(tx, request, auth.user.username, {
+        action: 'token.revoke',
+        entityType: 'token',
+        entityId: revoked.id,
+        entityLabel: revoked.name,
+        before: { tokenPrefix: revoked.tokenPrefix },
+      })
+      return revoked
+    })
+    return NextResponse.json(toApiTokenResponse(row))
+  } catch (err) {
+    if (isAuthSchemaNotReadyError(err)) {
+      return NextResponse.json({ error: API_TOKEN_NOT_READY_MESSAGE }, { status: 503 })
+    }
+    console.error('DELETE /api/tokens/:id error:', err)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,91 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { generateApiToken, hasApiTokens, isAuthSchemaNotReadyError, requireSessionUser } from '@/lib/auth'
+import { API_TOKEN_NOT_READY_MESSAGE, createApiTokenSchema, toApiTokenResponse } from '@/lib/api-tokens'
+import { recordAuditEvent } from '@/lib/audit'
+
+export const runtime = 'nodejs'
+
+const DAY_MS = 24 * 3600 * 1000
+
+/**
+ * GET /api/tokens - 当前登录用户的 API 令牌（含已撤销），新到旧
+ */
+export async function GET(request: NextRequest) {
+  if (!hasApiTokens(prisma)) {
+    return NextResponse.json({ error: API_TOKEN_NOT_READY_MESSAGE }, { status: 503 })
+  }
+  const auth = await requireSessionUser(prisma, request)
+  if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: auth.status })
+
+  try {
+    const rows = await prisma.apiToken.findMany({
+      where: { userId: auth.user.id },
+      orderBy: { createdAt: 'desc' },
+    })
+    return NextResponse.json({ items: rows.map(toApiTokenResponse) })
+  } catch (err) {
+    if (isAuthSchemaNotReadyError(err)) {
+      return NextResponse.json({ error: API_TOKEN_NOT_READY_MESSAGE }, { status: 503 })
+    }
+    console.error('GET /api/tokens error:', err)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+/**
+ * POST /api/tokens
+ * body: { name, scopes: ApiTokenScope[], expiresInDays?: number | null }
+ * 明文令牌只在本次响应的 token 字段返回一次
+ */
+export async function POST(request: NextRequest) {
+  if (!hasApiTokens(prisma)) {
+    return NextResponse.json({ error: API_TOKEN_NOT_READY_MESSAGE }, { status: 503 })
+  }
+  const auth = await requireSessionUser(prisma, request)
+  if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: auth.status })
+
+  let body: unknown
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 })
+  }
+  const parsed = createApiTokenSchema.safeParse(body)
+  if (!parsed.success) {
+    return NextResponse.json({ error: 'Validation failed', details: parsed.error.issues }, { status: 400 })
+  }
+
+  const { token, tokenHash, tokenPrefix } = generateApiToken()
+  const { name, scopes, expiresInDays } = parsed.data
+  try {
+    const row = await prisma.$transaction(async (tx) => {
+      const created = await tx.apiToken.create({
+        data: {
+          userId: auth.user.id,
+          name,
+          tokenHash,
+          tokenPrefix,
+          scopes,
+          expiresAt: expiresInDays ? new Date(Date.now() + expiresInDays * DAY_MS) : null,
+        },
+      })
+      // 只记录前缀，令牌明文不进审计日志
+      await recordAuditEvent(tx, request, auth.user.username, {
+        action: 'token.create',
+        entityType: 'token',
+        entityId: created.id,
+        entityLabel: created.name,
+        after: { tokenPrefix, scopes, expiresAt: created.expiresAt ? created.expiresAt.toISOString() : null },
+      })
+      return created
+    })
+    return NextResponse.json({ ...toApiTokenResponse(row), token }, { status: 201 })
+  } catch (err) {
+    if (isAuthSchemaNotReadyError(err)) {
+      return NextResponse.json({ error: API_TOKEN_NOT_READY_MESSAGE }, { status: 503 })
+    }
+    console.error('POST /api/tokens error:', err)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { requireReader } from '@/lib/auth'
+import {
+  findSkillTriggerCollisions,
+  findTriggerCollisions,
+  loadTriggerSources,
+  parseCollisionThreshold,
+} from '@/lib/trigger-collisions'
+
+export const runtime = 'nodejs'
+
+function parsePositiveId(raw: string | null): number | null {
+  if (raw === null) return null
+  const value = Number(raw)
+  if (!Number.isInteger(value) || value <= 0) return null
+  return value
+}
+
+/**
+ * GET /api/triggers/collisions?threshold=0.8&skillId=1 - 全库触发词冲突报告（重复与高度相似的 Skill 对）
+ * 指定 skillId 时只返回与该 Skill 相关的冲突
+ */
+export async function GET(request: NextRequest) {
+  const reader = await requireReader(prisma, request)
+  if (!reader.ok) return NextResponse.json({ error: reader.error }, { status: reader.status })
+
+  const { searchParams } = new URL(request.url)
+  const threshold = parseCollisionThreshold(searchParams.get('threshold'))
+  const skillIdRaw = searchParams.get('skillId')
+  const skillId = parsePositiveId(skillIdRaw)
+  if (skillIdRaw !== null && !skillId) {
+    return NextResponse.json({ error: 'Invalid skill id' }, { status: 400 })
+  }
+
+  try {
+    const sources = await loadTriggerSources(prisma)
+    if (skillId) {
+      const source = sources.find((item) => item.id === skillId)
+      if (!source) {
+        return NextResponse.json({ error: 'Skill not found' }, { status: 404 })
+      }
+      return NextResponse.json({
+        threshold,
+        skillCount: sources.length,
+        collisions: findSkillTriggerCollisions(source, sources, threshold),
+      })
+    }
+    return NextResponse.json({
+      threshold,
+      skillCount: sources.length,
+      collisions: findTriggerCollisions(sources, threshold),
+    })
+  } catch (err) {
+    console.error('GET /api/triggers/collisions error:', err)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { readApiToken, requireActor } from '@/lib/auth'
+import { hasScope, PERMISSION_DENIED_MESSAGE } from '@/lib/permissions'
+import {
+  hasUsageEvents,
+  isUsageSchemaNotReadyError,
+  prepareUsageEvents,
+  usageBatchSchema,
+  USAGE_NOT_READY_MESSAGE,
+  verifyIngestToken,
+} from '@/lib/usage-analytics'
+
+export const runtime = 'nodejs'
+
+/**
+ * POST /api/usage/events - Agent 批量上报 Skill 调用事件
+ * 需携带 Authorization: Bearer <USAGE_INGEST_TOKEN> 或带 usage:write 的个人 API 令牌；
+ * 不合法或 slug 未知的事件计入 rejected，其余照常写入
+ */
+export async function POST(request: NextRequest) {
+  if (readApiToken(request)) {
+    const actor = await requireActor(prisma, request)
+    if (!actor.ok) return NextResponse.json({ error: actor.error }, { status: actor.status })
+    if (!hasScope(actor, 'usage:write')) {
+      return NextResponse.json({ error: PERMISSION_DENIED_MESSAGE }, { status: 403 })
+    }
+  } else {
+    const auth = verifyIngestToken(request.headers.get('authorization'))
+    if (auth === 'unconfigured') {
+      return NextResponse.json({ error: 'Usage ingestion is not configured' }, { status: 503 })
+    }
+    if (auth === 'unauthorized') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+  }
+  if (!hasUsageEvents(prisma)) {
+    return NextResponse.json({ error: USAGE_NOT_READY_MESSAGE }, { status: 503 })
+  }
+
+  let body: unknown
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 })
+  }
+
+  const parsed = usageBatchSchema.safeParse(body)
+  if (!parsed.success) {
+    return NextResponse.json({ error: 'Validation failed', details: parsed.error.issues }, { status: 400 })
+  }
+
+  const slugs = [...new Set(
+    parsed.data.events
+      .map((event) => (event && typeof event === 'object' ? (event as { slug?: unknown }).slug : undefined))
+      .filter((slug): slug is string => typeof slug === 'string')
+      .map((slug) => slug.trim())
+  )]
+
+  try {
+    const skills = slugs.length > 0
+      ? await prisma.skill.findMany({ where: { slug: { in: slugs } }, select: { id: true, slug: true } })
+      : []
+    const { accepted, rejected } = prepareUsageEvents(
+      parsed.data.events,
+      new Map(skills.map((skill) => [skill.slug, skill.id]))
+    )
+    const created = accepted.length > 0
+      ? await prisma.skillUsageEvent.createMany({ data: accepted })
+      : { count: 0 }
+
+    return NextResponse.json(
+      { accepted: created.count, rejected },
+      { status: accepted.length > 0 ? 202 : 400 }
+    )
+  } catch (err) {
+    if (isUsageSchemaNotReadyError(err)) {
+      return NextResponse.json({ error: USAGE_NOT_READY_MESSAGE }, { status: 503 })
+    }
+    console.error('POST /api/usage/events error:', err)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
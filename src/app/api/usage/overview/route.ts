@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { requireReader } from '@/lib/auth'
+import {
+  getUsageOverview,
+  hasUsageEvents,
+  isUsageSchemaNotReadyError,
+  parseUsageDays,
+  USAGE_NOT_READY_MESSAGE,
+} from '@/lib/usage-analytics'
+
+export const runtime = 'nodejs'
+
+/**
+ * GET /api/usage/overview?days=30 - 使用统计看板（Top skills、失败热点、趋势）
+ */
+export async function GET(request: NextRequest) {
+  const reader = await requireReader(prisma, request)
+  if (!reader.ok) return NextResponse.json({ error: reader.error }, { status: reader.status })
+
+  if (!hasUsageEvents(prisma)) {
+    return NextResponse.json({ error: USAGE_NOT_READY_MESSAGE }, { status: 503 })
+  }
+
+  const days = parseUsageDays(new URL(request.url).searchParams.get('days'))
+  try {
+    const overview = await getUsageOverview(
+      prisma.skillUsageEvent,
+      (ids) => prisma.skill.findMany({ where: { id: { in: ids } }, select: { id: true, title: true, slug: true } }),
+      days
+    )
+    return NextResponse.json(overview)
+  } catch (err) {
+    if (isUsageSchemaNotReadyError(err)) {
+      return NextResponse.json({ error: USAGE_NOT_READY_MESSAGE }, { status: 503 })
+    }
+    throw err
+  }
+}
@@ -0,0 +1,287 @@
+'use client'
+
+import { useCallback, useEffect, useMemo, useState } from 'react'
+import Link from 'next/link'
+import { Download, RefreshCw, Search } from 'lucide-react'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { useNotify } from '@/components/ui/notify-provider'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import {
+  AUDIT_ACTION_LABELS,
+  AUDIT_ACTIONS,
+  AUDIT_ENTITY_LABELS,
+  AUDIT_ENTITY_TYPES,
+  type AuditAction,
+  type AuditEntityType,
+  type AuditEventItem,
+  type AuditSummary,
+} from '@/lib/audit'
+import { useAuth } from '@/lib/auth-context'
+import { toUserFriendlyErrorMessage } from '@/lib/friendly-validation'
+import { guardedFetch } from '@/lib/guarded-fetch'
+
+type Filters = {
+  actor: string
+  action: string
+  entityType: string
+  entityId: string
+  skillId: string
+  requestId: string
+  from: string
+  to: string
+}
+
+const EMPTY_FILTERS: Filters = {
+  actor: '',
+  action: 'all',
+  entityType: 'all',
+  entityId: '',
+  skillId: '',
+  requestId: '',
+  from: '',
+  to: '',
+}
+
+function toQueryString(filters: Filters, page?: number): string {
+  const params = new URLSearchParams()
+  for (const [key, value] of Object.entries(filters)) {
+    const trimmed = value.trim()
+    if (trimmed && trimmed !== 'all') params.set(key, trimmed)
+  }
+  if (page && page > 1) params.set('page', String(page))
+  return params.toString()
+}
+
+function formatSummary(summary: AuditSummary | null): string {
+  if (!summary) return ''
+  return Object.entries(summary)
+    .map(([key, value]) => `${key}: ${Array.isArray(value) ? value.join(', ') || '—' : String(value ?? '—')}`)
+    .join('；')
+}
+
+function actionLabel(action: string): string {
+  return AUDIT_ACTION_LABELS[action as AuditAction] ?? action
+}
+
+function entityLabel(type: string): string {
+  return AUDIT_ENTITY_LABELS[type as AuditEntityType] ?? type
+}
+
+export default function AuditLogPage() {
+  const notify = useNotify()
+  const { can, loading: authLoading } = useAuth()
+  const [draft, setDraft] = useState<Filters>(EMPTY_FILTERS)
+  const [filters, setFilters] = useState<Filters>(EMPTY_FILTERS)
+  const [page, setPage] = useState(1)
+  const [items, setItems] = useState<AuditEventItem[]>([])
+  const [total, setTotal] = useState(0)
+  const [totalPages, setTotalPages] = useState(1)
+  const [loading, setLoading] = useState(true)
+  const allowed = can('audit:read')
+
+  const fetchEvents = useCallback(async () => {
+    setLoading(true)
+    try {
+      const res = await guardedFetch(`/api/audit?${toQueryString(filters, page)}`)
+      const data = await res.json().catch(() => ({}))
+      if (!res.ok) {
+        notify.error(toUserFriendlyErrorMessage(data.error || `加载审计日志失败（${res.status}）`))
+        setItems([])
+        return
+      }
+      setItems(data.items || [])
+      setTotal(data.total ?? 0)
+      setTotalPages(data.totalPages ?? 1)
+    } catch {
+      notify.error('加载审计日志失败，请稍后重试。')
+      setItems([])
+    } finally {
+      setLoading(false)
+    }
+  }, [filters, page, notify])
+
+  useEffect(() => {
+    if (authLoading) return
+    if (!allowed) {
+      setLoading(false)
+      return
+    }
+    void fetchEvents()
+  }, [authLoading, allowed, fetchEvents])
+
+  const exportHref = useMemo(() => {
+    const query = toQueryString(filters)
+    return `/api/audit/export.csv${query ? `?${query}` : ''}`
+  }, [filters])
+
+  const updateDraft = (key: keyof Filters, value: string) => setDraft((prev) => ({ ...prev, [key]: value }))
+
+  const applyFilters = (next: Filters) => {
+    setDraft(next)
+    setFilters(next)
+    setPage(1)
+  }
+
+  if (!authLoading && !allowed) {
+    return (
+      <div className="mx-auto max-w-3xl px-6 py-8">
+        <div className="card p-6 text-sm" style={{ color: 'var(--muted-foreground)' }}>
+          审计日志仅对审核人与管理员开放，请使用有权限的账号<Link href="/login?next=%2Faudit" className="mx-1 underline">登录</Link>。
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="mx-auto max-w-6xl px-6 py-8">
+      <div className="mb-5 flex items-center justify-between gap-3">
+        <div>
+          <h1 className="text-2xl font-semibold tracking-tight">审计日志</h1>
+          <p className="mt-1 text-sm" style={{ color: 'var(--muted-foreground)' }}>
+            所有写操作的只增记录：谁在什么时候对哪个对象做了什么，同一请求产生的多条记录共用请求 ID
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Button asChild variant="outline" size="sm" className="rounded-lg">
+            <a href={exportHref} download>
+              <Download className="h-3.5 w-3.5" /> 导出 CSV
+            </a>
+          </Button>
+          <Button onClick={() => void fetchEvents()} variant="outline" size="sm" className="rounded-lg">
+            <RefreshCw className="h-3.5 w-3.5" /> 刷新
+          </Button>
+        </div>
+      </div>
+
+      <form
+        className="card mb-5 grid gap-3 p-4 sm:grid-cols-2 lg:grid-cols-4"
+        onSubmit={(e) => {
+          e.preventDefault()
+          applyFilters(draft)
+        }}
+      >
+        <Input value={draft.actor} onChange={(e) => updateDraft('actor', e.target.value)} placeholder="操作者" />
+        <Select value={draft.action} onValueChange={(value) => updateDraft('action', value)}>
+          <SelectTrigger>
+            <SelectValue placeholder="动作" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">全部动作</SelectItem>
+            {AUDIT_ACTIONS.map((action) => (
+              <SelectItem key={action} value={action}>{AUDIT_ACTION_LABELS[action]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={draft.entityType} onValueChange={(value) => updateDraft('entityType', value)}>
+          <SelectTrigger>
+            <SelectValue placeholder="对象类型" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">全部对象</SelectItem>
+            {AUDIT_ENTITY_TYPES.map((type) => (
+              <SelectItem key={type} value={type}>{AUDIT_ENTITY_LABELS[type]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Input value={draft.entityId} onChange={(e) => updateDraft('entityId', e.target.value)} placeholder="对象 ID" />
+        <Input
+          value={draft.skillId}
+          onChange={(e) => updateDraft('skillId', e.target.value)}
+          placeholder="Skill ID"
+          inputMode="numeric"
+        />
+        <Input value={draft.requestId} onChange={(e) => updateDraft('requestId', e.target.value)} placeholder="请求 ID" />
+        <Input type="date" value={draft.from} onChange={(e) => updateDraft('from', e.target.value)} aria-label="开始日期" />
+        <Input type="date" value={draft.to} onChange={(e) => updateDraft('to', e.target.value)} aria-label="结束日期" />
+        <div className="flex justify-end gap-2 sm:col-span-2 lg:col-span-4">
+          <Button type="button" variant="ghost" size="sm" onClick={() => applyFilters(EMPTY_FILTERS)}>
+            重置
+          </Button>
+          <Button type="submit" size="sm">
+            <Search className="h-3.5 w-3.5" /> 筛选
+          </Button>
+        </div>
+      </form>
+
+      {loading ? (
+        <div className="card p-4 text-sm" style={{ color: 'var(--muted-foreground)' }}>加载中...</div>
+      ) : items.length === 0 ? (
+        <div className="card p-6 text-sm" style={{ color: 'var(--muted-foreground)' }}>没有符合条件的记录。</div>
+      ) : (
+        <div className="card overflow-x-auto" data-testid="audit-log">
+          <table className="w-full text-left text-xs">
+            <thead style={{ color: 'var(--muted-foreground)' }}>
+              <tr className="border-b">
+                <th className="px-3 py-2 font-medium">时间</th>
+                <th className="px-3 py-2 font-medium">操作者</th>
+                <th className="px-3 py-2 font-medium">动作</th>
+                <th className="px-3 py-2 font-medium">对象</th>
+                <th className="px-3 py-2 font-medium">变更摘要</th>
+                <th className="px-3 py-2 font-medium">请求 ID</th>
+              </tr>
+            </thead>
+            <tbody>
+              {items.map((item) => (
+                <tr key={item.id} className="border-b align-top last:border-b-0">
+                  <td className="whitespace-nowrap px-3 py-2">{new Date(item.createdAt).toLocaleString()}</td>
+                  <td className="px-3 py-2">{item.actor === 'SYS' ? '系统' : item.actor}</td>
+                  <td className="whitespace-nowrap px-3 py-2">
+                    <Badge variant={item.action.endsWith('.delete') ? 'destructive' : 'outline'}>{actionLabel(item.action)}</Badge>
+                  </td>
+                  <td className="px-3 py-2">
+                    <div>{entityLabel(item.entityType)} #{item.entityId}</div>
+                    {item.entityLabel && (
+                      item.skillId && item.entityType === 'skill' && item.action !== 'skill.delete' ? (
+                        <Link href={`/skills/${item.skillId}`} className="hover:underline" style={{ color: 'var(--muted-foreground)' }}>
+                          {item.entityLabel}
+                        </Link>
+                      ) : (
+                        <div style={{ color: 'var(--muted-foreground)' }}>{item.entityLabel}</div>
+                      )
+                    )}
+                  </td>
+                  <td className="max-w-md space-y-0.5 px-3 py-2 break-words">
+                    {item.before && <div style={{ color: 'var(--muted-foreground)' }}>前：{formatSummary(item.before)}</div>}
+                    {item.after && <div>后：{formatSummary(item.after)}</div>}
+                  </td>
+                  <td className="px-3 py-2">
+                    <button
+                      type="button"
+                      className="font-mono hover:underline"
+                      title="筛选同一请求的记录"
+                      onClick={() => applyFilters({ ...EMPTY_FILTERS, requestId: item.requestId })}
+                    >
+                      {item.requestId.slice(0, 8)}
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {!loading && total > 0 && (
+        <div className="mt-4 flex items-center justify-between text-xs" style={{ color: 'var(--muted-foreground)' }}>
+          <span>共 {total} 条 · 第 {page}/{totalPages} 页</span>
+          <div className="flex gap-2">
+            <Button type="button" variant="outline" size="sm" disabled={page <= 1} onClick={() => setPage((prev) => prev - 1)}>
+              上一页
+            </Button>
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              disabled={page >= totalPages}
+              onClick={() => setPage((prev) => prev + 1)}
+            >
+              下一页
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -9,6 +9,7 @@ import { ConfirmDialog } from '@/components/ui/confirm-dialog'
 import { useNotify } from '@/components/ui/notify-provider'
 import { toUserFriendlyErrorMessage } from '@/lib/friendly-validation'
 import { guardedFetch } from '@/lib/guarded-fetch'
+import { useAuth } from '@/lib/auth-context'
 
 type DraftMode = 'new' | 'edit'
 
@@ -30,6 +31,7 @@ function getDraftContinueUrl(item: DraftItem): string {
 
 export default function DraftsPage() {
   const notify = useNotify()
+  const { can } = useAuth()
   const [items, setItems] = useState<DraftItem[]>([])
   const [loading, setLoading] = useState(true)
   const [mode, setMode] = useState<'all' | DraftMode>('all')
@@ -176,15 +178,17 @@ export default function DraftsPage() {
                     <PencilLine className="h-3.5 w-3.5" /> 继续编辑
                   </Link>
                 </Button>
-                <Button
-                  type="button"
-                  variant="outline"
-                  size="sm"
-                  className="rounded-lg"
-                  onClick={() => setPendingDeleteKey(item.key)}
-                >
-                  <Trash2 className="h-3.5 w-3.5" /> 删除
-                </Button>
+                {can('skill:create') && (
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    className="rounded-lg"
+                    onClick={() => setPendingDeleteKey(item.key)}
+                  >
+                    <Trash2 className="h-3.5 w-3.5" /> 删除
+                  </Button>
+                )}
               </div>
             </div>
           ))
@@ -5,6 +5,7 @@ import { ChatProvider } from "@/lib/chat/chat-context";
 import { ChatPanel } from "@/components/chat-panel";
 import { ThemeProvider } from "@/lib/theme-context";
 import { NotifyProvider } from "@/components/ui/notify-provider";
+import { AuthProvider } from "@/lib/auth-context";
 
 export const metadata: Metadata = {
   title: "Skill 管理平台",
@@ -24,11 +25,13 @@ export default function RootLayout({
       >
         <ThemeProvider>
           <NotifyProvider>
-            <ChatProvider>
-              <Nav />
-              <main className="pt-14">{children}</main>
-              <ChatPanel />
-            </ChatProvider>
+            <AuthProvider>
+              <ChatProvider>
+                <Nav />
+                <main className="pt-14">{children}</main>
+                <ChatPanel />
+              </ChatProvider>
+            </AuthProvider>
           </NotifyProvider>
         </ThemeProvider>
       </body>
@@ -0,0 +1,100 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { Layers, LogIn } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { useAuth } from '@/lib/auth-context'
+import { toUserFriendlyErrorMessage } from '@/lib/friendly-validation'
+
+/** 只允许站内相对路径，避免登录后跳转到外部地址 */
+function safeNextPath(raw: string | null): string {
+  if (!raw || !raw.startsWith('/') || raw.startsWith('//') || raw.startsWith('/login')) return '/skills'
+  return raw
+}
+
+export default function LoginPage() {
+  const router = useRouter()
+  const { refresh } = useAuth()
+  const [username, setUsername] = useState('')
+  const [password, setPassword] = useState('')
+  const [submitting, setSubmitting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault()
+    setSubmitting(true)
+    setError(null)
+    try {
+      const res = await fetch('/api/auth/login', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ username: username.trim(), password }),
+      })
+      const data = await res.json().catch(() => ({}))
+      if (!res.ok) {
+        setError(toUserFriendlyErrorMessage(data.error || `登录失败（${res.status}）`))
+        return
+      }
+      await refresh()
+      router.replace(safeNextPath(new URLSearchParams(window.location.search).get('next')))
+    } catch {
+      setError('登录失败，请稍后重试。')
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  return (
+    <div className="mx-auto flex max-w-sm flex-col px-6 py-16">
+      <div className="mb-6 flex items-center gap-2.5">
+        <div
+          className="flex h-9 w-9 items-center justify-center rounded-lg"
+          style={{ background: 'var(--accent)', color: 'white' }}
+        >
+          <Layers className="h-4 w-4" />
+        </div>
+        <div>
+          <h1 className="text-xl font-semibold tracking-tight">登录</h1>
+          <p className="text-xs" style={{ color: 'var(--muted-foreground)' }}>使用本地账号登录 Skill 管理平台</p>
+        </div>
+      </div>
+
+      <form onSubmit={handleSubmit} className="space-y-4 rounded-xl border p-5" style={{ background: 'var(--card)' }}>
+        <div className="space-y-1.5">
+          <Label htmlFor="username">用户名</Label>
+          <Input
+            id="username"
+            autoComplete="username"
+            value={username}
+            onChange={(e) => setUsername(e.target.value)}
+            autoFocus
+            required
+          />
+        </div>
+        <div className="space-y-1.5">
+          <Label htmlFor="password">密码</Label>
+          <Input
+            id="password"
+            type="password"
+            autoComplete="current-password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            required
+          />
+        </div>
+        {error && (
+          <p className="text-sm" style={{ color: 'var(--danger)' }} role="alert">
+            {error}
+          </p>
+        )}
+        <Button type="submit" className="w-full rounded-lg" disabled={submitting || !username.trim() || !password}>
+          <LogIn className="h-3.5 w-3.5" />
+          {submitting ? '登录中…' : '登录'}
+        </Button>
+      </form>
+    </div>
+  )
+}
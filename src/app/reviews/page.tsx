@@ -0,0 +1,114 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import Link from 'next/link'
+import { ClipboardCheck, RefreshCw } from 'lucide-react'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { useNotify } from '@/components/ui/notify-provider'
+import { toUserFriendlyErrorMessage } from '@/lib/friendly-validation'
+import { guardedFetch } from '@/lib/guarded-fetch'
+import { REVIEW_STATUS_LABELS, type ReviewStatus, type SkillReviewItem } from '@/lib/skill-reviews'
+
+const STATUS_TABS: ReviewStatus[] = ['pending', 'changes_requested', 'approved']
+
+type QueueItem = SkillReviewItem & {
+  skill: { id: number; title: string; slug: string; owner: string }
+}
+
+function formatActor(item: { createdBy: string; createdByName: string | null }): string {
+  if (item.createdBy === 'SYS') return '系统'
+  return item.createdByName || item.createdBy
+}
+
+export default function ReviewQueuePage() {
+  const notify = useNotify()
+  const [status, setStatus] = useState<ReviewStatus>('pending')
+  const [items, setItems] = useState<QueueItem[]>([])
+  const [loading, setLoading] = useState(true)
+
+  const fetchQueue = useCallback(async () => {
+    setLoading(true)
+    try {
+      const res = await guardedFetch(`/api/reviews?status=${status}`)
+      const data = await res.json().catch(() => ({}))
+      if (!res.ok) {
+        notify.error(toUserFriendlyErrorMessage(data.error || `加载审核队列失败（${res.status}）`))
+        setItems([])
+        return
+      }
+      setItems(data.items || [])
+    } catch {
+      notify.error('加载审核队列失败，请稍后重试。')
+      setItems([])
+    } finally {
+      setLoading(false)
+    }
+  }, [status, notify])
+
+  useEffect(() => {
+    void fetchQueue()
+  }, [fetchQueue])
+
+  return (
+    <div className="mx-auto max-w-5xl px-6 py-8">
+      <div className="mb-5 flex items-center justify-between gap-3">
+        <div>
+          <h1 className="text-2xl font-semibold tracking-tight">审核队列</h1>
+          <p className="mt-1 text-sm" style={{ color: 'var(--muted-foreground)' }}>
+            作者提交的版本经审核人通过后才能发布；BLOCK 升级策略或声明了允许工具的 Skill 需两人通过
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          {STATUS_TABS.map((option) => (
+            <Button
+              key={option}
+              type="button"
+              size="sm"
+              variant={status === option ? 'default' : 'outline'}
+              className="rounded-lg"
+              onClick={() => setStatus(option)}
+            >
+              {REVIEW_STATUS_LABELS[option]}
+            </Button>
+          ))}
+          <Button onClick={() => void fetchQueue()} variant="outline" size="sm" className="rounded-lg">
+            <RefreshCw className="h-3.5 w-3.5" /> 刷新
+          </Button>
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="card p-4 text-sm" style={{ color: 'var(--muted-foreground)' }}>加载中...</div>
+      ) : items.length === 0 ? (
+        <div className="card p-6 text-sm" style={{ color: 'var(--muted-foreground)' }}>
+          暂无{REVIEW_STATUS_LABELS[status]}的提交。
+        </div>
+      ) : (
+        <div className="space-y-3" data-testid="review-queue">
+          {items.map((item) => (
+            <section key={item.id} className="card flex items-start justify-between gap-4 p-4">
+              <div className="min-w-0 space-y-1">
+                <div className="flex items-center gap-2 text-sm">
+                  <ClipboardCheck className="h-3.5 w-3.5 shrink-0" style={{ color: 'var(--accent)' }} />
+                  <Link href={`/skills/${item.skill.id}#review`} className="truncate font-medium hover:underline">
+                    {item.skill.title}
+                  </Link>
+                  <span className="text-xs" style={{ color: 'var(--muted-foreground)' }}>v{item.version}</span>
+                </div>
+                {item.note && <p className="text-sm">{item.note}</p>}
+                <p className="text-xs" style={{ color: 'var(--muted-foreground)' }}>
+                  {formatActor(item)} 提交于 {new Date(item.createdAt).toLocaleString()}
+                  {item.decisions.length > 0 && ` · ${item.decisions.length} 条审核意见`}
+                </p>
+              </div>
+              <Badge variant={item.status === 'changes_requested' ? 'destructive' : 'outline'} className="shrink-0">
+                通过 {item.approvals}/{item.requiredApprovals}
+              </Badge>
+            </section>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -6,12 +6,39 @@ import { SkillForm } from '@/components/skill-form'
 import type { SkillData } from '@/lib/types'
 import { toUserFriendlyErrorMessage } from '@/lib/friendly-validation'
 import { guardedFetch } from '@/lib/guarded-fetch'
+import { REVIEW_FIELD_LABELS, type SkillReviewItem, type SkillReviewOverview } from '@/lib/skill-reviews'
+
+/** 最近一次审核被要求修改时，在表单上方列出按字段锚定的意见 */
+function ReviewFeedback({ review }: { review: SkillReviewItem }) {
+  const decisions = review.decisions.filter((item) => item.decision === 'request_changes')
+  return (
+    <div className="mx-auto max-w-4xl px-6 pt-8" data-testid="review-feedback">
+      <div className="card p-4 text-sm" style={{ borderColor: 'var(--warning)' }}>
+        <p className="mb-2 font-medium">v{review.version} 审核要求修改，修改保存后请重新提交审核：</p>
+        <ul className="space-y-1">
+          {decisions.map((item) => (
+            <li key={item.id}>
+              {item.comment && <p>{item.comment}</p>}
+              {item.fieldComments.map((fieldComment, index) => (
+                <p key={index}>
+                  <span className="font-medium">{REVIEW_FIELD_LABELS[fieldComment.field]}：</span>
+                  {fieldComment.message}
+                </p>
+              ))}
+            </li>
+          ))}
+        </ul>
+      </div>
+    </div>
+  )
+}
 
 export default function EditSkillPage() {
   const params = useParams()
   const [skill, setSkill] = useState<(SkillData & { tags: string[] }) | null>(null)
   const [loading, setLoading] = useState(true)
   const [loadError, setLoadError] = useState('')
+  const [changesRequested, setChangesRequested] = useState<SkillReviewItem | null>(null)
 
   useEffect(() => {
     async function load() {
@@ -20,7 +47,13 @@ export default function EditSkillPage() {
         const res = await guardedFetch(`/api/skills/${params.id}`)
         if (res.ok) {
           const data = await res.json()
+          if (data.permissions && !data.permissions.edit) {
+            setSkill(null)
+            setLoadError('你没有编辑此 Skill 的权限，请联系负责人将你加为共同维护人。')
+            return
+          }
           setSkill(data)
+          void loadReviewFeedback()
         } else {
           const data = await res.json().catch(() => ({}))
           setSkill(null)
@@ -33,6 +66,13 @@ export default function EditSkillPage() {
         setLoading(false)
       }
     }
+    async function loadReviewFeedback() {
+      const res = await guardedFetch(`/api/skills/${params.id}/reviews`).catch(() => null)
+      if (!res?.ok) return
+      const data = (await res.json().catch(() => null)) as SkillReviewOverview | null
+      const latest = data?.items[0]
+      setChangesRequested(latest?.status === 'changes_requested' ? latest : null)
+    }
     void load()
   }, [params.id])
 
@@ -45,5 +85,10 @@ export default function EditSkillPage() {
     )
   }
 
-  return <SkillForm initialData={skill} skillId={Number(params.id)} />
+  return (
+    <>
+      {changesRequested && <ReviewFeedback review={changesRequested} />}
+      <SkillForm initialData={skill} skillId={Number(params.id)} />
+    </>
+  )
 }
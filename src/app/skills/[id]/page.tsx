@@ -3,10 +3,11 @@
 import { useState, useEffect, useCallback, useMemo, useRef } from 'react'
 import { useParams, useRouter } from 'next/navigation'
 import Link from 'next/link'
-import { Download, Edit, Trash2, CheckCircle, File, ChevronLeft, ChevronRight, Shield, Zap, FlaskConical, Copy, AlertCircle, History, UploadCloud, ExternalLink } from 'lucide-react'
+import { Download, Edit, Trash2, CheckCircle, File, ChevronLeft, ChevronRight, Shield, Zap, FlaskConical, Copy, AlertCircle, History, UploadCloud, ExternalLink, LayoutTemplate } from 'lucide-react'
 import ReactMarkdown from 'react-markdown'
 import remarkGfm from 'remark-gfm'
 import type { SkillGuardrails, SkillTestCase } from '@/lib/types'
+import type { QualityScore } from '@/lib/quality-score'
 import { Badge } from '@/components/ui/badge'
 import { Button } from '@/components/ui/button'
 import { ConfirmDialog } from '@/components/ui/confirm-dialog'
@@ -16,6 +17,20 @@ import { TagPill } from '@/components/tag-pill'
 import { toFriendlyLintIssues, toUserFriendlyErrorMessage } from '@/lib/friendly-validation'
 import { guardedFetch } from '@/lib/guarded-fetch'
 import { FilePreviewContent } from '@/components/file-preview-content'
+import { SkillVersionDiffView, type SkillVersionDiffResult } from '@/components/skill-version-diff'
+import { SaveAsTemplateDialog } from '@/components/skill-template-dialogs'
+import { SkillProposalTimeline } from '@/components/skill-proposal-timeline'
+import { SkillUsagePanel } from '@/components/skill-usage-panel'
+import { SkillChannelPanel } from '@/components/skill-channel-panel'
+import { DEFAULT_PUBLISH_CHANNEL, type SkillChannelItem } from '@/lib/skill-channels'
+import { SkillUpstreamPanel } from '@/components/skill-upstream-panel'
+import { SkillMaintainersPanel } from '@/components/skill-maintainers-panel'
+import { SkillReviewPanel } from '@/components/skill-review-panel'
+import { useAuth } from '@/lib/auth-context'
+import type { SkillReviewOverview } from '@/lib/skill-reviews'
+import { NO_SKILL_PERMISSIONS, type SkillPermissions } from '@/lib/permissions'
+import type { SkillUpstreamState } from '@/lib/skill-drift'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
 
 interface SkillDetail {
   id: number
@@ -33,6 +48,9 @@ interface SkillDetail {
   tags: string[]
   createdAt: string
   updatedAt: string
+  owner: string
+  maintainers: string[]
+  permissions?: SkillPermissions
 }
 
 interface SkillFileItem {
@@ -63,15 +81,45 @@ interface SkillVersionItem {
   version: number
   title: string | null
   status: string | null
+  fileCount: number | null
+  qualityScore: number | null
+  origin?: string
   createdAt: string
+  createdBy?: string
+  createdByName?: string | null
+}
+
+const VERSION_ORIGIN_LABELS: Record<string, string> = {
+  ai: 'AI',
+  rollback: '回滚',
+  import: '导入',
+}
+
+interface SkillVersionFile {
+  path: string
+  mime: string
+  isBinary: boolean
+  sha256: string
+  size: number
 }
 
 interface SkillPublicationItem {
   id: number
   versionId: number
   version: number
+  channel: string | null
   note: string | null
+  gitCommitSha: string | null
+  gitSyncedAt: string | null
   publishedAt: string
+  createdBy?: string
+  createdByName?: string | null
+}
+
+/** createdBy 为 SYS（未登录或历史数据）时显示为“系统” */
+function formatActor(item: { createdBy?: string; createdByName?: string | null }): string {
+  if (!item.createdBy || item.createdBy === 'SYS') return '系统'
+  return item.createdByName || item.createdBy
 }
 
 function formatBytes(size: number): string {
@@ -101,15 +149,18 @@ export default function SkillDetailPage() {
   const params = useParams()
   const router = useRouter()
   const notify = useNotify()
+  const { can, user } = useAuth()
   const skillId = Array.isArray(params.id) ? params.id[0] : params.id
   const [skill, setSkill] = useState<SkillDetail | null>(null)
   const [loading, setLoading] = useState(true)
   const [lintErrors, setLintErrors] = useState<LintError[]>([])
   const [lintPassed, setLintPassed] = useState(false)
+  const [quality, setQuality] = useState<QualityScore | null>(null)
   const [deleting, setDeleting] = useState(false)
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false)
   const [duplicating, setDuplicating] = useState(false)
   const [publishing, setPublishing] = useState(false)
+  const [templateDialogOpen, setTemplateDialogOpen] = useState(false)
   const [rollingVersionId, setRollingVersionId] = useState<number | null>(null)
   const [files, setFiles] = useState<SkillFileItem[]>([])
   const [filePreviewOpen, setFilePreviewOpen] = useState(false)
@@ -119,8 +170,36 @@ export default function SkillDetailPage() {
   const previewCacheRef = useRef<Map<string, SkillFileDetail>>(new Map())
   const [versions, setVersions] = useState<SkillVersionItem[]>([])
   const [versionLoading, setVersionLoading] = useState(false)
+  const [expandedVersionId, setExpandedVersionId] = useState<number | null>(null)
+  const [versionFiles, setVersionFiles] = useState<Record<number, SkillVersionFile[] | null>>({})
   const [publications, setPublications] = useState<SkillPublicationItem[]>([])
+  const [reviews, setReviews] = useState<SkillReviewOverview | null>(null)
+  const [gitSyncEnabled, setGitSyncEnabled] = useState(false)
+  const [gitSyncingId, setGitSyncingId] = useState<number | null>(null)
+  const [channels, setChannels] = useState<SkillChannelItem[]>([])
+  const [upstream, setUpstream] = useState<SkillUpstreamState | null>(null)
+  // default | working | channel:<name> | version:<n>
+  const [exportSource, setExportSource] = useState<string>('default')
+  const [compareFrom, setCompareFrom] = useState<string>('')
+  const [compareTo, setCompareTo] = useState<string>('current')
+  const [diffResult, setDiffResult] = useState<SkillVersionDiffResult | null>(null)
+  const [diffLoading, setDiffLoading] = useState(false)
   const friendlyLintIssues = useMemo(() => toFriendlyLintIssues(lintErrors), [lintErrors])
+  // 有 stable 渠道时默认导出其版本（与 status 无关）；选中的渠道或版本不存在时回退到默认
+  const hasStable = channels.some((channel) => channel.name === DEFAULT_PUBLISH_CHANNEL)
+  const exportQuery = useMemo(() => {
+    const separator = exportSource.indexOf(':')
+    const kind = separator === -1 ? exportSource : exportSource.slice(0, separator)
+    const value = separator === -1 ? '' : exportSource.slice(separator + 1)
+    if (kind === 'working') return '?working=1'
+    if (kind === 'channel' && channels.some((channel) => channel.name === value)) {
+      return `?channel=${encodeURIComponent(value)}`
+    }
+    if (kind === 'version' && versions.some((version) => String(version.version) === value)) {
+      return `?version=${value}`
+    }
+    return ''
+  }, [exportSource, channels, versions])
 
   const fetchSkill = useCallback(async () => {
     if (!skillId) return
@@ -187,18 +266,74 @@ export default function SkillDetailPage() {
       }
       const data = await res.json().catch(() => ({}))
       setPublications(Array.isArray(data.items) ? data.items : [])
+      setGitSyncEnabled(Boolean(data.gitSync?.enabled))
     } catch {
       notify.error('加载发布记录失败，请稍后重试。')
       setPublications([])
     }
   }, [skillId, notify])
 
+  const fetchChannels = useCallback(async () => {
+    if (!skillId) return
+    try {
+      const res = await guardedFetch(`/api/skills/${skillId}/channels`)
+      const data = await res.json().catch(() => ({}))
+      // 渠道表未初始化时静默
+      if (!res.ok) {
+        if (res.status !== 503) notify.error(toUserFriendlyErrorMessage(data.error || `加载发布渠道失败（${res.status}）`))
+        setChannels([])
+        return
+      }
+      setChannels(Array.isArray(data.items) ? data.items : [])
+    } catch {
+      notify.error('加载发布渠道失败，请稍后重试。')
+      setChannels([])
+    }
+  }, [skillId, notify])
+
+  const fetchReviews = useCallback(async () => {
+    if (!skillId) return
+    try {
+      const res = await guardedFetch(`/api/skills/${skillId}/reviews`)
+      const data = await res.json().catch(() => ({}))
+      // 审核表未初始化时静默
+      if (!res.ok) {
+        if (res.status !== 503) notify.error(toUserFriendlyErrorMessage(data.error || `加载审核记录失败（${res.status}）`))
+        setReviews(null)
+        return
+      }
+      setReviews(data)
+    } catch {
+      setReviews(null)
+    }
+  }, [skillId, notify])
+
+  const fetchUpstream = useCallback(async () => {
+    if (!skillId) return
+    try {
+      const res = await guardedFetch(`/api/skills/${skillId}/upstream`)
+      const data = await res.json().catch(() => ({}))
+      // 上游同步记录表未初始化时静默
+      if (!res.ok) {
+        if (res.status !== 503) notify.error(toUserFriendlyErrorMessage(data.error || `加载上游同步状态失败（${res.status}）`))
+        setUpstream(null)
+        return
+      }
+      setUpstream(data)
+    } catch {
+      setUpstream(null)
+    }
+  }, [skillId, notify])
+
   useEffect(() => {
     void fetchSkill()
     void fetchFiles()
     void fetchVersions()
     void fetchPublications()
-  }, [fetchSkill, fetchFiles, fetchVersions, fetchPublications])
+    void fetchChannels()
+    void fetchUpstream()
+    void fetchReviews()
+  }, [fetchSkill, fetchFiles, fetchVersions, fetchPublications, fetchChannels, fetchUpstream, fetchReviews])
 
   async function handleDelete() {
     setDeleteDialogOpen(true)
@@ -263,8 +398,15 @@ export default function SkillDetailPage() {
         notify.error(msg)
         return
       }
-      notify.success('Skill 已发布')
-      await Promise.all([fetchSkill(), fetchVersions(), fetchPublications()])
+      const data = await res.json().catch(() => ({}))
+      if (data.gitSync?.status === 'failed') {
+        notify.error(`Skill 已发布，但同步到 Git 失败：${data.gitSync.error}`)
+      } else if (data.gitSync?.status === 'synced') {
+        notify.success(`Skill 已发布，已提交到 Git（${String(data.gitSync.commitSha).slice(0, 7)}）`)
+      } else {
+        notify.success('Skill 已发布')
+      }
+      await Promise.all([fetchSkill(), fetchVersions(), fetchPublications(), fetchChannels(), fetchReviews()])
     } catch {
       notify.error('发布失败，请稍后重试。')
     } finally {
@@ -272,6 +414,25 @@ export default function SkillDetailPage() {
     }
   }
 
+  async function handleGitSync(publicationId: number) {
+    if (!skillId) return
+    setGitSyncingId(publicationId)
+    try {
+      const res = await guardedFetch(`/api/skills/${skillId}/publications/${publicationId}/git-sync`, { method: 'POST' })
+      const data = await res.json().catch(() => ({}))
+      if (!res.ok) {
+        notify.error(toUserFriendlyErrorMessage(data.details || data.error || `同步到 Git 失败（${res.status}）`))
+        return
+      }
+      notify.success(`已提交到 Git（${String(data.commitSha).slice(0, 7)}）`)
+      await fetchPublications()
+    } catch {
+      notify.error('同步到 Git 时网络异常，请重试。')
+    } finally {
+      setGitSyncingId(null)
+    }
+  }
+
   async function handleRollback(versionId: number) {
     if (!skillId) return
     setRollingVersionId(versionId)
@@ -288,7 +449,7 @@ export default function SkillDetailPage() {
         return
       }
       notify.success(`已回滚到版本 v${versions.find((item) => item.id === versionId)?.version || versionId}`)
-      await Promise.all([fetchSkill(), fetchVersions(), fetchPublications()])
+      await Promise.all([fetchSkill(), fetchFiles(), fetchVersions(), fetchPublications(), fetchUpstream(), fetchReviews()])
     } catch {
       notify.error('回滚失败，请稍后重试。')
     } finally {
@@ -296,16 +457,58 @@ export default function SkillDetailPage() {
     }
   }
 
+  async function toggleVersionFiles(versionId: number) {
+    if (!skillId) return
+    if (expandedVersionId === versionId) {
+      setExpandedVersionId(null)
+      return
+    }
+    setExpandedVersionId(versionId)
+    if (versionId in versionFiles) return
+    try {
+      const res = await guardedFetch(`/api/skills/${skillId}/versions/${versionId}`)
+      const data = await res.json().catch(() => ({}))
+      if (!res.ok) {
+        notify.error(toUserFriendlyErrorMessage(data.error || `加载版本失败（${res.status}）`))
+        return
+      }
+      setVersionFiles((prev) => ({ ...prev, [versionId]: Array.isArray(data.files) ? data.files : null }))
+    } catch {
+      notify.error('加载版本失败，请稍后重试。')
+    }
+  }
+
+  async function handleCompare() {
+    if (!skillId || !compareFrom) return
+    setDiffLoading(true)
+    try {
+      const query = new URLSearchParams({ from: compareFrom, to: compareTo })
+      const res = await guardedFetch(`/api/skills/${skillId}/versions/diff?${query.toString()}`)
+      const data = await res.json().catch(() => ({}))
+      if (!res.ok) {
+        notify.error(toUserFriendlyErrorMessage(data.error || `加载对比失败（${res.status}）`))
+        return
+      }
+      setDiffResult(data as SkillVersionDiffResult)
+    } catch {
+      notify.error('加载对比失败，请稍后重试。')
+    } finally {
+      setDiffLoading(false)
+    }
+  }
+
   async function handleLint() {
     setLintErrors([])
     setLintPassed(false)
+    setQuality(null)
     try {
       const res = await guardedFetch('/api/lint', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(skill),
+        body: JSON.stringify({ ...skill, files: files.map((file) => file.path) }),
       })
       const data = await res.json().catch(() => ({}))
+      setQuality(data.quality && Array.isArray(data.quality.rules) ? data.quality : null)
       if (data.valid) {
         setLintPassed(true)
         notify.success('校验通过')
@@ -440,8 +643,16 @@ export default function SkillDetailPage() {
     )
   }
 
+  const permissions = skill.permissions ?? NO_SKILL_PERMISSIONS
+
   return (
     <div className="mx-auto max-w-4xl px-6 py-8 animate-in">
+      <SaveAsTemplateDialog
+        open={templateDialogOpen}
+        onOpenChange={setTemplateDialogOpen}
+        skillId={skill.id}
+        defaultName={skill.title}
+      />
       <ConfirmDialog
         open={deleteDialogOpen}
         onOpenChange={setDeleteDialogOpen}
@@ -551,6 +762,12 @@ export default function SkillDetailPage() {
             >
               {skill.status === 'published' ? 'PUBLISHED' : 'DRAFT'}
             </Badge>
+            {upstream?.drift === 'modified' && (
+              <Badge variant="destructive" className="rounded-md px-2 py-0.5 text-[10px]">本地已修改</Badge>
+            )}
+            {upstream?.pending && (
+              <Badge variant="outline" className="rounded-md px-2 py-0.5 text-[10px]">上游有更新</Badge>
+            )}
           </div>
           {skill.tags.length > 0 && (
             <div className="mt-3 flex flex-wrap gap-1.5">
@@ -564,34 +781,52 @@ export default function SkillDetailPage() {
           )}
         </div>
         <div className="flex gap-2 ml-4">
-          <Button asChild variant="outline" className="rounded-lg">
-            <Link href={`/skills/${skill.id}/edit`}>
-              <Edit className="h-3.5 w-3.5" /> 编辑
-            </Link>
-          </Button>
-          <Button
-            onClick={handleDuplicate}
-            disabled={duplicating}
-            variant="outline"
-            className="rounded-lg"
-          >
-            <Copy className="h-3.5 w-3.5" /> {duplicating ? '复制中...' : '复制'}
-          </Button>
-          <Button
-            onClick={handlePublish}
-            disabled={publishing}
-            className="rounded-lg"
-          >
-            <UploadCloud className="h-3.5 w-3.5" /> {publishing ? '发布中...' : '发布'}
-          </Button>
-          <Button
-            onClick={handleDelete}
-            disabled={deleting}
-            variant="destructive"
-            className="rounded-lg"
-          >
-            <Trash2 className="h-3.5 w-3.5" /> 删除
-          </Button>
+          {permissions.edit && (
+            <Button asChild variant="outline" className="rounded-lg">
+              <Link href={`/skills/${skill.id}/edit`}>
+                <Edit className="h-3.5 w-3.5" /> 编辑
+              </Link>
+            </Button>
+          )}
+          {can('skill:create') && (
+            <Button
+              onClick={handleDuplicate}
+              disabled={duplicating}
+              variant="outline"
+              className="rounded-lg"
+            >
+              <Copy className="h-3.5 w-3.5" /> {duplicating ? '复制中...' : '复制'}
+            </Button>
+          )}
+          {can('template:manage') && (
+            <Button
+              onClick={() => setTemplateDialogOpen(true)}
+              variant="outline"
+              className="rounded-lg"
+            >
+              <LayoutTemplate className="h-3.5 w-3.5" /> 另存为模板
+            </Button>
+          )}
+          {permissions.publish && (
+            <Button
+              onClick={handlePublish}
+              disabled={publishing || (reviews ? !reviews.publishable : false)}
+              title={reviews && !reviews.publishable ? '最新版本通过审核后才能发布' : undefined}
+              className="rounded-lg"
+            >
+              <UploadCloud className="h-3.5 w-3.5" /> {publishing ? '发布中...' : '发布'}
+            </Button>
+          )}
+          {permissions.delete && (
+            <Button
+              onClick={handleDelete}
+              disabled={deleting}
+              variant="destructive"
+              className="rounded-lg"
+            >
+              <Trash2 className="h-3.5 w-3.5" /> 删除
+            </Button>
+          )}
         </div>
       </div>
 
@@ -790,30 +1025,152 @@ export default function SkillDetailPage() {
             <p className="text-sm" style={{ color: 'var(--muted-foreground)' }}>暂无版本记录</p>
           ) : (
             <div className="space-y-2">
-              {versions.map((version) => (
-                <div key={version.id} className="flex items-center justify-between rounded-lg p-2.5" style={{ background: 'var(--muted)' }}>
-                  <div>
-                    <p className="text-sm font-medium">v{version.version} · {version.title || '未命名版本'}</p>
-                    <p className="text-xs" style={{ color: 'var(--muted-foreground)' }}>
-                      {new Date(version.createdAt).toLocaleString()}
-                    </p>
-                  </div>
+              <div className="flex flex-wrap items-center gap-2 text-xs">
+                <span style={{ color: 'var(--muted-foreground)' }}>对比</span>
+                <Select value={compareFrom} onValueChange={(value) => { setCompareFrom(value); setDiffResult(null) }}>
+                  <SelectTrigger className="h-7 w-[140px] rounded-md px-2 text-xs">
+                    <SelectValue placeholder="选择版本" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {versions.map((version) => (
+                      <SelectItem key={version.id} value={String(version.id)}>v{version.version}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <span style={{ color: 'var(--muted-foreground)' }}>→</span>
+                <Select value={compareTo} onValueChange={(value) => { setCompareTo(value); setDiffResult(null) }}>
+                  <SelectTrigger className="h-7 w-[140px] rounded-md px-2 text-xs">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="current">当前内容</SelectItem>
+                    <SelectItem value="draft">未保存草稿</SelectItem>
+                    {versions.map((version) => (
+                      <SelectItem key={version.id} value={String(version.id)}>v{version.version}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  className="h-7 rounded-md px-2 text-xs"
+                  onClick={() => void handleCompare()}
+                  disabled={!compareFrom || diffLoading}
+                >
+                  {diffLoading ? '对比中...' : '查看差异'}
+                </Button>
+                {diffResult && (
                   <Button
                     type="button"
-                    variant="outline"
+                    variant="ghost"
                     size="sm"
                     className="h-7 rounded-md px-2 text-xs"
-                    onClick={() => void handleRollback(version.id)}
-                    disabled={rollingVersionId === version.id}
+                    onClick={() => setDiffResult(null)}
                   >
-                    {rollingVersionId === version.id ? '回滚中...' : '回滚到此版本'}
+                    关闭
                   </Button>
+                )}
+              </div>
+              {diffResult && (
+                <div className="rounded-lg border p-3" style={{ borderColor: 'var(--border)' }}>
+                  <SkillVersionDiffView diff={diffResult} />
+                </div>
+              )}
+              {versions.map((version) => (
+                <div key={version.id} className="rounded-lg p-2.5" style={{ background: 'var(--muted)' }}>
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <div className="flex items-center gap-2">
+                        <p className="text-sm font-medium">v{version.version} · {version.title || '未命名版本'}</p>
+                        {version.origin && VERSION_ORIGIN_LABELS[version.origin] && (
+                          <Badge variant={version.origin === 'ai' ? 'default' : 'outline'}>{VERSION_ORIGIN_LABELS[version.origin]}</Badge>
+                        )}
+                      </div>
+                      <p className="text-xs" style={{ color: 'var(--muted-foreground)' }}>
+                        {new Date(version.createdAt).toLocaleString()}
+                        {` · ${formatActor(version)} 保存`}
+                        {version.fileCount !== null && ` · ${version.fileCount} 个文件`}
+                        {version.qualityScore !== null && ` · 评分 ${version.qualityScore}`}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-1">
+                      {version.fileCount !== null && version.fileCount > 0 && (
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="sm"
+                          className="h-7 rounded-md px-2 text-xs"
+                          onClick={() => void toggleVersionFiles(version.id)}
+                        >
+                          {expandedVersionId === version.id ? '收起文件' : '查看文件'}
+                        </Button>
+                      )}
+                      {permissions.publish && (
+                        <Button
+                          type="button"
+                          variant="outline"
+                          size="sm"
+                          className="h-7 rounded-md px-2 text-xs"
+                          onClick={() => void handleRollback(version.id)}
+                          disabled={rollingVersionId === version.id}
+                        >
+                          {rollingVersionId === version.id ? '回滚中...' : '回滚到此版本'}
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+                  {expandedVersionId === version.id && (
+                    <ul className="mt-2 space-y-0.5 font-mono text-xs" style={{ color: 'var(--muted-foreground)' }}>
+                      {(versionFiles[version.id] || []).map((file) => (
+                        <li key={file.path}>
+                          {file.path} · {formatBytes(file.size)} · {file.sha256.slice(0, 8)}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
                 </div>
               ))}
             </div>
           )}
         </section>
 
+        {/* Review */}
+        <SkillReviewPanel
+          skillId={skill.id}
+          overview={reviews}
+          canSubmit={permissions.edit}
+          canReview={can('skill:review')}
+          actor={user?.username ?? 'SYS'}
+          onChanged={fetchReviews}
+        />
+
+        {/* Release Channels */}
+        <SkillChannelPanel
+          skillId={skill.id}
+          channels={channels}
+          versions={versions}
+          onChanged={async () => {
+            await Promise.all([fetchChannels(), fetchPublications()])
+          }}
+          readOnly={!permissions.publish}
+        />
+
+        {/* Upstream Sync */}
+        {upstream?.sourceManaged && (
+          <SkillUpstreamPanel
+            skillId={skill.id}
+            state={upstream}
+            onChanged={async () => {
+              await Promise.all([fetchSkill(), fetchFiles(), fetchVersions(), fetchUpstream(), fetchReviews()])
+            }}
+            readOnly={!permissions.edit}
+          />
+        )}
+
+        {/* Ownership */}
+        <SkillMaintainersPanel skillId={skill.id} canManage={permissions.manageMaintainers} onChanged={fetchSkill} />
+
         {/* Publication History */}
         <section className="card p-5">
           <h2 className="text-xs font-semibold uppercase tracking-wider mb-3" style={{ color: 'var(--muted-foreground)' }}>
@@ -825,9 +1182,34 @@ export default function SkillDetailPage() {
             <div className="space-y-2">
               {publications.map((item) => (
                 <div key={item.id} className="rounded-lg p-2.5" style={{ background: 'var(--muted)' }}>
-                  <p className="text-sm font-medium">版本 v{item.version}</p>
+                  <div className="flex items-center gap-2">
+                    <p className="text-sm font-medium">版本 v{item.version}</p>
+                    {item.channel && <Badge variant="outline">{item.channel}</Badge>}
+                    {item.gitCommitSha && (
+                      <span
+                        className="font-mono text-xs"
+                        style={{ color: 'var(--muted-foreground)' }}
+                        title={`Git 提交 ${item.gitCommitSha}`}
+                        data-testid="publication-git-sha"
+                      >
+                        {item.gitCommitSha.slice(0, 7)}
+                      </span>
+                    )}
+                    {gitSyncEnabled && permissions.publish && !item.gitCommitSha && (!item.channel || item.channel === DEFAULT_PUBLISH_CHANNEL) && (
+                      <Button
+                        type="button"
+                        variant="outline"
+                        size="sm"
+                        className="ml-auto h-7 rounded-md px-2 text-xs"
+                        disabled={gitSyncingId !== null}
+                        onClick={() => void handleGitSync(item.id)}
+                      >
+                        {gitSyncingId === item.id ? '同步中...' : '同步到 Git'}
+                      </Button>
+                    )}
+                  </div>
                   <p className="text-xs" style={{ color: 'var(--muted-foreground)' }}>
-                    发布于 {new Date(item.publishedAt).toLocaleString()}
+                    发布于 {new Date(item.publishedAt).toLocaleString()} · 发布人 {formatActor(item)}
                   </p>
                   {item.note && (
                     <p className="mt-1 text-xs" style={{ color: 'var(--muted-foreground)' }}>
@@ -840,6 +1222,12 @@ export default function SkillDetailPage() {
           )}
         </section>
 
+        {/* Usage Analytics */}
+        <SkillUsagePanel skillId={skill.id} />
+
+        {/* AI Proposal Timeline */}
+        <SkillProposalTimeline skillId={skill.id} />
+
         {/* Export Section */}
         <section className="card p-5">
           <h2 className="text-xs font-semibold uppercase tracking-wider mb-4" style={{ color: 'var(--muted-foreground)' }}>
@@ -874,23 +1262,61 @@ export default function SkillDetailPage() {
             </div>
           )}
 
+          {quality && (
+            <div className="mt-4 rounded-lg p-4" style={{ background: 'var(--muted)' }}>
+              <p className="mb-2 text-sm font-medium">质量评分 {quality.score} / 100</p>
+              <ul className="space-y-1.5">
+                {quality.rules.map((rule) => (
+                  <li key={rule.id} className="text-xs">
+                    <span className="font-medium">{rule.label}</span>{' '}
+                    <span style={{ color: 'var(--muted-foreground)' }}>
+                      {rule.points}/{rule.weight} · {rule.detail}
+                    </span>
+                    {rule.suggestion && (
+                      <p className="mt-0.5" style={{ color: 'var(--muted-foreground)' }}>建议：{rule.suggestion}</p>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
           {lintPassed && (
             <div className="mt-4 space-y-3">
               <div className="rounded-lg p-3 flex items-center gap-2" style={{ background: 'var(--success-light)' }}>
                 <CheckCircle className="h-4 w-4" style={{ color: 'var(--success)' }} />
                 <p className="text-sm font-medium" style={{ color: 'var(--success)' }}>校验通过</p>
               </div>
-              <div className="flex gap-2">
+              <div className="flex flex-wrap items-center gap-2">
+                {versions.length > 0 && (
+                  <Select value={exportQuery ? exportSource : 'default'} onValueChange={setExportSource}>
+                    <SelectTrigger className="h-9 w-[180px] rounded-lg text-sm" data-testid="export-source-select">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="default">{hasStable ? 'stable 渠道版本' : '工作副本（未发布）'}</SelectItem>
+                      {hasStable && <SelectItem value="working">工作副本</SelectItem>}
+                      {channels.map((channel) => (
+                        <SelectItem key={`channel-${channel.name}`} value={`channel:${channel.name}`}>
+                          渠道 {channel.name} · v{channel.version}
+                        </SelectItem>
+                      ))}
+                      {versions.map((version) => (
+                        <SelectItem key={`version-${version.id}`} value={`version:${version.version}`}>版本 v{version.version}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
                 <Button asChild className="rounded-lg">
-                  <a href={`/api/skills/${skill.id}/export.zip`} data-testid="export-zip-btn">
+                  <a href={`/api/skills/${skill.id}/export.zip${exportQuery}`} data-testid="export-zip-btn">
                     <Download className="h-3.5 w-3.5" /> 导出 ZIP
                   </a>
                 </Button>
                 <Button asChild variant="outline" className="rounded-lg">
-                  <a href={`/api/skills/${skill.id}/export.md`}>导出 MD</a>
+                  <a href={`/api/skills/${skill.id}/export.md${exportQuery}`}>导出 MD</a>
                 </Button>
                 <Button asChild variant="outline" className="rounded-lg">
-                  <a href={`/api/skills/${skill.id}/export.json`}>导出 JSON</a>
+                  <a href={`/api/skills/${skill.id}/export.json${exportQuery}`}>导出 JSON</a>
                 </Button>
               </div>
             </div>
@@ -0,0 +1,287 @@
+'use client'
+
+import { useState } from 'react'
+import Link from 'next/link'
+import { ArrowLeft, FileUp, RefreshCw, Upload } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { useNotify } from '@/components/ui/notify-provider'
+import { toFriendlyLintIssues, toUserFriendlyErrorMessage } from '@/lib/friendly-validation'
+import { guardedFetch } from '@/lib/guarded-fetch'
+import { lowConfidenceFields, type ExtractedField, type SkillFieldConfidence } from '@/lib/skill-extract'
+import type { LintError } from '@/lib/types'
+
+type ConflictStrategy = 'skip' | 'overwrite' | 'suffix'
+
+interface ImportPreviewItem {
+  index: number
+  source: string
+  skill: { title: string; slug: string; tags: string[]; steps: string[]; triggers: string[] }
+  files: Array<{ path: string; mime: string; isBinary: boolean; size: number }>
+  warnings: string[]
+  confidence: SkillFieldConfidence | null
+  lint: { valid: boolean; errors: LintError[] }
+  conflict: { skillId: number; title: string } | null
+  strategy: ConflictStrategy
+}
+
+interface ImportResultItem {
+  index: number
+  slug: string
+  status: 'created' | 'updated' | 'skipped' | 'invalid' | 'failed'
+  skillId?: number
+  error?: string
+}
+
+const STRATEGY_LABELS: Record<ConflictStrategy, string> = {
+  skip: '跳过',
+  overwrite: '覆盖为新版本',
+  suffix: '使用后缀 slug 导入',
+}
+
+const RESULT_LABELS: Record<ImportResultItem['status'], string> = {
+  created: '已创建',
+  updated: '已覆盖',
+  skipped: '已跳过',
+  invalid: '校验未通过',
+  failed: '导入失败',
+}
+
+const EXTRACTED_FIELD_LABELS: Record<ExtractedField, string> = {
+  title: '标题',
+  summary: '摘要',
+  inputs: '输入',
+  outputs: '输出',
+  steps: '步骤',
+  risks: '风险',
+  triggers: '触发词',
+  guardrails: '护栏',
+  tests: '测试用例',
+}
+
+function formatSize(size: number): string {
+  if (size < 1024) return `${size} B`
+  return `${(size / 1024).toFixed(1)} KB`
+}
+
+export default function ImportSkillsPage() {
+  const notify = useNotify()
+  const [file, setFile] = useState<File | null>(null)
+  const [items, setItems] = useState<ImportPreviewItem[]>([])
+  const [strategies, setStrategies] = useState<Record<number, ConflictStrategy>>({})
+  const [results, setResults] = useState<ImportResultItem[] | null>(null)
+  const [loading, setLoading] = useState(false)
+
+  async function submit(mode: 'preview' | 'commit') {
+    if (!file) return
+    const form = new FormData()
+    form.append('file', file)
+    form.append('mode', mode)
+    form.append('strategy', 'skip')
+    form.append('strategies', JSON.stringify(strategies))
+
+    setLoading(true)
+    try {
+      const res = await guardedFetch('/api/skills/import', { method: 'POST', body: form })
+      const data = await res.json().catch(() => ({}))
+      if (!res.ok) {
+        notify.error(toUserFriendlyErrorMessage(data.error || `导入失败（${res.status}）`))
+        return
+      }
+      const nextItems: ImportPreviewItem[] = Array.isArray(data.items) ? data.items : []
+      setItems(nextItems)
+      if (mode === 'preview') {
+        setResults(null)
+        setStrategies(Object.fromEntries(nextItems.map((item) => [item.index, item.strategy])))
+        return
+      }
+      const nextResults: ImportResultItem[] = Array.isArray(data.results) ? data.results : []
+      setResults(nextResults)
+      const imported = nextResults.filter((r) => r.status === 'created' || r.status === 'updated').length
+      notify.success(`导入完成：${imported}/${nextResults.length} 个 Skill 已写入`)
+    } catch {
+      notify.error('导入失败，请稍后重试。')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  function reset() {
+    setFile(null)
+    setItems([])
+    setStrategies({})
+    setResults(null)
+  }
+
+  const validCount = items.filter((item) => item.lint.valid).length
+  const resultByIndex = new Map((results || []).map((r) => [r.index, r]))
+
+  return (
+    <div className="mx-auto max-w-5xl px-6 py-8">
+      <div className="mb-5 flex items-center justify-between gap-3">
+        <div>
+          <h1 className="text-2xl font-semibold tracking-tight">导入 Skill</h1>
+          <p className="mt-1 text-sm" style={{ color: 'var(--muted-foreground)' }}>
+            支持 SKILL.md、export.json 与 export.zip，预览校验结果后再写入
+          </p>
+        </div>
+        <Button asChild variant="outline" className="rounded-lg">
+          <Link href="/skills">
+            <ArrowLeft className="h-3.5 w-3.5" /> 返回列表
+          </Link>
+        </Button>
+      </div>
+
+      <div className="card mb-4 flex flex-wrap items-center gap-3 p-4">
+        <label
+          className="flex cursor-pointer items-center gap-2 rounded-lg border px-3 py-2 text-sm"
+          style={{ borderColor: 'var(--border)' }}
+        >
+          <FileUp className="h-4 w-4" />
+          <span className="max-w-[280px] truncate">{file ? file.name : '选择文件（.md / .json / .zip）'}</span>
+          <input
+            type="file"
+            accept=".md,.markdown,.json,.zip"
+            className="hidden"
+            onChange={(e) => {
+              setFile(e.target.files?.[0] || null)
+              setItems([])
+              setStrategies({})
+              setResults(null)
+            }}
+          />
+        </label>
+        <Button
+          type="button"
+          className="rounded-lg"
+          disabled={!file || loading}
+          onClick={() => void submit('preview')}
+        >
+          {loading ? '解析中...' : '解析预览'}
+        </Button>
+        {(items.length > 0 || file) && (
+          <Button type="button" variant="outline" className="rounded-lg" onClick={reset} disabled={loading}>
+            <RefreshCw className="h-3.5 w-3.5" /> 重新选择
+          </Button>
+        )}
+      </div>
+
+      {items.length > 0 && (
+        <>
+          <div className="mb-3 flex items-center justify-between gap-3">
+            <span className="text-xs" style={{ color: 'var(--muted-foreground)' }}>
+              共 {items.length} 个 Skill · 校验通过 {validCount} 个
+            </span>
+            <Button
+              type="button"
+              className="rounded-lg"
+              disabled={loading || validCount === 0 || !!results}
+              onClick={() => void submit('commit')}
+            >
+              <Upload className="h-3.5 w-3.5" /> 确认导入
+            </Button>
+          </div>
+
+          <div className="space-y-2">
+            {items.map((item) => {
+              const result = resultByIndex.get(item.index)
+              const confidence = item.confidence
+              const uncertain = confidence ? lowConfidenceFields(confidence) : []
+              return (
+                <div key={item.index} className="card space-y-2 p-4">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <span className="text-sm font-medium">{item.skill.title || '(未命名)'}</span>
+                    <span className="font-mono text-xs" style={{ color: 'var(--muted-foreground)' }}>
+                      {item.skill.slug || '-'}
+                    </span>
+                    <Badge variant={item.lint.valid ? 'secondary' : 'destructive'} className="rounded-md px-2 py-0.5 text-[10px]">
+                      {item.lint.valid ? 'Lint 通过' : `Lint 错误 ${item.lint.errors.length}`}
+                    </Badge>
+                    {result && (
+                      <Badge variant="outline" className="rounded-md px-2 py-0.5 text-[10px]">
+                        {RESULT_LABELS[result.status]}
+                      </Badge>
+                    )}
+                    {result?.skillId && (result.status === 'created' || result.status === 'updated') && (
+                      <Link href={`/skills/${result.skillId}`} className="ml-auto text-xs underline">
+                        查看
+                      </Link>
+                    )}
+                  </div>
+
+                  <p className="text-xs" style={{ color: 'var(--muted-foreground)' }}>
+                    来源 {item.source} · 步骤 {item.skill.steps.length} · 触发词 {item.skill.triggers.length} · 文件 {item.files.length}
+                  </p>
+
+                  {confidence && uncertain.length > 0 && (
+                    <p className="text-xs" style={{ color: 'var(--muted-foreground)' }}>
+                      以下字段由 SKILL.md 推断，建议导入后确认：
+                      {uncertain.map((field) => `${EXTRACTED_FIELD_LABELS[field]}（${Math.round(confidence[field] * 100)}%）`).join('、')}
+                    </p>
+                  )}
+
+                  {item.conflict && (
+                    <div className="flex flex-wrap items-center gap-2 text-xs">
+                      <span style={{ color: 'var(--danger)' }}>
+                        slug 已被「{item.conflict.title}」使用
+                      </span>
+                      <Select
+                        value={strategies[item.index] || 'skip'}
+                        onValueChange={(value) =>
+                          setStrategies((prev) => ({ ...prev, [item.index]: value as ConflictStrategy }))
+                        }
+                        disabled={!!results}
+                      >
+                        <SelectTrigger className="h-7 w-[160px] rounded-md px-2 text-xs">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {(Object.keys(STRATEGY_LABELS) as ConflictStrategy[]).map((key) => (
+                            <SelectItem key={key} value={key}>{STRATEGY_LABELS[key]}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  )}
+
+                  {item.files.length > 0 && (
+                    <ul className="space-y-0.5 font-mono text-xs" style={{ color: 'var(--muted-foreground)' }}>
+                      {item.files.map((f) => (
+                        <li key={f.path}>
+                          {f.path} · {f.isBinary ? 'binary' : 'text'} · {formatSize(f.size)}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+
+                  {!item.lint.valid && (
+                    <ul className="space-y-0.5 text-xs" style={{ color: 'var(--danger)' }}>
+                      {toFriendlyLintIssues(item.lint.errors).map((issue, i) => (
+                        <li key={`${issue.field}-${i}`}>
+                          {issue.fieldLabel}：{issue.message}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+
+                  {item.warnings.length > 0 && (
+                    <ul className="space-y-0.5 text-xs" style={{ color: 'var(--muted-foreground)' }}>
+                      {item.warnings.map((warning) => (
+                        <li key={warning}>⚠ {warning}</li>
+                      ))}
+                    </ul>
+                  )}
+
+                  {result?.error && (
+                    <p className="text-xs" style={{ color: 'var(--danger)' }}>{result.error}</p>
+                  )}
+                </div>
+              )
+            })}
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
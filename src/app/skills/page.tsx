@@ -2,7 +2,7 @@
 
 import { useState, useEffect, useCallback, useMemo, useRef } from 'react'
 import Link from 'next/link'
-import { Search, Download, ArrowRight, Package, Tag, Trash2, LayoutGrid, List } from 'lucide-react'
+import { Search, Download, ArrowRight, Package, Tag, Trash2, LayoutGrid, List, Upload } from 'lucide-react'
 import { Button } from '@/components/ui/button'
 import { ConfirmDialog } from '@/components/ui/confirm-dialog'
 import { Input } from '@/components/ui/input'
@@ -20,6 +20,7 @@ import { useNotify } from '@/components/ui/notify-provider'
 import { TagCountPill, TagPill } from '@/components/tag-pill'
 import { toFriendlyLintSummary, toUserFriendlyErrorMessage } from '@/lib/friendly-validation'
 import { guardedFetch } from '@/lib/guarded-fetch'
+import { useAuth } from '@/lib/auth-context'
 import { normalizeTagNames } from '@/lib/tag-normalize'
 
 interface Skill {
@@ -28,7 +29,9 @@ interface Skill {
   slug: string
   summary: string
   tags: string[]
+  qualityScore: number | null
   updatedAt: string
+  owner: string
 }
 
 interface Tag {
@@ -68,6 +71,7 @@ export default function SkillsListPage() {
   const [page, setPage] = useState(1)
   const [limit, setLimit] = useState(9)
   const [sort, setSort] = useState('updated_desc')
+  const [minScore, setMinScore] = useState('all')
   const [viewMode, setViewMode] = useState<'card' | 'list'>('card')
   const [viewModeHydrated, setViewModeHydrated] = useState(false)
   const [total, setTotal] = useState(0)
@@ -78,6 +82,7 @@ export default function SkillsListPage() {
   const [batchTagInput, setBatchTagInput] = useState('')
   const [batchLoading, setBatchLoading] = useState(false)
   const [batchDeleteDialogOpen, setBatchDeleteDialogOpen] = useState(false)
+  const { can } = useAuth()
   const lastQueryCommitAtRef = useRef(0)
   const hasFetchedOnceRef = useRef(false)
 
@@ -104,6 +109,7 @@ export default function SkillsListPage() {
     params.set('page', String(page))
     params.set('limit', String(limit))
     params.set('sort', sort)
+    if (minScore !== 'all') params.set('minScore', minScore)
     try {
       const res = await guardedFetch(`/api/skills?${params}`, { signal }, { throttleMs: 0 })
       if (res.ok) {
@@ -144,7 +150,7 @@ export default function SkillsListPage() {
         }
       }
     }
-  }, [query, selectedTags, page, limit, sort, notify])
+  }, [query, selectedTags, page, limit, sort, minScore, notify])
 
   useEffect(() => {
     void fetchTags()
@@ -193,7 +199,7 @@ export default function SkillsListPage() {
 
   useEffect(() => {
     setPage((prev) => (prev === 1 ? prev : 1))
-  }, [query, selectedTags, limit, sort])
+  }, [query, selectedTags, limit, sort, minScore])
 
   useEffect(() => {
     setSelectedSkillIds((prev) => prev.filter((id) => skills.some((skill) => skill.id === id)))
@@ -219,6 +225,12 @@ export default function SkillsListPage() {
   }
 
   const selectedCount = selectedSkillIds.length
+  // 删除权限只取决于负责人；其他页选中的 Skill 由服务端校验
+  const canBulkDelete =
+    can('skill:create') &&
+    skills
+      .filter((skill) => selectedSkillIds.includes(skill.id))
+      .every((skill) => can('skill:delete', { owner: skill.owner, maintainers: [] }))
   const visiblePages = useMemo(() => getVisiblePages(page, Math.max(1, totalPages)), [page, totalPages])
   const allCurrentPageSelected = useMemo(() => {
     if (skills.length === 0) return false
@@ -330,11 +342,20 @@ export default function SkillsListPage() {
       />
 
       {/* Page Header */}
-      <div className="mb-8">
-        <h1 className="text-2xl font-semibold tracking-tight">技能列表</h1>
-        <p className="mt-1 text-sm" style={{ color: 'var(--muted-foreground)' }}>
-          管理和组织你的 Skill 协议
-        </p>
+      <div className="mb-8 flex items-center justify-between gap-3">
+        <div>
+          <h1 className="text-2xl font-semibold tracking-tight">技能列表</h1>
+          <p className="mt-1 text-sm" style={{ color: 'var(--muted-foreground)' }}>
+            管理和组织你的 Skill 协议
+          </p>
+        </div>
+        {can('skill:create') && (
+          <Button asChild variant="outline" className="rounded-lg">
+            <Link href="/skills/import">
+              <Upload className="h-3.5 w-3.5" /> 导入 Skill
+            </Link>
+          </Button>
+        )}
       </div>
 
       {/* Search & Filters */}
@@ -366,6 +387,24 @@ export default function SkillsListPage() {
                 <SelectItem value="created_asc">最早创建</SelectItem>
                 <SelectItem value="title_asc">标题 A-Z</SelectItem>
                 <SelectItem value="title_desc">标题 Z-A</SelectItem>
+                <SelectItem value="score_desc">评分从高到低</SelectItem>
+                <SelectItem value="score_asc">评分从低到高</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="flex items-center gap-1">
+            <span className="text-xs" style={{ color: 'var(--muted-foreground)' }}>评分</span>
+            <Select value={minScore} onValueChange={setMinScore}>
+              <SelectTrigger
+                className="h-8 w-[96px] rounded-md border-[var(--border)] bg-[var(--card)] px-2 text-xs"
+              >
+                <SelectValue placeholder="评分" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">全部</SelectItem>
+                <SelectItem value="60">≥ 60</SelectItem>
+                <SelectItem value="80">≥ 80</SelectItem>
+                <SelectItem value="90">≥ 90</SelectItem>
               </SelectContent>
             </Select>
           </div>
@@ -425,6 +464,14 @@ export default function SkillsListPage() {
                 <span className="ml-1 opacity-60">{tag.count}</span>
               </Button>
             ))}
+            {selectedTags.length > 0 && (
+              <Button asChild variant="outline" className="h-auto rounded-lg px-3 py-1.5 text-xs font-medium">
+                <a href={`/api/export/bundle?tags=${encodeURIComponent(selectedTags.join(','))}`}>
+                  <Download className="h-3.5 w-3.5" />
+                  按标签导出合集
+                </a>
+              </Button>
+            )}
           </div>
         )}
 
@@ -433,33 +480,45 @@ export default function SkillsListPage() {
             <span className="text-xs font-medium" style={{ color: 'var(--muted-foreground)' }}>
               已选中 {selectedCount} 项
             </span>
-            <Input
-              value={batchTagInput}
-              onChange={(e) => setBatchTagInput(e.target.value)}
-              placeholder="批量添加标签（如: alpha, beta）"
-              className="h-8 min-w-[220px] flex-1 rounded-md text-xs"
-            />
-            <Button
-              type="button"
-              size="sm"
-              className="h-8 rounded-md px-3 text-xs"
-              disabled={batchLoading || normalizeTagNames(batchTagInput.split(',')).length === 0}
-              onClick={() => void handleBatchAddTags()}
-            >
-              <Tag className="mr-1 h-3.5 w-3.5" />
-              批量加标签
-            </Button>
-            <Button
-              type="button"
-              size="sm"
-              variant="outline"
-              className="h-8 rounded-md border-[var(--danger)] px-3 text-xs text-[var(--danger)]"
-              disabled={batchLoading}
-              onClick={() => void handleBatchDelete()}
-            >
-              <Trash2 className="mr-1 h-3.5 w-3.5" />
-              批量删除
+            {can('skill:create') && (
+              <>
+                <Input
+                  value={batchTagInput}
+                  onChange={(e) => setBatchTagInput(e.target.value)}
+                  placeholder="批量添加标签（如: alpha, beta）"
+                  className="h-8 min-w-[220px] flex-1 rounded-md text-xs"
+                />
+                <Button
+                  type="button"
+                  size="sm"
+                  className="h-8 rounded-md px-3 text-xs"
+                  disabled={batchLoading || normalizeTagNames(batchTagInput.split(',')).length === 0}
+                  onClick={() => void handleBatchAddTags()}
+                >
+                  <Tag className="mr-1 h-3.5 w-3.5" />
+                  批量加标签
+                </Button>
+              </>
+            )}
+            <Button asChild type="button" size="sm" variant="outline" className="h-8 rounded-md px-3 text-xs">
+              <a href={`/api/export/bundle?ids=${selectedSkillIds.join(',')}`} data-testid="batch-export-bundle-btn">
+                <Download className="mr-1 h-3.5 w-3.5" />
+                导出合集
+              </a>
             </Button>
+            {canBulkDelete && (
+              <Button
+                type="button"
+                size="sm"
+                variant="outline"
+                className="h-8 rounded-md border-[var(--danger)] px-3 text-xs text-[var(--danger)]"
+                disabled={batchLoading}
+                onClick={() => void handleBatchDelete()}
+              >
+                <Trash2 className="mr-1 h-3.5 w-3.5" />
+                批量删除
+              </Button>
+            )}
           </div>
         )}
       </div>
@@ -499,12 +558,14 @@ export default function SkillsListPage() {
           <p className="mt-1 text-sm" style={{ color: 'var(--muted-foreground)' }}>
             创建你的第一个 Skill 协议开始使用
           </p>
-          <Button asChild className="mt-4 rounded-lg">
-            <Link href="/skills/new">
-              创建 Skill
-              <ArrowRight className="h-3.5 w-3.5" />
-            </Link>
-          </Button>
+          {can('skill:create') && (
+            <Button asChild className="mt-4 rounded-lg">
+              <Link href="/skills/new">
+                创建 Skill
+                <ArrowRight className="h-3.5 w-3.5" />
+              </Link>
+            </Button>
+          )}
         </div>
       ) : (
         <div className="space-y-4">
@@ -597,10 +658,15 @@ export default function SkillsListPage() {
                     )}
                   </div>
 
-                  <div className="mt-auto border-t pt-3" style={{ borderColor: 'var(--border)' }}>
+                  <div className="mt-auto flex items-center justify-between border-t pt-3" style={{ borderColor: 'var(--border)' }}>
                     <span className="text-xs" style={{ color: 'var(--muted-foreground)' }}>
                       更新于 {formatUpdateDate(skill.updatedAt)}
                     </span>
+                    {typeof skill.qualityScore === 'number' && (
+                      <span className="text-xs font-medium" title="质量评分">
+                        {skill.qualityScore} 分
+                      </span>
+                    )}
                   </div>
                 </Link>
               ))}
@@ -636,7 +702,14 @@ export default function SkillsListPage() {
                     </div>
 
                     <div className="min-w-0">
-                      <p className="truncate text-sm font-medium">{skill.title}</p>
+                      <p className="truncate text-sm font-medium">
+                        {skill.title}
+                        {typeof skill.qualityScore === 'number' && (
+                          <span className="ml-2 text-xs font-normal" style={{ color: 'var(--muted-foreground)' }} title="质量评分">
+                            {skill.qualityScore} 分
+                          </span>
+                        )}
+                      </p>
                       <p className="mt-0.5 line-clamp-1 text-xs" style={{ color: 'var(--muted-foreground)' }}>
                         {skill.summary}
                       </p>
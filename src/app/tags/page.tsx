@@ -20,6 +20,7 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { TagPill } from '@/components/tag-pill'
 import { toUserFriendlyErrorMessage } from '@/lib/friendly-validation'
 import { guardedFetch } from '@/lib/guarded-fetch'
+import { useAuth } from '@/lib/auth-context'
 
 interface TagItem {
   id: number
@@ -57,6 +58,8 @@ function getVisiblePages(currentPage: number, totalPages: number): Array<number
 
 export default function TagsPage() {
   const notify = useNotify()
+  const { can } = useAuth()
+  const canManageTags = can('tag:manage')
   const [tags, setTags] = useState<TagItem[]>([])
   const [queryInput, setQueryInput] = useState('')
   const [query, setQuery] = useState('')
@@ -382,44 +385,48 @@ export default function TagsPage() {
                       <FolderTree className="h-3.5 w-3.5" />
                       关联技能
                     </Button>
-                    <Button
-                      type="button"
-                      variant="secondary"
-                      size="sm"
-                      className="rounded-md"
-                      onClick={() => {
-                        setEditingTagId(tag.id)
-                        setEditingName(tag.name)
-                        setMergingTagId(null)
-                        setMergeTargetId('')
-                      }}
-                    >
-                      重命名
-                    </Button>
-                    <Button
-                      type="button"
-                      variant="secondary"
-                      size="sm"
-                      className="rounded-md"
-                      onClick={() => {
-                        setMergingTagId(tag.id)
-                        setMergeTargetId('')
-                        setEditingTagId(null)
-                        setEditingName('')
-                      }}
-                    >
-                      合并
-                    </Button>
-                    <Button
-                      type="button"
-                      variant="destructive"
-                      size="sm"
-                      className="rounded-md"
-                      disabled={busyTagId === tag.id}
-                      onClick={() => void handleDelete(tag)}
-                    >
-                      删除
-                    </Button>
+                    {canManageTags && (
+                      <>
+                        <Button
+                          type="button"
+                          variant="secondary"
+                          size="sm"
+                          className="rounded-md"
+                          onClick={() => {
+                            setEditingTagId(tag.id)
+                            setEditingName(tag.name)
+                            setMergingTagId(null)
+                            setMergeTargetId('')
+                          }}
+                        >
+                          重命名
+                        </Button>
+                        <Button
+                          type="button"
+                          variant="secondary"
+                          size="sm"
+                          className="rounded-md"
+                          onClick={() => {
+                            setMergingTagId(tag.id)
+                            setMergeTargetId('')
+                            setEditingTagId(null)
+                            setEditingName('')
+                          }}
+                        >
+                          合并
+                        </Button>
+                        <Button
+                          type="button"
+                          variant="destructive"
+                          size="sm"
+                          className="rounded-md"
+                          disabled={busyTagId === tag.id}
+                          onClick={() => void handleDelete(tag)}
+                        >
+                          删除
+                        </Button>
+                      </>
+                    )}
                   </div>
                 </div>
 
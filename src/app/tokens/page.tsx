@@ -0,0 +1,262 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import Link from 'next/link'
+import { Copy, KeyRound, Loader2, Plus } from 'lucide-react'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { ConfirmDialog } from '@/components/ui/confirm-dialog'
+import { Input } from '@/components/ui/input'
+import { useNotify } from '@/components/ui/notify-provider'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { useAuth } from '@/lib/auth-context'
+import type { ApiTokenItem } from '@/lib/api-tokens'
+import { toUserFriendlyErrorMessage } from '@/lib/friendly-validation'
+import { guardedFetch } from '@/lib/guarded-fetch'
+import { API_TOKEN_SCOPE_LABELS, API_TOKEN_SCOPES, type ApiTokenScope } from '@/lib/permissions'
+
+const EXPIRY_OPTIONS = [
+  { value: '30', label: '30 天' },
+  { value: '90', label: '90 天' },
+  { value: '365', label: '1 年' },
+  { value: 'never', label: '永不过期' },
+]
+
+function tokenState(item: ApiTokenItem): { label: string; variant: 'outline' | 'destructive' | 'secondary' } {
+  if (item.revokedAt) return { label: '已撤销', variant: 'secondary' }
+  if (item.expiresAt && new Date(item.expiresAt).getTime() <= Date.now()) return { label: '已过期', variant: 'destructive' }
+  return { label: '有效', variant: 'outline' }
+}
+
+export default function ApiTokensPage() {
+  const notify = useNotify()
+  const { user, loading: authLoading } = useAuth()
+  const [items, setItems] = useState<ApiTokenItem[]>([])
+  const [loading, setLoading] = useState(true)
+  const [name, setName] = useState('')
+  const [scopes, setScopes] = useState<ApiTokenScope[]>(['skills:read'])
+  const [expiry, setExpiry] = useState('90')
+  const [creating, setCreating] = useState(false)
+  const [issuedToken, setIssuedToken] = useState<string | null>(null)
+  const [pendingRevoke, setPendingRevoke] = useState<ApiTokenItem | null>(null)
+  const [revoking, setRevoking] = useState(false)
+
+  const fetchTokens = useCallback(async () => {
+    setLoading(true)
+    try {
+      const res = await guardedFetch('/api/tokens')
+      const data = await res.json().catch(() => ({}))
+      if (!res.ok) {
+        notify.error(toUserFriendlyErrorMessage(data.error || `加载令牌失败（${res.status}）`))
+        setItems([])
+        return
+      }
+      setItems(data.items || [])
+    } catch {
+      notify.error('加载令牌失败，请稍后重试。')
+      setItems([])
+    } finally {
+      setLoading(false)
+    }
+  }, [notify])
+
+  useEffect(() => {
+    if (authLoading) return
+    if (!user) {
+      setLoading(false)
+      return
+    }
+    void fetchTokens()
+  }, [authLoading, user, fetchTokens])
+
+  const toggleScope = (scope: ApiTokenScope) => {
+    setScopes((prev) => (prev.includes(scope) ? prev.filter((item) => item !== scope) : [...prev, scope]))
+  }
+
+  const createToken = async () => {
+    setCreating(true)
+    try {
+      const res = await guardedFetch('/api/tokens', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name, scopes, expiresInDays: expiry === 'never' ? null : Number(expiry) }),
+      })
+      const data = await res.json().catch(() => ({}))
+      if (!res.ok) {
+        notify.error(toUserFriendlyErrorMessage(data.error || `创建令牌失败（${res.status}）`))
+        return
+      }
+      const { token, ...item } = data as ApiTokenItem & { token: string }
+      setIssuedToken(token)
+      setItems((prev) => [item, ...prev])
+      setName('')
+      notify.success('令牌已创建，请立即复制保存')
+    } catch {
+      notify.error('创建令牌失败，请稍后重试。')
+    } finally {
+      setCreating(false)
+    }
+  }
+
+  const revokeToken = async () => {
+    if (!pendingRevoke) return
+    setRevoking(true)
+    try {
+      const res = await guardedFetch(`/api/tokens/${pendingRevoke.id}`, { method: 'DELETE' })
+      const data = await res.json().catch(() => ({}))
+      if (!res.ok) {
+        notify.error(toUserFriendlyErrorMessage(data.error || `撤销令牌失败（${res.status}）`))
+        return
+      }
+      setItems((prev) => prev.map((item) => (item.id === data.id ? data : item)))
+      setPendingRevoke(null)
+      notify.success('令牌已撤销')
+    } catch {
+      notify.error('撤销令牌失败，请稍后重试。')
+    } finally {
+      setRevoking(false)
+    }
+  }
+
+  const copyToken = async () => {
+    if (!issuedToken) return
+    try {
+      await navigator.clipboard.writeText(issuedToken)
+      notify.success('已复制到剪贴板')
+    } catch {
+      notify.error('复制失败，请手动选择复制。')
+    }
+  }
+
+  if (!authLoading && !user) {
+    return (
+      <div className="mx-auto max-w-3xl px-6 py-8">
+        <div className="card p-6 text-sm" style={{ color: 'var(--muted-foreground)' }}>
+          API 令牌属于登录账号，请先<Link href="/login?next=%2Ftokens" className="mx-1 underline">登录</Link>后再管理。
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="mx-auto max-w-3xl px-6 py-8">
+      <div className="mb-5">
+        <h1 className="text-2xl font-semibold tracking-tight">API 令牌</h1>
+        <p className="mt-1 text-sm" style={{ color: 'var(--muted-foreground)' }}>
+          供 Agent 与 CI 以当前账号身份调用接口：请求头携带 Authorization: Bearer &lt;令牌&gt;，权限不超过账号角色与所选范围
+        </p>
+      </div>
+
+      <section className="card mb-5 space-y-4 p-4">
+        <div className="flex flex-col gap-3 sm:flex-row">
+          <Input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="令牌名称，如 ci-pipeline"
+            maxLength={100}
+            className="sm:flex-1"
+          />
+          <Select value={expiry} onValueChange={setExpiry}>
+            <SelectTrigger className="sm:w-[140px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {EXPIRY_OPTIONS.map((option) => (
+                <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="grid gap-2 sm:grid-cols-2">
+          {API_TOKEN_SCOPES.map((scope) => (
+            <label key={scope} className="flex cursor-pointer items-center gap-2 text-sm">
+              <input
+                type="checkbox"
+                className="h-4 w-4 rounded border"
+                checked={scopes.includes(scope)}
+                onChange={() => toggleScope(scope)}
+              />
+              <code className="text-xs">{scope}</code>
+              <span className="text-xs" style={{ color: 'var(--muted-foreground)' }}>{API_TOKEN_SCOPE_LABELS[scope]}</span>
+            </label>
+          ))}
+        </div>
+        <div className="flex justify-end">
+          <Button onClick={() => void createToken()} disabled={creating || !name.trim() || scopes.length === 0}>
+            {creating ? <Loader2 className="h-4 w-4 animate-spin" /> : <Plus className="h-4 w-4" />}
+            创建令牌
+          </Button>
+        </div>
+        {issuedToken && (
+          <div className="space-y-2 rounded-lg border p-3" style={{ borderColor: 'var(--accent)' }} data-testid="issued-token">
+            <p className="text-xs" style={{ color: 'var(--muted-foreground)' }}>
+              令牌只显示这一次，关闭或刷新页面后无法再次查看
+            </p>
+            <div className="flex items-center gap-2">
+              <code className="min-w-0 flex-1 break-all text-xs">{issuedToken}</code>
+              <Button type="button" size="sm" variant="outline" onClick={() => void copyToken()}>
+                <Copy className="h-3.5 w-3.5" /> 复制
+              </Button>
+              <Button type="button" size="sm" variant="ghost" onClick={() => setIssuedToken(null)}>
+                关闭
+              </Button>
+            </div>
+          </div>
+        )}
+      </section>
+
+      {loading ? (
+        <div className="card p-4 text-sm" style={{ color: 'var(--muted-foreground)' }}>加载中...</div>
+      ) : items.length === 0 ? (
+        <div className="card p-6 text-sm" style={{ color: 'var(--muted-foreground)' }}>还没有令牌。</div>
+      ) : (
+        <div className="space-y-3" data-testid="api-token-list">
+          {items.map((item) => {
+            const state = tokenState(item)
+            return (
+              <section key={item.id} className="card flex items-start justify-between gap-4 p-4">
+                <div className="min-w-0 space-y-1">
+                  <div className="flex items-center gap-2 text-sm">
+                    <KeyRound className="h-3.5 w-3.5 shrink-0" style={{ color: 'var(--accent)' }} />
+                    <span className="truncate font-medium">{item.name}</span>
+                    <code className="text-xs" style={{ color: 'var(--muted-foreground)' }}>{item.tokenPrefix}…</code>
+                    <Badge variant={state.variant}>{state.label}</Badge>
+                  </div>
+                  <div className="flex flex-wrap gap-1">
+                    {item.scopes.map((scope) => (
+                      <Badge key={scope} variant="secondary" className="text-xs">{scope}</Badge>
+                    ))}
+                  </div>
+                  <p className="text-xs" style={{ color: 'var(--muted-foreground)' }}>
+                    创建于 {new Date(item.createdAt).toLocaleString()}
+                    {' · '}
+                    {item.lastUsedAt ? `最近使用 ${new Date(item.lastUsedAt).toLocaleString()}` : '从未使用'}
+                    {item.expiresAt && ` · ${new Date(item.expiresAt).toLocaleDateString()} 过期`}
+                  </p>
+                </div>
+                {!item.revokedAt && (
+                  <Button type="button" size="sm" variant="outline" className="shrink-0" onClick={() => setPendingRevoke(item)}>
+                    撤销
+                  </Button>
+                )}
+              </section>
+            )
+          })}
+        </div>
+      )}
+
+      <ConfirmDialog
+        open={!!pendingRevoke}
+        onOpenChange={(open) => {
+          if (!open) setPendingRevoke(null)
+        }}
+        title="确认撤销令牌"
+        description={pendingRevoke ? `撤销后使用 "${pendingRevoke.name}" 的请求会立即失效，且无法恢复。` : undefined}
+        confirmText="撤销"
+        confirmVariant="destructive"
+        loading={revoking}
+        onConfirm={() => void revokeToken()}
+      />
+    </div>
+  )
+}
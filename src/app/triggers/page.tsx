@@ -0,0 +1,124 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import Link from 'next/link'
+import { ArrowLeftRight, RefreshCw } from 'lucide-react'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { useNotify } from '@/components/ui/notify-provider'
+import { toUserFriendlyErrorMessage } from '@/lib/friendly-validation'
+import { guardedFetch } from '@/lib/guarded-fetch'
+import type { TriggerCollision } from '@/lib/trigger-collisions'
+
+const THRESHOLD_OPTIONS = [0.7, 0.8, 0.9]
+
+type CollisionReport = {
+  threshold: number
+  skillCount: number
+  collisions: TriggerCollision[]
+}
+
+function formatSimilarity(value: number): string {
+  return `${Math.round(value * 100)}%`
+}
+
+export default function TriggerCollisionsPage() {
+  const notify = useNotify()
+  const [threshold, setThreshold] = useState(0.8)
+  const [report, setReport] = useState<CollisionReport | null>(null)
+  const [loading, setLoading] = useState(true)
+
+  const fetchReport = useCallback(async () => {
+    setLoading(true)
+    try {
+      const res = await guardedFetch(`/api/triggers/collisions?threshold=${threshold}`)
+      const data = await res.json().catch(() => ({}))
+      if (!res.ok) {
+        notify.error(toUserFriendlyErrorMessage(data.error || `加载触发词冲突失败（${res.status}）`))
+        setReport(null)
+        return
+      }
+      setReport(data)
+    } catch {
+      notify.error('加载触发词冲突失败，请稍后重试。')
+      setReport(null)
+    } finally {
+      setLoading(false)
+    }
+  }, [threshold, notify])
+
+  useEffect(() => {
+    void fetchReport()
+  }, [fetchReport])
+
+  return (
+    <div className="mx-auto max-w-5xl px-6 py-8">
+      <div className="mb-5 flex items-center justify-between gap-3">
+        <div>
+          <h1 className="text-2xl font-semibold tracking-tight">触发词冲突</h1>
+          <p className="mt-1 text-sm" style={{ color: 'var(--muted-foreground)' }}>
+            不同 Skill 的触发词重复或高度相似时，Claude 可能选错 Skill
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          {THRESHOLD_OPTIONS.map((option) => (
+            <Button
+              key={option}
+              type="button"
+              size="sm"
+              variant={threshold === option ? 'default' : 'outline'}
+              className="rounded-lg"
+              onClick={() => setThreshold(option)}
+            >
+              ≥ {formatSimilarity(option)}
+            </Button>
+          ))}
+          <Button onClick={() => void fetchReport()} variant="outline" size="sm" className="rounded-lg">
+            <RefreshCw className="h-3.5 w-3.5" /> 刷新
+          </Button>
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="card p-4 text-sm" style={{ color: 'var(--muted-foreground)' }}>分析中...</div>
+      ) : !report ? null : report.collisions.length === 0 ? (
+        <div className="card p-6 text-sm" style={{ color: 'var(--muted-foreground)' }}>
+          已比较 {report.skillCount} 个 Skill，未发现相似度 ≥ {formatSimilarity(report.threshold)} 的触发词。
+        </div>
+      ) : (
+        <div className="space-y-3" data-testid="trigger-collisions">
+          <p className="text-sm" style={{ color: 'var(--muted-foreground)' }}>
+            已比较 {report.skillCount} 个 Skill，发现 {report.collisions.length} 对冲突
+          </p>
+          {report.collisions.map((collision) => (
+            <section key={`${collision.skill.id}-${collision.other.id}`} className="card p-4">
+              <div className="mb-3 flex items-center justify-between gap-2">
+                <div className="flex min-w-0 items-center gap-2 text-sm">
+                  <Link href={`/skills/${collision.skill.id}`} className="truncate font-medium hover:underline">{collision.skill.title}</Link>
+                  <ArrowLeftRight className="h-3.5 w-3.5 shrink-0" style={{ color: 'var(--muted-foreground)' }} />
+                  <Link href={`/skills/${collision.other.id}`} className="truncate font-medium hover:underline">{collision.other.title}</Link>
+                </div>
+                <Badge variant={collision.similarity >= 1 ? 'destructive' : 'outline'}>{formatSimilarity(collision.similarity)}</Badge>
+              </div>
+              <ul className="space-y-1.5">
+                {collision.matches.map((match) => (
+                  <li
+                    key={`${match.trigger}\u0000${match.otherTrigger}`}
+                    className="grid grid-cols-[1fr_auto_1fr] items-center gap-2 rounded-md px-2.5 py-1.5 text-xs"
+                    style={{ background: 'var(--muted)' }}
+                  >
+                    <span className="truncate">“{match.trigger}”</span>
+                    <span className="shrink-0" style={{ color: match.duplicate ? 'var(--danger)' : 'var(--warning)' }}>
+                      {match.duplicate ? '重复' : `相似 ${formatSimilarity(match.similarity)}`}
+                    </span>
+                    <span className="truncate text-right">“{match.otherTrigger}”</span>
+                  </li>
+                ))}
+              </ul>
+            </section>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
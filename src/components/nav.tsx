@@ -1,16 +1,68 @@
 'use client'
 
 import Link from 'next/link'
-import { usePathname } from 'next/navigation'
+import { usePathname, useRouter } from 'next/navigation'
 import { cn } from '@/lib/utils'
-import { Home, Layers, Plus, MessageSquarePlus } from 'lucide-react'
+import { Home, KeyRound, Layers, LogIn, LogOut, Plus, MessageSquarePlus, UserRound } from 'lucide-react'
 import { useChatPanel } from '@/lib/chat/chat-context'
+import { useAuth } from '@/lib/auth-context'
+import { ROLE_LABELS } from '@/lib/permissions'
 import { ThemeToggle } from '@/components/theme-toggle'
 import { Button } from '@/components/ui/button'
 
+function UserMenu() {
+  const pathname = usePathname()
+  const router = useRouter()
+  const { user, role, loading, logout } = useAuth()
+  if (loading || pathname === '/login') return null
+
+  if (!user) {
+    return (
+      <Button asChild variant="ghost" className="rounded-lg px-3">
+        <Link href={`/login?next=${encodeURIComponent(pathname)}`}>
+          <LogIn className="h-3.5 w-3.5" />
+          <span className="hidden sm:inline">登录</span>
+        </Link>
+      </Button>
+    )
+  }
+
+  return (
+    <div className="flex items-center gap-1">
+      <span className="hidden items-center gap-1.5 px-2 text-sm md:flex" title={user.username}>
+        <UserRound className="h-3.5 w-3.5" style={{ color: 'var(--muted-foreground)' }} />
+        {user.displayName}
+        {role && (
+          <span className="text-xs" style={{ color: 'var(--muted-foreground)' }}>
+            {ROLE_LABELS[role]}
+          </span>
+        )}
+      </span>
+      <Button asChild variant="ghost" className="rounded-lg px-2" title="API 令牌" aria-label="API 令牌">
+        <Link href="/tokens">
+          <KeyRound className="h-3.5 w-3.5" />
+        </Link>
+      </Button>
+      <Button
+        variant="ghost"
+        className="rounded-lg px-2"
+        title="退出登录"
+        aria-label="退出登录"
+        onClick={async () => {
+          await logout()
+          router.push('/login')
+        }}
+      >
+        <LogOut className="h-3.5 w-3.5" />
+      </Button>
+    </div>
+  )
+}
+
 export function Nav() {
   const pathname = usePathname()
   const { toggle } = useChatPanel()
+  const { can } = useAuth()
   const isCreatePage = pathname === '/skills/new'
 
   const links = [
@@ -21,6 +73,10 @@ export function Nav() {
     },
     { href: '/drafts', label: '草稿管理', match: (p: string) => p === '/drafts' },
     { href: '/tags', label: '标签管理', match: (p: string) => p === '/tags' },
+    { href: '/reviews', label: '审核队列', match: (p: string) => p === '/reviews' },
+    { href: '/analytics', label: '使用统计', match: (p: string) => p === '/analytics' },
+    { href: '/triggers', label: '触发词冲突', match: (p: string) => p === '/triggers' },
+    ...(can('audit:read') ? [{ href: '/audit', label: '审计日志', match: (p: string) => p === '/audit' }] : []),
   ]
 
   return (
@@ -62,6 +118,7 @@ export function Nav() {
           </nav>
         </div>
         <div className="flex items-center gap-2">
+          <UserMenu />
           <ThemeToggle />
           <Button
             onClick={toggle}
@@ -80,7 +137,7 @@ export function Nav() {
                 返回主页
               </Link>
             </Button>
-          ) : (
+          ) : can('skill:create') && (
             <Button asChild className="rounded-lg px-3.5">
               <Link href="/skills/new?fresh=1">
                 <Plus className="h-3.5 w-3.5" />
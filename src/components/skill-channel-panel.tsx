@@ -0,0 +1,160 @@
+'use client'
+
+import { useState } from 'react'
+import { GitBranch } from 'lucide-react'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { useNotify } from '@/components/ui/notify-provider'
+import { toUserFriendlyErrorMessage } from '@/lib/friendly-validation'
+import { guardedFetch } from '@/lib/guarded-fetch'
+import { DEFAULT_PUBLISH_CHANNEL, type SkillChannelItem } from '@/lib/skill-channels'
+
+interface SkillChannelPanelProps {
+  skillId: number
+  channels: SkillChannelItem[]
+  versions: Array<{ id: number; version: number }>
+  onChanged: () => Promise<void>
+  /** 无发布权限时只展示渠道 */
+  readOnly?: boolean
+}
+
+/**
+ * 发布渠道：查看各渠道指向的版本，将渠道指向指定版本或把一个渠道推广到 stable
+ */
+export function SkillChannelPanel({ skillId, channels, versions, onChanged, readOnly = false }: SkillChannelPanelProps) {
+  const notify = useNotify()
+  const [channelName, setChannelName] = useState('beta')
+  const [version, setVersion] = useState<string>('')
+  const [busy, setBusy] = useState(false)
+
+  async function moveChannel(name: string, body: { version?: number; fromChannel?: string }) {
+    setBusy(true)
+    try {
+      const res = await guardedFetch(`/api/skills/${skillId}/channels/${encodeURIComponent(name)}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      })
+      const data = await res.json().catch(() => ({}))
+      if (!res.ok) {
+        notify.error(toUserFriendlyErrorMessage(data.error || `更新渠道失败（${res.status}）`))
+        return
+      }
+      if (data.gitSync?.status === 'failed') {
+        notify.error(`渠道 ${data.name} 已指向 v${data.version}，但同步到 Git 失败：${data.gitSync.error}`)
+      } else {
+        notify.success(`渠道 ${data.name} 已指向 v${data.version}`)
+      }
+      await onChanged()
+    } catch {
+      notify.error('更新渠道时网络异常，请重试。')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  async function removeChannel(name: string) {
+    setBusy(true)
+    try {
+      const res = await guardedFetch(`/api/skills/${skillId}/channels/${encodeURIComponent(name)}`, { method: 'DELETE' })
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}))
+        notify.error(toUserFriendlyErrorMessage(data.error || `移除渠道失败（${res.status}）`))
+        return
+      }
+      notify.success(`渠道 ${name} 已移除`)
+      await onChanged()
+    } catch {
+      notify.error('移除渠道时网络异常，请重试。')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  return (
+    <section className="card p-5" data-testid="skill-channel-panel">
+      <div className="mb-3 flex items-center gap-2">
+        <GitBranch className="h-3.5 w-3.5" style={{ color: 'var(--accent)' }} />
+        <h2 className="text-xs font-semibold uppercase tracking-wider" style={{ color: 'var(--muted-foreground)' }}>
+          发布渠道
+        </h2>
+      </div>
+      {channels.length === 0 ? (
+        <p className="text-sm" style={{ color: 'var(--muted-foreground)' }}>
+          暂无渠道，发布后会自动创建 {DEFAULT_PUBLISH_CHANNEL} 渠道
+        </p>
+      ) : (
+        <div className="space-y-2">
+          {channels.map((channel) => (
+            <div key={channel.name} className="flex items-center justify-between rounded-lg p-2.5" style={{ background: 'var(--muted)' }}>
+              <div className="flex items-center gap-2">
+                <Badge variant={channel.name === DEFAULT_PUBLISH_CHANNEL ? 'default' : 'outline'}>{channel.name}</Badge>
+                <span className="text-sm font-medium">v{channel.version}</span>
+                <span className="text-xs" style={{ color: 'var(--muted-foreground)' }}>
+                  更新于 {new Date(channel.updatedAt).toLocaleString()}
+                </span>
+              </div>
+              {!readOnly && (
+                <div className="flex items-center gap-1">
+                  {channel.name !== DEFAULT_PUBLISH_CHANNEL && (
+                    <Button
+                      type="button"
+                      variant="outline"
+                      size="sm"
+                      className="h-7 rounded-md px-2 text-xs"
+                      disabled={busy}
+                      onClick={() => void moveChannel(DEFAULT_PUBLISH_CHANNEL, { fromChannel: channel.name })}
+                    >
+                      推广到 {DEFAULT_PUBLISH_CHANNEL}
+                    </Button>
+                  )}
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    className="h-7 rounded-md px-2 text-xs"
+                    disabled={busy}
+                    onClick={() => void removeChannel(channel.name)}
+                  >
+                    移除
+                  </Button>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+      {!readOnly && versions.length > 0 && (
+        <div className="mt-3 flex flex-wrap items-center gap-2">
+          <Input
+            value={channelName}
+            onChange={(e) => setChannelName(e.target.value)}
+            placeholder="渠道名，如 beta"
+            className="h-8 w-[140px] text-xs"
+          />
+          <Select value={version} onValueChange={setVersion}>
+            <SelectTrigger className="h-8 w-[110px] rounded-md px-2 text-xs">
+              <SelectValue placeholder="选择版本" />
+            </SelectTrigger>
+            <SelectContent>
+              {versions.map((item) => (
+                <SelectItem key={item.id} value={String(item.version)}>v{item.version}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            type="button"
+            size="sm"
+            className="h-8"
+            disabled={busy || !version || !channelName.trim()}
+            onClick={() => void moveChannel(channelName.trim().toLowerCase(), { version: Number(version) })}
+          >
+            指向此版本
+          </Button>
+        </div>
+      )}
+    </section>
+  )
+}
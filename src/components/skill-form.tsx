@@ -17,16 +17,24 @@ import {
 } from '@/components/ui/dialog'
 import { useNotify } from '@/components/ui/notify-provider'
 import { SkillFormAuthorTab } from '@/components/skill-form/author-tab'
-import { SkillFormEnhanceTab, type AiChangeSet, type AiLintPreview } from '@/components/skill-form/enhance-tab'
+import {
+  SkillFormEnhanceTab,
+  type AiChangeSelection,
+  type AiChangeSet,
+  type AiLintPreview,
+} from '@/components/skill-form/enhance-tab'
 import { SkillFormExportTab } from '@/components/skill-form/export-tab'
 import { SkillFormFilesTab, type SkillFileItem } from '@/components/skill-form/files-tab'
 import { SkillFormGuardrailsTab } from '@/components/skill-form/guardrails-tab'
+import { SkillFormMarkdownTab } from '@/components/skill-form/markdown-tab'
 import { SkillFormTestsTab } from '@/components/skill-form/tests-tab'
 import { SkillFormTriggersTab } from '@/components/skill-form/triggers-tab'
-import { useSkillFormValidation } from '@/components/skill-form/use-skill-form-validation'
-import { toUserFriendlyErrorMessage } from '@/lib/friendly-validation'
+import { buildSkillFormValidationModel, useSkillFormValidation } from '@/components/skill-form/use-skill-form-validation'
+import { TemplatePickerDialog } from '@/components/skill-template-dialogs'
+import { toFriendlyLintIssues, toUserFriendlyErrorMessage } from '@/lib/friendly-validation'
 import { guardedFetch } from '@/lib/guarded-fetch'
 import { normalizeTagName, normalizeTagNames } from '@/lib/tag-normalize'
+import type { SkillTemplateContent, SkillTemplateFile } from '@/lib/skill-templates'
 import { AlertCircle } from 'lucide-react'
 
 interface SkillFormProps {
@@ -92,7 +100,7 @@ export function SkillForm({ initialData, skillId, variant = 'default' }: SkillFo
     addTest, removeTest, updateTest,
     addStopCondition, removeStopCondition, updateStopCondition,
     addTag, removeTag, addAllowedTool, removeAllowedTool, setGuardrails,
-    initFromData,
+    initFromData, applySkillMarkdown,
   } = store
 
   // edit 模式初始化
@@ -121,6 +129,8 @@ export function SkillForm({ initialData, skillId, variant = 'default' }: SkillFo
   const [leaveDialogOpen, setLeaveDialogOpen] = useState(false)
   const [leaveSaving, setLeaveSaving] = useState(false)
   const [pendingLeaveHref, setPendingLeaveHref] = useState<string | null>(null)
+  const [templatePickerOpen, setTemplatePickerOpen] = useState(false)
+  const [templateFiles, setTemplateFiles] = useState<SkillTemplateFile[]>([])
   const [tagInput, setTagInput] = useState('')
   const [tagSuggestions, setTagSuggestions] = useState<string[]>([])
   const [tagSuggestionsLoading, setTagSuggestionsLoading] = useState(false)
@@ -138,12 +148,15 @@ export function SkillForm({ initialData, skillId, variant = 'default' }: SkillFo
   const serverDraftWarnedRef = useRef(false)
   const lastTagSearchAtRef = useRef(0)
   const leaveBypassRef = useRef(false)
+  const markdownFlushRef = useRef<(() => boolean) | null>(null)
 
   // AI tab state (保持本地)
   const [aiInstruction, setAiInstruction] = useState('')
   const [aiLoading, setAiLoading] = useState(false)
   const [aiChangeSet, setAiChangeSet] = useState<AiChangeSet | null>(null)
+  const [aiProposalId, setAiProposalId] = useState<number | null>(null)
   const [aiLintPreview, setAiLintPreview] = useState<AiLintPreview | null>(null)
+  const [aiLintRegressions, setAiLintRegressions] = useState<AiLintPreview['errors'] | null>(null)
   const [aiApplying, setAiApplying] = useState(false)
   const [aiApplied, setAiApplied] = useState(false)
   const [aiError, setAiError] = useState('')
@@ -856,8 +869,38 @@ export function SkillForm({ initialData, skillId, variant = 'default' }: SkillFo
     router.push(next)
   }
 
+  function handleApplyTemplate(content: SkillTemplateContent) {
+    const { payload } = content
+    initFromData({
+      title: payload.title || '',
+      summary: payload.summary || '',
+      inputs: payload.inputs || '',
+      outputs: payload.outputs || '',
+      steps: payload.steps || [],
+      risks: payload.risks || '',
+      triggers: payload.triggers || [],
+      guardrails: payload.guardrails
+        ? { ...payload.guardrails, stop_conditions: payload.guardrails.stop_conditions.length > 0 ? payload.guardrails.stop_conditions : [''] }
+        : { ...guardrails },
+      tests: payload.tests || [],
+      tags: content.tags,
+    })
+    setTemplateFiles(content.files)
+    setUIField('activeTab', 'author')
+    notify.success(content.files.length > 0 ? `已应用模板，保存时将创建 ${content.files.length} 个文件` : '已应用模板')
+  }
+
   async function handleSave() {
     setUIField('error', '')
+    // SKILL.md 原文编辑中的未同步修改先写回表单，之后从 store 读取最新字段
+    if (markdownFlushRef.current && !markdownFlushRef.current()) {
+      const msg = 'SKILL.md 存在解析错误，请按行号提示修正后再保存。'
+      setUIField('error', msg)
+      notify.error(msg)
+      return
+    }
+    const { title, summary, inputs, outputs, steps, risks, triggers, guardrails, tests, tags } = useSkillStore.getState()
+    const { requiredStatus } = buildSkillFormValidationModel({ title, summary, steps, triggers, guardrails, tests })
     if (requiredStatus.filled < requiredStatus.total) {
       setShowValidation(true)
       const first = requiredStatus.checks.find((c) => !c.done)
@@ -868,7 +911,7 @@ export function SkillForm({ initialData, skillId, variant = 'default' }: SkillFo
     setShowValidation(false)
     setUIField('saving', true)
     try {
-      const body = { title, summary, inputs, outputs, steps: steps.filter(Boolean), risks, triggers: triggers.filter(Boolean), guardrails: { ...guardrails, stop_conditions: guardrails.stop_conditions.filter(Boolean) }, tests: tests.filter((t) => t.name && t.input && t.expected_output), tags }
+      const body = { title, summary, inputs, outputs, steps: steps.filter(Boolean), risks, triggers: triggers.filter(Boolean), guardrails: { ...guardrails, stop_conditions: guardrails.stop_conditions.filter(Boolean) }, tests: tests.filter((t) => t.name && t.input && t.expected_output), tags, ...(!isEdit && templateFiles.length > 0 ? { files: templateFiles } : {}) }
       const url = isEdit ? `/api/skills/${skillId}` : '/api/skills'
       const method = isEdit ? 'PUT' : 'POST'
       const res = await guardedFetch(url, { method, headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(body) })
@@ -881,6 +924,10 @@ export function SkillForm({ initialData, skillId, variant = 'default' }: SkillFo
       }
       const data = await res.json()
       notify.success(isEdit ? 'Skill 已更新' : 'Skill 已创建')
+      const warnings = toFriendlyLintIssues(Array.isArray(data.warnings) ? data.warnings : [])
+      if (warnings.length > 0) {
+        notify.info(`${warnings[0].message}${warnings.length > 1 ? `（共 ${warnings.length} 条触发词冲突，可在「触发词冲突」页查看）` : ''}`, { durationMs: 8000 })
+      }
       await clearPersistedDraft(false)
       router.push(`/skills/${data.id}`)
     } catch {
@@ -1031,6 +1078,11 @@ export function SkillForm({ initialData, skillId, variant = 'default' }: SkillFo
     [title, summary, inputs, outputs, steps, risks, triggers, guardrails, tests, tags]
   )
 
+  const markdownFilePaths = useMemo(
+    () => (isEdit ? files : templateFiles).map((f) => f.path),
+    [isEdit, files, templateFiles]
+  )
+
   async function handleClearLocalDraft() {
     await clearPersistedDraft(true)
   }
@@ -1041,6 +1093,7 @@ export function SkillForm({ initialData, skillId, variant = 'default' }: SkillFo
     { id: 'guardrails', label: '安全护栏' },
     { id: 'tests', label: '测试' },
     { id: 'files', label: '文件' },
+    { id: 'markdown', label: 'SKILL.md 原文' },
     { id: 'enhance', label: 'AI 增强' },
     { id: 'export', label: '导出' },
   ]
@@ -1050,7 +1103,9 @@ export function SkillForm({ initialData, skillId, variant = 'default' }: SkillFo
     setAiLoading(true)
     setAiError('')
     setAiChangeSet(null)
+    setAiProposalId(null)
     setAiLintPreview(null)
+    setAiLintRegressions(null)
     setAiApplied(false)
     setAiPreviewFile(null)
     try {
@@ -1071,6 +1126,7 @@ export function SkillForm({ initialData, skillId, variant = 'default' }: SkillFo
         return
       }
       setAiChangeSet(data.changeSet)
+      setAiProposalId(typeof data.proposalId === 'number' ? data.proposalId : null)
       setAiLintPreview(data.lintPreview)
       notify.success('已生成 AI 变更建议')
     } catch {
@@ -1082,17 +1138,28 @@ export function SkillForm({ initialData, skillId, variant = 'default' }: SkillFo
     }
   }
 
-  async function handleAiApply() {
+  async function handleAiApply(selection: AiChangeSelection, allowLintRegression = false) {
     if (!skillId || !aiChangeSet) return
     setAiApplying(true)
     setAiError('')
+    setAiLintRegressions(null)
     try {
       const res = await guardedFetch(`/api/skills/${skillId}/ai/apply`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ changeSet: aiChangeSet }),
+        body: JSON.stringify({
+          changeSet: aiChangeSet,
+          proposalId: aiProposalId ?? undefined,
+          selection,
+          allowLintRegression: allowLintRegression || undefined,
+        }),
       })
       const data = await res.json()
+      if (res.status === 422 && Array.isArray(data.lint?.regressions)) {
+        setAiLintRegressions(data.lint.regressions)
+        notify.error('应用后会新增 Lint 问题，已阻止应用')
+        return
+      }
       if (!res.ok) {
         const baseError = toUserFriendlyErrorMessage(data.error || `AI 应用失败（${res.status}）`)
         const details = Array.isArray(data.errors)
@@ -1104,7 +1171,10 @@ export function SkillForm({ initialData, skillId, variant = 'default' }: SkillFo
         return
       }
       setAiApplied(true)
-      notify.success('AI 变更已应用')
+      const rejectedCount = Array.isArray(data.rejected?.fields) && Array.isArray(data.rejected?.fileOps)
+        ? data.rejected.fields.length + data.rejected.fileOps.length
+        : 0
+      notify.success(rejectedCount > 0 ? `AI 变更已应用，已拒绝 ${rejectedCount} 项` : 'AI 变更已应用')
       setTimeout(() => window.location.reload(), 1000)
     } catch {
       const msg = '应用变更时网络异常，请重试。'
@@ -1221,6 +1291,15 @@ export function SkillForm({ initialData, skillId, variant = 'default' }: SkillFo
               <span className="text-[11px] font-mono" style={{ color: requiredStatus.filled === requiredStatus.total ? 'var(--success)' : 'var(--muted-foreground)' }}>
                 {requiredStatus.filled}/{requiredStatus.total} {requiredStatus.filled === requiredStatus.total ? '就绪' : '必填'}
               </span>
+              <Button
+                onClick={() => setTemplatePickerOpen(true)}
+                type="button"
+                variant="ghost"
+                size="sm"
+                className={`${roundedLgClass} h-6 px-2 text-[10px]`}
+              >
+                从模板创建
+              </Button>
               <Button
                 onClick={() => void handleClearLocalDraft()}
                 type="button"
@@ -1262,8 +1341,16 @@ export function SkillForm({ initialData, skillId, variant = 'default' }: SkillFo
         {!isEdit && (
           <p className="mb-3 text-[11px]" style={{ color: 'var(--muted-foreground)' }}>
             {draftTip}{draftSaveTimeLabel ? ` · ${draftSaveTimeLabel}` : ''}
+            {templateFiles.length > 0 && ` · 模板文件 ${templateFiles.length} 个将在保存时创建`}
           </p>
         )}
+        {!isEdit && (
+          <TemplatePickerDialog
+            open={templatePickerOpen}
+            onOpenChange={setTemplatePickerOpen}
+            onApply={handleApplyTemplate}
+          />
+        )}
 
         {error && (
           <div className={`mb-4 ${roundedLgClass} flex items-center gap-2 p-3 text-sm`} style={{ background: 'var(--danger-light)', color: 'var(--danger)' }}>
@@ -1377,6 +1464,7 @@ export function SkillForm({ initialData, skillId, variant = 'default' }: SkillFo
       {/* Tests Tab */}
       {activeTab === 'tests' && (
         <SkillFormTestsTab
+          skillId={skillId}
           roundedClass={roundedClass}
           monoDataClass={monoDataClass}
           tests={tests}
@@ -1422,6 +1510,17 @@ export function SkillForm({ initialData, skillId, variant = 'default' }: SkillFo
         </div>
       )}
 
+      {/* SKILL.md Tab */}
+      {activeTab === 'markdown' && (
+        <SkillFormMarkdownTab
+          roundedLgClass={roundedLgClass}
+          currentSkill={aiCurrentSkill}
+          filePaths={markdownFilePaths}
+          applyMarkdown={applySkillMarkdown}
+          flushRef={markdownFlushRef}
+        />
+      )}
+
       {/* Enhance Tab */}
       {activeTab === 'enhance' && (
         <div className="space-y-4">
@@ -1435,6 +1534,7 @@ export function SkillForm({ initialData, skillId, variant = 'default' }: SkillFo
             aiError={aiError}
             aiChangeSet={aiChangeSet}
             aiLintPreview={aiLintPreview}
+            aiLintRegressions={aiLintRegressions}
             aiApplying={aiApplying}
             aiApplied={aiApplied}
             aiPreviewFile={aiPreviewFile}
@@ -1443,7 +1543,7 @@ export function SkillForm({ initialData, skillId, variant = 'default' }: SkillFo
             loadCurrentFile={loadAiCurrentFile}
             handleAiPropose={handleAiPropose}
             handleAiApply={handleAiApply}
-            clearAiChangeSet={() => { setAiChangeSet(null); setAiLintPreview(null); setAiPreviewFile(null) }}
+            clearAiChangeSet={() => { setAiChangeSet(null); setAiProposalId(null); setAiLintPreview(null); setAiLintRegressions(null); setAiPreviewFile(null) }}
           />
         </div>
       )}
@@ -1,11 +1,16 @@
 'use client'
 
 import { useMemo, useState } from 'react'
-import { AlertCircle, CheckCircle, Eye, File, Loader2, Wand2 } from 'lucide-react'
+import { AlertCircle, Check, CheckCircle, Eye, File, Loader2, Wand2, X } from 'lucide-react'
 import { FormField } from '@/components/ui/form-field'
 import { Button } from '@/components/ui/button'
 import { Textarea } from '@/components/ui/textarea'
+import { InlineLineDiff } from '@/components/skill-version-diff'
 import { toFriendlyLintIssues } from '@/lib/friendly-validation'
+import { diffLines, type LineDiffOp } from '@/lib/skill-diff'
+import { lintSkill } from '@/lib/lint'
+import { slugify } from '@/lib/slugify'
+import type { SkillData } from '@/lib/types'
 
 export interface AiChangeSet {
   skillPatch: Record<string, unknown>
@@ -13,6 +18,12 @@ export interface AiChangeSet {
   notes?: string
 }
 
+// 选中（接受）的字段与文件路径，未选中的在服务端记为拒绝
+export interface AiChangeSelection {
+  fields: string[]
+  fileOps: string[]
+}
+
 export interface AiLintPreview {
   valid: boolean
   errors: Array<{ field: string; message: string }>
@@ -36,6 +47,8 @@ interface EnhanceTabProps {
   aiError: string
   aiChangeSet: AiChangeSet | null
   aiLintPreview: AiLintPreview | null
+  // 服务端 lint gate 拦截时返回的新增问题
+  aiLintRegressions: AiLintPreview['errors'] | null
   aiApplying: boolean
   aiApplied: boolean
   aiPreviewFile: string | null
@@ -43,7 +56,7 @@ interface EnhanceTabProps {
   currentSkill: Record<string, unknown>
   loadCurrentFile: (path: string) => Promise<{ exists: boolean; isBinary: boolean; contentText: string | null }>
   handleAiPropose: (action: string) => Promise<void>
-  handleAiApply: () => Promise<void>
+  handleAiApply: (selection: AiChangeSelection, allowLintRegression?: boolean) => Promise<void>
   clearAiChangeSet: () => void
 }
 
@@ -72,26 +85,44 @@ function isEqualValue(left: unknown, right: unknown): boolean {
   return stableStringify(left) === stableStringify(right)
 }
 
-function countLinesDiff(beforeText: string, afterText: string): { added: number; removed: number } {
-  const beforeCounts = new Map<string, number>()
-  const afterCounts = new Map<string, number>()
-  for (const line of beforeText.split(/\r?\n/)) {
-    beforeCounts.set(line, (beforeCounts.get(line) || 0) + 1)
-  }
-  for (const line of afterText.split(/\r?\n/)) {
-    afterCounts.set(line, (afterCounts.get(line) || 0) + 1)
+function countLineOps(lines: LineDiffOp[]): { added: number; removed: number } {
+  return {
+    added: lines.filter((op) => op.type === 'added').length,
+    removed: lines.filter((op) => op.type === 'removed').length,
   }
+}
 
-  const keys = new Set([...beforeCounts.keys(), ...afterCounts.keys()])
-  let added = 0
-  let removed = 0
-  for (const key of keys) {
-    const before = beforeCounts.get(key) || 0
-    const after = afterCounts.get(key) || 0
-    if (after > before) added += after - before
-    if (before > after) removed += before - after
-  }
-  return { added, removed }
+function AcceptToggle({
+  accepted,
+  onChange,
+  testId,
+}: {
+  accepted: boolean
+  onChange: (accepted: boolean) => void
+  testId: string
+}) {
+  return (
+    <div className="flex shrink-0 items-center gap-1" data-testid={testId}>
+      <Button
+        type="button"
+        size="sm"
+        variant={accepted ? 'default' : 'outline'}
+        className="h-6 gap-1 rounded-md px-2 text-xs"
+        onClick={() => onChange(true)}
+      >
+        <Check className="h-3 w-3" /> 接受
+      </Button>
+      <Button
+        type="button"
+        size="sm"
+        variant={accepted ? 'outline' : 'destructive'}
+        className="h-6 gap-1 rounded-md px-2 text-xs"
+        onClick={() => onChange(false)}
+      >
+        <X className="h-3 w-3" /> 拒绝
+      </Button>
+    </div>
+  )
 }
 
 export function SkillFormEnhanceTab({
@@ -104,6 +135,7 @@ export function SkillFormEnhanceTab({
   aiError,
   aiChangeSet,
   aiLintPreview,
+  aiLintRegressions,
   aiApplying,
   aiApplied,
   aiPreviewFile,
@@ -114,11 +146,29 @@ export function SkillFormEnhanceTab({
   handleAiApply,
   clearAiChangeSet,
 }: EnhanceTabProps) {
-  const friendlyLintIssues = useMemo(
-    () => toFriendlyLintIssues(aiLintPreview?.errors ?? []),
-    [aiLintPreview],
-  )
   const [previewFileState, setPreviewFileState] = useState<{ path: string; state: AiFileState } | null>(null)
+  // 拒绝项随 changeSet 绑定，生成新提案后自动恢复为全部接受
+  const [rejection, setRejection] = useState<{ changeSet: AiChangeSet | null; fields: string[]; paths: string[] }>({
+    changeSet: null,
+    fields: [],
+    paths: [],
+  })
+  const { rejectedFields, rejectedPaths } = useMemo(
+    () => rejection.changeSet === aiChangeSet
+      ? { rejectedFields: rejection.fields, rejectedPaths: rejection.paths }
+      : { rejectedFields: [] as string[], rejectedPaths: [] as string[] },
+    [rejection, aiChangeSet],
+  )
+
+  function toggleRejected(kind: 'fields' | 'paths', key: string, accepted: boolean) {
+    const current = kind === 'fields' ? rejectedFields : rejectedPaths
+    const next = accepted ? current.filter((item) => item !== key) : [...new Set([...current, key])]
+    setRejection({
+      changeSet: aiChangeSet,
+      fields: kind === 'fields' ? next : rejectedFields,
+      paths: kind === 'paths' ? next : rejectedPaths,
+    })
+  }
 
   const skillDiffEntries = useMemo(() => {
     if (!aiChangeSet) return []
@@ -127,11 +177,36 @@ export function SkillFormEnhanceTab({
       .map(([key, after]) => ({
         key,
         label: FIELD_LABEL[key] || key,
-        before: currentSkill[key],
-        after,
+        lines: diffLines(stableStringify(currentSkill[key] ?? ''), stableStringify(after)),
       }))
   }, [aiChangeSet, currentSkill])
 
+  const selection = useMemo<AiChangeSelection>(() => {
+    if (!aiChangeSet) return { fields: [], fileOps: [] }
+    return {
+      fields: Object.keys(aiChangeSet.skillPatch).filter(
+        (key) => aiChangeSet.skillPatch[key] !== undefined && !rejectedFields.includes(key)
+      ),
+      fileOps: [...new Set(aiChangeSet.fileOps.map((fop) => fop.path))].filter((path) => !rejectedPaths.includes(path)),
+    }
+  }, [aiChangeSet, rejectedFields, rejectedPaths])
+
+  const rejectedCount = rejectedFields.length + rejectedPaths.length
+  const selectedCount =
+    selection.fields.filter((key) => skillDiffEntries.some((entry) => entry.key === key)).length + selection.fileOps.length
+
+  // 部分拒绝时按选中项在本地重新计算校验预览
+  const selectionLintPreview = useMemo<AiLintPreview | null>(() => {
+    if (!aiChangeSet || rejectedCount === 0) return aiLintPreview
+    const patch = Object.fromEntries(selection.fields.map((key) => [key, aiChangeSet.skillPatch[key]]))
+    const merged = { ...currentSkill, ...patch } as Record<string, unknown>
+    if (patch.guardrails) {
+      merged.guardrails = { ...(currentSkill.guardrails as object), ...(patch.guardrails as object) }
+    }
+    merged.slug = slugify(String(merged.title || ''))
+    return lintSkill(merged as unknown as SkillData)
+  }, [aiChangeSet, aiLintPreview, currentSkill, rejectedCount, selection])
+
   const selectedFileOp = useMemo(() => {
     if (!aiChangeSet || !aiPreviewFile) return null
     return aiChangeSet.fileOps.find((fop) => fop.path === aiPreviewFile) || null
@@ -147,7 +222,19 @@ export function SkillFormEnhanceTab({
     selectedFileOp?.op === 'delete'
       ? ''
       : (selectedFileOp?.content_text || '')
-  const lineDiff = selectedFileOp ? countLinesDiff(beforeFileText, afterFileText) : { added: 0, removed: 0 }
+  const fileLines = useMemo(
+    () => (selectedFileOp ? diffLines(beforeFileText, afterFileText) : []),
+    [selectedFileOp, beforeFileText, afterFileText],
+  )
+  const lineDiff = countLineOps(fileLines)
+  const friendlyLintIssues = useMemo(
+    () => toFriendlyLintIssues(selectionLintPreview?.errors ?? []),
+    [selectionLintPreview],
+  )
+  const friendlyRegressions = useMemo(
+    () => toFriendlyLintIssues(aiLintRegressions ?? []),
+    [aiLintRegressions],
+  )
 
   async function handleToggleAiPreview(path: string) {
     if (aiPreviewFile === path) {
@@ -239,25 +326,24 @@ export function SkillFormEnhanceTab({
             <div className={`${roundedClass} border p-4`}>
               <h3 className="text-sm font-semibold mb-2">建议的 Skill 变更</h3>
               <div className="space-y-2">
-                {skillDiffEntries.map((entry) => (
-                  <div key={entry.key} className={`${roundedClass} border p-2`}>
-                    <span className="font-mono text-xs rounded px-1" style={{ background: 'var(--muted)' }}>{entry.label}</span>
-                    <div className="mt-2 grid gap-2 md:grid-cols-2">
-                      <div>
-                        <p className="mb-1 text-[11px] font-medium" style={{ color: 'var(--muted-foreground)' }}>当前</p>
-                        <pre className={`${roundedClass} p-2 text-xs overflow-auto max-h-40`} style={{ background: 'var(--muted)' }}>
-                          {stableStringify(entry.before)}
-                        </pre>
+                {skillDiffEntries.map((entry) => {
+                  const accepted = !rejectedFields.includes(entry.key)
+                  return (
+                    <div key={entry.key} className={`${roundedClass} border p-2 ${accepted ? '' : 'opacity-60'}`}>
+                      <div className="flex items-center justify-between gap-2">
+                        <span className="font-mono text-xs rounded px-1" style={{ background: 'var(--muted)' }}>{entry.label}</span>
+                        <AcceptToggle
+                          accepted={accepted}
+                          onChange={(next) => toggleRejected('fields', entry.key, next)}
+                          testId={`ai-field-toggle-${entry.key}`}
+                        />
                       </div>
-                      <div>
-                        <p className="mb-1 text-[11px] font-medium" style={{ color: 'var(--muted-foreground)' }}>建议</p>
-                        <pre className={`${roundedClass} p-2 text-xs overflow-auto max-h-40`} style={{ background: 'color-mix(in srgb, var(--accent) 9%, var(--muted))' }}>
-                          {stableStringify(entry.after)}
-                        </pre>
+                      <div className="mt-2">
+                        <InlineLineDiff lines={entry.lines} />
                       </div>
                     </div>
-                  </div>
-                ))}
+                  )
+                })}
               </div>
             </div>
           )}
@@ -265,65 +351,67 @@ export function SkillFormEnhanceTab({
           {aiChangeSet.fileOps.length > 0 && (
             <div className={`${roundedClass} border p-4`}>
               <h3 className="text-sm font-semibold mb-2">建议的文件变更</h3>
-              <div className="space-y-1">
-                {aiChangeSet.fileOps.map((fop, i) => (
-                  <div key={i} className="flex items-center gap-2 text-sm">
-                    <span className={`rounded px-1.5 py-0.5 text-xs font-medium ${fop.op === 'upsert' ? 'bg-green-100 text-green-700' : 'bg-red-100 text-red-700'}`}>
-                      {fop.op}
-                    </span>
-                    <Button
-                      onClick={() => void handleToggleAiPreview(fop.path)}
-                      type="button"
-                      variant="ghost"
-                      className="h-auto font-mono text-xs text-blue-600 hover:underline flex items-center gap-1 px-0 py-0"
-                      data-testid={`ai-file-${fop.path}`}
-                    >
-                      <Eye className="h-3 w-3" /> {fop.path}
-                    </Button>
-                  </div>
-                ))}
-              </div>
-              {aiPreviewFile && (
-                <div className="mt-3">
-                  <p className="text-xs font-mono mb-1" style={{ color: 'var(--muted-foreground)' }}>{aiPreviewFile}</p>
-                  {selectedFileState?.loading ? (
-                    <div className={`${roundedClass} flex items-center gap-2 p-3 text-sm`} style={{ background: 'var(--muted)', color: 'var(--muted-foreground)' }}>
-                      <Loader2 className="h-4 w-4 animate-spin" /> 正在加载当前文件内容...
-                    </div>
-                  ) : selectedFileState?.error ? (
-                    <div className={`${roundedClass} p-3 text-sm`} style={{ background: 'var(--danger-light)', color: 'var(--danger)' }}>
-                      {selectedFileState.error}
-                    </div>
-                  ) : selectedFileOp ? (
-                    <div className="space-y-2">
-                      <div className="flex items-center gap-3 text-xs" style={{ color: 'var(--muted-foreground)' }}>
-                        <span>新增行：{lineDiff.added}</span>
-                        <span>删除行：{lineDiff.removed}</span>
-                      </div>
-                      {(selectedFileOp.content_base64 || selectedFileState?.isBinary) ? (
-                        <div className={`${roundedClass} p-3 text-xs`} style={{ background: 'var(--muted)' }}>
-                          此文件包含二进制内容，当前仅展示路径级变更。
+              <div className="space-y-2">
+                {aiChangeSet.fileOps.map((fop, i) => {
+                  const accepted = !rejectedPaths.includes(fop.path)
+                  const expanded = aiPreviewFile === fop.path
+                  return (
+                    <div key={i} className={`${roundedClass} border p-2 ${accepted ? '' : 'opacity-60'}`}>
+                      <div className="flex items-center justify-between gap-2">
+                        <div className="flex min-w-0 items-center gap-2 text-sm">
+                          <span className={`rounded px-1.5 py-0.5 text-xs font-medium ${fop.op === 'upsert' ? 'bg-green-100 text-green-700' : 'bg-red-100 text-red-700'}`}>
+                            {fop.op}
+                          </span>
+                          <Button
+                            onClick={() => void handleToggleAiPreview(fop.path)}
+                            type="button"
+                            variant="ghost"
+                            className="h-auto font-mono text-xs text-blue-600 hover:underline flex items-center gap-1 px-0 py-0"
+                            data-testid={`ai-file-${fop.path}`}
+                          >
+                            <Eye className="h-3 w-3" /> {fop.path}
+                          </Button>
                         </div>
-                      ) : (
-                        <div className="grid gap-2 md:grid-cols-2">
-                          <div>
-                            <p className="mb-1 text-[11px] font-medium" style={{ color: 'var(--muted-foreground)' }}>当前内容</p>
-                            <pre className={`${roundedClass} p-3 text-xs overflow-auto max-h-64`} style={{ background: 'var(--muted)' }} data-testid="ai-file-preview-before">
-                              {beforeFileText || '（空文件）'}
-                            </pre>
-                          </div>
-                          <div>
-                            <p className="mb-1 text-[11px] font-medium" style={{ color: 'var(--muted-foreground)' }}>建议内容</p>
-                            <pre className={`${roundedClass} p-3 text-xs overflow-auto max-h-64`} style={{ background: 'color-mix(in srgb, var(--accent) 9%, var(--muted))' }} data-testid="ai-file-preview">
-                              {selectedFileOp.op === 'delete' ? '（将删除）' : (afterFileText || '（空文件）')}
-                            </pre>
-                          </div>
+                        <AcceptToggle
+                          accepted={accepted}
+                          onChange={(next) => toggleRejected('paths', fop.path, next)}
+                          testId={`ai-file-toggle-${fop.path}`}
+                        />
+                      </div>
+                      {expanded && (
+                        <div className="mt-2">
+                          {selectedFileState?.loading ? (
+                            <div className={`${roundedClass} flex items-center gap-2 p-3 text-sm`} style={{ background: 'var(--muted)', color: 'var(--muted-foreground)' }}>
+                              <Loader2 className="h-4 w-4 animate-spin" /> 正在加载当前文件内容...
+                            </div>
+                          ) : selectedFileState?.error ? (
+                            <div className={`${roundedClass} p-3 text-sm`} style={{ background: 'var(--danger-light)', color: 'var(--danger)' }}>
+                              {selectedFileState.error}
+                            </div>
+                          ) : selectedFileOp ? (
+                            <div className="space-y-2">
+                              <div className="flex items-center gap-3 text-xs" style={{ color: 'var(--muted-foreground)' }}>
+                                <span>新增行：{lineDiff.added}</span>
+                                <span>删除行：{lineDiff.removed}</span>
+                                {selectedFileState && !selectedFileState.exists && <span>（新文件）</span>}
+                              </div>
+                              {(selectedFileOp.content_base64 || selectedFileState?.isBinary) ? (
+                                <div className={`${roundedClass} p-3 text-xs`} style={{ background: 'var(--muted)' }}>
+                                  此文件包含二进制内容，当前仅展示路径级变更。
+                                </div>
+                              ) : (
+                                <div data-testid="ai-file-preview">
+                                  <InlineLineDiff lines={fileLines} />
+                                </div>
+                              )}
+                            </div>
+                          ) : null}
                         </div>
                       )}
                     </div>
-                  ) : null}
-                </div>
-              )}
+                  )
+                })}
+              </div>
             </div>
           )}
 
@@ -333,13 +421,13 @@ export function SkillFormEnhanceTab({
             </div>
           )}
 
-          {aiLintPreview && (
-            <div className={`${roundedClass} p-3 ${aiLintPreview.valid ? 'bg-green-50' : 'bg-amber-50'}`}>
-              <p className={`text-sm font-medium flex items-center gap-2 ${aiLintPreview.valid ? 'text-green-700' : 'text-amber-700'}`}>
-                {aiLintPreview.valid ? <CheckCircle className="h-4 w-4" /> : <AlertCircle className="h-4 w-4" />}
-                校验预览：{aiLintPreview.valid ? '通过' : '存在问题'}
+          {selectionLintPreview && (
+            <div className={`${roundedClass} p-3 ${selectionLintPreview.valid ? 'bg-green-50' : 'bg-amber-50'}`}>
+              <p className={`text-sm font-medium flex items-center gap-2 ${selectionLintPreview.valid ? 'text-green-700' : 'text-amber-700'}`}>
+                {selectionLintPreview.valid ? <CheckCircle className="h-4 w-4" /> : <AlertCircle className="h-4 w-4" />}
+                校验预览{rejectedCount > 0 ? '（仅选中项）' : ''}：{selectionLintPreview.valid ? '通过' : '存在问题'}
               </p>
-              {!aiLintPreview.valid && (
+              {!selectionLintPreview.valid && (
                 <ul className="mt-2 space-y-1">
                   {friendlyLintIssues.map((e, i) => (
                     <li key={i} className="text-xs text-amber-600">
@@ -352,16 +440,47 @@ export function SkillFormEnhanceTab({
             </div>
           )}
 
+          {friendlyRegressions.length > 0 && !aiApplied && (
+            <div className={`${roundedClass} bg-red-50 p-3`} data-testid="ai-lint-regressions">
+              <p className="text-sm font-medium flex items-center gap-2 text-red-700">
+                <AlertCircle className="h-4 w-4" /> 应用后将新增 {friendlyRegressions.length} 个 Lint 问题，已阻止应用
+              </p>
+              <ul className="mt-2 space-y-1">
+                {friendlyRegressions.map((e, i) => (
+                  <li key={i} className="text-xs text-red-600">
+                    <span className="bg-red-100 px-1 rounded">{e.fieldLabel}</span> {e.message}
+                  </li>
+                ))}
+              </ul>
+              <Button
+                onClick={() => void handleAiApply(selection, true)}
+                disabled={aiApplying}
+                type="button"
+                variant="destructive"
+                size="sm"
+                className={`mt-2 ${roundedClass}`}
+                data-testid="ai-force-apply-btn"
+              >
+                仍然应用
+              </Button>
+            </div>
+          )}
+
           <div className="flex gap-2">
             <Button
-              onClick={() => void handleAiApply()}
-              disabled={aiApplying || aiApplied || (aiLintPreview !== null && !aiLintPreview.valid)}
+              onClick={() => void handleAiApply(selection)}
+              disabled={
+                aiApplying
+                || aiApplied
+                || (rejectedCount > 0 && selectedCount === 0)
+                || (selectionLintPreview !== null && !selectionLintPreview.valid)
+              }
               type="button"
               className={`inline-flex items-center gap-1.5 ${roundedLgClass} px-6`}
               data-testid="ai-apply-btn"
             >
               {aiApplying ? <Loader2 className="h-4 w-4 animate-spin" /> : <CheckCircle className="h-4 w-4" />}
-              {aiApplied ? '已应用' : '应用变更'}
+              {aiApplied ? '已应用' : rejectedCount > 0 ? `应用选中变更（${selectedCount}）` : '应用变更'}
             </Button>
             <Button onClick={clearAiChangeSet} type="button" variant="outline" className={`${roundedLgClass} px-4`}>
               放弃
@@ -0,0 +1,217 @@
+'use client'
+
+import { useEffect, useMemo, useRef, useState, type MutableRefObject } from 'react'
+import { AlertCircle, CheckCircle } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { toFriendlyLintIssues } from '@/lib/friendly-validation'
+import { lintSkillPackage } from '@/lib/lint'
+import {
+  locateSkillMarkdownField,
+  parseSkillMarkdown,
+  renderSkillMarkdown,
+  type SkillMarkdownParseResult,
+} from '@/lib/markdown'
+import { slugify } from '@/lib/slugify'
+import type { SkillData } from '@/lib/types'
+
+const LINE_HEIGHT = 20
+
+interface MarkdownTabProps {
+  roundedLgClass: string
+  currentSkill: Omit<SkillData, 'slug'>
+  filePaths: string[]
+  applyMarkdown: (markdown: string) => SkillMarkdownParseResult
+  /** 保存前由表单调用：把未同步的原文写回表单，解析失败返回 false */
+  flushRef: MutableRefObject<(() => boolean) | null>
+}
+
+interface EditorIssue {
+  line: number
+  kind: 'parse' | 'lint'
+  message: string
+}
+
+/** 与 handleLint / handleSave 一致：空步骤、空停止条件、不完整测试不参与校验 */
+function lintableSkill(skill: SkillData): SkillData {
+  return {
+    ...skill,
+    slug: slugify(skill.title),
+    steps: skill.steps.filter(Boolean),
+    triggers: skill.triggers.filter(Boolean),
+    guardrails: { ...skill.guardrails, stop_conditions: skill.guardrails.stop_conditions.filter(Boolean) },
+    tests: skill.tests.filter((t) => t.name && t.input && t.expected_output),
+  }
+}
+
+/**
+ * 以 SKILL.md 原文编辑 Skill：未编辑时展示表单的实时渲染结果，失焦时解析写回表单；
+ * 解析错误与 lint 错误标注在对应行
+ */
+export function SkillFormMarkdownTab({ roundedLgClass, currentSkill, filePaths, applyMarkdown, flushRef }: MarkdownTabProps) {
+  const [draft, setDraft] = useState<string | null>(null)
+  const textareaRef = useRef<HTMLTextAreaElement>(null)
+  const backdropRef = useRef<HTMLDivElement>(null)
+  const gutterRef = useRef<HTMLDivElement>(null)
+
+  const rendered = useMemo(
+    () => renderSkillMarkdown({ ...currentSkill, slug: slugify(currentSkill.title) }, filePaths),
+    [currentSkill, filePaths]
+  )
+  const value = draft ?? rendered
+  const lines = useMemo(() => value.split('\n'), [value])
+
+  const issues = useMemo<EditorIssue[]>(() => {
+    const parsed = parseSkillMarkdown(value)
+    if (!parsed.ok) {
+      return parsed.errors.map((error) => ({ line: error.line, kind: 'parse', message: error.message }))
+    }
+    const lint = lintSkillPackage(lintableSkill(parsed.skill), filePaths)
+    return toFriendlyLintIssues(lint.errors).map((issue) => ({
+      line: locateSkillMarkdownField(value, issue.field),
+      kind: 'lint',
+      message: issue.message,
+    }))
+  }, [value, filePaths])
+
+  const issuesByLine = useMemo(() => {
+    const map = new Map<number, EditorIssue[]>()
+    for (const issue of issues) map.set(issue.line, [...(map.get(issue.line) || []), issue])
+    return map
+  }, [issues])
+  const parseFailed = issues.some((issue) => issue.kind === 'parse')
+
+  function sync(): boolean {
+    if (draft === null) return true
+    const result = applyMarkdown(draft)
+    if (result.ok) setDraft(null)
+    return result.ok
+  }
+
+  useEffect(() => {
+    flushRef.current = sync
+    return () => {
+      flushRef.current = null
+    }
+  })
+
+  function handleScroll() {
+    const textarea = textareaRef.current
+    if (!textarea) return
+    if (backdropRef.current) {
+      backdropRef.current.scrollTop = textarea.scrollTop
+      backdropRef.current.scrollLeft = textarea.scrollLeft
+    }
+    if (gutterRef.current) gutterRef.current.scrollTop = textarea.scrollTop
+  }
+
+  function jumpToLine(line: number) {
+    const textarea = textareaRef.current
+    if (!textarea) return
+    const start = lines.slice(0, line - 1).reduce((sum, text) => sum + text.length + 1, 0)
+    textarea.focus()
+    textarea.setSelectionRange(start, start + (lines[line - 1]?.length ?? 0))
+    textarea.scrollTop = Math.max(0, (line - 3) * LINE_HEIGHT)
+    handleScroll()
+  }
+
+  return (
+    <div className="space-y-3" data-testid="skill-markdown-tab">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <p className="text-xs" style={{ color: 'var(--muted-foreground)' }}>
+          直接编辑 SKILL.md，失焦或保存时解析回表单字段。name 与 description 由标题、摘要和触发词生成，Supporting files 请在「文件」页管理。
+        </p>
+        {draft !== null && (
+          <div className="flex items-center gap-2">
+            <span className="text-xs" style={{ color: 'var(--warning)' }}>
+              {parseFailed ? '有解析错误，修正后才会同步到表单' : '有未同步的修改'}
+            </span>
+            <Button type="button" size="sm" variant="outline" className="h-7 rounded-md px-2 text-xs" onClick={() => setDraft(null)}>
+              放弃修改
+            </Button>
+          </div>
+        )}
+      </div>
+
+      <div
+        className={`${roundedLgClass} relative flex overflow-hidden border font-mono text-xs`}
+        style={{ borderColor: parseFailed ? 'var(--danger)' : 'var(--border)', background: 'var(--card)' }}
+      >
+        <div
+          ref={gutterRef}
+          aria-hidden
+          className="h-[560px] w-10 shrink-0 select-none overflow-hidden border-r py-2 pr-2 text-right"
+          style={{ borderColor: 'var(--border)', background: 'var(--muted)', color: 'var(--muted-foreground)' }}
+        >
+          {lines.map((_, i) => (
+            <div
+              key={i}
+              style={{ height: LINE_HEIGHT, lineHeight: `${LINE_HEIGHT}px`, color: issuesByLine.has(i + 1) ? 'var(--danger)' : undefined }}
+            >
+              {i + 1}
+            </div>
+          ))}
+        </div>
+        <div className="relative h-[560px] min-w-0 flex-1">
+          <div ref={backdropRef} aria-hidden className="pointer-events-none absolute inset-0 overflow-hidden px-3 py-2">
+            {lines.map((line, i) => {
+              const lineIssues = issuesByLine.get(i + 1)
+              return (
+                <div
+                  key={i}
+                  className="whitespace-pre"
+                  style={{
+                    height: LINE_HEIGHT,
+                    lineHeight: `${LINE_HEIGHT}px`,
+                    background: lineIssues ? 'var(--danger-light)' : undefined,
+                  }}
+                >
+                  <span className="text-transparent">{line}</span>
+                  {lineIssues && (
+                    <span className="ml-4" style={{ color: 'var(--danger)' }}>
+                      {lineIssues.map((issue) => issue.message).join('；')}
+                    </span>
+                  )}
+                </div>
+              )
+            })}
+          </div>
+          <textarea
+            ref={textareaRef}
+            value={value}
+            wrap="off"
+            spellCheck={false}
+            aria-label="SKILL.md"
+            className="absolute inset-0 h-full w-full resize-none overflow-auto bg-transparent px-3 py-2 outline-none"
+            style={{ lineHeight: `${LINE_HEIGHT}px` }}
+            onChange={(e) => setDraft(e.target.value)}
+            onBlur={() => void sync()}
+            onScroll={handleScroll}
+          />
+        </div>
+      </div>
+
+      {issues.length > 0 ? (
+        <div className={`${roundedLgClass} p-3`} style={{ background: 'var(--danger-light)' }}>
+          <p className="mb-2 flex items-center gap-2 text-sm font-medium" style={{ color: 'var(--danger)' }}>
+            <AlertCircle className="h-4 w-4" />
+            {parseFailed ? `解析失败（${issues.length} 处）` : `校验未通过（${issues.length} 项）`}
+          </p>
+          <ul className="space-y-1">
+            {issues.map((issue, i) => (
+              <li key={i} className="text-xs">
+                <button type="button" className="font-mono underline" style={{ color: 'var(--danger)' }} onClick={() => jumpToLine(issue.line)}>
+                  第 {issue.line} 行
+                </button>
+                <span className="ml-2">{issue.message}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      ) : (
+        <p className="flex items-center gap-2 text-xs" style={{ color: 'var(--success)' }}>
+          <CheckCircle className="h-3.5 w-3.5" /> 解析与校验均通过
+        </p>
+      )}
+    </div>
+  )
+}
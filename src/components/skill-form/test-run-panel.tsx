@@ -0,0 +1,169 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { FlaskConical, Loader2 } from 'lucide-react'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { useNotify } from '@/components/ui/notify-provider'
+import { toUserFriendlyErrorMessage } from '@/lib/friendly-validation'
+import { guardedFetch } from '@/lib/guarded-fetch'
+import type { SkillTestGraderName } from '@/lib/skill-test-graders'
+import type { SkillTestCaseResult } from '@/lib/skill-test-runner'
+
+export interface SkillTestRunItem {
+  id: number | null
+  provider: string
+  grader: string
+  total: number
+  passed: number
+  passRate: number
+  durationMs: number
+  createdAt: string
+}
+
+export interface SkillTestRunDetail extends SkillTestRunItem {
+  results: SkillTestCaseResult[]
+}
+
+const GRADER_LABELS: Record<SkillTestGraderName, string> = {
+  contains: '包含',
+  exact: '完全一致',
+  regex: '正则',
+  'json-subset': 'JSON 子集',
+  'llm-judge': 'LLM 评审',
+}
+
+export function formatPassRate(rate: number): string {
+  return `${Math.round(rate * 100)}%`
+}
+
+/**
+ * 测试运行记录：最近运行列表 + 最近一次的逐条结果
+ */
+export function useSkillTestRuns(skillId?: number) {
+  const notify = useNotify()
+  const [runs, setRuns] = useState<SkillTestRunItem[]>([])
+  const [latest, setLatest] = useState<SkillTestRunDetail | null>(null)
+  const [running, setRunning] = useState(false)
+
+  const fetchRuns = useCallback(async () => {
+    if (!skillId) return
+    try {
+      const res = await guardedFetch(`/api/skills/${skillId}/tests/runs?limit=10`)
+      const data = await res.json().catch(() => ({}))
+      // 运行记录表未初始化时静默
+      if (!res.ok) return
+      const items: SkillTestRunItem[] = Array.isArray(data.items) ? data.items : []
+      setRuns(items)
+      if (items[0]?.id) {
+        const detailRes = await guardedFetch(`/api/skills/${skillId}/tests/runs/${items[0].id}`)
+        if (detailRes.ok) setLatest(await detailRes.json())
+      }
+    } catch {
+      notify.error('加载测试运行记录失败，请稍后重试。')
+    }
+  }, [skillId, notify])
+
+  useEffect(() => {
+    void fetchRuns()
+  }, [fetchRuns])
+
+  const runTests = useCallback(async (grader: SkillTestGraderName) => {
+    if (!skillId) return
+    setRunning(true)
+    try {
+      const res = await guardedFetch(`/api/skills/${skillId}/tests/run`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ grader }),
+      })
+      const data = await res.json().catch(() => ({}))
+      if (!res.ok) {
+        notify.error(toUserFriendlyErrorMessage(data.error || `运行测试失败（${res.status}）`))
+        return
+      }
+      const detail: SkillTestRunDetail = {
+        id: data.run?.id ?? null,
+        provider: data.provider,
+        grader: data.grader,
+        total: data.total,
+        passed: data.passed,
+        passRate: data.passRate,
+        durationMs: data.durationMs,
+        createdAt: data.run?.createdAt ?? new Date().toISOString(),
+        results: Array.isArray(data.results) ? data.results : [],
+      }
+      setLatest(detail)
+      setRuns((prev) => [detail, ...prev.filter((item) => item.id === null || item.id !== detail.id)].slice(0, 10))
+      notify.success(`测试完成：通过 ${detail.passed}/${detail.total}`)
+    } catch {
+      notify.error('运行测试时网络异常，请重试。')
+    } finally {
+      setRunning(false)
+    }
+  }, [skillId, notify])
+
+  return { runs, latest, running, runTests }
+}
+
+interface SkillTestRunPanelProps {
+  roundedClass: string
+  runs: SkillTestRunItem[]
+  running: boolean
+  runTests: (grader: SkillTestGraderName) => Promise<void>
+}
+
+export function SkillTestRunPanel({ roundedClass, runs, running, runTests }: SkillTestRunPanelProps) {
+  const [grader, setGrader] = useState<SkillTestGraderName>('contains')
+
+  return (
+    <div className={`${roundedClass} border border-[var(--input-border)] p-3 space-y-2`} data-testid="skill-test-run-panel">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex items-center gap-2 text-sm font-medium">
+          <FlaskConical className="h-4 w-4" style={{ color: 'var(--accent)' }} />
+          运行测试
+          <span className="text-xs font-normal" style={{ color: 'var(--muted-foreground)' }}>基于已保存的内容</span>
+        </div>
+        <div className="flex items-center gap-2">
+          <Select value={grader} onValueChange={(value) => setGrader(value as SkillTestGraderName)}>
+            <SelectTrigger className="h-8 w-[130px] rounded-md px-2 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(GRADER_LABELS) as SkillTestGraderName[]).map((name) => (
+                <SelectItem key={name} value={name}>{GRADER_LABELS[name]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            type="button"
+            size="sm"
+            className="h-8"
+            disabled={running}
+            onClick={() => void runTests(grader)}
+            data-testid="skill-test-run-btn"
+          >
+            {running && <Loader2 className="h-4 w-4 animate-spin" />}
+            {running ? '运行中...' : '运行'}
+          </Button>
+        </div>
+      </div>
+      {runs.length === 0 ? (
+        <p className="text-xs" style={{ color: 'var(--muted-foreground)' }}>暂无运行记录</p>
+      ) : (
+        <ul className="space-y-1">
+          {runs.map((run, i) => (
+            <li key={run.id ?? `latest-${i}`} className="flex items-center gap-2 text-xs">
+              <Badge variant={run.passed === run.total ? 'default' : 'destructive'}>{formatPassRate(run.passRate)}</Badge>
+              <span>通过 {run.passed}/{run.total}</span>
+              <span style={{ color: 'var(--muted-foreground)' }}>
+                {GRADER_LABELS[run.grader as SkillTestGraderName] || run.grader} · {run.provider} · {new Date(run.createdAt).toLocaleString()}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
@@ -2,12 +2,15 @@
 
 import { Plus, Trash2 } from 'lucide-react'
 import type { SkillTestCase } from '@/lib/types'
+import { Badge } from '@/components/ui/badge'
 import { FormField } from '@/components/ui/form-field'
 import { Button } from '@/components/ui/button'
 import { Input, type FieldVisualState } from '@/components/ui/input'
 import { Textarea } from '@/components/ui/textarea'
+import { SkillTestRunPanel, useSkillTestRuns } from '@/components/skill-form/test-run-panel'
 
 interface TestsTabProps {
+  skillId?: number
   roundedClass: string
   monoDataClass: string
   tests: SkillTestCase[]
@@ -23,6 +26,7 @@ interface TestsTabProps {
 }
 
 export function SkillFormTestsTab({
+  skillId,
   roundedClass,
   monoDataClass,
   tests,
@@ -36,6 +40,12 @@ export function SkillFormTestsTab({
   getFieldState,
   aiRingClass,
 }: TestsTabProps) {
+  const { runs, latest, running, runTests } = useSkillTestRuns(skillId)
+
+  // 只展示与当前用例内容一致的最近结果，编辑后的用例需重新运行
+  const findLatestResult = (test: SkillTestCase) =>
+    latest?.results.find((r) => r.name === test.name && r.input === test.input && r.expected === test.expected_output)
+
   return (
     <div className="space-y-4">
       <p className="text-sm" style={{ color: 'var(--muted-foreground)' }}>定义测试用例（至少 1 个）。每个测试包含名称、输入和预期输出。</p>
@@ -50,50 +60,72 @@ export function SkillFormTestsTab({
         <div className="h-0.5" />
       </FormField>
 
-      {tests.map((test, i) => (
-        <div key={i} className={`${roundedClass} border border-[var(--input-border)] p-3 space-y-2 ${aiRingClass('tests')}`}>
-          <div className="flex items-center justify-between">
-            <span className="text-sm font-medium">测试 {i + 1}</span>
-            {tests.length > 1 && (
-              <Button
-                onClick={() => { markUserEdited('tests'); removeTest(i) }}
-                type="button"
-                variant="ghost"
-                size="icon"
-                className="h-8 w-8 text-[var(--danger)] opacity-50 hover:opacity-100"
-              >
-                <Trash2 className="h-4 w-4" />
-              </Button>
+      {skillId && (
+        <SkillTestRunPanel roundedClass={roundedClass} runs={runs} running={running} runTests={runTests} />
+      )}
+
+      {tests.map((test, i) => {
+        const result = findLatestResult(test)
+        return (
+          <div key={i} className={`${roundedClass} border border-[var(--input-border)] p-3 space-y-2 ${aiRingClass('tests')}`}>
+            <div className="flex items-center justify-between">
+              <div className="flex items-center gap-2">
+                <span className="text-sm font-medium">测试 {i + 1}</span>
+                {result && (
+                  <Badge variant={result.passed ? 'default' : 'destructive'} title={result.error || result.reason}>
+                    {result.passed ? '通过' : '未通过'}
+                  </Badge>
+                )}
+              </div>
+              {tests.length > 1 && (
+                <Button
+                  onClick={() => { markUserEdited('tests'); removeTest(i) }}
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8 text-[var(--danger)] opacity-50 hover:opacity-100"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              )}
+            </div>
+            <Input
+              value={test.name}
+              density="compact"
+              onChange={(e) => { markUserEdited('tests'); updateTest(i, 'name', e.target.value) }}
+              state={!test.name.trim() && shouldShowFieldError('tests') ? 'error' : 'default'}
+              className={`w-full ${roundedClass} ${monoDataClass}`}
+              placeholder="测试名称"
+            />
+            <Textarea
+              value={test.input}
+              density="compact"
+              onChange={(e) => { markUserEdited('tests'); updateTest(i, 'input', e.target.value) }}
+              state={!test.input.trim() && shouldShowFieldError('tests') ? 'error' : 'default'}
+              className={`w-full ${roundedClass} min-h-[92px] font-mono`}
+              rows={2}
+              placeholder="输入"
+            />
+            <Textarea
+              value={test.expected_output}
+              density="compact"
+              onChange={(e) => { markUserEdited('tests'); updateTest(i, 'expected_output', e.target.value) }}
+              state={!test.expected_output.trim() && shouldShowFieldError('tests') ? 'error' : 'default'}
+              className={`w-full ${roundedClass} min-h-[92px] font-mono`}
+              rows={2}
+              placeholder="预期输出"
+            />
+            {result && !result.passed && (
+              <div className={`${roundedClass} p-2 text-xs`} style={{ background: 'var(--muted)' }}>
+                <p style={{ color: 'var(--danger)' }}>{result.error || result.reason}</p>
+                {result.output && (
+                  <pre className="mt-1 max-h-40 overflow-auto whitespace-pre-wrap font-mono text-[11px]">{result.output}</pre>
+                )}
+              </div>
             )}
           </div>
-          <Input
-            value={test.name}
-            density="compact"
-            onChange={(e) => { markUserEdited('tests'); updateTest(i, 'name', e.target.value) }}
-            state={!test.name.trim() && shouldShowFieldError('tests') ? 'error' : 'default'}
-            className={`w-full ${roundedClass} ${monoDataClass}`}
-            placeholder="测试名称"
-          />
-          <Textarea
-            value={test.input}
-            density="compact"
-            onChange={(e) => { markUserEdited('tests'); updateTest(i, 'input', e.target.value) }}
-            state={!test.input.trim() && shouldShowFieldError('tests') ? 'error' : 'default'}
-            className={`w-full ${roundedClass} min-h-[92px] font-mono`}
-            rows={2}
-            placeholder="输入"
-          />
-          <Textarea
-            value={test.expected_output}
-            density="compact"
-            onChange={(e) => { markUserEdited('tests'); updateTest(i, 'expected_output', e.target.value) }}
-            state={!test.expected_output.trim() && shouldShowFieldError('tests') ? 'error' : 'default'}
-            className={`w-full ${roundedClass} min-h-[92px] font-mono`}
-            rows={2}
-            placeholder="预期输出"
-          />
-        </div>
-      ))}
+        )
+      })}
 
       <Button onClick={addTest} type="button" variant="ghost" size="sm" className="h-8 px-2 text-sm text-[var(--muted-foreground)]">
         <Plus className="h-4 w-4" /> 添加测试用例
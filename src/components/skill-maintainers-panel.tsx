@@ -0,0 +1,170 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { UsersRound, X } from 'lucide-react'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { useNotify } from '@/components/ui/notify-provider'
+import { toUserFriendlyErrorMessage } from '@/lib/friendly-validation'
+import { guardedFetch } from '@/lib/guarded-fetch'
+
+interface MaintainerPerson {
+  username: string
+  displayName: string | null
+}
+
+interface MaintainersState {
+  owner: MaintainerPerson
+  maintainers: MaintainerPerson[]
+}
+
+interface SkillMaintainersPanelProps {
+  skillId: number
+  /** 负责人与 admin 可调整 */
+  canManage: boolean
+  onChanged: () => Promise<void>
+}
+
+function formatPerson(person: MaintainerPerson): string {
+  if (person.username === 'SYS') return '系统'
+  return person.displayName || person.username
+}
+
+/**
+ * 负责人与共同维护人：作者角色只能编辑自己负责或共同维护的 Skill
+ */
+export function SkillMaintainersPanel({ skillId, canManage, onChanged }: SkillMaintainersPanelProps) {
+  const notify = useNotify()
+  const [state, setState] = useState<MaintainersState | null>(null)
+  const [newMaintainer, setNewMaintainer] = useState('')
+  const [newOwner, setNewOwner] = useState('')
+  const [busy, setBusy] = useState(false)
+
+  const fetchMaintainers = useCallback(async () => {
+    try {
+      const res = await guardedFetch(`/api/skills/${skillId}/maintainers`)
+      const data = await res.json().catch(() => ({}))
+      if (!res.ok) {
+        notify.error(toUserFriendlyErrorMessage(data.error || `加载维护人失败（${res.status}）`))
+        return
+      }
+      setState(data)
+    } catch {
+      notify.error('加载维护人失败，请稍后重试。')
+    }
+  }, [skillId, notify])
+
+  useEffect(() => {
+    void fetchMaintainers()
+  }, [fetchMaintainers])
+
+  async function save(body: { owner?: string; maintainers: string[] }, successMessage: string) {
+    setBusy(true)
+    try {
+      const res = await guardedFetch(`/api/skills/${skillId}/maintainers`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      })
+      const data = await res.json().catch(() => ({}))
+      if (!res.ok) {
+        notify.error(toUserFriendlyErrorMessage(data.error || `更新维护人失败（${res.status}）`))
+        return
+      }
+      setState(data)
+      setNewMaintainer('')
+      setNewOwner('')
+      notify.success(successMessage)
+      await onChanged()
+    } catch {
+      notify.error('更新维护人时网络异常，请重试。')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const usernames = state ? state.maintainers.map((item) => item.username) : []
+
+  return (
+    <section className="card p-5" data-testid="skill-maintainers-panel">
+      <div className="mb-3 flex items-center gap-2">
+        <UsersRound className="h-3.5 w-3.5" style={{ color: 'var(--accent)' }} />
+        <h2 className="text-xs font-semibold uppercase tracking-wider" style={{ color: 'var(--muted-foreground)' }}>
+          负责人与维护人
+        </h2>
+      </div>
+      {!state ? (
+        <p className="text-sm" style={{ color: 'var(--muted-foreground)' }}>加载中...</p>
+      ) : (
+        <div className="space-y-3">
+          <div className="flex flex-wrap items-center gap-2 text-sm">
+            <span style={{ color: 'var(--muted-foreground)' }}>负责人</span>
+            <Badge>{formatPerson(state.owner)}</Badge>
+          </div>
+          <div className="flex flex-wrap items-center gap-2 text-sm">
+            <span style={{ color: 'var(--muted-foreground)' }}>共同维护人</span>
+            {state.maintainers.length === 0 && (
+              <span className="text-xs" style={{ color: 'var(--muted-foreground)' }}>无</span>
+            )}
+            {state.maintainers.map((person) => (
+              <Badge key={person.username} variant="outline" className="gap-1" title={person.username}>
+                {formatPerson(person)}
+                {canManage && (
+                  <button
+                    type="button"
+                    aria-label={`移除 ${person.username}`}
+                    disabled={busy}
+                    onClick={() =>
+                      void save(
+                        { maintainers: usernames.filter((username) => username !== person.username) },
+                        `已移除维护人 ${person.username}`
+                      )
+                    }
+                  >
+                    <X className="h-3 w-3" />
+                  </button>
+                )}
+              </Badge>
+            ))}
+          </div>
+          {canManage && (
+            <div className="flex flex-wrap items-center gap-2">
+              <Input
+                value={newMaintainer}
+                onChange={(e) => setNewMaintainer(e.target.value)}
+                placeholder="添加维护人（用户名）"
+                className="h-8 w-[180px] text-xs"
+              />
+              <Button
+                type="button"
+                size="sm"
+                className="h-8"
+                disabled={busy || !newMaintainer.trim()}
+                onClick={() => void save({ maintainers: [...usernames, newMaintainer.trim()] }, `已添加维护人 ${newMaintainer.trim()}`)}
+              >
+                添加
+              </Button>
+              <Input
+                value={newOwner}
+                onChange={(e) => setNewOwner(e.target.value)}
+                placeholder="转交负责人（用户名）"
+                className="h-8 w-[180px] text-xs"
+              />
+              <Button
+                type="button"
+                size="sm"
+                variant="outline"
+                className="h-8"
+                disabled={busy || !newOwner.trim()}
+                onClick={() => void save({ owner: newOwner.trim(), maintainers: usernames }, `负责人已转交给 ${newOwner.trim()}`)}
+              >
+                转交
+              </Button>
+            </div>
+          )}
+        </div>
+      )}
+    </section>
+  )
+}
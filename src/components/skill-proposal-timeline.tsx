@@ -0,0 +1,218 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { Bot } from 'lucide-react'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { useNotify } from '@/components/ui/notify-provider'
+import { toUserFriendlyErrorMessage } from '@/lib/friendly-validation'
+import { guardedFetch } from '@/lib/guarded-fetch'
+import type { ChangeSetSummary } from '@/lib/ai/proposal-log'
+import type { RejectedChangeItems } from '@/lib/ai/change-set-selection'
+
+interface ProposalItem {
+  id: number
+  action: string
+  provider: string | null
+  instruction: string | null
+  status: string
+  error: string | null
+  usage: { inputTokens: number | null; outputTokens: number | null; costUsd: number | null }
+  proposed: ChangeSetSummary | null
+  applied: ChangeSetSummary | null
+  rejected: RejectedChangeItems | null
+  version: { id: number; version: number } | null
+  appliedAt: string | null
+  createdAt: string
+}
+
+interface ProposalDetail extends ProposalItem {
+  prompt: string
+  changeSet: unknown
+  appliedChangeSet: unknown
+}
+
+const ACTION_LABELS: Record<string, string> = {
+  'update-skill': '优化内容',
+  'fix-lint': '修复 Lint',
+  'create-supporting-files': '生成文件',
+}
+
+const STATUS_BADGES: Record<string, { label: string; variant: 'default' | 'secondary' | 'destructive' | 'outline' }> = {
+  proposed: { label: '未应用', variant: 'secondary' },
+  applied: { label: '已应用', variant: 'default' },
+  failed: { label: '提案失败', variant: 'destructive' },
+  apply_failed: { label: '应用失败', variant: 'destructive' },
+}
+
+function describeSummary(summary: Pick<ChangeSetSummary, 'fields' | 'fileOps'> | null): string {
+  if (!summary) return '—'
+  const parts: string[] = []
+  if (summary.fields.length > 0) parts.push(`字段 ${summary.fields.join('、')}`)
+  if (summary.fileOps.length > 0) {
+    parts.push(`文件 ${summary.fileOps.map((fop) => `${fop.op === 'delete' ? '-' : '+'}${fop.path}`).join('、')}`)
+  }
+  return parts.length > 0 ? parts.join('；') : '无改动'
+}
+
+function describeUsage(usage: ProposalItem['usage']): string | null {
+  const parts: string[] = []
+  if (usage.inputTokens !== null || usage.outputTokens !== null) {
+    parts.push(`tokens ${usage.inputTokens ?? 0} / ${usage.outputTokens ?? 0}`)
+  }
+  if (usage.costUsd !== null) parts.push(`$${usage.costUsd.toFixed(4)}`)
+  return parts.length > 0 ? parts.join(' · ') : null
+}
+
+/**
+ * AI 提案时间线：AI 建议了什么、用户接受了什么、生成了哪个版本
+ */
+export function SkillProposalTimeline({ skillId }: { skillId: number }) {
+  const notify = useNotify()
+  const [items, setItems] = useState<ProposalItem[]>([])
+  const [loading, setLoading] = useState(false)
+  const [expandedId, setExpandedId] = useState<number | null>(null)
+  const [details, setDetails] = useState<Record<number, ProposalDetail | null>>({})
+
+  const fetchProposals = useCallback(async () => {
+    setLoading(true)
+    try {
+      const res = await guardedFetch(`/api/skills/${skillId}/proposals?limit=20`)
+      const data = await res.json().catch(() => ({}))
+      if (!res.ok) {
+        // 提案表未初始化时静默展示空列表
+        if (res.status !== 503) notify.error(toUserFriendlyErrorMessage(data.error || `加载 AI 提案失败（${res.status}）`))
+        setItems([])
+        return
+      }
+      setItems(Array.isArray(data.items) ? data.items : [])
+    } catch {
+      notify.error('加载 AI 提案失败，请稍后重试。')
+      setItems([])
+    } finally {
+      setLoading(false)
+    }
+  }, [skillId, notify])
+
+  useEffect(() => {
+    void fetchProposals()
+  }, [fetchProposals])
+
+  async function toggleDetail(proposalId: number) {
+    if (expandedId === proposalId) {
+      setExpandedId(null)
+      return
+    }
+    setExpandedId(proposalId)
+    if (details[proposalId]) return
+    try {
+      const res = await guardedFetch(`/api/skills/${skillId}/proposals/${proposalId}`)
+      const data = await res.json().catch(() => ({}))
+      if (!res.ok) {
+        notify.error(toUserFriendlyErrorMessage(data.error || `加载提案详情失败（${res.status}）`))
+        setExpandedId(null)
+        return
+      }
+      setDetails((prev) => ({ ...prev, [proposalId]: data }))
+    } catch {
+      notify.error('加载提案详情失败，请稍后重试。')
+      setExpandedId(null)
+    }
+  }
+
+  return (
+    <section className="card p-5">
+      <div className="mb-3 flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <Bot className="h-3.5 w-3.5" style={{ color: 'var(--accent)' }} />
+          <h2 className="text-xs font-semibold uppercase tracking-wider" style={{ color: 'var(--muted-foreground)' }}>
+            AI 提案记录
+          </h2>
+        </div>
+        <Button onClick={() => void fetchProposals()} variant="ghost" size="sm" className="h-7 rounded-md px-2 text-xs">
+          刷新
+        </Button>
+      </div>
+      {loading ? (
+        <p className="text-sm" style={{ color: 'var(--muted-foreground)' }}>提案加载中...</p>
+      ) : items.length === 0 ? (
+        <p className="text-sm" style={{ color: 'var(--muted-foreground)' }}>暂无 AI 提案记录</p>
+      ) : (
+        <ol className="space-y-2 border-l pl-4" style={{ borderColor: 'var(--border)' }}>
+          {items.map((item) => {
+            const badge = STATUS_BADGES[item.status] || { label: item.status, variant: 'outline' as const }
+            const usage = describeUsage(item.usage)
+            const detail = details[item.id]
+            return (
+              <li key={item.id} className="rounded-lg p-2.5" style={{ background: 'var(--muted)' }}>
+                <div className="flex items-start justify-between gap-2">
+                  <div className="min-w-0 space-y-0.5">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <p className="text-sm font-medium">{ACTION_LABELS[item.action] || item.action}</p>
+                      <Badge variant={badge.variant}>{badge.label}</Badge>
+                      {item.version && <Badge variant="outline">v{item.version.version}</Badge>}
+                    </div>
+                    <p className="text-xs" style={{ color: 'var(--muted-foreground)' }}>
+                      {new Date(item.createdAt).toLocaleString()}
+                      {item.provider && ` · ${item.provider}`}
+                      {usage && ` · ${usage}`}
+                    </p>
+                    {item.instruction && (
+                      <p className="text-xs" style={{ color: 'var(--muted-foreground)' }}>指令：{item.instruction}</p>
+                    )}
+                    <p className="text-xs">AI 建议：{describeSummary(item.proposed)}</p>
+                    {item.status === 'applied' && (
+                      <p className="text-xs">
+                        已接受：{describeSummary(item.applied)}
+                        {item.appliedAt && ` · ${new Date(item.appliedAt).toLocaleString()}`}
+                      </p>
+                    )}
+                    {item.rejected && (item.rejected.fields.length > 0 || item.rejected.fileOps.length > 0) && (
+                      <p className="text-xs" style={{ color: 'var(--muted-foreground)' }}>
+                        已拒绝：{describeSummary(item.rejected)}
+                      </p>
+                    )}
+                    {item.error && (
+                      <p className="text-xs" style={{ color: 'var(--danger)' }}>{item.error}</p>
+                    )}
+                  </div>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    className="h-7 shrink-0 rounded-md px-2 text-xs"
+                    onClick={() => void toggleDetail(item.id)}
+                  >
+                    {expandedId === item.id ? '收起' : '详情'}
+                  </Button>
+                </div>
+                {expandedId === item.id && (
+                  detail ? (
+                    <div className="mt-2 space-y-2">
+                      <div>
+                        <p className="mb-1 text-xs font-medium" style={{ color: 'var(--muted-foreground)' }}>Prompt 快照</p>
+                        <pre className="max-h-60 overflow-auto whitespace-pre-wrap rounded-md p-2 font-mono text-[11px]" style={{ background: 'var(--background)' }}>
+                          {detail.prompt}
+                        </pre>
+                      </div>
+                      {detail.changeSet !== null && (
+                        <div>
+                          <p className="mb-1 text-xs font-medium" style={{ color: 'var(--muted-foreground)' }}>原始 ChangeSet</p>
+                          <pre className="max-h-60 overflow-auto whitespace-pre-wrap rounded-md p-2 font-mono text-[11px]" style={{ background: 'var(--background)' }}>
+                            {JSON.stringify(detail.changeSet, null, 2)}
+                          </pre>
+                        </div>
+                      )}
+                    </div>
+                  ) : (
+                    <p className="mt-2 text-xs" style={{ color: 'var(--muted-foreground)' }}>详情加载中...</p>
+                  )
+                )}
+              </li>
+            )
+          })}
+        </ol>
+      )}
+    </section>
+  )
+}
@@ -0,0 +1,247 @@
+'use client'
+
+import { useState } from 'react'
+import { ClipboardCheck, X } from 'lucide-react'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Textarea } from '@/components/ui/textarea'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { useNotify } from '@/components/ui/notify-provider'
+import { toUserFriendlyErrorMessage } from '@/lib/friendly-validation'
+import { guardedFetch } from '@/lib/guarded-fetch'
+import {
+  REVIEW_FIELD_LABELS,
+  REVIEW_STATUS_LABELS,
+  type ReviewDecision,
+  type ReviewField,
+  type ReviewFieldComment,
+  type SkillReviewOverview,
+} from '@/lib/skill-reviews'
+
+interface SkillReviewPanelProps {
+  skillId: number
+  overview: SkillReviewOverview | null
+  /** 可编辑该 Skill 的人可提交审核 */
+  canSubmit: boolean
+  canReview: boolean
+  /** 当前操作者 username，用于隐藏对自己提交的审核操作 */
+  actor: string
+  onChanged: () => Promise<void>
+}
+
+function formatActor(item: { createdBy: string; createdByName: string | null }): string {
+  if (item.createdBy === 'SYS') return '系统'
+  return item.createdByName || item.createdBy
+}
+
+/**
+ * 发布前审核：提交最新版本、查看审核意见，审核人按字段给出意见并通过或要求修改
+ */
+export function SkillReviewPanel({ skillId, overview, canSubmit, canReview, actor, onChanged }: SkillReviewPanelProps) {
+  const notify = useNotify()
+  const [note, setNote] = useState('')
+  const [comment, setComment] = useState('')
+  const [fieldComments, setFieldComments] = useState<ReviewFieldComment[]>([])
+  const [field, setField] = useState<ReviewField>('summary')
+  const [fieldMessage, setFieldMessage] = useState('')
+  const [busy, setBusy] = useState(false)
+
+  if (!overview) return null
+
+  const latest = overview.items[0]
+  const latestIsCurrent = !!latest && latest.version === overview.latestVersion
+  const canSubmitNow = canSubmit && !(latestIsCurrent && (latest.status === 'pending' || latest.status === 'approved'))
+  const canDecide =
+    canReview && latest?.status === 'pending' && latest.createdBy !== actor && !latest.decisions.some((item) => item.createdBy === actor)
+
+  async function submitReview() {
+    setBusy(true)
+    try {
+      const res = await guardedFetch(`/api/skills/${skillId}/reviews`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ note: note.trim() || undefined }),
+      })
+      const data = await res.json().catch(() => ({}))
+      if (!res.ok) {
+        notify.error(toUserFriendlyErrorMessage(data.error || `提交审核失败（${res.status}）`))
+        return
+      }
+      setNote('')
+      notify.success(`已提交 v${data.version} 审核`)
+      await onChanged()
+    } catch {
+      notify.error('提交审核时网络异常，请重试。')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  async function decide(decision: ReviewDecision) {
+    if (!latest) return
+    setBusy(true)
+    try {
+      const res = await guardedFetch(`/api/reviews/${latest.id}/decisions`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ decision, comment: comment.trim() || undefined, fieldComments }),
+      })
+      const data = await res.json().catch(() => ({}))
+      if (!res.ok) {
+        notify.error(toUserFriendlyErrorMessage(data.error || `提交审核意见失败（${res.status}）`))
+        return
+      }
+      setComment('')
+      setFieldComments([])
+      notify.success(decision === 'approve' ? '已通过' : '已要求修改')
+      await onChanged()
+    } catch {
+      notify.error('提交审核意见时网络异常，请重试。')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  function addFieldComment() {
+    const message = fieldMessage.trim()
+    if (!message) return
+    setFieldComments((prev) => [...prev, { field, message }])
+    setFieldMessage('')
+  }
+
+  return (
+    <section id="review" className="card p-5" data-testid="skill-review-panel">
+      <div className="mb-3 flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <ClipboardCheck className="h-3.5 w-3.5" style={{ color: 'var(--accent)' }} />
+          <h2 className="text-xs font-semibold uppercase tracking-wider" style={{ color: 'var(--muted-foreground)' }}>
+            发布审核
+          </h2>
+        </div>
+        <span className="text-xs" style={{ color: overview.publishable ? 'var(--success)' : 'var(--warning)' }}>
+          {overview.publishable ? '最新版本已通过审核，可发布' : '最新版本通过审核后才能发布'}
+        </span>
+      </div>
+
+      {!latest ? (
+        <p className="text-sm" style={{ color: 'var(--muted-foreground)' }}>尚未提交审核。</p>
+      ) : (
+        <div className="space-y-3">
+          <div className="flex flex-wrap items-center gap-2 text-sm">
+            <Badge variant={latest.status === 'changes_requested' ? 'destructive' : latest.status === 'approved' ? 'default' : 'outline'}>
+              {REVIEW_STATUS_LABELS[latest.status]}
+            </Badge>
+            <span>v{latest.version}</span>
+            <span className="text-xs" style={{ color: 'var(--muted-foreground)' }}>
+              通过 {latest.approvals}/{latest.requiredApprovals} · {formatActor(latest)} 提交于 {new Date(latest.createdAt).toLocaleString()}
+            </span>
+            {!latestIsCurrent && (
+              <span className="text-xs" style={{ color: 'var(--warning)' }}>提交后已有新版本</span>
+            )}
+          </div>
+          {latest.note && <p className="text-sm">{latest.note}</p>}
+          {latest.decisions.length > 0 && (
+            <ul className="space-y-2">
+              {latest.decisions.map((item) => (
+                <li key={item.id} className="rounded-md px-3 py-2 text-sm" style={{ background: 'var(--muted)' }}>
+                  <div className="text-xs" style={{ color: 'var(--muted-foreground)' }}>
+                    {formatActor(item)} · {item.decision === 'approve' ? '通过' : '要求修改'} · {new Date(item.createdAt).toLocaleString()}
+                  </div>
+                  {item.comment && <p className="mt-1">{item.comment}</p>}
+                  {item.fieldComments.length > 0 && (
+                    <ul className="mt-1 space-y-0.5">
+                      {item.fieldComments.map((fieldComment, index) => (
+                        <li key={index}>
+                          <span className="font-medium">{REVIEW_FIELD_LABELS[fieldComment.field]}：</span>
+                          {fieldComment.message}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
+      {canDecide && (
+        <div className="mt-4 space-y-2 border-t pt-4">
+          <Textarea
+            value={comment}
+            onChange={(e) => setComment(e.target.value)}
+            placeholder="总体意见（要求修改时必填，或添加字段意见）"
+            rows={2}
+            className="text-sm"
+          />
+          <div className="flex flex-wrap items-center gap-2">
+            <Select value={field} onValueChange={(value) => setField(value as ReviewField)}>
+              <SelectTrigger className="h-8 w-[120px] text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(REVIEW_FIELD_LABELS) as ReviewField[]).map((key) => (
+                  <SelectItem key={key} value={key}>{REVIEW_FIELD_LABELS[key]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input
+              value={fieldMessage}
+              onChange={(e) => setFieldMessage(e.target.value)}
+              placeholder="针对该字段的意见"
+              className="h-8 min-w-[200px] flex-1 text-xs"
+            />
+            <Button type="button" size="sm" variant="outline" className="h-8" disabled={!fieldMessage.trim()} onClick={addFieldComment}>
+              添加字段意见
+            </Button>
+          </div>
+          {fieldComments.length > 0 && (
+            <div className="flex flex-wrap gap-1.5">
+              {fieldComments.map((item, index) => (
+                <Badge key={index} variant="outline" className="gap-1">
+                  {REVIEW_FIELD_LABELS[item.field]}：{item.message}
+                  <button
+                    type="button"
+                    aria-label="移除字段意见"
+                    onClick={() => setFieldComments((prev) => prev.filter((_, i) => i !== index))}
+                  >
+                    <X className="h-3 w-3" />
+                  </button>
+                </Badge>
+              ))}
+            </div>
+          )}
+          <div className="flex gap-2">
+            <Button type="button" size="sm" disabled={busy} onClick={() => void decide('approve')}>
+              通过
+            </Button>
+            <Button
+              type="button"
+              size="sm"
+              variant="destructive"
+              disabled={busy || (!comment.trim() && fieldComments.length === 0)}
+              onClick={() => void decide('request_changes')}
+            >
+              要求修改
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {canSubmitNow && (
+        <div className="mt-4 flex flex-wrap items-center gap-2 border-t pt-4">
+          <Input
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            placeholder="给审核人的说明（可选）"
+            className="h-8 min-w-[200px] flex-1 text-xs"
+          />
+          <Button type="button" size="sm" className="h-8" disabled={busy} onClick={() => void submitReview()}>
+            提交最新版本审核
+          </Button>
+        </div>
+      )}
+    </section>
+  )
+}
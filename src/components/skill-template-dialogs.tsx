@@ -0,0 +1,242 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { useNotify } from '@/components/ui/notify-provider'
+import { toUserFriendlyErrorMessage } from '@/lib/friendly-validation'
+import { guardedFetch } from '@/lib/guarded-fetch'
+import {
+  applyTemplateVariables,
+  type SkillTemplateContent,
+  type SkillTemplateResponse,
+} from '@/lib/skill-templates'
+
+interface TemplatePickerDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  onApply: (content: SkillTemplateContent, template: SkillTemplateResponse) => void
+}
+
+/**
+ * 模板选择：选中模板后如有 {{variable}} 占位符，先填写变量值再应用
+ */
+export function TemplatePickerDialog({ open, onOpenChange, onApply }: TemplatePickerDialogProps) {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <TemplatePickerContent onOpenChange={onOpenChange} onApply={onApply} />
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+// 内容随弹窗打开挂载，每次打开都重新加载模板并清空选择
+function TemplatePickerContent({ onOpenChange, onApply }: Omit<TemplatePickerDialogProps, 'open'>) {
+  const notify = useNotify()
+  const [templates, setTemplates] = useState<SkillTemplateResponse[]>([])
+  const [loading, setLoading] = useState(true)
+  const [selected, setSelected] = useState<SkillTemplateResponse | null>(null)
+  const [values, setValues] = useState<Record<string, string>>({})
+
+  useEffect(() => {
+    let cancelled = false
+    guardedFetch('/api/templates')
+      .then(async (res) => {
+        const data = await res.json().catch(() => ({}))
+        if (cancelled) return
+        if (!res.ok) {
+          notify.error(toUserFriendlyErrorMessage(data.error || `加载模板失败（${res.status}）`))
+          return
+        }
+        setTemplates(Array.isArray(data.items) ? data.items : [])
+      })
+      .catch(() => {
+        if (!cancelled) notify.error('加载模板失败，请稍后重试。')
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [notify])
+
+  const missingVariables = selected
+    ? selected.variables.filter((name) => !String(values[name] || '').trim())
+    : []
+
+  function handleApply() {
+    if (!selected) return
+    const trimmed = Object.fromEntries(
+      Object.entries(values).map(([key, value]) => [key, value.trim()])
+    )
+    onApply(applyTemplateVariables(selected, trimmed), selected)
+    onOpenChange(false)
+  }
+
+  return (
+    <>
+      <DialogHeader>
+        <DialogTitle>从模板创建</DialogTitle>
+        <DialogDescription>
+          选择模板后会覆盖当前表单内容，模板中的默认文件将在保存时一并创建。
+        </DialogDescription>
+      </DialogHeader>
+
+      {!selected ? (
+        <div className="max-h-[50vh] space-y-2 overflow-y-auto">
+          {loading ? (
+            <p className="text-sm" style={{ color: 'var(--muted-foreground)' }}>模板加载中...</p>
+          ) : templates.length === 0 ? (
+            <p className="text-sm" style={{ color: 'var(--muted-foreground)' }}>
+              暂无模板，可在 Skill 详情页「另存为模板」
+            </p>
+          ) : (
+            templates.map((template) => (
+              <button
+                key={template.id}
+                type="button"
+                className="w-full rounded-lg border p-3 text-left transition-colors hover:bg-[var(--muted)]"
+                style={{ borderColor: 'var(--border)' }}
+                onClick={() => setSelected(template)}
+              >
+                <p className="text-sm font-medium">{template.name}</p>
+                {template.description && (
+                  <p className="mt-0.5 line-clamp-2 text-xs" style={{ color: 'var(--muted-foreground)' }}>
+                    {template.description}
+                  </p>
+                )}
+                <p className="mt-1 text-[11px]" style={{ color: 'var(--muted-foreground)' }}>
+                  文件 {template.files.length} · 标签 {template.tags.length}
+                  {template.variables.length > 0 && ` · 变量 ${template.variables.length}`}
+                </p>
+              </button>
+            ))
+          )}
+        </div>
+      ) : (
+        <div className="space-y-3">
+          <p className="text-sm font-medium">{selected.name}</p>
+          {selected.variables.length === 0 ? (
+            <p className="text-xs" style={{ color: 'var(--muted-foreground)' }}>该模板没有需要填写的变量</p>
+          ) : (
+            selected.variables.map((name) => (
+              <div key={name}>
+                <label className="mb-1 block font-mono text-xs" style={{ color: 'var(--muted-foreground)' }}>
+                  {`{{${name}}}`}
+                </label>
+                <Input
+                  density="compact"
+                  value={values[name] || ''}
+                  onChange={(e) => setValues((prev) => ({ ...prev, [name]: e.target.value }))}
+                />
+              </div>
+            ))
+          )}
+        </div>
+      )}
+
+      <DialogFooter className="gap-2 sm:justify-end">
+        {selected ? (
+          <>
+            <Button type="button" variant="outline" onClick={() => setSelected(null)}>
+              返回
+            </Button>
+            <Button type="button" onClick={handleApply} disabled={missingVariables.length > 0}>
+              应用模板
+            </Button>
+          </>
+        ) : (
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+            取消
+          </Button>
+        )}
+      </DialogFooter>
+    </>
+  )
+}
+
+interface SaveAsTemplateDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  skillId: number
+  defaultName: string
+}
+
+export function SaveAsTemplateDialog({ open, onOpenChange, skillId, defaultName }: SaveAsTemplateDialogProps) {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <SaveAsTemplateContent onOpenChange={onOpenChange} skillId={skillId} defaultName={defaultName} />
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+function SaveAsTemplateContent({ onOpenChange, skillId, defaultName }: Omit<SaveAsTemplateDialogProps, 'open'>) {
+  const notify = useNotify()
+  const [name, setName] = useState(defaultName)
+  const [description, setDescription] = useState('')
+  const [saving, setSaving] = useState(false)
+
+  async function handleSave() {
+    setSaving(true)
+    try {
+      const res = await guardedFetch(`/api/skills/${skillId}/template`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name, description }),
+      })
+      const data = await res.json().catch(() => ({}))
+      if (!res.ok) {
+        notify.error(toUserFriendlyErrorMessage(data.error || `保存模板失败（${res.status}）`))
+        return
+      }
+      const skipped = Array.isArray(data.skippedFiles) ? data.skippedFiles.length : 0
+      notify.success(skipped > 0 ? `模板已保存，跳过 ${skipped} 个二进制文件` : '模板已保存')
+      onOpenChange(false)
+    } catch {
+      notify.error('保存模板失败，请稍后重试。')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <>
+      <DialogHeader>
+        <DialogTitle>另存为模板</DialogTitle>
+        <DialogDescription>
+          保存当前内容、文本文件与标签。可在文本中使用 {'{{variable}}'} 作为占位变量。
+        </DialogDescription>
+      </DialogHeader>
+      <div className="space-y-3">
+        <div>
+          <label className="mb-1 block text-xs font-medium" style={{ color: 'var(--muted-foreground)' }}>模板名称</label>
+          <Input density="compact" value={name} onChange={(e) => setName(e.target.value)} />
+        </div>
+        <div>
+          <label className="mb-1 block text-xs font-medium" style={{ color: 'var(--muted-foreground)' }}>说明</label>
+          <Input density="compact" value={description} onChange={(e) => setDescription(e.target.value)} />
+        </div>
+      </div>
+      <DialogFooter className="gap-2 sm:justify-end">
+        <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={saving}>
+          取消
+        </Button>
+        <Button type="button" onClick={() => void handleSave()} disabled={saving || !name.trim()}>
+          {saving ? '保存中...' : '保存'}
+        </Button>
+      </DialogFooter>
+    </>
+  )
+}
@@ -0,0 +1,258 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import { GitMerge } from 'lucide-react'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { ConfirmDialog } from '@/components/ui/confirm-dialog'
+import { useNotify } from '@/components/ui/notify-provider'
+import { toUserFriendlyErrorMessage } from '@/lib/friendly-validation'
+import { guardedFetch } from '@/lib/guarded-fetch'
+import type { FileMergeSnapshot, MergeEntryStatus, MergeSide, SkillUpstreamState } from '@/lib/skill-drift'
+
+interface SkillUpstreamPanelProps {
+  skillId: number
+  state: SkillUpstreamState
+  onChanged: () => Promise<void>
+  /** 无编辑权限时只展示同步状态 */
+  readOnly?: boolean
+}
+
+const FIELD_LABELS: Record<string, string> = {
+  title: '标题',
+  summary: '摘要',
+  inputs: '输入',
+  outputs: '输出',
+  steps: '步骤',
+  risks: '风险',
+  triggers: '触发词',
+  guardrails: '护栏',
+  tests: '测试用例',
+}
+
+const STATUS_LABELS: Record<MergeEntryStatus, string> = {
+  unchanged: '无变化',
+  ours: '仅本地修改',
+  theirs: '仅上游修改',
+  same: '双方相同',
+  conflict: '冲突',
+}
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined) return '（无）'
+  if (typeof value === 'string') return value || '（空）'
+  if (Array.isArray(value) && value.every((item) => typeof item === 'string')) return value.join('\n')
+  return JSON.stringify(value, null, 2)
+}
+
+function formatFile(file: FileMergeSnapshot): string {
+  if (!file) return '（不存在）'
+  return `${file.sha256.slice(0, 8)} · ${file.size} B`
+}
+
+function defaultSide(status: MergeEntryStatus): MergeSide | null {
+  if (status === 'conflict') return null
+  return status === 'theirs' ? 'theirs' : 'ours'
+}
+
+type MergeRow = {
+  key: string
+  label: string
+  status: MergeEntryStatus
+  base: string
+  ours: string
+  theirs: string
+}
+
+/**
+ * 上游同步：来源信息、本地修改状态、待合并上游变更的三方合并（base / 本地 / 上游）与脱离上游
+ */
+export function SkillUpstreamPanel({ skillId, state, onChanged, readOnly = false }: SkillUpstreamPanelProps) {
+  const notify = useNotify()
+  const [choices, setChoices] = useState<Record<string, MergeSide>>({})
+  const [busy, setBusy] = useState(false)
+  const [detachOpen, setDetachOpen] = useState(false)
+
+  const pending = state.pending
+  const rows = useMemo<MergeRow[]>(() => {
+    if (!pending) return []
+    return [
+      ...pending.merge.fields.map((entry) => ({
+        key: `field:${entry.field}`,
+        label: FIELD_LABELS[entry.field] || entry.field,
+        status: entry.status,
+        base: pending.hasBase ? formatValue(entry.base) : '（无同步记录）',
+        ours: formatValue(entry.ours),
+        theirs: formatValue(entry.theirs),
+      })),
+      ...pending.merge.files.map((entry) => ({
+        key: `file:${entry.path}`,
+        label: entry.path,
+        status: entry.status,
+        base: pending.hasBase ? formatFile(entry.base) : '（无同步记录）',
+        ours: formatFile(entry.ours),
+        theirs: formatFile(entry.theirs),
+      })),
+    ].filter((row) => row.status !== 'unchanged')
+  }, [pending])
+
+  const unresolved = rows.filter((row) => row.status === 'conflict' && !choices[row.key]).length
+
+  async function applyMerge() {
+    if (!pending) return
+    setBusy(true)
+    try {
+      const fields: Record<string, MergeSide> = {}
+      const files: Record<string, MergeSide> = {}
+      for (const [key, side] of Object.entries(choices)) {
+        if (key.startsWith('field:')) fields[key.slice('field:'.length)] = side
+        else files[key.slice('file:'.length)] = side
+      }
+      const res = await guardedFetch(`/api/skills/${skillId}/upstream/merge`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ changeId: pending.id, fields, files }),
+      })
+      const data = await res.json().catch(() => ({}))
+      if (!res.ok) {
+        notify.error(toUserFriendlyErrorMessage(data.error || `合并失败（${res.status}）`))
+        return
+      }
+      notify.success(data.createdVersion ? `已合并上游变更，生成版本 v${data.createdVersion}` : '已合并上游变更')
+      setChoices({})
+      await onChanged()
+    } catch {
+      notify.error('合并上游变更时网络异常，请重试。')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  async function detach() {
+    setBusy(true)
+    try {
+      const res = await guardedFetch(`/api/skills/${skillId}/upstream/detach`, { method: 'POST' })
+      const data = await res.json().catch(() => ({}))
+      if (!res.ok) {
+        notify.error(toUserFriendlyErrorMessage(data.error || `脱离上游失败（${res.status}）`))
+        return
+      }
+      notify.success('已脱离上游，之后的同步不会再更新此 Skill')
+      setDetachOpen(false)
+      await onChanged()
+    } catch {
+      notify.error('脱离上游时网络异常，请重试。')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  return (
+    <section className="card p-5" data-testid="skill-upstream-panel">
+      <ConfirmDialog
+        open={detachOpen}
+        onOpenChange={setDetachOpen}
+        title="脱离上游"
+        description="脱离后此 Skill 成为本地 Skill，同步脚本不再更新它，待合并的上游变更会被丢弃。"
+        confirmText="脱离上游"
+        confirmVariant="destructive"
+        loading={busy}
+        onConfirm={() => void detach()}
+      />
+      <div className="mb-3 flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <GitMerge className="h-3.5 w-3.5" style={{ color: 'var(--accent)' }} />
+          <h2 className="text-xs font-semibold uppercase tracking-wider" style={{ color: 'var(--muted-foreground)' }}>
+            上游同步
+          </h2>
+          {state.drift === 'modified' && <Badge variant="destructive">本地已修改</Badge>}
+          {state.drift === 'clean' && <Badge variant="outline">与上游一致</Badge>}
+        </div>
+        {!readOnly && (
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            className="h-7 rounded-md px-2 text-xs"
+            disabled={busy}
+            onClick={() => setDetachOpen(true)}
+          >
+            脱离上游
+          </Button>
+        )}
+      </div>
+      <p className="text-xs font-mono" style={{ color: 'var(--muted-foreground)' }}>
+        {state.sourceRepo}/{state.sourcePath}
+        {state.sourceRef ? `@${state.sourceRef}` : ''}
+        {state.lastSyncedAt ? ` · 同步于 ${new Date(state.lastSyncedAt).toLocaleString()}` : ''}
+      </p>
+      {state.drift === 'untracked' && (
+        <p className="mt-2 text-xs" style={{ color: 'var(--muted-foreground)' }}>
+          该 Skill 同步时未记录内容 hash，下次同步后才能检测本地修改。
+        </p>
+      )}
+
+      {pending && readOnly && (
+        <p className="mt-2 text-xs" style={{ color: 'var(--muted-foreground)' }}>
+          上游有新变更（{pending.sourceSha.slice(0, 8)}）待负责人合并。
+        </p>
+      )}
+
+      {pending && !readOnly && (
+        <div className="mt-4 space-y-3" data-testid="upstream-merge-view">
+          <p className="text-sm">
+            上游有新变更（{pending.sourceSha.slice(0, 8)}），因本地已修改未自动覆盖。逐项选择保留本地或采用上游：
+          </p>
+          {rows.length === 0 && (
+            <p className="text-xs" style={{ color: 'var(--muted-foreground)' }}>本地与上游内容一致，直接应用即可。</p>
+          )}
+          {rows.map((row) => {
+            const side = choices[row.key] || defaultSide(row.status)
+            return (
+              <div key={row.key} className="rounded-lg p-2.5" style={{ background: 'var(--muted)' }}>
+                <div className="mb-2 flex items-center justify-between gap-2">
+                  <div className="flex items-center gap-2">
+                    <span className="text-sm font-medium">{row.label}</span>
+                    <Badge variant={row.status === 'conflict' ? 'destructive' : 'outline'}>{STATUS_LABELS[row.status]}</Badge>
+                  </div>
+                  <div className="flex items-center gap-1">
+                    {(['ours', 'theirs'] as const).map((option) => (
+                      <Button
+                        key={option}
+                        type="button"
+                        size="sm"
+                        variant={side === option ? 'default' : 'outline'}
+                        className="h-7 rounded-md px-2 text-xs"
+                        onClick={() => setChoices((prev) => ({ ...prev, [row.key]: option }))}
+                      >
+                        {option === 'ours' ? '保留本地' : '采用上游'}
+                      </Button>
+                    ))}
+                  </div>
+                </div>
+                <div className="grid grid-cols-3 gap-2 text-xs">
+                  {([['上次同步', row.base], ['本地', row.ours], ['上游', row.theirs]] as const).map(([title, value]) => (
+                    <div key={title} className="min-w-0">
+                      <p className="mb-1 font-semibold" style={{ color: 'var(--muted-foreground)' }}>{title}</p>
+                      <pre className="max-h-40 overflow-auto whitespace-pre-wrap break-words rounded-md p-2 font-mono" style={{ background: 'var(--card)' }}>
+                        {value}
+                      </pre>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )
+          })}
+          <div className="flex items-center gap-2">
+            <Button type="button" size="sm" disabled={busy || unresolved > 0} onClick={() => void applyMerge()}>
+              应用合并
+            </Button>
+            {unresolved > 0 && (
+              <span className="text-xs" style={{ color: 'var(--muted-foreground)' }}>还有 {unresolved} 项冲突未选择</span>
+            )}
+          </div>
+        </div>
+      )}
+    </section>
+  )
+}
@@ -0,0 +1,108 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { Activity } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { useNotify } from '@/components/ui/notify-provider'
+import { UsageOutcomeBar, UsageTrendChart, formatLatency, formatPercent } from '@/components/usage-charts'
+import { toUserFriendlyErrorMessage } from '@/lib/friendly-validation'
+import { guardedFetch } from '@/lib/guarded-fetch'
+import type { SkillUsageDetail } from '@/lib/usage-analytics'
+
+/**
+ * 详情页使用统计：近 30 天趋势、按版本与触发词的结果分布
+ */
+export function SkillUsagePanel({ skillId }: { skillId: number }) {
+  const notify = useNotify()
+  const [usage, setUsage] = useState<SkillUsageDetail | null>(null)
+  const [loading, setLoading] = useState(false)
+
+  const fetchUsage = useCallback(async () => {
+    setLoading(true)
+    try {
+      const res = await guardedFetch(`/api/skills/${skillId}/usage?days=30`)
+      const data = await res.json().catch(() => ({}))
+      if (!res.ok) {
+        // 统计表未初始化时静默
+        if (res.status !== 503) notify.error(toUserFriendlyErrorMessage(data.error || `加载使用统计失败（${res.status}）`))
+        setUsage(null)
+        return
+      }
+      setUsage(data)
+    } catch {
+      notify.error('加载使用统计失败，请稍后重试。')
+      setUsage(null)
+    } finally {
+      setLoading(false)
+    }
+  }, [skillId, notify])
+
+  useEffect(() => {
+    void fetchUsage()
+  }, [fetchUsage])
+
+  return (
+    <section className="card p-5">
+      <div className="mb-3 flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <Activity className="h-3.5 w-3.5" style={{ color: 'var(--accent)' }} />
+          <h2 className="text-xs font-semibold uppercase tracking-wider" style={{ color: 'var(--muted-foreground)' }}>
+            使用统计（近 30 天）
+          </h2>
+        </div>
+        <Button onClick={() => void fetchUsage()} variant="ghost" size="sm" className="h-7 rounded-md px-2 text-xs">
+          刷新
+        </Button>
+      </div>
+      {loading ? (
+        <p className="text-sm" style={{ color: 'var(--muted-foreground)' }}>统计加载中...</p>
+      ) : !usage || usage.totals.total === 0 ? (
+        <p className="text-sm" style={{ color: 'var(--muted-foreground)' }}>暂无调用记录</p>
+      ) : (
+        <div className="space-y-4">
+          <p className="text-sm">
+            共 {usage.totals.total} 次 · 成功 {usage.totals.success} · 失败 {usage.totals.failure} · 升级 {usage.totals.escalated}
+            <span style={{ color: 'var(--muted-foreground)' }}>
+              {' '}· 失败率 {formatPercent(usage.totals.failureRate)} · 平均 {formatLatency(usage.totals.avgLatencyMs)}
+            </span>
+          </p>
+          <UsageTrendChart points={usage.trend} />
+          <div className="grid gap-4 md:grid-cols-2">
+            <div>
+              <h3 className="mb-2 text-xs font-medium" style={{ color: 'var(--muted-foreground)' }}>按版本</h3>
+              <ul className="space-y-2">
+                {usage.versions.map((item) => (
+                  <li key={item.version ?? 'unknown'} className="space-y-1">
+                    <div className="flex justify-between text-xs">
+                      <span>{item.version !== null ? `v${item.version}` : '未标注版本'}</span>
+                      <span style={{ color: 'var(--muted-foreground)' }}>{item.total} 次 · 失败率 {formatPercent(item.failureRate)}</span>
+                    </div>
+                    <UsageOutcomeBar counts={item} />
+                  </li>
+                ))}
+              </ul>
+            </div>
+            <div>
+              <h3 className="mb-2 text-xs font-medium" style={{ color: 'var(--muted-foreground)' }}>按触发词</h3>
+              {usage.triggers.length === 0 ? (
+                <p className="text-xs" style={{ color: 'var(--muted-foreground)' }}>未上报触发词</p>
+              ) : (
+                <ul className="space-y-2">
+                  {usage.triggers.map((item) => (
+                    <li key={item.trigger} className="space-y-1">
+                      <div className="flex justify-between gap-2 text-xs">
+                        <span className="truncate">“{item.trigger}”</span>
+                        <span className="shrink-0" style={{ color: 'var(--muted-foreground)' }}>{item.total} 次 · 失败率 {formatPercent(item.failureRate)}</span>
+                      </div>
+                      <UsageOutcomeBar counts={item} />
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+    </section>
+  )
+}
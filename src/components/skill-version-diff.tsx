@@ -0,0 +1,202 @@
+'use client'
+
+import { Badge } from '@/components/ui/badge'
+import type { FileSetDiff, LineDiffOp, ListFieldDiff, SkillSnapshotDiff, TextFieldDiff } from '@/lib/skill-diff'
+
+export interface SkillVersionDiffSide {
+  kind: 'version' | 'current' | 'draft'
+  id: number | null
+  version: number | null
+  label: string
+}
+
+export type SkillVersionDiffResult = SkillSnapshotDiff & {
+  from: SkillVersionDiffSide
+  to: SkillVersionDiffSide
+}
+
+const FIELD_LABELS: Record<keyof SkillSnapshotDiff['fields'], string> = {
+  title: '标题',
+  slug: 'Slug',
+  status: '状态',
+  summary: '摘要',
+  inputs: '输入',
+  outputs: '输出',
+  risks: '风险',
+  steps: '步骤',
+  triggers: '触发词',
+  tags: '标签',
+  tests: '测试用例',
+  'guardrails.escalation': '升级策略',
+  'guardrails.allowed_tools': '允许工具',
+  'guardrails.stop_conditions': '停止条件',
+  'guardrails.user_invocable': '用户可调用',
+  'guardrails.disable_model_invocation': '禁止模型调用',
+}
+
+const ADDED_STYLE = { background: 'rgba(34, 197, 94, 0.15)' }
+const REMOVED_STYLE = { background: 'rgba(239, 68, 68, 0.15)' }
+
+type TestItem = SkillSnapshotDiff['fields']['tests']['from'][number]
+
+/**
+ * 单列行内 diff：删除行以 "-" 标记，新增行以 "+" 标记
+ */
+export function InlineLineDiff({ lines }: { lines: LineDiffOp[] }) {
+  return (
+    <div className="max-h-64 overflow-auto rounded-md p-2 font-mono text-xs" style={{ background: 'var(--muted)' }}>
+      {lines.length === 0 ? (
+        <span style={{ color: 'var(--muted-foreground)' }}>（空）</span>
+      ) : (
+        lines.map((op, i) => (
+          <div
+            key={i}
+            className="whitespace-pre-wrap break-words"
+            style={op.type === 'added' ? ADDED_STYLE : op.type === 'removed' ? REMOVED_STYLE : undefined}
+          >
+            {op.type === 'added' ? '+ ' : op.type === 'removed' ? '- ' : '  '}
+            {op.text}
+          </div>
+        ))
+      )}
+    </div>
+  )
+}
+
+function TextDiffColumns({ diff }: { diff: TextFieldDiff }) {
+  const left = diff.lines.filter((op) => op.type !== 'added')
+  const right = diff.lines.filter((op) => op.type !== 'removed')
+  return (
+    <div className="grid grid-cols-2 gap-2 font-mono text-xs">
+      {[left, right].map((ops, col) => (
+        <div key={col} className="min-w-0 rounded-md p-2" style={{ background: 'var(--muted)' }}>
+          {ops.length === 0 ? (
+            <span style={{ color: 'var(--muted-foreground)' }}>（空）</span>
+          ) : (
+            ops.map((op, i) => (
+              <div
+                key={i}
+                className="whitespace-pre-wrap break-words"
+                style={op.type === 'added' ? ADDED_STYLE : op.type === 'removed' ? REMOVED_STYLE : undefined}
+              >
+                {op.text || ' '}
+              </div>
+            ))
+          )}
+        </div>
+      ))}
+    </div>
+  )
+}
+
+function ListDiffColumns<T>({ diff, format }: { diff: ListFieldDiff<T>; format: (item: T) => string }) {
+  const added = new Set(diff.added)
+  const removed = new Set(diff.removed)
+  const reordered = new Set(diff.reordered)
+  const modifiedTo = new Set(diff.modified.map((item) => item.to))
+  const modifiedFrom = new Set(diff.modified.map((item) => item.from))
+
+  function renderItem(item: T, side: 'from' | 'to', i: number) {
+    const isRemoved = side === 'from' && removed.has(item)
+    const isAdded = side === 'to' && added.has(item)
+    const isModified = side === 'to' ? modifiedTo.has(item) : modifiedFrom.has(item)
+    const isReordered = side === 'to' && reordered.has(item)
+    return (
+      <li
+        key={i}
+        className="flex items-start gap-1.5 whitespace-pre-wrap break-words"
+        style={isAdded ? ADDED_STYLE : isRemoved ? REMOVED_STYLE : undefined}
+      >
+        <span className="flex-1">{format(item)}</span>
+        {isModified && <Badge variant="outline" className="rounded px-1 py-0 text-[10px]">修改</Badge>}
+        {isReordered && <Badge variant="outline" className="rounded px-1 py-0 text-[10px]">顺序变化</Badge>}
+      </li>
+    )
+  }
+
+  return (
+    <div className="grid grid-cols-2 gap-2 text-xs">
+      {(['from', 'to'] as const).map((side) => (
+        <ol key={side} className="min-w-0 space-y-0.5 rounded-md p-2" style={{ background: 'var(--muted)' }}>
+          {diff[side].length === 0 ? (
+            <li style={{ color: 'var(--muted-foreground)' }}>（空）</li>
+          ) : (
+            diff[side].map((item, i) => renderItem(item, side, i))
+          )}
+        </ol>
+      ))}
+    </div>
+  )
+}
+
+function FileDiffList({ diff }: { diff: FileSetDiff }) {
+  const rows = [
+    ...diff.added.map((file) => ({ path: file.path, label: '新增', style: ADDED_STYLE })),
+    ...diff.removed.map((file) => ({ path: file.path, label: '删除', style: REMOVED_STYLE })),
+    ...diff.modified.map((item) => ({ path: item.to.path, label: '修改', style: undefined })),
+  ].sort((a, b) => a.path.localeCompare(b.path))
+
+  return (
+    <ul className="space-y-0.5 font-mono text-xs">
+      {rows.map((row) => (
+        <li key={row.path} className="flex items-center gap-2 rounded px-1" style={row.style}>
+          <Badge variant="outline" className="rounded px-1 py-0 text-[10px]">{row.label}</Badge>
+          {row.path}
+        </li>
+      ))}
+    </ul>
+  )
+}
+
+function formatTest(item: TestItem): string {
+  return `${item.name}：${item.input} → ${item.expected_output}`
+}
+
+/**
+ * 两个快照的左右对照视图，只展示有变化的字段
+ */
+export function SkillVersionDiffView({ diff }: { diff: SkillVersionDiffResult }) {
+  const changedFields = (Object.keys(FIELD_LABELS) as Array<keyof SkillSnapshotDiff['fields']>)
+    .filter((key) => diff.fields[key].changed)
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-2 gap-2 text-xs font-medium" style={{ color: 'var(--muted-foreground)' }}>
+        <span>{diff.from.label}</span>
+        <span>{diff.to.label}</span>
+      </div>
+
+      {!diff.changed && (
+        <p className="text-sm" style={{ color: 'var(--muted-foreground)' }}>两侧内容一致</p>
+      )}
+
+      {changedFields.map((key) => {
+        const field = diff.fields[key]
+        return (
+          <div key={key} className="space-y-1">
+            <p className="text-xs font-semibold">{FIELD_LABELS[key]}</p>
+            {field.kind === 'text' ? (
+              <TextDiffColumns diff={field} />
+            ) : key === 'tests' ? (
+              <ListDiffColumns diff={field as ListFieldDiff<TestItem>} format={formatTest} />
+            ) : (
+              <ListDiffColumns diff={field as ListFieldDiff<string>} format={(item) => item} />
+            )}
+          </div>
+        )
+      })}
+
+      {diff.files?.changed && (
+        <div className="space-y-1">
+          <p className="text-xs font-semibold">文件</p>
+          <FileDiffList diff={diff.files} />
+        </div>
+      )}
+      {diff.files === null && (
+        <p className="text-xs" style={{ color: 'var(--muted-foreground)' }}>
+          其中一侧没有文件快照，未对比文件
+        </p>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,108 @@
+'use client'
+
+import type { UsageCounts, UsageTrendPoint } from '@/lib/usage-analytics'
+
+export function formatPercent(rate: number): string {
+  return `${(rate * 100).toFixed(rate > 0 && rate < 0.1 ? 1 : 0)}%`
+}
+
+export function formatLatency(ms: number | null): string {
+  if (ms === null) return '—'
+  return ms >= 1000 ? `${(ms / 1000).toFixed(1)}s` : `${ms}ms`
+}
+
+const OUTCOME_COLORS = {
+  success: 'var(--success)',
+  failure: 'var(--danger)',
+  escalated: 'var(--warning)',
+} as const
+
+/**
+ * 每日调用趋势：按结果堆叠的柱状图 + 失败率折线（SVG，无外部图表依赖）
+ */
+export function UsageTrendChart({ points, height = 140 }: { points: UsageTrendPoint[]; height?: number }) {
+  const width = 600
+  const padding = 4
+  const max = Math.max(1, ...points.map((p) => p.total))
+  const slot = points.length > 0 ? (width - padding * 2) / points.length : 0
+  const barWidth = Math.max(1, slot * 0.7)
+  const scale = (value: number) => (value / max) * (height - padding * 2)
+
+  const ratePath = points
+    .map((p, i) => {
+      const x = padding + slot * i + slot / 2
+      const y = height - padding - p.failureRate * (height - padding * 2)
+      return `${i === 0 ? 'M' : 'L'}${x.toFixed(1)},${y.toFixed(1)}`
+    })
+    .join(' ')
+
+  return (
+    <div>
+      <svg
+        viewBox={`0 0 ${width} ${height}`}
+        preserveAspectRatio="none"
+        className="h-36 w-full"
+        role="img"
+        aria-label="每日调用趋势"
+      >
+        {points.map((p, i) => {
+          const x = padding + slot * i + (slot - barWidth) / 2
+          let y = height - padding
+          return (
+            <g key={p.day}>
+              <title>{`${p.day}：${p.total} 次，成功 ${p.success}，失败 ${p.failure}，升级 ${p.escalated}`}</title>
+              {(['success', 'escalated', 'failure'] as const).map((outcome) => {
+                const h = scale(p[outcome])
+                y -= h
+                return h > 0 ? (
+                  <rect key={outcome} x={x} y={y} width={barWidth} height={h} fill={OUTCOME_COLORS[outcome]} opacity={0.8} />
+                ) : null
+              })}
+            </g>
+          )
+        })}
+        {points.some((p) => p.total > 0) && (
+          <path d={ratePath} fill="none" stroke="var(--foreground)" strokeWidth={1.5} strokeDasharray="4 3" opacity={0.6} />
+        )}
+      </svg>
+      <div className="mt-1 flex justify-between text-[11px]" style={{ color: 'var(--muted-foreground)' }}>
+        <span>{points[0]?.day}</span>
+        <span className="flex items-center gap-3">
+          <LegendDot color={OUTCOME_COLORS.success} label="成功" />
+          <LegendDot color={OUTCOME_COLORS.failure} label="失败" />
+          <LegendDot color={OUTCOME_COLORS.escalated} label="升级" />
+          <span>虚线：失败率</span>
+        </span>
+        <span>{points[points.length - 1]?.day}</span>
+      </div>
+    </div>
+  )
+}
+
+function LegendDot({ color, label }: { color: string; label: string }) {
+  return (
+    <span className="flex items-center gap-1">
+      <span className="inline-block h-2 w-2 rounded-sm" style={{ background: color }} />
+      {label}
+    </span>
+  )
+}
+
+/**
+ * 单行结果分布条
+ */
+export function UsageOutcomeBar({ counts }: { counts: UsageCounts }) {
+  if (counts.total === 0) {
+    return <div className="h-2 w-full rounded-full" style={{ background: 'var(--muted)' }} />
+  }
+  return (
+    <div className="flex h-2 w-full overflow-hidden rounded-full" style={{ background: 'var(--muted)' }}>
+      {(['success', 'escalated', 'failure'] as const).map((outcome) => (
+        <div
+          key={outcome}
+          style={{ width: `${(counts[outcome] / counts.total) * 100}%`, background: OUTCOME_COLORS[outcome] }}
+        />
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,145 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+
+const createMessage = vi.fn()
+vi.mock('@anthropic-ai/sdk', () => ({
+  default: class {
+    messages = { create: createMessage }
+  },
+}))
+
+import { canOverrideProposalProvider, proposeChangeSet, resolveProposalProvider } from '../ai/providers'
+import { AnthropicProposalProvider, estimateAnthropicCostUsd } from '../ai/providers/anthropic'
+import { MockProposalProvider } from '../ai/providers/mock'
+import { changeSetJsonSchema } from '../ai/schema'
+import type { ProposalProviderRequest } from '../ai/providers/types'
+
+const request: ProposalProviderRequest = {
+  action: 'update-skill',
+  prompt: 'Action: update-skill',
+  jsonSchema: changeSetJsonSchema,
+}
+
+const ENV_KEYS = ['AI_PROPOSAL_PROVIDER', 'AI_MOCK_SCENARIO', 'ANTHROPIC_API_KEY'] as const
+const savedEnv: Record<string, string | undefined> = {}
+
+describe('resolveProposalProvider', () => {
+  beforeEach(() => {
+    for (const key of ENV_KEYS) {
+      savedEnv[key] = process.env[key]
+      delete process.env[key]
+    }
+  })
+
+  afterEach(() => {
+    for (const key of ENV_KEYS) {
+      if (savedEnv[key] === undefined) delete process.env[key]
+      else process.env[key] = savedEnv[key]
+    }
+  })
+
+  it('defaults to the CLI runner', () => {
+    expect(resolveProposalProvider().name).toBe('cli')
+  })
+
+  it('reads AI_PROPOSAL_PROVIDER and lets the request override it', () => {
+    process.env.AI_PROPOSAL_PROVIDER = 'mock'
+    expect(resolveProposalProvider().name).toBe('mock')
+    expect(resolveProposalProvider('cli').name).toBe('cli')
+  })
+
+  it('requires an API key for the anthropic provider', () => {
+    expect(() => resolveProposalProvider('anthropic')).toThrow('ANTHROPIC_API_KEY')
+    process.env.ANTHROPIC_API_KEY = 'test-key'
+    expect(resolveProposalProvider('anthropic').name).toBe('anthropic')
+  })
+
+  it('limits request overrides to admins in production', () => {
+    vi.stubEnv('NODE_ENV', 'production')
+    try {
+      expect(canOverrideProposalProvider('author')).toBe(false)
+      expect(canOverrideProposalProvider('admin')).toBe(true)
+    } finally {
+      vi.unstubAllEnvs()
+    }
+    expect(canOverrideProposalProvider('author')).toBe(true)
+  })
+})
+
+describe('proposeChangeSet', () => {
+  afterEach(() => {
+    delete process.env.AI_MOCK_SCENARIO
+  })
+
+  it('returns the deterministic mock ChangeSet', async () => {
+    const first = await proposeChangeSet(new MockProposalProvider(), request)
+    const second = await proposeChangeSet(new MockProposalProvider(), request)
+    expect(first.ok).toBe(true)
+    expect(first.structuredOutput).toEqual(second.structuredOutput)
+    expect(first.structuredOutput?.skillPatch.summary).toBeDefined()
+
+    const files = await proposeChangeSet(new MockProposalProvider(), { ...request, action: 'create-supporting-files' })
+    expect(files.structuredOutput?.fileOps[0].path).toBe('references/checklist.md')
+  })
+
+  it('applies validateChangeSet to provider output', async () => {
+    process.env.AI_MOCK_SCENARIO = 'invalid'
+    const result = await proposeChangeSet(new MockProposalProvider(), request)
+    expect(result.ok).toBe(false)
+    expect(result.structuredOutput).toBeUndefined()
+    expect(result.errors?.[0]).toBe('Invalid changeSet')
+    expect(result.errors?.some((e) => e.includes('SKILL.md'))).toBe(true)
+  })
+
+  it('rejects prompts over the length limit before calling the provider', async () => {
+    const provider = new MockProposalProvider()
+    const spy = vi.spyOn(provider, 'propose')
+    const result = await proposeChangeSet(provider, { ...request, prompt: 'x'.repeat(9000) })
+    expect(result.ok).toBe(false)
+    expect(result.errors?.[0]).toContain('Prompt exceeds')
+    expect(spy).not.toHaveBeenCalled()
+  })
+})
+
+describe('AnthropicProposalProvider', () => {
+  beforeEach(() => {
+    createMessage.mockReset()
+  })
+
+  it('forces the ChangeSet tool and extracts its input', async () => {
+    const changeSet = { skillPatch: { summary: 'From tool use' }, fileOps: [] }
+    createMessage.mockResolvedValue({
+      content: [{ type: 'tool_use', id: 'tu_1', name: 'submit_change_set', input: changeSet }],
+      usage: { input_tokens: 200, output_tokens: 40 },
+    })
+
+    const result = await new AnthropicProposalProvider('test-key').propose(request)
+    expect(result).toMatchObject({ ok: true, structuredOutput: changeSet, usage: { input_tokens: 200, output_tokens: 40 } })
+    expect(result.costUsd).toBeCloseTo((200 * 3 + 40 * 15) / 1_000_000)
+
+    const params = createMessage.mock.calls[0][0]
+    expect(params.tool_choice).toEqual({ type: 'tool', name: 'submit_change_set' })
+    expect(params.tools[0].input_schema).toEqual(JSON.parse(changeSetJsonSchema))
+    expect(params.messages).toEqual([{ role: 'user', content: request.prompt }])
+  })
+
+  it('fails when the response has no tool_use block or the request errors', async () => {
+    createMessage.mockResolvedValueOnce({
+      content: [{ type: 'text', text: 'no tool' }],
+      usage: { input_tokens: 10, output_tokens: 2 },
+    })
+    const missing = await new AnthropicProposalProvider('test-key').propose(request)
+    expect(missing.ok).toBe(false)
+    expect(missing.usage).toEqual({ input_tokens: 10, output_tokens: 2 })
+
+    createMessage.mockRejectedValueOnce(new Error('overloaded'))
+    const failed = await new AnthropicProposalProvider('test-key').propose(request)
+    expect(failed).toMatchObject({ ok: false, errors: ['Anthropic request failed: overloaded'] })
+  })
+
+  it('prices usage by model family', () => {
+    const usage = { input_tokens: 1_000_000, output_tokens: 100_000 }
+    expect(estimateAnthropicCostUsd('claude-opus-4-1', usage)).toBeCloseTo(22.5)
+    expect(estimateAnthropicCostUsd('claude-3-5-haiku-latest', usage)).toBeCloseTo(1.2)
+    expect(estimateAnthropicCostUsd('custom-model', usage)).toBeCloseTo(4.5)
+  })
+})
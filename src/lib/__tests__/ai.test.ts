@@ -28,6 +28,17 @@ describe('parseClaudeHeadlessJson', () => {
     })
   })
 
+  it('should extract total_cost_usd when present', () => {
+    const raw = JSON.stringify({
+      structured_output: { skillPatch: {}, fileOps: [] },
+      usage: { input_tokens: 10, output_tokens: 5 },
+      total_cost_usd: 0.03,
+    })
+    const result = parseClaudeHeadlessJson(raw)
+    expect(result.costUsd).toBe(0.03)
+    expect(result.usage).toEqual({ input_tokens: 10, output_tokens: 5 })
+  })
+
   it('should return error when structured_output is missing', () => {
     const raw = JSON.stringify({
       type: 'result',
@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest'
+import { buildAuditWhere, parseAuditQuery, resolveRequestId, toAuditCsv, type AuditEventItem } from '../audit'
+
+const item: AuditEventItem = {
+  id: 1,
+  actor: 'alice',
+  action: 'tag.rename',
+  entityType: 'tag',
+  entityId: '3',
+  entityLabel: 'ops, "core"',
+  skillId: null,
+  before: { name: 'ops' },
+  after: { name: '@ops' },
+  requestId: 'req-1',
+  createdAt: '2026-10-19T08:00:00.000Z',
+}
+
+describe('parseAuditQuery', () => {
+  it('ignores blank params and extends date-only upper bounds to the whole day', () => {
+    const parsed = parseAuditQuery(new URLSearchParams('actor=&action=skill.delete&from=2026-10-01&to=2026-10-19&page=2'))
+    expect(parsed.success).toBe(true)
+    if (!parsed.success) return
+    expect(parsed.data).toMatchObject({ action: 'skill.delete', page: 2 })
+    expect(parsed.data.actor).toBeUndefined()
+    expect(buildAuditWhere(parsed.data)).toEqual({
+      action: 'skill.delete',
+      createdAt: { gte: new Date('2026-10-01'), lt: new Date('2026-10-20') },
+    })
+  })
+
+  it('rejects unknown actions, entity types and dates', () => {
+    expect(parseAuditQuery(new URLSearchParams('action=skill.explode')).success).toBe(false)
+    expect(parseAuditQuery(new URLSearchParams('entityType=user')).success).toBe(false)
+    expect(parseAuditQuery(new URLSearchParams('from=yesterday')).success).toBe(false)
+  })
+})
+
+describe('resolveRequestId', () => {
+  it('reuses a well-formed incoming header and one id per request', () => {
+    expect(resolveRequestId(new Request('http://localhost', { headers: { 'x-request-id': 'gw-42' } }))).toBe('gw-42')
+    const request = new Request('http://localhost', { headers: { 'x-request-id': 'bad id <script>' } })
+    const generated = resolveRequestId(request)
+    expect(generated).not.toBe('bad id <script>')
+    expect(resolveRequestId(request)).toBe(generated)
+  })
+})
+
+describe('toAuditCsv', () => {
+  it('quotes cells and neutralizes spreadsheet formulas', () => {
+    const lines = toAuditCsv([item]).split('\r\n')
+    expect(lines[0]).toBe('createdAt,actor,action,entityType,entityId,entityLabel,skillId,before,after,requestId')
+    expect(lines[1]).toBe(
+      '2026-10-19T08:00:00.000Z,alice,tag.rename,tag,3,"ops, ""core""",,"{""name"":""ops""}","{""name"":""@ops""}",req-1'
+    )
+    expect(toAuditCsv([{ ...item, entityLabel: '=HYPERLINK("x")' }])).toContain(`"'=HYPERLINK(""x"")"`)
+  })
+})
@@ -0,0 +1,64 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { scrypt } from 'crypto'
+import { hashPassword, hashSessionToken, isLoginRequired, readSessionToken, verifyPassword } from '../auth'
+
+vi.mock('crypto', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('crypto')>()
+  return { ...actual, scrypt: vi.fn(actual.scrypt) }
+})
+
+describe('password hashing', () => {
+  it('verifies the original password only', async () => {
+    const stored = await hashPassword('correct horse')
+    expect(stored).toMatch(/^scrypt\$[^$]+\$[^$]+$/)
+    expect(await verifyPassword('correct horse', stored)).toBe(true)
+    expect(await verifyPassword('wrong horse', stored)).toBe(false)
+    expect(await hashPassword('correct horse')).not.toBe(stored)
+  })
+
+  it('derives a key even when there is no stored hash', async () => {
+    vi.mocked(scrypt).mockClear()
+    expect(await verifyPassword('x', null)).toBe(false)
+    expect(await verifyPassword('x', 'plain-text')).toBe(false)
+    expect(scrypt).toHaveBeenCalledTimes(2)
+  })
+
+  it('rejects missing or malformed hashes', async () => {
+    expect(await verifyPassword('x', null)).toBe(false)
+    expect(await verifyPassword('x', 'plain-text')).toBe(false)
+    expect(await verifyPassword('x', 'bcrypt$a$b')).toBe(false)
+  })
+})
+
+describe('session helpers', () => {
+  const originalMode = process.env.AUTH_MODE
+
+  afterEach(() => {
+    if (originalMode === undefined) delete process.env.AUTH_MODE
+    else process.env.AUTH_MODE = originalMode
+  })
+
+  it('reads the session token from the cookie header', () => {
+    const request = new Request('http://localhost/', { headers: { cookie: 'theme=dark; qsv_session=abc%2Bdef; other=1' } })
+    expect(readSessionToken(request)).toBe('abc+def')
+    expect(readSessionToken(new Request('http://localhost/', { headers: { cookie: 'qsv_session=' } }))).toBeNull()
+    expect(readSessionToken(new Request('http://localhost/'))).toBeNull()
+    expect(readSessionToken(new Request('http://localhost/', { headers: { cookie: 'qsv_session=%E0%A4%A' } }))).toBeNull()
+  })
+
+  it('hashes tokens deterministically', () => {
+    expect(hashSessionToken('token')).toBe(hashSessionToken('token'))
+    expect(hashSessionToken('token')).toHaveLength(64)
+  })
+
+  it('requires login only in local_only and mixed modes', () => {
+    delete process.env.AUTH_MODE
+    expect(isLoginRequired()).toBe(false)
+    process.env.AUTH_MODE = 'local_only'
+    expect(isLoginRequired()).toBe(true)
+    process.env.AUTH_MODE = 'mixed'
+    expect(isLoginRequired()).toBe(true)
+    process.env.AUTH_MODE = 'anonymous'
+    expect(isLoginRequired()).toBe(false)
+  })
+})
@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest'
+import { isEmptyChangeSet, selectChangeSet } from '@/lib/ai/change-set-selection'
+import type { ChangeSet } from '@/lib/ai/types'
+
+const changeSet: ChangeSet = {
+  skillPatch: {
+    summary: 'New summary',
+    steps: ['Rewrite everything'],
+    tests: [{ name: 'edge', input: 'empty', expected_output: 'stop' }],
+  },
+  fileOps: [
+    { op: 'upsert', path: 'references/a.md', content_text: '# A' },
+    { op: 'delete', path: 'references/old.md' },
+  ],
+  notes: 'mixed proposal',
+}
+
+describe('selectChangeSet', () => {
+  it('accepts everything when no selection is given', () => {
+    const result = selectChangeSet(changeSet)
+    expect(result.errors).toEqual([])
+    expect(result.accepted).toEqual(changeSet)
+    expect(result.rejected).toEqual({ fields: [], fileOps: [] })
+  })
+
+  it('keeps only selected fields and file paths and reports the rest as rejected', () => {
+    const result = selectChangeSet(changeSet, { fields: ['tests'], fileOps: ['references/a.md'] })
+    expect(result.accepted.skillPatch).toEqual({ tests: changeSet.skillPatch.tests })
+    expect(result.accepted.fileOps.map((fop) => fop.path)).toEqual(['references/a.md'])
+    expect(result.accepted.notes).toBe('mixed proposal')
+    expect(result.rejected).toEqual({
+      fields: ['summary', 'steps'],
+      fileOps: [{ op: 'delete', path: 'references/old.md' }],
+    })
+  })
+
+  it('treats an omitted dimension as fully accepted', () => {
+    const result = selectChangeSet(changeSet, { fileOps: [] })
+    expect(Object.keys(result.accepted.skillPatch)).toEqual(['summary', 'steps', 'tests'])
+    expect(result.accepted.fileOps).toEqual([])
+    expect(result.rejected.fileOps).toHaveLength(2)
+  })
+
+  it('reports selections that are not part of the changeSet', () => {
+    const result = selectChangeSet(changeSet, { fields: ['risks'], fileOps: ['references/missing.md'] })
+    expect(result.errors).toHaveLength(2)
+  })
+
+  it('detects empty change sets', () => {
+    expect(isEmptyChangeSet(selectChangeSet(changeSet, { fields: [], fileOps: [] }).accepted)).toBe(true)
+    expect(isEmptyChangeSet(changeSet)).toBe(false)
+  })
+})
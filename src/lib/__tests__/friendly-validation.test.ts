@@ -23,6 +23,16 @@ describe('friendly-validation', () => {
     expect(issues[4].message).toContain('停止条件')
   })
 
+  it('maps trigger collision warnings', () => {
+    const [duplicate, similar] = toFriendlyLintIssues([
+      { field: 'triggers.collision', message: 'trigger "dedupe news" duplicates "Dedupe news" in skill "news-dedup"' },
+      { field: 'triggers.collision', message: 'trigger "clean feed" is similar to "clean the feeds" in skill "feed-cleaner" (similarity 0.85)' },
+    ])
+
+    expect(duplicate.message).toBe('触发词“dedupe news”与 Skill news-dedup 的“Dedupe news”重复。')
+    expect(similar.message).toContain('高度相似（85%）')
+  })
+
   it('summarizes friendly lint issues', () => {
     const summary = toFriendlyLintSummary([
       { field: 'steps', message: 'steps must have 3~7 items, got: 0' },
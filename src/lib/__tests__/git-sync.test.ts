@@ -0,0 +1,126 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import { execFileSync } from 'child_process'
+import { mkdtemp, readFile, rm, writeFile } from 'fs/promises'
+import { tmpdir } from 'os'
+import path from 'path'
+import { commitSkillToGit, resolveGitSyncConfig, type GitSyncConfig } from '../git-sync'
+
+function git(cwd: string, args: string[]): string {
+  return execFileSync('git', args, { cwd, encoding: 'utf-8' }).trim()
+}
+
+function files(entries: Record<string, string>) {
+  return Object.entries(entries).map(([filePath, content]) => ({ path: filePath, content: Buffer.from(content, 'utf-8') }))
+}
+
+describe('resolveGitSyncConfig', () => {
+  it('is disabled without GIT_SYNC_REPO and applies defaults otherwise', () => {
+    expect(resolveGitSyncConfig({})).toBeNull()
+    expect(resolveGitSyncConfig({ GIT_SYNC_REPO: '  ' })).toBeNull()
+    expect(resolveGitSyncConfig({ GIT_SYNC_REPO: '/srv/skills', GIT_SYNC_BRANCH: 'release' })).toEqual({
+      repoPath: '/srv/skills',
+      branch: 'release',
+      authorName: 'Skill Vault',
+      authorEmail: 'skill-vault@localhost',
+    })
+  })
+})
+
+describe('commitSkillToGit', () => {
+  let root: string
+
+  beforeEach(async () => {
+    root = await mkdtemp(path.join(tmpdir(), 'git-sync-test-'))
+  })
+
+  afterEach(async () => {
+    await rm(root, { recursive: true, force: true })
+  })
+
+  function configFor(repoPath: string): GitSyncConfig {
+    return { repoPath, branch: 'main', authorName: 'Vault Bot', authorEmail: 'bot@example.com' }
+  }
+
+  it('commits into a bare repository, replaces the slug directory and skips unchanged trees', async () => {
+    const repo = path.join(root, 'skills.git')
+    git(root, ['init', '-q', '--bare', repo])
+    const config = configFor(repo)
+
+    const first = await commitSkillToGit(config, {
+      slug: 'demo',
+      files: files({ 'SKILL.md': '# v1', 'references/old.md': 'old' }),
+      message: 'first release\n\nSkill: demo\n',
+    })
+    expect(first.changed).toBe(true)
+    expect(git(repo, ['rev-parse', 'refs/heads/main'])).toBe(first.commitSha)
+    expect(git(repo, ['log', '-1', '--format=%s|%an|%ae', 'main'])).toBe('first release|Vault Bot|bot@example.com')
+
+    await commitSkillToGit(config, { slug: 'other', files: files({ 'SKILL.md': '# other' }), message: 'other' })
+    const second = await commitSkillToGit(config, {
+      slug: 'demo',
+      files: files({ 'SKILL.md': '# v2', 'references/new.md': 'new' }),
+      message: 'second release',
+    })
+    expect(git(repo, ['ls-tree', '-r', '--name-only', 'main']).split('\n')).toEqual([
+      'demo/SKILL.md',
+      'demo/references/new.md',
+      'other/SKILL.md',
+    ])
+    expect(git(repo, ['show', 'main:demo/SKILL.md'])).toBe('# v2')
+
+    const unchanged = await commitSkillToGit(config, {
+      slug: 'demo',
+      files: files({ 'SKILL.md': '# v2', 'references/new.md': 'new' }),
+      message: 'noop',
+    })
+    expect(unchanged).toEqual({ commitSha: second.commitSha, changed: false })
+  })
+
+  it('replaces non-ASCII and space-containing paths without leaving stale entries', async () => {
+    const repo = path.join(root, 'skills.git')
+    git(root, ['init', '-q', '--bare', repo])
+    const config = configFor(repo)
+
+    await commitSkillToGit(config, {
+      slug: 'demo',
+      files: files({ 'SKILL.md': '# v1', 'references/规则 说明.md': 'old' }),
+      message: 'first',
+    })
+    await commitSkillToGit(config, { slug: 'demo', files: files({ 'SKILL.md': '# v2' }), message: 'second' })
+
+    expect(git(repo, ['ls-tree', '-r', '--name-only', 'main'])).toBe('demo/SKILL.md')
+  })
+
+  it('fast-forwards a checked-out working repository and leaves untracked files alone', async () => {
+    const repo = path.join(root, 'work')
+    git(root, ['init', '-q', '-b', 'main', repo])
+    await writeFile(path.join(repo, 'notes.txt'), 'local notes')
+
+    const result = await commitSkillToGit(configFor(repo), {
+      slug: 'demo',
+      files: files({ 'SKILL.md': '# demo' }),
+      message: 'publish demo',
+    })
+
+    expect(git(repo, ['rev-parse', 'HEAD'])).toBe(result.commitSha)
+    expect(await readFile(path.join(repo, 'demo', 'SKILL.md'), 'utf-8')).toBe('# demo')
+    expect(await readFile(path.join(repo, 'notes.txt'), 'utf-8')).toBe('local notes')
+    expect(git(repo, ['status', '--porcelain'])).toBe('?? notes.txt')
+  })
+
+  it('rejects unsafe paths and non-repositories', async () => {
+    const repo = path.join(root, 'skills.git')
+    git(root, ['init', '-q', '--bare', repo])
+    expect(() => commitSkillToGit(configFor(repo), { slug: 'demo', files: files({ '../escape.md': 'x' }), message: 'x' }))
+      .toThrow('Unsafe path for git sync')
+    for (const unsafe of ['a\n100644 0000000000000000000000000000000000000000\tevil.md', 'tab\there.md', 'nul\0.md']) {
+      expect(() => commitSkillToGit(configFor(repo), { slug: 'demo', files: files({ [unsafe]: 'x' }), message: 'x' }))
+        .toThrow('Unsafe path for git sync')
+    }
+    expect(() => commitSkillToGit(configFor(repo), { slug: '../demo', files: [], message: 'x' }))
+      .toThrow('Invalid slug for git sync')
+    await expect(
+      commitSkillToGit(configFor(path.join(root, 'missing')), { slug: 'demo', files: [], message: 'x' })
+    ).rejects.toThrow('Not a git repository')
+  })
+})
@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest'
-import { lintSkill } from '../lint'
+import { findLintRegressions, lintSkill } from '../lint'
 import type { SkillData } from '../types'
 
 function makeValidSkill(overrides: Partial<SkillData> = {}): SkillData {
@@ -159,3 +159,20 @@ describe('lintSkill', () => {
     })
   })
 })
+
+describe('findLintRegressions', () => {
+  it('should report only errors that are new after the change', () => {
+    const before = lintSkill(makeValidSkill({ steps: ['only one'] }))
+    const after = lintSkill(makeValidSkill({ steps: ['only one'], triggers: ['one'] }))
+    const regressions = findLintRegressions(before, after)
+    expect(regressions.length).toBeGreaterThan(0)
+    expect(regressions.every(e => e.field !== 'steps')).toBe(true)
+    expect(regressions.some(e => e.field === 'triggers')).toBe(true)
+  })
+
+  it('should be empty when the change fixes or keeps existing errors', () => {
+    const before = lintSkill(makeValidSkill({ triggers: ['one'] }))
+    expect(findLintRegressions(before, lintSkill(makeValidSkill()))).toEqual([])
+    expect(findLintRegressions(before, before)).toEqual([])
+  })
+})
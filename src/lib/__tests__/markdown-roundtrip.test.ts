@@ -0,0 +1,191 @@
+import { describe, it, expect } from 'vitest'
+import { locateSkillMarkdownField, parseSkillMarkdown, renderSkillMarkdown } from '../markdown'
+import type { SkillData, SkillGuardrails } from '../types'
+
+/** 固定种子的伪随机数，失败时可按 seed 复现 */
+function mulberry32(seed: number) {
+  let a = seed
+  return () => {
+    a = (a + 0x6d2b79f5) | 0
+    let t = Math.imul(a ^ (a >>> 15), 1 | a)
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+type Rng = () => number
+
+const pick = <T,>(rng: Rng, items: readonly T[]): T => items[Math.floor(rng() * items.length)]
+const times = <T,>(rng: Rng, max: number, make: () => T): T[] =>
+  Array.from({ length: Math.floor(rng() * (max + 1)) }, make)
+
+const WORDS = [
+  'alpha', 'Read', '"quoted"', 'back`tick', 'colon: value', '- dash', '1. one', '#', '# hash', '中文',
+  'tab\there', '  indented', 'trailing ', '[link](x.md)', '---', 'None', 'true', '`code`', '*bold*', '',
+]
+
+const LINES = [
+  '', '## Notes', '### Case 1: not a test here', '- Input: `x`', '- Expected: `y`', '  - nested',
+  '1. numbered', '```', '# heading', '---', '- Escalation policy: BLOCK',
+]
+
+function singleLine(rng: Rng): string {
+  return times(rng, 5, () => pick(rng, WORDS)).join(pick(rng, [' ', '', '  ']))
+}
+
+function multiLine(rng: Rng): string {
+  return times(rng, 5, () => (rng() < 0.3 ? pick(rng, LINES) : singleLine(rng))).join('\n')
+}
+
+function trigger(rng: Rng): string {
+  return singleLine(rng).replace(/\s+/g, ' ').trim() || 'fallback trigger'
+}
+
+function testText(rng: Rng, expected: boolean): string {
+  for (;;) {
+    const text = multiLine(rng)
+    if (/^### Case \d+:/m.test(text)) continue
+    if (!expected && text.includes('`\n- Expected: `')) continue
+    return text
+  }
+}
+
+function makeSkill(rng: Rng): SkillData & { slug: string } {
+  const guardrails: SkillGuardrails = {
+    allowed_tools: [...new Set(times(rng, 3, () => pick(rng, ['Read', 'Write', 'Bash(git:*)', 'WebFetch', 'None'])))],
+    disable_model_invocation: rng() < 0.5,
+    user_invocable: rng() < 0.5,
+    stop_conditions: times(rng, 3, () => singleLine(rng)),
+    escalation: pick(rng, ['REVIEW', 'BLOCK', 'ASK_HUMAN'] as const),
+  }
+  return {
+    title: singleLine(rng),
+    slug: pick(rng, ['demo-skill', 'a', '123', 'true', 'x-y-z']),
+    summary: multiLine(rng),
+    inputs: multiLine(rng),
+    outputs: multiLine(rng),
+    steps: times(rng, 8, () => singleLine(rng)),
+    risks: multiLine(rng),
+    triggers: [...new Set(times(rng, 6, () => trigger(rng)))],
+    guardrails,
+    tests: times(rng, 3, () => ({ name: singleLine(rng), input: testText(rng, false), expected_output: testText(rng, true) })),
+  }
+}
+
+const FILE_DIRS = ['references', 'examples', 'scripts', 'assets', 'templates']
+
+function makeFiles(rng: Rng): string[] {
+  const files = times(rng, 5, () => `${pick(rng, FILE_DIRS)}/${pick(rng, ['a.md', 'b.py', 'deep/c.txt', 'z 1.json'])}`)
+  return [...new Set(files)]
+}
+
+describe('parseSkillMarkdown round trip', () => {
+  it('inverts renderSkillMarkdown for generated skills', () => {
+    for (let seed = 1; seed <= 200; seed++) {
+      const rng = mulberry32(seed)
+      const skill = makeSkill(rng)
+      const files = makeFiles(rng)
+      const markdown = renderSkillMarkdown(skill, files)
+
+      const result = parseSkillMarkdown(markdown)
+      expect(result, `seed ${seed}`).toEqual({ ok: true, skill, files: [...files].sort() })
+      if (!result.ok) continue
+      expect(renderSkillMarkdown(result.skill, result.files), `seed ${seed}`).toBe(markdown)
+    }
+  })
+
+  it('keeps empty sections and placeholder rows', () => {
+    const skill: SkillData & { slug: string } = {
+      title: '',
+      slug: '',
+      summary: '',
+      inputs: '\n\nleading blank lines',
+      outputs: 'trailing blank lines\n\n',
+      steps: ['', '', ''],
+      risks: '',
+      triggers: [],
+      guardrails: {
+        allowed_tools: [],
+        disable_model_invocation: false,
+        user_invocable: true,
+        stop_conditions: [''],
+        escalation: 'ASK_HUMAN',
+      },
+      tests: [{ name: '', input: '', expected_output: '' }],
+    }
+
+    expect(parseSkillMarkdown(renderSkillMarkdown(skill))).toEqual({ ok: true, skill, files: [] })
+  })
+})
+
+describe('parseSkillMarkdown errors', () => {
+  const skill: SkillData & { slug: string } = {
+    title: 'Demo',
+    slug: 'demo',
+    summary: 'Summarize logs',
+    inputs: 'Log file',
+    outputs: 'Summary',
+    steps: ['Read', 'Summarize', 'Report'],
+    risks: 'None',
+    triggers: ['summarize logs'],
+    guardrails: {
+      allowed_tools: ['Read'],
+      disable_model_invocation: false,
+      user_invocable: true,
+      stop_conditions: ['Stop on empty input'],
+      escalation: 'REVIEW',
+    },
+    tests: [{ name: 'basic', input: 'log', expected_output: 'summary' }],
+  }
+  const lines = renderSkillMarkdown(skill).split('\n')
+  const lineOf = (text: string) => lines.indexOf(text) + 1
+
+  it('reports malformed lines with their line numbers', () => {
+    const edited = [...lines]
+    edited[lineOf('2. Summarize') - 1] = 'Summarize'
+    edited[lineOf('- User invocable: true') - 1] = '- User invocable: false'
+    edited[lineOf('- Input: `log`') - 1] = '- Input: log'
+
+    const result = parseSkillMarkdown(edited.join('\n'))
+    expect(result.ok).toBe(false)
+    if (result.ok) return
+    expect(result.errors).toEqual([
+      expect.objectContaining({ line: lineOf('2. Summarize'), field: 'steps' }),
+      expect.objectContaining({ line: lineOf('- User invocable: true'), field: 'guardrails', message: 'User invocable does not match the frontmatter value' }),
+      expect.objectContaining({ line: lineOf('### Case 1: basic'), field: 'tests' }),
+    ])
+  })
+
+  it('reports missing and out-of-order sections and invalid frontmatter', () => {
+    const swapped = lines.filter((line) => line !== '## Workflow')
+    const missing = parseSkillMarkdown(swapped.join('\n'))
+    expect(missing.ok === false && missing.errors).toEqual([
+      expect.objectContaining({ field: 'steps', message: 'Missing section "## Workflow"' }),
+    ])
+
+    const reordered = [...lines]
+    reordered[lineOf('## Inputs') - 1] = '## Outputs'
+    reordered[lineOf('## Outputs') - 1] = '## Inputs'
+    const outOfOrder = parseSkillMarkdown(reordered.join('\n'))
+    expect(outOfOrder.ok === false && outOfOrder.errors[0]).toEqual({
+      line: lineOf('## Outputs'),
+      message: 'Section "## Inputs" is out of order',
+    })
+
+    const badYaml = parseSkillMarkdown(['---', 'name: demo', 'description: [', '---', '', '# Demo'].join('\n'))
+    expect(badYaml.ok === false && badYaml.errors[0].message).toMatch(/^Invalid frontmatter YAML/)
+  })
+
+  it('locates lint error fields on their lines', () => {
+    const markdown = lines.join('\n')
+    expect(locateSkillMarkdownField(markdown, 'slug')).toBe(lineOf('name: demo'))
+    expect(locateSkillMarkdownField(markdown, 'title')).toBe(lineOf('# Demo'))
+    expect(locateSkillMarkdownField(markdown, 'triggers')).toBe(lineOf('## Trigger phrases'))
+    expect(locateSkillMarkdownField(markdown, 'guardrails.stop_conditions')).toBe(lineOf('- Stop conditions:'))
+    expect(locateSkillMarkdownField(markdown, 'guardrails.escalation')).toBe(lineOf('- Escalation policy: REVIEW'))
+    expect(locateSkillMarkdownField(markdown, 'files')).toBe(1)
+
+    const withoutTriggers = renderSkillMarkdown({ ...skill, triggers: [] })
+    expect(locateSkillMarkdownField(withoutTriggers, 'triggers')).toBe(3)
+  })
+})
@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest'
+import { can, normalizeUserRole, skillPermissions, type Principal } from '../permissions'
+
+const skill = { owner: 'alice', maintainers: ['bob'] }
+
+const as = (actor: string, role: Principal['role']): Principal => ({ actor, role })
+
+describe('can', () => {
+  it('lets viewers only read', () => {
+    const viewer = as('alice', 'viewer')
+    for (const permission of ['skill:create', 'skill:edit', 'skill:delete', 'skill:publish', 'tag:create', 'tag:manage', 'template:manage'] as const) {
+      expect(can(viewer, permission, skill), permission).toBe(false)
+    }
+  })
+
+  it('limits authors to skills they own or co-maintain', () => {
+    expect(can(as('alice', 'author'), 'skill:create')).toBe(true)
+    expect(can(as('alice', 'author'), 'skill:edit', skill)).toBe(true)
+    expect(can(as('bob', 'author'), 'skill:edit', skill)).toBe(true)
+    expect(can(as('carol', 'author'), 'skill:edit', skill)).toBe(false)
+    expect(can(as('carol', 'author'), 'skill:edit')).toBe(false)
+
+    expect(can(as('alice', 'author'), 'skill:delete', skill)).toBe(true)
+    expect(can(as('bob', 'author'), 'skill:delete', skill)).toBe(false)
+    expect(can(as('bob', 'author'), 'skill:maintainers', skill)).toBe(false)
+    expect(can(as('alice', 'author'), 'skill:publish', skill)).toBe(false)
+    expect(can(as('alice', 'author'), 'tag:manage')).toBe(false)
+    expect(can(as('alice', 'author'), 'audit:read')).toBe(false)
+  })
+
+  it('lets reviewers edit and publish any skill and manage tags', () => {
+    const reviewer = as('carol', 'reviewer')
+    expect(can(reviewer, 'skill:edit', skill)).toBe(true)
+    expect(can(reviewer, 'skill:publish', skill)).toBe(true)
+    expect(can(reviewer, 'tag:manage')).toBe(true)
+    expect(can(reviewer, 'audit:read')).toBe(true)
+    expect(can(reviewer, 'skill:delete', skill)).toBe(false)
+    expect(can(reviewer, 'skill:maintainers', skill)).toBe(false)
+  })
+
+  it('lets admins do everything', () => {
+    expect(skillPermissions(as('root', 'admin'), skill)).toEqual({
+      edit: true,
+      delete: true,
+      publish: true,
+      manageMaintainers: true,
+    })
+  })
+
+  it('narrows API token principals to their scopes', () => {
+    const writer: Principal = { actor: 'root', role: 'admin', scopes: ['skills:read', 'skills:write'] }
+    expect(can(writer, 'skill:edit', skill)).toBe(true)
+    expect(can(writer, 'tag:manage')).toBe(true)
+    expect(can(writer, 'skill:publish', skill)).toBe(false)
+    expect(can({ ...writer, scopes: ['skills:read'] }, 'skill:edit', skill)).toBe(false)
+    expect(can({ actor: 'alice', role: 'author', scopes: ['publish'] }, 'skill:publish', skill)).toBe(false)
+  })
+})
+
+describe('normalizeUserRole', () => {
+  it('falls back to viewer for unknown roles', () => {
+    expect(normalizeUserRole('reviewer')).toBe('reviewer')
+    expect(normalizeUserRole('owner')).toBe('viewer')
+    expect(normalizeUserRole(null)).toBe('viewer')
+  })
+})
@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest'
+import { isImperativeStep, isSpecificStopCondition, scoreSkill } from '../quality-score'
+import type { SkillData } from '../types'
+
+const strongSkill: SkillData = {
+  title: 'Clean News',
+  slug: 'clean-news',
+  summary: 'deduplicating and cleaning news feeds, see references/rules.md',
+  inputs: 'Raw news items',
+  outputs: 'Cleaned news items',
+  steps: ['Load the news feed', 'Remove duplicate headlines', 'Return cleaned items'],
+  risks: '- May drop near-duplicate but distinct stories\n- Slow on very large feeds',
+  triggers: ['clean news', 'dedupe headlines', 'news cleanup'],
+  guardrails: {
+    allowed_tools: ['Read'],
+    disable_model_invocation: false,
+    user_invocable: true,
+    stop_conditions: ['Stop when the input feed is empty'],
+    escalation: 'ASK_HUMAN',
+  },
+  tests: [
+    { name: 'clean', input: 'please clean news from today', expected_output: 'ok' },
+    { name: 'dedupe', input: 'dedupe these headlines', expected_output: 'ok' },
+    { name: 'cleanup', input: 'run a news cleanup', expected_output: 'ok' },
+  ],
+}
+
+function rule(result: ReturnType<typeof scoreSkill>, id: string) {
+  return result.rules.find((item) => item.id === id)!
+}
+
+describe('scoreSkill', () => {
+  it('gives full marks to a well-formed skill', () => {
+    const result = scoreSkill(strongSkill, { filePaths: ['references/rules.md'] })
+    expect(result.score).toBe(100)
+    expect(result.rules.every((item) => item.passed && item.suggestion === null)).toBe(true)
+    expect(result.rules.reduce((sum, item) => sum + item.weight, 0)).toBe(100)
+  })
+
+  it('penalizes triggers not covered by tests', () => {
+    const result = scoreSkill({ ...strongSkill, tests: [strongSkill.tests[0]] })
+    const coverage = rule(result, 'trigger_test_coverage')
+    expect(coverage.passed).toBe(false)
+    expect(coverage.suggestion).toContain('"dedupe headlines"')
+    expect(result.score).toBeLessThan(100)
+  })
+
+  it('flags step count and non-imperative steps', () => {
+    const result = scoreSkill({ ...strongSkill, steps: ['The feed is loaded', 'Return items'] })
+    const steps = rule(result, 'steps')
+    expect(steps.points).toBe(5)
+    expect(steps.suggestion).toContain('3~7')
+    expect(steps.suggestion).toContain('The feed is loaded')
+  })
+
+  it('scores vague stop conditions, short risks and unreferenced files', () => {
+    const result = scoreSkill(
+      {
+        ...strongSkill,
+        risks: 'none',
+        guardrails: { ...strongSkill.guardrails, stop_conditions: ['stop', 'done'] },
+      },
+      { filePaths: ['references/rules.md', 'scripts/run.sh'] }
+    )
+    expect(rule(result, 'stop_conditions').points).toBe(0)
+    expect(rule(result, 'risks').points).toBe(7.5)
+    const files = rule(result, 'supporting_files')
+    expect(files.passed).toBe(false)
+    expect(files.suggestion).toContain('scripts/run.sh')
+  })
+
+  it('reduces description headroom near the 2048 limit', () => {
+    const result = scoreSkill({ ...strongSkill, summary: 'x'.repeat(1900) })
+    expect(rule(result, 'description_headroom').passed).toBe(false)
+  })
+})
+
+describe('rule helpers', () => {
+  it('detects imperative steps', () => {
+    expect(isImperativeStep('Parse input')).toBe(true)
+    expect(isImperativeStep('Parsing input')).toBe(false)
+    expect(isImperativeStep('Proceed to the next file')).toBe(true)
+    expect(isImperativeStep('Embed the chart in the report')).toBe(true)
+    expect(isImperativeStep('Bring results back to the user')).toBe(true)
+    expect(isImperativeStep('Embedded charts are rendered')).toBe(false)
+    expect(isImperativeStep('解析输入')).toBe(true)
+    expect(isImperativeStep('我们解析输入')).toBe(false)
+  })
+
+  it('detects specific stop conditions', () => {
+    expect(isSpecificStopCondition('stop')).toBe(false)
+    expect(isSpecificStopCondition('if > 3 retries')).toBe(true)
+    expect(isSpecificStopCondition('输入为空时停止')).toBe(true)
+  })
+})
@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest'
+import { createHash } from 'crypto'
+import { buildSkillBundle, parseBundleQuery } from '../skill-bundle'
+import type { SkillExportResult } from '../skill-export-source'
+import type { SkillData } from '../types'
+
+function makeSkill(slug: string, overrides: Partial<SkillData> = {}): SkillData {
+  return {
+    id: 1,
+    title: `Skill ${slug}`,
+    slug,
+    summary: 'Bundle test skill',
+    inputs: 'in',
+    outputs: 'out',
+    steps: ['a', 'b', 'c'],
+    risks: 'none',
+    triggers: ['x', 'y', 'z'],
+    guardrails: { allowed_tools: [], disable_model_invocation: false, user_invocable: true, stop_conditions: ['stop'], escalation: 'ASK_HUMAN' },
+    tests: [{ name: 't', input: 'i', expected_output: 'o' }],
+    tags: [],
+    ...overrides,
+  }
+}
+
+function okResult(skillData: SkillData, files: Array<{ path: string; content: string }> = [], version: number | null = 1): SkillExportResult {
+  return {
+    ok: true,
+    source: {
+      skillData,
+      files: files.map((file) => ({ path: file.path, isBinary: false, contentText: file.content, contentBytes: null })),
+      version,
+      publicationId: null,
+      channel: null,
+    },
+  }
+}
+
+describe('parseBundleQuery', () => {
+  it('parses ids and tags and requires at least one of them', () => {
+    const query = parseBundleQuery(new URLSearchParams('ids=3,1,3&tags=Alpha, beta'), { kind: 'default' })
+    expect(query).toEqual({ ids: [3, 1], tags: ['alpha', 'beta'], selector: { kind: 'default' } })
+    expect(parseBundleQuery(new URLSearchParams(''), { kind: 'default' })).toEqual({ error: 'Provide ids or tags' })
+    expect(parseBundleQuery(new URLSearchParams('ids=1,x'), { kind: 'default' })).toEqual({ error: 'Invalid skill ids' })
+    expect('error' in parseBundleQuery(new URLSearchParams('ids=1'), { kind: 'version', version: 2 })).toBe(true)
+  })
+})
+
+describe('buildSkillBundle', () => {
+  it('lays skills out under skills/<slug>/ with per-file sha256 in the manifest', () => {
+    const { entries, manifest } = buildSkillBundle(
+      [
+        { skillId: 1, slug: 'alpha', result: okResult(makeSkill('alpha'), [{ path: 'references/notes.md', content: 'notes' }], 2) },
+        { skillId: 2, slug: 'beta', result: okResult(makeSkill('beta'), [], null) },
+      ],
+      { kind: 'default' },
+      new Date('2026-10-19T00:00:00Z')
+    )
+
+    expect(entries.map((entry) => entry.name)).toEqual([
+      'skills/alpha/SKILL.md',
+      'skills/alpha/references/notes.md',
+      'skills/beta/SKILL.md',
+    ])
+    expect(manifest.generatedAt).toBe('2026-10-19T00:00:00.000Z')
+    expect(manifest.skills.map((skill) => [skill.slug, skill.version])).toEqual([['alpha', 2], ['beta', null]])
+    const notes = manifest.skills[0].files.find((file) => file.path === 'references/notes.md')
+    expect(notes).toEqual({ path: 'references/notes.md', sha256: createHash('sha256').update('notes').digest('hex'), size: 5 })
+    expect(manifest.skipped).toEqual([])
+  })
+
+  it('skips and reports lint failures, load errors and duplicate slugs', () => {
+    const { entries, manifest } = buildSkillBundle(
+      [
+        { skillId: 1, slug: 'alpha', result: okResult(makeSkill('alpha')) },
+        { skillId: 2, slug: 'broken', result: okResult(makeSkill('broken', { triggers: ['only one'] })) },
+        { skillId: 3, slug: 'gamma', result: { ok: false, status: 404, error: 'Channel not found' } },
+        { skillId: 4, slug: 'alpha-renamed', result: okResult(makeSkill('alpha')) },
+      ],
+      { kind: 'channel', channel: 'stable' }
+    )
+
+    expect(manifest.source).toBe('channel:stable')
+    expect(entries.map((entry) => entry.name)).toEqual(['skills/alpha/SKILL.md'])
+    expect(manifest.skipped.map((item) => [item.id, item.reason])).toEqual([
+      [2, 'Lint failed'],
+      [3, 'Channel not found'],
+      [4, 'Duplicate slug in bundle'],
+    ])
+    expect(manifest.skipped[0].errors?.length).toBeGreaterThan(0)
+  })
+})
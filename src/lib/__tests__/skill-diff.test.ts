@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest'
+import { diffFiles, diffLines, diffList, diffSnapshots, type ComparableSnapshot } from '../skill-diff'
+
+const base: ComparableSnapshot = {
+  title: 'Skill',
+  slug: 'skill',
+  status: 'draft',
+  summary: 'line one\nline two',
+  inputs: 'in',
+  outputs: 'out',
+  steps: ['a', 'b', 'c'],
+  risks: '',
+  triggers: ['t1', 't2', 't3'],
+  guardrails: {
+    allowed_tools: ['Read'],
+    disable_model_invocation: false,
+    user_invocable: true,
+    stop_conditions: ['stop'],
+    escalation: 'ASK_HUMAN',
+  },
+  tests: [{ name: 'basic', input: 'x', expected_output: 'y' }],
+  tags: ['alpha'],
+  files: [{ path: 'references/a.md', mime: 'text/markdown', isBinary: false, sha256: 'a'.repeat(64), size: 1 }],
+}
+
+describe('diffLines', () => {
+  it('marks removed and added lines around common lines', () => {
+    expect(diffLines('a\nb\nc', 'a\nx\nc')).toEqual([
+      { type: 'equal', text: 'a' },
+      { type: 'removed', text: 'b' },
+      { type: 'added', text: 'x' },
+      { type: 'equal', text: 'c' },
+    ])
+  })
+
+  it('handles empty text on either side', () => {
+    expect(diffLines('', 'a')).toEqual([{ type: 'added', text: 'a' }])
+    expect(diffLines('a', '')).toEqual([{ type: 'removed', text: 'a' }])
+  })
+})
+
+describe('diffList', () => {
+  it('detects added, removed and reordered items', () => {
+    const diff = diffList(['a', 'b', 'c'], ['c', 'a', 'd'])
+    expect(diff.added).toEqual(['d'])
+    expect(diff.removed).toEqual(['b'])
+    expect(diff.reordered).toEqual(['c', 'a'])
+    expect(diff.changed).toBe(true)
+  })
+
+  it('reports no change for identical lists', () => {
+    expect(diffList(['a', 'b'], ['a', 'b']).changed).toBe(false)
+  })
+})
+
+describe('diffFiles', () => {
+  it('compares files by path and sha256', () => {
+    const file = (path: string, sha: string) => ({ path, mime: 'text/plain', isBinary: false, sha256: sha.repeat(64), size: 1 })
+    const diff = diffFiles([file('a', 'a'), file('b', 'b')], [file('a', 'c'), file('c', 'c')])
+    expect(diff.added.map((f) => f.path)).toEqual(['c'])
+    expect(diff.removed.map((f) => f.path)).toEqual(['b'])
+    expect(diff.modified.map((item) => item.to.path)).toEqual(['a'])
+  })
+})
+
+describe('diffSnapshots', () => {
+  it('returns per-field diffs', () => {
+    const diff = diffSnapshots(base, {
+      ...base,
+      summary: 'line one\nline 2',
+      steps: ['b', 'a', 'c'],
+      tests: [{ name: 'basic', input: 'x', expected_output: 'z' }, { name: 'new', input: '', expected_output: '' }],
+      guardrails: { ...base.guardrails, escalation: 'REVIEW' },
+    })
+    expect(diff.changed).toBe(true)
+    expect(diff.fields.summary.lines.filter((op) => op.type !== 'equal')).toHaveLength(2)
+    expect(diff.fields.steps.reordered).toEqual(['b', 'a'])
+    expect(diff.fields.tests.modified).toHaveLength(1)
+    expect(diff.fields.tests.added.map((t) => t.name)).toEqual(['new'])
+    expect(diff.fields['guardrails.escalation'].changed).toBe(true)
+    expect(diff.fields.title.changed).toBe(false)
+    expect(diff.files?.changed).toBe(false)
+  })
+
+  it('skips file comparison when a side has no manifest', () => {
+    const diff = diffSnapshots({ ...base, files: undefined }, base)
+    expect(diff.files).toBeNull()
+    expect(diff.changed).toBe(false)
+  })
+})
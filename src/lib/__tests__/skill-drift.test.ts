@@ -0,0 +1,103 @@
+import { describe, it, expect } from 'vitest'
+import {
+  computeSkillContentHash,
+  detectSkillDrift,
+  mergeSkillSnapshots,
+  resolveSkillMerge,
+  type MergeSnapshot,
+} from '../skill-drift'
+
+function sha(char: string) {
+  return char.repeat(64)
+}
+
+function makeSnapshot(overrides: Partial<MergeSnapshot> = {}): MergeSnapshot {
+  return {
+    title: 'PDF Tools',
+    summary: 'Work with PDF files',
+    inputs: 'A PDF',
+    outputs: 'Extracted text',
+    steps: ['open', 'extract', 'save'],
+    risks: 'none',
+    triggers: ['pdf', 'extract text', 'merge pdf'],
+    guardrails: { allowed_tools: [], disable_model_invocation: false, user_invocable: true, stop_conditions: ['done'], escalation: 'ASK_HUMAN' },
+    tests: [{ name: 't', input: 'i', expected_output: 'o' }],
+    files: [{ path: 'references/api.md', mime: 'text/markdown', isBinary: false, sha256: sha('a'), size: 10 }],
+    ...overrides,
+  }
+}
+
+describe('computeSkillContentHash', () => {
+  it('ignores key and file order', () => {
+    const base = makeSnapshot()
+    const reordered = {
+      ...base,
+      guardrails: { escalation: 'ASK_HUMAN' as const, stop_conditions: ['done'], user_invocable: true, disable_model_invocation: false, allowed_tools: [] },
+    }
+    const files = [{ path: 'b.md', sha256: sha('b') }, { path: 'a.md', sha256: sha('a') }]
+
+    const hash = computeSkillContentHash(base, files)
+    expect(computeSkillContentHash(reordered, [...files].reverse())).toBe(hash)
+    expect(computeSkillContentHash({ ...base, summary: 'edited' }, files)).not.toBe(hash)
+  })
+
+  it('reports drift only for source-managed skills with a recorded hash', () => {
+    expect(detectSkillDrift({ sourceManaged: false, syncedContentHash: 'x' }, 'y')).toBeNull()
+    expect(detectSkillDrift({ sourceManaged: true, syncedContentHash: null }, 'y')).toBe('untracked')
+    expect(detectSkillDrift({ sourceManaged: true, syncedContentHash: 'y' }, 'y')).toBe('clean')
+    expect(detectSkillDrift({ sourceManaged: true, syncedContentHash: 'x' }, 'y')).toBe('modified')
+  })
+})
+
+describe('mergeSkillSnapshots', () => {
+  it('auto-merges one-sided changes and flags conflicting ones', () => {
+    const base = makeSnapshot()
+    const ours = makeSnapshot({
+      summary: 'Local summary',
+      risks: 'local risk',
+      files: [
+        ...base.files,
+        { path: 'references/local.md', mime: 'text/markdown', isBinary: false, sha256: sha('l'), size: 5 },
+      ],
+    })
+    const theirs = makeSnapshot({
+      title: 'PDF Toolkit',
+      risks: 'upstream risk',
+      files: [{ path: 'references/api.md', mime: 'text/markdown', isBinary: false, sha256: sha('u'), size: 12 }],
+    })
+
+    const merge = mergeSkillSnapshots(base, ours, theirs)
+    const status = Object.fromEntries(merge.fields.map((entry) => [entry.field, entry.status]))
+    expect(status).toMatchObject({ title: 'theirs', summary: 'ours', risks: 'conflict', steps: 'unchanged' })
+    expect(merge.files.map((entry) => [entry.path, entry.status])).toEqual([
+      ['references/api.md', 'theirs'],
+      ['references/local.md', 'ours'],
+    ])
+    expect(merge.conflicts).toBe(1)
+
+    expect(resolveSkillMerge(merge, ours, theirs, {})).toEqual({ ok: false, unresolved: ['risks'] })
+    const resolved = resolveSkillMerge(merge, ours, theirs, { fields: { risks: 'theirs' } })
+    expect(resolved.ok).toBe(true)
+    if (!resolved.ok) return
+    expect(resolved.merged).toMatchObject({ title: 'PDF Toolkit', summary: 'Local summary', risks: 'upstream risk' })
+    expect(resolved.merged.files.map((file) => [file.path, file.sha256])).toEqual([
+      ['references/api.md', sha('u')],
+      ['references/local.md', sha('l')],
+    ])
+  })
+
+  it('treats every difference as a conflict without a base and respects deletions', () => {
+    const ours = makeSnapshot({ summary: 'Local summary' })
+    const theirs = makeSnapshot({ files: [] })
+
+    const withoutBase = mergeSkillSnapshots(null, ours, theirs)
+    expect(withoutBase.conflicts).toBe(2)
+
+    const withBase = mergeSkillSnapshots(makeSnapshot(), ours, theirs)
+    expect(withBase.files).toEqual([
+      expect.objectContaining({ path: 'references/api.md', status: 'theirs', theirs: null }),
+    ])
+    const resolved = resolveSkillMerge(withBase, ours, theirs, {})
+    expect(resolved.ok && resolved.merged.files).toEqual([])
+  })
+})
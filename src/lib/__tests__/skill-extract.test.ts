@@ -0,0 +1,123 @@
+import { describe, it, expect } from 'vitest'
+import { renderSkillMarkdown } from '../markdown'
+import { EXTRACTED_FIELDS, extractSkillFromMarkdown, lowConfidenceFields } from '../skill-extract'
+import type { SkillData } from '../types'
+
+const baseSkill: SkillData = {
+  title: 'Test Skill',
+  slug: 'test-skill',
+  summary: 'a test skill for unit testing',
+  inputs: 'test input',
+  outputs: 'test output',
+  steps: ['step one', 'step two', 'step three'],
+  risks: 'no risks',
+  triggers: ['trigger one', 'trigger two', 'trigger three'],
+  guardrails: {
+    allowed_tools: ['Read'],
+    disable_model_invocation: false,
+    user_invocable: true,
+    stop_conditions: ['stop if error'],
+    escalation: 'BLOCK',
+  },
+  tests: [{ name: 'quoted', input: '"hello"', expected_output: 'world' }],
+}
+
+const upstreamMarkdown = [
+  '---',
+  'name: docx',
+  'description: "Document toolkit. Use when Claude needs to work with documents (.docx files) for: (1) Creating new documents, (2) Editing content, or (3) Adding comments."',
+  'allowed-tools:',
+  '  - Bash',
+  '---',
+  '',
+  '# DOCX Processing',
+  '',
+  '## Overview',
+  '',
+  'Create and edit Word documents.',
+  '',
+  'More background that is not part of the summary.',
+  '',
+  '## Procedure',
+  '',
+  '1. Unpack the document',
+  '   ```bash',
+  '   # not a heading',
+  '   unzip file.docx',
+  '   ```',
+  '2. Edit the XML:',
+  '   - keep styles',
+  '   - validate ids',
+  '3. Repack',
+  '',
+  '## Common Pitfalls',
+  '',
+  '- Losing tracked changes',
+  '',
+  '## Safety',
+  '',
+  '- Never overwrite the original file',
+  '',
+  '## Usage Examples',
+  '',
+  '### Example 1: Add a heading',
+  '',
+  '**Input:** "Add a title to report.docx"',
+  '**Output:** A report with a new heading',
+].join('\n')
+
+describe('extractSkillFromMarkdown', () => {
+  it('recovers rendered SKILL.md with full confidence', () => {
+    const { skill, confidence } = extractSkillFromMarkdown(renderSkillMarkdown(baseSkill, ['references/a.md']))
+
+    expect(skill).toMatchObject({ ...baseSkill, tags: [] })
+    for (const field of EXTRACTED_FIELDS) expect(confidence[field]).toBe(1)
+    expect(lowConfidenceFields(confidence)).toEqual([])
+  })
+
+  it('maps heading variants, nested lists and description triggers', () => {
+    const { skill, confidence } = extractSkillFromMarkdown(upstreamMarkdown)
+
+    expect(skill.title).toBe('DOCX Processing')
+    expect(skill.summary).toBe('Create and edit Word documents.')
+    expect(skill.steps).toEqual(['Unpack the document', 'Edit the XML: keep styles; validate ids', 'Repack'])
+    expect(skill.risks).toBe('- Losing tracked changes')
+    expect(skill.triggers).toEqual(['Creating new documents', 'Editing content', 'Adding comments'])
+    expect(skill.guardrails).toMatchObject({ allowed_tools: ['Bash'], stop_conditions: ['Never overwrite the original file'] })
+    expect(skill.tests).toEqual([{ name: 'Add a heading', input: 'Add a title to report.docx', expected_output: 'A report with a new heading' }])
+
+    expect(confidence).toMatchObject({
+      title: 1,
+      summary: 0.8,
+      steps: 0.8,
+      risks: 0.7,
+      triggers: 0.5,
+      guardrails: 0.5,
+      tests: 0.7,
+      inputs: 0,
+    })
+    expect(lowConfidenceFields(confidence)).toEqual(['inputs', 'outputs', 'triggers', 'guardrails'])
+  })
+
+  it('falls back to body lists, quoted phrases and the slug', () => {
+    const markdown = [
+      '---',
+      'name: csv-cleaner',
+      'description: Cleans CSV files. Say "clean this csv" or "dedupe rows".',
+      '---',
+      '',
+      'Intro paragraph.',
+      '',
+      '1. Load the file',
+      '2. Drop duplicates',
+    ].join('\n')
+    const { skill, confidence } = extractSkillFromMarkdown(markdown)
+
+    expect(skill.title).toBe('Csv Cleaner')
+    expect(skill.summary).toBe('Cleans CSV files. Say "clean this csv" or "dedupe rows"')
+    expect(skill.steps).toEqual(['Load the file', 'Drop duplicates'])
+    expect(skill.triggers).toEqual(['clean this csv', 'dedupe rows'])
+    expect(skill.tests).toEqual([])
+    expect(confidence).toMatchObject({ title: 0.5, summary: 0.7, steps: 0.5, triggers: 0.7, tests: 0 })
+  })
+})
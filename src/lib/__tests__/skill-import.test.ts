@@ -0,0 +1,196 @@
+import { describe, it, expect } from 'vitest'
+import AdmZip from 'adm-zip'
+import { renderSkillMarkdown } from '../markdown'
+import {
+  detectImportFormat,
+  IMPORT_BINARY_MAX,
+  parseImportPayload,
+  parseSkillJsonDocument,
+  parseSkillMarkdownDocument,
+  parseSkillZip,
+} from '../skill-import'
+import type { SkillData } from '../types'
+
+const baseSkill: SkillData = {
+  title: 'Test Skill',
+  slug: 'test-skill',
+  summary: 'a test skill for unit testing',
+  inputs: 'test input',
+  outputs: 'test output',
+  steps: ['step one', 'step two', 'step three'],
+  risks: 'no risks',
+  triggers: ['trigger one', 'trigger two', 'trigger three'],
+  guardrails: {
+    allowed_tools: ['Read', 'Bash'],
+    disable_model_invocation: false,
+    user_invocable: true,
+    stop_conditions: ['stop if error', 'stop when input is empty'],
+    escalation: 'REVIEW',
+  },
+  tests: [
+    { name: 'basic', input: 'hello', expected_output: 'world' },
+    { name: 'second case', input: 'a b', expected_output: 'c' },
+  ],
+}
+
+/** 改写中央目录里某个条目声明的原始大小，模拟压缩炸弹 */
+function declareSize(buffer: Buffer, name: string, size: number): Buffer {
+  const out = Buffer.from(buffer)
+  for (let offset = out.indexOf('PK\x01\x02', 0, 'latin1'); offset >= 0; offset = out.indexOf('PK\x01\x02', offset + 4, 'latin1')) {
+    const nameLength = out.readUInt16LE(offset + 28)
+    if (out.toString('utf8', offset + 46, offset + 46 + nameLength) === name) {
+      out.writeUInt32LE(size, offset + 24)
+      return out
+    }
+  }
+  throw new Error(`Entry not found: ${name}`)
+}
+
+describe('parseSkillMarkdownDocument', () => {
+  it('parses rendered SKILL.md back into skill data', () => {
+    const md = renderSkillMarkdown(baseSkill, ['references/rules.md'])
+    const parsed = parseSkillMarkdownDocument(md)
+
+    expect(parsed.slug).toBe('test-skill')
+    expect(parsed.title).toBe('Test Skill')
+    expect(parsed.summary).toBe(baseSkill.summary)
+    expect(parsed.inputs).toBe(baseSkill.inputs)
+    expect(parsed.outputs).toBe(baseSkill.outputs)
+    expect(parsed.steps).toEqual(baseSkill.steps)
+    expect(parsed.risks).toBe(baseSkill.risks)
+    expect(parsed.triggers).toEqual(baseSkill.triggers)
+    expect(parsed.guardrails).toEqual(baseSkill.guardrails)
+    expect(parsed.tests).toEqual(baseSkill.tests)
+  })
+
+  it('falls back to description for summary and triggers', () => {
+    const md = [
+      '---',
+      'name: plain-skill',
+      'description: \'This skill should be used when cleaning data. Trigger phrases include: "clean data", "dedupe rows", "fix nulls".\'',
+      '---',
+      '',
+      '# Plain Skill',
+      '',
+    ].join('\n')
+    const parsed = parseSkillMarkdownDocument(md)
+    expect(parsed.summary).toBe('cleaning data')
+    expect(parsed.triggers).toEqual(['clean data', 'dedupe rows', 'fix nulls'])
+    expect(parsed.guardrails.escalation).toBe('ASK_HUMAN')
+  })
+
+  it('uses fallback slug when frontmatter has no name', () => {
+    const parsed = parseSkillMarkdownDocument('# Title Only\n', 'My Folder')
+    expect(parsed.slug).toBe('my-folder')
+    expect(parsed.title).toBe('Title Only')
+  })
+})
+
+describe('parseSkillJsonDocument', () => {
+  it('parses export.json shape', () => {
+    const parsed = parseSkillJsonDocument({
+      name: 'test-skill',
+      description: 'ignored',
+      ...baseSkill,
+      tags: ['NLP'],
+    })
+    expect(parsed.slug).toBe('test-skill')
+    expect(parsed.guardrails).toEqual(baseSkill.guardrails)
+    expect(parsed.tests).toEqual(baseSkill.tests)
+    expect(parsed.tags).toEqual(['NLP'])
+  })
+
+  it('defaults unknown escalation to ASK_HUMAN', () => {
+    const parsed = parseSkillJsonDocument({ title: 'X', guardrails: { escalation: 'nope' } })
+    expect(parsed.guardrails.escalation).toBe('ASK_HUMAN')
+  })
+})
+
+describe('parseSkillZip', () => {
+  it('collects SKILL.md and supporting files per skill folder', () => {
+    const zip = new AdmZip()
+    zip.addFile('test-skill/SKILL.md', Buffer.from(renderSkillMarkdown(baseSkill, ['references/rules.md'])))
+    zip.addFile('test-skill/references/rules.md', Buffer.from('# Rules'))
+    zip.addFile('test-skill/assets/logo.bin', Buffer.from([0, 1, 2, 3]))
+    zip.addFile('test-skill/other/notes.txt', Buffer.from('bad dir'))
+
+    const items = parseSkillZip(zip.toBuffer(), 'bundle.zip')
+    expect(items).toHaveLength(1)
+    expect(items[0].skill.slug).toBe('test-skill')
+    expect(items[0].files.map((f) => f.path)).toEqual(['assets/logo.bin', 'references/rules.md'])
+    expect(items[0].files[0].isBinary).toBe(true)
+    expect(items[0].files[1].contentText).toBe('# Rules')
+    expect(items[0].warnings.some((w) => w.includes('other/notes.txt'))).toBe(true)
+  })
+
+  it('supports multiple skills and root-level SKILL.md', () => {
+    const zip = new AdmZip()
+    zip.addFile('a/SKILL.md', Buffer.from(renderSkillMarkdown({ ...baseSkill, slug: 'a' })))
+    zip.addFile('b/SKILL.md', Buffer.from(renderSkillMarkdown({ ...baseSkill, slug: 'b' })))
+    expect(parseSkillZip(zip.toBuffer()).map((item) => item.skill.slug)).toEqual(['a', 'b'])
+
+    const root = new AdmZip()
+    root.addFile('SKILL.md', Buffer.from(renderSkillMarkdown(baseSkill)))
+    root.addFile('references/x.md', Buffer.from('x'))
+    const items = parseSkillZip(root.toBuffer())
+    expect(items).toHaveLength(1)
+    expect(items[0].files.map((f) => f.path)).toEqual(['references/x.md'])
+  })
+
+  it('checks declared sizes before inflating entries', () => {
+    const zip = new AdmZip()
+    zip.addFile('bomb/SKILL.md', Buffer.from(renderSkillMarkdown({ ...baseSkill, slug: 'bomb' })))
+    zip.addFile('bomb/assets/huge.bin', Buffer.from([0, 1, 2, 3]))
+    zip.addFile('bomb/references/ok.md', Buffer.from('# ok'))
+    const buffer = declareSize(zip.toBuffer(), 'bomb/assets/huge.bin', 0xc0000000)
+
+    const [item] = parseSkillZip(buffer)
+    expect(item.files.map((f) => f.path)).toEqual(['references/ok.md'])
+    expect(item.warnings).toContain('Skip assets/huge.bin: file exceeds 2MB')
+  })
+
+  it('does not inflate entries that declare a zero size but carry compressed data', () => {
+    const zip = new AdmZip()
+    zip.addFile('bomb/SKILL.md', Buffer.from(renderSkillMarkdown({ ...baseSkill, slug: 'bomb' })))
+    zip.addFile('bomb/assets/zero.bin', Buffer.alloc(IMPORT_BINARY_MAX * 4))
+    zip.addFile('bomb/references/empty.md', Buffer.alloc(0))
+    const buffer = declareSize(zip.toBuffer(), 'bomb/assets/zero.bin', 0)
+
+    const [item] = parseSkillZip(buffer)
+    expect(item.files.map((f) => f.path)).toEqual(['references/empty.md'])
+    expect(item.warnings).toContain('Skip assets/zero.bin: declared size does not match content')
+  })
+
+  it('rejects archives whose declared content exceeds the total limit', () => {
+    const zip = new AdmZip()
+    zip.addFile('SKILL.md', Buffer.from(renderSkillMarkdown(baseSkill)))
+    for (let i = 0; i < 30; i++) zip.addFile(`assets/part-${i}.bin`, Buffer.from([i]))
+    let buffer = zip.toBuffer()
+    for (let i = 0; i < 30; i++) buffer = declareSize(buffer, `assets/part-${i}.bin`, IMPORT_BINARY_MAX)
+
+    expect(() => parseSkillZip(buffer)).toThrow('Zip content exceeds 50MB when extracted')
+  })
+})
+
+describe('parseImportPayload', () => {
+  it('detects format by extension', () => {
+    expect(detectImportFormat('SKILL.md')).toBe('md')
+    expect(detectImportFormat('x.JSON')).toBe('json')
+    expect(detectImportFormat('x.zip')).toBe('zip')
+    expect(detectImportFormat('x.txt')).toBeNull()
+  })
+
+  it('accepts a JSON array', () => {
+    const buffer = Buffer.from(JSON.stringify([{ ...baseSkill, name: 'a' }, { ...baseSkill, name: 'b' }]))
+    const items = parseImportPayload('skills.json', buffer)
+    expect(items.map((item) => item.skill.slug)).toEqual(['a', 'b'])
+  })
+
+  it('throws on unsupported type, bad JSON and empty zip', () => {
+    expect(() => parseImportPayload('a.txt', Buffer.from(''))).toThrow('Unsupported')
+    expect(() => parseImportPayload('a.json', Buffer.from('{'))).toThrow('Invalid JSON')
+    const zip = new AdmZip()
+    zip.addFile('readme.txt', Buffer.from('x'))
+    expect(() => parseImportPayload('a.zip', zip.toBuffer())).toThrow('No SKILL.md')
+  })
+})
@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest'
+import { parseFieldComments, requiredApprovalsFor, reviewDecisionSchema } from '../skill-reviews'
+
+const guardrails = {
+  allowed_tools: [] as string[],
+  disable_model_invocation: false,
+  user_invocable: true,
+  stop_conditions: [],
+  escalation: 'ASK_HUMAN',
+}
+
+describe('requiredApprovalsFor', () => {
+  it('requires two approvals for BLOCK escalation or declared tools', () => {
+    expect(requiredApprovalsFor(guardrails)).toBe(1)
+    expect(requiredApprovalsFor({ ...guardrails, escalation: 'REVIEW' })).toBe(1)
+    expect(requiredApprovalsFor({ ...guardrails, escalation: 'BLOCK' })).toBe(2)
+    expect(requiredApprovalsFor({ ...guardrails, allowed_tools: ['Read'] })).toBe(2)
+    expect(requiredApprovalsFor(null)).toBe(1)
+  })
+})
+
+describe('reviewDecisionSchema', () => {
+  it('requires a comment or field comment when requesting changes', () => {
+    expect(reviewDecisionSchema.safeParse({ decision: 'approve' }).success).toBe(true)
+    expect(reviewDecisionSchema.safeParse({ decision: 'request_changes' }).success).toBe(false)
+    expect(reviewDecisionSchema.safeParse({ decision: 'request_changes', comment: '补充风险说明' }).success).toBe(true)
+    expect(
+      reviewDecisionSchema.safeParse({ decision: 'request_changes', fieldComments: [{ field: 'unknown', message: 'x' }] }).success
+    ).toBe(false)
+  })
+})
+
+describe('parseFieldComments', () => {
+  it('drops malformed stored comments', () => {
+    expect(parseFieldComments([{ field: 'risks', message: '缺少回撤说明' }, { field: 'nope', message: 'x' }, 'bad'])).toEqual([
+      { field: 'risks', message: '缺少回撤说明' },
+    ])
+    expect(parseFieldComments(null)).toEqual([])
+  })
+})
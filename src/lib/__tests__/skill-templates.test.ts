@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest'
+import {
+  applyTemplateVariables,
+  extractTemplateVariables,
+  normalizeTemplateContent,
+  type SkillTemplateContent,
+} from '../skill-templates'
+
+const template: SkillTemplateContent = {
+  payload: {
+    title: '{{service}} runbook',
+    summary: 'Handle {{ service }} incidents for {{team}}',
+    steps: ['Check {{service}} dashboards'],
+  },
+  files: [{ path: 'references/{{service}}.md', mime: 'text/markdown', content: 'Owner: {{team}}' }],
+  tags: ['{{team}}', 'ops'],
+}
+
+describe('extractTemplateVariables', () => {
+  it('collects variables from payload, files and tags in first-seen order', () => {
+    expect(extractTemplateVariables(template)).toEqual(['service', 'team'])
+  })
+
+  it('returns empty list when no placeholders are present', () => {
+    expect(extractTemplateVariables({ payload: { title: 'Plain' }, files: [], tags: [] })).toEqual([])
+  })
+})
+
+describe('applyTemplateVariables', () => {
+  it('replaces placeholders everywhere', () => {
+    const applied = applyTemplateVariables(template, { service: 'billing', team: 'Payments' })
+    expect(applied.payload.title).toBe('billing runbook')
+    expect(applied.payload.summary).toBe('Handle billing incidents for Payments')
+    expect(applied.payload.steps).toEqual(['Check billing dashboards'])
+    expect(applied.files[0]).toEqual({ path: 'references/billing.md', mime: 'text/markdown', content: 'Owner: Payments' })
+    expect(applied.tags).toEqual(['payments', 'ops'])
+  })
+
+  it('keeps unknown placeholders untouched', () => {
+    const applied = applyTemplateVariables(template, { service: 'billing' })
+    expect(applied.payload.summary).toBe('Handle billing incidents for {{team}}')
+  })
+})
+
+describe('normalizeTemplateContent', () => {
+  it('dedupes files by path, fills mime and sorts', () => {
+    const content = normalizeTemplateContent({
+      payload: {},
+      files: [
+        { path: 'scripts/run.sh', content: 'old' },
+        { path: 'references/a.md', content: '# A' },
+        { path: 'scripts/run.sh', content: 'new' },
+      ],
+      tags: ['Ops', 'ops'],
+    })
+    expect(content.files).toEqual([
+      { path: 'references/a.md', mime: 'text/markdown', content: '# A' },
+      { path: 'scripts/run.sh', mime: 'text/plain', content: 'new' },
+    ])
+    expect(content.tags).toEqual(['ops'])
+  })
+})
@@ -0,0 +1,117 @@
+import { describe, it, expect } from 'vitest'
+import { extractJson, isJsonSubset, resolveGrader } from '../skill-test-graders'
+import { runSkillTests } from '../skill-test-runner'
+import type { ChatProviderAdapter, ChatStreamEvent } from '../chat/providers/types'
+import type { SkillData } from '../types'
+
+function replyProvider(reply: (system: string, userText: string) => string): ChatProviderAdapter {
+  return {
+    async *stream(req): AsyncGenerator<ChatStreamEvent> {
+      const last = req.messages[req.messages.length - 1] as { content: string }
+      yield { type: 'text_delta', text: reply(req.system || '', last.content) }
+      yield { type: 'done' }
+    },
+  }
+}
+
+const skill: SkillData = {
+  title: 'Grader Skill',
+  slug: 'grader-skill',
+  summary: 'Echo things back',
+  inputs: 'text',
+  outputs: 'text',
+  steps: ['Read input', 'Echo input', 'Stop'],
+  risks: 'None',
+  triggers: ['echo this', 'repeat this', 'say back'],
+  guardrails: {
+    allowed_tools: [],
+    disable_model_invocation: false,
+    user_invocable: true,
+    stop_conditions: ['Stop after echo'],
+    escalation: 'ASK_HUMAN',
+  },
+  tests: [],
+}
+
+describe('skill test graders', () => {
+  it('grades exact and contains', async () => {
+    const exact = resolveGrader('exact')
+    expect((await exact.grade({ input: '', expected: 'hello', output: ' hello \n' })).passed).toBe(true)
+    expect((await exact.grade({ input: '', expected: 'hello', output: 'hello world' })).passed).toBe(false)
+
+    const contains = resolveGrader('contains')
+    expect((await contains.grade({ input: '', expected: 'World', output: 'hello world' })).passed).toBe(true)
+    expect((await contains.grade({ input: '', expected: 'mars', output: 'hello world' })).passed).toBe(false)
+  })
+
+  it('grades regex with literal and bare patterns', async () => {
+    const regex = resolveGrader('regex')
+    expect((await regex.grade({ input: '', expected: '/^HELLO/i', output: 'hello world' })).passed).toBe(true)
+    expect((await regex.grade({ input: '', expected: '\\d{3}', output: 'code 404' })).passed).toBe(true)
+    const invalid = await regex.grade({ input: '', expected: '(', output: 'x' })
+    expect(invalid.passed).toBe(false)
+    expect(invalid.reason).toContain('预期正则不合法')
+  })
+
+  it('grades json-subset against JSON embedded in the output', async () => {
+    const grader = resolveGrader('json-subset')
+    const output = 'Result:\n```json\n{"status":"ok","items":[{"id":1,"tag":"a"},{"id":2}],"extra":true}\n```'
+    expect((await grader.grade({ input: '', expected: '{"status":"ok","items":[{"id":1}]}', output })).passed).toBe(true)
+    expect((await grader.grade({ input: '', expected: '{"status":"error"}', output })).passed).toBe(false)
+    expect((await grader.grade({ input: '', expected: 'not json', output })).reason).toBe('预期输出不是合法 JSON')
+  })
+
+  it('checks JSON subsets recursively', () => {
+    expect(isJsonSubset({ a: { b: 1 } }, { a: { b: 1, c: 2 } })).toBe(true)
+    expect(isJsonSubset([1, 2], [1])).toBe(false)
+    expect(isJsonSubset({ a: [1] }, { a: { 0: 1 } })).toBe(false)
+    expect(extractJson('prefix {"a":1} suffix')).toEqual({ a: 1 })
+    expect(() => extractJson('no json here')).toThrow()
+  })
+
+  it('delegates llm-judge to the chat provider', async () => {
+    expect(() => resolveGrader('llm-judge')).toThrow('requires a chat provider')
+
+    let judgeSystem = ''
+    const judge = resolveGrader('llm-judge', replyProvider((system, userText) => {
+      judgeSystem = system
+      return userText.includes('Actual output:\nfine')
+        ? '{"pass": true, "reason": "matches intent"}'
+        : 'I cannot decide'
+    }))
+    expect(await judge.grade({ input: 'q', expected: 'ok', output: 'fine' })).toEqual({ passed: true, reason: 'matches intent' })
+    expect(judgeSystem).toContain('grading the output')
+    const unparseable = await judge.grade({ input: 'q', expected: 'ok', output: 'bad' })
+    expect(unparseable.passed).toBe(false)
+    expect(unparseable.reason).toContain('评审回复无法解析')
+  })
+})
+
+describe('runSkillTests', () => {
+  it('feeds SKILL.md as system context and grades every case', async () => {
+    const systems: string[] = []
+    const provider = replyProvider((system, userText) => {
+      systems.push(system)
+      if (userText === 'boom') throw new Error('provider down')
+      return `echo: ${userText}`
+    })
+
+    const report = await runSkillTests({
+      skill,
+      tests: [
+        { name: 'hit', input: 'alpha', expected_output: 'echo: alpha' },
+        { name: 'miss', input: 'beta', expected_output: 'gamma' },
+        { name: 'error', input: 'boom', expected_output: 'anything' },
+      ],
+      provider,
+      grader: resolveGrader('contains'),
+    })
+
+    expect(systems[0]).toContain('name: grader-skill')
+    expect(report.total).toBe(3)
+    expect(report.passed).toBe(1)
+    expect(report.passRate).toBeCloseTo(1 / 3)
+    expect(report.results.map((r) => r.passed)).toEqual([true, false, false])
+    expect(report.results[2].error).toBe('provider down')
+  })
+})
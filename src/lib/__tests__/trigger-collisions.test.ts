@@ -0,0 +1,96 @@
+import { describe, it, expect } from 'vitest'
+import { lintSkillPackage } from '../lint'
+import {
+  findSkillTriggerCollisions,
+  findTriggerCollisions,
+  normalizeTriggerText,
+  parseCollisionThreshold,
+  triggerSimilarity,
+  type TriggerSource,
+} from '../trigger-collisions'
+import type { SkillData } from '../types'
+
+function source(id: number, slug: string, triggers: string[]): TriggerSource {
+  return { id, slug, title: slug, triggers }
+}
+
+describe('triggerSimilarity', () => {
+  it('treats case, punctuation and spacing variants as duplicates', () => {
+    expect(normalizeTriggerText('  Summarize   the LOGS!! ')).toBe('summarize the logs')
+    expect(triggerSimilarity('Summarize logs', 'summarize  logs.')).toBe(1)
+  })
+
+  it('scores token overlap and n-grams, including Chinese text', () => {
+    expect(triggerSimilarity('summarize logs', 'summarize the logs')).toBe(1)
+    expect(triggerSimilarity('clean csv data', 'clean the csv file')).toBeGreaterThan(0.5)
+    expect(triggerSimilarity('clean csv data', 'deploy to production')).toBeLessThan(0.2)
+    expect(triggerSimilarity('新闻去重', '帮我新闻去重')).toBeGreaterThanOrEqual(0.6)
+    expect(triggerSimilarity('新闻去重', '生成周报')).toBe(0)
+  })
+
+  it('clamps the threshold query', () => {
+    expect(parseCollisionThreshold(null)).toBe(0.8)
+    expect(parseCollisionThreshold('0.1')).toBe(0.5)
+    expect(parseCollisionThreshold('2')).toBe(1)
+    expect(parseCollisionThreshold('abc')).toBe(0.8)
+  })
+})
+
+describe('findTriggerCollisions', () => {
+  const sources = [
+    source(1, 'news-dedup', ['dedupe news', 'remove duplicate articles', 'clean feed']),
+    source(2, 'feed-cleaner', ['Dedupe news!', 'clean the feed']),
+    source(3, 'weekly-report', ['write weekly report', 'summarize the week']),
+    source(4, 'report-writer', ['write a weekly report']),
+  ]
+
+  it('returns conflicting skill pairs ordered by similarity', () => {
+    const collisions = findTriggerCollisions(sources, 0.8)
+
+    expect(collisions.map((c) => [c.skill.slug, c.other.slug, c.similarity])).toEqual([
+      ['news-dedup', 'feed-cleaner', 1],
+      ['weekly-report', 'report-writer', 1],
+    ])
+    expect(collisions[0].matches).toEqual([
+      { trigger: 'dedupe news', otherTrigger: 'Dedupe news!', similarity: 1, duplicate: true },
+      { trigger: 'clean feed', otherTrigger: 'clean the feed', similarity: 1, duplicate: false },
+    ])
+  })
+
+  it('checks a single skill against the rest of the vault', () => {
+    const collisions = findSkillTriggerCollisions(source(2, 'feed-cleaner', ['dedupe news']), sources)
+    expect(collisions.map((c) => c.other.slug)).toEqual(['news-dedup'])
+  })
+})
+
+describe('lintSkillPackage trigger collision warnings', () => {
+  const skill: SkillData = {
+    title: 'Feed Cleaner',
+    slug: 'feed-cleaner',
+    summary: 'Clean feeds',
+    inputs: 'feed',
+    outputs: 'clean feed',
+    steps: ['load', 'dedupe', 'save'],
+    risks: 'none',
+    triggers: ['dedupe news', 'clean the feed', 'drop spam'],
+    guardrails: {
+      allowed_tools: [],
+      disable_model_invocation: false,
+      user_invocable: true,
+      stop_conditions: ['stop'],
+      escalation: 'ASK_HUMAN',
+    },
+    tests: [{ name: 't', input: 'i', expected_output: 'o' }],
+  }
+
+  it('reports collisions as warnings without failing the lint', () => {
+    const vaultSkills = [source(1, 'news-dedup', ['Dedupe news']), source(2, 'feed-cleaner', skill.triggers)]
+    const result = lintSkillPackage(skill, [], { vaultSkills, skillId: 2 })
+
+    expect(result.valid).toBe(true)
+    expect(result.warnings).toEqual([
+      { field: 'triggers.collision', message: 'trigger "dedupe news" duplicates "Dedupe news" in skill "news-dedup"' },
+    ])
+    expect(lintSkillPackage(skill, [])).not.toHaveProperty('warnings')
+  })
+})
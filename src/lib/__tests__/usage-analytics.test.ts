@@ -0,0 +1,82 @@
+import { describe, it, expect, afterEach } from 'vitest'
+import { buildUsageTrend, prepareUsageEvents, toUsageDay, verifyIngestToken } from '../usage-analytics'
+
+describe('verifyIngestToken', () => {
+  const previous = process.env.USAGE_INGEST_TOKEN
+
+  afterEach(() => {
+    if (previous === undefined) delete process.env.USAGE_INGEST_TOKEN
+    else process.env.USAGE_INGEST_TOKEN = previous
+  })
+
+  it('rejects everything when no token is configured', () => {
+    delete process.env.USAGE_INGEST_TOKEN
+    expect(verifyIngestToken('Bearer anything')).toBe('unconfigured')
+  })
+
+  it('accepts only the configured bearer token', () => {
+    process.env.USAGE_INGEST_TOKEN = 'secret-token'
+    expect(verifyIngestToken('Bearer secret-token')).toBe('ok')
+    expect(verifyIngestToken('bearer secret-token')).toBe('ok')
+    expect(verifyIngestToken('Bearer secret-tokeN')).toBe('unauthorized')
+    expect(verifyIngestToken('secret-token')).toBe('unauthorized')
+    expect(verifyIngestToken(null)).toBe('unauthorized')
+  })
+})
+
+describe('prepareUsageEvents', () => {
+  const now = new Date('2026-10-19T08:30:00Z')
+
+  it('resolves slugs and fills defaults', () => {
+    const { accepted, rejected } = prepareUsageEvents(
+      [
+        { slug: 'news-dedup', outcome: 'success', latencyMs: 120, trigger: 'dedupe news', version: 3 },
+        { slug: 'news-dedup', outcome: 'failure', occurredAt: '2026-10-18T23:59:00+08:00' },
+      ],
+      new Map([['news-dedup', 7]]),
+      now
+    )
+    expect(rejected).toEqual([])
+    expect(accepted[0]).toMatchObject({ skillId: 7, version: 3, outcome: 'success', latencyMs: 120, trigger: 'dedupe news', occurredAt: now })
+    expect(accepted[0].day.toISOString()).toBe('2026-10-19T00:00:00.000Z')
+    expect(accepted[1]).toMatchObject({ version: null, latencyMs: null, trigger: null })
+    expect(accepted[1].day.toISOString()).toBe('2026-10-18T00:00:00.000Z')
+  })
+
+  it('rejects invalid events and unknown slugs individually', () => {
+    const { accepted, rejected } = prepareUsageEvents(
+      [
+        { slug: 'known', outcome: 'success' },
+        { slug: 'known', outcome: 'timeout' },
+        { slug: 'missing', outcome: 'success' },
+        'not-an-object',
+      ],
+      new Map([['known', 1]]),
+      now
+    )
+    expect(accepted).toHaveLength(1)
+    expect(rejected.map((r) => r.index)).toEqual([1, 2, 3])
+    expect(rejected[0].error).toContain('outcome')
+    expect(rejected[1].error).toBe('Unknown skill slug: missing')
+  })
+})
+
+describe('buildUsageTrend', () => {
+  it('fills every day in the window and computes failure rates', () => {
+    const now = new Date('2026-10-19T12:00:00Z')
+    const trend = buildUsageTrend(
+      [
+        { day: toUsageDay(now), outcome: 'success', _count: { _all: 3 } },
+        { day: toUsageDay(now), outcome: 'escalated', _count: { _all: 1 } },
+        { day: new Date('2026-10-17T00:00:00Z'), outcome: 'failure', _count: { _all: 2 } },
+        { day: new Date('2026-09-01T00:00:00Z'), outcome: 'failure', _count: { _all: 9 } },
+      ],
+      3,
+      now
+    )
+    expect(trend.map((p) => p.day)).toEqual(['2026-10-17', '2026-10-18', '2026-10-19'])
+    expect(trend[0]).toMatchObject({ total: 2, failure: 2, failureRate: 1 })
+    expect(trend[1].total).toBe(0)
+    expect(trend[2]).toMatchObject({ total: 4, success: 3, escalated: 1, failureRate: 0.25 })
+  })
+})
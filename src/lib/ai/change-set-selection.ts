@@ -0,0 +1,67 @@
+/**
+ * ChangeSet 选择性应用：按字段 / 文件路径接受或拒绝 AI 提案中的条目
+ */
+import { z } from 'zod/v4'
+import type { ChangeSet, ChangeSetSkillPatch } from './types'
+
+// 缺省的维度视为全部接受
+export const changeSetSelectionSchema = z.object({
+  fields: z.array(z.string()).optional(),
+  fileOps: z.array(z.string()).optional(),
+})
+
+export type ChangeSetSelection = z.infer<typeof changeSetSelectionSchema>
+
+export type RejectedChangeItems = {
+  fields: string[]
+  fileOps: Array<{ op: string; path: string }>
+}
+
+export type ChangeSetSelectionResult = {
+  accepted: ChangeSet
+  rejected: RejectedChangeItems
+  errors: string[]
+}
+
+export function selectChangeSet(cs: ChangeSet, selection?: ChangeSetSelection): ChangeSetSelectionResult {
+  const patchKeys = Object.keys(cs.skillPatch).filter(
+    (key) => cs.skillPatch[key as keyof ChangeSetSkillPatch] !== undefined
+  )
+  const filePaths = new Set(cs.fileOps.map((fop) => fop.path))
+  const errors: string[] = []
+
+  const acceptedFields = new Set(selection?.fields ?? patchKeys)
+  for (const field of acceptedFields) {
+    if (!patchKeys.includes(field)) errors.push(`selection.fields: "${field}" is not part of skillPatch`)
+  }
+  const acceptedPaths = new Set(selection?.fileOps ?? filePaths)
+  for (const path of acceptedPaths) {
+    if (!filePaths.has(path)) errors.push(`selection.fileOps: "${path}" is not part of fileOps`)
+  }
+
+  const skillPatch: ChangeSetSkillPatch = {}
+  for (const key of patchKeys) {
+    if (acceptedFields.has(key)) {
+      Object.assign(skillPatch, { [key]: cs.skillPatch[key as keyof ChangeSetSkillPatch] })
+    }
+  }
+
+  return {
+    accepted: {
+      ...cs,
+      skillPatch,
+      fileOps: cs.fileOps.filter((fop) => acceptedPaths.has(fop.path)),
+    },
+    rejected: {
+      fields: patchKeys.filter((key) => !acceptedFields.has(key)),
+      fileOps: cs.fileOps
+        .filter((fop) => !acceptedPaths.has(fop.path))
+        .map((fop) => ({ op: fop.op, path: fop.path })),
+    },
+    errors,
+  }
+}
+
+export function isEmptyChangeSet(cs: ChangeSet): boolean {
+  return Object.keys(cs.skillPatch).length === 0 && cs.fileOps.length === 0
+}
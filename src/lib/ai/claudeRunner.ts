@@ -13,11 +13,11 @@ import type { ChangeSet, ClaudeRunnerOptions, ClaudeRunnerResult } from './types
 import { changeSetJsonSchema } from './schema'
 import { validateSkillFilePath } from '../skill-files'
 
-const PROMPT_MAX_LENGTH = 8192
+export const PROMPT_MAX_LENGTH = 8192
 const TEXT_MAX = 200 * 1024 // 200KB
 const BINARY_MAX = 2 * 1024 * 1024 // 2MB
 
-const SYSTEM_PROMPT = `You are a Skill editor for the Quant Skill Vault system.
+export const SYSTEM_PROMPT = `You are a Skill editor for the Quant Skill Vault system.
 You MUST output ONLY a valid JSON object matching the provided json-schema.
 Do NOT output any extra text, markdown fences, or explanation outside the JSON.
 
@@ -46,12 +46,14 @@ export function parseClaudeHeadlessJson(raw: string): ClaudeRunnerResult {
   }
 
   const usage = parsed.usage as ClaudeRunnerResult['usage']
+  const costUsd = typeof parsed.total_cost_usd === 'number' ? parsed.total_cost_usd : undefined
 
   if (!parsed.structured_output || typeof parsed.structured_output !== 'object') {
     return {
       ok: false,
       rawJson: parsed,
       usage,
+      costUsd,
       errors: ['structured_output missing or not an object in Claude response'],
     }
   }
@@ -61,6 +63,7 @@ export function parseClaudeHeadlessJson(raw: string): ClaudeRunnerResult {
     rawJson: parsed,
     structuredOutput: parsed.structured_output as ChangeSet,
     usage,
+    costUsd,
   }
 }
 
@@ -0,0 +1,199 @@
+/**
+ * ProposalLog - AI 提案审计记录
+ * 记录提案的 prompt 快照、原始 ChangeSet、用量与应用结果（关联生成的 SkillVersion）
+ */
+import type { ChangeSet } from './types'
+import type { RejectedChangeItems } from './change-set-selection'
+
+export const PROPOSAL_LOG_NOT_READY_MESSAGE =
+  'Proposal log is not initialized. Run pnpm db:generate:local and pnpm db:push:local, then restart dev server.'
+
+export type ProposalStatus = 'proposed' | 'failed' | 'applied' | 'apply_failed'
+
+type ProposalLogRow = {
+  id: number
+  skillId: number
+  action: string
+  provider: string | null
+  instruction: string | null
+  prompt: string
+  changeSet: unknown
+  status: string
+  error: string | null
+  inputTokens: number | null
+  outputTokens: number | null
+  costUsd: number | null
+  appliedChangeSet: unknown
+  rejectedItems: unknown
+  skillVersionId: number | null
+  appliedAt: Date | null
+  createdAt: Date
+  skillVersion?: { id: number; version: number } | null
+}
+
+type ProposalLogCreateData = {
+  skillId: number
+  action: string
+  provider?: string
+  instruction: string | null
+  prompt: string
+  changeSet?: ChangeSet
+  status: ProposalStatus
+  error?: string
+  inputTokens?: number
+  outputTokens?: number
+  costUsd?: number
+  createdBy?: string
+}
+
+type ProposalLogUpdateData = {
+  status: ProposalStatus
+  error?: string | null
+  appliedChangeSet?: ChangeSet
+  rejectedItems?: RejectedChangeItems
+  skillVersionId?: number | null
+  appliedAt?: Date
+}
+
+export type ProposalLogRepo = {
+  create: (args: { data: ProposalLogCreateData }) => Promise<{ id: number }>
+  findUnique: (args: { where: { id: number } }) => Promise<ProposalLogRow | null>
+  update: (args: { where: { id: number }; data: ProposalLogUpdateData }) => Promise<unknown>
+  updateMany: (args: {
+    where: { id: number; status: { not: ProposalStatus } }
+    data: ProposalLogUpdateData
+  }) => Promise<{ count: number }>
+}
+
+function isPrismaCode(err: unknown, code: string): boolean {
+  return !!err && typeof err === 'object' && 'code' in err && (err as { code?: string }).code === code
+}
+
+export function hasProposalLog(client: unknown): client is { proposalLog: ProposalLogRepo } {
+  return !!client && typeof client === 'object' && 'proposalLog' in client
+}
+
+export function isProposalLogSchemaNotReadyError(err: unknown): boolean {
+  if (isPrismaCode(err, 'P2021') || isPrismaCode(err, 'P2022')) return true
+  const message = err instanceof Error ? err.message : ''
+  return message.includes('proposal_logs')
+}
+
+/**
+ * 写入提案记录；表未迁移时返回 null，不影响提案本身
+ */
+export async function recordProposalIfAvailable(
+  client: unknown,
+  data: ProposalLogCreateData
+): Promise<number | null> {
+  if (!hasProposalLog(client)) return null
+  try {
+    const created = await client.proposalLog.create({ data })
+    return created.id
+  } catch (err) {
+    if (isProposalLogSchemaNotReadyError(err)) return null
+    throw err
+  }
+}
+
+export async function updateProposalIfAvailable(
+  client: unknown,
+  proposalId: number,
+  data: ProposalLogUpdateData
+) {
+  if (!hasProposalLog(client)) return
+  try {
+    await client.proposalLog.update({ where: { id: proposalId }, data })
+  } catch (err) {
+    if (isProposalLogSchemaNotReadyError(err) || isPrismaCode(err, 'P2025')) return
+    throw err
+  }
+}
+
+/**
+ * 在应用事务内把提案标记为已应用，仅当它尚未被应用；返回 false 表示已被并发请求抢先应用。
+ * 表未迁移时视为成功
+ */
+export async function markProposalAppliedIfAvailable(
+  client: unknown,
+  proposalId: number,
+  data: Omit<ProposalLogUpdateData, 'status'>
+): Promise<boolean> {
+  if (!hasProposalLog(client)) return true
+  try {
+    const { count } = await client.proposalLog.updateMany({
+      where: { id: proposalId, status: { not: 'applied' } },
+      data: { ...data, status: 'applied' },
+    })
+    return count > 0
+  } catch (err) {
+    if (isProposalLogSchemaNotReadyError(err)) return true
+    throw err
+  }
+}
+
+export type ChangeSetSummary = {
+  fields: string[]
+  fileOps: Array<{ op: string; path: string }>
+  notes: string | null
+}
+
+/**
+ * 提炼 ChangeSet 概要：改动了哪些字段、哪些文件
+ */
+export function summarizeChangeSet(raw: unknown): ChangeSetSummary | null {
+  if (!raw || typeof raw !== 'object') return null
+  const cs = raw as Partial<ChangeSet>
+  const patch = cs.skillPatch && typeof cs.skillPatch === 'object' ? cs.skillPatch : {}
+  return {
+    fields: Object.entries(patch).filter(([, value]) => value !== undefined).map(([key]) => key),
+    fileOps: Array.isArray(cs.fileOps)
+      ? cs.fileOps.map((fop) => ({ op: String(fop?.op || ''), path: String(fop?.path || '') }))
+      : [],
+    notes: typeof cs.notes === 'string' && cs.notes ? cs.notes : null,
+  }
+}
+
+function parseRejectedItems(raw: unknown): RejectedChangeItems | null {
+  if (!raw || typeof raw !== 'object') return null
+  const value = raw as Partial<RejectedChangeItems>
+  return {
+    fields: Array.isArray(value.fields) ? value.fields.map(String) : [],
+    fileOps: Array.isArray(value.fileOps)
+      ? value.fileOps.map((fop) => ({ op: String(fop?.op || ''), path: String(fop?.path || '') }))
+      : [],
+  }
+}
+
+/**
+ * 列表响应：只含概要；detail=true 时附带 prompt 与完整 ChangeSet
+ */
+export function toProposalLogResponse(row: ProposalLogRow, detail = false) {
+  const base = {
+    id: row.id,
+    skillId: row.skillId,
+    action: row.action,
+    provider: row.provider ?? null,
+    instruction: row.instruction,
+    status: row.status,
+    error: row.error,
+    usage: {
+      inputTokens: row.inputTokens,
+      outputTokens: row.outputTokens,
+      costUsd: row.costUsd,
+    },
+    proposed: summarizeChangeSet(row.changeSet),
+    applied: summarizeChangeSet(row.appliedChangeSet),
+    rejected: parseRejectedItems(row.rejectedItems),
+    version: row.skillVersion ? { id: row.skillVersion.id, version: row.skillVersion.version } : null,
+    appliedAt: row.appliedAt ? row.appliedAt.toISOString() : null,
+    createdAt: row.createdAt.toISOString(),
+  }
+  if (!detail) return base
+  return {
+    ...base,
+    prompt: row.prompt,
+    changeSet: row.changeSet ?? null,
+    appliedChangeSet: row.appliedChangeSet ?? null,
+  }
+}
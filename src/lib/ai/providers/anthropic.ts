@@ -0,0 +1,86 @@
+import Anthropic from '@anthropic-ai/sdk'
+import { SYSTEM_PROMPT } from '../claudeRunner'
+import type { ChangeSet } from '../types'
+import type { ProposalProviderAdapter, ProposalProviderRequest, ProposalProviderResult } from './types'
+
+const MODEL = process.env.AI_PROPOSAL_MODEL || process.env.CHAT_MODEL || 'claude-sonnet-4-20250514'
+const TOOL_NAME = 'submit_change_set'
+
+// 每百万 token 的美元单价（input / output），按模型族匹配；未知模型按 sonnet 计
+const PRICING_PER_MTOK: Array<{ match: string; input: number; output: number }> = [
+  { match: 'opus', input: 15, output: 75 },
+  { match: 'haiku', input: 0.8, output: 4 },
+  { match: 'sonnet', input: 3, output: 15 },
+]
+
+/**
+ * 根据返回的 usage token 数估算本次调用费用（美元）
+ */
+export function estimateAnthropicCostUsd(
+  model: string,
+  usage: { input_tokens: number; output_tokens: number }
+): number {
+  const price = PRICING_PER_MTOK.find((p) => model.includes(p.match)) ?? PRICING_PER_MTOK[2]
+  return (usage.input_tokens * price.input + usage.output_tokens * price.output) / 1_000_000
+}
+
+/**
+ * 直接调用 Anthropic Messages API，通过强制 tool_use 约束输出为 ChangeSet JSON
+ */
+export class AnthropicProposalProvider implements ProposalProviderAdapter {
+  readonly name = 'anthropic' as const
+  private client: Anthropic
+
+  constructor(apiKey: string, baseURL?: string) {
+    this.client = new Anthropic({ apiKey, baseURL })
+  }
+
+  async propose(req: ProposalProviderRequest): Promise<ProposalProviderResult> {
+    const model = req.model || MODEL
+    let response: Anthropic.Message
+    try {
+      response = await this.client.messages.create({
+        model,
+        max_tokens: 8192,
+        system: SYSTEM_PROMPT,
+        tools: [
+          {
+            name: TOOL_NAME,
+            description: 'Submit the proposed ChangeSet for the skill.',
+            input_schema: JSON.parse(req.jsonSchema) as Anthropic.Tool.InputSchema,
+          },
+        ],
+        tool_choice: { type: 'tool', name: TOOL_NAME },
+        messages: [{ role: 'user', content: req.prompt }],
+      })
+    } catch (err) {
+      return { ok: false, errors: [`Anthropic request failed: ${err instanceof Error ? err.message : String(err)}`] }
+    }
+
+    const usage = {
+      input_tokens: response.usage.input_tokens,
+      output_tokens: response.usage.output_tokens,
+    }
+    const costUsd = estimateAnthropicCostUsd(response.model || model, usage)
+    const toolUse = response.content.find(
+      (block): block is Anthropic.ToolUseBlock => block.type === 'tool_use' && block.name === TOOL_NAME
+    )
+    if (!toolUse || !toolUse.input || typeof toolUse.input !== 'object') {
+      return {
+        ok: false,
+        rawJson: response,
+        usage,
+        costUsd,
+        errors: [`${TOOL_NAME} tool_use missing in Anthropic response`],
+      }
+    }
+
+    return {
+      ok: true,
+      rawJson: response,
+      structuredOutput: toolUse.input as ChangeSet,
+      usage,
+      costUsd,
+    }
+  }
+}
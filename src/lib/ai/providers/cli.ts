@@ -0,0 +1,10 @@
+import { runClaude } from '../claudeRunner'
+import type { ProposalProviderAdapter, ProposalProviderRequest, ProposalProviderResult } from './types'
+
+export class CliProposalProvider implements ProposalProviderAdapter {
+  readonly name = 'cli' as const
+
+  propose(req: ProposalProviderRequest): Promise<ProposalProviderResult> {
+    return runClaude({ prompt: req.prompt, jsonSchema: req.jsonSchema, model: req.model })
+  }
+}
@@ -0,0 +1,67 @@
+import type { UserRole } from '@/lib/permissions'
+import { PROMPT_MAX_LENGTH, validateChangeSet } from '../claudeRunner'
+import { AnthropicProposalProvider } from './anthropic'
+import { CliProposalProvider } from './cli'
+import { MockProposalProvider } from './mock'
+import {
+  PROPOSAL_PROVIDERS,
+  type ProposalProviderAdapter,
+  type ProposalProviderName,
+  type ProposalProviderRequest,
+  type ProposalProviderResult,
+} from './types'
+
+export function isProposalProviderName(value: unknown): value is ProposalProviderName {
+  return typeof value === 'string' && (PROPOSAL_PROVIDERS as readonly string[]).includes(value)
+}
+
+/**
+ * 请求体中的 provider 覆盖：生产环境仅管理员可用，避免普通用户绕开配置的 backend（如 mock）
+ */
+export function canOverrideProposalProvider(role: UserRole): boolean {
+  return process.env.NODE_ENV !== 'production' || role === 'admin'
+}
+
+/**
+ * 选择提案 backend：请求指定 > AI_PROPOSAL_PROVIDER > cli
+ */
+export function resolveProposalProvider(requested?: ProposalProviderName): ProposalProviderAdapter {
+  const configured = process.env.AI_PROPOSAL_PROVIDER
+  const mode = requested || (isProposalProviderName(configured) ? configured : 'cli')
+
+  if (mode === 'mock') return new MockProposalProvider()
+  if (mode === 'cli') return new CliProposalProvider()
+
+  const apiKey = process.env.ANTHROPIC_API_KEY
+  if (!apiKey) {
+    throw new Error('ANTHROPIC_API_KEY not configured for anthropic proposal provider')
+  }
+
+  return new AnthropicProposalProvider(apiKey, process.env.ANTHROPIC_BASE_URL || undefined)
+}
+
+/**
+ * 调用 provider 并对输出统一执行 validateChangeSet（path gate + size gate）
+ */
+export async function proposeChangeSet(
+  provider: ProposalProviderAdapter,
+  req: ProposalProviderRequest
+): Promise<ProposalProviderResult> {
+  if (req.prompt.length > PROMPT_MAX_LENGTH) {
+    return { ok: false, errors: [`Prompt exceeds ${PROMPT_MAX_LENGTH} character limit`] }
+  }
+
+  const result = await provider.propose(req)
+  if (!result.ok || !result.structuredOutput) return result
+
+  const validation = validateChangeSet(result.structuredOutput)
+  if (!validation.valid) {
+    return {
+      ...result,
+      ok: false,
+      structuredOutput: undefined,
+      errors: ['Invalid changeSet', ...validation.errors],
+    }
+  }
+  return result
+}
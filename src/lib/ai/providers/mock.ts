@@ -0,0 +1,51 @@
+import type { ChangeSet } from '../types'
+import type { ProposalProviderAdapter, ProposalProviderRequest, ProposalProviderResult } from './types'
+
+function buildMockChangeSet(req: ProposalProviderRequest): ChangeSet {
+  if (req.action === 'create-supporting-files') {
+    return {
+      skillPatch: {},
+      fileOps: [
+        {
+          op: 'upsert',
+          path: 'references/checklist.md',
+          mime: 'text/markdown',
+          content_text: '# Checklist\n\n- 校验输入\n- 执行步骤\n- 核对输出\n',
+        },
+      ],
+      notes: 'Mock provider: added references/checklist.md',
+    }
+  }
+  return {
+    skillPatch: { summary: 'Mock-improved summary with clearer scope and expected output.' },
+    fileOps: [],
+    notes: `Mock provider: ${req.action}`,
+  }
+}
+
+/**
+ * 确定性 mock：不依赖外网与 CLI，用于测试与离线开发
+ * AI_MOCK_SCENARIO=error 模拟调用失败，=invalid 返回不合法的 ChangeSet
+ */
+export class MockProposalProvider implements ProposalProviderAdapter {
+  readonly name = 'mock' as const
+
+  async propose(req: ProposalProviderRequest): Promise<ProposalProviderResult> {
+    const scenario = process.env.AI_MOCK_SCENARIO
+    if (scenario === 'error') {
+      return { ok: false, errors: ['Mock provider forced error'] }
+    }
+
+    const structuredOutput: ChangeSet = scenario === 'invalid'
+      ? { skillPatch: {}, fileOps: [{ op: 'upsert', path: 'SKILL.md', content_text: 'overwrite' }] }
+      : buildMockChangeSet(req)
+
+    return {
+      ok: true,
+      rawJson: { provider: 'mock', structured_output: structuredOutput },
+      structuredOutput,
+      usage: { input_tokens: Math.ceil(req.prompt.length / 4), output_tokens: 64 },
+      costUsd: 0,
+    }
+  }
+}
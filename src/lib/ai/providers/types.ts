@@ -0,0 +1,20 @@
+import type { AiAction, ClaudeRunnerResult } from '../types'
+
+export const PROPOSAL_PROVIDERS = ['cli', 'anthropic', 'mock'] as const
+
+export type ProposalProviderName = (typeof PROPOSAL_PROVIDERS)[number]
+
+export interface ProposalProviderRequest {
+  action: AiAction
+  prompt: string
+  jsonSchema: string
+  model?: string
+}
+
+// 各 backend 统一返回 ClaudeRunnerResult，便于共用校验与提案记录
+export type ProposalProviderResult = ClaudeRunnerResult
+
+export interface ProposalProviderAdapter {
+  readonly name: ProposalProviderName
+  propose(req: ProposalProviderRequest): Promise<ProposalProviderResult>
+}
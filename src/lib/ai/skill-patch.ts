@@ -0,0 +1,63 @@
+/**
+ * ChangeSet 预演：在写库前推算应用后的 SkillData 与文件列表
+ * propose 的 lint 预览与 apply 的 lint gate 共用
+ */
+import { slugify } from '../slugify'
+import type { SkillData } from '../types'
+import type { ChangeSetSkillPatch, FileOp } from './types'
+
+type SkillRecord = {
+  id: number
+  title: string
+  slug: string
+  summary: string
+  inputs: string
+  outputs: string
+  steps: unknown
+  risks: string
+  triggers: unknown
+  guardrails: unknown
+  tests: unknown
+  tags: Array<{ tag: { name: string } }>
+}
+
+export function toSkillDataFromRecord(skill: SkillRecord): SkillData {
+  return {
+    id: skill.id,
+    title: skill.title,
+    slug: skill.slug,
+    summary: skill.summary,
+    inputs: skill.inputs,
+    outputs: skill.outputs,
+    steps: skill.steps as string[],
+    risks: skill.risks,
+    triggers: skill.triggers as string[],
+    guardrails: skill.guardrails as SkillData['guardrails'],
+    tests: skill.tests as SkillData['tests'],
+    tags: skill.tags.map((st) => st.tag.name),
+  }
+}
+
+/**
+ * 合并 skillPatch：guardrails 按字段合并，标题变化时同步 slug
+ */
+export function mergeSkillPatch(skillData: SkillData, patch: ChangeSetSkillPatch): SkillData {
+  const merged: SkillData = {
+    ...skillData,
+    ...patch,
+    guardrails: patch.guardrails
+      ? { ...skillData.guardrails, ...patch.guardrails } as SkillData['guardrails']
+      : skillData.guardrails,
+  }
+  if (patch.title !== undefined) merged.slug = slugify(patch.title) || skillData.slug
+  return merged
+}
+
+export function applyFileOpsToPaths(paths: string[], fileOps: FileOp[]): string[] {
+  const next = new Set(paths)
+  for (const fop of fileOps) {
+    if (fop.op === 'upsert') next.add(fop.path)
+    else if (fop.op === 'delete') next.delete(fop.path)
+  }
+  return [...next].sort()
+}
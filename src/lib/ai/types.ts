@@ -50,6 +50,7 @@ export interface ClaudeRunnerResult {
   rawJson?: unknown
   structuredOutput?: ChangeSet
   usage?: { input_tokens?: number; output_tokens?: number }
+  costUsd?: number
   errors?: string[]
 }
 
@@ -0,0 +1,50 @@
+/**
+ * 个人 API 令牌的请求校验与响应格式（签发与校验见 auth.ts）；前后端共用
+ */
+import { z } from 'zod/v4'
+import { API_TOKEN_SCOPES, isApiTokenScope, type ApiTokenScope } from '@/lib/permissions'
+
+export const API_TOKEN_NOT_READY_MESSAGE =
+  'API tokens are not initialized. Run pnpm db:generate:local and pnpm db:push:local, then restart dev server.'
+
+export const MAX_TOKEN_TTL_DAYS = 365
+
+export const createApiTokenSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  scopes: z
+    .array(z.enum(API_TOKEN_SCOPES))
+    .min(1)
+    .transform((scopes) => [...new Set(scopes)]),
+  /** 缺省或 null 表示永不过期 */
+  expiresInDays: z.number().int().min(1).max(MAX_TOKEN_TTL_DAYS).nullable().optional(),
+})
+
+export function parseApiTokenScopes(raw: unknown): ApiTokenScope[] {
+  return Array.isArray(raw) ? raw.filter(isApiTokenScope) : []
+}
+
+export type ApiTokenRow = {
+  id: number
+  name: string
+  tokenPrefix: string
+  scopes: unknown
+  lastUsedAt: Date | null
+  expiresAt: Date | null
+  revokedAt: Date | null
+  createdAt: Date
+}
+
+export function toApiTokenResponse(row: ApiTokenRow) {
+  return {
+    id: row.id,
+    name: row.name,
+    tokenPrefix: row.tokenPrefix,
+    scopes: parseApiTokenScopes(row.scopes),
+    lastUsedAt: row.lastUsedAt ? row.lastUsedAt.toISOString() : null,
+    expiresAt: row.expiresAt ? row.expiresAt.toISOString() : null,
+    revokedAt: row.revokedAt ? row.revokedAt.toISOString() : null,
+    createdAt: row.createdAt.toISOString(),
+  }
+}
+
+export type ApiTokenItem = ReturnType<typeof toApiTokenResponse>
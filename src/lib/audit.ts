@@ -0,0 +1,310 @@
+/**
+ * 审计日志：写接口在业务写入的同一事务内追加 AuditEvent（操作者、动作、实体、前后摘要、请求 ID），只增不改。
+ * 动作常量、筛选参数与 CSV 生成前后端共用
+ */
+import { z } from 'zod/v4'
+
+export const AUDIT_NOT_READY_MESSAGE =
+  'Audit log is not initialized. Run pnpm db:generate:local and pnpm db:push:local, then restart dev server.'
+
+export const AUDIT_ENTITY_TYPES = ['skill', 'file', 'draft', 'tag', 'template', 'review', 'token', 'session'] as const
+export type AuditEntityType = (typeof AUDIT_ENTITY_TYPES)[number]
+
+export const AUDIT_ENTITY_LABELS: Record<AuditEntityType, string> = {
+  skill: 'Skill',
+  file: '文件',
+  draft: '草稿',
+  tag: '标签',
+  template: '模板',
+  review: '审核',
+  token: 'API 令牌',
+  session: '登录会话',
+}
+
+export const AUDIT_ACTION_LABELS = {
+  'skill.create': '新建 Skill',
+  'skill.import': '导入 Skill',
+  'skill.duplicate': '复制 Skill',
+  'skill.update': '编辑 Skill',
+  'skill.delete': '删除 Skill',
+  'skill.add_tags': '批量添加标签',
+  'skill.maintainers': '调整负责人',
+  'skill.ai_propose': '生成 AI 提案',
+  'skill.ai_apply': '应用 AI 建议',
+  'skill.upstream_merge': '合并上游更新',
+  'skill.upstream_detach': '脱离上游',
+  'skill.publish': '发布',
+  'skill.rollback': '回滚',
+  'skill.channel': '调整渠道',
+  'skill.git_sync': 'Git 同步',
+  'file.create': '新建文件',
+  'file.update': '修改文件',
+  'file.rename': '重命名文件',
+  'file.delete': '删除文件',
+  'draft.create': '新建草稿',
+  'draft.delete': '删除草稿',
+  'tag.create': '新建标签',
+  'tag.rename': '重命名标签',
+  'tag.merge': '合并标签',
+  'tag.delete': '删除标签',
+  'template.create': '新建模板',
+  'template.update': '编辑模板',
+  'template.delete': '删除模板',
+  'review.submit': '提交审核',
+  'review.decide': '审核结论',
+  'token.create': '签发令牌',
+  'token.revoke': '撤销令牌',
+  'auth.login': '登录',
+  'auth.logout': '退出登录',
+} as const
+
+export type AuditAction = keyof typeof AUDIT_ACTION_LABELS
+export const AUDIT_ACTIONS = Object.keys(AUDIT_ACTION_LABELS) as AuditAction[]
+
+/** 由自行开启事务的服务函数在写入后、提交前调用，审计写入失败时整个操作回滚 */
+export type AuditHook<T> = (tx: unknown, value: T) => Promise<void>
+
+/** 前后摘要只放定位与判断变化所需的少量字段，不存正文 */
+export type AuditSummary = Record<string, string | number | boolean | null | string[] | number[]>
+
+export type AuditEventInput = {
+  action: AuditAction
+  entityType: AuditEntityType
+  entityId: string | number
+  entityLabel?: string | null
+  skillId?: number | null
+  before?: AuditSummary | null
+  after?: AuditSummary | null
+}
+
+type AuditEventData = {
+  actor: string
+  action: string
+  entityType: string
+  entityId: string
+  entityLabel: string | null
+  skillId: number | null
+  before?: AuditSummary
+  after?: AuditSummary
+  requestId: string
+}
+
+type AuditWriter = {
+  auditEvent: { createMany: (args: { data: AuditEventData[] }) => Promise<unknown> }
+}
+
+function isPrismaCode(err: unknown, code: string): boolean {
+  return !!err && typeof err === 'object' && 'code' in err && (err as { code?: string }).code === code
+}
+
+export function hasAuditEvents(client: unknown): client is AuditWriter {
+  return !!client && typeof client === 'object' && 'auditEvent' in client
+}
+
+export function isAuditSchemaNotReadyError(err: unknown): boolean {
+  if (isPrismaCode(err, 'P2021') || isPrismaCode(err, 'P2022')) return true
+  const message = err instanceof Error ? err.message : ''
+  return message.includes('audit_events')
+}
+
+export const REQUEST_ID_HEADER = 'x-request-id'
+
+const REQUEST_ID_PATTERN = /^[\w.:-]{1,64}$/
+const requestIds = new WeakMap<Request, string>()
+
+/**
+ * 同一请求内的多条事件共用一个请求 ID；优先沿用网关传入的 X-Request-Id
+ */
+export function resolveRequestId(request: Request): string {
+  const cached = requestIds.get(request)
+  if (cached) return cached
+  const header = (request.headers.get(REQUEST_ID_HEADER) || '').trim()
+  const requestId = REQUEST_ID_PATTERN.test(header) ? header : crypto.randomUUID()
+  requestIds.set(request, requestId)
+  return requestId
+}
+
+/**
+ * 传入业务写入所在事务的 client 调用；表未初始化时跳过，其他写入失败直接抛出，使整个事务回滚
+ */
+export async function recordAuditEvents(
+  client: unknown,
+  request: Request,
+  actor: string,
+  events: AuditEventInput[]
+): Promise<void> {
+  if (events.length === 0 || !hasAuditEvents(client)) return
+  const requestId = resolveRequestId(request)
+  const data = events.map((event) => ({
+    actor,
+    action: event.action,
+    entityType: event.entityType,
+    entityId: String(event.entityId).slice(0, 191),
+    entityLabel: event.entityLabel ? event.entityLabel.slice(0, 255) : null,
+    skillId: event.skillId ?? null,
+    ...(event.before ? { before: event.before } : {}),
+    ...(event.after ? { after: event.after } : {}),
+    requestId,
+  }))
+  try {
+    await client.auditEvent.createMany({ data })
+  } catch (err) {
+    if (isAuditSchemaNotReadyError(err)) return
+    throw err
+  }
+}
+
+export async function recordAuditEvent(
+  client: unknown,
+  request: Request,
+  actor: string,
+  event: AuditEventInput
+): Promise<void> {
+  await recordAuditEvents(client, request, actor, [event])
+}
+
+type SkillSummarySource = {
+  title: string
+  slug: string
+  status: string
+  owner?: string
+  tags?: Array<{ tag: { name: string } }>
+}
+
+export function summarizeSkill(skill: SkillSummarySource): AuditSummary {
+  return {
+    title: skill.title,
+    slug: skill.slug,
+    status: skill.status,
+    ...(skill.owner !== undefined && { owner: skill.owner }),
+    ...(skill.tags && { tags: skill.tags.map((item) => item.tag.name) }),
+  }
+}
+
+export const AUDIT_PAGE_SIZE = 50
+export const AUDIT_EXPORT_LIMIT = 10000
+
+const optionalText = z
+  .string()
+  .trim()
+  .transform((value) => value || undefined)
+  .optional()
+
+const DATE_ONLY_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+const DAY_MS = 24 * 3600 * 1000
+
+/** endOfDay：只填到天的结束时间取次日零点，使筛选包含当天整天 */
+function optionalDate(endOfDay = false) {
+  return z
+    .string()
+    .trim()
+    .optional()
+    .transform((value, ctx) => {
+      if (!value) return undefined
+      const date = new Date(value)
+      if (Number.isNaN(date.getTime())) {
+        ctx.addIssue({ code: 'custom', message: 'Invalid date' })
+        return z.NEVER
+      }
+      return endOfDay && DATE_ONLY_PATTERN.test(value) ? new Date(date.getTime() + DAY_MS) : date
+    })
+}
+
+export const auditQuerySchema = z.object({
+  actor: optionalText,
+  action: z.enum(AUDIT_ACTIONS as [AuditAction, ...AuditAction[]]).optional(),
+  entityType: z.enum(AUDIT_ENTITY_TYPES).optional(),
+  entityId: optionalText,
+  skillId: z.coerce.number().int().positive().optional(),
+  requestId: optionalText,
+  from: optionalDate(),
+  to: optionalDate(true),
+  page: z.coerce.number().int().positive().default(1),
+})
+
+export type AuditQuery = z.infer<typeof auditQuerySchema>
+
+/** 空字符串视为未填写，便于直接传入页面表单生成的查询串 */
+export function parseAuditQuery(searchParams: URLSearchParams) {
+  const raw: Record<string, string> = {}
+  for (const [key, value] of searchParams) {
+    if (value.trim()) raw[key] = value
+  }
+  return auditQuerySchema.safeParse(raw)
+}
+
+export function buildAuditWhere(query: AuditQuery) {
+  const { from, to } = query
+  return {
+    ...(query.actor && { actor: query.actor }),
+    ...(query.action && { action: query.action }),
+    ...(query.entityType && { entityType: query.entityType }),
+    ...(query.entityId && { entityId: query.entityId }),
+    ...(query.skillId && { skillId: query.skillId }),
+    ...(query.requestId && { requestId: query.requestId }),
+    ...((from || to) && {
+      createdAt: { ...(from && { gte: from }), ...(to && { lt: to }) },
+    }),
+  }
+}
+
+export type AuditEventRow = {
+  id: number
+  actor: string
+  action: string
+  entityType: string
+  entityId: string
+  entityLabel: string | null
+  skillId: number | null
+  before: unknown
+  after: unknown
+  requestId: string
+  createdAt: Date
+}
+
+export function toAuditEventResponse(row: AuditEventRow) {
+  return {
+    id: row.id,
+    actor: row.actor,
+    action: row.action,
+    entityType: row.entityType,
+    entityId: row.entityId,
+    entityLabel: row.entityLabel,
+    skillId: row.skillId,
+    before: (row.before ?? null) as AuditSummary | null,
+    after: (row.after ?? null) as AuditSummary | null,
+    requestId: row.requestId,
+    createdAt: row.createdAt.toISOString(),
+  }
+}
+
+export type AuditEventItem = ReturnType<typeof toAuditEventResponse>
+
+const CSV_COLUMNS = [
+  'createdAt',
+  'actor',
+  'action',
+  'entityType',
+  'entityId',
+  'entityLabel',
+  'skillId',
+  'before',
+  'after',
+  'requestId',
+] as const
+
+function csvCell(value: unknown): string {
+  if (value === null || value === undefined) return ''
+  const text = typeof value === 'string' ? value : typeof value === 'number' ? String(value) : JSON.stringify(value)
+  // 防止表格软件把 = + - @ 开头的内容当公式执行
+  const safe = /^[=+\-@]/.test(text) ? `'${text}` : text
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe
+}
+
+export function toAuditCsv(items: AuditEventItem[]): string {
+  const lines = [CSV_COLUMNS.join(',')]
+  for (const item of items) {
+    lines.push(CSV_COLUMNS.map((column) => csvCell(item[column])).join(','))
+  }
+  return `${lines.join('\r\n')}\r\n`
+}
@@ -0,0 +1,69 @@
+'use client'
+
+import { createContext, useCallback, useContext, useEffect, useState } from 'react'
+import type { AuthUser } from '@/lib/auth'
+import { can as canRole, type Permission, type SkillAccess, type UserRole } from '@/lib/permissions'
+
+interface AuthContextValue {
+  user: AuthUser | null
+  /** 当前有效角色；必须登录而未登录时为 null */
+  role: UserRole | null
+  /** 服务端要求写操作必须登录（AUTH_MODE=local_only / mixed） */
+  loginRequired: boolean
+  loading: boolean
+  /** 用于隐藏无权执行的操作，最终以服务端校验为准 */
+  can: (permission: Permission, skill?: SkillAccess) => boolean
+  refresh: () => Promise<void>
+  logout: () => Promise<void>
+}
+
+const AuthContext = createContext<AuthContextValue | undefined>(undefined)
+
+export function AuthProvider({ children }: { children: React.ReactNode }) {
+  const [user, setUser] = useState<AuthUser | null>(null)
+  const [role, setRole] = useState<UserRole | null>(null)
+  const [loginRequired, setLoginRequired] = useState(false)
+  const [loading, setLoading] = useState(true)
+
+  const refresh = useCallback(async () => {
+    try {
+      const res = await fetch('/api/auth/me', { cache: 'no-store' })
+      const data = await res.json().catch(() => ({}))
+      setUser(res.ok && data.user ? data.user : null)
+      setRole(res.ok && data.role ? data.role : null)
+      setLoginRequired(!!data.loginRequired)
+    } catch {
+      setUser(null)
+      setRole(null)
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  const logout = useCallback(async () => {
+    await fetch('/api/auth/logout', { method: 'POST' }).catch(() => undefined)
+    await refresh()
+  }, [refresh])
+
+  const can = useCallback(
+    (permission: Permission, skill?: SkillAccess) =>
+      !!role && canRole({ actor: user?.username ?? '', role }, permission, skill),
+    [role, user]
+  )
+
+  useEffect(() => {
+    void refresh()
+  }, [refresh])
+
+  return (
+    <AuthContext.Provider value={{ user, role, loginRequired, loading, can, refresh, logout }}>
+      {children}
+    </AuthContext.Provider>
+  )
+}
+
+export function useAuth() {
+  const ctx = useContext(AuthContext)
+  if (!ctx) throw new Error('useAuth must be used within AuthProvider')
+  return ctx
+}
@@ -0,0 +1,350 @@
+import { createHash, randomBytes, scrypt, timingSafeEqual } from 'crypto'
+import { parseApiTokenScopes } from './api-tokens'
+import {
+  hasScope,
+  normalizeUserRole,
+  PERMISSION_DENIED_MESSAGE,
+  type ApiTokenScope,
+  type UserRole,
+} from './permissions'
+
+/**
+ * 本地账号认证：scrypt 密码哈希 + 服务端会话（Cookie 只放随机 token，库里存 sha256）。
+ * AUTH_MODE=local_only / mixed 时所有接口都必须登录；未配置时匿名只读，写操作仍需登录。
+ * 脚本与 CI 可用个人 API 令牌（Authorization: Bearer qsv_pat_...）代替会话，能力受令牌 scopes 限制
+ */
+
+export const SYSTEM_ACTOR = 'SYS'
+
+/** 系统操作者名保留，不区分大小写（MySQL 默认排序规则下 sys 与 SYS 相等） */
+export function isReservedUsername(username: string): boolean {
+  return username.toUpperCase() === SYSTEM_ACTOR
+}
+
+export const AUTH_NOT_READY_MESSAGE =
+  'User accounts are not initialized. Run pnpm db:generate:local and pnpm db:push:local, then restart dev server.'
+
+const DEFAULT_COOKIE_NAME = 'qsv_session'
+const DEFAULT_TTL_HOURS = 12
+const SCRYPT_KEYLEN = 64
+
+export const API_TOKEN_PREFIX = 'qsv_pat_'
+// lastUsedAt 至多每分钟写一次，避免每个请求都写库
+const TOKEN_TOUCH_INTERVAL_MS = 60 * 1000
+
+export type AuthUser = {
+  id: number
+  username: string
+  displayName: string
+  role: UserRole
+}
+
+type UserRow = Omit<AuthUser, 'role'> & {
+  role: string
+  email: string | null
+  passwordHash: string | null
+  status: string
+}
+
+type SessionRow = {
+  id: number
+  userId: number
+  expiresAt: Date
+  revokedAt: Date | null
+  user: UserRow
+}
+
+export type AuthClient = {
+  user: {
+    findUnique: (args: { where: { username: string } }) => Promise<UserRow | null>
+    update: (args: { where: { id: number }; data: { lastLoginAt: Date } }) => Promise<unknown>
+    findMany: (args: {
+      where: { username: { in: string[] } }
+      select: { username: true; displayName: true }
+    }) => Promise<Array<{ username: string; displayName: string }>>
+  }
+  userSession: {
+    create: (args: {
+      data: { userId: number; tokenHash: string; expiresAt: Date; userAgent: string | null }
+    }) => Promise<{ id: number }>
+    findUnique: (args: { where: { tokenHash: string }; include: { user: true } }) => Promise<SessionRow | null>
+    updateMany: (args: { where: { tokenHash: string; revokedAt: null }; data: { revokedAt: Date } }) => Promise<unknown>
+  }
+}
+
+export function hasUserAuth(client: unknown): client is AuthClient {
+  return !!client && typeof client === 'object' && 'user' in client && 'userSession' in client
+}
+
+type ApiTokenRow = {
+  id: number
+  scopes: unknown
+  expiresAt: Date | null
+  revokedAt: Date | null
+  lastUsedAt: Date | null
+  user: UserRow
+}
+
+export type ApiTokenClient = {
+  apiToken: {
+    findUnique: (args: { where: { tokenHash: string }; include: { user: true } }) => Promise<ApiTokenRow | null>
+    update: (args: { where: { id: number }; data: { lastUsedAt: Date } }) => Promise<unknown>
+  }
+}
+
+export function hasApiTokens(client: unknown): client is ApiTokenClient {
+  return !!client && typeof client === 'object' && 'apiToken' in client
+}
+
+function isPrismaCode(err: unknown, code: string): boolean {
+  return !!err && typeof err === 'object' && 'code' in err && (err as { code?: string }).code === code
+}
+
+export function isAuthSchemaNotReadyError(err: unknown): boolean {
+  if (isPrismaCode(err, 'P2021') || isPrismaCode(err, 'P2022')) return true
+  const message = err instanceof Error ? err.message : ''
+  return message.includes('user_sessions') || message.includes('`users`') || message.includes('api_tokens')
+}
+
+export function isLoginRequired(): boolean {
+  const mode = (process.env.AUTH_MODE || '').trim()
+  return mode === 'local_only' || mode === 'mixed'
+}
+
+export function sessionCookieName(): string {
+  return process.env.SESSION_COOKIE_NAME?.trim() || DEFAULT_COOKIE_NAME
+}
+
+export function sessionTtlMs(): number {
+  const hours = Number(process.env.SESSION_TTL_HOURS)
+  return (Number.isFinite(hours) && hours > 0 ? hours : DEFAULT_TTL_HOURS) * 3600 * 1000
+}
+
+export function hashSessionToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex')
+}
+
+function deriveKey(password: string, salt: Buffer): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    scrypt(password.normalize('NFKC'), salt, SCRYPT_KEYLEN, (err, key) => (err ? reject(err) : resolve(key)))
+  })
+}
+
+/**
+ * 存储格式：scrypt$<salt base64>$<hash base64>
+ */
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16)
+  const key = await deriveKey(password, salt)
+  return `scrypt$${salt.toString('base64')}$${key.toString('base64')}`
+}
+
+// 账号不存在或哈希无效时也跑一次 scrypt，避免响应耗时暴露账号是否存在
+const DUMMY_SALT = randomBytes(16)
+
+export async function verifyPassword(password: string, stored: string | null): Promise<boolean> {
+  const [scheme, salt, hash] = (stored || '').split('$')
+  if (scheme !== 'scrypt' || !salt || !hash) {
+    await deriveKey(password, DUMMY_SALT)
+    return false
+  }
+  const expected = Buffer.from(hash, 'base64')
+  const key = await deriveKey(password, Buffer.from(salt, 'base64'))
+  return key.length === expected.length && timingSafeEqual(key, expected)
+}
+
+/**
+ * 从请求头解析会话 token；不依赖 NextRequest.cookies，普通 Request 也可用
+ */
+export function readSessionToken(request: Request): string | null {
+  const header = request.headers.get('cookie')
+  if (!header) return null
+  const name = sessionCookieName()
+  for (const part of header.split(';')) {
+    const index = part.indexOf('=')
+    if (index < 0 || part.slice(0, index).trim() !== name) continue
+    // 无法解码的 Cookie 视为未登录
+    try {
+      return decodeURIComponent(part.slice(index + 1).trim()) || null
+    } catch {
+      return null
+    }
+  }
+  return null
+}
+
+/**
+ * Authorization: Bearer <token>；只识别个人 API 令牌（qsv_pat_ 前缀），其他 Bearer 口令交给各自的接口处理
+ */
+export function readApiToken(request: Request): string | null {
+  const match = /^Bearer\s+(\S+)$/i.exec((request.headers.get('authorization') || '').trim())
+  if (!match || !match[1].startsWith(API_TOKEN_PREFIX)) return null
+  return match[1]
+}
+
+export function generateApiToken(): { token: string; tokenHash: string; tokenPrefix: string } {
+  const token = `${API_TOKEN_PREFIX}${randomBytes(32).toString('base64url')}`
+  return { token, tokenHash: hashSessionToken(token), tokenPrefix: token.slice(0, API_TOKEN_PREFIX.length + 6) }
+}
+
+function toAuthUser(user: UserRow): AuthUser {
+  return { id: user.id, username: user.username, displayName: user.displayName, role: normalizeUserRole(user.role) }
+}
+
+export type LoginResult =
+  | { ok: true; user: AuthUser; token: string; expiresAt: Date; sessionId: number }
+  | { ok: false; error: string }
+
+/**
+ * 校验用户名密码并签发会话；用户不存在、已停用与密码错误返回同一错误，避免枚举账号
+ */
+export async function loginWithPassword(
+  client: AuthClient,
+  input: { username: string; password: string; userAgent?: string | null }
+): Promise<LoginResult> {
+  const user = await client.user.findUnique({ where: { username: input.username } })
+  const valid = await verifyPassword(input.password, user?.passwordHash ?? null)
+  if (!user || !valid || user.status !== 'active' || isReservedUsername(user.username)) {
+    return { ok: false, error: 'Invalid username or password' }
+  }
+
+  const token = randomBytes(32).toString('base64url')
+  const now = new Date()
+  const expiresAt = new Date(now.getTime() + sessionTtlMs())
+  const session = await client.userSession.create({
+    data: {
+      userId: user.id,
+      tokenHash: hashSessionToken(token),
+      expiresAt,
+      userAgent: input.userAgent ? input.userAgent.slice(0, 255) : null,
+    },
+  })
+  await client.user.update({ where: { id: user.id }, data: { lastLoginAt: now } })
+  return { ok: true, user: toAuthUser(user), token, expiresAt, sessionId: session.id }
+}
+
+/**
+ * 撤销会话；返回被撤销的会话与所属用户，会话不存在或早已撤销时返回 null
+ */
+export async function revokeSession(
+  client: AuthClient,
+  token: string
+): Promise<{ sessionId: number; username: string } | null> {
+  const tokenHash = hashSessionToken(token)
+  const session = await client.userSession.findUnique({ where: { tokenHash }, include: { user: true } })
+  if (!session || session.revokedAt) return null
+  await client.userSession.updateMany({
+    where: { tokenHash, revokedAt: null },
+    data: { revokedAt: new Date() },
+  })
+  return { sessionId: session.id, username: session.user.username }
+}
+
+/**
+ * 当前请求的登录用户；会话过期、已撤销、用户停用或用户表未初始化时返回 null
+ */
+export async function resolveSessionUser(client: unknown, request: Request): Promise<AuthUser | null> {
+  const token = readSessionToken(request)
+  if (!token || !hasUserAuth(client)) return null
+  try {
+    const session = await client.userSession.findUnique({
+      where: { tokenHash: hashSessionToken(token) },
+      include: { user: true },
+    })
+    if (!session || session.revokedAt || session.expiresAt.getTime() <= Date.now()) return null
+    if (session.user.status !== 'active') return null
+    return toAuthUser(session.user)
+  } catch (err) {
+    if (isAuthSchemaNotReadyError(err)) return null
+    throw err
+  }
+}
+
+/**
+ * 令牌有效时返回所属用户与 scopes；已撤销、已过期、用户停用或表未初始化时返回 null
+ */
+export async function resolveApiToken(
+  client: unknown,
+  token: string
+): Promise<{ user: AuthUser; scopes: ApiTokenScope[] } | null> {
+  if (!hasApiTokens(client)) return null
+  try {
+    const row = await client.apiToken.findUnique({ where: { tokenHash: hashSessionToken(token) }, include: { user: true } })
+    const now = new Date()
+    if (!row || row.revokedAt || (row.expiresAt && row.expiresAt.getTime() <= now.getTime())) return null
+    if (row.user.status !== 'active') return null
+    if (!row.lastUsedAt || now.getTime() - row.lastUsedAt.getTime() >= TOKEN_TOUCH_INTERVAL_MS) {
+      await client.apiToken.update({ where: { id: row.id }, data: { lastUsedAt: now } })
+    }
+    return { user: toAuthUser(row.user), scopes: parseApiTokenScopes(row.scopes) }
+  } catch (err) {
+    if (isAuthSchemaNotReadyError(err)) return null
+    throw err
+  }
+}
+
+export type ActorResult =
+  | { ok: true; actor: string; role: UserRole; user: AuthUser | null; scopes?: ApiTokenScope[] }
+  | { ok: false; status: 401; error: string }
+
+/**
+ * 写接口统一入口：返回写入 createdBy / updatedBy 的操作者（username，匿名为 SYS）及其角色，
+ * 结果可直接作为 authorize / authorizeSkill 的 principal。未启用登录时匿名请求按 viewer 处理（只读）；
+ * 带了 API 令牌则必须有效（即使未启用登录），令牌请求额外带上 scopes
+ */
+export async function requireActor(client: unknown, request: Request): Promise<ActorResult> {
+  const apiToken = readApiToken(request)
+  if (apiToken) {
+    const resolved = await resolveApiToken(client, apiToken)
+    if (!resolved) return { ok: false, status: 401, error: 'Invalid API token' }
+    return { ok: true, actor: resolved.user.username, role: resolved.user.role, user: resolved.user, scopes: resolved.scopes }
+  }
+
+  const user = await resolveSessionUser(client, request)
+  if (user) return { ok: true, actor: user.username, role: user.role, user }
+  if (isLoginRequired()) return { ok: false, status: 401, error: 'Authentication required' }
+  return { ok: true, actor: SYSTEM_ACTOR, role: 'viewer', user: null }
+}
+
+export type ReaderResult = ActorResult | { ok: false; status: 403; error: string }
+
+/**
+ * 读接口统一入口：启用登录时需要会话或带 skills:read 的 API 令牌；未启用登录时匿名可读
+ */
+export async function requireReader(client: unknown, request: Request): Promise<ReaderResult> {
+  const auth = await requireActor(client, request)
+  if (auth.ok && !hasScope(auth, 'skills:read')) return { ok: false, status: 403, error: PERMISSION_DENIED_MESSAGE }
+  return auth
+}
+
+export type SessionUserResult = { ok: true; user: AuthUser } | { ok: false; status: 401 | 403; error: string }
+
+/**
+ * 账号自身的管理操作（如签发令牌）只接受登录会话，不接受匿名或 API 令牌
+ */
+export async function requireSessionUser(client: unknown, request: Request): Promise<SessionUserResult> {
+  const auth = await requireActor(client, request)
+  if (!auth.ok) return auth
+  if (auth.scopes) return { ok: false, status: 403, error: 'API tokens cannot manage tokens' }
+  if (!auth.user) return { ok: false, status: 401, error: 'Authentication required' }
+  return { ok: true, user: auth.user }
+}
+
+/**
+ * createdBy 存的是 username，展示时换成显示名；SYS 与已删除的账号原样返回
+ */
+export async function loadActorNames(client: unknown, actors: string[]): Promise<Map<string, string>> {
+  const names = new Map<string, string>()
+  const usernames = [...new Set(actors.filter((actor) => actor && actor !== SYSTEM_ACTOR))]
+  if (usernames.length === 0 || !hasUserAuth(client)) return names
+  try {
+    const users = await client.user.findMany({
+      where: { username: { in: usernames } },
+      select: { username: true, displayName: true },
+    })
+    for (const user of users) names.set(user.username, user.displayName)
+  } catch (err) {
+    if (!isAuthSchemaNotReadyError(err)) throw err
+  }
+  return names
+}
@@ -16,8 +16,8 @@ export class AnthropicChatProvider implements ChatProviderAdapter {
     const stream = await this.client.messages.stream({
       model: MODEL,
       max_tokens: 4096,
-      system: SYSTEM_PROMPT,
-      tools: [UPDATE_SKILL_DRAFT_TOOL, CREATE_SKILL_TOOL],
+      system: req.system ?? SYSTEM_PROMPT,
+      ...(req.system ? {} : { tools: [UPDATE_SKILL_DRAFT_TOOL, CREATE_SKILL_TOOL] }),
       messages: req.messages as Anthropic.MessageParam[],
     })
 
@@ -2,11 +2,16 @@ import { AnthropicChatProvider } from './anthropic'
 import { MockChatProvider } from './mock'
 import type { ChatProviderAdapter } from './types'
 
-export function resolveChatProvider(): ChatProviderAdapter {
+export type ChatProviderName = 'anthropic' | 'mock'
+
+export function resolveChatProviderName(requested?: ChatProviderName): ChatProviderName {
   const configured = process.env.CHAT_PROVIDER
-  const mode = configured || (process.env.NODE_ENV === 'test' ? 'mock' : 'anthropic')
+  const mode = requested || configured || (process.env.NODE_ENV === 'test' ? 'mock' : 'anthropic')
+  return mode === 'mock' ? 'mock' : 'anthropic'
+}
 
-  if (mode === 'mock') return new MockChatProvider()
+export function resolveChatProvider(requested?: ChatProviderName): ChatProviderAdapter {
+  if (resolveChatProviderName(requested) === 'mock') return new MockChatProvider()
 
   const apiKey = process.env.ANTHROPIC_API_KEY
   if (!apiKey) {
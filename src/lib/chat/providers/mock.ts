@@ -51,6 +51,14 @@ export class MockChatProvider implements ChatProviderAdapter {
     }
 
     const latestText = pickLatestUserText(req.messages)
+
+    // 纯文本补全（如 Skill 测试运行）：确定性地回显输入
+    if (req.system) {
+      yield { type: 'text_delta', text: `[mock] ${latestText}` }
+      yield { type: 'done' }
+      return
+    }
+
     const draft = buildDraftSeed(latestText)
 
     yield {
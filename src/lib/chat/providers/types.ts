@@ -1,5 +1,7 @@
 export interface ChatProviderRequest {
   messages: unknown[]
+  // 传入 system 时视为纯文本补全：替换默认的建卡 system prompt，且不挂载工具
+  system?: string
 }
 
 export type ToolUseEvent = {
@@ -12,6 +12,7 @@ const FIELD_LABELS: Record<string, string> = {
   title: '标题',
   summary: '摘要',
   triggers: '触发词',
+  'triggers.collision': '触发词冲突',
   steps: '步骤',
   tests: '测试',
   description: '描述',
@@ -91,6 +92,20 @@ function mapLintError(error: LintError): FriendlyValidationIssue {
     }
   }
 
+  if (error.field === 'triggers.collision') {
+    const match = raw.match(/^trigger "(.*)" (duplicates|is similar to) "(.*)" in skill "(.*)"(?: \(similarity ([\d.]+)\))?$/)
+    return {
+      field: error.field,
+      fieldLabel,
+      message: match
+        ? match[2] === 'duplicates'
+          ? `触发词“${match[1]}”与 Skill ${match[4]} 的“${match[3]}”重复。`
+          : `触发词“${match[1]}”与 Skill ${match[4]} 的“${match[3]}”高度相似（${Math.round(Number(match[5]) * 100)}%）。`
+        : raw,
+      suggestion: '调整措辞让两个 Skill 的触发场景可区分，否则 Claude 可能选错 Skill。',
+    }
+  }
+
   if (error.field === 'steps') {
     const count = parseGotCount(raw)
     return {
@@ -204,13 +219,52 @@ export function toUserFriendlyErrorMessage(raw: unknown): string {
   if (message === 'Slug already exists' || message.startsWith('Slug already exists')) {
     return '已存在同名 Skill，请修改标题后重试。'
   }
+  if (message === 'Authentication required') {
+    return '登录已失效或尚未登录，请先登录后再操作。'
+  }
+  if (message === 'Permission denied') {
+    return '你没有执行此操作的权限，请联系 Skill 负责人或管理员。'
+  }
+  if (message === 'Review approval required') {
+    return '最新版本尚未通过审核，请先提交审核并等待审核人通过。'
+  }
+  if (message === 'Review already pending') {
+    return '最新版本已在审核中。'
+  }
+  if (message === 'Version already approved') {
+    return '最新版本已通过审核，可直接发布。'
+  }
+  if (message === 'Review is not pending') {
+    return '该提交已结束审核（已通过、要求修改或被新提交替代）。'
+  }
+  if (message === 'Cannot review your own submission') {
+    return '不能审核自己提交的版本。'
+  }
+  if (message === 'Already reviewed') {
+    return '你已对该提交给出过审核意见。'
+  }
+  if (message === 'Invalid API token') {
+    return 'API 令牌无效、已撤销或已过期。'
+  }
+  if (message === 'API tokens cannot manage tokens') {
+    return '令牌只能在登录后的页面中管理，不能用 API 令牌创建或撤销。'
+  }
+  if (message === 'Token not found') {
+    return '令牌不存在或已被删除。'
+  }
+  if (message.startsWith('Unknown users: ')) {
+    return `用户不存在：${message.slice('Unknown users: '.length)}`
+  }
+  if (message === 'Invalid username or password') {
+    return '用户名或密码错误。'
+  }
   if (message === 'Lint check failed') {
     return '校验请求失败，请稍后重试。'
   }
   if (message === 'Invalid changeSet') {
     return 'AI 生成的变更格式不正确，请重新生成建议。'
   }
-  if (message === 'Claude CLI failed') {
+  if (message === 'AI provider failed' || message === 'Claude CLI failed') {
     return 'AI 服务调用失败，请稍后重试。'
   }
   if (message.startsWith('Prompt exceeds')) {
@@ -255,6 +309,54 @@ export function toUserFriendlyErrorMessage(raw: unknown): string {
   if (message.startsWith('Versioning is not initialized.')) {
     return '版本功能尚未初始化，请执行数据库同步后重启服务。'
   }
+  if (message === 'Publication not found') {
+    return '该发布记录不存在，可能已被删除。'
+  }
+  if (message === 'Snapshot file content missing') {
+    return '该版本的文件内容缺失，暂时无法导出。'
+  }
+  if (message.startsWith('Git sync is not configured.')) {
+    return '未配置 Git 同步，请设置 GIT_SYNC_REPO 后重启服务。'
+  }
+  if (message.startsWith('Not a git repository:')) {
+    return 'GIT_SYNC_REPO 指向的目录不是 git 仓库，请检查配置。'
+  }
+  if (message.startsWith('git merge exited')) {
+    return '目标仓库工作区有未提交的冲突改动，无法快进同步，请先处理后重试。'
+  }
+  if (message === 'Use only one of channel, version, publication or working') {
+    return '导出时只能指定渠道、版本、发布记录或工作副本中的一个。'
+  }
+  if (message === 'Invalid channel name') {
+    return '渠道名只能包含小写字母、数字、"."、"_" 和 "-"，且不超过 40 个字符。'
+  }
+  if (message === 'Channel not found' || message === 'Source channel not found') {
+    return '该发布渠道不存在，请刷新后重试。'
+  }
+  if (message === 'Source and target channel are the same') {
+    return '源渠道与目标渠道相同，无需推广。'
+  }
+  if (message.startsWith('Release channels are not initialized.')) {
+    return '发布渠道尚未初始化，请执行数据库同步后重启服务。'
+  }
+  if (message === 'Skill is not source-managed') {
+    return '该 Skill 不是上游托管的 Skill，可能已脱离上游，请刷新后重试。'
+  }
+  if (message === 'Pending upstream change not found') {
+    return '待合并的上游变更不存在或已被更新的同步取代，请刷新后重试。'
+  }
+  if (message === 'Unresolved merge conflicts') {
+    return '还有冲突项未选择保留本地或采用上游，请逐项选择后再应用合并。'
+  }
+  if (message === 'Upstream snapshot is invalid') {
+    return '上游快照格式不正确，请重新运行同步脚本。'
+  }
+  if (message.startsWith('Upstream sync tracking is not initialized.')) {
+    return '上游同步记录尚未初始化，请执行数据库同步后重启服务。'
+  }
+  if (message.startsWith('Audit log is not initialized.')) {
+    return '审计日志尚未初始化，请执行数据库迁移后重启服务。'
+  }
   if (message === 'Tag not found') {
     return '标签不存在，可能已被删除。'
   }
@@ -0,0 +1,187 @@
+/**
+ * 出站 Git 同步：把 Skill 写入本地 git 仓库（bare 或工作仓库）的 <slug>/ 目录并提交
+ * - 使用临时 index + commit-tree 构造提交，不触碰仓库自身的 index
+ * - 工作仓库且目标分支已检出时以 fast-forward 合并，工作区随之更新；否则直接更新分支引用
+ * - 与 claudeRunner 一样使用 spawn(shell:false)，参数不经过 shell
+ */
+import { spawn } from 'child_process'
+import { randomUUID } from 'crypto'
+import { rm } from 'fs/promises'
+import { tmpdir } from 'os'
+import path from 'path'
+
+export const GIT_SYNC_NOT_CONFIGURED_MESSAGE = 'Git sync is not configured. Set GIT_SYNC_REPO to a local git repository path.'
+
+const GIT_TIMEOUT_MS = 30000
+const EMPTY_TREE_SHA = '4b825dc642cb6eb9a060e54bf8d69288fbee4904'
+
+export type GitSyncConfig = {
+  repoPath: string
+  branch: string
+  authorName: string
+  authorEmail: string
+}
+
+export type GitSyncFile = {
+  path: string
+  content: Buffer
+}
+
+export type GitSyncResult = {
+  commitSha: string
+  // 内容与分支当前版本一致时不产生新提交
+  changed: boolean
+}
+
+export function resolveGitSyncConfig(env: Record<string, string | undefined> = process.env): GitSyncConfig | null {
+  const repoPath = env.GIT_SYNC_REPO?.trim()
+  if (!repoPath) return null
+  return {
+    repoPath: path.resolve(repoPath),
+    branch: env.GIT_SYNC_BRANCH?.trim() || 'main',
+    authorName: env.GIT_SYNC_AUTHOR_NAME?.trim() || 'Skill Vault',
+    authorEmail: env.GIT_SYNC_AUTHOR_EMAIL?.trim() || 'skill-vault@localhost',
+  }
+}
+
+function runGit(
+  args: string[],
+  options: { cwd: string; env?: Record<string, string>; input?: Buffer | string }
+): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const child = spawn('git', args, {
+      shell: false,
+      timeout: GIT_TIMEOUT_MS,
+      cwd: options.cwd,
+      env: { ...process.env, ...options.env },
+    })
+
+    const stdout: Buffer[] = []
+    let stderr = ''
+    child.stdout.on('data', (data: Buffer) => stdout.push(data))
+    child.stderr.on('data', (data: Buffer) => {
+      stderr += data.toString()
+    })
+    child.on('error', (err) => reject(new Error(`Failed to spawn git: ${err.message}`)))
+    child.on('close', (code) => {
+      if (code !== 0) {
+        reject(new Error(`git ${args[0]} exited with code ${code}: ${stderr.trim()}`))
+        return
+      }
+      resolve(Buffer.concat(stdout).toString('utf-8').trim())
+    })
+
+    // git 提前退出时写 stdin 会 EPIPE，结果以退出码为准
+    child.stdin.on('error', () => undefined)
+    if (options.input !== undefined) child.stdin.end(options.input)
+    else child.stdin.end()
+  })
+}
+
+// 控制字符（换行、制表符等）会破坏 update-index 的逐行输入，直接拒绝
+const CONTROL_CHARACTER_PATTERN = /[\u0000-\u001f\u007f]/
+
+function assertSafeRelativePath(value: string) {
+  const segments = value.split('/')
+  if (
+    CONTROL_CHARACTER_PATTERN.test(value) ||
+    path.isAbsolute(value) ||
+    segments.some((segment) => !segment || segment === '.' || segment === '..')
+  ) {
+    throw new Error(`Unsafe path for git sync: ${value}`)
+  }
+}
+
+// 同一仓库的同步串行执行，避免并发提交互相覆盖分支引用
+const repoQueues = new Map<string, Promise<unknown>>()
+
+function withRepoLock<T>(repoPath: string, task: () => Promise<T>): Promise<T> {
+  const previous = repoQueues.get(repoPath) || Promise.resolve()
+  const next = previous.catch(() => undefined).then(task)
+  repoQueues.set(repoPath, next)
+  return next.finally(() => {
+    if (repoQueues.get(repoPath) === next) repoQueues.delete(repoPath)
+  })
+}
+
+/**
+ * 以 files 整体替换仓库中 <slug>/ 目录并提交到配置的分支
+ */
+export function commitSkillToGit(
+  config: GitSyncConfig,
+  input: { slug: string; files: GitSyncFile[]; message: string }
+): Promise<GitSyncResult> {
+  if (!/^[a-z0-9][a-z0-9-]*$/.test(input.slug)) {
+    throw new Error(`Invalid slug for git sync: ${input.slug}`)
+  }
+  for (const file of input.files) assertSafeRelativePath(file.path)
+
+  return withRepoLock(config.repoPath, async () => {
+    const cwd = config.repoPath
+    const isBare = await runGit(['rev-parse', '--is-bare-repository'], { cwd }).catch(() => {
+      throw new Error(`Not a git repository: ${config.repoPath}`)
+    })
+    const ref = `refs/heads/${config.branch}`
+    const parent = await runGit(['rev-parse', '-q', '--verify', `${ref}^{commit}`], { cwd }).catch(() => '')
+
+    const indexFile = path.join(tmpdir(), `skill-vault-git-sync-${randomUUID()}.idx`)
+    const env = { GIT_INDEX_FILE: indexFile }
+    try {
+      if (parent) await runGit(['read-tree', parent], { cwd, env })
+
+      // 路径一律以 NUL 分隔（-z），非 ASCII 文件名不会被 git 加引号转义
+      const existing = await runGit(['ls-tree', '-r', '-z', '--name-only', parent || EMPTY_TREE_SHA, '--', input.slug], {
+        cwd,
+      })
+      const removals = existing
+        .split('\0')
+        .filter(Boolean)
+        .map((item) => `0 ${'0'.repeat(40)}\t${item}\0`)
+        .join('')
+      if (removals) await runGit(['update-index', '-z', '--index-info'], { cwd, env, input: removals })
+
+      const additions: string[] = []
+      for (const file of input.files) {
+        const blob = await runGit(['hash-object', '-w', '--stdin'], { cwd, input: file.content })
+        additions.push(`100644 ${blob}\t${input.slug}/${file.path}\0`)
+      }
+      if (additions.length > 0) {
+        await runGit(['update-index', '-z', '--add', '--index-info'], { cwd, env, input: additions.join('') })
+      }
+
+      const tree = await runGit(['write-tree'], { cwd, env })
+      if (parent) {
+        const parentTree = await runGit(['rev-parse', `${parent}^{tree}`], { cwd })
+        if (parentTree === tree) return { commitSha: parent, changed: false }
+      }
+
+      const commitSha = await runGit(
+        ['commit-tree', tree, ...(parent ? ['-p', parent] : []), '-F', '-'],
+        {
+          cwd,
+          input: input.message,
+          env: {
+            GIT_AUTHOR_NAME: config.authorName,
+            GIT_AUTHOR_EMAIL: config.authorEmail,
+            GIT_COMMITTER_NAME: config.authorName,
+            GIT_COMMITTER_EMAIL: config.authorEmail,
+          },
+        }
+      )
+
+      const checkedOut = isBare === 'false'
+        ? await runGit(['symbolic-ref', '-q', '--short', 'HEAD'], { cwd }).catch(() => '')
+        : ''
+      if (checkedOut === config.branch) {
+        // 工作区有冲突的本地修改时 fast-forward 会失败，不会覆盖用户改动
+        await runGit(['merge', '-q', '--ff-only', commitSha], { cwd })
+      } else {
+        await runGit(['update-ref', ref, commitSha, parent || '0'.repeat(40)], { cwd })
+      }
+
+      return { commitSha, changed: true }
+    } finally {
+      await rm(indexFile, { force: true })
+    }
+  })
+}
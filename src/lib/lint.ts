@@ -5,6 +5,7 @@
 import type { SkillData, LintResult, LintError } from './types'
 import { buildDescription, renderSkillMarkdown, extractRelativeLinks } from './markdown'
 import { validateSkillFilePath } from './skill-files'
+import { DEFAULT_COLLISION_THRESHOLD, findSkillTriggerCollisions, type TriggerSource } from './trigger-collisions'
 
 const SLUG_REGEX = /^[a-z0-9-]{1,64}$/
 const VALID_ESCALATIONS = ['REVIEW', 'BLOCK', 'ASK_HUMAN']
@@ -82,8 +83,9 @@ export function lintSkill(skill: SkillData): LintResult {
  * 1) 先调用 lintSkill 校验基础字段
  * 2) 校验每个 file path 合法性
  * 3) 渲染 SKILL.md 并检查所有相对链接都有对应文件
+ * 4) 传入 vaultSkills 时检查与库中其他 Skill 的触发词冲突，结果作为 warnings 返回
  */
-export function lintSkillPackage(skill: SkillData, filePaths: string[]): LintResult {
+export function lintSkillPackage(skill: SkillData, filePaths: string[], options: LintPackageOptions = {}): LintResult {
   const errors: LintError[] = []
 
   // 基础 lint
@@ -107,5 +109,38 @@ export function lintSkillPackage(skill: SkillData, filePaths: string[]): LintRes
     }
   }
 
-  return { valid: errors.length === 0, errors }
+  if (!options.vaultSkills) return { valid: errors.length === 0, errors }
+  const warnings = lintTriggerCollisions(skill, options)
+  return { valid: errors.length === 0, errors, warnings }
+}
+
+export interface LintPackageOptions {
+  /** 库中其他 Skill 的触发词；与 skillId 相同的记录会被跳过 */
+  vaultSkills?: TriggerSource[]
+  skillId?: number
+  collisionThreshold?: number
+}
+
+/**
+ * 与库中其他 Skill 的触发词冲突，作为 warnings 返回
+ */
+export function lintTriggerCollisions(skill: SkillData, options: LintPackageOptions): LintError[] {
+  const self: TriggerSource = { id: options.skillId ?? 0, slug: skill.slug || '', title: skill.title, triggers: skill.triggers }
+  const collisions = findSkillTriggerCollisions(self, options.vaultSkills || [], options.collisionThreshold ?? DEFAULT_COLLISION_THRESHOLD)
+  return collisions.flatMap((collision) =>
+    collision.matches.map((match) => ({
+      field: 'triggers.collision',
+      message: match.duplicate
+        ? `trigger "${match.trigger}" duplicates "${match.otherTrigger}" in skill "${collision.other.slug}"`
+        : `trigger "${match.trigger}" is similar to "${match.otherTrigger}" in skill "${collision.other.slug}" (similarity ${match.similarity})`,
+    }))
+  )
+}
+
+/**
+ * findLintRegressions - 找出 after 中新出现的问题（before 中不存在的 field + message）
+ */
+export function findLintRegressions(before: LintResult, after: LintResult): LintError[] {
+  const existing = new Set(before.errors.map((e) => `${e.field}\u0000${e.message}`))
+  return after.errors.filter((e) => !existing.has(`${e.field}\u0000${e.message}`))
 }
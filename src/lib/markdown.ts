@@ -1,9 +1,11 @@
 /**
  * renderSkillMarkdown - 将 Skill 渲染为 SKILL.md（含 YAML frontmatter）
+ * parseSkillMarkdown - renderSkillMarkdown 的精确逆运算
+ * locateSkillMarkdownField - 定位字段（lint error field）在 SKILL.md 中的行号
  * buildDescription - 生成 Claude Code Skills 合规的 description
  */
 import * as yaml from 'js-yaml'
-import type { SkillData } from './types'
+import type { SkillData, SkillGuardrails, SkillTestCase } from './types'
 
 const DESCRIPTION_MAX = 2048
 
@@ -153,3 +155,355 @@ export function renderSkillMarkdown(skill: SkillData, filesIndex?: string[]): st
 
   return `---\n${fm}\n---\n\n# ${skill.title}\n\n${sections.join('\n\n')}\n`
 }
+
+export interface SkillMarkdownParseError {
+  /** 1-based 行号 */
+  line: number
+  message: string
+  field?: string
+}
+
+export interface ParsedSkillMarkdown {
+  skill: SkillData & { slug: string }
+  /** Supporting files 段落列出的路径（按渲染顺序） */
+  files: string[]
+}
+
+export type SkillMarkdownParseResult =
+  | ({ ok: true } & ParsedSkillMarkdown)
+  | { ok: false; errors: SkillMarkdownParseError[] }
+
+const SECTION_ORDER = [
+  { heading: 'Purpose', field: 'summary', required: true },
+  { heading: 'Inputs', field: 'inputs', required: true },
+  { heading: 'Outputs', field: 'outputs', required: true },
+  { heading: 'Trigger phrases', field: 'triggers', required: false },
+  { heading: 'Workflow', field: 'steps', required: true },
+  { heading: 'Pitfalls', field: 'risks', required: true },
+  { heading: 'Guardrails', field: 'guardrails', required: true },
+  { heading: 'Tests', field: 'tests', required: true },
+  { heading: 'Supporting files', field: 'files', required: false },
+] as const
+
+type SectionName = (typeof SECTION_ORDER)[number]['heading']
+
+type SectionBody = { lines: string[]; start: number }
+
+const ESCALATIONS: SkillGuardrails['escalation'][] = ['REVIEW', 'BLOCK', 'ASK_HUMAN']
+
+// 去掉渲染时标题前后各一行的空行，段落内容其余部分原样保留
+function sectionBody(lines: string[], from: number, to: number): SectionBody {
+  let start = from
+  let end = to
+  if (start < end && lines[start] === '') start++
+  if (end > start && lines[end - 1] === '') end--
+  return { lines: lines.slice(start, end), start }
+}
+
+function parseFrontmatterBlock(
+  lines: string[],
+  errors: SkillMarkdownParseError[]
+): { frontmatter: Record<string, unknown>; end: number } | null {
+  if (lines[0] !== '---') {
+    errors.push({ line: 1, message: 'SKILL.md must start with a --- frontmatter block' })
+    return null
+  }
+  const close = lines.indexOf('---', 1)
+  if (close < 0) {
+    errors.push({ line: 1, message: 'Frontmatter is not closed with ---' })
+    return null
+  }
+  try {
+    const parsed = yaml.load(lines.slice(1, close).join('\n'))
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+      errors.push({ line: 2, message: 'Frontmatter must be a YAML mapping' })
+      return null
+    }
+    return { frontmatter: parsed as Record<string, unknown>, end: close }
+  } catch (err) {
+    const mark = (err as { mark?: { line?: number } }).mark
+    errors.push({ line: 2 + (mark?.line ?? 0), message: `Invalid frontmatter YAML: ${(err as Error).message.split('\n')[0]}` })
+    return null
+  }
+}
+
+function frontmatterBoolean(
+  frontmatter: Record<string, unknown>,
+  key: string,
+  errors: SkillMarkdownParseError[]
+): boolean | undefined {
+  const value = frontmatter[key]
+  if (value === undefined) return undefined
+  if (typeof value === 'boolean') return value
+  errors.push({ line: 2, field: 'guardrails', message: `Frontmatter "${key}" must be true or false` })
+  return undefined
+}
+
+function parseTriggerLines(body: SectionBody, errors: SkillMarkdownParseError[]): string[] {
+  const triggers: string[] = []
+  body.lines.forEach((line, i) => {
+    if (!line.trim()) return
+    const quoted = line.match(/^- "(.*)"$/)
+    const plain = line.match(/^- (.+)$/)
+    if (quoted) triggers.push(quoted[1])
+    else if (plain) triggers.push(plain[1])
+    else errors.push({ line: body.start + i + 1, field: 'triggers', message: 'Trigger phrase must be a list item: - "phrase"' })
+  })
+  return triggers
+}
+
+function parseStepLines(body: SectionBody, errors: SkillMarkdownParseError[]): string[] {
+  const steps: string[] = []
+  body.lines.forEach((line, i) => {
+    if (!line.trim()) return
+    const match = line.match(/^\d+\.(?: (.*))?$/)
+    if (match) steps.push(match[1] ?? '')
+    else errors.push({ line: body.start + i + 1, field: 'steps', message: 'Workflow step must be a numbered item: 1. step' })
+  })
+  return steps
+}
+
+/**
+ * Guardrails 列表项；调用开关与工具同时存在于 frontmatter 与正文，二者不一致时报错（避免只改了一处）
+ */
+function parseGuardrailLines(
+  body: SectionBody,
+  frontmatter: Record<string, unknown>,
+  errors: SkillMarkdownParseError[]
+): SkillGuardrails {
+  const fmTools = frontmatter['allowed-tools']
+  let allowedTools: string[] | null = null
+  if (fmTools !== undefined) {
+    if (Array.isArray(fmTools) && fmTools.every((tool) => typeof tool === 'string')) allowedTools = fmTools
+    else errors.push({ line: 2, field: 'guardrails', message: 'Frontmatter "allowed-tools" must be a list of strings' })
+  }
+  const fmUserInvocable = frontmatterBoolean(frontmatter, 'user-invocable', errors)
+  const fmDisableModel = frontmatterBoolean(frontmatter, 'disable-model-invocation', errors)
+
+  let escalation: SkillGuardrails['escalation'] | null = null
+  let userInvocable = fmUserInvocable
+  let disableModel = fmDisableModel
+  const stopConditions: string[] = []
+  let inStopConditions = false
+
+  const checkFlag = (lineNo: number, label: string, raw: string, fromFrontmatter: boolean | undefined) => {
+    if (raw !== 'true' && raw !== 'false') {
+      errors.push({ line: lineNo, field: 'guardrails', message: `${label} must be true or false` })
+      return fromFrontmatter
+    }
+    const value = raw === 'true'
+    if (fromFrontmatter !== undefined && fromFrontmatter !== value) {
+      errors.push({ line: lineNo, field: 'guardrails', message: `${label} does not match the frontmatter value` })
+    }
+    return value
+  }
+
+  body.lines.forEach((line, i) => {
+    const lineNo = body.start + i + 1
+    if (!line.trim()) return
+    const nested = line.match(/^ {2}-(?: (.*))?$/)
+    if (nested && inStopConditions) {
+      stopConditions.push(nested[1] ?? '')
+      return
+    }
+    inStopConditions = false
+    const bullet = line.match(/^- ([A-Za-z ]+):(?: (.*))?$/)
+    const key = bullet ? bullet[1] : ''
+    const value = bullet ? bullet[2] ?? '' : ''
+    if (key === 'Escalation policy') {
+      if (ESCALATIONS.includes(value as SkillGuardrails['escalation'])) escalation = value as SkillGuardrails['escalation']
+      else errors.push({ line: lineNo, field: 'guardrails.escalation', message: `Escalation policy must be one of ${ESCALATIONS.join(', ')}` })
+    } else if (key === 'Allowed tools') {
+      if (allowedTools === null) allowedTools = value === 'None' || !value ? [] : value.split(', ')
+      else if ((allowedTools.length > 0 ? allowedTools.join(', ') : 'None') !== value) {
+        errors.push({ line: lineNo, field: 'guardrails', message: 'Allowed tools does not match the frontmatter allowed-tools' })
+      }
+    } else if (key === 'User invocable') {
+      userInvocable = checkFlag(lineNo, 'User invocable', value, fmUserInvocable)
+    } else if (key === 'Disable model invocation') {
+      disableModel = checkFlag(lineNo, 'Disable model invocation', value, fmDisableModel)
+    } else if (key === 'Stop conditions' && !value) {
+      inStopConditions = true
+    } else {
+      errors.push({ line: lineNo, field: 'guardrails', message: `Unrecognized guardrails line: ${line}` })
+    }
+  })
+
+  if (!escalation) {
+    errors.push({ line: body.start, field: 'guardrails.escalation', message: 'Guardrails is missing "- Escalation policy: ..."' })
+  }
+  return {
+    allowed_tools: allowedTools ?? [],
+    disable_model_invocation: disableModel ?? false,
+    user_invocable: userInvocable ?? true,
+    stop_conditions: stopConditions,
+    escalation: escalation ?? 'ASK_HUMAN',
+  }
+}
+
+/**
+ * Tests 段落按 "### Case N: name" 切块；Input / Expected 以反引号包裹，取值可跨行
+ */
+function parseTestBlocks(body: SectionBody, errors: SkillMarkdownParseError[]): SkillTestCase[] {
+  const tests: SkillTestCase[] = []
+  const headers: Array<{ index: number; name: string }> = []
+  body.lines.forEach((line, i) => {
+    const match = line.match(/^### Case \d+:(?: (.*))?$/)
+    if (match) headers.push({ index: i, name: match[1] ?? '' })
+  })
+
+  const firstHeader = headers.length > 0 ? headers[0].index : body.lines.length
+  const stray = body.lines.slice(0, firstHeader).findIndex((line) => line.trim())
+  if (stray >= 0) {
+    errors.push({ line: body.start + stray + 1, field: 'tests', message: 'Test cases must start with "### Case N: name"' })
+  }
+
+  headers.forEach((header, h) => {
+    const end = h + 1 < headers.length ? headers[h + 1].index : body.lines.length
+    const block = body.lines.slice(header.index + 1, end)
+    let from = 0
+    let to = block.length
+    while (from < to && block[from] === '') from++
+    while (to > from && block[to - 1] === '') to--
+    const match = block.slice(from, to).join('\n').match(/^- Input: `([\s\S]*?)`\n- Expected: `([\s\S]*)`$/)
+    if (!match) {
+      errors.push({
+        line: body.start + header.index + 1,
+        field: 'tests',
+        message: 'Test case must contain "- Input: `...`" followed by "- Expected: `...`"',
+      })
+      return
+    }
+    tests.push({ name: header.name, input: match[1], expected_output: match[2] })
+  })
+  return tests
+}
+
+function parseFileIndex(body: SectionBody, errors: SkillMarkdownParseError[]): string[] {
+  const files: string[] = []
+  body.lines.forEach((line, i) => {
+    if (!line.startsWith('- ')) return
+    const link = line.match(/^- \[(.*)\]\((.*)\)$/)
+    if (link) files.push(link[2])
+    else errors.push({ line: body.start + i + 1, field: 'files', message: 'Supporting file must be a link: - [path](path)' })
+  })
+  return files
+}
+
+/**
+ * 解析 renderSkillMarkdown 输出的 SKILL.md，parse(render(skill)) 与原 skill 完全一致。
+ * 前提（渲染格式本身的限制）：标题、步骤、触发词、停止条件、测试名为单行；触发词已规整（去重、去空白）；
+ * 多行文本中不含与段落标题相同的行（如 "## Inputs"）。description 由摘要与触发词派生，解析时忽略。
+ */
+export function parseSkillMarkdown(markdown: string): SkillMarkdownParseResult {
+  const errors: SkillMarkdownParseError[] = []
+  const lines = markdown.replace(/\r\n/g, '\n').split('\n')
+
+  const header = parseFrontmatterBlock(lines, errors)
+  if (!header) return { ok: false, errors }
+  const { frontmatter } = header
+
+  let slug = ''
+  if (typeof frontmatter.name === 'string' || typeof frontmatter.name === 'number') slug = String(frontmatter.name)
+  else errors.push({ line: 2, field: 'slug', message: 'Frontmatter is missing "name"' })
+
+  let cursor = header.end + 1
+  while (cursor < lines.length && lines[cursor] === '') cursor++
+  const titleMatch = cursor < lines.length ? lines[cursor].match(/^# (.*)$/) : null
+  if (!titleMatch) {
+    errors.push({ line: Math.min(cursor, lines.length - 1) + 1, field: 'title', message: 'Expected the "# Title" line after the frontmatter' })
+    return { ok: false, errors }
+  }
+  const title = titleMatch[1]
+
+  // 只识别已知段落标题，其他 "## ..." 行视为段落正文
+  const known = new Set<string>(SECTION_ORDER.map((section) => section.heading))
+  const found: Array<{ name: SectionName; line: number }> = []
+  for (let i = cursor + 1; i < lines.length; i++) {
+    const match = lines[i].match(/^## (.+)$/)
+    if (match && known.has(match[1])) found.push({ name: match[1] as SectionName, line: i })
+  }
+
+  let order = -1
+  const positions = new Map<SectionName, number>()
+  for (const item of found) {
+    const index = SECTION_ORDER.findIndex((section) => section.heading === item.name)
+    if (positions.has(item.name)) {
+      errors.push({ line: item.line + 1, message: `Duplicate section "## ${item.name}"` })
+    } else if (index < order) {
+      errors.push({ line: item.line + 1, message: `Section "## ${item.name}" is out of order` })
+    } else {
+      positions.set(item.name, item.line)
+      order = index
+    }
+  }
+  for (const section of SECTION_ORDER) {
+    if (section.required && !positions.has(section.heading)) {
+      errors.push({ line: lines.length, field: section.field, message: `Missing section "## ${section.heading}"` })
+    }
+  }
+  if (errors.length > 0) return { ok: false, errors }
+
+  const ordered = SECTION_ORDER.filter((section) => positions.has(section.heading))
+  const firstSection = positions.get(ordered[0].heading)!
+  const stray = lines.slice(cursor + 1, firstSection).findIndex((line) => line.trim())
+  if (stray >= 0) {
+    errors.push({ line: cursor + 2 + stray, message: 'Unexpected content between the title and "## Purpose"' })
+  }
+
+  const bodies = new Map<SectionName, SectionBody>()
+  ordered.forEach((section, i) => {
+    const start = positions.get(section.heading)!
+    const end = i + 1 < ordered.length ? positions.get(ordered[i + 1].heading)! : lines.length
+    bodies.set(section.heading, sectionBody(lines, start + 1, end))
+  })
+  const text = (name: SectionName) => bodies.get(name)!.lines.join('\n')
+  const empty: SectionBody = { lines: [], start: 0 }
+
+  const skill: SkillData & { slug: string } = {
+    title,
+    slug,
+    summary: text('Purpose'),
+    inputs: text('Inputs'),
+    outputs: text('Outputs'),
+    steps: parseStepLines(bodies.get('Workflow')!, errors),
+    risks: text('Pitfalls'),
+    triggers: parseTriggerLines(bodies.get('Trigger phrases') ?? empty, errors),
+    guardrails: parseGuardrailLines(bodies.get('Guardrails')!, frontmatter, errors),
+    tests: parseTestBlocks(bodies.get('Tests')!, errors),
+  }
+  const files = parseFileIndex(bodies.get('Supporting files') ?? empty, errors)
+
+  if (errors.length > 0) return { ok: false, errors }
+  return { ok: true, skill, files }
+}
+
+const FIELD_ANCHORS: Record<string, Array<string | RegExp>> = {
+  slug: [/^name:/],
+  description: [/^description:/],
+  title: [/^# /],
+  summary: ['## Purpose'],
+  inputs: ['## Inputs'],
+  outputs: ['## Outputs'],
+  triggers: ['## Trigger phrases', /^description:/],
+  steps: ['## Workflow'],
+  risks: ['## Pitfalls'],
+  'guardrails.escalation': [/^- Escalation policy:/, '## Guardrails'],
+  'guardrails.stop_conditions': ['- Stop conditions:', '## Guardrails'],
+  guardrails: ['## Guardrails'],
+  tests: ['## Tests'],
+  files: ['## Supporting files'],
+}
+
+/**
+ * 按字段名找到 SKILL.md 中对应的行（1-based），用于把 lint 错误标注到原文；找不到时返回 1
+ */
+export function locateSkillMarkdownField(markdown: string, field: string): number {
+  const lines = markdown.replace(/\r\n/g, '\n').split('\n')
+  const anchors = FIELD_ANCHORS[field] ?? FIELD_ANCHORS[field.split('.')[0]] ?? []
+  for (const anchor of anchors) {
+    const index = lines.findIndex((line) => (typeof anchor === 'string' ? line === anchor : anchor.test(line)))
+    if (index >= 0) return index + 1
+  }
+  return 1
+}
@@ -0,0 +1,175 @@
+/**
+ * 角色与权限：viewer 只读；author 可新建并编辑自己负责或共同维护的 Skill；
+ * reviewer 可编辑任意 Skill、审核、发布、管理标签与查看审计日志；admin 额外可删除任意 Skill、调整负责人与维护人。
+ * 纯函数部分前后端共用，路由通过 authorize / authorizeSkill 统一校验。
+ * 通过个人 API 令牌调用时，还需令牌带有该权限对应的 scope
+ */
+
+export const USER_ROLES = ['viewer', 'author', 'reviewer', 'admin'] as const
+export type UserRole = (typeof USER_ROLES)[number]
+
+// 库中角色值无法识别时按最小权限处理
+export const DEFAULT_USER_ROLE: UserRole = 'viewer'
+
+export const ROLE_LABELS: Record<UserRole, string> = {
+  viewer: '只读',
+  author: '作者',
+  reviewer: '审核人',
+  admin: '管理员',
+}
+
+export type Permission =
+  | 'skill:create'
+  | 'skill:edit'
+  | 'skill:delete'
+  | 'skill:publish'
+  | 'skill:review'
+  | 'skill:maintainers'
+  | 'tag:create'
+  | 'tag:manage'
+  | 'template:manage'
+  | 'audit:read'
+
+export const API_TOKEN_SCOPES = ['skills:read', 'skills:write', 'publish', 'usage:write'] as const
+export type ApiTokenScope = (typeof API_TOKEN_SCOPES)[number]
+
+export const API_TOKEN_SCOPE_LABELS: Record<ApiTokenScope, string> = {
+  'skills:read': '读取 Skill、版本与导出',
+  'skills:write': '新建与编辑 Skill、标签、模板',
+  publish: '审核、发布、回滚与渠道',
+  'usage:write': '上报调用事件',
+}
+
+const PERMISSION_SCOPES: Record<Permission, ApiTokenScope> = {
+  'skill:create': 'skills:write',
+  'skill:edit': 'skills:write',
+  'skill:delete': 'skills:write',
+  'skill:publish': 'publish',
+  'skill:review': 'publish',
+  'skill:maintainers': 'skills:write',
+  'tag:create': 'skills:write',
+  'tag:manage': 'skills:write',
+  'template:manage': 'skills:write',
+  'audit:read': 'skills:read',
+}
+
+export type Principal = {
+  actor: string
+  role: UserRole
+  /** 仅 API 令牌请求有值；会话与匿名请求不受 scope 限制 */
+  scopes?: readonly ApiTokenScope[]
+}
+
+export type SkillAccess = {
+  owner: string
+  maintainers: string[]
+}
+
+export const PERMISSION_DENIED_MESSAGE = 'Permission denied'
+
+export function isApiTokenScope(value: unknown): value is ApiTokenScope {
+  return typeof value === 'string' && (API_TOKEN_SCOPES as readonly string[]).includes(value)
+}
+
+export function hasScope(principal: Principal, scope: ApiTokenScope): boolean {
+  return !principal.scopes || principal.scopes.includes(scope)
+}
+
+export function isUserRole(value: unknown): value is UserRole {
+  return typeof value === 'string' && (USER_ROLES as readonly string[]).includes(value)
+}
+
+export function normalizeUserRole(value: unknown): UserRole {
+  return isUserRole(value) ? value : DEFAULT_USER_ROLE
+}
+
+function atLeast(role: UserRole, minimum: UserRole): boolean {
+  return USER_ROLES.indexOf(role) >= USER_ROLES.indexOf(minimum)
+}
+
+function isOwner(principal: Principal, skill?: SkillAccess): boolean {
+  return !!skill && skill.owner === principal.actor
+}
+
+function isMaintainer(principal: Principal, skill?: SkillAccess): boolean {
+  return isOwner(principal, skill) || !!skill?.maintainers.includes(principal.actor)
+}
+
+/**
+ * Skill 相关权限需传入 skill（负责人与维护人）；未传入时按“非负责人”判断
+ */
+export function can(principal: Principal, permission: Permission, skill?: SkillAccess): boolean {
+  if (!hasScope(principal, PERMISSION_SCOPES[permission])) return false
+  const { role } = principal
+  switch (permission) {
+    case 'skill:create':
+    case 'tag:create':
+    case 'template:manage':
+      return atLeast(role, 'author')
+    case 'skill:edit':
+      return atLeast(role, 'reviewer') || (role === 'author' && isMaintainer(principal, skill))
+    case 'skill:delete':
+    case 'skill:maintainers':
+      return role === 'admin' || (atLeast(role, 'author') && isOwner(principal, skill))
+    case 'skill:publish':
+    case 'skill:review':
+    case 'tag:manage':
+    case 'audit:read':
+      return atLeast(role, 'reviewer')
+  }
+}
+
+export type SkillPermissions = {
+  edit: boolean
+  delete: boolean
+  publish: boolean
+  manageMaintainers: boolean
+}
+
+export const NO_SKILL_PERMISSIONS: SkillPermissions = { edit: false, delete: false, publish: false, manageMaintainers: false }
+
+/** 详情页按钮显隐用 */
+export function skillPermissions(principal: Principal, skill: SkillAccess): SkillPermissions {
+  return {
+    edit: can(principal, 'skill:edit', skill),
+    delete: can(principal, 'skill:delete', skill),
+    publish: can(principal, 'skill:publish', skill),
+    manageMaintainers: can(principal, 'skill:maintainers', skill),
+  }
+}
+
+export type AccessResult = { ok: true } | { ok: false; status: 403 | 404; error: string }
+
+export function authorize(principal: Principal, permission: Permission, skill?: SkillAccess): AccessResult {
+  return can(principal, permission, skill) ? { ok: true } : { ok: false, status: 403, error: PERMISSION_DENIED_MESSAGE }
+}
+
+export type SkillAccessClient = {
+  skill: {
+    findUnique: (args: { where: { id: number }; select: { owner: true } }) => Promise<{ owner: string } | null>
+  }
+  skillMaintainer: {
+    findMany: (args: { where: { skillId: number }; select: { username: true } }) => Promise<Array<{ username: string }>>
+  }
+}
+
+export async function loadSkillAccess(client: SkillAccessClient, skillId: number): Promise<SkillAccess | null> {
+  const skill = await client.skill.findUnique({ where: { id: skillId }, select: { owner: true } })
+  if (!skill) return null
+  const maintainers = await client.skillMaintainer.findMany({ where: { skillId }, select: { username: true } })
+  return { owner: skill.owner, maintainers: maintainers.map((item) => item.username) }
+}
+
+/**
+ * 单个 Skill 的权限校验；Skill 不存在时返回 404
+ */
+export async function authorizeSkill(
+  client: SkillAccessClient,
+  principal: Principal,
+  permission: Permission,
+  skillId: number
+): Promise<AccessResult> {
+  const access = await loadSkillAccess(client, skillId)
+  if (!access) return { ok: false, status: 404, error: 'Skill not found' }
+  return authorize(principal, permission, access)
+}
@@ -0,0 +1,78 @@
+/**
+ * 发布记录 → Git：把发布时的版本快照写成 <slug>/SKILL.md + supporting files 并提交，sha 回写到 SkillPublication
+ * Git 分支镜像的是 stable 渠道，只有 stable 指针移动（发布或推广到 stable）时才同步
+ */
+import { prisma } from '@/lib/prisma'
+import { renderSkillMarkdown } from '@/lib/markdown'
+import { commitSkillToGit, resolveGitSyncConfig, type GitSyncConfig, type GitSyncFile } from '@/lib/git-sync'
+import { DEFAULT_PUBLISH_CHANNEL } from '@/lib/skill-channels'
+import { loadSkillExportSource, type SkillExportSource } from '@/lib/skill-export-source'
+
+export type PublicationGitSyncResult =
+  | { status: 'skipped' }
+  | { status: 'synced'; commitSha: string; changed: boolean; syncedAt: string }
+  | { status: 'failed'; error: string }
+
+/** 发布记录是否落在 stable 渠道（渠道功能上线前的记录 channel 为空，视为 stable） */
+export function isStablePublication(publication: { channel: string | null }): boolean {
+  return !publication.channel || publication.channel === DEFAULT_PUBLISH_CHANNEL
+}
+
+/**
+ * 提交信息：发布说明（缺省为 Publish <slug> v<n>）+ 便于检索的 trailer
+ */
+export function buildGitSyncMessage(source: SkillExportSource, note: string | null): string {
+  const slug = source.skillData.slug || ''
+  const subject = note?.trim() || `Publish ${slug} v${source.version}`
+  const trailers = [`Skill: ${slug}`, `Version: ${source.version}`]
+  if (source.channel) trailers.push(`Channel: ${source.channel}`)
+  return `${subject}\n\n${trailers.join('\n')}\n`
+}
+
+export function toGitSyncFiles(source: SkillExportSource): GitSyncFile[] {
+  const filePaths = source.files.map((file) => file.path)
+  return [
+    { path: 'SKILL.md', content: Buffer.from(renderSkillMarkdown(source.skillData, filePaths), 'utf-8') },
+    ...source.files.map((file) => ({
+      path: file.path,
+      content: file.isBinary
+        ? Buffer.from(file.contentBytes || new Uint8Array())
+        : Buffer.from(file.contentText || '', 'utf-8'),
+    })),
+  ]
+}
+
+/**
+ * 未配置 GIT_SYNC_REPO 时跳过；同步失败只返回错误，不影响发布本身
+ */
+export async function syncPublicationToGit(
+  skillId: number,
+  publicationId: number,
+  config: GitSyncConfig | null = resolveGitSyncConfig()
+): Promise<PublicationGitSyncResult> {
+  if (!config) return { status: 'skipped' }
+
+  try {
+    const publication = await prisma.skillPublication.findUnique({ where: { id: publicationId } })
+    if (!publication || publication.skillId !== skillId) return { status: 'failed', error: 'Publication not found' }
+
+    const result = await loadSkillExportSource(skillId, { kind: 'publication', publicationId }, { withFiles: true })
+    if (!result.ok) return { status: 'failed', error: result.error }
+
+    const { commitSha, changed } = await commitSkillToGit(config, {
+      slug: result.source.skillData.slug || '',
+      files: toGitSyncFiles(result.source),
+      message: buildGitSyncMessage(result.source, publication.note),
+    })
+
+    const syncedAt = new Date()
+    await prisma.skillPublication.update({
+      where: { id: publicationId },
+      data: { gitCommitSha: commitSha, gitSyncedAt: syncedAt },
+    })
+    return { status: 'synced', commitSha, changed, syncedAt: syncedAt.toISOString() }
+  } catch (err) {
+    console.error('Git sync error:', err)
+    return { status: 'failed', error: err instanceof Error ? err.message : String(err) }
+  }
+}
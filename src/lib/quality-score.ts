@@ -0,0 +1,231 @@
+/**
+ * scoreSkill - Skill 质量评分（Quality Score）
+ * 在 lint 通过/不通过之外，按加权规则给出 0~100 分及逐条改进建议
+ */
+import type { SkillData } from './types'
+import { buildDescription } from './markdown'
+
+const DESCRIPTION_MAX = 2048
+// description 占用低于该比例时视为余量充足
+const DESCRIPTION_COMFORT_RATIO = 0.75
+const STEPS_MIN = 3
+const STEPS_MAX = 7
+const RISKS_DETAILED_LENGTH = 40
+const STOP_CONDITION_MIN_LENGTH = 12
+
+export type QualityRuleId =
+  | 'trigger_test_coverage'
+  | 'steps'
+  | 'stop_conditions'
+  | 'risks'
+  | 'description_headroom'
+  | 'supporting_files'
+
+export interface QualityRuleResult {
+  id: QualityRuleId
+  label: string
+  weight: number
+  /** 规则得分（0 ~ weight） */
+  points: number
+  passed: boolean
+  detail: string
+  suggestion: string | null
+}
+
+export interface QualityScore {
+  score: number
+  rules: QualityRuleResult[]
+}
+
+export interface QualityScoreOptions {
+  /** supporting files 路径；不传时视为没有文件 */
+  filePaths?: string[]
+}
+
+type RuleOutcome = { ratio: number; detail: string; suggestion: string }
+
+const RULE_WEIGHTS: Record<QualityRuleId, { label: string; weight: number }> = {
+  trigger_test_coverage: { label: '触发词测试覆盖', weight: 25 },
+  steps: { label: '步骤数量与祈使句', weight: 20 },
+  stop_conditions: { label: '停止条件具体性', weight: 15 },
+  risks: { label: '风险描述完整度', weight: 15 },
+  description_headroom: { label: 'description 长度余量', weight: 10 },
+  supporting_files: { label: 'supporting files 引用', weight: 15 },
+}
+
+// 非祈使句常见开头（主语、冠词、进行时等）
+const NON_IMPERATIVE_STARTERS = new Set([
+  'the', 'a', 'an', 'this', 'that', 'it', 'we', 'i', 'you', 'they', 'he', 'she',
+  'there', 'is', 'are', 'was', 'will', 'should', 'can', 'then', 'next', 'first', 'finally',
+])
+// 原形本身以 -ing / -ed 结尾的动词，不能按分词/过去式后缀判为非祈使句
+const ING_ED_VERBS = new Set([
+  'proceed', 'embed', 'exceed', 'succeed', 'feed', 'seed', 'need', 'heed', 'speed', 'breed', 'shred', 'bed', 'wed',
+  'bring', 'ring', 'string', 'sing', 'swing', 'sting', 'fling', 'cling', 'wring', 'spring', 'ping', 'ding',
+])
+const NON_IMPERATIVE_CJK_PREFIXES = ['我', '你', '他', '她', '它', '这', '那', '然后', '首先', '最后', '接着']
+
+const VAGUE_STOP_CONDITIONS = new Set(['stop', 'done', 'error', 'finish', 'finished', 'complete', '完成', '出错', '结束', '停止'])
+const SPECIFIC_STOP_SIGNALS = /\d|\b(if|when|after|before|unless|exceeds?|missing|empty|fails?)\b|如果|若|当|超过|缺少|为空|失败/i
+
+function normalize(text: string): string {
+  return String(text || '').toLowerCase().replace(/\s+/g, ' ').trim()
+}
+
+function clampRatio(value: number): number {
+  if (!Number.isFinite(value)) return 0
+  return Math.min(1, Math.max(0, value))
+}
+
+/**
+ * 测试输入包含触发短语，或包含触发短语的全部词，视为覆盖
+ */
+function isTriggerCovered(trigger: string, inputs: string[]): boolean {
+  const phrase = normalize(trigger)
+  if (!phrase) return true
+  const words = phrase.split(' ')
+  return inputs.some((input) => input.includes(phrase) || words.every((word) => input.includes(word)))
+}
+
+export function isImperativeStep(step: string): boolean {
+  const text = String(step || '').trim().replace(/^[-*\d.)\s]+/, '')
+  if (!text) return false
+  if (/^[\u4e00-\u9fff]/.test(text)) {
+    return !NON_IMPERATIVE_CJK_PREFIXES.some((prefix) => text.startsWith(prefix))
+  }
+  const first = text.split(/\s+/)[0].toLowerCase().replace(/[^a-z]/g, '')
+  if (!first) return false
+  if (NON_IMPERATIVE_STARTERS.has(first)) return false
+  if (ING_ED_VERBS.has(first)) return true
+  return !/(ing|ed)$/.test(first)
+}
+
+export function isSpecificStopCondition(condition: string): boolean {
+  const text = normalize(condition)
+  if (!text || VAGUE_STOP_CONDITIONS.has(text)) return false
+  return text.length >= STOP_CONDITION_MIN_LENGTH || SPECIFIC_STOP_SIGNALS.test(text)
+}
+
+function scoreTriggerCoverage(skill: SkillData): RuleOutcome {
+  const triggers = (skill.triggers || []).filter((t) => normalize(t))
+  if (triggers.length === 0) {
+    return { ratio: 0, detail: '没有触发词', suggestion: '补充至少 3 个触发词，并为每个触发词编写测试用例' }
+  }
+  const inputs = (skill.tests || []).map((t) => normalize(t.input))
+  const uncovered = triggers.filter((t) => !isTriggerCovered(t, inputs))
+  const covered = triggers.length - uncovered.length
+  return {
+    ratio: covered / triggers.length,
+    detail: `${covered}/${triggers.length} 个触发词被测试输入覆盖`,
+    suggestion: `为以下触发词补充测试输入：${uncovered.map((t) => `"${t}"`).join('、')}`,
+  }
+}
+
+function scoreSteps(skill: SkillData): RuleOutcome {
+  const steps = (skill.steps || []).filter((s) => String(s || '').trim())
+  if (steps.length === 0) {
+    return { ratio: 0, detail: '没有步骤', suggestion: `编写 ${STEPS_MIN}~${STEPS_MAX} 个以动词开头的步骤` }
+  }
+  const countOk = steps.length >= STEPS_MIN && steps.length <= STEPS_MAX
+  const nonImperative = steps.filter((s) => !isImperativeStep(s))
+  const imperativeRatio = (steps.length - nonImperative.length) / steps.length
+
+  const suggestions: string[] = []
+  if (!countOk) suggestions.push(`将步骤调整为 ${STEPS_MIN}~${STEPS_MAX} 个（当前 ${steps.length} 个）`)
+  if (nonImperative.length > 0) {
+    suggestions.push(`改写为祈使句（以动词开头）：${nonImperative.map((s) => `"${s}"`).join('、')}`)
+  }
+  return {
+    ratio: (countOk ? 0.5 : 0) + imperativeRatio * 0.5,
+    detail: `${steps.length} 个步骤，其中 ${steps.length - nonImperative.length} 个为祈使句`,
+    suggestion: suggestions.join('；'),
+  }
+}
+
+function scoreStopConditions(skill: SkillData): RuleOutcome {
+  const conditions = (skill.guardrails?.stop_conditions || []).filter((c) => normalize(c))
+  if (conditions.length === 0) {
+    return { ratio: 0, detail: '没有停止条件', suggestion: '补充可判定的停止条件，例如"输入为空时停止"' }
+  }
+  const vague = conditions.filter((c) => !isSpecificStopCondition(c))
+  return {
+    ratio: (conditions.length - vague.length) / conditions.length,
+    detail: `${conditions.length - vague.length}/${conditions.length} 个停止条件足够具体`,
+    suggestion: `为以下停止条件写明触发场景或阈值：${vague.map((c) => `"${c}"`).join('、')}`,
+  }
+}
+
+function scoreRisks(skill: SkillData): RuleOutcome {
+  const risks = String(skill.risks || '').trim()
+  if (!risks) {
+    return { ratio: 0, detail: '未填写风险', suggestion: '描述常见失败场景、误用方式及其影响' }
+  }
+  const items = risks.split('\n').map((line) => line.trim()).filter(Boolean)
+  const detailed = risks.length >= RISKS_DETAILED_LENGTH || items.length >= 2
+  return {
+    ratio: detailed ? 1 : 0.5,
+    detail: `风险描述 ${risks.length} 个字符`,
+    suggestion: '风险描述过于简略，建议逐条列出失败场景及应对方式',
+  }
+}
+
+function scoreDescriptionHeadroom(skill: SkillData): RuleOutcome {
+  const description = buildDescription(skill)
+  const comfort = DESCRIPTION_MAX * DESCRIPTION_COMFORT_RATIO
+  const ratio = description.length <= comfort
+    ? 1
+    : clampRatio((DESCRIPTION_MAX - description.length) / (DESCRIPTION_MAX - comfort))
+  return {
+    ratio,
+    detail: `description ${description.length}/${DESCRIPTION_MAX} 个字符`,
+    suggestion: '精简摘要或合并相近触发词，为 description 预留长度余量',
+  }
+}
+
+function scoreSupportingFiles(skill: SkillData, filePaths: string[]): RuleOutcome {
+  if (filePaths.length === 0) {
+    return { ratio: 1, detail: '没有 supporting files', suggestion: '' }
+  }
+  const body = [skill.summary, skill.inputs, skill.outputs, skill.risks, ...(skill.steps || [])]
+    .map((text) => String(text || ''))
+    .join('\n')
+  const unreferenced = filePaths.filter((path) => {
+    const name = path.split('/').pop() || path
+    return !body.includes(path) && !body.includes(name)
+  })
+  return {
+    ratio: (filePaths.length - unreferenced.length) / filePaths.length,
+    detail: `${filePaths.length - unreferenced.length}/${filePaths.length} 个文件在正文中被引用`,
+    suggestion: `在步骤或说明中注明何时读取：${unreferenced.join('、')}`,
+  }
+}
+
+export function scoreSkill(skill: SkillData, options: QualityScoreOptions = {}): QualityScore {
+  const outcomes: Record<QualityRuleId, RuleOutcome> = {
+    trigger_test_coverage: scoreTriggerCoverage(skill),
+    steps: scoreSteps(skill),
+    stop_conditions: scoreStopConditions(skill),
+    risks: scoreRisks(skill),
+    description_headroom: scoreDescriptionHeadroom(skill),
+    supporting_files: scoreSupportingFiles(skill, options.filePaths || []),
+  }
+
+  const rules = (Object.keys(RULE_WEIGHTS) as QualityRuleId[]).map((id): QualityRuleResult => {
+    const { label, weight } = RULE_WEIGHTS[id]
+    const outcome = outcomes[id]
+    const ratio = clampRatio(outcome.ratio)
+    const passed = ratio >= 1
+    return {
+      id,
+      label,
+      weight,
+      points: Math.round(ratio * weight * 10) / 10,
+      passed,
+      detail: outcome.detail,
+      suggestion: passed ? null : outcome.suggestion || null,
+    }
+  })
+
+  const score = Math.round(rules.reduce((sum, rule) => sum + rule.points, 0))
+  return { score, rules }
+}
@@ -0,0 +1,151 @@
+/**
+ * 多 Skill 合集导出：skills/<slug>/SKILL.md + supporting files，附 manifest.json（版本、逐文件 sha256、lint 状态）
+ * lint 不通过的 Skill 不写入合集，只在 manifest.skipped 中报告；manifest 在所有 Skill 之后写入
+ */
+import { createHash } from 'crypto'
+import { lintSkillPackage } from './lint'
+import { renderSkillMarkdown } from './markdown'
+import { normalizeTagNames } from './tag-normalize'
+import type { SkillExportResult, SkillExportSelector } from './skill-export-source'
+import type { LintError } from './types'
+
+export const BUNDLE_MAX_SKILLS = 200
+export const BUNDLE_MANIFEST_PATH = 'manifest.json'
+
+export type BundleQuery = {
+  ids: number[]
+  tags: string[]
+  selector: SkillExportSelector
+}
+
+/**
+ * 解析 ?ids=1,2&tags=a,b；版本来源沿用单个导出的 ?channel= / ?working=1，不支持按版本号或发布记录
+ */
+export function parseBundleQuery(
+  searchParams: URLSearchParams,
+  selector: SkillExportSelector
+): BundleQuery | { error: string } {
+  if (selector.kind === 'version' || selector.kind === 'publication') {
+    return { error: 'Bundle export only supports channel or working selectors' }
+  }
+  const rawIds = (searchParams.get('ids') || '').split(',').map((item) => item.trim()).filter(Boolean)
+  const ids = rawIds.map((item) => Number(item))
+  if (ids.some((id) => !Number.isInteger(id) || id <= 0)) return { error: 'Invalid skill ids' }
+  const tags = normalizeTagNames((searchParams.get('tags') || '').split(','))
+  if (ids.length === 0 && tags.length === 0) return { error: 'Provide ids or tags' }
+  return { ids: [...new Set(ids)], tags, selector }
+}
+
+export type BundleManifestFile = { path: string; sha256: string; size: number }
+
+export type BundleManifestSkill = {
+  id: number
+  slug: string
+  title: string
+  version: number | null
+  publicationId: number | null
+  channel: string | null
+  lint: { valid: true }
+  files: BundleManifestFile[]
+}
+
+export type BundleSkippedSkill = {
+  id: number
+  slug: string
+  reason: string
+  errors?: LintError[]
+}
+
+export type BundleManifest = {
+  generatedAt: string
+  source: string
+  skills: BundleManifestSkill[]
+  skipped: BundleSkippedSkill[]
+}
+
+export type BundleEntry = { name: string; content: Buffer }
+
+function sha256(content: Buffer): string {
+  return createHash('sha256').update(content).digest('hex')
+}
+
+function describeSelector(selector: SkillExportSelector): string {
+  if (selector.kind === 'channel') return `channel:${selector.channel}`
+  return selector.kind
+}
+
+export type BundleSkillInput = { skillId: number; slug: string; result: SkillExportResult }
+
+export type SkillBundleBuilder = {
+  manifest: BundleManifest
+  /** 加入一个 Skill，返回它在合集中的条目；被跳过时返回空数组 */
+  add: (input: BundleSkillInput) => BundleEntry[]
+}
+
+/**
+ * 逐个 Skill 组装合集：条目随加入即返回，manifest 在过程中累积，便于边读边写入压缩流
+ */
+export function createSkillBundleBuilder(selector: SkillExportSelector, now: Date = new Date()): SkillBundleBuilder {
+  const manifest: BundleManifest = { generatedAt: now.toISOString(), source: describeSelector(selector), skills: [], skipped: [] }
+  const usedSlugs = new Set<string>()
+
+  const add = ({ skillId, slug, result }: BundleSkillInput): BundleEntry[] => {
+    if (!result.ok) {
+      manifest.skipped.push({ id: skillId, slug, reason: result.error })
+      return []
+    }
+
+    const { skillData, files } = result.source
+    const exportSlug = skillData.slug || slug
+    // 快照里的 slug 可能与另一个 Skill 的当前 slug 相同
+    if (usedSlugs.has(exportSlug)) {
+      manifest.skipped.push({ id: skillId, slug: exportSlug, reason: 'Duplicate slug in bundle' })
+      return []
+    }
+
+    const filePaths = files.map((file) => file.path)
+    const lint = lintSkillPackage(skillData, filePaths)
+    if (!lint.valid) {
+      manifest.skipped.push({ id: skillId, slug: exportSlug, reason: 'Lint failed', errors: lint.errors })
+      return []
+    }
+    usedSlugs.add(exportSlug)
+
+    const skillFiles: Array<{ path: string; content: Buffer }> = [
+      { path: 'SKILL.md', content: Buffer.from(renderSkillMarkdown(skillData, filePaths), 'utf-8') },
+      ...files.map((file) => ({
+        path: file.path,
+        content: file.isBinary
+          ? Buffer.from(file.contentBytes || new Uint8Array())
+          : Buffer.from(file.contentText || '', 'utf-8'),
+      })),
+    ]
+
+    manifest.skills.push({
+      id: skillId,
+      slug: exportSlug,
+      title: skillData.title,
+      version: result.source.version,
+      publicationId: result.source.publicationId,
+      channel: result.source.channel,
+      lint: { valid: true },
+      files: skillFiles.map((file) => ({ path: file.path, sha256: sha256(file.content), size: file.content.length })),
+    })
+    return skillFiles.map((file) => ({ name: `skills/${exportSlug}/${file.path}`, content: file.content }))
+  }
+
+  return { manifest, add }
+}
+
+/**
+ * 由各 Skill 的导出结果一次性组装合集条目与 manifest（不含 manifest.json 本身）
+ */
+export function buildSkillBundle(
+  results: BundleSkillInput[],
+  selector: SkillExportSelector,
+  now: Date = new Date()
+): { entries: BundleEntry[]; manifest: BundleManifest } {
+  const builder = createSkillBundleBuilder(selector, now)
+  const entries = results.flatMap((item) => builder.add(item))
+  return { entries, manifest: builder.manifest }
+}
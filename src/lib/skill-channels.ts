@@ -0,0 +1,107 @@
+/**
+ * 发布渠道：每个 Skill 可有多个命名渠道（stable / beta / 自定义），各自指向一个 SkillVersion
+ * 每次发布或推广都会追加一条带渠道的 SkillPublication，作为渠道变更历史
+ */
+import { z } from 'zod/v4'
+
+export const CHANNEL_NOT_READY_MESSAGE =
+  'Release channels are not initialized. Run pnpm db:generate:local and pnpm db:push:local, then restart dev server.'
+
+export const DEFAULT_PUBLISH_CHANNEL = 'stable'
+export const SUGGESTED_CHANNELS = ['stable', 'beta'] as const
+
+export const channelNameSchema = z
+  .string()
+  .trim()
+  .toLowerCase()
+  .min(1)
+  .max(40)
+  .regex(/^[a-z0-9][a-z0-9._-]*$/, 'Channel name may only contain a-z, 0-9, ".", "_" and "-"')
+
+export function parseChannelName(raw: unknown): string | null {
+  const parsed = channelNameSchema.safeParse(raw)
+  return parsed.success ? parsed.data : null
+}
+
+export const promoteChannelSchema = z
+  .object({
+    version: z.number().int().positive().optional(),
+    fromChannel: channelNameSchema.optional(),
+    note: z.string().trim().max(2000).optional(),
+  })
+  .refine((value) => (value.version === undefined) !== (value.fromChannel === undefined), {
+    message: 'Provide exactly one of version or fromChannel',
+  })
+
+export type SkillChannelRow = {
+  id: number
+  skillId: number
+  name: string
+  skillVersionId: number
+  updatedAt: Date
+  skillVersion: { version: number }
+}
+
+type SkillChannelRepo = {
+  upsert: (args: {
+    where: { skillId_name: { skillId: number; name: string } }
+    update: { skillVersionId: number }
+    create: { skillId: number; name: string; skillVersionId: number }
+  }) => Promise<{ id: number; skillId: number; name: string; skillVersionId: number; updatedAt: Date }>
+}
+
+type SkillPublicationRepo = {
+  create: (args: {
+    data: { skillId: number; skillVersionId: number; channel: string; note: string | null; createdBy?: string }
+  }) => Promise<{ id: number; channel: string | null; note: string | null; publishedAt: Date }>
+}
+
+function isPrismaCode(err: unknown, code: string): boolean {
+  return !!err && typeof err === 'object' && 'code' in err && (err as { code?: string }).code === code
+}
+
+export function hasSkillChannels(client: unknown): client is { skillChannel: SkillChannelRepo } {
+  return !!client && typeof client === 'object' && 'skillChannel' in client
+}
+
+export function isChannelSchemaNotReadyError(err: unknown): boolean {
+  if (isPrismaCode(err, 'P2021') || isPrismaCode(err, 'P2022')) return true
+  const message = err instanceof Error ? err.message : ''
+  return message.includes('skill_channels')
+}
+
+/**
+ * 将渠道指向指定版本（不存在则创建），并追加一条发布记录
+ */
+export async function moveSkillChannel(
+  client: { skillChannel: SkillChannelRepo; skillPublication: SkillPublicationRepo },
+  input: { skillId: number; name: string; skillVersionId: number; note?: string | null; createdBy?: string }
+) {
+  const channel = await client.skillChannel.upsert({
+    where: { skillId_name: { skillId: input.skillId, name: input.name } },
+    update: { skillVersionId: input.skillVersionId },
+    create: { skillId: input.skillId, name: input.name, skillVersionId: input.skillVersionId },
+  })
+  const publication = await client.skillPublication.create({
+    data: {
+      skillId: input.skillId,
+      skillVersionId: input.skillVersionId,
+      channel: input.name,
+      note: input.note || null,
+      ...(input.createdBy ? { createdBy: input.createdBy } : {}),
+    },
+  })
+  return { channel, publication }
+}
+
+export function toSkillChannelResponse(row: SkillChannelRow) {
+  return {
+    name: row.name,
+    skillId: row.skillId,
+    versionId: row.skillVersionId,
+    version: row.skillVersion.version,
+    updatedAt: row.updatedAt.toISOString(),
+  }
+}
+
+export type SkillChannelItem = ReturnType<typeof toSkillChannelResponse>
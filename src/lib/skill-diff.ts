@@ -0,0 +1,210 @@
+/**
+ * Skill 快照对比
+ * - 文本字段：按行 LCS diff
+ * - 列表字段（steps / triggers / tests / tags 等）：新增 / 删除 / 顺序变化
+ * - 文件：按 path + sha256 对比
+ */
+import type { SkillSnapshot, SkillSnapshotFile } from './skill-versioning'
+
+export type LineDiffOp = { type: 'equal' | 'added' | 'removed'; text: string }
+
+export interface TextFieldDiff {
+  kind: 'text'
+  changed: boolean
+  from: string
+  to: string
+  lines: LineDiffOp[]
+}
+
+export interface ListFieldDiff<T = string> {
+  kind: 'list'
+  changed: boolean
+  from: T[]
+  to: T[]
+  added: T[]
+  removed: T[]
+  /** 两侧都存在但相对顺序发生变化的条目 */
+  reordered: T[]
+  /** 同 key 但内容变化的条目（仅 tests） */
+  modified: Array<{ from: T; to: T }>
+}
+
+export interface FileSetDiff {
+  changed: boolean
+  added: SkillSnapshotFile[]
+  removed: SkillSnapshotFile[]
+  modified: Array<{ from: SkillSnapshotFile; to: SkillSnapshotFile }>
+  unchanged: string[]
+}
+
+export type ComparableSnapshot = Omit<SkillSnapshot, 'files'> & { files?: SkillSnapshotFile[] | null }
+
+export const TEXT_FIELDS = ['title', 'slug', 'status', 'summary', 'inputs', 'outputs', 'risks'] as const
+export const LIST_FIELDS = ['steps', 'triggers', 'tags'] as const
+
+export interface SkillSnapshotDiff {
+  changed: boolean
+  fields: {
+    [K in (typeof TEXT_FIELDS)[number]]: TextFieldDiff
+  } & {
+    [K in (typeof LIST_FIELDS)[number]]: ListFieldDiff
+  } & {
+    tests: ListFieldDiff<SkillSnapshot['tests'][number]>
+    'guardrails.escalation': TextFieldDiff
+    'guardrails.allowed_tools': ListFieldDiff
+    'guardrails.stop_conditions': ListFieldDiff
+    'guardrails.user_invocable': TextFieldDiff
+    'guardrails.disable_model_invocation': TextFieldDiff
+  }
+  /** 任一侧没有文件清单（旧版本快照或草稿）时为 null */
+  files: FileSetDiff | null
+}
+
+function splitLines(text: string): string[] {
+  if (!text) return []
+  return text.replace(/\r\n/g, '\n').split('\n')
+}
+
+/**
+ * 行级 diff（LCS），输出按顺序排列的 equal / removed / added 操作
+ */
+export function diffLines(fromText: string, toText: string): LineDiffOp[] {
+  const a = splitLines(fromText)
+  const b = splitLines(toText)
+  const n = a.length
+  const m = b.length
+  const lcs: number[][] = Array.from({ length: n + 1 }, () => new Array<number>(m + 1).fill(0))
+
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1])
+    }
+  }
+
+  const ops: LineDiffOp[] = []
+  let i = 0
+  let j = 0
+  while (i < n && j < m) {
+    if (a[i] === b[j]) {
+      ops.push({ type: 'equal', text: a[i] })
+      i++
+      j++
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      ops.push({ type: 'removed', text: a[i] })
+      i++
+    } else {
+      ops.push({ type: 'added', text: b[j] })
+      j++
+    }
+  }
+  while (i < n) ops.push({ type: 'removed', text: a[i++] })
+  while (j < m) ops.push({ type: 'added', text: b[j++] })
+  return ops
+}
+
+export function diffText(from: string, to: string): TextFieldDiff {
+  return { kind: 'text', changed: from !== to, from, to, lines: diffLines(from, to) }
+}
+
+/**
+ * 列表 diff：按 key 匹配条目；key 相同但值不同记为 modified
+ */
+export function diffList<T>(
+  from: T[],
+  to: T[],
+  keyOf: (item: T) => string = (item) => String(item),
+  valueOf: (item: T) => string = keyOf
+): ListFieldDiff<T> {
+  const fromKeys = from.map(keyOf)
+  const toKeys = to.map(keyOf)
+  const fromSet = new Set(fromKeys)
+  const toSet = new Set(toKeys)
+
+  const added = to.filter((_, i) => !fromSet.has(toKeys[i]))
+  const removed = from.filter((_, i) => !toSet.has(fromKeys[i]))
+
+  const commonFrom = fromKeys.filter((key) => toSet.has(key))
+  const commonTo = toKeys.filter((key) => fromSet.has(key))
+  const reorderedKeys = new Set(commonTo.filter((key, i) => commonFrom[i] !== key))
+  const reordered = to.filter((_, i) => reorderedKeys.has(toKeys[i]))
+
+  const modified: Array<{ from: T; to: T }> = []
+  for (const [i, item] of to.entries()) {
+    const fromIndex = fromKeys.indexOf(toKeys[i])
+    if (fromIndex < 0) continue
+    if (valueOf(from[fromIndex]) !== valueOf(item)) modified.push({ from: from[fromIndex], to: item })
+  }
+
+  return {
+    kind: 'list',
+    changed: added.length > 0 || removed.length > 0 || reordered.length > 0 || modified.length > 0,
+    from,
+    to,
+    added,
+    removed,
+    reordered,
+    modified,
+  }
+}
+
+export function diffFiles(from: SkillSnapshotFile[], to: SkillSnapshotFile[]): FileSetDiff {
+  const fromMap = new Map(from.map((file) => [file.path, file]))
+  const toMap = new Map(to.map((file) => [file.path, file]))
+
+  const added = to.filter((file) => !fromMap.has(file.path))
+  const removed = from.filter((file) => !toMap.has(file.path))
+  const modified: FileSetDiff['modified'] = []
+  const unchanged: string[] = []
+  for (const file of to) {
+    const prev = fromMap.get(file.path)
+    if (!prev) continue
+    if (prev.sha256 !== file.sha256 || prev.mime !== file.mime) modified.push({ from: prev, to: file })
+    else unchanged.push(file.path)
+  }
+
+  return {
+    changed: added.length > 0 || removed.length > 0 || modified.length > 0,
+    added,
+    removed,
+    modified,
+    unchanged,
+  }
+}
+
+/**
+ * 对比两个快照，返回逐字段的结构化 diff
+ */
+export function diffSnapshots(from: ComparableSnapshot, to: ComparableSnapshot): SkillSnapshotDiff {
+  const testKey = (t: SkillSnapshot['tests'][number]) => t.name
+  const testValue = (t: SkillSnapshot['tests'][number]) => JSON.stringify([t.name, t.input, t.expected_output])
+
+  const fields: SkillSnapshotDiff['fields'] = {
+    title: diffText(from.title, to.title),
+    slug: diffText(from.slug, to.slug),
+    status: diffText(from.status, to.status),
+    summary: diffText(from.summary, to.summary),
+    inputs: diffText(from.inputs, to.inputs),
+    outputs: diffText(from.outputs, to.outputs),
+    risks: diffText(from.risks, to.risks),
+    steps: diffList(from.steps, to.steps),
+    triggers: diffList(from.triggers, to.triggers),
+    tags: diffList(from.tags, to.tags),
+    tests: diffList(from.tests, to.tests, testKey, testValue),
+    'guardrails.escalation': diffText(from.guardrails.escalation, to.guardrails.escalation),
+    'guardrails.allowed_tools': diffList(from.guardrails.allowed_tools, to.guardrails.allowed_tools),
+    'guardrails.stop_conditions': diffList(from.guardrails.stop_conditions, to.guardrails.stop_conditions),
+    'guardrails.user_invocable': diffText(
+      String(from.guardrails.user_invocable),
+      String(to.guardrails.user_invocable)
+    ),
+    'guardrails.disable_model_invocation': diffText(
+      String(from.guardrails.disable_model_invocation),
+      String(to.guardrails.disable_model_invocation)
+    ),
+  }
+
+  const files = from.files && to.files ? diffFiles(from.files, to.files) : null
+  const changed = Object.values(fields).some((field) => field.changed) || !!files?.changed
+
+  return { changed, fields, files }
+}
@@ -0,0 +1,252 @@
+/**
+ * 上游托管（sourceManaged）Skill 的漂移检测与三方合并
+ * - 同步时记录上游内容 hash（syncedContentHash），与当前内容 hash 比对即可判断是否在本地被修改
+ * - base = 上次同步的上游快照，ours = 当前内容，theirs = 新的上游快照；按字段 / 文件合并
+ * 内容 hash 由 scripts/sync-anthropic-official-skills.js 直接复用，同步记录的 hash 与应用内计算同源
+ */
+import { createHash } from 'crypto'
+import type { SkillSnapshot } from './skill-versioning'
+
+export const UPSTREAM_NOT_READY_MESSAGE =
+  'Upstream sync tracking is not initialized. Run pnpm db:generate:local and pnpm db:push:local, then restart dev server.'
+
+export const MERGE_FIELDS = [
+  'title',
+  'summary',
+  'inputs',
+  'outputs',
+  'steps',
+  'risks',
+  'triggers',
+  'guardrails',
+  'tests',
+] as const
+
+export type MergeField = (typeof MERGE_FIELDS)[number]
+
+// slug 是身份标识、status / tags 属于库内管理信息，均不参与漂移判断与合并
+export type SkillContent = Pick<SkillSnapshot, MergeField>
+
+export type SkillContentFile = { path: string; sha256: string }
+
+export type DriftStatus = 'clean' | 'modified' | 'untracked'
+
+export type UpstreamChangeStatus = 'applied' | 'pending' | 'merged' | 'dismissed' | 'superseded'
+
+type UpstreamChangeRepo = {
+  findFirst: (args: unknown) => Promise<unknown>
+  findMany: (args: unknown) => Promise<unknown[]>
+  update: (args: unknown) => Promise<unknown>
+  updateMany: (args: unknown) => Promise<unknown>
+}
+
+function isPrismaCode(err: unknown, code: string): boolean {
+  return !!err && typeof err === 'object' && 'code' in err && (err as { code?: string }).code === code
+}
+
+export function hasSkillUpstreamChanges(client: unknown): client is { skillUpstreamChange: UpstreamChangeRepo } {
+  return !!client && typeof client === 'object' && 'skillUpstreamChange' in client
+}
+
+export function isUpstreamSchemaNotReadyError(err: unknown): boolean {
+  if (isPrismaCode(err, 'P2021') || isPrismaCode(err, 'P2022')) return true
+  const message = err instanceof Error ? err.message : ''
+  return message.includes('skill_upstream_changes') || message.includes('synced_content_hash')
+}
+
+/**
+ * 以固定顺序的数组序列化，避免 JSON 对象键顺序影响 hash
+ */
+export function computeSkillContentHash(content: SkillContent, files: SkillContentFile[]): string {
+  const guardrails = content.guardrails
+  const payload = [
+    content.title,
+    content.summary,
+    content.inputs,
+    content.outputs,
+    content.steps,
+    content.risks,
+    content.triggers,
+    [
+      guardrails.allowed_tools,
+      guardrails.disable_model_invocation,
+      guardrails.user_invocable,
+      guardrails.stop_conditions,
+      guardrails.escalation,
+    ],
+    content.tests.map((test) => [test.name, test.input, test.expected_output]),
+    files
+      .map((file) => [file.path, file.sha256])
+      .sort((a, b) => (a[0] < b[0] ? -1 : a[0] > b[0] ? 1 : 0)),
+  ]
+  return createHash('sha256').update(JSON.stringify(payload)).digest('hex')
+}
+
+export function detectSkillDrift(
+  skill: { sourceManaged: boolean; syncedContentHash: string | null },
+  currentHash: string
+): DriftStatus | null {
+  if (!skill.sourceManaged) return null
+  // 旧数据同步时没有记录 hash，下次同步后才能判断
+  if (!skill.syncedContentHash) return 'untracked'
+  return skill.syncedContentHash === currentHash ? 'clean' : 'modified'
+}
+
+export type MergeSide = 'ours' | 'theirs'
+
+// unchanged：三方一致；ours / theirs：只有一方改动，自动取该方；same：双方改成相同内容；conflict：需手动选择
+export type MergeEntryStatus = 'unchanged' | 'ours' | 'theirs' | 'same' | 'conflict'
+
+export type FieldMergeEntry = {
+  field: MergeField
+  base: unknown
+  ours: unknown
+  theirs: unknown
+  status: MergeEntryStatus
+}
+
+export type FileMergeSnapshot = { sha256: string; size: number; isBinary: boolean; mime: string } | null
+
+export type FileMergeEntry = {
+  path: string
+  base: FileMergeSnapshot
+  ours: FileMergeSnapshot
+  theirs: FileMergeSnapshot
+  status: MergeEntryStatus
+}
+
+export type SkillMergeResult = {
+  fields: FieldMergeEntry[]
+  files: FileMergeEntry[]
+  conflicts: number
+}
+
+export type MergeSnapshot = SkillContent & { files: NonNullable<SkillSnapshot['files']> }
+
+// 对象按键名排序后比较，数据库 JSON 与脚本构造的对象键顺序可能不同
+function canonical(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(canonical)
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.keys(value).sort().map((key) => [key, canonical((value as Record<string, unknown>)[key])])
+    )
+  }
+  return value
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(canonical(a)) === JSON.stringify(canonical(b))
+}
+
+function classify(base: unknown, ours: unknown, theirs: unknown, hasBase: boolean): MergeEntryStatus {
+  if (sameValue(ours, theirs)) {
+    return hasBase && !sameValue(base, ours) ? 'same' : 'unchanged'
+  }
+  if (!hasBase) return 'conflict'
+  if (sameValue(base, ours)) return 'theirs'
+  if (sameValue(base, theirs)) return 'ours'
+  return 'conflict'
+}
+
+function toFileSnapshot(file: MergeSnapshot['files'][number] | undefined): FileMergeSnapshot {
+  return file ? { sha256: file.sha256, size: file.size, isBinary: file.isBinary, mime: file.mime } : null
+}
+
+/**
+ * base 为 null（旧数据没有同步记录）时无法判断哪一方改动，凡是不一致都视为冲突
+ */
+export function mergeSkillSnapshots(
+  base: MergeSnapshot | null,
+  ours: MergeSnapshot,
+  theirs: MergeSnapshot
+): SkillMergeResult {
+  const hasBase = base !== null
+  const fields = MERGE_FIELDS.map((field) => {
+    const entry = { field, base: base ? base[field] : null, ours: ours[field], theirs: theirs[field] }
+    return { ...entry, status: classify(entry.base, entry.ours, entry.theirs, hasBase) }
+  })
+
+  const byPath = (files: MergeSnapshot['files']) => new Map(files.map((file) => [file.path, file]))
+  const baseFiles = byPath(base?.files || [])
+  const ourFiles = byPath(ours.files)
+  const theirFiles = byPath(theirs.files)
+  const paths = [...new Set([...baseFiles.keys(), ...ourFiles.keys(), ...theirFiles.keys()])].sort()
+  const files = paths.map((filePath) => {
+    const entry = {
+      path: filePath,
+      base: toFileSnapshot(baseFiles.get(filePath)),
+      ours: toFileSnapshot(ourFiles.get(filePath)),
+      theirs: toFileSnapshot(theirFiles.get(filePath)),
+    }
+    // 文件只比较内容 hash；base 中不存在的文件按“双方新增”处理
+    const sha = (file: FileMergeSnapshot) => file?.sha256 ?? null
+    return { ...entry, status: classify(sha(entry.base), sha(entry.ours), sha(entry.theirs), hasBase) }
+  })
+
+  const conflicts = [...fields, ...files].filter((entry) => entry.status === 'conflict').length
+  return { fields, files, conflicts }
+}
+
+// GET /api/skills/:id/upstream 的响应
+export type SkillUpstreamState = {
+  skillId: number
+  sourceManaged: boolean
+  sourceRepo: string | null
+  sourcePath: string | null
+  sourceRef: string | null
+  sourceSha: string | null
+  lastSyncedAt: string | null
+  drift: DriftStatus | null
+  pending: {
+    id: number
+    sourceRef: string | null
+    sourceSha: string
+    createdAt: string
+    hasBase: boolean
+    merge: SkillMergeResult
+  } | null
+}
+
+export type MergeResolutions = {
+  fields?: Partial<Record<MergeField, MergeSide>>
+  files?: Record<string, MergeSide>
+}
+
+export type ResolvedSkillMerge =
+  | { ok: true; merged: MergeSnapshot }
+  | { ok: false; unresolved: string[] }
+
+/**
+ * 按合并结果与用户选择生成最终内容；自动合并项也可被显式选择覆盖，冲突项必须显式选择
+ */
+export function resolveSkillMerge(
+  merge: SkillMergeResult,
+  ours: MergeSnapshot,
+  theirs: MergeSnapshot,
+  resolutions: MergeResolutions
+): ResolvedSkillMerge {
+  const unresolved: string[] = []
+  const pick = (status: MergeEntryStatus, explicit: MergeSide | undefined, label: string): MergeSide => {
+    if (explicit) return explicit
+    if (status === 'conflict') unresolved.push(label)
+    return status === 'theirs' ? 'theirs' : 'ours'
+  }
+
+  const content = {} as SkillContent
+  for (const entry of merge.fields) {
+    const side = pick(entry.status, resolutions.fields?.[entry.field], entry.field)
+    Object.assign(content, { [entry.field]: side === 'theirs' ? theirs[entry.field] : ours[entry.field] })
+  }
+
+  const ourFiles = new Map(ours.files.map((file) => [file.path, file]))
+  const theirFiles = new Map(theirs.files.map((file) => [file.path, file]))
+  const files: MergeSnapshot['files'] = []
+  for (const entry of merge.files) {
+    const side = pick(entry.status, resolutions.files?.[entry.path], `file:${entry.path}`)
+    const file = side === 'theirs' ? theirFiles.get(entry.path) : ourFiles.get(entry.path)
+    if (file) files.push(file)
+  }
+
+  if (unresolved.length > 0) return { ok: false, unresolved }
+  return { ok: true, merged: { ...content, files } }
+}
@@ -0,0 +1,291 @@
+/**
+ * 导出数据源：默认导出 stable 渠道指向的版本（不看 status），从未发布时导出工作副本
+ * 可用 ?version= / ?publication= / ?channel= 指定版本快照（含快照文件），?working=1 强制导出工作副本
+ */
+import { prisma } from '@/lib/prisma'
+import type { SkillData } from '@/lib/types'
+import {
+  CHANNEL_NOT_READY_MESSAGE,
+  DEFAULT_PUBLISH_CHANNEL,
+  hasSkillChannels,
+  isChannelSchemaNotReadyError,
+  parseChannelName,
+} from '@/lib/skill-channels'
+import {
+  isVersioningSchemaNotReadyError,
+  parseSkillSnapshot,
+  VERSIONING_NOT_READY_MESSAGE,
+  type SkillSnapshot,
+} from '@/lib/skill-versioning'
+
+export type SkillExportFile = {
+  path: string
+  isBinary: boolean
+  contentText: string | null
+  contentBytes: Uint8Array | null
+}
+
+export type SkillExportSelector =
+  | { kind: 'default' }
+  | { kind: 'working' }
+  | { kind: 'channel'; channel: string }
+  | { kind: 'version'; version: number }
+  | { kind: 'publication'; publicationId: number }
+
+export type SkillExportSource = {
+  skillData: SkillData
+  files: SkillExportFile[]
+  // 工作副本时为 null
+  version: number | null
+  publicationId: number | null
+  channel: string | null
+}
+
+export type SkillExportResult =
+  | { ok: true; source: SkillExportSource }
+  | { ok: false; status: number; error: string }
+
+function parsePositiveInt(raw: string): number | null {
+  const value = Number(raw)
+  return Number.isInteger(value) && value > 0 ? value : null
+}
+
+export function parseExportSelector(searchParams: URLSearchParams): SkillExportSelector | { error: string } {
+  const rawChannel = searchParams.get('channel') || ''
+  const rawVersion = searchParams.get('version') || ''
+  const rawPublication = searchParams.get('publication') || ''
+  const working = ['1', 'true'].includes(searchParams.get('working') || '')
+
+  const given = [rawChannel, rawVersion, rawPublication].filter(Boolean).length + (working ? 1 : 0)
+  if (given > 1) return { error: 'Use only one of channel, version, publication or working' }
+
+  if (rawChannel) {
+    const channel = parseChannelName(rawChannel)
+    return channel ? { kind: 'channel', channel } : { error: 'Invalid channel name' }
+  }
+  if (rawVersion) {
+    const version = parsePositiveInt(rawVersion)
+    return version ? { kind: 'version', version } : { error: 'Invalid version' }
+  }
+  if (rawPublication) {
+    const publicationId = parsePositiveInt(rawPublication)
+    return publicationId ? { kind: 'publication', publicationId } : { error: 'Invalid publication id' }
+  }
+  return working ? { kind: 'working' } : { kind: 'default' }
+}
+
+function snapshotToSkillData(skillId: number, snapshot: SkillSnapshot): SkillData {
+  return {
+    id: skillId,
+    title: snapshot.title,
+    slug: snapshot.slug,
+    summary: snapshot.summary,
+    inputs: snapshot.inputs,
+    outputs: snapshot.outputs,
+    steps: snapshot.steps,
+    risks: snapshot.risks,
+    triggers: snapshot.triggers,
+    guardrails: snapshot.guardrails,
+    tests: snapshot.tests,
+    tags: snapshot.tags,
+  }
+}
+
+async function loadWorkingFiles(skillId: number): Promise<SkillExportFile[]> {
+  const files = await prisma.skillFile.findMany({ where: { skillId } })
+  return files.map((file) => ({
+    path: file.path,
+    isBinary: file.isBinary,
+    contentText: file.contentText,
+    contentBytes: file.contentBytes,
+  }))
+}
+
+async function loadSnapshotFiles(skillId: number, snapshot: SkillSnapshot): Promise<SkillExportFile[] | null> {
+  // 旧版本快照没有文件清单，沿用当前文件（与回滚语义一致）
+  if (!snapshot.files) return loadWorkingFiles(skillId)
+  const hashes = [...new Set(snapshot.files.map((file) => file.sha256))]
+  const blobs = hashes.length > 0
+    ? await prisma.skillFileBlob.findMany({ where: { sha256: { in: hashes } } })
+    : []
+  const blobMap = new Map(blobs.map((blob) => [blob.sha256, blob]))
+  if (hashes.some((hash) => !blobMap.has(hash))) return null
+  return snapshot.files.map((file) => {
+    const blob = blobMap.get(file.sha256)!
+    return {
+      path: file.path,
+      isBinary: file.isBinary,
+      contentText: file.isBinary ? null : blob.contentText,
+      contentBytes: file.isBinary ? blob.contentBytes : null,
+    }
+  })
+}
+
+type VersionRow = { id: number; version: number; snapshot: unknown }
+
+type ResolvedVersion =
+  | { ok: true; row: VersionRow | null; publicationId: number | null; channel: string | null }
+  | { ok: false; status: number; error: string }
+
+/**
+ * 读取 stable 渠道指针；渠道表未就绪时返回 null
+ */
+async function findDefaultChannel(skillId: number) {
+  if (!hasSkillChannels(prisma)) return null
+  try {
+    return await prisma.skillChannel.findUnique({
+      where: { skillId_name: { skillId, name: DEFAULT_PUBLISH_CHANNEL } },
+      include: { skillVersion: true },
+    })
+  } catch (err) {
+    if (isChannelSchemaNotReadyError(err)) return null
+    throw err
+  }
+}
+
+/**
+ * 按选择器定位版本；row 为 null 表示导出工作副本
+ */
+async function resolveExportVersion(
+  skill: { id: number },
+  selector: SkillExportSelector
+): Promise<ResolvedVersion> {
+  switch (selector.kind) {
+    case 'working':
+      return { ok: true, row: null, publicationId: null, channel: null }
+    case 'version': {
+      const row = await prisma.skillVersion.findUnique({
+        where: { skillId_version: { skillId: skill.id, version: selector.version } },
+      })
+      if (!row) return { ok: false, status: 404, error: 'Version not found' }
+      return { ok: true, row, publicationId: null, channel: null }
+    }
+    case 'publication': {
+      const publication = await prisma.skillPublication.findUnique({
+        where: { id: selector.publicationId },
+        include: { skillVersion: true },
+      })
+      if (!publication || publication.skillId !== skill.id) {
+        return { ok: false, status: 404, error: 'Publication not found' }
+      }
+      return { ok: true, row: publication.skillVersion, publicationId: publication.id, channel: publication.channel }
+    }
+    case 'channel': {
+      if (!hasSkillChannels(prisma)) return { ok: false, status: 503, error: CHANNEL_NOT_READY_MESSAGE }
+      try {
+        const channel = await prisma.skillChannel.findUnique({
+          where: { skillId_name: { skillId: skill.id, name: selector.channel } },
+          include: { skillVersion: true },
+        })
+        if (!channel) return { ok: false, status: 404, error: 'Channel not found' }
+        return { ok: true, row: channel.skillVersion, publicationId: null, channel: channel.name }
+      } catch (err) {
+        if (isChannelSchemaNotReadyError(err)) return { ok: false, status: 503, error: CHANNEL_NOT_READY_MESSAGE }
+        throw err
+      }
+    }
+    case 'default': {
+      // 只看 stable 指针与发布记录，不看 status：回滚会把 status 改回 draft，但 stable 仍指向已发布版本
+      const pointer = await findDefaultChannel(skill.id)
+      if (pointer) {
+        const publication = await prisma.skillPublication.findFirst({
+          where: { skillId: skill.id, skillVersionId: pointer.skillVersionId, channel: DEFAULT_PUBLISH_CHANNEL },
+          orderBy: { publishedAt: 'desc' },
+          select: { id: true },
+        })
+        return { ok: true, row: pointer.skillVersion, publicationId: publication?.id ?? null, channel: DEFAULT_PUBLISH_CHANNEL }
+      }
+      // 渠道表未就绪或没有 stable 指针时，按 stable（及渠道引入前无渠道）的发布记录回退
+      const publication = await prisma.skillPublication.findFirst({
+        where: { skillId: skill.id, OR: [{ channel: DEFAULT_PUBLISH_CHANNEL }, { channel: null }] },
+        orderBy: { publishedAt: 'desc' },
+        include: { skillVersion: true },
+      })
+      // 发布记录缺失（如旧数据直接改了 status）时退回工作副本
+      if (!publication) return { ok: true, row: null, publicationId: null, channel: null }
+      return { ok: true, row: publication.skillVersion, publicationId: publication.id, channel: publication.channel }
+    }
+  }
+}
+
+/**
+ * 解析导出内容；withFiles 为 false 时不读取文件内容（MD / JSON 导出）
+ */
+export async function loadSkillExportSource(
+  skillId: number,
+  selector: SkillExportSelector,
+  options: { withFiles?: boolean } = {}
+): Promise<SkillExportResult> {
+  const skill = Number.isInteger(skillId)
+    ? await prisma.skill.findUnique({
+        where: { id: skillId },
+        include: { tags: { include: { tag: true } } },
+      })
+    : null
+  if (!skill) return { ok: false, status: 404, error: 'Skill not found' }
+
+  let resolved: ResolvedVersion
+  try {
+    resolved = await resolveExportVersion(skill, selector)
+  } catch (err) {
+    if (!isVersioningSchemaNotReadyError(err)) throw err
+    // 版本表未初始化时，默认导出退回工作副本
+    if (selector.kind !== 'default') return { ok: false, status: 503, error: VERSIONING_NOT_READY_MESSAGE }
+    resolved = { ok: true, row: null, publicationId: null, channel: null }
+  }
+  if (!resolved.ok) return resolved
+
+  if (!resolved.row) {
+    return {
+      ok: true,
+      source: {
+        skillData: {
+          id: skill.id,
+          title: skill.title,
+          slug: skill.slug,
+          summary: skill.summary,
+          inputs: skill.inputs,
+          outputs: skill.outputs,
+          steps: skill.steps as string[],
+          risks: skill.risks,
+          triggers: skill.triggers as string[],
+          guardrails: skill.guardrails as unknown as SkillData['guardrails'],
+          tests: skill.tests as unknown as SkillData['tests'],
+          tags: skill.tags.map((st) => st.tag.name),
+        },
+        files: options.withFiles ? await loadWorkingFiles(skill.id) : [],
+        version: null,
+        publicationId: null,
+        channel: null,
+      },
+    }
+  }
+
+  const snapshot = parseSkillSnapshot(resolved.row.snapshot)
+  if (!snapshot) return { ok: false, status: 500, error: 'Version snapshot is invalid' }
+
+  const files = options.withFiles ? await loadSnapshotFiles(skill.id, snapshot) : []
+  if (!files) return { ok: false, status: 409, error: 'Snapshot file content missing' }
+
+  return {
+    ok: true,
+    source: {
+      skillData: snapshotToSkillData(skill.id, snapshot),
+      files,
+      version: resolved.row.version,
+      publicationId: resolved.publicationId,
+      channel: resolved.channel,
+    },
+  }
+}
+
+/**
+ * 导出的是版本快照时，通过响应头标明版本与渠道
+ */
+export function exportSourceHeaders(source: SkillExportSource): Record<string, string> {
+  const headers: Record<string, string> = {}
+  if (source.version !== null) headers['X-Skill-Version'] = String(source.version)
+  if (source.publicationId !== null) headers['X-Skill-Publication'] = String(source.publicationId)
+  if (source.channel) headers['X-Skill-Channel'] = source.channel
+  return headers
+}
@@ -0,0 +1,560 @@
+/**
+ * 从任意 SKILL.md 反推结构化字段（导入路由与同步脚本共用）
+ * - 标题别名：Workflow / Steps / Procedure、Pitfalls / Risks、Tests / Examples 等映射到同一字段
+ * - 有序 / 无序 / 嵌套列表、description 中的触发短语
+ * - 每个字段给出置信度（0 ~ 1）：与 renderSkillMarkdown 输出一致的结构为 1，别名与推断逐级降低，未找到为 0
+ * 仅使用相对路径导入，脚本可通过 tsx 直接 require
+ */
+import * as yaml from 'js-yaml'
+import { slugify } from './slugify'
+import type { SkillData, SkillGuardrails, SkillTestCase } from './types'
+
+export const EXTRACTED_FIELDS = [
+  'title',
+  'summary',
+  'inputs',
+  'outputs',
+  'steps',
+  'risks',
+  'triggers',
+  'guardrails',
+  'tests',
+] as const
+
+export type ExtractedField = (typeof EXTRACTED_FIELDS)[number]
+
+export type SkillFieldConfidence = Record<ExtractedField, number>
+
+export interface ExtractedSkill {
+  skill: SkillData & { slug: string; tags: string[] }
+  confidence: SkillFieldConfidence
+}
+
+/** 低于该值的字段在导入预览中提示人工确认 */
+export const LOW_CONFIDENCE_THRESHOLD = 0.6
+
+const CONFIDENCE = {
+  exact: 1,
+  marker: 0.9,
+  alias: 0.8,
+  partial: 0.7,
+  loose: 0.6,
+  inferred: 0.5,
+  weak: 0.3,
+  missing: 0,
+} as const
+
+type SectionField = Exclude<ExtractedField, 'title'>
+
+// canonical 为 renderSkillMarkdown 使用的标题，aliases 为常见写法
+const SECTION_ALIASES: Record<SectionField, { canonical: string[]; aliases: string[] }> = {
+  summary: { canonical: ['purpose'], aliases: ['summary', 'overview', 'about', 'introduction', 'description'] },
+  inputs: { canonical: ['inputs'], aliases: ['input', 'prerequisites', 'requirements', 'parameters'] },
+  outputs: { canonical: ['outputs'], aliases: ['output', 'output format', 'deliverables', 'results'] },
+  steps: {
+    canonical: ['workflow'],
+    aliases: ['steps', 'procedure', 'process', 'instructions', 'how to use', 'usage', 'quick start'],
+  },
+  risks: {
+    canonical: ['pitfalls'],
+    aliases: ['risks', 'caveats', 'warnings', 'common mistakes', 'gotchas', 'limitations', 'troubleshooting'],
+  },
+  triggers: { canonical: ['trigger phrases'], aliases: ['triggers', 'when to use', 'when to use this skill'] },
+  guardrails: { canonical: ['guardrails'], aliases: ['safety', 'constraints', 'rules'] },
+  tests: { canonical: ['tests'], aliases: ['test cases', 'examples', 'example'] },
+}
+
+const ESCALATIONS: SkillGuardrails['escalation'][] = ['REVIEW', 'BLOCK', 'ASK_HUMAN']
+
+function normalizeNewlines(text: string): string {
+  return text.replace(/\r\n/g, '\n')
+}
+
+function sanitizeText(raw: unknown): string {
+  return String(raw ?? '').replace(/\u0000/g, '').trim()
+}
+
+function toStringArray(value: unknown): string[] {
+  if (Array.isArray(value)) return value.map((item) => sanitizeText(item)).filter(Boolean)
+  if (typeof value === 'string') {
+    return value.split(',').map((item) => sanitizeText(item)).filter(Boolean)
+  }
+  return []
+}
+
+function unquote(value: string): string {
+  return value.replace(/^["“]+|["”]+$/g, '').trim()
+}
+
+function pushUnique(list: string[], value: string) {
+  if (value && !list.includes(value)) list.push(value)
+}
+
+function toTitle(slug: string): string {
+  return slug
+    .split('-')
+    .filter(Boolean)
+    .map((token) => token.charAt(0).toUpperCase() + token.slice(1))
+    .join(' ')
+}
+
+/**
+ * 拆分 YAML frontmatter 与正文
+ */
+export function splitFrontmatter(markdown: string): { frontmatter: Record<string, unknown>; body: string } {
+  const normalized = normalizeNewlines(markdown)
+  const match = normalized.match(/^---\n([\s\S]*?)\n---\n?([\s\S]*)$/)
+  if (!match) return { frontmatter: {}, body: normalized }
+
+  try {
+    const parsed = yaml.load(match[1])
+    if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) {
+      return { frontmatter: parsed as Record<string, unknown>, body: match[2] }
+    }
+  } catch {
+    // frontmatter 不合法时按无 frontmatter 处理
+  }
+  return { frontmatter: {}, body: match[2] }
+}
+
+type Heading = { level: number; title: string; line: number }
+
+type Section = Heading & { key: string; content: string }
+
+/**
+ * 逐行扫描标题，跳过代码块中的 `#` 注释行
+ */
+function scanHeadings(lines: string[]): Heading[] {
+  const headings: Heading[] = []
+  let fence: string | null = null
+  lines.forEach((line, index) => {
+    const fenceMatch = line.match(/^\s*(```|~~~)/)
+    if (fenceMatch) {
+      if (!fence) fence = fenceMatch[1]
+      else if (fence === fenceMatch[1]) fence = null
+      return
+    }
+    if (fence) return
+    const match = line.match(/^(#{1,6})\s+(.+?)\s*#*\s*$/)
+    if (match) headings.push({ level: match[1].length, title: sanitizeText(match[2]), line: index })
+  })
+  return headings
+}
+
+// "2. Workflow:"、"**Steps**"、"Pitfalls (read first)" 统一为 "workflow" / "steps" / "pitfalls"
+function headingKey(title: string): string {
+  return title
+    .toLowerCase()
+    .replace(/[*_`]/g, '')
+    .replace(/\([^)]*\)/g, '')
+    .replace(/^(?:\d+[.)]|step\s+\d+\s*[:.-])\s*/, '')
+    .replace(/[^a-z0-9\s-]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+}
+
+/** 二、三级标题的内容截止到下一个同级或更高级标题，子标题包含在内 */
+function collectSections(lines: string[], headings: Heading[]): Section[] {
+  return headings
+    .filter((heading) => heading.level === 2 || heading.level === 3)
+    .map((heading) => {
+      const next = headings.find((item) => item.line > heading.line && item.level <= heading.level)
+      const content = lines.slice(heading.line + 1, next ? next.line : lines.length).join('\n').trim()
+      return { ...heading, key: headingKey(heading.title), content }
+    })
+}
+
+type SectionMatch = { section: Section; confidence: number; canonical: boolean }
+
+/**
+ * 为每个字段挑选段落：先精确匹配（canonical > 别名，二级标题优先），再按标题首尾关键词模糊匹配；
+ * 英文标题中心词通常在末尾（"Common Pitfalls"、"Usage Examples"），因此结尾匹配优先于开头匹配
+ */
+function matchSections(sections: Section[]): Partial<Record<SectionField, SectionMatch>> {
+  const matched: Partial<Record<SectionField, SectionMatch>> = {}
+  const used = new Set<Section>()
+  const fields = Object.keys(SECTION_ALIASES) as SectionField[]
+  const ordered = [...sections].sort((a, b) => a.level - b.level || a.line - b.line)
+
+  const tryMatch = (predicate: (key: string, keyword: string) => boolean, confidence: (canonical: boolean) => number) => {
+    for (const field of fields) {
+      if (matched[field]) continue
+      const { canonical, aliases } = SECTION_ALIASES[field]
+      for (const [keywords, isCanonical] of [[canonical, true], [aliases, false]] as const) {
+        const section = ordered.find(
+          (item) => !used.has(item) && item.content && keywords.some((keyword) => predicate(item.key, keyword))
+        )
+        if (!section) continue
+        used.add(section)
+        matched[field] = { section, confidence: confidence(isCanonical), canonical: isCanonical }
+        break
+      }
+    }
+  }
+
+  tryMatch((key, keyword) => key === keyword, (isCanonical) => (isCanonical ? CONFIDENCE.exact : CONFIDENCE.alias))
+  tryMatch((key, keyword) => key.endsWith(` ${keyword}`), () => CONFIDENCE.partial)
+  tryMatch((key, keyword) => key.startsWith(`${keyword} `), () => CONFIDENCE.loose)
+  return matched
+}
+
+type ListItem = { text: string; ordered: boolean; children: string[] }
+
+/**
+ * 解析列表：以最小缩进为顶层，更深的条目（任意层级）归入上一个顶层条目的 children，
+ * 列表项后缩进的续行拼接到当前条目；代码块内容忽略
+ */
+function parseList(text: string): ListItem[] {
+  const items: ListItem[] = []
+  const lines = normalizeNewlines(text).split('\n')
+  const entries: Array<{ indent: number; ordered: boolean; text: string } | { continuation: string }> = []
+  let fence = false
+
+  for (const line of lines) {
+    if (/^\s*(```|~~~)/.test(line)) {
+      fence = !fence
+      continue
+    }
+    if (fence || !line.trim()) continue
+    const match = line.match(/^(\s*)([-*+]|\d+[.)])\s+(.+)$/)
+    if (match) {
+      entries.push({ indent: match[1].replace(/\t/g, '    ').length, ordered: /\d/.test(match[2]), text: sanitizeText(match[3]) })
+    } else if (/^\s+\S/.test(line) && entries.length > 0) {
+      entries.push({ continuation: sanitizeText(line) })
+    } else if (entries.length > 0) {
+      // 列表之后的普通段落：结束当前列表的续行拼接
+      entries.push({ continuation: '' })
+    }
+  }
+
+  const indents = entries.flatMap((entry) => ('indent' in entry ? [entry.indent] : []))
+  if (indents.length === 0) return items
+  const topIndent = Math.min(...indents)
+
+  let lastChildIndex = -1
+  let closed = false
+  for (const entry of entries) {
+    const current = items[items.length - 1]
+    if ('continuation' in entry) {
+      if (!entry.continuation) {
+        closed = true
+        continue
+      }
+      if (!current || closed) continue
+      if (lastChildIndex >= 0) current.children[lastChildIndex] += ` ${entry.continuation}`
+      else current.text += ` ${entry.continuation}`
+      continue
+    }
+    closed = false
+    if (entry.indent <= topIndent || !current) {
+      items.push({ text: entry.text, ordered: entry.ordered, children: [] })
+      lastChildIndex = -1
+    } else {
+      current.children.push(entry.text)
+      lastChildIndex = current.children.length - 1
+    }
+  }
+  return items.filter((item) => item.text)
+}
+
+function flattenListItem(item: ListItem): string {
+  if (item.children.length === 0) return item.text
+  const head = item.text.replace(/[:：]\s*$/, '')
+  return `${head}: ${item.children.join('; ')}`
+}
+
+function firstParagraph(text: string): string {
+  const paragraphs = normalizeNewlines(text)
+    .split(/\n\s*\n/)
+    .map((block) => block.trim())
+    .filter((block) => block && !/^(#|```|~~~|[-*+]\s|\d+[.)]\s|\||>)/.test(block))
+  return paragraphs[0] ? paragraphs[0].replace(/\s*\n\s*/g, ' ') : ''
+}
+
+/** 去掉 "This skill should be used when" 前缀与触发短语尾巴 */
+function summaryFromDescription(description: string): string {
+  return description
+    .replace(/^This skill should be used when\s*/i, '')
+    .replace(/\.?\s*Trigger phrases?(?: include)?:[\s\S]*$/i, '')
+    .replace(/\.$/, '')
+    .trim()
+}
+
+function quotedPhrases(text: string): string[] {
+  const phrases: string[] = []
+  const regex = /["“]([^"”]{2,120})["”]/g
+  let m: RegExpExecArray | null
+  while ((m = regex.exec(text)) !== null) pushUnique(phrases, sanitizeText(m[1]))
+  return phrases
+}
+
+/**
+ * description 中的触发短语：
+ * - "Trigger phrases include: "a", "b"" 标记（renderSkillMarkdown 的格式）
+ * - 任意位置的引号短语
+ * - "when ... (1) X, (2) Y" 编号列举；否则取整个 when 子句
+ */
+function triggersFromDescription(description: string): { triggers: string[]; confidence: number } {
+  const marker = description.match(/Trigger phrases?(?: include)?:\s*([\s\S]+)$/i)
+  if (marker) {
+    const quoted = quotedPhrases(marker[1])
+    const triggers = quoted.length > 0
+      ? quoted
+      : marker[1].replace(/\.$/, '').split(',').map((item) => unquote(sanitizeText(item))).filter(Boolean)
+    if (triggers.length > 0) return { triggers, confidence: CONFIDENCE.marker }
+  }
+
+  const quoted = quotedPhrases(description)
+  if (quoted.length > 0) return { triggers: quoted, confidence: CONFIDENCE.partial }
+
+  // 句号后须跟空白或结尾，避免在 "(.docx files)" 处截断
+  const when = description.match(/\bwhen\s+([\s\S]+?)(?:\.(?:\s|$)|;|$)/i)
+  if (!when) return { triggers: [], confidence: CONFIDENCE.missing }
+  const clause = when[1].trim()
+  const enumerated = clause.split(/\(\d+\)/).slice(1)
+  if (enumerated.length > 0) {
+    const triggers: string[] = []
+    for (const item of enumerated) {
+      pushUnique(triggers, sanitizeText(item.replace(/[,;]?\s*(?:or|and)?\s*$/i, '')))
+    }
+    return { triggers, confidence: CONFIDENCE.inferred }
+  }
+  return { triggers: [clause.replace(/[:：]\s*$/, '')], confidence: CONFIDENCE.weak }
+}
+
+const GUARDRAIL_KEYS = new Set([
+  'escalation policy',
+  'escalation',
+  'allowed tools',
+  'user invocable',
+  'disable model invocation',
+  'stop conditions',
+  'stop condition',
+])
+
+/**
+ * Guardrails 段落：识别 "- Key: value" 形式的字段；没有 Stop conditions 子列表时，
+ * 其余列表项视为停止条件（置信度降低）
+ */
+function extractGuardrails(
+  text: string,
+  frontmatter: Record<string, unknown>
+): { guardrails: SkillGuardrails; structured: boolean } {
+  let escalation: SkillGuardrails['escalation'] = 'ASK_HUMAN'
+  let allowedFromBody: string[] | null = null
+  const stopConditions: string[] = []
+  const looseConditions: string[] = []
+  let structured = false
+
+  for (const item of parseList(text)) {
+    const keyed = item.text.match(/^\**([^:*]+?)\**\s*:\s*(.*)$/)
+    const key = keyed ? keyed[1].trim().toLowerCase() : ''
+    if (!keyed || !GUARDRAIL_KEYS.has(key)) {
+      pushUnique(looseConditions, flattenListItem(item))
+      continue
+    }
+    const value = sanitizeText(keyed[2])
+    if (key.startsWith('escalation')) {
+      const upper = value.toUpperCase() as SkillGuardrails['escalation']
+      if (ESCALATIONS.includes(upper)) escalation = upper
+    } else if (key === 'allowed tools') {
+      allowedFromBody = value && value.toLowerCase() !== 'none' ? toStringArray(value) : []
+    } else if (key.startsWith('stop condition')) {
+      structured = true
+      if (value) pushUnique(stopConditions, value)
+      for (const child of item.children) pushUnique(stopConditions, child)
+    }
+  }
+
+  const allowedFromFrontmatter = toStringArray(frontmatter['allowed-tools'])
+  return {
+    guardrails: {
+      allowed_tools: allowedFromFrontmatter.length > 0 ? allowedFromFrontmatter : allowedFromBody || [],
+      disable_model_invocation: frontmatter['disable-model-invocation'] === true,
+      user_invocable: frontmatter['user-invocable'] === undefined ? true : frontmatter['user-invocable'] === true,
+      stop_conditions: structured ? stopConditions : looseConditions,
+      escalation,
+    },
+    structured,
+  }
+}
+
+const INPUT_LABELS = 'input|user|prompt|request|query'
+const EXPECTED_LABELS = 'expected output|expected|output|result|response|assistant'
+
+// renderSkillMarkdown 以一对反引号包裹取值，原样保留其中内容
+function cleanTestValue(value: string): string {
+  const text = sanitizeText(value)
+  const code = text.match(/^`([^`]*)`$/)
+  if (code) return code[1]
+  return unquote(text.replace(/\*\*/g, '').trim())
+}
+
+function labelledValue(block: string, labels: string): string {
+  const regex = new RegExp(`^\\s*(?:[-*+]\\s*)?\\**(?:${labels})\\**\\s*:\\**\\s*(.+)$`, 'im')
+  const match = block.match(regex)
+  return match ? cleanTestValue(match[1]) : ''
+}
+
+/**
+ * Tests / Examples：### 子标题块内的 Input / Expected 标签（兼容 User / Output / Result 等写法），
+ * 或 "输入 → 期望" 形式的列表项
+ */
+function extractTests(text: string): { tests: SkillTestCase[]; structured: boolean } {
+  const lines = normalizeNewlines(text).split('\n')
+  const headings = scanHeadings(lines).filter((heading) => heading.level >= 3)
+  const tests: SkillTestCase[] = []
+
+  headings.forEach((heading, i) => {
+    const next = headings[i + 1]
+    const block = lines.slice(heading.line + 1, next ? next.line : lines.length).join('\n')
+    const input = labelledValue(block, INPUT_LABELS)
+    const expected = labelledValue(block, EXPECTED_LABELS)
+    if (!input && !expected) return
+    tests.push({
+      name: sanitizeText(heading.title.replace(/^(?:Case|Example|Test)\s*\d*\s*[:.-]\s*/i, '')) || heading.title,
+      input,
+      expected_output: expected,
+    })
+  })
+  if (tests.length > 0) return { tests, structured: true }
+
+  const input = labelledValue(text, INPUT_LABELS)
+  const expected = labelledValue(text, EXPECTED_LABELS)
+  if (input && expected) return { tests: [{ name: 'Example', input, expected_output: expected }], structured: false }
+
+  parseList(text).forEach((item, index) => {
+    const arrow = item.text.match(/^(.+?)\s*(?:→|->|=>)\s*(.+)$/)
+    if (!arrow) return
+    tests.push({ name: `Example ${index + 1}`, input: cleanTestValue(arrow[1]), expected_output: cleanTestValue(arrow[2]) })
+  })
+  return { tests, structured: false }
+}
+
+function extractSteps(match: SectionMatch | undefined, body: string, headings: Heading[]) {
+  if (match) {
+    const items = parseList(match.section.content)
+    const ordered = items.filter((item) => item.ordered)
+    const chosen = ordered.length > 0 ? ordered : items
+    if (chosen.length > 0) return { steps: chosen.map(flattenListItem), confidence: match.confidence }
+
+    // 没有列表时，用子标题（"### Step 1: Analyze"）作为步骤
+    const subheadings = headings.filter(
+      (heading) => heading.line > match.section.line && heading.level > match.section.level &&
+        !headings.some((item) => item.line > match.section.line && item.line < heading.line && item.level <= match.section.level)
+    )
+    if (subheadings.length > 0) {
+      return {
+        steps: subheadings.map((heading) => heading.title.replace(/^(?:Step\s*)?\d+\s*[:.)-]\s*/i, '')),
+        confidence: Math.min(match.confidence, CONFIDENCE.loose),
+      }
+    }
+  }
+
+  // 没有步骤段落时取全文的有序列表，再退到二级标题
+  const ordered = parseList(body).filter((item) => item.ordered)
+  if (ordered.length > 0) return { steps: ordered.map(flattenListItem), confidence: CONFIDENCE.inferred }
+
+  const topics = headings.filter((heading) => heading.level === 2).map((heading) => heading.title)
+  if (topics.length > 0) return { steps: topics, confidence: CONFIDENCE.weak }
+  return { steps: [], confidence: CONFIDENCE.missing }
+}
+
+/**
+ * 解析 SKILL.md 为 SkillData 与逐字段置信度；未找到的字段为空值（置信度 0），由调用方决定回退或交给 lint
+ */
+export function extractSkillFromMarkdown(markdown: string, fallbackSlug = ''): ExtractedSkill {
+  const { frontmatter, body } = splitFrontmatter(markdown)
+  const lines = body.split('\n')
+  const headings = scanHeadings(lines)
+  const matches = matchSections(collectSections(lines, headings))
+  const description = sanitizeText(frontmatter.description)
+  const confidence = Object.fromEntries(EXTRACTED_FIELDS.map((field) => [field, CONFIDENCE.missing])) as SkillFieldConfidence
+
+  const slug = sanitizeText(frontmatter.name) || slugify(fallbackSlug)
+  const h1 = headings.find((heading) => heading.level === 1)
+  let title = h1 ? h1.title : ''
+  confidence.title = title ? CONFIDENCE.exact : CONFIDENCE.missing
+  if (!title && slug) {
+    title = toTitle(slug)
+    confidence.title = CONFIDENCE.inferred
+  }
+
+  // 别名段落（如 Overview）可能很长，只取首段
+  const textSection = (field: 'summary' | 'inputs' | 'outputs' | 'risks') => {
+    const match = matches[field]
+    if (!match) return ''
+    confidence[field] = match.confidence
+    return field === 'summary' && !match.canonical ? firstParagraph(match.section.content) || match.section.content : match.section.content
+  }
+
+  let summary = textSection('summary')
+  if (!summary && description) {
+    summary = summaryFromDescription(description)
+    confidence.summary = summary ? CONFIDENCE.partial : CONFIDENCE.missing
+  }
+  if (!summary) {
+    summary = firstParagraph(body)
+    confidence.summary = summary ? CONFIDENCE.weak : CONFIDENCE.missing
+  }
+
+  const stepResult = extractSteps(matches.steps, body, headings)
+  confidence.steps = stepResult.confidence
+
+  let triggers: string[] = []
+  if (matches.triggers) {
+    triggers = parseList(matches.triggers.section.content).map((item) => unquote(item.text)).filter(Boolean)
+    confidence.triggers = triggers.length > 0 ? matches.triggers.confidence : CONFIDENCE.missing
+  }
+  if (triggers.length === 0 && description) {
+    const fromDescription = triggersFromDescription(description)
+    triggers = fromDescription.triggers
+    confidence.triggers = fromDescription.confidence
+  }
+
+  const guardrailText = matches.guardrails ? matches.guardrails.section.content : ''
+  const guardrailResult = extractGuardrails(guardrailText, frontmatter)
+  if (matches.guardrails) {
+    confidence.guardrails = guardrailResult.structured ? matches.guardrails.confidence : CONFIDENCE.inferred
+  } else {
+    // 只有 frontmatter 中的工具与调用开关，停止条件缺失
+    const hasFrontmatterFlags = ['allowed-tools', 'disable-model-invocation', 'user-invocable'].some((key) => key in frontmatter)
+    confidence.guardrails = hasFrontmatterFlags ? CONFIDENCE.weak : CONFIDENCE.missing
+  }
+
+  let tests: SkillTestCase[] = []
+  if (matches.tests) {
+    const testResult = extractTests(matches.tests.section.content)
+    tests = testResult.tests
+    if (tests.length > 0) {
+      confidence.tests = testResult.structured ? matches.tests.confidence : Math.min(matches.tests.confidence, CONFIDENCE.inferred)
+    }
+  }
+
+  return {
+    skill: {
+      title,
+      slug,
+      summary,
+      inputs: textSection('inputs'),
+      outputs: textSection('outputs'),
+      steps: stepResult.steps,
+      risks: textSection('risks'),
+      triggers,
+      guardrails: guardrailResult.guardrails,
+      tests,
+      tags: toStringArray(frontmatter.tags),
+    },
+    confidence,
+  }
+}
+
+/**
+ * 置信度低于阈值的字段（按 EXTRACTED_FIELDS 顺序）
+ */
+export function lowConfidenceFields(
+  confidence: SkillFieldConfidence,
+  threshold = LOW_CONFIDENCE_THRESHOLD
+): ExtractedField[] {
+  return EXTRACTED_FIELDS.filter((field) => confidence[field] < threshold)
+}
@@ -0,0 +1,328 @@
+/**
+ * Skill 导入解析
+ * 支持与导出一致的三种格式：SKILL.md（export.md）、export.json、export.zip
+ * 解析结果统一为 SkillData + supporting files，供 /api/skills/import 预览与落库
+ */
+import AdmZip from 'adm-zip'
+import { inflateRawSync } from 'zlib'
+import { validateSkillFilePath } from './skill-files'
+import { extractSkillFromMarkdown, type SkillFieldConfidence } from './skill-extract'
+import { slugify } from './slugify'
+import type { SkillData, SkillGuardrails } from './types'
+
+export const IMPORT_TEXT_MAX = 200 * 1024 // 200KB
+export const IMPORT_BINARY_MAX = 2 * 1024 * 1024 // 2MB
+export const IMPORT_ZIP_EXTRACT_MAX = 50 * 1024 * 1024 // 50MB，解压后总量
+
+export type ImportFormat = 'md' | 'json' | 'zip'
+
+export interface ImportedSkillFile {
+  path: string
+  mime: string
+  isBinary: boolean
+  contentText: string | null
+  contentBytes: Buffer | null
+  size: number
+}
+
+export interface ImportedSkill {
+  /** 来源（文件名或 zip 内目录），用于预览展示 */
+  source: string
+  skill: SkillData & { slug: string; tags: string[] }
+  files: ImportedSkillFile[]
+  warnings: string[]
+  /** SKILL.md 逐字段解析置信度；JSON 为结构化数据，不适用时为 null */
+  confidence: SkillFieldConfidence | null
+}
+
+const ESCALATIONS: SkillGuardrails['escalation'][] = ['REVIEW', 'BLOCK', 'ASK_HUMAN']
+
+const TEXT_EXTENSIONS = new Set([
+  '.md', '.txt', '.json', '.yaml', '.yml', '.xml', '.xsd', '.html', '.css',
+  '.js', '.ts', '.py', '.sh', '.sql', '.csv',
+])
+
+const MIME_BY_EXT: Record<string, string> = {
+  '.md': 'text/markdown',
+  '.txt': 'text/plain',
+  '.json': 'application/json',
+  '.yaml': 'application/x-yaml',
+  '.yml': 'application/x-yaml',
+  '.xml': 'application/xml',
+  '.xsd': 'application/xml',
+  '.html': 'text/html',
+  '.css': 'text/css',
+  '.js': 'text/javascript',
+  '.ts': 'text/typescript',
+  '.py': 'text/x-python',
+  '.sh': 'text/x-shellscript',
+  '.sql': 'application/sql',
+  '.csv': 'text/csv',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.pdf': 'application/pdf',
+  '.ttf': 'font/ttf',
+  '.gz': 'application/gzip',
+}
+
+function sanitizeText(raw: unknown): string {
+  return String(raw ?? '').replace(/\u0000/g, '').trim()
+}
+
+function extname(filePath: string): string {
+  const name = filePath.split('/').pop() || ''
+  const dot = name.lastIndexOf('.')
+  return dot > 0 ? name.slice(dot).toLowerCase() : ''
+}
+
+function toStringArray(value: unknown): string[] {
+  if (Array.isArray(value)) return value.map((item) => sanitizeText(item)).filter(Boolean)
+  if (typeof value === 'string') {
+    return value.split(',').map((item) => sanitizeText(item)).filter(Boolean)
+  }
+  return []
+}
+
+/**
+ * 解析 SKILL.md 为 SkillData（字段抽取见 skill-extract）
+ * 未匹配到的段落回退到 description 推导或空值，交由 lint 报告
+ */
+export function parseSkillMarkdownDocument(
+  markdown: string,
+  fallbackSlug = ''
+): SkillData & { slug: string; tags: string[] } {
+  return extractSkillFromMarkdown(markdown, fallbackSlug).skill
+}
+
+/**
+ * 解析 export.json 结构为 SkillData
+ */
+export function parseSkillJsonDocument(input: unknown): SkillData & { slug: string; tags: string[] } {
+  const obj = (input && typeof input === 'object' ? input : {}) as Record<string, unknown>
+  const guardrails = (obj.guardrails && typeof obj.guardrails === 'object'
+    ? obj.guardrails
+    : {}) as Record<string, unknown>
+  const escalation = sanitizeText(guardrails.escalation).toUpperCase() as SkillGuardrails['escalation']
+  const tests = Array.isArray(obj.tests) ? obj.tests : []
+
+  const title = sanitizeText(obj.title) || sanitizeText(obj.name)
+  return {
+    title,
+    slug: sanitizeText(obj.name) || sanitizeText(obj.slug) || slugify(title),
+    summary: sanitizeText(obj.summary),
+    inputs: sanitizeText(obj.inputs),
+    outputs: sanitizeText(obj.outputs),
+    steps: toStringArray(obj.steps),
+    risks: sanitizeText(obj.risks),
+    triggers: toStringArray(obj.triggers),
+    guardrails: {
+      allowed_tools: toStringArray(guardrails.allowed_tools ?? obj.allowed_tools),
+      disable_model_invocation: (guardrails.disable_model_invocation ?? obj.disable_model_invocation) === true,
+      user_invocable: (guardrails.user_invocable ?? obj.user_invocable) !== false,
+      stop_conditions: toStringArray(guardrails.stop_conditions),
+      escalation: ESCALATIONS.includes(escalation) ? escalation : 'ASK_HUMAN',
+    },
+    tests: tests.map((item) => {
+      const t = (item && typeof item === 'object' ? item : {}) as Record<string, unknown>
+      return {
+        name: sanitizeText(t.name),
+        input: sanitizeText(t.input),
+        expected_output: sanitizeText(t.expected_output),
+      }
+    }),
+    tags: toStringArray(obj.tags),
+  }
+}
+
+function isLikelyText(filePath: string, buffer: Buffer): boolean {
+  if (TEXT_EXTENSIONS.has(extname(filePath))) return true
+  if (buffer.includes(0)) return false
+  const sample = buffer.subarray(0, Math.min(2048, buffer.length)).toString('utf8')
+  const replacements = (sample.match(/�/g) || []).length
+  return sample.length === 0 || replacements / sample.length < 0.02
+}
+
+function guessMime(filePath: string, isText: boolean): string {
+  return MIME_BY_EXT[extname(filePath)] || (isText ? 'text/plain' : 'application/octet-stream')
+}
+
+/**
+ * 将 zip 内的单个文件转换为 supporting file，非法路径或超限时返回 warning
+ */
+export function toImportedFile(
+  filePath: string,
+  buffer: Buffer
+): { file: ImportedSkillFile | null; warning?: string } {
+  const validation = validateSkillFilePath(filePath)
+  if (!validation.valid) {
+    return { file: null, warning: `Skip ${filePath}: ${validation.errors.join('; ')}` }
+  }
+
+  const isText = isLikelyText(filePath, buffer)
+  if (isText && buffer.length > IMPORT_TEXT_MAX) {
+    return { file: null, warning: `Skip ${filePath}: text file exceeds 200KB` }
+  }
+  if (!isText && buffer.length > IMPORT_BINARY_MAX) {
+    return { file: null, warning: `Skip ${filePath}: binary file exceeds 2MB` }
+  }
+
+  return {
+    file: {
+      path: filePath,
+      mime: guessMime(filePath, isText),
+      isBinary: !isText,
+      contentText: isText ? buffer.toString('utf8') : null,
+      contentBytes: isText ? null : buffer,
+      size: buffer.length,
+    },
+  }
+}
+
+const ZIP_METHOD_DEFLATED = 8
+
+/**
+ * 声明大小为 0 的条目 adm-zip 解压时不设输出上限，只放行真正解压为空的条目
+ */
+function isEmptyZipEntry(entry: AdmZip.IZipEntry): boolean {
+  if (entry.header.compressedSize === 0) return true
+  if (entry.header.method !== ZIP_METHOD_DEFLATED) return false
+  try {
+    return inflateRawSync(entry.getCompressedData(), { maxOutputLength: 1 }).length === 0
+  } catch {
+    return false
+  }
+}
+
+/**
+ * 解析 zip：每个包含 SKILL.md 的目录视为一个 Skill，兼容根目录直接放 SKILL.md。
+ * 解压前先按条目声明的原始大小检查单文件与累计上限，避免压缩炸弹整体解压进内存
+ */
+export function parseSkillZip(buffer: Buffer, source = 'upload.zip'): ImportedSkill[] {
+  const zip = new AdmZip(buffer)
+  const entries = zip.getEntries().filter((entry) => !entry.isDirectory)
+
+  const roots: string[] = []
+  for (const entry of entries) {
+    const entryPath = entry.entryName.replace(/\\/g, '/').replace(/^\/+/, '')
+    const parts = entryPath.split('/')
+    if (parts[parts.length - 1].toLowerCase() !== 'skill.md') continue
+    if (parts.length > 2) continue
+    roots.push(parts.length === 2 ? parts[0] : '')
+  }
+
+  // 超过单文件上限的条目会被跳过，不计入累计
+  const extractSize = entries
+    .map((entry) => entry.header.size)
+    .filter((size) => size <= IMPORT_BINARY_MAX)
+    .reduce((sum, size) => sum + size, 0)
+  if (extractSize > IMPORT_ZIP_EXTRACT_MAX) {
+    throw new Error('Zip content exceeds 50MB when extracted')
+  }
+
+  const readEntry = (entry: AdmZip.IZipEntry, relativePath: string, max: number, warnings: string[]): Buffer | null => {
+    if (entry.header.size > max) {
+      warnings.push(`Skip ${relativePath}: file exceeds ${max === IMPORT_TEXT_MAX ? '200KB' : '2MB'}`)
+      return null
+    }
+    if (entry.header.size === 0 && !isEmptyZipEntry(entry)) {
+      warnings.push(`Skip ${relativePath}: declared size does not match content`)
+      return null
+    }
+    const data = entry.getData()
+    if (data.length !== entry.header.size) {
+      warnings.push(`Skip ${relativePath}: declared size does not match content`)
+      return null
+    }
+    return data
+  }
+
+  return roots.sort().map((root) => {
+    const prefix = root ? `${root}/` : ''
+    const warnings: string[] = []
+    const files: ImportedSkillFile[] = []
+    let markdown = ''
+
+    for (const entry of entries) {
+      const entryPath = entry.entryName.replace(/\\/g, '/').replace(/^\/+/, '')
+      if (prefix && !entryPath.startsWith(prefix)) continue
+      const relativePath = entryPath.slice(prefix.length)
+      if (!prefix && roots.some((r) => r && entryPath.startsWith(`${r}/`))) continue
+
+      if (relativePath.toLowerCase() === 'skill.md') {
+        markdown = readEntry(entry, relativePath, IMPORT_TEXT_MAX, warnings)?.toString('utf8') ?? ''
+        continue
+      }
+      const data = readEntry(entry, relativePath, IMPORT_BINARY_MAX, warnings)
+      if (!data) continue
+      const { file, warning } = toImportedFile(relativePath, data)
+      if (warning) warnings.push(warning)
+      if (file) files.push(file)
+    }
+
+    const extracted = extractSkillFromMarkdown(markdown, root)
+    return {
+      source: root ? `${source}:${root}` : source,
+      skill: extracted.skill,
+      files: files.sort((a, b) => a.path.localeCompare(b.path)),
+      warnings,
+      confidence: extracted.confidence,
+    }
+  })
+}
+
+/**
+ * 根据文件名判断导入格式
+ */
+export function detectImportFormat(filename: string): ImportFormat | null {
+  const ext = extname(filename)
+  if (ext === '.md' || ext === '.markdown') return 'md'
+  if (ext === '.json') return 'json'
+  if (ext === '.zip') return 'zip'
+  return null
+}
+
+/**
+ * 解析上传内容为待导入的 Skill 列表；JSON 同时接受单个对象或数组
+ */
+export function parseImportPayload(filename: string, buffer: Buffer): ImportedSkill[] {
+  const format = detectImportFormat(filename)
+  if (!format) {
+    throw new Error('Unsupported file type. Expected .md, .json or .zip')
+  }
+
+  if (format === 'zip') {
+    const items = parseSkillZip(buffer, filename)
+    if (items.length === 0) throw new Error('No SKILL.md found in zip')
+    return items
+  }
+
+  const text = buffer.toString('utf8')
+  if (format === 'md') {
+    const baseName = filename.replace(/\.(md|markdown)$/i, '')
+    const extracted = extractSkillFromMarkdown(text, baseName.toLowerCase() === 'skill' ? '' : baseName)
+    return [{
+      source: filename,
+      skill: extracted.skill,
+      files: [],
+      warnings: [],
+      confidence: extracted.confidence,
+    }]
+  }
+
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(text)
+  } catch {
+    throw new Error('Invalid JSON file')
+  }
+  const list = Array.isArray(parsed) ? parsed : [parsed]
+  return list.map((item, index) => ({
+    source: list.length > 1 ? `${filename}[${index}]` : filename,
+    skill: parseSkillJsonDocument(item),
+    files: [],
+    warnings: [],
+    confidence: null,
+  }))
+}
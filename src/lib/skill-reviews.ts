@@ -0,0 +1,171 @@
+/**
+ * 发布前审核：作者针对某个版本发起审核，审核人通过或要求修改（意见可锚定到具体字段）
+ * 该版本累计通过数达到 requiredApprovals 后才可发布；纯函数与 schema 前后端共用
+ */
+import { z } from 'zod/v4'
+
+export const REVIEW_NOT_READY_MESSAGE =
+  'Skill reviews are not initialized. Run pnpm db:generate:local and pnpm db:push:local, then restart dev server.'
+
+export const REVIEW_REQUIRED_MESSAGE = 'Review approval required'
+
+export const REVIEW_STATUSES = ['pending', 'approved', 'changes_requested', 'superseded'] as const
+export type ReviewStatus = (typeof REVIEW_STATUSES)[number]
+
+export const REVIEW_STATUS_LABELS: Record<ReviewStatus, string> = {
+  pending: '待审核',
+  approved: '已通过',
+  changes_requested: '需修改',
+  superseded: '已被新提交替代',
+}
+
+export const REVIEW_DECISIONS = ['approve', 'request_changes'] as const
+export type ReviewDecision = (typeof REVIEW_DECISIONS)[number]
+
+/** 审核意见可锚定的字段 */
+export const REVIEW_FIELD_LABELS = {
+  title: '标题',
+  summary: '摘要',
+  inputs: '输入',
+  outputs: '输出',
+  steps: '步骤',
+  risks: '风险',
+  triggers: '触发词',
+  guardrails: '护栏',
+  tests: '测试用例',
+  files: '支持文件',
+} as const
+
+export type ReviewField = keyof typeof REVIEW_FIELD_LABELS
+
+const REVIEW_FIELDS = Object.keys(REVIEW_FIELD_LABELS) as [ReviewField, ...ReviewField[]]
+
+export const submitReviewSchema = z.object({
+  note: z.string().trim().max(2000).optional(),
+})
+
+export const reviewFieldCommentSchema = z.object({
+  field: z.enum(REVIEW_FIELDS),
+  message: z.string().trim().min(1).max(2000),
+})
+
+export type ReviewFieldComment = z.infer<typeof reviewFieldCommentSchema>
+
+export const reviewDecisionSchema = z
+  .object({
+    decision: z.enum(REVIEW_DECISIONS),
+    comment: z.string().trim().max(4000).optional(),
+    fieldComments: z.array(reviewFieldCommentSchema).max(50).default([]),
+  })
+  .refine((value) => value.decision === 'approve' || !!value.comment || value.fieldComments.length > 0, {
+    message: 'Requesting changes needs a comment',
+  })
+
+/**
+ * 升级策略为 BLOCK 或声明了 allowed_tools 的 Skill 需要两人通过，其余一人
+ */
+export function requiredApprovalsFor(guardrails: unknown): number {
+  if (!guardrails || typeof guardrails !== 'object') return 1
+  const { escalation, allowed_tools: allowedTools } = guardrails as { escalation?: unknown; allowed_tools?: unknown }
+  if (escalation === 'BLOCK') return 2
+  if (Array.isArray(allowedTools) && allowedTools.length > 0) return 2
+  return 1
+}
+
+export function parseFieldComments(raw: unknown): ReviewFieldComment[] {
+  if (!Array.isArray(raw)) return []
+  return raw.flatMap((item) => {
+    const parsed = reviewFieldCommentSchema.safeParse(item)
+    return parsed.success ? [parsed.data] : []
+  })
+}
+
+type SkillReviewRepo = {
+  findFirst: (args: {
+    where: { skillVersionId: number; status: ReviewStatus }
+    select: { id: true }
+  }) => Promise<{ id: number } | null>
+}
+
+function isPrismaCode(err: unknown, code: string): boolean {
+  return !!err && typeof err === 'object' && 'code' in err && (err as { code?: string }).code === code
+}
+
+export function hasSkillReviews(client: unknown): client is { skillReview: SkillReviewRepo } {
+  return !!client && typeof client === 'object' && 'skillReview' in client && 'skillReviewDecision' in client
+}
+
+export function isReviewSchemaNotReadyError(err: unknown): boolean {
+  if (isPrismaCode(err, 'P2021') || isPrismaCode(err, 'P2022')) return true
+  const message = err instanceof Error ? err.message : ''
+  return message.includes('skill_reviews') || message.includes('skill_review_decisions')
+}
+
+export async function isVersionApproved(client: { skillReview: SkillReviewRepo }, skillVersionId: number): Promise<boolean> {
+  const approved = await client.skillReview.findFirst({
+    where: { skillVersionId, status: 'approved' },
+    select: { id: true },
+  })
+  return !!approved
+}
+
+export type SkillReviewRow = {
+  id: number
+  skillId: number
+  skillVersionId: number
+  status: string
+  requiredApprovals: number
+  note: string | null
+  createdAt: Date
+  createdBy: string
+  resolvedAt: Date | null
+  skillVersion: { version: number }
+  decisions: Array<{
+    id: number
+    decision: string
+    comment: string | null
+    fieldComments: unknown
+    createdAt: Date
+    createdBy: string
+  }>
+}
+
+export function toSkillReviewResponse(row: SkillReviewRow, actorNames: Map<string, string> = new Map()) {
+  const decisions = [...row.decisions].sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime() || a.id - b.id)
+  return {
+    id: row.id,
+    skillId: row.skillId,
+    versionId: row.skillVersionId,
+    version: row.skillVersion.version,
+    status: row.status as ReviewStatus,
+    requiredApprovals: row.requiredApprovals,
+    approvals: decisions.filter((item) => item.decision === 'approve').length,
+    note: row.note,
+    createdAt: row.createdAt.toISOString(),
+    createdBy: row.createdBy,
+    createdByName: actorNames.get(row.createdBy) ?? null,
+    resolvedAt: row.resolvedAt ? row.resolvedAt.toISOString() : null,
+    decisions: decisions.map((item) => ({
+      id: item.id,
+      decision: item.decision as ReviewDecision,
+      comment: item.comment,
+      fieldComments: parseFieldComments(item.fieldComments),
+      createdAt: item.createdAt.toISOString(),
+      createdBy: item.createdBy,
+      createdByName: actorNames.get(item.createdBy) ?? null,
+    })),
+  }
+}
+
+export type SkillReviewItem = ReturnType<typeof toSkillReviewResponse>
+
+/** GET /api/skills/:id/reviews 的响应 */
+export type SkillReviewOverview = {
+  items: SkillReviewItem[]
+  latestVersion: number | null
+  publishable: boolean
+}
+
+export function reviewActors(rows: SkillReviewRow[]): string[] {
+  return rows.flatMap((row) => [row.createdBy, ...row.decisions.map((item) => item.createdBy)])
+}
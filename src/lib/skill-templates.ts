@@ -0,0 +1,193 @@
+/**
+ * Skill 模板
+ * - 模板保存部分 SkillData、默认 supporting files 与默认标签
+ * - 文本中的 {{variable}} 占位符在应用模板时由用户填写
+ */
+import { z } from 'zod/v4'
+import { validateSkillFilePath } from './skill-files'
+import { normalizeTagNames } from './tag-normalize'
+
+export const TEMPLATE_FILE_TEXT_MAX = 200 * 1024 // 200KB，与文件接口一致
+
+const VARIABLE_PATTERN = /\{\{\s*([a-zA-Z_][a-zA-Z0-9_]*)\s*\}\}/g
+
+const templatePayloadSchema = z.object({
+  title: z.string().max(200).optional(),
+  summary: z.string().optional(),
+  inputs: z.string().optional(),
+  outputs: z.string().optional(),
+  steps: z.array(z.string()).optional(),
+  risks: z.string().optional(),
+  triggers: z.array(z.string()).optional(),
+  guardrails: z.object({
+    allowed_tools: z.array(z.string()).default([]),
+    disable_model_invocation: z.boolean().default(false),
+    user_invocable: z.boolean().default(true),
+    stop_conditions: z.array(z.string()).default([]),
+    escalation: z.enum(['REVIEW', 'BLOCK', 'ASK_HUMAN']).default('ASK_HUMAN'),
+  }).optional(),
+  tests: z.array(z.object({
+    name: z.string(),
+    input: z.string(),
+    expected_output: z.string(),
+  })).optional(),
+})
+
+// 模板中的 SkillData 字段均为可选
+export type SkillTemplatePayload = z.infer<typeof templatePayloadSchema>
+
+export type SkillTemplateFile = {
+  path: string
+  mime: string
+  content: string
+}
+
+export type SkillTemplateContent = {
+  payload: SkillTemplatePayload
+  files: SkillTemplateFile[]
+  tags: string[]
+}
+
+const templateFileSchema = z.object({
+  path: z.string().min(1).refine((value) => validateSkillFilePath(value).valid, 'Invalid file path'),
+  mime: z.string().max(200).optional(),
+  content: z.string().refine(
+    (value) => new TextEncoder().encode(value).length <= TEMPLATE_FILE_TEXT_MAX,
+    'Template file exceeds 200KB limit'
+  ),
+})
+
+export const skillTemplateFilesSchema = z.array(templateFileSchema)
+
+const templateNameSchema = z.string().trim().min(1, 'Template name is required').max(120)
+const templateDescriptionSchema = z.string().max(2000)
+
+export const skillTemplateSchema = z.object({
+  name: templateNameSchema,
+  description: templateDescriptionSchema.default(''),
+  payload: templatePayloadSchema.default({}),
+  files: z.array(templateFileSchema).default([]),
+  tags: z.array(z.string()).default([]),
+})
+
+// 更新时缺省字段保持原值，因此不带默认值
+export const updateSkillTemplateSchema = z.object({
+  name: templateNameSchema.optional(),
+  description: templateDescriptionSchema.optional(),
+  payload: templatePayloadSchema.optional(),
+  files: z.array(templateFileSchema).optional(),
+  tags: z.array(z.string()).optional(),
+})
+
+export type SkillTemplateInput = z.infer<typeof skillTemplateSchema>
+
+export function defaultTemplateFileMime(path: string): string {
+  return /\.(md|markdown)$/i.test(path) ? 'text/markdown' : 'text/plain'
+}
+
+/**
+ * 规范化模板输入：文件去重（同 path 取最后一个）、补全 mime、标签规范化
+ */
+export function normalizeTemplateContent(input: {
+  payload: SkillTemplatePayload
+  files: Array<{ path: string; mime?: string; content: string }>
+  tags: string[]
+}): SkillTemplateContent {
+  const files = new Map<string, SkillTemplateFile>()
+  for (const file of input.files) {
+    files.set(file.path, { path: file.path, mime: file.mime || defaultTemplateFileMime(file.path), content: file.content })
+  }
+  return {
+    payload: input.payload,
+    files: [...files.values()].sort((a, b) => a.path.localeCompare(b.path)),
+    tags: normalizeTagNames(input.tags),
+  }
+}
+
+function collectStrings(value: unknown, out: string[]) {
+  if (typeof value === 'string') out.push(value)
+  else if (Array.isArray(value)) value.forEach((item) => collectStrings(item, out))
+  else if (value && typeof value === 'object') Object.values(value).forEach((item) => collectStrings(item, out))
+}
+
+function replaceStrings<T>(value: T, replace: (text: string) => string): T {
+  if (typeof value === 'string') return replace(value) as T
+  if (Array.isArray(value)) return value.map((item) => replaceStrings(item, replace)) as T
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, replaceStrings(item, replace)])
+    ) as T
+  }
+  return value
+}
+
+/**
+ * 提取模板中出现的占位变量名（按首次出现顺序去重）
+ */
+export function extractTemplateVariables(template: SkillTemplateContent): string[] {
+  const texts: string[] = []
+  collectStrings(template, texts)
+  const names: string[] = []
+  for (const text of texts) {
+    for (const match of text.matchAll(VARIABLE_PATTERN)) {
+      if (!names.includes(match[1])) names.push(match[1])
+    }
+  }
+  return names
+}
+
+/**
+ * 用变量值替换占位符；未提供的变量保持原样，便于用户在表单中继续修改
+ */
+export function applyTemplateVariables(
+  template: SkillTemplateContent,
+  values: Record<string, string>
+): SkillTemplateContent {
+  const replace = (text: string) =>
+    text.replace(VARIABLE_PATTERN, (raw, name: string) =>
+      Object.prototype.hasOwnProperty.call(values, name) ? values[name] : raw
+    )
+  return {
+    payload: replaceStrings(template.payload, replace),
+    files: template.files.map((file) => ({ ...file, path: replace(file.path), content: replace(file.content) })),
+    tags: normalizeTagNames(template.tags.map(replace)),
+  }
+}
+
+type SkillTemplateRow = {
+  id: number
+  name: string
+  description: string
+  payload: unknown
+  files: unknown
+  tags: unknown
+  createdAt: Date
+  updatedAt: Date
+}
+
+/**
+ * 数据库行 → API 响应，附带占位变量列表
+ */
+export function toSkillTemplateResponse(row: SkillTemplateRow) {
+  const parsed = skillTemplateSchema.safeParse({
+    name: row.name,
+    description: row.description,
+    payload: row.payload ?? {},
+    files: Array.isArray(row.files) ? row.files : [],
+    tags: Array.isArray(row.tags) ? row.tags : [],
+  })
+  const content = normalizeTemplateContent(
+    parsed.success ? parsed.data : { payload: {}, files: [], tags: [] }
+  )
+  return {
+    id: row.id,
+    name: row.name,
+    description: row.description,
+    ...content,
+    variables: extractTemplateVariables(content),
+    createdAt: row.createdAt.toISOString(),
+    updatedAt: row.updatedAt.toISOString(),
+  }
+}
+
+export type SkillTemplateResponse = ReturnType<typeof toSkillTemplateResponse>
@@ -0,0 +1,186 @@
+/**
+ * Skill 测试评分器：按 expected_output 判定模型输出是否通过
+ * exact / contains / regex / json-subset 为本地判定，llm-judge 交给 chat provider 评审
+ */
+import type { ChatProviderAdapter } from './chat/providers/types'
+
+export const SKILL_TEST_GRADERS = ['exact', 'contains', 'regex', 'json-subset', 'llm-judge'] as const
+
+export type SkillTestGraderName = (typeof SKILL_TEST_GRADERS)[number]
+
+export interface GradeInput {
+  input: string
+  expected: string
+  output: string
+}
+
+export interface GradeResult {
+  passed: boolean
+  reason: string
+}
+
+export interface SkillTestGrader {
+  readonly name: SkillTestGraderName
+  grade(input: GradeInput): Promise<GradeResult>
+}
+
+function normalizeWhitespace(text: string): string {
+  return text.replace(/\r\n/g, '\n').trim()
+}
+
+const exactGrader: SkillTestGrader = {
+  name: 'exact',
+  async grade({ expected, output }) {
+    const passed = normalizeWhitespace(output) === normalizeWhitespace(expected)
+    return { passed, reason: passed ? '输出与预期完全一致' : '输出与预期不一致' }
+  },
+}
+
+const containsGrader: SkillTestGrader = {
+  name: 'contains',
+  async grade({ expected, output }) {
+    const passed = output.toLowerCase().includes(normalizeWhitespace(expected).toLowerCase())
+    return { passed, reason: passed ? '输出包含预期内容' : '输出未包含预期内容' }
+  },
+}
+
+// 支持 "/pattern/flags" 与裸 pattern 两种写法
+export function parseExpectedRegex(expected: string): RegExp {
+  const trimmed = expected.trim()
+  const literal = /^\/([\s\S]+)\/([dgimsuy]*)$/.exec(trimmed)
+  return literal ? new RegExp(literal[1], literal[2]) : new RegExp(trimmed)
+}
+
+const regexGrader: SkillTestGrader = {
+  name: 'regex',
+  async grade({ expected, output }) {
+    let pattern: RegExp
+    try {
+      pattern = parseExpectedRegex(expected)
+    } catch (err) {
+      return { passed: false, reason: `预期正则不合法：${err instanceof Error ? err.message : String(err)}` }
+    }
+    const passed = pattern.test(output)
+    return { passed, reason: passed ? `输出匹配 ${pattern}` : `输出不匹配 ${pattern}` }
+  },
+}
+
+/**
+ * 从模型输出中提取 JSON：优先 ```json 代码块，其次首个 { 到末个 } 的片段
+ */
+export function extractJson(output: string): unknown {
+  const fenced = /```(?:json)?\s*\n([\s\S]*?)```/.exec(output)
+  const candidates = [fenced?.[1], output]
+  for (const candidate of candidates) {
+    if (candidate === undefined) continue
+    try {
+      return JSON.parse(candidate.trim())
+    } catch {
+      const start = candidate.search(/[[{]/)
+      const end = Math.max(candidate.lastIndexOf('}'), candidate.lastIndexOf(']'))
+      if (start >= 0 && end > start) {
+        try {
+          return JSON.parse(candidate.slice(start, end + 1))
+        } catch {
+          // 继续尝试下一个候选
+        }
+      }
+    }
+  }
+  throw new Error('输出中没有可解析的 JSON')
+}
+
+/**
+ * expected 是否为 actual 的子集：对象按键递归，数组要求逐项匹配（actual 可更长），其余严格相等
+ */
+export function isJsonSubset(expected: unknown, actual: unknown): boolean {
+  if (Array.isArray(expected)) {
+    if (!Array.isArray(actual) || actual.length < expected.length) return false
+    return expected.every((item, i) => isJsonSubset(item, actual[i]))
+  }
+  if (expected && typeof expected === 'object') {
+    if (!actual || typeof actual !== 'object' || Array.isArray(actual)) return false
+    return Object.entries(expected).every(([key, value]) =>
+      isJsonSubset(value, (actual as Record<string, unknown>)[key])
+    )
+  }
+  return expected === actual
+}
+
+const jsonSubsetGrader: SkillTestGrader = {
+  name: 'json-subset',
+  async grade({ expected, output }) {
+    let expectedJson: unknown
+    try {
+      expectedJson = JSON.parse(expected)
+    } catch {
+      return { passed: false, reason: '预期输出不是合法 JSON' }
+    }
+    let actualJson: unknown
+    try {
+      actualJson = extractJson(output)
+    } catch (err) {
+      return { passed: false, reason: err instanceof Error ? err.message : String(err) }
+    }
+    const passed = isJsonSubset(expectedJson, actualJson)
+    return { passed, reason: passed ? '输出 JSON 包含预期字段' : '输出 JSON 与预期字段不符' }
+  },
+}
+
+const JUDGE_SYSTEM_PROMPT = `You are grading the output of an AI skill against the expected output.
+Reply with ONLY a JSON object: {"pass": true|false, "reason": "<one sentence>"}.
+Pass when the actual output satisfies the intent of the expected output; ignore formatting differences.`
+
+export async function collectChatText(
+  provider: ChatProviderAdapter,
+  system: string,
+  userText: string
+): Promise<string> {
+  let text = ''
+  for await (const event of provider.stream({ system, messages: [{ role: 'user', content: userText }] })) {
+    if (event.type === 'text_delta') text += event.text
+  }
+  return text
+}
+
+export function createLlmJudgeGrader(provider: ChatProviderAdapter): SkillTestGrader {
+  return {
+    name: 'llm-judge',
+    async grade({ input, expected, output }) {
+      const reply = await collectChatText(
+        provider,
+        JUDGE_SYSTEM_PROMPT,
+        `Input:\n${input}\n\nExpected output:\n${expected}\n\nActual output:\n${output}`
+      )
+      let verdict: unknown
+      try {
+        verdict = extractJson(reply)
+      } catch {
+        return { passed: false, reason: `评审回复无法解析：${reply.slice(0, 200)}` }
+      }
+      const { pass, reason } = (verdict && typeof verdict === 'object' ? verdict : {}) as { pass?: unknown; reason?: unknown }
+      if (typeof pass !== 'boolean') {
+        return { passed: false, reason: `评审回复缺少 pass 字段：${reply.slice(0, 200)}` }
+      }
+      return { passed: pass, reason: typeof reason === 'string' && reason ? reason : (pass ? '评审通过' : '评审未通过') }
+    },
+  }
+}
+
+const LOCAL_GRADERS: Record<Exclude<SkillTestGraderName, 'llm-judge'>, SkillTestGrader> = {
+  exact: exactGrader,
+  contains: containsGrader,
+  regex: regexGrader,
+  'json-subset': jsonSubsetGrader,
+}
+
+/**
+ * 获取评分器；llm-judge 需要传入评审用的 chat provider
+ */
+export function resolveGrader(name: SkillTestGraderName, judge?: ChatProviderAdapter): SkillTestGrader {
+  if (name === 'llm-judge') {
+    if (!judge) throw new Error('llm-judge grader requires a chat provider')
+    return createLlmJudgeGrader(judge)
+  }
+  return LOCAL_GRADERS[name]
+}
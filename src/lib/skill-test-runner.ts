@@ -0,0 +1,174 @@
+/**
+ * Skill 测试运行：以渲染后的 SKILL.md 作为 system，逐条把测试 input 交给 chat provider，再用评分器判定
+ * 运行结果写入 SkillTestRun（表未迁移时跳过记录）
+ */
+import { renderSkillMarkdown } from './markdown'
+import { collectChatText, type SkillTestGrader } from './skill-test-graders'
+import type { ChatProviderAdapter } from './chat/providers/types'
+import type { SkillData, SkillTestCase } from './types'
+
+export const SKILL_TEST_RUN_NOT_READY_MESSAGE =
+  'Skill test runs are not initialized. Run pnpm db:generate:local and pnpm db:push:local, then restart dev server.'
+
+export interface SkillTestCaseResult {
+  index: number
+  name: string
+  input: string
+  expected: string
+  output: string
+  passed: boolean
+  reason: string
+  error: string | null
+  durationMs: number
+}
+
+export interface SkillTestRunReport {
+  total: number
+  passed: number
+  passRate: number
+  durationMs: number
+  results: SkillTestCaseResult[]
+}
+
+export function buildTestSystemPrompt(skill: SkillData, filePaths: string[] = []): string {
+  return [
+    'You are executing the following skill. Follow its steps and guardrails, and answer the user input directly.',
+    '',
+    renderSkillMarkdown(skill, filePaths),
+  ].join('\n')
+}
+
+/**
+ * 顺序执行测试用例；单条用例出错只记为失败，不中断整轮。
+ * 只跑部分用例时传入 testIndexes（与 tests 一一对应的原始序号），结果按原始序号上报
+ */
+export async function runSkillTests(options: {
+  skill: SkillData
+  filePaths?: string[]
+  tests: SkillTestCase[]
+  testIndexes?: number[]
+  provider: ChatProviderAdapter
+  grader: SkillTestGrader
+}): Promise<SkillTestRunReport> {
+  const { skill, filePaths, tests, testIndexes, provider, grader } = options
+  const system = buildTestSystemPrompt(skill, filePaths)
+  const startedAt = Date.now()
+  const results: SkillTestCaseResult[] = []
+
+  for (const [position, test] of tests.entries()) {
+    const index = testIndexes?.[position] ?? position
+    const caseStartedAt = Date.now()
+    let output = ''
+    try {
+      output = await collectChatText(provider, system, test.input)
+      const grade = await grader.grade({ input: test.input, expected: test.expected_output, output })
+      results.push({
+        index,
+        name: test.name,
+        input: test.input,
+        expected: test.expected_output,
+        output,
+        passed: grade.passed,
+        reason: grade.reason,
+        error: null,
+        durationMs: Date.now() - caseStartedAt,
+      })
+    } catch (err) {
+      results.push({
+        index,
+        name: test.name,
+        input: test.input,
+        expected: test.expected_output,
+        output,
+        passed: false,
+        reason: '运行出错',
+        error: err instanceof Error ? err.message : String(err),
+        durationMs: Date.now() - caseStartedAt,
+      })
+    }
+  }
+
+  const passed = results.filter((r) => r.passed).length
+  return {
+    total: results.length,
+    passed,
+    passRate: results.length > 0 ? passed / results.length : 0,
+    durationMs: Date.now() - startedAt,
+    results,
+  }
+}
+
+type SkillTestRunRow = {
+  id: number
+  skillId: number
+  provider: string
+  grader: string
+  total: number
+  passed: number
+  passRate: number
+  durationMs: number
+  results: unknown
+  createdAt: Date
+}
+
+type SkillTestRunCreateData = {
+  skillId: number
+  provider: string
+  grader: string
+  total: number
+  passed: number
+  passRate: number
+  durationMs: number
+  results: SkillTestCaseResult[]
+  createdBy?: string
+}
+
+export type SkillTestRunRepo = {
+  create: (args: { data: SkillTestRunCreateData }) => Promise<SkillTestRunRow>
+}
+
+function isPrismaCode(err: unknown, code: string): boolean {
+  return !!err && typeof err === 'object' && 'code' in err && (err as { code?: string }).code === code
+}
+
+export function hasSkillTestRuns(client: unknown): client is { skillTestRun: SkillTestRunRepo } {
+  return !!client && typeof client === 'object' && 'skillTestRun' in client
+}
+
+export function isSkillTestRunSchemaNotReadyError(err: unknown): boolean {
+  if (isPrismaCode(err, 'P2021') || isPrismaCode(err, 'P2022')) return true
+  const message = err instanceof Error ? err.message : ''
+  return message.includes('skill_test_runs')
+}
+
+export async function recordSkillTestRunIfAvailable(
+  client: unknown,
+  data: SkillTestRunCreateData
+): Promise<SkillTestRunRow | null> {
+  if (!hasSkillTestRuns(client)) return null
+  try {
+    return await client.skillTestRun.create({ data })
+  } catch (err) {
+    if (isSkillTestRunSchemaNotReadyError(err)) return null
+    throw err
+  }
+}
+
+/**
+ * 列表响应省略逐条结果；detail=true 时附带 results
+ */
+export function toSkillTestRunResponse(row: SkillTestRunRow, detail = false) {
+  const base = {
+    id: row.id,
+    skillId: row.skillId,
+    provider: row.provider,
+    grader: row.grader,
+    total: row.total,
+    passed: row.passed,
+    passRate: row.passRate,
+    durationMs: row.durationMs,
+    createdAt: row.createdAt.toISOString(),
+  }
+  if (!detail) return base
+  return { ...base, results: Array.isArray(row.results) ? (row.results as SkillTestCaseResult[]) : [] }
+}
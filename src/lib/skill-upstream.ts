@@ -0,0 +1,223 @@
+/**
+ * 上游托管 Skill 的状态查询、合并应用与脱离上游（依赖 prisma，纯逻辑见 skill-drift）
+ */
+import { prisma } from '@/lib/prisma'
+import { SYSTEM_ACTOR } from '@/lib/auth'
+import type { AuditHook } from '@/lib/audit'
+import {
+  computeSkillContentHash,
+  detectSkillDrift,
+  mergeSkillSnapshots,
+  resolveSkillMerge,
+  type DriftStatus,
+  type MergeResolutions,
+  type MergeSnapshot,
+  type SkillUpstreamState,
+} from '@/lib/skill-drift'
+import {
+  buildSkillFileManifest,
+  captureSkillFiles,
+  createSkillVersionIfAvailable,
+  hasSkillFileBlobs,
+  parseSkillSnapshot,
+  restoreSkillFiles,
+  toSkillSnapshot,
+} from '@/lib/skill-versioning'
+
+type SkillRow = NonNullable<Awaited<ReturnType<typeof loadSkill>>>
+
+function loadSkill(skillId: number) {
+  return prisma.skill.findUnique({
+    where: { id: skillId },
+    include: { tags: { include: { tag: true } }, files: true },
+  })
+}
+
+function toMergeSnapshot(skill: SkillRow): MergeSnapshot {
+  const snapshot = toSkillSnapshot(skill)
+  return {
+    title: snapshot.title,
+    summary: snapshot.summary,
+    inputs: snapshot.inputs,
+    outputs: snapshot.outputs,
+    steps: snapshot.steps,
+    risks: snapshot.risks,
+    triggers: snapshot.triggers,
+    guardrails: snapshot.guardrails,
+    tests: snapshot.tests,
+    files: buildSkillFileManifest(skill.files),
+  }
+}
+
+function parseChangeSnapshot(raw: unknown): MergeSnapshot | null {
+  const snapshot = parseSkillSnapshot(raw)
+  if (!snapshot) return null
+  return { ...snapshot, files: snapshot.files || [] }
+}
+
+export function hashMergeSnapshot(snapshot: MergeSnapshot): string {
+  return computeSkillContentHash(snapshot, snapshot.files)
+}
+
+type UpstreamChangeRow = {
+  id: number
+  sourceRef: string | null
+  sourceSha: string
+  snapshot: unknown
+  status: string
+  createdAt: Date
+}
+
+// 最近一次成功同步（直接应用或合并）的上游快照即三方合并的 base
+async function findMergeBase(skillId: number): Promise<UpstreamChangeRow | null> {
+  return prisma.skillUpstreamChange.findFirst({
+    where: { skillId, status: { in: ['applied', 'merged'] } },
+    orderBy: { createdAt: 'desc' },
+  })
+}
+
+async function findPendingChange(skillId: number): Promise<UpstreamChangeRow | null> {
+  return prisma.skillUpstreamChange.findFirst({
+    where: { skillId, status: 'pending' },
+    orderBy: { createdAt: 'desc' },
+  })
+}
+
+export type UpstreamResult<T> = { ok: true; value: T } | { ok: false; status: number; error: string; details?: unknown }
+
+export async function getSkillUpstreamState(skillId: number): Promise<UpstreamResult<SkillUpstreamState>> {
+  const skill = await loadSkill(skillId)
+  if (!skill) return { ok: false, status: 404, error: 'Skill not found' }
+
+  const ours = toMergeSnapshot(skill)
+  const state: SkillUpstreamState = {
+    skillId,
+    sourceManaged: skill.sourceManaged,
+    sourceRepo: skill.sourceRepo,
+    sourcePath: skill.sourcePath,
+    sourceRef: skill.sourceRef,
+    sourceSha: skill.sourceSha,
+    lastSyncedAt: skill.lastSyncedAt ? skill.lastSyncedAt.toISOString() : null,
+    drift: detectSkillDrift(skill, hashMergeSnapshot(ours)),
+    pending: null,
+  }
+  if (!skill.sourceManaged) return { ok: true, value: state }
+
+  const pending = await findPendingChange(skillId)
+  const theirs = pending ? parseChangeSnapshot(pending.snapshot) : null
+  if (pending && theirs) {
+    const baseRow = await findMergeBase(skillId)
+    const base = baseRow ? parseChangeSnapshot(baseRow.snapshot) : null
+    state.pending = {
+      id: pending.id,
+      sourceRef: pending.sourceRef,
+      sourceSha: pending.sourceSha,
+      createdAt: pending.createdAt.toISOString(),
+      hasBase: base !== null,
+      merge: mergeSkillSnapshots(base, ours, theirs),
+    }
+  }
+  return { ok: true, value: state }
+}
+
+/**
+ * 应用三方合并：写入合并结果与文件，记录为本次同步；syncedContentHash 取上游内容，
+ * 保留的本地修改仍显示为“本地已修改”，下次上游变更时会再次进入合并而不是被覆盖
+ */
+export async function applyUpstreamMerge(
+  skillId: number,
+  changeId: number,
+  resolutions: MergeResolutions,
+  actor = SYSTEM_ACTOR,
+  audit?: AuditHook<{ createdVersion: number | null }>
+): Promise<UpstreamResult<{ skillId: number; createdVersion: number | null; drift: DriftStatus | null }>> {
+  const skill = await loadSkill(skillId)
+  if (!skill) return { ok: false, status: 404, error: 'Skill not found' }
+  if (!skill.sourceManaged) return { ok: false, status: 409, error: 'Skill is not source-managed' }
+
+  const pending = await findPendingChange(skillId)
+  if (!pending || pending.id !== changeId) {
+    return { ok: false, status: 404, error: 'Pending upstream change not found' }
+  }
+  const theirs = parseChangeSnapshot(pending.snapshot)
+  if (!theirs) return { ok: false, status: 422, error: 'Upstream snapshot is invalid' }
+
+  const baseRow = await findMergeBase(skillId)
+  const base = baseRow ? parseChangeSnapshot(baseRow.snapshot) : null
+  const ours = toMergeSnapshot(skill)
+  const resolved = resolveSkillMerge(mergeSkillSnapshots(base, ours, theirs), ours, theirs, resolutions)
+  if (!resolved.ok) {
+    return { ok: false, status: 409, error: 'Unresolved merge conflicts', details: resolved.unresolved }
+  }
+  const merged = resolved.merged
+  const upstreamHash = hashMergeSnapshot(theirs)
+
+  const createdVersion = await prisma.$transaction(async (tx) => {
+    const now = new Date()
+    // 当前文件先写入 blob，合并结果中选 ours 的文件才能按清单恢复
+    if (hasSkillFileBlobs(tx)) {
+      await captureSkillFiles(tx, skillId)
+      await restoreSkillFiles(tx, skillId, merged.files, actor)
+    }
+    const updated = await tx.skill.update({
+      where: { id: skillId },
+      data: {
+        title: merged.title,
+        summary: merged.summary,
+        inputs: merged.inputs,
+        outputs: merged.outputs,
+        steps: merged.steps,
+        risks: merged.risks,
+        triggers: merged.triggers,
+        guardrails: merged.guardrails,
+        tests: merged.tests,
+        sourceRef: pending.sourceRef,
+        sourceSha: pending.sourceSha,
+        syncedContentHash: upstreamHash,
+        lastSyncedAt: now,
+        updatedBy: actor,
+      },
+      include: { tags: { include: { tag: true } } },
+    })
+    await tx.skillUpstreamChange.update({
+      where: { id: pending.id },
+      data: { status: 'merged', resolvedAt: now },
+    })
+    const version = await createSkillVersionIfAvailable(tx, skillId, toSkillSnapshot(updated), 'import', actor)
+    await audit?.(tx, { createdVersion: version?.version || null })
+    return version
+  })
+
+  return {
+    ok: true,
+    value: {
+      skillId,
+      createdVersion: createdVersion?.version || null,
+      drift: detectSkillDrift({ sourceManaged: true, syncedContentHash: upstreamHash }, hashMergeSnapshot(merged)),
+    },
+  }
+}
+
+/**
+ * 脱离上游：之后的同步把该 Skill 视为本地 Skill（冲突跳过），不再覆盖；来源信息保留备查
+ */
+export async function detachSkillFromUpstream(
+  skillId: number,
+  actor = SYSTEM_ACTOR,
+  audit?: AuditHook<{ dismissed: number }>
+): Promise<UpstreamResult<{ skillId: number; dismissed: number }>> {
+  const skill = await prisma.skill.findUnique({ where: { id: skillId } })
+  if (!skill) return { ok: false, status: 404, error: 'Skill not found' }
+  if (!skill.sourceManaged) return { ok: false, status: 409, error: 'Skill is not source-managed' }
+
+  const dismissed = await prisma.$transaction(async (tx) => {
+    await tx.skill.update({ where: { id: skillId }, data: { sourceManaged: false, updatedBy: actor } })
+    const result = await tx.skillUpstreamChange.updateMany({
+      where: { skillId, status: 'pending' },
+      data: { status: 'dismissed', resolvedAt: new Date() },
+    })
+    await audit?.(tx, { dismissed: result.count })
+    return result.count
+  })
+  return { ok: true, value: { skillId, dismissed } }
+}
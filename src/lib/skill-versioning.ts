@@ -1,4 +1,6 @@
+import { createHash } from 'crypto'
 import { z } from 'zod/v4'
+import { scoreSkill, type QualityScore } from './quality-score'
 
 type SkillWithTags = {
   id: number
@@ -44,9 +46,23 @@ export const skillSnapshotSchema = z.object({
     })
   ),
   tags: z.array(z.string()),
+  // 旧版本快照没有 files 字段，回滚时不改动文件
+  files: z.array(
+    z.object({
+      path: z.string().min(1),
+      mime: z.string(),
+      isBinary: z.boolean(),
+      sha256: z.string().length(64),
+      size: z.number().int().nonnegative(),
+    })
+  ).optional(),
 })
 
 export type SkillSnapshot = z.infer<typeof skillSnapshotSchema>
+export type SkillSnapshotFile = NonNullable<SkillSnapshot['files']>[number]
+
+// 版本来源：AI 应用与回滚、导入生成的版本单独标记，便于审计
+export type SkillVersionOrigin = 'manual' | 'ai' | 'rollback' | 'import'
 
 export type SkillVersionRepo = {
   findFirst: (args: {
@@ -55,7 +71,15 @@ export type SkillVersionRepo = {
     select: { version: true }
   }) => Promise<{ version: number } | null>
   create: (args: {
-    data: { skillId: number; version: number; snapshot: SkillSnapshot }
+    data: {
+      skillId: number
+      version: number
+      snapshot: SkillSnapshot
+      qualityScore?: number
+      qualityReport?: QualityScore
+      origin?: SkillVersionOrigin
+      createdBy?: string
+    }
   }) => Promise<{ id: number; version: number }>
 }
 
@@ -69,6 +93,12 @@ export function isVersioningSchemaNotReadyError(err: unknown): boolean {
   return message.includes('skill_versions') || message.includes('skill_publications')
 }
 
+function isFileBlobSchemaNotReadyError(err: unknown): boolean {
+  if (isPrismaCode(err, 'P2021') || isPrismaCode(err, 'P2022')) return true
+  const message = err instanceof Error ? err.message : ''
+  return message.includes('skill_file_blobs')
+}
+
 export function hasSkillVersioning(
   client: unknown
 ): client is { skillVersion: SkillVersionRepo } {
@@ -86,14 +116,174 @@ export function hasSkillPublication(
   return !!client && typeof client === 'object' && 'skillPublication' in client
 }
 
+type SkillFileRow = {
+  path: string
+  mime: string
+  isBinary: boolean
+  contentText: string | null
+  contentBytes: Uint8Array | null
+}
+
+type SkillFileBlobRow = {
+  sha256: string
+  isBinary: boolean
+  contentText: string | null
+  contentBytes: Uint8Array | null
+}
+
+export type SkillFileBlobClient = {
+  skillFile: {
+    findMany: (args: { where: { skillId: number } }) => Promise<SkillFileRow[]>
+    deleteMany: (args: { where: { skillId: number } }) => Promise<unknown>
+    create: (args: { data: SkillFileRow & { skillId: number; createdBy?: string; updatedBy?: string } }) => Promise<unknown>
+  }
+  skillFileBlob: {
+    upsert: (args: {
+      where: { sha256: string }
+      update: Record<string, never>
+      create: SkillFileBlobRow & { size: number }
+    }) => Promise<unknown>
+    findMany: (args: { where: { sha256: { in: string[] } } }) => Promise<SkillFileBlobRow[]>
+  }
+}
+
+export function hasSkillFileBlobs(client: unknown): client is SkillFileBlobClient {
+  return !!client && typeof client === 'object' && 'skillFile' in client && 'skillFileBlob' in client
+}
+
+function fileContentBuffer(file: Pick<SkillFileRow, 'isBinary' | 'contentText' | 'contentBytes'>): Buffer {
+  if (file.isBinary) return file.contentBytes ? Buffer.from(file.contentBytes) : Buffer.alloc(0)
+  return Buffer.from(file.contentText || '', 'utf-8')
+}
+
+function hashContent(content: Buffer): string {
+  return createHash('sha256').update(content).digest('hex')
+}
+
+/**
+ * 仅计算当前文件的快照清单（不写 blob），用于与历史版本对比
+ */
+export function buildSkillFileManifest(files: SkillFileRow[]): SkillSnapshotFile[] {
+  return files
+    .map((file) => {
+      const content = fileContentBuffer(file)
+      return { path: file.path, mime: file.mime, isBinary: file.isBinary, sha256: hashContent(content), size: content.length }
+    })
+    .sort((a, b) => a.path.localeCompare(b.path))
+}
+
+/**
+ * 将当前 SkillFile 写入内容寻址的 blob 表，返回快照用的文件清单
+ * 相同内容（sha256）只存一份
+ */
+export async function captureSkillFiles(
+  client: SkillFileBlobClient,
+  skillId: number
+): Promise<SkillSnapshotFile[]> {
+  const files = await client.skillFile.findMany({ where: { skillId } })
+  const manifest: SkillSnapshotFile[] = []
+
+  for (const file of files) {
+    const content = fileContentBuffer(file)
+    const sha256 = hashContent(content)
+    await client.skillFileBlob.upsert({
+      where: { sha256 },
+      update: {},
+      create: {
+        sha256,
+        isBinary: file.isBinary,
+        contentText: file.isBinary ? null : file.contentText || '',
+        contentBytes: file.isBinary ? content : null,
+        size: content.length,
+      },
+    })
+    manifest.push({ path: file.path, mime: file.mime, isBinary: file.isBinary, sha256, size: content.length })
+  }
+
+  return manifest.sort((a, b) => a.path.localeCompare(b.path))
+}
+
+/**
+ * 按快照文件清单重建 SkillFile（先清空再写入）
+ */
+export async function restoreSkillFiles(
+  client: SkillFileBlobClient,
+  skillId: number,
+  files: SkillSnapshotFile[],
+  actor?: string
+) {
+  const hashes = [...new Set(files.map((f) => f.sha256))]
+  const blobs = hashes.length > 0
+    ? await client.skillFileBlob.findMany({ where: { sha256: { in: hashes } } })
+    : []
+  const blobMap = new Map(blobs.map((blob) => [blob.sha256, blob]))
+  const missing = hashes.filter((hash) => !blobMap.has(hash))
+  if (missing.length > 0) {
+    throw Object.assign(new Error(`Snapshot file content missing: ${missing.join(', ')}`), {
+      code: 'SNAPSHOT_BLOB_MISSING',
+    })
+  }
+
+  await client.skillFile.deleteMany({ where: { skillId } })
+  for (const file of files) {
+    const blob = blobMap.get(file.sha256)!
+    await client.skillFile.create({
+      data: {
+        skillId,
+        path: file.path,
+        mime: file.mime,
+        isBinary: file.isBinary,
+        contentText: file.isBinary ? null : blob.contentText,
+        contentBytes: file.isBinary ? blob.contentBytes : null,
+        ...(actor ? { createdBy: actor, updatedBy: actor } : {}),
+      },
+    })
+  }
+}
+
+export function isSnapshotBlobMissingError(err: unknown): boolean {
+  return isPrismaCode(err, 'SNAPSHOT_BLOB_MISSING')
+}
+
+async function withCapturedFiles(client: unknown, skillId: number, snapshot: SkillSnapshot) {
+  if (snapshot.files || !hasSkillFileBlobs(client)) return snapshot
+  try {
+    return { ...snapshot, files: await captureSkillFiles(client, skillId) }
+  } catch (err) {
+    if (isFileBlobSchemaNotReadyError(err)) return snapshot
+    throw err
+  }
+}
+
+/**
+ * 按快照（含文件清单）计算质量评分
+ */
+export function scoreSkillSnapshot(snapshot: SkillSnapshot): QualityScore {
+  return scoreSkill(snapshot, { filePaths: (snapshot.files || []).map((file) => file.path) })
+}
+
+// Skill 上冗余一份最新评分，供列表排序与筛选
+async function syncSkillQualityScore(client: unknown, skillId: number, score: number) {
+  if (!client || typeof client !== 'object' || !('skill' in client)) return
+  const skillRepo = (client as { skill: { update?: (args: unknown) => Promise<unknown> } }).skill
+  if (typeof skillRepo?.update !== 'function') return
+  await skillRepo.update({ where: { id: skillId }, data: { qualityScore: score } })
+}
+
 export async function createSkillVersionIfAvailable(
   client: unknown,
   skillId: number,
-  snapshot: SkillSnapshot
+  snapshot: SkillSnapshot,
+  origin?: SkillVersionOrigin,
+  actor?: string
 ) {
   if (!hasSkillVersioning(client)) return null
   try {
-    return await createSkillVersion(client.skillVersion, skillId, snapshot)
+    const fullSnapshot = await withCapturedFiles(client, skillId, snapshot)
+    const quality = scoreSkillSnapshot(fullSnapshot)
+    const created = await createSkillVersion(client.skillVersion, skillId, fullSnapshot, quality, origin, actor)
+    await syncSkillQualityScore(client, skillId, quality.score)
+    return created
   } catch (err) {
     if (isVersioningSchemaNotReadyError(err)) return null
     throw err
@@ -137,7 +327,10 @@ export function parseSkillSnapshot(raw: unknown): SkillSnapshot | null {
 export async function createSkillVersion(
   repo: SkillVersionRepo,
   skillId: number,
-  snapshot: SkillSnapshot
+  snapshot: SkillSnapshot,
+  quality?: QualityScore,
+  origin?: SkillVersionOrigin,
+  actor?: string
 ) {
   const latest = await repo.findFirst({
     where: { skillId },
@@ -150,6 +343,9 @@ export async function createSkillVersion(
       skillId,
       version: nextVersion,
       snapshot,
+      ...(quality ? { qualityScore: quality.score, qualityReport: quality } : {}),
+      ...(origin ? { origin } : {}),
+      ...(actor ? { createdBy: actor } : {}),
     },
   })
 }
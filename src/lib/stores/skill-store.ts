@@ -2,6 +2,7 @@ import { create } from 'zustand'
 import type { SkillGuardrails, SkillTestCase, SkillData } from '@/lib/types'
 import type { SkillDraft } from '@/lib/chat/types'
 import { normalizeTagName, normalizeTagNames } from '@/lib/tag-normalize'
+import { parseSkillMarkdown, type SkillMarkdownParseResult } from '@/lib/markdown'
 
 const defaultGuardrails: SkillGuardrails = {
   allowed_tools: [],
@@ -51,6 +52,8 @@ export interface SkillStoreState {
   // Actions — AI draft
   applyDraft: (draft: SkillDraft) => void
   initFromData: (data: SkillData & { tags?: string[] }) => void
+  /** 原始 SKILL.md 编辑：解析成功才写回表单（保留标签），失败时表单不变 */
+  applySkillMarkdown: (markdown: string) => SkillMarkdownParseResult
   reset: () => void
 
   // Actions — 数组操作
@@ -243,6 +246,32 @@ export const useSkillStore = create<SkillStoreState>((set, get) => ({
       tags: normalizeTagNames(data.tags || []),
     }),
 
+  applySkillMarkdown: (markdown) => {
+    const result = parseSkillMarkdown(markdown)
+    if (!result.ok) return result
+
+    // 原样写入，不补占位项，保证 render → parse → render 不变
+    const { skill } = result
+    const parsed: Omit<SkillFormFields, 'tags'> = {
+      title: skill.title,
+      summary: skill.summary,
+      inputs: skill.inputs,
+      outputs: skill.outputs,
+      steps: skill.steps,
+      risks: skill.risks,
+      triggers: skill.triggers,
+      guardrails: skill.guardrails,
+      tests: skill.tests,
+    }
+    const state = get()
+    const userEdited = new Set(state.userEdited)
+    for (const key of Object.keys(parsed) as Array<keyof typeof parsed>) {
+      if (JSON.stringify(parsed[key]) !== JSON.stringify(state[key])) userEdited.add(key)
+    }
+    set({ ...parsed, userEdited })
+    return result
+  },
+
   reset: () => {
     // 清除所有高亮 timer
     for (const timer of aiHighlightTimers.values()) clearTimeout(timer)
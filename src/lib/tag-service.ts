@@ -1,5 +1,7 @@
 import { prisma } from '@/lib/prisma'
 import { normalizeTagName, normalizeTagNames, validateTagName } from '@/lib/tag-normalize'
+import { SYSTEM_ACTOR } from '@/lib/auth'
+import type { AuditHook } from '@/lib/audit'
 
 type TagWithCount = {
   id: number
@@ -122,23 +124,30 @@ export async function listTagsPaged(queryRaw = '', pageRaw = 1, limitRaw = 20):
   }
 }
 
-export async function createOrGetTag(nameRaw: string): Promise<RenameTagResult> {
+export async function createOrGetTag(
+  nameRaw: string,
+  actor = SYSTEM_ACTOR,
+  audit?: AuditHook<RenameTagResult>
+): Promise<RenameTagResult> {
   const normalizedName = normalizeTagName(nameRaw || '')
   const validationError = validateTagName(normalizedName)
   if (validationError) {
     throw makeError('TAG_NAME_INVALID', validationError)
   }
 
-  const tag = await prisma.tag.upsert({
-    where: { name: normalizedName },
-    update: {},
-    create: { name: normalizedName },
+  return prisma.$transaction(async (tx) => {
+    const tag = await tx.tag.upsert({
+      where: { name: normalizedName },
+      update: {},
+      create: { name: normalizedName, createdBy: actor, updatedBy: actor },
+    })
+    const result = { id: tag.id, name: tag.name }
+    await audit?.(tx, result)
+    return result
   })
-
-  return { id: tag.id, name: tag.name }
 }
 
-export async function upsertTags(rawNames: string[]) {
+export async function upsertTags(rawNames: string[], actor = SYSTEM_ACTOR) {
   const names = normalizeTagNames(rawNames)
   if (names.length === 0) return []
 
@@ -152,28 +161,34 @@ export async function upsertTags(rawNames: string[]) {
       prisma.tag.upsert({
         where: { name },
         update: {},
-        create: { name },
+        create: { name, createdBy: actor, updatedBy: actor },
       })
     )
   )
 }
 
-export async function buildCreateTagConnect(rawNames: string[]) {
-  const records = await upsertTags(rawNames)
+export async function buildCreateTagConnect(rawNames: string[], actor = SYSTEM_ACTOR) {
+  const records = await upsertTags(rawNames, actor)
   return {
     create: records.map((tag) => ({ tagId: tag.id })),
   }
 }
 
-export async function buildReplaceTagConnect(rawNames: string[]) {
-  const records = await upsertTags(rawNames)
+export async function buildReplaceTagConnect(rawNames: string[], actor = SYSTEM_ACTOR) {
+  const records = await upsertTags(rawNames, actor)
   return {
     deleteMany: {},
     create: records.map((tag) => ({ tagId: tag.id })),
   }
 }
 
-export async function renameTag(tagId: number, nextNameRaw: string): Promise<RenameTagResult> {
+/** audit 只在名称实际变化时调用 */
+export async function renameTag(
+  tagId: number,
+  nextNameRaw: string,
+  actor = SYSTEM_ACTOR,
+  audit?: AuditHook<RenameTagResult & { previousName: string }>
+): Promise<RenameTagResult> {
   const current = await prisma.tag.findUnique({ where: { id: tagId } })
   if (!current) throw makeError('TAG_NOT_FOUND', 'Tag not found')
 
@@ -188,15 +203,18 @@ export async function renameTag(tagId: number, nextNameRaw: string): Promise<Ren
     throw makeError('TAG_NAME_CONFLICT', 'Tag name already exists', { conflictTagId: conflict.id })
   }
 
-  const updated = await prisma.tag.update({
-    where: { id: tagId },
-    data: { name: nextName },
+  return prisma.$transaction(async (tx) => {
+    const updated = await tx.tag.update({
+      where: { id: tagId },
+      data: { name: nextName, updatedBy: actor },
+    })
+    const result = { id: updated.id, name: updated.name }
+    await audit?.(tx, { ...result, previousName: current.name })
+    return result
   })
-
-  return { id: updated.id, name: updated.name }
 }
 
-export async function deleteTag(tagId: number): Promise<DeleteTagResult> {
+export async function deleteTag(tagId: number, audit?: AuditHook<DeleteTagResult>): Promise<DeleteTagResult> {
   const current = await prisma.tag.findUnique({
     where: { id: tagId },
     include: {
@@ -205,13 +223,16 @@ export async function deleteTag(tagId: number): Promise<DeleteTagResult> {
   })
   if (!current) throw makeError('TAG_NOT_FOUND', 'Tag not found')
 
-  await prisma.tag.delete({ where: { id: tagId } })
-
-  return {
+  const result = {
     id: current.id,
     name: current.name,
     detachedSkills: current._count.skills,
   }
+  await prisma.$transaction(async (tx) => {
+    await tx.tag.delete({ where: { id: tagId } })
+    await audit?.(tx, result)
+  })
+  return result
 }
 
 export async function getLinkedSkills(tagId: number): Promise<{ tag: RenameTagResult; skills: LinkedSkill[] }> {
@@ -244,7 +265,12 @@ export async function getLinkedSkills(tagId: number): Promise<{ tag: RenameTagRe
   }
 }
 
-export async function mergeTags(sourceTagId: number, targetTagId: number): Promise<MergeTagResult> {
+export async function mergeTags(
+  sourceTagId: number,
+  targetTagId: number,
+  actor = SYSTEM_ACTOR,
+  audit?: AuditHook<MergeTagResult>
+): Promise<MergeTagResult> {
   if (sourceTagId === targetTagId) {
     throw makeError('TAG_MERGE_INVALID', 'Source and target tags cannot be the same')
   }
@@ -265,6 +291,13 @@ export async function mergeTags(sourceTagId: number, targetTagId: number): Promi
 
   const sourceSkillIds = source.skills.map((item) => item.skillId)
   const targetSkillSet = new Set(target.skills.map((item) => item.skillId))
+  const result = {
+    sourceId: source.id,
+    targetId: target.id,
+    sourceName: source.name,
+    targetName: target.name,
+    movedSkills: sourceSkillIds.length,
+  }
 
   await prisma.$transaction(async (tx) => {
     for (const skillId of sourceSkillIds) {
@@ -276,17 +309,14 @@ export async function mergeTags(sourceTagId: number, targetTagId: number): Promi
             deleteMany: { tagId: sourceTagId },
             ...(shouldAttachTarget ? { create: [{ tagId: targetTagId }] } : {}),
           },
+          updatedBy: actor,
         },
       })
     }
     await tx.tag.delete({ where: { id: sourceTagId } })
+    await tx.tag.update({ where: { id: targetTagId }, data: { updatedBy: actor } })
+    await audit?.(tx, result)
   })
 
-  return {
-    sourceId: source.id,
-    targetId: target.id,
-    sourceName: source.name,
-    targetName: target.name,
-    movedSkills: sourceSkillIds.length,
-  }
+  return result
 }
@@ -0,0 +1,235 @@
+/**
+ * 触发词冲突检测：Claude 依据 description 中的触发短语选择 Skill，不同 Skill 的触发词过于相近时容易误触发。
+ * 相似度 = 规整后完全相同记 1，否则取词集合 Jaccard 与字符 trigram Dice 的较大值（中文按字二元组切词）
+ */
+
+export const DEFAULT_COLLISION_THRESHOLD = 0.8
+export const MIN_COLLISION_THRESHOLD = 0.5
+
+export interface TriggerSkillRef {
+  id: number
+  slug: string
+  title: string
+}
+
+export interface TriggerSource extends TriggerSkillRef {
+  triggers: string[]
+}
+
+export interface TriggerMatch {
+  trigger: string
+  otherTrigger: string
+  similarity: number
+  /** 规整后完全相同 */
+  duplicate: boolean
+}
+
+export interface TriggerCollision {
+  skill: TriggerSkillRef
+  other: TriggerSkillRef
+  /** 该对 Skill 中最相近的一组触发词的相似度 */
+  similarity: number
+  matches: TriggerMatch[]
+}
+
+const STOPWORDS = new Set(['a', 'an', 'the', 'to', 'of', 'for', 'in', 'on', 'my', 'me', 'this', 'that', 'please', 'and', 'or'])
+const CJK = /[\u3400-\u9fff\uf900-\ufaff]/
+
+type PreparedTrigger = {
+  text: string
+  normalized: string
+  tokens: Set<string>
+  grams: Set<string>
+}
+
+export function normalizeTriggerText(text: string): string {
+  return String(text || '')
+    .normalize('NFKC')
+    .toLowerCase()
+    .replace(/[\p{P}\p{S}]+/gu, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+}
+
+function tokenize(normalized: string): Set<string> {
+  const tokens = new Set<string>()
+  for (const word of normalized.split(' ')) {
+    if (!word || STOPWORDS.has(word)) continue
+    if (!CJK.test(word)) {
+      tokens.add(word)
+      continue
+    }
+    // 中文无空格分词，按相邻两字切分
+    if (word.length === 1) tokens.add(word)
+    for (let i = 0; i + 1 < word.length; i++) tokens.add(word.slice(i, i + 2))
+  }
+  return tokens
+}
+
+function trigrams(normalized: string): Set<string> {
+  const padded = `  ${normalized} `
+  const grams = new Set<string>()
+  for (let i = 0; i + 3 <= padded.length; i++) grams.add(padded.slice(i, i + 3))
+  return grams
+}
+
+function prepare(text: string): PreparedTrigger {
+  const normalized = normalizeTriggerText(text)
+  return { text, normalized, tokens: tokenize(normalized), grams: trigrams(normalized) }
+}
+
+function overlap(a: Set<string>, b: Set<string>): number {
+  const [small, large] = a.size <= b.size ? [a, b] : [b, a]
+  let count = 0
+  for (const item of small) if (large.has(item)) count++
+  return count
+}
+
+function compare(a: PreparedTrigger, b: PreparedTrigger): number {
+  if (!a.normalized || !b.normalized) return 0
+  if (a.normalized === b.normalized) return 1
+  const shared = overlap(a.tokens, b.tokens)
+  const jaccard = shared === 0 ? 0 : shared / (a.tokens.size + b.tokens.size - shared)
+  const dice = (2 * overlap(a.grams, b.grams)) / (a.grams.size + b.grams.size)
+  return Math.round(Math.max(jaccard, dice) * 1000) / 1000
+}
+
+export function triggerSimilarity(a: string, b: string): number {
+  return compare(prepare(a), prepare(b))
+}
+
+export function parseCollisionThreshold(raw: string | null): number {
+  if (raw === null || raw.trim() === '') return DEFAULT_COLLISION_THRESHOLD
+  const value = Number(raw)
+  if (!Number.isFinite(value)) return DEFAULT_COLLISION_THRESHOLD
+  return Math.min(1, Math.max(MIN_COLLISION_THRESHOLD, value))
+}
+
+function skillRef(source: TriggerSkillRef): TriggerSkillRef {
+  return { id: source.id, slug: source.slug, title: source.title }
+}
+
+function collide(a: TriggerSource, preparedA: PreparedTrigger[], b: TriggerSource, preparedB: PreparedTrigger[], threshold: number) {
+  const matches: TriggerMatch[] = []
+  for (const left of preparedA) {
+    for (const right of preparedB) {
+      const similarity = compare(left, right)
+      if (similarity < threshold) continue
+      matches.push({
+        trigger: left.text,
+        otherTrigger: right.text,
+        similarity,
+        duplicate: left.normalized === right.normalized,
+      })
+    }
+  }
+  if (matches.length === 0) return null
+  matches.sort((x, y) => y.similarity - x.similarity)
+  return { skill: skillRef(a), other: skillRef(b), similarity: matches[0].similarity, matches }
+}
+
+function prepareSource(source: TriggerSource): PreparedTrigger[] {
+  const seen = new Set<string>()
+  const prepared: PreparedTrigger[] = []
+  for (const trigger of source.triggers) {
+    const item = prepare(trigger)
+    if (!item.normalized || seen.has(item.normalized)) continue
+    seen.add(item.normalized)
+    prepared.push(item)
+  }
+  return prepared
+}
+
+function sortCollisions(collisions: TriggerCollision[]): TriggerCollision[] {
+  return collisions.sort((x, y) => y.similarity - x.similarity || y.matches.length - x.matches.length || x.skill.id - y.skill.id)
+}
+
+/**
+ * 全库两两比较，返回相似度不低于 threshold 的 Skill 对（按相似度降序）；
+ * 先用词与 trigram 的倒排索引筛出有共同片段的候选对，避免全量笛卡尔积
+ */
+export function findTriggerCollisions(sources: TriggerSource[], threshold = DEFAULT_COLLISION_THRESHOLD): TriggerCollision[] {
+  const prepared = sources.map(prepareSource)
+  const keysOf = (trigger: PreparedTrigger) => [
+    ...[...trigger.tokens].map((token) => `t:${token}`),
+    ...[...trigger.grams].map((gram) => `g:${gram}`),
+  ]
+  const index = new Map<string, Set<number>>()
+  prepared.forEach((triggers, i) => {
+    for (const trigger of triggers) {
+      for (const key of keysOf(trigger)) {
+        const owners = index.get(key) || new Set<number>()
+        owners.add(i)
+        index.set(key, owners)
+      }
+    }
+  })
+
+  const collisions: TriggerCollision[] = []
+  prepared.forEach((triggers, i) => {
+    const candidates = new Set<number>()
+    for (const trigger of triggers) {
+      for (const key of keysOf(trigger)) {
+        for (const j of index.get(key) || []) if (j > i) candidates.add(j)
+      }
+    }
+    for (const j of [...candidates].sort((x, y) => x - y)) {
+      const collision = collide(sources[i], triggers, sources[j], prepared[j], threshold)
+      if (collision) collisions.push(collision)
+    }
+  })
+  return sortCollisions(collisions)
+}
+
+/**
+ * 单个 Skill 与库中其他 Skill 的冲突（保存时的 lint 警告）；others 中与 skill 同 id 的记录会被跳过
+ */
+export function findSkillTriggerCollisions(
+  skill: TriggerSource,
+  others: TriggerSource[],
+  threshold = DEFAULT_COLLISION_THRESHOLD
+): TriggerCollision[] {
+  const prepared = prepareSource(skill)
+  const collisions: TriggerCollision[] = []
+  for (const other of others) {
+    if (other.id === skill.id) continue
+    const collision = collide(skill, prepared, other, prepareSource(other), threshold)
+    if (collision) collisions.push(collision)
+  }
+  return sortCollisions(collisions)
+}
+
+type TriggerSourceRow = { id: number; slug: string; title: string; triggers: unknown }
+
+export function toTriggerSource(row: TriggerSourceRow): TriggerSource {
+  return {
+    id: row.id,
+    slug: row.slug,
+    title: row.title,
+    triggers: Array.isArray(row.triggers) ? row.triggers.map((item) => String(item)) : [],
+  }
+}
+
+type TriggerSourceWhere = { id?: { not: number }; NOT?: { triggers: { equals: [] } } }
+
+/**
+ * 读取全库 Skill 的触发词（只取比较所需的列）；
+ * 传入 excludeSkillId 时只取其他有触发词的 Skill（保存时的冲突提示）
+ */
+export async function loadTriggerSources(
+  client: {
+    skill: {
+      findMany: (args: {
+        where?: TriggerSourceWhere
+        select: { id: true; slug: true; title: true; triggers: true }
+      }) => Promise<TriggerSourceRow[]>
+    }
+  },
+  options: { excludeSkillId?: number } = {}
+): Promise<TriggerSource[]> {
+  const where: TriggerSourceWhere | undefined = options.excludeSkillId === undefined
+    ? undefined
+    : { id: { not: options.excludeSkillId }, NOT: { triggers: { equals: [] } } }
+  const rows = await client.skill.findMany({ where, select: { id: true, slug: true, title: true, triggers: true } })
+  return rows.map(toTriggerSource)
+}
@@ -43,4 +43,6 @@ export interface LintError {
 export interface LintResult {
   valid: boolean
   errors: LintError[]
+  /** 不影响 valid 的提示（如与库中其他 Skill 的触发词冲突） */
+  warnings?: LintError[]
 }
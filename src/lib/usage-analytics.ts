@@ -0,0 +1,355 @@
+/**
+ * 使用统计：Agent 上报的 Skill 调用事件（SkillUsageEvent）与聚合看板
+ * 聚合均基于 groupBy（按 skillId / day / outcome / version / trigger 分组计数），不拉取明细
+ */
+import { timingSafeEqual } from 'crypto'
+import { z } from 'zod/v4'
+
+export const USAGE_NOT_READY_MESSAGE =
+  'Usage analytics is not initialized. Run pnpm db:generate:local and pnpm db:push:local, then restart dev server.'
+
+export const USAGE_OUTCOMES = ['success', 'failure', 'escalated'] as const
+export type UsageOutcome = (typeof USAGE_OUTCOMES)[number]
+
+export const USAGE_BATCH_MAX = 500
+export const DEFAULT_USAGE_DAYS = 30
+export const MAX_USAGE_DAYS = 180
+
+export const usageEventSchema = z.object({
+  slug: z.string().trim().min(1).max(64),
+  version: z.number().int().positive().optional(),
+  outcome: z.enum(USAGE_OUTCOMES),
+  latencyMs: z.number().int().min(0).max(3_600_000).optional(),
+  trigger: z.string().trim().max(500).optional(),
+  occurredAt: z.iso.datetime({ offset: true }).optional(),
+  source: z.string().trim().max(100).optional(),
+})
+
+export type UsageEventInput = z.infer<typeof usageEventSchema>
+
+export const usageBatchSchema = z.object({
+  events: z.array(z.unknown()).min(1).max(USAGE_BATCH_MAX),
+})
+
+/**
+ * 校验上报口令：USAGE_INGEST_TOKEN 未配置时拒绝所有上报
+ */
+export function verifyIngestToken(authorization: string | null): 'ok' | 'unconfigured' | 'unauthorized' {
+  const expected = process.env.USAGE_INGEST_TOKEN
+  if (!expected) return 'unconfigured'
+  const match = /^Bearer\s+(.+)$/i.exec(authorization || '')
+  if (!match) return 'unauthorized'
+  const given = Buffer.from(match[1].trim())
+  const want = Buffer.from(expected)
+  return given.length === want.length && timingSafeEqual(given, want) ? 'ok' : 'unauthorized'
+}
+
+export function toUsageDay(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()))
+}
+
+function formatDay(date: Date): string {
+  return date.toISOString().slice(0, 10)
+}
+
+export type UsageEventCreateData = {
+  skillId: number
+  slug: string
+  version: number | null
+  outcome: UsageOutcome
+  latencyMs: number | null
+  trigger: string | null
+  source: string | null
+  occurredAt: Date
+  day: Date
+}
+
+export type RejectedUsageEvent = { index: number; error: string }
+
+/**
+ * 逐条校验事件并按 slug 解析 skillId；单条不合法只记入 rejected，不影响整批
+ */
+export function prepareUsageEvents(
+  rawEvents: unknown[],
+  skillIdsBySlug: Map<string, number>,
+  now = new Date()
+): { accepted: UsageEventCreateData[]; rejected: RejectedUsageEvent[] } {
+  const accepted: UsageEventCreateData[] = []
+  const rejected: RejectedUsageEvent[] = []
+
+  rawEvents.forEach((raw, index) => {
+    const parsed = usageEventSchema.safeParse(raw)
+    if (!parsed.success) {
+      rejected.push({ index, error: parsed.error.issues.map((issue) => `${issue.path.join('.') || 'event'}: ${issue.message}`).join('; ') })
+      return
+    }
+    const event = parsed.data
+    const skillId = skillIdsBySlug.get(event.slug)
+    if (!skillId) {
+      rejected.push({ index, error: `Unknown skill slug: ${event.slug}` })
+      return
+    }
+    const occurredAt = event.occurredAt ? new Date(event.occurredAt) : now
+    accepted.push({
+      skillId,
+      slug: event.slug,
+      version: event.version ?? null,
+      outcome: event.outcome,
+      latencyMs: event.latencyMs ?? null,
+      trigger: event.trigger || null,
+      source: event.source || null,
+      occurredAt,
+      day: toUsageDay(occurredAt),
+    })
+  })
+
+  return { accepted, rejected }
+}
+
+type UsageGroupField = 'skillId' | 'day' | 'outcome' | 'version' | 'trigger'
+
+type UsageEventWhere = {
+  skillId?: number
+  occurredAt?: { gte: Date }
+  outcome?: { in: UsageOutcome[] }
+}
+
+type UsageGroupRow = {
+  skillId?: number
+  day?: Date
+  outcome?: string
+  version?: number | null
+  trigger?: string | null
+  _count: { _all: number }
+  _avg?: { latencyMs: number | null }
+}
+
+export type UsageEventRepo = {
+  createMany: (args: { data: UsageEventCreateData[] }) => Promise<{ count: number }>
+  groupBy: (args: {
+    by: UsageGroupField[]
+    where?: UsageEventWhere
+    _count: { _all: true }
+    _avg?: { latencyMs: true }
+  }) => Promise<UsageGroupRow[]>
+}
+
+function isPrismaCode(err: unknown, code: string): boolean {
+  return !!err && typeof err === 'object' && 'code' in err && (err as { code?: string }).code === code
+}
+
+export function hasUsageEvents(client: unknown): client is { skillUsageEvent: UsageEventRepo } {
+  return !!client && typeof client === 'object' && 'skillUsageEvent' in client
+}
+
+export function isUsageSchemaNotReadyError(err: unknown): boolean {
+  if (isPrismaCode(err, 'P2021') || isPrismaCode(err, 'P2022')) return true
+  const message = err instanceof Error ? err.message : ''
+  return message.includes('skill_usage_events')
+}
+
+export function parseUsageDays(raw: string | null): number {
+  const value = Number(raw)
+  if (!raw || !Number.isInteger(value) || value <= 0) return DEFAULT_USAGE_DAYS
+  return Math.min(value, MAX_USAGE_DAYS)
+}
+
+function usageSince(days: number, now: Date): Date {
+  const today = toUsageDay(now)
+  return new Date(today.getTime() - (days - 1) * 24 * 60 * 60 * 1000)
+}
+
+export type UsageCounts = {
+  total: number
+  success: number
+  failure: number
+  escalated: number
+  failureRate: number
+}
+
+function emptyCounts(): UsageCounts {
+  return { total: 0, success: 0, failure: 0, escalated: 0, failureRate: 0 }
+}
+
+function addOutcome(counts: UsageCounts, outcome: string | undefined, count: number) {
+  counts.total += count
+  if (outcome === 'success' || outcome === 'failure' || outcome === 'escalated') counts[outcome] += count
+  // 升级人工也视为未能独立完成
+  counts.failureRate = counts.total > 0 ? (counts.failure + counts.escalated) / counts.total : 0
+}
+
+export type UsageTrendPoint = UsageCounts & { day: string }
+
+/**
+ * 按天补齐趋势线（无事件的日期计 0）
+ */
+export function buildUsageTrend(rows: UsageGroupRow[], days: number, now = new Date()): UsageTrendPoint[] {
+  const since = usageSince(days, now)
+  const points = new Map<string, UsageTrendPoint>()
+  for (let i = 0; i < days; i++) {
+    const day = formatDay(new Date(since.getTime() + i * 24 * 60 * 60 * 1000))
+    points.set(day, { day, ...emptyCounts() })
+  }
+  for (const row of rows) {
+    if (!row.day) continue
+    const point = points.get(formatDay(new Date(row.day)))
+    if (point) addOutcome(point, row.outcome, row._count._all)
+  }
+  return [...points.values()]
+}
+
+type LatencyAccumulator = { sum: number; count: number }
+
+function addLatency(acc: LatencyAccumulator, row: UsageGroupRow) {
+  const avg = row._avg?.latencyMs
+  if (typeof avg === 'number') {
+    acc.sum += avg * row._count._all
+    acc.count += row._count._all
+  }
+}
+
+function averageLatency(acc: LatencyAccumulator): number | null {
+  return acc.count > 0 ? Math.round(acc.sum / acc.count) : null
+}
+
+export type SkillUsageSummary = UsageCounts & {
+  skillId: number
+  title: string
+  slug: string
+  avgLatencyMs: number | null
+}
+
+export type UsageOverview = {
+  days: number
+  totals: UsageCounts & { avgLatencyMs: number | null }
+  topSkills: SkillUsageSummary[]
+  failureHotspots: SkillUsageSummary[]
+  failingTriggers: Array<{ skillId: number; title: string; slug: string; trigger: string; count: number }>
+  trend: UsageTrendPoint[]
+}
+
+const TOP_LIMIT = 10
+
+/**
+ * 全局看板：调用量 Top、失败热点（按失败 + 升级次数）、失败触发词与每日趋势
+ */
+export async function getUsageOverview(
+  repo: UsageEventRepo,
+  lookupSkills: (ids: number[]) => Promise<Array<{ id: number; title: string; slug: string }>>,
+  days: number,
+  now = new Date()
+): Promise<UsageOverview> {
+  const where = { occurredAt: { gte: usageSince(days, now) } }
+  const [bySkill, byDay, byTrigger] = await Promise.all([
+    repo.groupBy({ by: ['skillId', 'outcome'], where, _count: { _all: true }, _avg: { latencyMs: true } }),
+    repo.groupBy({ by: ['day', 'outcome'], where, _count: { _all: true } }),
+    repo.groupBy({
+      by: ['skillId', 'trigger'],
+      where: { ...where, outcome: { in: ['failure', 'escalated'] } },
+      _count: { _all: true },
+    }),
+  ])
+
+  const totals = emptyCounts()
+  const totalLatency: LatencyAccumulator = { sum: 0, count: 0 }
+  const perSkill = new Map<number, { counts: UsageCounts; latency: LatencyAccumulator }>()
+  for (const row of bySkill) {
+    if (row.skillId === undefined) continue
+    const entry = perSkill.get(row.skillId) || { counts: emptyCounts(), latency: { sum: 0, count: 0 } }
+    addOutcome(entry.counts, row.outcome, row._count._all)
+    addOutcome(totals, row.outcome, row._count._all)
+    addLatency(entry.latency, row)
+    addLatency(totalLatency, row)
+    perSkill.set(row.skillId, entry)
+  }
+
+  const triggerRows = byTrigger
+    .filter((row) => row.skillId !== undefined && row.trigger)
+    .sort((a, b) => b._count._all - a._count._all)
+    .slice(0, TOP_LIMIT)
+
+  const skillIds = [...new Set([...perSkill.keys(), ...triggerRows.map((row) => row.skillId!)])]
+  const skills = new Map((skillIds.length > 0 ? await lookupSkills(skillIds) : []).map((s) => [s.id, s]))
+
+  const summaries: SkillUsageSummary[] = [...perSkill.entries()].map(([skillId, entry]) => ({
+    skillId,
+    title: skills.get(skillId)?.title ?? `#${skillId}`,
+    slug: skills.get(skillId)?.slug ?? '',
+    ...entry.counts,
+    avgLatencyMs: averageLatency(entry.latency),
+  }))
+
+  return {
+    days,
+    totals: { ...totals, avgLatencyMs: averageLatency(totalLatency) },
+    topSkills: [...summaries].sort((a, b) => b.total - a.total).slice(0, TOP_LIMIT),
+    failureHotspots: summaries
+      .filter((s) => s.failure + s.escalated > 0)
+      .sort((a, b) => (b.failure + b.escalated) - (a.failure + a.escalated) || b.failureRate - a.failureRate)
+      .slice(0, TOP_LIMIT),
+    failingTriggers: triggerRows.map((row) => ({
+      skillId: row.skillId!,
+      title: skills.get(row.skillId!)?.title ?? `#${row.skillId}`,
+      slug: skills.get(row.skillId!)?.slug ?? '',
+      trigger: row.trigger!,
+      count: row._count._all,
+    })),
+    trend: buildUsageTrend(byDay, days, now),
+  }
+}
+
+export type SkillUsageDetail = {
+  days: number
+  totals: UsageCounts & { avgLatencyMs: number | null }
+  trend: UsageTrendPoint[]
+  versions: Array<UsageCounts & { version: number | null }>
+  triggers: Array<UsageCounts & { trigger: string }>
+}
+
+/**
+ * 单个 Skill 的统计：每日趋势、按版本与按触发词的成功 / 失败分布
+ */
+export async function getSkillUsage(
+  repo: UsageEventRepo,
+  skillId: number,
+  days: number,
+  now = new Date()
+): Promise<SkillUsageDetail> {
+  const where = { skillId, occurredAt: { gte: usageSince(days, now) } }
+  const [byDay, byVersion, byTrigger] = await Promise.all([
+    repo.groupBy({ by: ['day', 'outcome'], where, _count: { _all: true }, _avg: { latencyMs: true } }),
+    repo.groupBy({ by: ['version', 'outcome'], where, _count: { _all: true } }),
+    repo.groupBy({ by: ['trigger', 'outcome'], where, _count: { _all: true } }),
+  ])
+
+  const totals = emptyCounts()
+  const latency: LatencyAccumulator = { sum: 0, count: 0 }
+  for (const row of byDay) {
+    addOutcome(totals, row.outcome, row._count._all)
+    addLatency(latency, row)
+  }
+
+  const versions = new Map<number | null, UsageCounts & { version: number | null }>()
+  for (const row of byVersion) {
+    const key = row.version ?? null
+    const entry = versions.get(key) || { version: key, ...emptyCounts() }
+    addOutcome(entry, row.outcome, row._count._all)
+    versions.set(key, entry)
+  }
+
+  const triggers = new Map<string, UsageCounts & { trigger: string }>()
+  for (const row of byTrigger) {
+    if (!row.trigger) continue
+    const entry = triggers.get(row.trigger) || { trigger: row.trigger, ...emptyCounts() }
+    addOutcome(entry, row.outcome, row._count._all)
+    triggers.set(row.trigger, entry)
+  }
+
+  return {
+    days,
+    totals: { ...totals, avgLatencyMs: averageLatency(latency) },
+    trend: buildUsageTrend(byDay, days, now),
+    versions: [...versions.values()].sort((a, b) => (b.version ?? 0) - (a.version ?? 0)),
+    triggers: [...triggers.values()].sort((a, b) => b.total - a.total).slice(0, TOP_LIMIT),
+  }
+}
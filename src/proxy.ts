@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { isLoginRequired, readApiToken, sessionCookieName } from '@/lib/auth'
+
+const PUBLIC_API_PREFIXES = ['/api/auth/', '/api/usage/events']
+const READ_METHODS = new Set(['GET', 'HEAD', 'OPTIONS'])
+
+/**
+ * 登录拦截（仅 AUTH_MODE=local_only / mixed 时生效）：只检查是否带会话 Cookie 或 API 令牌，
+ * 会话 / 令牌是否有效、操作者是谁由各接口的 requireActor / requireReader 判定
+ */
+export function proxy(request: NextRequest) {
+  if (!isLoginRequired()) return NextResponse.next()
+
+  const { pathname, search } = request.nextUrl
+  if (request.cookies.get(sessionCookieName())?.value) return NextResponse.next()
+
+  if (pathname.startsWith('/api/')) {
+    if (readApiToken(request)) return NextResponse.next()
+    if (READ_METHODS.has(request.method) || PUBLIC_API_PREFIXES.some((prefix) => pathname.startsWith(prefix))) {
+      return NextResponse.next()
+    }
+    return NextResponse.json({ error: 'Authentication required' }, { status: 401 })
+  }
+
+  if (pathname === '/login') return NextResponse.next()
+  const loginUrl = new URL('/login', request.url)
+  loginUrl.searchParams.set('next', `${pathname}${search}`)
+  return NextResponse.redirect(loginUrl)
+}
+
+export const config = {
+  matcher: ['/((?!_next/static|_next/image|favicon.ico|.*\\.(?:svg|png|jpg|jpeg|gif|webp|ico)$).*)'],
+}
@@ -30,6 +30,7 @@ const output = {
     input_tokens: 150,
     output_tokens: 80,
   },
+  total_cost_usd: 0.0012,
 }
 
 process.stdout.write(JSON.stringify(output))